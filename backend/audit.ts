@@ -0,0 +1,85 @@
+import type { Request } from 'express';
+import { sql } from 'drizzle-orm';
+import type { AuditLog, InsertAuditLog } from '@shared/schema';
+import { db } from './db';
+import { storage } from './storage';
+
+export type AuditAction = 'read' | 'decrypt' | 'export' | 'print' | 'ocr';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['read', 'decrypt', 'export', 'print', 'ocr'];
+
+export type AuditResource = 'patient' | 'insurance' | 'transaction' | 'coverage' | 'job' | 'ocr-extraction' | 'document' | 'fax' | 'verification-form' | 'audit-log';
+
+export interface AuditEvent {
+  action: AuditAction;
+  resource: AuditResource;
+  patientId?: string | null;
+  resourceId?: string | null;
+  field?: string;
+}
+
+/**
+ * Writes audit entries for PHI the request is about to reveal, stamped with the session user,
+ * practice, client IP and user agent. Throws when the write fails; callers must not return the
+ * data in that case.
+ */
+export async function recordAudit(req: Request, events: AuditEvent | AuditEvent[]): Promise<void> {
+  const session = req.session as any;
+  const entries: InsertAuditLog[] = (Array.isArray(events) ? events : [events]).map(event => ({
+    userId: session?.userId || null,
+    userEmail: session?.userEmail || null,
+    practiceId: session?.practiceId || null,
+    patientId: event.patientId || null,
+    action: event.action,
+    resource: event.resource,
+    resourceId: event.resourceId || null,
+    field: event.field || null,
+    ipAddress: req.ip || req.socket?.remoteAddress || null,
+    userAgent: req.get('user-agent') || null,
+  }));
+  await storage.createAuditLogs(entries);
+}
+
+/**
+ * Installs a trigger that rejects UPDATE and DELETE on audit_logs, so entries stay append-only
+ * even for code that bypasses storage. Safe to run on every startup.
+ */
+export async function ensureAuditLogAppendOnly(): Promise<void> {
+  await db.execute(sql`
+    CREATE OR REPLACE FUNCTION audit_logs_append_only() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_logs is append-only';
+    END;
+    $$ LANGUAGE plpgsql
+  `);
+  await db.execute(sql`DROP TRIGGER IF EXISTS audit_logs_append_only ON audit_logs`);
+  await db.execute(sql`
+    CREATE TRIGGER audit_logs_append_only BEFORE UPDATE OR DELETE ON audit_logs
+    FOR EACH ROW EXECUTE FUNCTION audit_logs_append_only()
+  `);
+}
+
+export const AUDIT_CSV_HEADER = 'Timestamp,User ID,User Email,Practice ID,Patient ID,Action,Resource,Resource ID,Field,IP Address,User Agent';
+
+// Quotes fields that need it and defuses spreadsheet formulas (user agents are client-supplied)
+function csvValue(value: string | null): string {
+  if (value === null) return '';
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditLogCsvRow(entry: AuditLog): string {
+  return [
+    entry.createdAt.toISOString(),
+    entry.userId,
+    entry.userEmail,
+    entry.practiceId,
+    entry.patientId,
+    entry.action,
+    entry.resource,
+    entry.resourceId,
+    entry.field,
+    entry.ipAddress,
+    entry.userAgent,
+  ].map(csvValue).join(',');
+}
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import type { AuthToken, User } from '@shared/schema';
+import { storage } from './storage';
+import { sendEmail, appUrl } from './email';
+import { hashNewPassword, preparePasswordChange, applyPasswordChange } from './passwords';
+import { unlockAccount } from './login-throttle';
+
+export type AuthTokenPurpose = 'invite' | 'reset';
+
+const TOKEN_TTL_MS: Record<AuthTokenPurpose, number> = {
+  invite: parseInt(process.env.INVITE_TTL_HOURS || '72', 10) * 60 * 60 * 1000,
+  reset: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60', 10) * 60 * 1000
+};
+
+// A user asking for several resets in a row gets one email, not a flood
+const RESET_REQUEST_INTERVAL_MS = 60 * 1000;
+
+export class AuthTokenError extends Error {
+  constructor(message: string = 'This link is invalid or has expired') {
+    super(message);
+    this.name = 'AuthTokenError';
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a token, replacing any unused one of the same purpose so only the newest link works
+ * @returns The raw token; only its hash is stored
+ */
+async function issueToken(user: User, purpose: AuthTokenPurpose, createdBy?: string): Promise<string> {
+  await storage.deleteUnusedAuthTokens(user.id, purpose);
+  const token = crypto.randomBytes(32).toString('base64url');
+  await storage.createAuthToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(token),
+    createdBy: createdBy || null,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_MS[purpose])
+  });
+  return token;
+}
+
+/**
+ * Looks up an unused, unexpired token of the given purpose without using it up
+ * @throws AuthTokenError
+ */
+async function findValidToken(token: string, purpose: AuthTokenPurpose): Promise<{ record: AuthToken; user: User }> {
+  const record = typeof token === 'string' && token ? await storage.getAuthTokenByHash(hashToken(token)) : undefined;
+  if (!record || record.purpose !== purpose || record.usedAt || record.expiresAt.getTime() <= Date.now()) {
+    throw new AuthTokenError();
+  }
+  const user = await storage.getUser(record.userId);
+  if (!user) {
+    throw new AuthTokenError();
+  }
+  return { record, user };
+}
+
+async function consume(record: AuthToken): Promise<void> {
+  if (!(await storage.consumeAuthToken(record.id))) {
+    throw new AuthTokenError();
+  }
+}
+
+// Links carry the token in the URL fragment, which browsers never send to the server, so it
+// stays out of access logs and Referer headers
+
+/**
+ * Emails a user a link to set their first password
+ */
+export async function sendInvitation(user: User, invitedBy: string): Promise<void> {
+  const token = await issueToken(user, 'invite', invitedBy);
+  await sendEmail({
+    to: user.email,
+    subject: 'You have been invited to Smith AI Center',
+    text: [
+      `Hello ${user.username},`,
+      '',
+      'An account has been created for you. Choose a password to activate it:',
+      '',
+      appUrl(`/accept-invite#token=${token}`),
+      '',
+      `This link works once and expires in ${Math.round(TOKEN_TTL_MS.invite / 3600000)} hours.`
+    ].join('\n')
+  });
+}
+
+/**
+ * Emails a password reset link if the address belongs to a user. Callers answer the same way
+ * either way, so the response does not reveal which emails have accounts.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  if (!user) return;
+
+  const latest = await storage.getLatestAuthToken(user.id, 'reset');
+  if (latest && !latest.usedAt && Date.now() - latest.createdAt.getTime() < RESET_REQUEST_INTERVAL_MS) return;
+
+  const token = await issueToken(user, 'reset');
+  await sendEmail({
+    to: user.email,
+    subject: 'Reset your Smith AI Center password',
+    text: [
+      `Hello ${user.username},`,
+      '',
+      'Someone asked to reset the password for this account. If it was you, choose a new password here:',
+      '',
+      appUrl(`/reset-password#token=${token}`),
+      '',
+      `This link works once and expires in ${Math.round(TOKEN_TTL_MS.reset / 60000)} minutes. If you did not ask for it, you can ignore this email.`
+    ].join('\n')
+  });
+}
+
+/**
+ * What a link is for, so the accept-invite and reset-password screens can greet the user
+ * @throws AuthTokenError
+ */
+export async function describeToken(token: string, purpose: AuthTokenPurpose): Promise<{ email: string; username: string; expiresAt: string }> {
+  const { record, user } = await findValidToken(token, purpose);
+  return { email: user.email, username: user.username, expiresAt: record.expiresAt.toISOString() };
+}
+
+/**
+ * Sets an invited user's first password. The token is only used up once the password passes
+ * the policy, so a rejected password does not waste the link.
+ * @throws AuthTokenError, PasswordPolicyError
+ */
+export async function acceptInvitation(token: string, password: string): Promise<User> {
+  const { record, user } = await findValidToken(token, 'invite');
+  const hashed = await hashNewPassword(password, user);
+  await consume(record);
+  await storage.updateUserPassword(user.id, hashed);
+  return user;
+}
+
+/**
+ * Replaces a forgotten password, then signs the user out everywhere and clears any login
+ * lockout
+ * @throws AuthTokenError, PasswordPolicyError
+ */
+export async function resetPassword(token: string, password: string): Promise<User> {
+  const { record, user } = await findValidToken(token, 'reset');
+  const hashed = await preparePasswordChange(user, password);
+  await consume(record);
+  await applyPasswordChange(user, hashed);
+  await storage.deleteSessionsByUserId(user.id);
+  await unlockAccount(user.email);
+  return user;
+}
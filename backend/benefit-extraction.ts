@@ -0,0 +1,200 @@
+import type { Insurance } from '@shared/schema';
+
+// Shapes of the values a benefit document states
+export type BenefitValueKind = 'percent' | 'amount' | 'frequency' | 'waitingPeriod';
+
+export interface BenefitFieldSpec {
+  saiCode: string;
+  refInsCode: string;
+  category: string;
+  fieldName: string;
+  kind: BenefitValueKind;
+  labels: RegExp; // the value follows the label on its line, or is on the next line
+  exclude?: RegExp; // lines that match the label but belong to another field
+  insuranceField?: 'preventiveCoverage' | 'basicCoverage' | 'majorCoverage' | 'deductible' | 'maxBenefit';
+}
+
+// Fields read from benefit documents, in the codes and categories of the verification data panel
+export const BENEFIT_FIELDS: BenefitFieldSpec[] = [
+  // Coverage percentages by class
+  { saiCode: 'VF000013', refInsCode: 'D013', category: 'Preventative Coverage', fieldName: 'Preventive Coverage', kind: 'percent', labels: /\b(?:preventi?ve|diagnostic\s*(?:&|and)\s*preventi?ve|class\s*(?:i|1)\b)/i, exclude: /\bwaiting\b/i, insuranceField: 'preventiveCoverage' },
+  { saiCode: 'VF000023', refInsCode: 'D023', category: 'Basic Coverage', fieldName: 'Basic Coverage', kind: 'percent', labels: /\b(?:basic(?:\s*services)?|class\s*(?:ii|2)\b)/i, exclude: /\bwaiting\b/i, insuranceField: 'basicCoverage' },
+  { saiCode: 'VF000035', refInsCode: 'D035', category: 'Major Coverage', fieldName: 'Major Coverage', kind: 'percent', labels: /\b(?:major(?:\s*services)?|class\s*(?:iii|3)\b)/i, exclude: /\bwaiting\b/i, insuranceField: 'majorCoverage' },
+
+  // Coverage percentages by procedure
+  { saiCode: 'VF000020', refInsCode: 'D020', category: 'Basic Coverage', fieldName: 'Fillings Coverage', kind: 'percent', labels: /\b(?:fillings?|restorative|amalgams?|composites?)\b/i },
+  { saiCode: 'VF000021', refInsCode: 'D021', category: 'Basic Coverage', fieldName: 'Extractions Coverage', kind: 'percent', labels: /\b(?:extractions?|oral\s*surgery)\b/i },
+  { saiCode: 'VF000022', refInsCode: 'D022', category: 'Basic Coverage', fieldName: 'Scaling & Root Planing', kind: 'percent', labels: /\b(?:scaling|root\s*planing|srp|periodontics?)\b/i },
+  { saiCode: 'VF000030', refInsCode: 'D030', category: 'Major Coverage', fieldName: 'Crowns Coverage', kind: 'percent', labels: /\bcrowns?\b/i },
+  { saiCode: 'VF000031', refInsCode: 'D031', category: 'Major Coverage', fieldName: 'Bridges Coverage', kind: 'percent', labels: /\bbridges?\b/i },
+  { saiCode: 'VF000032', refInsCode: 'D032', category: 'Major Coverage', fieldName: 'Dentures Coverage', kind: 'percent', labels: /\bdentures?\b/i },
+  { saiCode: 'VF000033', refInsCode: 'D033', category: 'Major Coverage', fieldName: 'Root Canals Coverage', kind: 'percent', labels: /\b(?:root\s*canals?|endodontics?)\b/i },
+  { saiCode: 'VF000034', refInsCode: 'D034', category: 'Major Coverage', fieldName: 'Implants Coverage', kind: 'percent', labels: /\bimplants?\b/i },
+
+  // Frequencies
+  { saiCode: 'VF000010', refInsCode: 'D010', category: 'Preventative Coverage', fieldName: 'Annual Cleaning Benefit', kind: 'frequency', labels: /\b(?:cleanings?|prophylaxis|prophy)\b/i },
+  { saiCode: 'VF000011', refInsCode: 'D011', category: 'Preventative Coverage', fieldName: 'Annual Exams', kind: 'frequency', labels: /\b(?:exams?|(?:periodic\s*)?(?:oral\s*)?evaluations?)\b/i },
+  { saiCode: 'VF000012', refInsCode: 'D012', category: 'Preventative Coverage', fieldName: 'X-ray Coverage', kind: 'frequency', labels: /\b(?:bitewings?|bwx|x-?rays?)\b/i, exclude: /\b(?:full\s*mouth|fmx|fms|panoramic|pano)\b/i },
+  { saiCode: 'VF000041', refInsCode: 'D041', category: 'Preventative Coverage', fieldName: 'FMS Frequency (Years)', kind: 'frequency', labels: /\b(?:full\s*mouth|fmx|fms|panoramic|pano)\b/i },
+  { saiCode: 'VF000042', refInsCode: 'D042', category: 'Preventative Coverage', fieldName: 'Fluoride Varnish Frequency', kind: 'frequency', labels: /\bfluoride\b/i },
+
+  // Waiting periods - the line has to mention both the waiting period and the class
+  { saiCode: 'VF000043', refInsCode: 'D043', category: 'Basic Coverage', fieldName: 'Basic Waiting Period', kind: 'waitingPeriod', labels: /(?=.*\bwaiting\b).*\b(?:basic|class\s*(?:ii|2)\b)/i },
+  { saiCode: 'VF000045', refInsCode: 'D045', category: 'Major Coverage', fieldName: 'Major Waiting Period', kind: 'waitingPeriod', labels: /(?=.*\bwaiting\b).*\b(?:major|class\s*(?:iii|3)\b)/i },
+
+  // Deductibles and maximums
+  { saiCode: 'VF000051', refInsCode: 'D051', category: 'Deductible', fieldName: 'Annual Deductible Amount', kind: 'amount', labels: /\b(?:individual\s*|annual\s*|single\s*)?deductible\b/i, exclude: /\bfamily\s*deductible\b/i, insuranceField: 'deductible' },
+  { saiCode: 'VF000053', refInsCode: 'D053', category: 'Deductible', fieldName: 'Family Deductible', kind: 'amount', labels: /\bfamily\s*deductible\b|\bdeductible\b.*\bfamily\b/i },
+  { saiCode: 'VF000060', refInsCode: 'D060', category: 'Annual Maximum', fieldName: 'Annual Maximum Benefit', kind: 'amount', labels: /\b(?:annual|calendar\s*year|plan\s*year|benefit\s*year|yearly)?\s*max(?:imum)?\b/i, exclude: /\bortho/i, insuranceField: 'maxBenefit' },
+  { saiCode: 'VF000061', refInsCode: 'D061', category: 'Annual Maximum', fieldName: 'Ortho Maximum', kind: 'amount', labels: /\bortho\w*\b/i },
+];
+
+/**
+ * One line of text from a document page, with the OCR confidence it was read at
+ */
+export interface DocumentLine {
+  text: string;
+  confidence: number; // 0-100; 100 for text taken from a PDF's text layer
+  documentId: string;
+  page: number;
+}
+
+/**
+ * A benefit field in the shape of the verification data panel's rows, with where it was read
+ */
+export interface ExtractedBenefitRow {
+  saiCode: string;
+  refInsCode: string;
+  category: string;
+  fieldName: string;
+  preStepValue: string; // Value already on the insurance, if tracked there
+  missing: 'Y' | 'N';
+  aiCallValue: string; // Value read from the documents
+  verifiedBy: string;
+  confidence: number;
+  source?: { documentId: string; page: number };
+}
+
+const NUMBER_WORDS: { [word: string]: number } = { once: 1, one: 1, twice: 2, two: 2, three: 3, four: 4 };
+
+const NOT_COVERED = /\b(?:not\s*covered|no\s*coverage|excluded|not\s*a\s*covered)\b/i;
+
+function readPercent(text: string): string | undefined {
+  if (NOT_COVERED.test(text)) return 'Not Covered';
+  const match = text.match(/\b(\d{1,3})\s*%/);
+  return match && parseInt(match[1]) <= 100 ? `${parseInt(match[1])}%` : undefined;
+}
+
+function readAmount(text: string): string | undefined {
+  const match = text.match(/\$\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{2}))?/);
+  if (!match) return undefined;
+  const dollars = parseInt(match[1].replace(/,/g, '')).toLocaleString('en-US');
+  return match[2] && match[2] !== '00' ? `$${dollars}.${match[2]}` : `$${dollars}`;
+}
+
+function unitOf(unit: string, count: number): string {
+  const base = /^m/i.test(unit) ? 'month' : 'year';
+  return count === 1 ? base : `${count} ${base}s`;
+}
+
+// "2 per calendar year", "once every 5 years", "1 in 36 months", "2x/yr", "every 6 months"
+function readFrequency(text: string): string | undefined {
+  const counted = text.match(/\b(\d+|once|twice|one|two|three|four)\s*(?:x|times?)?\s*(?:per|every|each|a|in|\/)\s*(\d+\s*)?(calendar\s*years?|benefit\s*years?|years?|yrs?|months?|mos?)\b/i);
+  if (counted) {
+    const count = NUMBER_WORDS[counted[1].toLowerCase()] ?? parseInt(counted[1]);
+    const period = counted[2] ? parseInt(counted[2]) : 1;
+    return `${count} per ${unitOf(counted[3], period)}`;
+  }
+  const every = text.match(/\bevery\s*(\d+)\s*(years?|yrs?|months?|mos?)\b/i);
+  return every ? `1 per ${unitOf(every[2], parseInt(every[1]))}` : undefined;
+}
+
+function readWaitingPeriod(text: string): string | undefined {
+  if (/\b(?:none|no\s*waiting|waived)\b/i.test(text)) return 'None';
+  const match = text.match(/\b(\d+)\s*-?\s*(months?|mos?|years?|yrs?)\b/i);
+  if (!match) return undefined;
+  const count = parseInt(match[1]);
+  const unit = /^m/i.test(match[2]) ? 'month' : 'year';
+  return `${count} ${unit}${count === 1 ? '' : 's'}`;
+}
+
+const READERS: Record<BenefitValueKind, (text: string) => string | undefined> = {
+  percent: readPercent,
+  amount: readAmount,
+  frequency: readFrequency,
+  waitingPeriod: readWaitingPeriod,
+};
+
+interface Candidate {
+  value: string;
+  confidence: number;
+  line: DocumentLine;
+}
+
+function findValue(spec: BenefitFieldSpec, lines: DocumentLine[]): Candidate | undefined {
+  let best: Candidate | undefined;
+  lines.forEach((line, i) => {
+    if (spec.exclude?.test(line.text)) return;
+    const label = line.text.match(spec.labels);
+    if (!label) return;
+
+    // Value after the label on the same line, else the line below it on the same page
+    const sameLine = READERS[spec.kind](line.text.slice((label.index || 0) + label[0].length));
+    const next = lines[i + 1];
+    const nextLine = !sameLine && next && next.documentId === line.documentId && next.page === line.page
+      ? READERS[spec.kind](next.text)
+      : undefined;
+    const value = sameLine || nextLine;
+    if (!value) return;
+
+    const confidence = Math.round(nextLine ? Math.min(line.confidence, next!.confidence) : line.confidence);
+    if (!best || confidence > best.confidence) {
+      best = { value, confidence, line };
+    }
+  });
+  return best;
+}
+
+// Schedules written as "100/80/50" give the preventive, basic and major percentages at once
+function readCoverageSchedule(lines: DocumentLine[]): { values: [string, string, string]; line: DocumentLine } | undefined {
+  for (const line of lines) {
+    if (!/\b(?:coverage|co-?insurance|plan|benefits?|schedule)\b/i.test(line.text)) continue;
+    const match = line.text.match(/\b(\d{2,3})\s*[/-]\s*(\d{1,3})\s*[/-]\s*(\d{1,3})\b/);
+    if (match && [match[1], match[2], match[3]].every(n => parseInt(n) <= 100)) {
+      return { values: [`${parseInt(match[1])}%`, `${parseInt(match[2])}%`, `${parseInt(match[3])}%`], line };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads coverage percentages, frequencies, waiting periods, deductibles and maximums from the
+ * lines of benefit documents. Every field in BENEFIT_FIELDS gets a row; those not found are
+ * marked missing.
+ * @param insurance - Supplies the values already on file (preStepValue)
+ */
+export function extractBenefits(lines: DocumentLine[], insurance?: Insurance): ExtractedBenefitRow[] {
+  const schedule = readCoverageSchedule(lines);
+  const scheduleIndex: { [saiCode: string]: number } = { VF000013: 0, VF000023: 1, VF000035: 2 };
+
+  return BENEFIT_FIELDS.map(spec => {
+    let found = findValue(spec, lines);
+    if (!found && schedule && spec.saiCode in scheduleIndex) {
+      found = { value: schedule.values[scheduleIndex[spec.saiCode]], confidence: Math.round(schedule.line.confidence), line: schedule.line };
+    }
+
+    const onFile = spec.insuranceField ? insurance?.[spec.insuranceField] : undefined;
+    return {
+      saiCode: spec.saiCode,
+      refInsCode: spec.refInsCode,
+      category: spec.category,
+      fieldName: spec.fieldName,
+      preStepValue: onFile ? (spec.kind === 'percent' && !onFile.includes('%') ? `${onFile}%` : onFile) : '',
+      missing: found ? 'N' : 'Y',
+      aiCallValue: found?.value || '',
+      verifiedBy: found ? 'Document Analysis' : '-',
+      confidence: found?.confidence || 0,
+      source: found ? { documentId: found.line.documentId, page: found.line.page } : undefined,
+    };
+  });
+}
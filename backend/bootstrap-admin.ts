@@ -0,0 +1,62 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { hashNewPassword } from "./passwords";
+import { createPersonalPractice } from "./practices";
+import { passwordPolicyError } from "@shared/password-policy";
+
+// Creates the first admin account of a new installation.
+//
+//   npm run users:bootstrap -- --email you@example.com --username you
+//
+// Only works while there are no users at all, so it cannot be used to take over a running
+// system. The generated password is printed once; the admin is asked to set up MFA at first
+// login and can then create everyone else from User Management.
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function generatePassword(user: { email: string; username: string }): string {
+  for (;;) {
+    const password = crypto.randomBytes(18).toString("base64url");
+    if (!passwordPolicyError(password, user)) return password;
+  }
+}
+
+export async function bootstrapAdmin(email: string, username: string): Promise<string> {
+  const existing = await storage.getAllUsers();
+  if (existing.length > 0) {
+    throw new Error("Users already exist; create further accounts from User Management");
+  }
+
+  const password = generatePassword({ email, username });
+  const user = await storage.createUser({
+    email,
+    username,
+    password: await hashNewPassword(password, { email, username }),
+    role: "admin",
+    dataSource: null
+  });
+  await createPersonalPractice(user);
+  return password;
+}
+
+// Run bootstrap if this file is executed directly
+const email = argValue("--email");
+const username = argValue("--username");
+if (!email || !username) {
+  console.error("Usage: npm run users:bootstrap -- --email <email> --username <username>");
+  process.exit(1);
+}
+
+bootstrapAdmin(email, username)
+  .then((password) => {
+    console.log(`Created admin ${email}`);
+    console.log(`Password (shown once): ${password}`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,139 @@
+import { normalizePayerName } from './payers';
+
+export type CardSide = 'front' | 'back';
+
+// Card fields read from a label; the carrier is found separately through the payer directory
+export type CardField = 'name' | 'policyNumber' | 'groupNumber' | 'subscriberId';
+
+/**
+ * Part of a card as fractions of its width and height, with 0,0 at the top left
+ */
+export interface CardRegion {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface FieldLayout {
+  labels: RegExp; // printed before the value on the same line, or on the line above it
+  side?: CardSide; // only look on this side of the card
+  region?: CardRegion; // where the value usually sits; matches inside it are preferred
+}
+
+/**
+ * Where a payer prints each field on its cards
+ */
+export interface CardTemplate {
+  id: string;
+  payers: string[]; // payer names and aliases the layout belongs to
+  fields: Partial<Record<CardField, FieldLayout>>;
+}
+
+const LEFT_HALF: CardRegion = { x0: 0, y0: 0.2, x1: 0.6, y1: 1 };
+
+// Labels most carriers use. Payer templates are tried first; these fill in whatever they miss.
+export const GENERIC_CARD_TEMPLATE: CardTemplate = {
+  id: 'generic',
+  payers: [],
+  fields: {
+    name: {
+      labels: /\b(?:(?:member|patient|subscriber|enrollee|employee|cardholder)(?:\s*name)?|name)\b(?!\s*(?:id|number|no\b|#))/i
+    },
+    policyNumber: {
+      labels: /\b(?:(?:policy|certificate|contract|member|card)\s*(?:id|number|no\b\.?|#)|policy|id\s*(?:number|no\b\.?|#)?)/i
+    },
+    groupNumber: {
+      labels: /\b(?:group|grp)\s*(?:number|no\b\.?|#|id)?/i
+    },
+    subscriberId: {
+      labels: /\b(?:subscriber|member|enrollee|dental)\s*(?:id(?:entification)?|number|no\b\.?|#)/i
+    }
+  }
+};
+
+export const CARD_TEMPLATES: CardTemplate[] = [
+  {
+    id: 'delta-dental',
+    payers: ['Delta Dental', 'DeltaCare'],
+    fields: {
+      name: { labels: /\b(?:enrollee|subscriber)(?:\s*name)?\b(?!\s*(?:id|number|#))/i, side: 'front', region: LEFT_HALF },
+      subscriberId: { labels: /\b(?:enrollee|subscriber)\s*(?:id|number|#)/i, side: 'front', region: LEFT_HALF },
+      policyNumber: { labels: /\b(?:enrollee|subscriber)\s*(?:id|number|#)/i, side: 'front', region: LEFT_HALF },
+      groupNumber: { labels: /\bgroup\s*(?:number|no\b\.?|#)?/i, side: 'front' }
+    }
+  },
+  {
+    id: 'cigna',
+    payers: ['Cigna'],
+    fields: {
+      name: { labels: /\bname\b/i, side: 'front', region: LEFT_HALF },
+      subscriberId: { labels: /\bid\b/i, side: 'front', region: LEFT_HALF },
+      policyNumber: { labels: /\bid\b/i, side: 'front', region: LEFT_HALF },
+      groupNumber: { labels: /\bgroup\b/i, side: 'front' }
+    }
+  },
+  {
+    id: 'metlife',
+    payers: ['MetLife', 'Metropolitan Life'],
+    fields: {
+      name: { labels: /\b(?:subscriber|member)(?:\s*name)?\b(?!\s*(?:id|number|#))/i, side: 'front' },
+      subscriberId: { labels: /\b(?:subscriber|member)\s*(?:id|number|#)/i, side: 'front' },
+      policyNumber: { labels: /\b(?:subscriber|member)\s*(?:id|number|#)/i, side: 'front' },
+      groupNumber: { labels: /\b(?:group|grp)\s*(?:number|no\b\.?|#)?/i, side: 'front' }
+    }
+  },
+  {
+    id: 'aetna',
+    payers: ['Aetna'],
+    fields: {
+      name: { labels: /\bmember\b(?!\s*(?:id|number|#))/i, side: 'front', region: LEFT_HALF },
+      subscriberId: { labels: /\bmember\s*id\b/i, side: 'front', region: LEFT_HALF },
+      policyNumber: { labels: /\bmember\s*id\b/i, side: 'front', region: LEFT_HALF },
+      groupNumber: { labels: /\b(?:group|grp)\s*(?:number|#)?/i, side: 'front' }
+    }
+  },
+  {
+    id: 'guardian',
+    payers: ['Guardian'],
+    fields: {
+      name: { labels: /\bmember(?:\s*name)?\b(?!\s*(?:id|number|#))/i, side: 'front' },
+      subscriberId: { labels: /\bmember\s*id\b/i, side: 'front' },
+      policyNumber: { labels: /\bmember\s*id\b/i, side: 'front' },
+      groupNumber: { labels: /\b(?:plan|group)\s*(?:number|no\b\.?|#)/i, side: 'front' }
+    }
+  },
+  {
+    id: 'unitedhealthcare',
+    payers: ['UnitedHealthcare', 'United Healthcare', 'UHC'],
+    fields: {
+      name: { labels: /\bmember\b(?!\s*(?:id|number|#))/i, side: 'front', region: LEFT_HALF },
+      subscriberId: { labels: /\bmember\s*id\b/i, side: 'front', region: LEFT_HALF },
+      policyNumber: { labels: /\bmember\s*id\b/i, side: 'front', region: LEFT_HALF },
+      groupNumber: { labels: /\bgroup\s*(?:number|#)?/i, side: 'front' }
+    }
+  },
+  {
+    id: 'blue-cross-blue-shield',
+    payers: ['Blue Cross Blue Shield', 'BCBS', 'Anthem'],
+    fields: {
+      // BCBS member IDs start with a three-letter plan prefix, printed as part of the ID
+      name: { labels: /\b(?:member|subscriber)(?:\s*name)?\b(?!\s*(?:id|number|#))/i, side: 'front' },
+      subscriberId: { labels: /\b(?:member|subscriber|identification)\s*(?:id|number|#)?\b/i, side: 'front' },
+      policyNumber: { labels: /\b(?:member|subscriber|identification)\s*(?:id|number|#)?\b/i, side: 'front' },
+      groupNumber: { labels: /\b(?:group|grp)\s*(?:number|no\b\.?|#)?/i, side: 'front' }
+    }
+  }
+];
+
+/**
+ * Layout for a carrier, matched on the template's payer names. Returns the generic layout when
+ * no template fits.
+ */
+export function cardTemplateFor(provider: string | undefined): CardTemplate {
+  if (!provider) return GENERIC_CARD_TEMPLATE;
+  const haystack = ` ${normalizePayerName(provider)} `;
+  return CARD_TEMPLATES.find(template =>
+    template.payers.some(name => haystack.includes(` ${normalizePayerName(name)} `))
+  ) || GENERIC_CARD_TEMPLATE;
+}
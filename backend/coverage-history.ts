@@ -0,0 +1,250 @@
+import type { CoverageByCode, CoverageByCodeRun, Patient } from '@shared/schema';
+import { COVERAGE_SOURCES, isCoverageSource, type CoverageSource } from '@shared/coverage';
+import { storage, type CoverageByCodeValues, type DbTransaction } from './storage';
+import { BENEFIT_FIELDS } from './benefit-extraction';
+
+const MAX_ROWS = 500;
+const MAX_SOURCE_REF_LENGTH = 200;
+
+export class CoverageHistoryError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'CoverageHistoryError';
+  }
+}
+
+// Compared per code, in the order the diff lists them
+const COMPARED_FIELDS = ['preStepValue', 'aiCallValue', 'verified', 'verifiedBy', 'comments', 'category', 'fieldName', 'source'] as const;
+
+export type CoverageField = typeof COMPARED_FIELDS[number];
+
+export interface CoverageChange {
+  field: CoverageField;
+  before: string | null;
+  after: string | null;
+}
+
+export interface CoverageRowDiff {
+  key: string;
+  saiCode: string | null;
+  refInsCode: string | null;
+  fieldName: string | null;
+  status: 'added' | 'removed' | 'changed';
+  changes: CoverageChange[]; // Empty for added and removed rows
+}
+
+export interface CoverageRunDiff {
+  from: CoverageByCodeRun;
+  to: CoverageByCodeRun;
+  rows: CoverageRowDiff[];
+  unchanged: number;
+}
+
+function rowKey(row: CoverageByCode): string {
+  return row.saiCode || row.refInsCode
+    ? `${row.saiCode ?? ''}|${row.refInsCode ?? ''}`
+    : `field:${row.fieldName ?? ''}`;
+}
+
+function fieldValue(row: CoverageByCode, field: CoverageField): string | null {
+  if (field === 'aiCallValue') {
+    // Only in the saved JSON; older rows may not have it
+    try {
+      const value = JSON.parse(row.coverageData || '{}').aiCallValue;
+      return value === undefined || value === null || value === '' ? null : String(value);
+    } catch {
+      return null;
+    }
+  }
+  if (field === 'verified') return row.verified === null ? null : row.verified ? 'Yes' : 'No';
+  return row[field] || null;
+}
+
+function text(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  return String(value);
+}
+
+function sourceRef(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || value.length > MAX_SOURCE_REF_LENGTH) {
+    throw new CoverageHistoryError(`sourceRef must be a string of at most ${MAX_SOURCE_REF_LENGTH} characters`);
+  }
+  return value;
+}
+
+/**
+ * The rows of a save request. Each row keeps its full JSON, and takes the run's source unless it
+ * names one of its own.
+ * @throws CoverageHistoryError naming the first problem
+ */
+export function coverageRowsFrom(items: unknown, source: CoverageSource): CoverageByCodeValues[] {
+  if (!Array.isArray(items) || items.length > MAX_ROWS) {
+    throw new CoverageHistoryError(`coverageData must be an array of at most ${MAX_ROWS} rows`);
+  }
+  return items.map((item, index) => {
+    if (!item || typeof item !== 'object') {
+      throw new CoverageHistoryError(`coverageData[${index}] must be an object`);
+    }
+    const row = item as Record<string, unknown>;
+    if (row.source !== undefined && !isCoverageSource(row.source)) {
+      throw new CoverageHistoryError(`coverageData[${index}].source must be one of ${COVERAGE_SOURCES.join(', ')}`);
+    }
+    return {
+      saiCode: text(row.saiCode),
+      refInsCode: text(row.refInsCode),
+      category: text(row.category),
+      fieldName: text(row.fieldName),
+      preStepValue: text(row.preStepValue),
+      verified: !!row.verified,
+      verifiedBy: text(row.verifiedBy),
+      comments: text(row.comments),
+      source: isCoverageSource(row.source) ? row.source : source,
+      sourceRef: sourceRef(row.sourceRef),
+      coverageData: JSON.stringify(item),
+    };
+  });
+}
+
+/**
+ * A found value of one of the benefit fields, as a row in the codes and categories of the
+ * verification data panel
+ * @returns undefined for a code the panel does not track
+ */
+export function benefitFieldRow(saiCode: string, value: string, verifiedBy: string, preStepValue = ''): Record<string, unknown> | undefined {
+  const spec = BENEFIT_FIELDS.find(field => field.saiCode === saiCode);
+  if (!spec) return undefined;
+  return {
+    saiCode,
+    refInsCode: spec.refInsCode,
+    category: spec.category,
+    fieldName: spec.fieldName,
+    preStepValue,
+    missing: 'N',
+    aiCallValue: value,
+    verified: true,
+    verifiedBy,
+  };
+}
+
+/**
+ * Saves coverage by code values as a new run of the patient
+ * @param userId - null when the system saved them, e.g. after a document analysis
+ * @param within - A transaction to save in, so the run commits or rolls back with the caller's writes
+ * @throws CoverageHistoryError (400) for an unknown source or malformed rows
+ */
+export async function saveCoverageRun(
+  patient: Patient,
+  userId: string | null,
+  source: unknown,
+  items: unknown,
+  ref?: unknown,
+  within?: DbTransaction
+): Promise<CoverageByCodeRun> {
+  if (!isCoverageSource(source)) {
+    throw new CoverageHistoryError(`source must be one of ${COVERAGE_SOURCES.join(', ')}`);
+  }
+  const rows = coverageRowsFrom(items, source);
+  return storage.saveCoverageByCode(
+    { patientId: patient.id, practiceId: patient.practiceId, userId, source, sourceRef: sourceRef(ref) },
+    rows,
+    within
+  );
+}
+
+/**
+ * What changed per code between two runs, e.g. a preStepValue going from 80% to 50%
+ * @param before - Rows of the older run
+ * @param after - Rows of the newer run
+ */
+export function diffCoverageRows(before: CoverageByCode[], after: CoverageByCode[]): { rows: CoverageRowDiff[]; unchanged: number } {
+  const older = new Map(before.map(row => [rowKey(row), row]));
+  const rows: CoverageRowDiff[] = [];
+  let unchanged = 0;
+
+  const describe = (key: string, row: CoverageByCode, status: CoverageRowDiff['status'], changes: CoverageChange[] = []): CoverageRowDiff =>
+    ({ key, saiCode: row.saiCode, refInsCode: row.refInsCode, fieldName: row.fieldName, status, changes });
+
+  for (const row of after) {
+    const key = rowKey(row);
+    const previous = older.get(key);
+    older.delete(key);
+    if (!previous) {
+      rows.push(describe(key, row, 'added'));
+      continue;
+    }
+    const changes = COMPARED_FIELDS
+      .map(field => ({ field, before: fieldValue(previous, field), after: fieldValue(row, field) }))
+      .filter(change => change.before !== change.after);
+    if (changes.length > 0) {
+      rows.push(describe(key, row, 'changed', changes));
+    } else {
+      unchanged++;
+    }
+  }
+  for (const [key, row] of older) {
+    rows.push(describe(key, row, 'removed'));
+  }
+  return { rows, unchanged };
+}
+
+/**
+ * A run of the patient's coverage by code history
+ * @throws CoverageHistoryError (404) if the run is not the patient's
+ */
+export async function patientRun(patient: Patient, runId: string): Promise<CoverageByCodeRun> {
+  const run = await storage.getCoverageByCodeRun(runId);
+  if (!run || run.patientId !== patient.id || run.practiceId !== patient.practiceId) {
+    throw new CoverageHistoryError('Coverage run not found', 404);
+  }
+  return run;
+}
+
+/**
+ * Compares two of the patient's runs. Without `to` the latest run is compared; without `from`
+ * the run before `to`.
+ * @throws CoverageHistoryError (404) for an unknown run, (400) if there is nothing to compare
+ */
+export async function diffPatientRuns(patient: Patient, fromId?: string, toId?: string): Promise<CoverageRunDiff> {
+  const runs = await storage.getCoverageByCodeRuns(patient.id, patient.practiceId!);
+  const to = toId ? await patientRun(patient, toId) : runs[0];
+  if (!to) throw new CoverageHistoryError('No coverage runs to compare');
+
+  let from: CoverageByCodeRun | undefined;
+  if (fromId) {
+    from = await patientRun(patient, fromId);
+  } else {
+    from = runs[runs.findIndex(run => run.id === to.id) + 1];
+    if (!from) throw new CoverageHistoryError('No earlier coverage run to compare with');
+  }
+  if (from.id === to.id) throw new CoverageHistoryError('from and to must be different runs');
+
+  const [before, after] = await Promise.all([
+    storage.getCoverageByCodeForRun(from.id),
+    storage.getCoverageByCodeForRun(to.id),
+  ]);
+  return { from, to, ...diffCoverageRows(before, after) };
+}
+
+/**
+ * Puts coverage rows saved before runs existed into one run per patient and practice, dated by
+ * their latest row. Saves used to replace the rows, so each patient has at most one such set.
+ */
+export async function backfillCoverageRuns(): Promise<void> {
+  const groups = new Map<string, CoverageByCode[]>();
+  for (const row of await storage.getUnversionedCoverageByCode()) {
+    const key = `${row.patientId}|${row.practiceId ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  for (const rows of Array.from(groups.values())) {
+    const latest = rows.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+    await storage.createCoverageByCodeRun({
+      patientId: latest.patientId,
+      practiceId: latest.practiceId,
+      userId: latest.userId,
+      rowCount: rows.length,
+      createdAt: latest.timestamp,
+    }, rows.map(row => row.id));
+  }
+}
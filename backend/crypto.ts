@@ -1,89 +1,84 @@
 import crypto from 'crypto';
+import { kms } from './kms';
 
 // Encryption configuration
 const ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 16;
-const SALT_LENGTH = 64;
-const TAG_LENGTH = 16;
-const KEY_LENGTH = 32;
-const ITERATIONS = 100000;
-
-// Get encryption key from environment or generate a secure one
-// In production, this should be stored securely (e.g., AWS KMS, HashiCorp Vault)
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'your-secure-encryption-key-change-in-production-must-be-32-chars!!';
-
-/**
- * Derives a key from the master key using PBKDF2
- */
-function deriveKey(salt: Buffer): Buffer {
+const IV_LENGTH = 12;
+const DATA_KEY_LENGTH = 32;
+const ENVELOPE_VERSION = 'v2';
+
+// Legacy format (salt:iv:tag:ciphertext) - every value's key derived from ENCRYPTION_KEY with
+// PBKDF2. Only used to read values written before envelope encryption; run `npm run keys:rotate`
+// to move them to the KMS.
+const LEGACY_IV_LENGTH = 16;
+const LEGACY_KEY_LENGTH = 32;
+const LEGACY_ITERATIONS = 100000;
+const LEGACY_ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'your-secure-encryption-key-change-in-production-must-be-32-chars!!';
+
+function deriveLegacyKey(salt: Buffer): Buffer {
   return crypto.pbkdf2Sync(
-    ENCRYPTION_KEY,
+    LEGACY_ENCRYPTION_KEY,
     salt,
-    ITERATIONS,
-    KEY_LENGTH,
+    LEGACY_ITERATIONS,
+    LEGACY_KEY_LENGTH,
     'sha512'
   );
 }
 
+function decryptLegacy(parts: string[]): string {
+  const [saltB64, ivB64, tagB64, ciphertext] = parts;
+  const decipher = crypto.createDecipheriv(ALGORITHM, deriveLegacyKey(Buffer.from(saltB64, 'base64')), Buffer.from(ivB64, 'base64'));
+  decipher.setAuthTag(Buffer.from(tagB64, 'base64'));
+
+  let plaintext = decipher.update(ciphertext, 'base64', 'utf8');
+  plaintext += decipher.final('utf8');
+  return plaintext;
+}
+
 /**
- * Encrypts sensitive data using AES-256-GCM
+ * Encrypts sensitive data using envelope encryption: a fresh AES-256-GCM data key per value,
+ * wrapped by the KMS's active key-encryption key
  * @param plaintext - The data to encrypt
- * @returns Encrypted data in format: salt:iv:tag:ciphertext (all base64 encoded)
+ * @returns Encrypted data in format: v2:keyId:wrappedKey:iv:tag:ciphertext (binary parts base64 encoded)
  */
 export function encrypt(plaintext: string): string {
   if (!plaintext) return '';
 
-  // Generate random salt and IV
-  const salt = crypto.randomBytes(SALT_LENGTH);
+  const dataKey = crypto.randomBytes(DATA_KEY_LENGTH);
   const iv = crypto.randomBytes(IV_LENGTH);
+  const { keyId, wrapped } = kms.wrapKey(dataKey);
 
-  // Derive key from master key and salt
-  const key = deriveKey(salt);
-
-  // Create cipher
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-
-  // Encrypt data
+  const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
   let ciphertext = cipher.update(plaintext, 'utf8', 'base64');
   ciphertext += cipher.final('base64');
-
-  // Get authentication tag
   const tag = cipher.getAuthTag();
 
-  // Combine all parts: salt:iv:tag:ciphertext
-  return `${salt.toString('base64')}:${iv.toString('base64')}:${tag.toString('base64')}:${ciphertext}`;
+  return [ENVELOPE_VERSION, keyId, wrapped.toString('base64'), iv.toString('base64'), tag.toString('base64'), ciphertext].join(':');
 }
 
 /**
- * Decrypts data encrypted with the encrypt function
- * @param encryptedData - The encrypted data in format: salt:iv:tag:ciphertext
+ * Decrypts data encrypted with the encrypt function, or with the legacy PBKDF2 format
+ * @param encryptedData - The encrypted data in format: v2:keyId:wrappedKey:iv:tag:ciphertext
  * @returns Decrypted plaintext
  */
 export function decrypt(encryptedData: string): string {
   if (!encryptedData) return '';
 
   try {
-    // Split the encrypted data
     const parts = encryptedData.split(':');
-    if (parts.length !== 4) {
+    if (parts.length === 4) {
+      return decryptLegacy(parts);
+    }
+    if (parts.length !== 6 || parts[0] !== ENVELOPE_VERSION) {
       throw new Error('Invalid encrypted data format');
     }
 
-    const [saltB64, ivB64, tagB64, ciphertext] = parts;
-
-    // Convert from base64
-    const salt = Buffer.from(saltB64, 'base64');
-    const iv = Buffer.from(ivB64, 'base64');
-    const tag = Buffer.from(tagB64, 'base64');
+    const [, keyId, wrappedB64, ivB64, tagB64, ciphertext] = parts;
+    const dataKey = kms.unwrapKey(keyId, Buffer.from(wrappedB64, 'base64'));
 
-    // Derive the same key using the salt
-    const key = deriveKey(salt);
+    const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, Buffer.from(ivB64, 'base64'));
+    decipher.setAuthTag(Buffer.from(tagB64, 'base64'));
 
-    // Create decipher
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(tag);
-
-    // Decrypt data
     let plaintext = decipher.update(ciphertext, 'base64', 'utf8');
     plaintext += decipher.final('utf8');
 
@@ -93,6 +88,54 @@ export function decrypt(encryptedData: string): string {
   }
 }
 
+/**
+ * Encrypts file contents with AES-256-GCM. The data key is returned encrypted with encrypt(), to
+ * be stored with the file's record; pass it back in to encrypt related files (e.g. a thumbnail)
+ * under the same key.
+ * @returns The encrypted contents (iv + tag + ciphertext) and the encrypted data key
+ */
+export function encryptBuffer(data: Buffer, encryptedKey?: string): { data: Buffer; encryptedKey: string } {
+  const dataKey = encryptedKey ? Buffer.from(decrypt(encryptedKey), 'base64') : crypto.randomBytes(DATA_KEY_LENGTH);
+  const iv = crypto.randomBytes(IV_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, dataKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+
+  return {
+    data: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]),
+    encryptedKey: encryptedKey || encrypt(dataKey.toString('base64'))
+  };
+}
+
+/**
+ * Decrypts file contents encrypted with encryptBuffer
+ * @param encryptedKey - The encrypted data key returned by encryptBuffer
+ */
+export function decryptBuffer(data: Buffer, encryptedKey: string): Buffer {
+  const dataKey = Buffer.from(decrypt(encryptedKey), 'base64');
+  const iv = data.subarray(0, IV_LENGTH);
+  const tag = data.subarray(IV_LENGTH, IV_LENGTH + 16);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH + 16)), decipher.final()]);
+}
+
+/**
+ * Key ID a value was encrypted under, or null for the legacy format
+ */
+export function encryptionKeyId(encryptedData: string): string | null {
+  const parts = encryptedData.split(':');
+  return parts.length === 6 && parts[0] === ENVELOPE_VERSION ? parts[1] : null;
+}
+
+/**
+ * Whether a value should be re-encrypted: it uses the legacy format or a retired key
+ */
+export function needsReencryption(encryptedData: string): boolean {
+  return !!encryptedData && encryptionKeyId(encryptedData) !== kms.activeKeyId();
+}
+
 /**
  * Masks sensitive data for display (e.g., "1990-05-15" -> "****-**-**")
  * @param data - The data to mask
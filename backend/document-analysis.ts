@@ -0,0 +1,417 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import Tesseract from 'tesseract.js';
+import sharp from 'sharp';
+import { createCanvas } from '@napi-rs/canvas';
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { eq } from 'drizzle-orm';
+import {
+  transactions,
+  transactionDataVerified,
+  type Insurance,
+  type Patient,
+  type PatientDocument,
+} from '@shared/schema';
+import { db } from './db';
+import { readDocument } from './documents';
+import { extractBenefits, type DocumentLine, type ExtractedBenefitRow } from './benefit-extraction';
+import { publishTransaction } from './live-events';
+import { saveCoverageRun } from './coverage-history';
+import type { CoverageSource } from '@shared/coverage';
+
+export type { ExtractedBenefitRow } from './benefit-extraction';
+
+// Documents that state benefits; card images are read by the insurance card OCR instead
+export const ANALYZABLE_CATEGORIES = ['benefit-fax', 'eob', 'other'];
+
+// Longest PDF read; faxed benefit sheets rarely run past a few pages
+const MAX_PAGES = 20;
+
+// A PDF page with fewer characters than this in its text layer is a scan and gets OCR
+const MIN_TEXT_LAYER_CHARS = 40;
+
+// Scanned pages are rendered at this multiple of 72 DPI, about 216 DPI
+const RENDER_SCALE = 3;
+
+// Images are resized to this width before OCR, as for insurance cards
+const OCR_WIDTH = 2500;
+
+// Finished jobs are kept this long for clients that reconnect to the progress stream
+const JOB_RETENTION_MS = 15 * 60 * 1000;
+
+export class DocumentAnalysisError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'DocumentAnalysisError';
+  }
+}
+
+export interface AnalysisProgress {
+  progress: number; // 0-100
+  message: string;
+}
+
+export interface DocumentAnalysisResult {
+  rows: ExtractedBenefitRow[];
+  pages: number;
+  ocrPages: number; // Pages read by OCR rather than from a PDF text layer
+}
+
+export type DocumentAnalysisStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * An analysis started from the UI, followed over GET /api/document-analysis/:id/events
+ */
+export interface DocumentAnalysisJob extends AnalysisProgress {
+  id: string;
+  patientId: string;
+  practiceId: string | null;
+  documentIds: string[];
+  status: DocumentAnalysisStatus;
+  transactionId: string | null;
+  result: DocumentAnalysisResult | null;
+  errorMessage: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+type ProgressListener = (update: AnalysisProgress) => void;
+
+// One page to read: a PDF page or a whole image, reported against its document
+interface PageSource {
+  documentId: string;
+  page: number;
+  read: (ocr: () => Promise<Tesseract.Worker>) => Promise<{ lines: DocumentLine[]; ocr: boolean }>;
+}
+
+function linesOf(data: Tesseract.Page, documentId: string, page: number): DocumentLine[] {
+  const lines: DocumentLine[] = [];
+  for (const block of data.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const text = line.text.replace(/\s+/g, ' ').trim();
+        if (text) lines.push({ text, confidence: line.confidence, documentId, page });
+      }
+    }
+  }
+  return lines;
+}
+
+async function recognize(worker: Tesseract.Worker, image: Buffer, documentId: string, page: number): Promise<DocumentLine[]> {
+  const prepared = await sharp(image)
+    .rotate()
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize({ width: OCR_WIDTH, withoutEnlargement: true })
+    .normalise()
+    .png()
+    .toBuffer();
+  const { data } = await worker.recognize(prepared, { rotateAuto: true }, { blocks: true });
+  return linesOf(data, documentId, page);
+}
+
+/**
+ * Joins a PDF page's text items into lines by their baseline, left to right
+ */
+function textLayerLines(items: { str: string; transform: number[] }[], documentId: string, page: number): DocumentLine[] {
+  const rows: { y: number; items: { x: number; str: string }[] }[] = [];
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const [x, y] = [item.transform[4], item.transform[5]];
+    const row = rows.find(r => Math.abs(r.y - y) < 3);
+    if (row) row.items.push({ x, str: item.str });
+    else rows.push({ y, items: [{ x, str: item.str }] });
+  }
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map(row => ({
+      text: row.items.sort((a, b) => a.x - b.x).map(i => i.str).join(' ').replace(/\s+/g, ' ').trim(),
+      confidence: 100,
+      documentId,
+      page,
+    }));
+}
+
+/**
+ * Splits a document into pages: PDF pages read from their text layer, or rendered and OCR'd when
+ * they are scans; images as a single page
+ */
+async function pagesOf(document: PatientDocument): Promise<{ pages: PageSource[]; close: () => Promise<void> }> {
+  const file = await readDocument(document);
+
+  if (file.mimeType !== 'application/pdf') {
+    return {
+      pages: [{ documentId: document.id, page: 1, read: async ocr => ({ lines: await recognize(await ocr(), file.data, document.id, 1), ocr: true }) }],
+      close: async () => undefined,
+    };
+  }
+
+  let pdf;
+  try {
+    pdf = await getDocument({ data: new Uint8Array(file.data), verbosity: 0 }).promise;
+  } catch {
+    throw new DocumentAnalysisError(`${file.fileName} could not be opened as a PDF`, 422);
+  }
+  const pageCount = Math.min(pdf.numPages, MAX_PAGES);
+  const pages: PageSource[] = Array.from({ length: pageCount }, (_, i) => ({
+    documentId: document.id,
+    page: i + 1,
+    read: async ocr => {
+      const page = await pdf.getPage(i + 1);
+      try {
+        const content = await page.getTextContent();
+        const lines = textLayerLines(content.items.filter(item => 'str' in item), document.id, i + 1);
+        if (lines.reduce((sum, line) => sum + line.text.length, 0) >= MIN_TEXT_LAYER_CHARS) {
+          return { lines, ocr: false };
+        }
+
+        const viewport = page.getViewport({ scale: RENDER_SCALE });
+        const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+        // pdf.js draws through the browser canvas API, which @napi-rs/canvas implements
+        await page.render({ canvasContext: canvas.getContext('2d') as unknown as CanvasRenderingContext2D, canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+        return { lines: await recognize(await ocr(), canvas.toBuffer('image/png'), document.id, i + 1), ocr: true };
+      } finally {
+        page.cleanup();
+      }
+    },
+  }));
+  return { pages, close: () => pdf.destroy() };
+}
+
+/**
+ * Reads benefit documents page by page and extracts coverage percentages, frequencies, waiting
+ * periods, deductibles and maximums in the shape of the verification data panel's rows
+ * @param onProgress - Called as each page is read, with progress from 0 to 100
+ * @throws DocumentAnalysisError when a PDF cannot be opened or nothing readable is found
+ */
+export async function analyzeDocuments(
+  documents: PatientDocument[],
+  insurance: Insurance | undefined,
+  onProgress: ProgressListener = () => undefined
+): Promise<DocumentAnalysisResult> {
+  if (documents.length === 0) {
+    throw new DocumentAnalysisError('No documents to analyze');
+  }
+
+  // The OCR worker is only started once a page needs it
+  let worker: Tesseract.Worker | undefined;
+  const ocr = async () => {
+    if (!worker) {
+      onProgress({ progress: 5, message: 'Loading OCR engine' });
+      worker = await Tesseract.createWorker('eng', 1);
+    }
+    return worker;
+  };
+
+  const lines: DocumentLine[] = [];
+  let pageCount = 0;
+  let ocrPages = 0;
+  try {
+    for (const [index, document] of documents.entries()) {
+      onProgress({ progress: Math.round(5 + (85 * index) / documents.length), message: `Opening document ${index + 1} of ${documents.length}` });
+      const { pages, close } = await pagesOf(document);
+      try {
+        for (const [pageIndex, page] of pages.entries()) {
+          const read = await page.read(ocr);
+          lines.push(...read.lines);
+          pageCount++;
+          if (read.ocr) ocrPages++;
+          onProgress({
+            progress: Math.round(5 + (85 * (index + (pageIndex + 1) / pages.length)) / documents.length),
+            message: `Read page ${pageIndex + 1} of ${pages.length} in document ${index + 1} of ${documents.length}${read.ocr ? ' (OCR)' : ''}`,
+          });
+        }
+      } finally {
+        await close();
+      }
+    }
+  } finally {
+    await worker?.terminate();
+  }
+
+  if (lines.length === 0) {
+    throw new DocumentAnalysisError('No readable text found in the documents', 422);
+  }
+
+  onProgress({ progress: 92, message: `Extracting benefits from ${lines.length} lines of text` });
+  return { rows: extractBenefits(lines, insurance), pages: pageCount, ocrPages };
+}
+
+/**
+ * Transaction fields summarizing an analysis: SUCCESS when every field was found, else PARTIAL
+ */
+export function analysisTransaction(result: DocumentAnalysisResult): Partial<typeof transactions.$inferInsert> {
+  const found = result.rows.filter(row => row.missing === 'N');
+  const value = (saiCode: string) => result.rows.find(row => row.saiCode === saiCode)?.aiCallValue || '-';
+
+  return {
+    status: found.length === result.rows.length ? 'SUCCESS' : 'PARTIAL',
+    insuranceRep: 'Document Analysis',
+    verificationScore: Math.round((found.length / result.rows.length) * 100),
+    eligibilityCheck: `${result.pages} page(s) read, ${result.ocrPages} by OCR`,
+    benefitsVerification: `Preventive: ${value('VF000013')}, Basic: ${value('VF000023')}, Major: ${value('VF000035')}`,
+    coverageDetails: `Annual Maximum: ${value('VF000060')} | Fields found: ${found.length}/${result.rows.length}`,
+    deductibleInfo: `Deductible: ${value('VF000051')}`,
+    rawResponse: JSON.stringify(result),
+  };
+}
+
+/**
+ * Stores the fields an analysis found as the transaction's verified data items
+ */
+export async function saveAnalysisDataVerified(transactionId: string, result: DocumentAnalysisResult): Promise<void> {
+  for (const row of result.rows.filter(r => r.missing === 'N')) {
+    await db.insert(transactionDataVerified).values({ transactionId, item: `${row.fieldName}: ${row.aiCallValue}` });
+  }
+}
+
+/**
+ * Keeps an analysis's rows as a run of the patient's coverage by code, each pointing at the
+ * document and page its value was read from
+ * @param source - FAX when the documents are a payer's fax reply
+ */
+export async function saveAnalysisCoverage(
+  patient: Patient,
+  userId: string | null,
+  transactionId: string,
+  result: DocumentAnalysisResult,
+  source: CoverageSource = 'ANALYSIS'
+): Promise<void> {
+  if (!patient.practiceId) return;
+  const rows = result.rows.map(({ source, ...row }) => ({
+    ...row,
+    verified: row.missing === 'N',
+    sourceRef: source ? `${source.documentId}#page=${source.page}` : null,
+  }));
+  await saveCoverageRun(patient, userId, source, rows, transactionId);
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+const jobs = new Map<string, DocumentAnalysisJob>();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+function updateJob(job: DocumentAnalysisJob, changes: Partial<DocumentAnalysisJob>) {
+  Object.assign(job, changes);
+  jobEvents.emit(job.id, job);
+  if (job.status !== 'running') {
+    setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref();
+  }
+}
+
+export interface StartDocumentAnalysis {
+  patient: Patient;
+  insurance?: Insurance;
+  documents: PatientDocument[];
+  runBy: string;
+  userId: string | null; // Who started it; saved with the coverage run
+  source?: CoverageSource; // FAX when the documents are a payer's fax reply
+}
+
+/**
+ * Starts analyzing documents in the background, recorded as an ANALYSIS transaction that is
+ * closed as SUCCESS, PARTIAL or FAILED when the job finishes
+ */
+export async function startDocumentAnalysis(request: StartDocumentAnalysis): Promise<DocumentAnalysisJob> {
+  const { patient, insurance, documents } = request;
+  if (documents.length === 0) {
+    throw new DocumentAnalysisError('No documents to analyze');
+  }
+
+  const started = new Date();
+  const timestamp = started.toISOString().replace(/[:.]/g, '-').slice(0, -5);
+  const [transaction] = await db.insert(transactions).values({
+    requestId: `REQ-${timestamp}-${patient.id}-ANALYSIS`,
+    patientId: patient.id,
+    patientName: `${patient.givenName} ${patient.familyName}`,
+    type: 'ANALYSIS',
+    method: 'POST /document-analysis',
+    startTime: formatTimestamp(started),
+    status: 'Waiting',
+    insuranceProvider: insurance?.provider || '-',
+    runBy: request.runBy,
+    fetchStatus: 'pending',
+    saveStatus: 'pending',
+  }).returning();
+  publishTransaction(transaction.id, 'created');
+
+  const job: DocumentAnalysisJob = {
+    id: randomUUID(),
+    patientId: patient.id,
+    practiceId: patient.practiceId,
+    documentIds: documents.map(document => document.id),
+    status: 'running',
+    progress: 0,
+    message: 'Queued',
+    transactionId: transaction.id,
+    result: null,
+    errorMessage: null,
+    startedAt: started,
+    finishedAt: null,
+  };
+  jobs.set(job.id, job);
+
+  const close = async (changes: Partial<typeof transactions.$inferInsert>) => {
+    const finished = new Date();
+    await db.update(transactions).set({
+      ...changes,
+      endTime: formatTimestamp(finished),
+      duration: formatDuration(finished.getTime() - started.getTime()),
+    }).where(eq(transactions.id, transaction.id));
+    publishTransaction(transaction.id, 'updated');
+    return finished;
+  };
+
+  analyzeDocuments(documents, insurance, update => updateJob(job, update))
+    .then(async result => {
+      await close(analysisTransaction(result));
+      await saveAnalysisDataVerified(transaction.id, result);
+      await saveAnalysisCoverage(patient, request.userId, transaction.id, result, request.source);
+      const found = result.rows.filter(row => row.missing === 'N').length;
+      updateJob(job, {
+        status: 'completed',
+        progress: 100,
+        message: `Found ${found} of ${result.rows.length} benefit fields`,
+        result,
+        finishedAt: new Date(),
+      });
+    })
+    .catch(async error => {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const finishedAt = await close({ status: 'FAILED', errorMessage: message }).catch(() => new Date());
+      updateJob(job, { status: 'failed', message: 'Analysis failed', errorMessage: message, finishedAt });
+    });
+
+  return job;
+}
+
+export function getDocumentAnalysisJob(id: string): DocumentAnalysisJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * The latest job reading the document, while it is kept
+ */
+export function findDocumentAnalysisJob(documentId: string): DocumentAnalysisJob | undefined {
+  let latest: DocumentAnalysisJob | undefined;
+  for (const job of jobs.values()) {
+    if (job.documentIds.includes(documentId) && (!latest || job.startedAt >= latest.startedAt)) latest = job;
+  }
+  return latest;
+}
+
+/**
+ * Calls the listener with every update to a job until it finishes; returns an unsubscribe function
+ */
+export function watchDocumentAnalysisJob(id: string, listener: (job: DocumentAnalysisJob) => void): () => void {
+  jobEvents.on(id, listener);
+  return () => jobEvents.off(id, listener);
+}
@@ -0,0 +1,278 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import sharp from 'sharp';
+import type { DocumentVersion, Patient, PatientDocument } from '@shared/schema';
+import { storage } from './storage';
+import { encrypt, decrypt, encryptBuffer, decryptBuffer } from './crypto';
+
+export const DOCUMENT_CATEGORIES = ['insurance-card-front', 'insurance-card-back', 'eob', 'benefit-fax', 'fax-request', 'verification-form', 'other'] as const;
+
+export type DocumentCategory = typeof DOCUMENT_CATEGORIES[number];
+
+// Largest file accepted; multer enforces it on upload
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024;
+
+const DOCUMENT_DIR = resolve(process.env.DOCUMENT_STORAGE_DIR || '.documents');
+
+const THUMBNAIL_WIDTH = 240;
+
+// Types the viewers can show, recognised by their leading bytes rather than the client's claim
+const SIGNATURES: { mimeType: string; bytes: number[] }[] = [
+  { mimeType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+];
+
+export const DOCUMENT_MIME_TYPES = SIGNATURES.map(signature => signature.mimeType);
+
+export class DocumentError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'DocumentError';
+  }
+}
+
+export interface DocumentVersionSummary {
+  version: number;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  hasThumbnail: boolean;
+  uploadedBy: string | null;
+  createdAt: Date;
+}
+
+export interface DocumentSummary {
+  id: string;
+  patientId: string;
+  category: string;
+  currentVersion: number;
+  fileName: string; // Of the current version
+  mimeType: string;
+  createdAt: Date;
+  updatedAt: Date;
+  versions: DocumentVersionSummary[]; // Newest first
+}
+
+export interface DocumentFile {
+  fileName: string;
+  mimeType: string;
+}
+
+export interface UploadedFile {
+  buffer: Buffer;
+  originalname: string;
+}
+
+export function isDocumentCategory(category: unknown): category is DocumentCategory {
+  return typeof category === 'string' && (DOCUMENT_CATEGORIES as readonly string[]).includes(category);
+}
+
+export function detectMimeType(data: Buffer): string | undefined {
+  return SIGNATURES.find(({ bytes }) => bytes.every((byte, i) => data[i] === byte))?.mimeType;
+}
+
+// Files are named by a random key, never by anything about the patient
+function filePath(storageKey: string, thumbnail = false): string {
+  return join(DOCUMENT_DIR, storageKey.slice(0, 2), `${storageKey}${thumbnail ? '.thumb' : ''}.enc`);
+}
+
+async function removeFiles(storageKey: string): Promise<void> {
+  await rm(filePath(storageKey), { force: true });
+  await rm(filePath(storageKey, true), { force: true });
+}
+
+async function thumbnailOf(data: Buffer, mimeType: string): Promise<Buffer | undefined> {
+  // PDFs have no thumbnail; the viewer renders their first page instead
+  if (!mimeType.startsWith('image/')) return undefined;
+  try {
+    return await sharp(data).rotate().resize({ width: THUMBNAIL_WIDTH, withoutEnlargement: true }).jpeg({ quality: 70 }).toBuffer();
+  } catch {
+    return undefined;
+  }
+}
+
+function summaryOf(document: PatientDocument, versions: DocumentVersion[]): DocumentSummary {
+  const summaries = versions.map(version => ({
+    version: version.version,
+    fileName: decrypt(version.fileName),
+    mimeType: version.mimeType,
+    size: version.size,
+    hasThumbnail: version.hasThumbnail,
+    uploadedBy: version.uploadedBy,
+    createdAt: version.createdAt,
+  }));
+  const current = summaries.find(version => version.version === document.currentVersion) || summaries[0];
+  return {
+    id: document.id,
+    patientId: document.patientId,
+    category: document.category,
+    currentVersion: document.currentVersion,
+    fileName: current?.fileName || '',
+    mimeType: current?.mimeType || '',
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+    versions: summaries,
+  };
+}
+
+/**
+ * A document with its versions, newest first
+ */
+export async function documentSummary(document: PatientDocument): Promise<DocumentSummary> {
+  return summaryOf(document, await storage.getDocumentVersions([document.id]));
+}
+
+/**
+ * Every document stored for a patient, most recently updated first
+ */
+export async function listPatientDocuments(patientId: string): Promise<DocumentSummary[]> {
+  const documents = await storage.getPatientDocuments(patientId);
+  const versions = await storage.getDocumentVersions(documents.map(document => document.id));
+  return documents.map(document => summaryOf(document, versions.filter(version => version.documentId === document.id)));
+}
+
+/**
+ * Encrypts a file to disk and records it as the next version of a document
+ * @throws DocumentError if the file is not a PDF, JPEG or PNG
+ */
+export async function addDocumentVersion(document: PatientDocument, userId: string | null, file: UploadedFile): Promise<DocumentSummary> {
+  const mimeType = detectMimeType(file.buffer);
+  if (!mimeType) {
+    throw new DocumentError('Only PDF, JPEG and PNG files are supported');
+  }
+
+  const storageKey = randomUUID();
+  const { data, encryptedKey } = encryptBuffer(file.buffer);
+  const thumbnail = await thumbnailOf(file.buffer, mimeType);
+
+  await mkdir(join(DOCUMENT_DIR, storageKey.slice(0, 2)), { recursive: true });
+  try {
+    await writeFile(filePath(storageKey), data);
+    if (thumbnail) {
+      await writeFile(filePath(storageKey, true), encryptBuffer(thumbnail, encryptedKey).data);
+    }
+    await storage.addDocumentVersion({
+      documentId: document.id,
+      fileName: encrypt(file.originalname || 'document'),
+      mimeType,
+      size: file.buffer.length,
+      storageKey,
+      encryptionKey: encryptedKey,
+      hasThumbnail: !!thumbnail,
+      uploadedBy: userId,
+    });
+  } catch (error) {
+    await removeFiles(storageKey);
+    throw error;
+  }
+
+  return documentSummary((await storage.getPatientDocument(document.id))!);
+}
+
+/**
+ * Stores a file as a new document for the patient
+ * @throws DocumentError
+ */
+export async function createDocument(patient: Patient, userId: string | null, category: unknown, file: UploadedFile): Promise<DocumentSummary> {
+  if (!isDocumentCategory(category)) {
+    throw new DocumentError(`category must be one of: ${DOCUMENT_CATEGORIES.join(', ')}`);
+  }
+  if (!detectMimeType(file.buffer)) {
+    throw new DocumentError('Only PDF, JPEG and PNG files are supported');
+  }
+
+  const document = await storage.createPatientDocument({
+    patientId: patient.id,
+    practiceId: patient.practiceId,
+    category,
+    createdBy: userId,
+  });
+  try {
+    return await addDocumentVersion(document, userId, file);
+  } catch (error) {
+    await storage.deletePatientDocument(document.id);
+    throw error;
+  }
+}
+
+/**
+ * Keeps a scanned card side: a new version of the patient's existing card image, or a new document
+ */
+export async function storeInsuranceCardImage(
+  patient: Patient,
+  userId: string,
+  side: 'front' | 'back',
+  file: UploadedFile
+): Promise<DocumentSummary> {
+  const category: DocumentCategory = side === 'front' ? 'insurance-card-front' : 'insurance-card-back';
+  const existing = await storage.findPatientDocument(patient.id, category);
+  return existing ? addDocumentVersion(existing, userId, file) : createDocument(patient, userId, category, file);
+}
+
+/**
+ * Decrypts one version of a document, or its thumbnail
+ * @param version - Defaults to the current version
+ * @throws DocumentError if the version or thumbnail does not exist
+ */
+export async function readDocument(
+  document: PatientDocument,
+  version?: number,
+  thumbnail = false
+): Promise<DocumentFile & { data: Buffer }> {
+  const versions = await storage.getDocumentVersions([document.id]);
+  const wanted = versions.find(v => v.version === (version ?? document.currentVersion));
+  if (!wanted) {
+    throw new DocumentError('Document version not found', 404);
+  }
+  if (thumbnail && !wanted.hasThumbnail) {
+    throw new DocumentError('This document has no thumbnail', 404);
+  }
+
+  const data = decryptBuffer(await readFile(filePath(wanted.storageKey, thumbnail)), wanted.encryptionKey);
+  return {
+    data,
+    fileName: decrypt(wanted.fileName),
+    mimeType: thumbnail ? 'image/jpeg' : wanted.mimeType,
+  };
+}
+
+/**
+ * Encrypts a file to disk that belongs to no document yet, e.g. a received fax not matched to a patient
+ * @returns The key naming the file and its encrypted data key, for readEncryptedFile
+ */
+export async function writeEncryptedFile(data: Buffer): Promise<{ storageKey: string; encryptionKey: string }> {
+  const storageKey = randomUUID();
+  const encrypted = encryptBuffer(data);
+  await mkdir(join(DOCUMENT_DIR, storageKey.slice(0, 2)), { recursive: true });
+  await writeFile(filePath(storageKey), encrypted.data);
+  return { storageKey, encryptionKey: encrypted.encryptedKey };
+}
+
+export async function readEncryptedFile(storageKey: string, encryptionKey: string): Promise<Buffer> {
+  return decryptBuffer(await readFile(filePath(storageKey)), encryptionKey);
+}
+
+export async function removeEncryptedFile(storageKey: string): Promise<void> {
+  await removeFiles(storageKey);
+}
+
+/**
+ * Deletes a document with every version's files
+ */
+export async function deleteDocument(document: PatientDocument): Promise<void> {
+  const versions = await storage.getDocumentVersions([document.id]);
+  await storage.deletePatientDocument(document.id);
+  await removeDocumentFiles(versions);
+}
+
+/**
+ * Removes the files behind document versions whose rows are already gone, e.g. after a patient
+ * was deleted and their documents went with them through the foreign key cascade
+ */
+export async function removeDocumentFiles(versions: DocumentVersion[]): Promise<void> {
+  for (const version of versions) {
+    await removeFiles(version.storageKey);
+  }
+}
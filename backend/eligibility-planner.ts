@@ -0,0 +1,276 @@
+import {
+  checkEligibility,
+  createEligibilityTransport,
+  EligibilityError,
+  type EligibilityInquiry,
+  type EligibilityResult,
+  type EligibilityTransport,
+} from './eligibility';
+import type { EligibilityBenefit, EligibilityResponse } from './x12';
+
+export interface ProcedureInput {
+  code: string;
+  description: string;
+  category: string;
+}
+
+export interface ProcedureEligibility extends ProcedureInput {
+  serviceTypeCode: string;
+  source: 'procedure' | 'serviceType' | null; // Which inquiry level answered this code
+  benefit: EligibilityBenefit[] | null;
+}
+
+export interface DentalBenefitsPlan {
+  general: EligibilityResponse;
+  procedures: ProcedureEligibility[];
+  meta: {
+    requests: number;
+    cacheHits: number;
+    retries: number;
+    durationMs: number;
+  };
+}
+
+// The benefit fields the insurances table tracks
+export interface BenefitSummary {
+  active: boolean;
+  deductible?: string;
+  maxBenefit?: string;
+  preventiveCoverage?: string;
+  basicCoverage?: string;
+  majorCoverage?: string;
+}
+
+export interface PlannerOptions {
+  transport?: EligibilityTransport;
+  concurrency?: number;
+  maxRetries?: number;
+  proceduresPerRequest?: number;
+}
+
+// CDT category -> X12 service type code (EQ01)
+const CATEGORY_SERVICE_TYPES: Record<string, string> = {
+  preventive: '41', // Routine (Preventive) Dental
+  radiographs: '23', // Diagnostic Dental
+  diagnostic: '23',
+  restorative: '25', // Restorative
+  endodontics: '26', // Endodontics
+  periodontics: '24', // Periodontics
+  prosthodontics: '39', // Prosthodontics
+  orthodontics: '38', // Orthodontics
+  'oral surgery': '40', // Oral Surgery
+  miscellaneous: '28', // Adjunctive Dental Services
+};
+
+const GENERAL_SERVICE_TYPE = '35'; // Dental Care
+
+const DEFAULT_CONCURRENCY = parseInt(process.env.ELIGIBILITY_CONCURRENCY || '4', 10);
+const DEFAULT_MAX_RETRIES = parseInt(process.env.ELIGIBILITY_MAX_RETRIES || '3', 10);
+const DEFAULT_PROCEDURES_PER_REQUEST = 10;
+const BACKOFF_BASE_MS = 500;
+const CACHE_MAX_ENTRIES = 500;
+
+export function serviceTypeForCategory(category: string): string {
+  return CATEGORY_SERVICE_TYPES[category.toLowerCase()] || GENERAL_SERVICE_TYPE;
+}
+
+// 271 responses keyed by subscriber + payer + date + inquiry; entries only match on the day they were fetched
+const responseCache = new Map<string, EligibilityResult>();
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function cacheKey(inquiry: EligibilityInquiry): string {
+  const { payer, subscriber, dependent } = inquiry;
+  return [
+    payer.id,
+    subscriber.memberId,
+    subscriber.dateOfBirth || '',
+    dependent ? `${dependent.lastName}/${dependent.firstName}/${dependent.dateOfBirth || ''}` : '',
+    inquiry.dateOfService || today(),
+    (inquiry.serviceTypeCodes || []).join('^'),
+    (inquiry.procedureCodes || []).join('^'),
+  ].join('|').toUpperCase();
+}
+
+function cacheSet(key: string, result: EligibilityResult) {
+  if (responseCache.size >= CACHE_MAX_ENTRIES) {
+    // Map preserves insertion order, so the first key is the oldest entry
+    const oldest = responseCache.keys().next().value;
+    if (oldest !== undefined) responseCache.delete(oldest);
+  }
+  responseCache.set(key, result);
+}
+
+/**
+ * Drops every cached 271 (e.g. after a payer directory change)
+ */
+export function clearEligibilityCache(): void {
+  responseCache.clear();
+}
+
+/**
+ * Transport failures and "unable to respond at current time" (AAA 42 / 80) are worth retrying;
+ * other AAA rejections will not change on resubmission.
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof EligibilityError)) return false;
+  if (error.rejections.length > 0) {
+    return error.rejections.every(r => r.code === '42' || r.code === '80');
+  }
+  return error.status >= 500;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs async tasks with at most `limit` in flight, preserving result order
+ */
+export async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length) {
+      const index = next++;
+      results[index] = await tasks[index]();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+  return results;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Checks general dental eligibility plus per-procedure benefits for a list of CDT codes.
+ *
+ * 1. One 270 per service type (STC 35 plus one per CDT category), run concurrently.
+ * 2. Codes the service type answers did not cover are asked about directly, several EQ
+ *    segments per 270.
+ * Every 270 is retried with exponential backoff on transient failures and its 271 cached
+ * for the rest of the day.
+ */
+export async function planDentalBenefits(
+  inquiry: EligibilityInquiry,
+  procedures: ProcedureInput[],
+  options: PlannerOptions = {}
+): Promise<DentalBenefitsPlan> {
+  const started = Date.now();
+  const transport = options.transport || createEligibilityTransport();
+  const concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const perRequest = options.proceduresPerRequest || DEFAULT_PROCEDURES_PER_REQUEST;
+  const meta = { requests: 0, cacheHits: 0, retries: 0, durationMs: 0 };
+
+  const fetchCached = async (request: EligibilityInquiry): Promise<EligibilityResponse> => {
+    const key = cacheKey(request);
+    const cached = responseCache.get(key);
+    if (cached) {
+      meta.cacheHits++;
+      return cached.response;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        meta.requests++;
+        const result = await checkEligibility(request, transport);
+        cacheSet(key, result);
+        return result.response;
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryable(error)) throw error;
+        meta.retries++;
+        await sleep(BACKOFF_BASE_MS * 2 ** attempt + Math.random() * BACKOFF_BASE_MS);
+      }
+    }
+  };
+
+  // Stage 1 - service type inquiries
+  const groups = new Map<string, ProcedureInput[]>();
+  for (const procedure of procedures) {
+    const stc = serviceTypeForCategory(procedure.category);
+    groups.set(stc, [...(groups.get(stc) || []), procedure]);
+  }
+  const serviceTypes = [GENERAL_SERVICE_TYPE, ...Array.from(groups.keys()).filter(stc => stc !== GENERAL_SERVICE_TYPE)];
+  const serviceTypeResponses = await runWithConcurrency(
+    serviceTypes.map(stc => () => fetchCached({ ...inquiry, serviceTypeCodes: [stc], procedureCodes: undefined })),
+    concurrency
+  );
+  const general = serviceTypeResponses[0];
+
+  const allBenefits = serviceTypeResponses.flatMap(response => response.benefits);
+  const byProcedure = (code: string) =>
+    allBenefits.filter(b => b.procedureCode?.toUpperCase() === code.toUpperCase());
+  const byServiceType = (stc: string) =>
+    serviceTypeResponses[serviceTypes.indexOf(stc)].benefits.filter(b => !b.procedureCode && b.serviceTypeCodes.includes(stc));
+
+  // Stage 2 - procedure inquiries for codes nothing above answered
+  const unanswered = procedures.filter(p => {
+    const stc = serviceTypeForCategory(p.category);
+    return byProcedure(p.code).length === 0 && (stc === GENERAL_SERVICE_TYPE || byServiceType(stc).length === 0);
+  });
+  const procedureResponses = await runWithConcurrency(
+    chunk(unanswered, perRequest).map(batch => () =>
+      fetchCached({ ...inquiry, serviceTypeCodes: undefined, procedureCodes: batch.map(p => p.code) })
+    ),
+    concurrency
+  );
+  allBenefits.push(...procedureResponses.flatMap(response => response.benefits));
+
+  const results: ProcedureEligibility[] = procedures.map(procedure => {
+    const serviceTypeCode = serviceTypeForCategory(procedure.category);
+    const procedureBenefits = byProcedure(procedure.code);
+    if (procedureBenefits.length > 0) {
+      return { ...procedure, serviceTypeCode, source: 'procedure', benefit: procedureBenefits };
+    }
+    const serviceTypeBenefits = serviceTypeCode === GENERAL_SERVICE_TYPE ? [] : byServiceType(serviceTypeCode);
+    if (serviceTypeBenefits.length > 0) {
+      return { ...procedure, serviceTypeCode, source: 'serviceType', benefit: serviceTypeBenefits };
+    }
+    return { ...procedure, serviceTypeCode, source: null, benefit: null };
+  });
+
+  meta.durationMs = Date.now() - started;
+  return { general, procedures: results, meta };
+}
+
+/**
+ * Reduces 271 benefits to the fields the insurances table tracks. 271 coinsurance (EB*A) is the
+ * patient's share, so coverage is reported as 100 minus that percentage.
+ */
+export function summarizeBenefits(benefits: EligibilityBenefit[]): BenefitSummary {
+  const find = (code: string, stc?: string) =>
+    benefits.find(b => b.code === code && (!stc || b.serviceTypeCodes.includes(stc)) && (b.amount || b.percent));
+  const coverage = (stc: string) => {
+    const percent = find('A', stc)?.percent;
+    return percent ? String(Math.round((1 - parseFloat(percent)) * 100)) : undefined;
+  };
+
+  return {
+    active: benefits.some(b => b.code === '1'),
+    deductible: find('C')?.amount,
+    maxBenefit: find('F')?.amount,
+    preventiveCoverage: coverage('41'),
+    basicCoverage: coverage('25'),
+    majorCoverage: coverage('39'),
+  };
+}
+
+/**
+ * Summarizes a plan's general benefits together with its service type answers, which carry the
+ * coinsurance per category that the STC 35 inquiry leaves out
+ */
+export function summarizePlanBenefits(plan: DentalBenefitsPlan): BenefitSummary {
+  return summarizeBenefits([
+    ...plan.general.benefits,
+    ...plan.procedures.flatMap(p => (p.source === 'serviceType' && p.benefit) || []),
+  ]);
+}
@@ -0,0 +1,200 @@
+import axios from 'axios';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { Insurance, Patient } from '@shared/schema';
+import { decrypt } from './crypto';
+import {
+  build270,
+  parse271,
+  type EligibilityInquiry,
+  type EligibilityRejection,
+  type EligibilityResponse,
+  type X12Provider,
+} from './x12';
+
+export type { EligibilityInquiry, EligibilityResponse, EligibilityRejection } from './x12';
+
+const STEDI_BASE_URL = 'https://healthcare.us.stedi.com/2024-04-01';
+
+/**
+ * Raised when an eligibility check cannot produce a usable 271 — either the
+ * transport failed or the payer answered with AAA rejections.
+ */
+export class EligibilityError extends Error {
+  status: number;
+  rejections: EligibilityRejection[];
+
+  constructor(message: string, status: number = 502, rejections: EligibilityRejection[] = []) {
+    super(message);
+    this.name = 'EligibilityError';
+    this.status = status;
+    this.rejections = rejections;
+  }
+}
+
+/**
+ * Sends a raw X12 270 and resolves with the raw X12 271
+ */
+export interface EligibilityTransport {
+  name: string;
+  endpoint: string;
+  send(x12: string): Promise<string>;
+}
+
+/**
+ * Posts raw X12 to the Stedi real-time eligibility endpoint
+ */
+export class StediTransport implements EligibilityTransport {
+  name = 'stedi';
+  endpoint = `${STEDI_BASE_URL}/change/medicalnetwork/eligibility/v3/raw-x12`;
+
+  constructor(private apiKey: string) {}
+
+  async send(x12: string): Promise<string> {
+    try {
+      const response = await axios.post(
+        this.endpoint,
+        { x12 },
+        {
+          headers: {
+            Authorization: this.apiKey,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+      if (!response.data?.x12) {
+        throw new EligibilityError('Stedi returned no X12 271 payload');
+      }
+      return response.data.x12;
+    } catch (error: any) {
+      if (error instanceof EligibilityError) throw error;
+      const message = error.response?.data?.message || error.message || 'Unknown transport error';
+      throw new EligibilityError(`Stedi eligibility request failed: ${message}`);
+    }
+  }
+}
+
+/**
+ * Local stand-in for the clearinghouse. Answers every 270 with a canned 271
+ * read from disk: `<memberId>.271` when present, otherwise `default.271`.
+ */
+export class StubTransport implements EligibilityTransport {
+  name = 'stub';
+  endpoint: string;
+
+  constructor(private directory: string) {
+    this.endpoint = `file://${directory}`;
+  }
+
+  async send(x12: string): Promise<string> {
+    const memberId = x12.match(/NM1\*IL\*1\*[^*]*\*[^*]*\*[^*]*\*[^*]*\*[^*]*\*MI\*([^~*]+)/)?.[1];
+    // The member ID names a file, so nothing but letters, digits and dashes may reach the path
+    if (memberId && !/^[A-Za-z0-9-]+$/.test(memberId)) {
+      throw new EligibilityError(`Member ID "${memberId}" cannot name a canned 271`, 400);
+    }
+    const candidates = [memberId && `${memberId}.271`, 'default.271'].filter(Boolean) as string[];
+    const file = candidates.map(name => join(this.directory, name)).find(path => existsSync(path));
+    if (!file) {
+      throw new EligibilityError(`No canned 271 found in ${this.directory}`);
+    }
+    return readFile(file, 'utf-8');
+  }
+}
+
+/**
+ * Picks the transport from the environment: ELIGIBILITY_STUB_DIR wins over STEDI_API_KEY
+ */
+export function createEligibilityTransport(): EligibilityTransport {
+  if (process.env.ELIGIBILITY_STUB_DIR) {
+    return new StubTransport(process.env.ELIGIBILITY_STUB_DIR);
+  }
+  if (process.env.STEDI_API_KEY) {
+    return new StediTransport(process.env.STEDI_API_KEY);
+  }
+  throw new EligibilityError('No eligibility transport configured (set STEDI_API_KEY or ELIGIBILITY_STUB_DIR)', 500);
+}
+
+export interface EligibilityResult {
+  response: EligibilityResponse;
+  request: string;
+  raw: string;
+  transport: string;
+  endpoint: string;
+}
+
+/**
+ * Runs one 270/271 round trip
+ * @throws EligibilityError when the transport fails or the 271 carries AAA rejections
+ */
+export async function checkEligibility(
+  inquiry: EligibilityInquiry,
+  transport: EligibilityTransport = createEligibilityTransport()
+): Promise<EligibilityResult> {
+  const request = build270(inquiry);
+  const raw = await transport.send(request);
+
+  let response: EligibilityResponse;
+  try {
+    response = parse271(raw);
+  } catch (error) {
+    throw new EligibilityError(`Unreadable 271 response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  if (response.rejections.length > 0) {
+    const summary = response.rejections.map(r => `${r.code} ${r.description}`).join('; ');
+    throw new EligibilityError(`Payer rejected eligibility request: ${summary}`, 422, response.rejections);
+  }
+
+  return { response, request, raw, transport: transport.name, endpoint: transport.endpoint };
+}
+
+function splitName(fullName: string | null | undefined): { firstName: string; lastName: string } {
+  const parts = (fullName || '').trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return { firstName: '', lastName: '' };
+  if (parts.length === 1) return { firstName: '', lastName: parts[0] };
+  return { firstName: parts[0], lastName: parts[parts.length - 1] };
+}
+
+function safeDecrypt(value: string | null): string | undefined {
+  if (!value) return undefined;
+  try {
+    return decrypt(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds a 270 inquiry from a stored patient and one of their insurances rows.
+ * When the patient is not the subscriber the patient is sent as the dependent.
+ */
+export function inquiryFromInsurance(
+  patient: Patient,
+  insurance: Insurance,
+  provider: X12Provider,
+  payer: { name: string; id: string }
+): EligibilityInquiry {
+  const memberId = insurance.subscriberId || safeDecrypt(insurance.policyNumber);
+  if (!memberId) {
+    throw new EligibilityError('Insurance has no subscriber ID or policy number', 400);
+  }
+
+  const patientPerson = {
+    firstName: patient.givenName.split(' ')[0] || '',
+    lastName: patient.familyName,
+    dateOfBirth: safeDecrypt(patient.birthDate),
+    gender: patient.gender === 'male' ? 'M' as const : patient.gender === 'female' ? 'F' as const : undefined,
+  };
+  const groupNumber = safeDecrypt(insurance.groupNumber);
+  const isSelf = !insurance.relationship || insurance.relationship.toLowerCase() === 'self';
+
+  return {
+    payer,
+    provider,
+    subscriber: isSelf
+      ? { ...patientPerson, memberId, groupNumber }
+      : { ...splitName(insurance.subscriberName), memberId, groupNumber },
+    dependent: isSelf ? undefined : patientPerson,
+  };
+}
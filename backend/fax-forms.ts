@@ -0,0 +1,132 @@
+import { PDFDocument } from 'pdf-lib';
+import { BENEFIT_FIELDS } from './benefit-extraction';
+import { createWriter, formatDate } from './pdf-writer';
+
+export interface BenefitRequestDetails {
+  reference: string;
+  date: Date;
+  payer: { name: string; faxNumber: string };
+  practice: { name: string; npi?: string | null; faxNumber?: string | null };
+  patient: { name: string; birthDate?: string };
+  insurance: {
+    provider: string;
+    subscriberName?: string | null;
+    subscriberId?: string | null;
+    policyNumber?: string;
+    groupNumber?: string;
+    relationship?: string | null;
+  };
+  requestedBy: string;
+}
+
+/**
+ * Cover sheet and benefit breakdown request form for a patient's plan. The reference on both pages
+ * is how the payer's reply is matched back to the request.
+ * @returns The PDF and its page count
+ */
+export async function buildBenefitRequestFax(details: BenefitRequestDetails): Promise<{ pdf: Buffer; pages: number }> {
+  const { pdf, writer } = await createWriter(`Benefit breakdown request ${details.reference}`);
+
+  // Cover sheet
+  writer.text('FAX', { size: 28, bold: true, gap: 12 });
+  writer.field('Date', formatDate(details.date));
+  writer.field('To', details.payer.name);
+  writer.field('Fax', details.payer.faxNumber);
+  writer.field('From', details.practice.name);
+  writer.field('Reply fax', details.practice.faxNumber);
+  const setPages = writer.deferredField('Pages');
+  writer.text(`Reference: ${details.reference}`, { size: 14, bold: true, gap: 6 });
+  writer.rule();
+  writer.text('Re: Request for dental benefit breakdown', { bold: true, gap: 6 });
+  writer.text(
+    'Please complete the attached benefit breakdown for the member below and fax it back to the reply ' +
+    `number above. Include reference ${details.reference} on your reply so it reaches the right patient record.`,
+    { gap: 12 }
+  );
+  writer.rule();
+  writer.text(
+    'CONFIDENTIALITY NOTICE: This fax contains protected health information intended only for the ' +
+    'addressee. If you received it in error, notify the sender at the reply number and destroy all copies.',
+    { size: 9 }
+  );
+
+  // Request form
+  writer.newPage();
+  writer.text('Dental Benefit Breakdown Request', { size: 18, bold: true });
+  writer.text(`Reference: ${details.reference}`, { bold: true, gap: 6 });
+  writer.rule();
+  writer.text('Member', { bold: true });
+  writer.field('Patient', details.patient.name);
+  writer.field('Date of birth', details.patient.birthDate);
+  writer.field('Subscriber', details.insurance.subscriberName);
+  writer.field('Relationship', details.insurance.relationship);
+  writer.field('Member ID', details.insurance.subscriberId || details.insurance.policyNumber);
+  writer.field('Group number', details.insurance.groupNumber);
+  writer.field('Plan', details.insurance.provider);
+  writer.text('Provider', { bold: true });
+  writer.field('Practice', details.practice.name);
+  writer.field('NPI', details.practice.npi);
+  writer.field('Requested by', details.requestedBy);
+  writer.rule();
+
+  writer.text('Please state each benefit:', { bold: true, gap: 4 });
+  let category = '';
+  for (const field of BENEFIT_FIELDS) {
+    if (field.category !== category) {
+      category = field.category;
+      writer.text(category, { bold: true, size: 10 });
+    }
+    writer.text(`${field.fieldName}: ______________________`, { size: 10, indent: 12 });
+  }
+
+  const pages = pdf.getPageCount();
+  setPages(`${pages} (including cover)`);
+  return { pdf: Buffer.from(await pdf.save()), pages };
+}
+
+/**
+ * A filled-in benefit breakdown as a payer might fax it back, for the loopback fax provider
+ */
+export async function buildSampleBenefitReply(reference: string, payerName: string): Promise<Buffer> {
+  const { pdf, writer } = await createWriter(`Benefit breakdown ${reference}`);
+  writer.text(payerName, { size: 18, bold: true });
+  writer.text('Dental Benefit Summary', { size: 14, bold: true });
+  writer.text(`Reference: ${reference}`, { gap: 6 });
+  writer.rule();
+  for (const line of [
+    'Preventive 100%',
+    'Basic Services 80%',
+    'Major Services 50%',
+    'Fillings 80%',
+    'Extractions 80%',
+    'Root Canals 50%',
+    'Crowns 50%',
+    'Implants Not Covered',
+    'Cleanings 2 per calendar year',
+    'Exams 2 per calendar year',
+    'Bitewing X-rays 1 per calendar year',
+    'Full mouth X-rays once every 5 years',
+    'Fluoride 1 per calendar year',
+    'Basic waiting period None',
+    'Major waiting period 12 months',
+    'Individual Deductible $50',
+    'Family Deductible $150',
+    'Annual Maximum $1,500',
+    'Orthodontic Lifetime Maximum $1,000',
+  ]) {
+    writer.text(line);
+  }
+  return Buffer.from(await pdf.save());
+}
+
+/**
+ * Number of pages in a PDF, or 1 for an image
+ */
+export async function pageCountOf(data: Buffer, mimeType: string): Promise<number> {
+  if (mimeType !== 'application/pdf') return 1;
+  try {
+    return (await PDFDocument.load(data, { ignoreEncryption: true })).getPageCount();
+  } catch {
+    return 1;
+  }
+}
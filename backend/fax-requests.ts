@@ -0,0 +1,335 @@
+import { randomBytes } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { transactions, type Fax, type Insurance, type Patient } from '@shared/schema';
+import { db } from './db';
+import { storage } from './storage';
+import { decrypt } from './crypto';
+import { payerSupports, resolvePayer } from './payers';
+import {
+  createDocument,
+  detectMimeType,
+  readEncryptedFile,
+  removeEncryptedFile,
+  writeEncryptedFile,
+} from './documents';
+import { buildBenefitRequestFax, pageCountOf } from './fax-forms';
+import { createFaxProvider, replyFaxNumber, type FaxProvider, type InboundFax } from './fax';
+import { publishTransaction } from './live-events';
+import { startDocumentAnalysis } from './document-analysis';
+
+// A fax from a payer's number is taken as the answer to a request sent to it within this window
+const REPLY_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+export class FaxRequestError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'FaxRequestError';
+  }
+}
+
+export type FaxSummary = Omit<Fax, 'storageKey' | 'encryptionKey'>;
+
+/**
+ * A fax row without the location and key of its file
+ */
+export function faxSummary(fax: Fax): FaxSummary {
+  const { storageKey, encryptionKey, ...summary } = fax;
+  return summary;
+}
+
+/**
+ * Digits only, without the US country code, so numbers compare however they were written
+ */
+export function normalizeFaxNumber(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+}
+
+function newReference(): string {
+  return `BR-${randomBytes(4).toString('hex').toUpperCase()}`;
+}
+
+function safeDecrypt(value: string | null): string | undefined {
+  if (!value) return undefined;
+  try {
+    return decrypt(value);
+  } catch {
+    return undefined;
+  }
+}
+
+const EXTENSIONS: Record<string, string> = { 'application/pdf': 'pdf', 'image/jpeg': 'jpg', 'image/png': 'png' };
+
+function replyFileName(name: string, data: Buffer): string {
+  return `${name}.${EXTENSIONS[detectMimeType(data) || 'application/pdf']}`;
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+let provider: FaxProvider | undefined;
+
+function getProvider(): FaxProvider {
+  if (!provider) {
+    provider = createFaxProvider(receiveInboundFax);
+  }
+  return provider;
+}
+
+export interface BenefitFaxRequest {
+  patient: Patient;
+  insurance: Insurance;
+  userId: string;
+  runBy: string;
+}
+
+/**
+ * Faxes the payer a cover sheet and benefit breakdown request for the patient's plan. The sent form
+ * is kept as a 'fax-request' document and a FAX transaction waits until the reply comes in.
+ * @throws FaxRequestError if the payer takes no faxes, FaxError if the provider fails to send
+ */
+export async function requestBenefitFax(request: BenefitFaxRequest): Promise<FaxSummary> {
+  const { patient, insurance } = request;
+  const payer = await resolvePayer(insurance.provider);
+  if (!payer) {
+    throw new FaxRequestError(`${insurance.provider} is not in the payer directory`, 422);
+  }
+  if (!payerSupports(payer, 'FAX') || !payer.faxNumber) {
+    throw new FaxRequestError(`${payer.name} does not accept benefit requests by fax`, 422);
+  }
+
+  const faxProvider = getProvider();
+  const practice = patient.practiceId ? await storage.getPracticeById(patient.practiceId) : undefined;
+  // Replies to the practice's own number come back scoped to it, even when nothing matches them
+  const replyNumber = practice?.faxNumber || replyFaxNumber();
+  const reference = newReference();
+  const started = new Date();
+  const patientName = `${patient.givenName} ${patient.familyName}`;
+
+  const { pdf, pages } = await buildBenefitRequestFax({
+    reference,
+    date: started,
+    payer: { name: payer.name, faxNumber: payer.faxNumber },
+    practice: { name: practice?.name || 'Dental practice', npi: practice?.npi, faxNumber: replyNumber },
+    patient: { name: patientName, birthDate: safeDecrypt(patient.birthDate) },
+    insurance: {
+      provider: insurance.provider,
+      subscriberName: insurance.subscriberName,
+      subscriberId: insurance.subscriberId,
+      policyNumber: safeDecrypt(insurance.policyNumber),
+      groupNumber: safeDecrypt(insurance.groupNumber),
+      relationship: insurance.relationship,
+    },
+    requestedBy: request.runBy,
+  });
+  const document = await createDocument(patient, request.userId, 'fax-request', {
+    buffer: pdf,
+    originalname: `${reference}.pdf`,
+  });
+
+  const timestamp = started.toISOString().replace(/[:.]/g, '-').slice(0, -5);
+  const [transaction] = await db.insert(transactions).values({
+    requestId: `REQ-${timestamp}-${patient.id}-FAX`,
+    patientId: patient.id,
+    patientName,
+    type: 'FAX',
+    method: 'FAX /fax/benefit-request',
+    startTime: formatTimestamp(started),
+    status: 'Waiting',
+    insuranceProvider: insurance.provider,
+    runBy: request.runBy,
+    phoneNumber: payer.faxNumber,
+    fetchStatus: 'pending',
+    saveStatus: 'pending',
+  }).returning();
+  publishTransaction(transaction.id, 'created');
+
+  const remoteNumber = normalizeFaxNumber(payer.faxNumber);
+  const fax = await storage.createFax({
+    direction: 'outbound',
+    status: 'sending',
+    practiceId: patient.practiceId,
+    patientId: patient.id,
+    transactionId: transaction.id,
+    documentId: document.id,
+    reference,
+    remoteNumber,
+    provider: faxProvider.name,
+    pages,
+    createdBy: request.userId,
+  });
+
+  try {
+    const { providerFaxId } = await faxProvider.send({
+      to: remoteNumber,
+      from: replyNumber ? normalizeFaxNumber(replyNumber) : null,
+      document: pdf,
+      reference,
+    });
+    return faxSummary((await storage.updateFax(fax.id, { status: 'sent', providerFaxId }))!);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Fax could not be sent';
+    const finished = new Date();
+    await storage.updateFax(fax.id, { status: 'failed', errorMessage: message });
+    await db.update(transactions).set({
+      status: 'FAILED',
+      endTime: formatTimestamp(finished),
+      duration: formatDuration(finished.getTime() - started.getTime()),
+      errorMessage: message,
+    }).where(eq(transactions.id, transaction.id));
+    publishTransaction(transaction.id, 'updated');
+    throw error;
+  }
+}
+
+/**
+ * Starts the document analysis of a filed fax, which keeps what it finds as a FAX run of the
+ * patient's coverage by code. The UI follows this job rather than starting its own. A failed
+ * analysis closes its transaction as FAILED; an analysis that cannot start is noted on the fax.
+ */
+async function analyzeFax(patient: Patient, userId: string | null, fax: Fax, documentId: string): Promise<void> {
+  try {
+    const document = await storage.getPatientDocument(documentId);
+    if (!document) return;
+    const insurances = await storage.getPatientInsurances(patient.id);
+    const user = userId ? await storage.getUser(userId) : undefined;
+    await startDocumentAnalysis({
+      patient,
+      insurance: insurances.find(i => i.type === 'Primary') || insurances[0],
+      documents: [document],
+      runBy: user?.username || 'Smith AI System',
+      userId,
+      source: 'FAX',
+    });
+  } catch (error) {
+    await storage.updateFax(fax.id, {
+      errorMessage: `Analysis not started: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    });
+  }
+}
+
+/**
+ * Files a reply under the outbound request's patient and closes its FAX transaction
+ */
+async function answerRequest(request: Fax, inbound: Fax, data: Buffer, userId: string | null): Promise<Fax> {
+  const patient = (await storage.getPatientById(request.patientId!))!;
+  const document = await createDocument(patient, userId, 'benefit-fax', {
+    buffer: data,
+    originalname: replyFileName(`${request.reference || 'fax'}-reply`, data),
+  });
+
+  const answered = (await storage.updateFax(inbound.id, {
+    status: 'matched',
+    practiceId: patient.practiceId,
+    patientId: patient.id,
+    transactionId: request.transactionId,
+    documentId: document.id,
+    replyTo: request.id,
+  }))!;
+  await storage.updateFax(request.id, { status: 'answered' });
+  await analyzeFax(patient, userId, inbound, document.id);
+
+  if (request.transactionId) {
+    const finished = new Date();
+    await db.update(transactions).set({
+      status: 'SUCCESS',
+      endTime: formatTimestamp(finished),
+      duration: formatDuration(finished.getTime() - request.createdAt.getTime()),
+      coverageDetails: `Benefit breakdown received by fax (${answered.pages ?? 1} page${answered.pages === 1 ? '' : 's'})`,
+    }).where(eq(transactions.id, request.transactionId));
+    publishTransaction(request.transactionId, 'updated');
+  }
+  return answered;
+}
+
+/**
+ * Takes in a received fax. It is matched to the outbound request by the reference the payer echoed,
+ * or else to the one request the receiving practice still has waiting on the sending number; either
+ * way it becomes a 'benefit-fax' document of the patient. Faxes matching nothing are kept encrypted until an admin
+ * assigns them; they belong to the practice whose number they were sent to, if any.
+ * @throws FaxRequestError if the file is not a PDF, JPEG or PNG
+ */
+export async function receiveInboundFax(inbound: InboundFax): Promise<FaxSummary> {
+  const mimeType = detectMimeType(inbound.document);
+  if (!mimeType) {
+    throw new FaxRequestError('Only PDF, JPEG and PNG faxes are supported');
+  }
+
+  const remoteNumber = normalizeFaxNumber(inbound.from);
+  const practice = inbound.to ? await storage.getPracticeByFaxNumber(normalizeFaxNumber(inbound.to)) : undefined;
+  let request = inbound.reference ? await storage.getFaxByReference(inbound.reference.trim().toUpperCase()) : undefined;
+  if (request && (request.direction !== 'outbound' || !request.patientId || (practice && request.practiceId !== practice.id))) {
+    request = undefined;
+  }
+  // Payers serve every practice from the same number, so without a reference the reply is only
+  // taken as an answer within the practice that received it, and only when no other request of
+  // that practice is waiting on the number
+  if (!request && practice) {
+    const waiting = await storage.findAwaitingFaxes(remoteNumber, practice.id, new Date(Date.now() - REPLY_WINDOW_MS), 2);
+    if (waiting.length === 1) request = waiting[0];
+  }
+
+  const fax = await storage.createFax({
+    direction: 'inbound',
+    status: 'unmatched',
+    practiceId: practice?.id,
+    remoteNumber,
+    provider: getProvider().name,
+    providerFaxId: inbound.providerFaxId,
+    pages: await pageCountOf(inbound.document, mimeType),
+  });
+
+  if (request) {
+    return faxSummary(await answerRequest(request, fax, inbound.document, null));
+  }
+
+  const file = await writeEncryptedFile(inbound.document);
+  return faxSummary((await storage.updateFax(fax.id, file))!);
+}
+
+/**
+ * Files an unmatched fax under a patient. If the patient has a request still waiting, the fax
+ * answers it.
+ */
+export async function assignInboundFax(fax: Fax, patient: Patient, userId: string): Promise<FaxSummary> {
+  if (fax.direction !== 'inbound' || fax.status !== 'unmatched' || !fax.storageKey || !fax.encryptionKey) {
+    throw new FaxRequestError('Only unmatched inbound faxes can be assigned', 409);
+  }
+
+  const data = await readEncryptedFile(fax.storageKey, fax.encryptionKey);
+  const waiting = (await storage.getPatientFaxes(patient.id)).find(f => f.direction === 'outbound' && f.status === 'sent');
+
+  if (waiting) {
+    await answerRequest(waiting, fax, data, userId);
+  } else {
+    const document = await createDocument(patient, userId, 'benefit-fax', { buffer: data, originalname: replyFileName('fax', data) });
+    await storage.updateFax(fax.id, {
+      status: 'matched',
+      practiceId: patient.practiceId,
+      patientId: patient.id,
+      documentId: document.id,
+    });
+    await analyzeFax(patient, userId, fax, document.id);
+  }
+
+  const assigned = (await storage.updateFax(fax.id, { storageKey: null, encryptionKey: null }))!;
+  await removeEncryptedFile(fax.storageKey);
+  return faxSummary(assigned);
+}
+
+/**
+ * Decrypts an unmatched fax for review before it is assigned
+ */
+export async function readUnmatchedFax(fax: Fax): Promise<{ data: Buffer; mimeType: string }> {
+  if (!fax.storageKey || !fax.encryptionKey) {
+    throw new FaxRequestError('This fax is filed under a patient; open it from their documents', 404);
+  }
+  const data = await readEncryptedFile(fax.storageKey, fax.encryptionKey);
+  return { data, mimeType: detectMimeType(data) || 'application/octet-stream' };
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { buildSampleBenefitReply } from './fax-forms';
+
+export interface OutboundFax {
+  to: string; // Digits only
+  from: string | null; // Our reply number, when configured
+  document: Buffer; // PDF
+  reference: string;
+}
+
+export interface InboundFax {
+  from: string;
+  to?: string;
+  document: Buffer;
+  providerFaxId?: string;
+  reference?: string; // Set when the gateway or payer echoed the request's reference
+}
+
+export type InboundFaxHandler = (fax: InboundFax) => Promise<unknown>;
+
+/**
+ * Sends faxes. FAX_PROVIDER picks the implementation: `http` for a fax gateway, `loopback` for
+ * development. Inbound faxes arrive through POST /api/fax/inbound, or straight from the provider
+ * for loopback.
+ */
+export interface FaxProvider {
+  readonly name: string;
+  send(fax: OutboundFax): Promise<{ providerFaxId: string }>;
+}
+
+export class FaxError extends Error {
+  constructor(message: string, public readonly status: number = 502) {
+    super(message);
+    this.name = 'FaxError';
+  }
+}
+
+/**
+ * Posts the PDF as multipart form data (to, from, reference, file) to a fax gateway and expects
+ * `{ id }` back. The gateway delivers replies to /api/fax/inbound.
+ */
+export class HttpFaxProvider implements FaxProvider {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly token?: string) {}
+
+  async send(fax: OutboundFax): Promise<{ providerFaxId: string }> {
+    const form = new FormData();
+    form.append('to', fax.to);
+    if (fax.from) form.append('from', fax.from);
+    form.append('reference', fax.reference);
+    form.append('file', new Blob([fax.document], { type: 'application/pdf' }), `${fax.reference}.pdf`);
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {},
+      body: form,
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok || !body.id) {
+      throw new FaxError(`Fax gateway rejected the fax (${response.status}${body.error ? `: ${body.error}` : ''})`);
+    }
+    return { providerFaxId: String(body.id) };
+  }
+}
+
+/**
+ * Keeps sent faxes in a directory and, after a delay, has the payer "reply" with a filled-in benefit
+ * breakdown (or the file FAX_LOOPBACK_REPLY) carrying the request's reference
+ */
+export class LoopbackFaxProvider implements FaxProvider {
+  readonly name = 'loopback';
+
+  constructor(
+    private readonly deliver: InboundFaxHandler,
+    private readonly dir: string,
+    private readonly delayMs: number,
+    private readonly replyFile?: string
+  ) {}
+
+  async send(fax: OutboundFax): Promise<{ providerFaxId: string }> {
+    const providerFaxId = `loopback-${crypto.randomBytes(6).toString('hex')}`;
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(join(this.dir, `${fax.reference}-${fax.to}.pdf`), fax.document, { mode: 0o600 });
+
+    setTimeout(async () => {
+      try {
+        const document = this.replyFile
+          ? readFileSync(this.replyFile)
+          : await buildSampleBenefitReply(fax.reference, `Payer fax ${fax.to}`);
+        await this.deliver({
+          from: fax.to,
+          to: fax.from || undefined,
+          document,
+          providerFaxId: `${providerFaxId}-reply`,
+          reference: fax.reference,
+        });
+      } catch {
+        // A failed loopback reply leaves the request waiting, as a payer that never answers would
+      }
+    }, this.delayMs).unref();
+
+    return { providerFaxId };
+  }
+}
+
+/**
+ * Our fax number, printed on cover sheets as the reply number
+ */
+export function replyFaxNumber(): string | null {
+  return process.env.FAX_NUMBER || null;
+}
+
+/**
+ * Creates the provider FAX_PROVIDER names
+ * @param deliver - Receives replies for providers that deliver them in-process (loopback)
+ */
+export function createFaxProvider(deliver: InboundFaxHandler): FaxProvider {
+  const kind = process.env.FAX_PROVIDER || (process.env.NODE_ENV === 'production' ? 'http' : 'loopback');
+  switch (kind) {
+    case 'http':
+      if (!process.env.FAX_GATEWAY_URL) {
+        throw new FaxError('FAX_GATEWAY_URL is required for FAX_PROVIDER=http', 503);
+      }
+      return new HttpFaxProvider(process.env.FAX_GATEWAY_URL, process.env.FAX_GATEWAY_TOKEN);
+    case 'loopback':
+      return new LoopbackFaxProvider(
+        deliver,
+        resolve(process.env.FAX_OUTBOX_DIR || '.outbox/fax'),
+        parseInt(process.env.FAX_LOOPBACK_DELAY_MS || '5000', 10),
+        process.env.FAX_LOOPBACK_REPLY
+      );
+    default:
+      throw new FaxError(`Unknown FAX_PROVIDER ${kind}`, 503);
+  }
+}
+
+/**
+ * Checks the bearer token a gateway sends with inbound faxes against FAX_WEBHOOK_SECRET.
+ * Without a secret configured, the webhook accepts nothing.
+ */
+export function verifyFaxWebhook(authorization: string | undefined): boolean {
+  const secret = process.env.FAX_WEBHOOK_SECRET;
+  if (!secret || !authorization?.startsWith('Bearer ')) return false;
+  const given = crypto.createHash('sha256').update(authorization.slice(7)).digest();
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  return crypto.timingSafeEqual(given, expected);
+}
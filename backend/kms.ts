@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+/**
+ * Holds the key-encryption keys (KEKs) that wrap per-record data keys. Key IDs are stored in
+ * each ciphertext, so retired keys stay available for unwrapping until every record has been
+ * re-encrypted under the active key.
+ */
+export interface KeyManagementService {
+  activeKeyId(): string;
+  wrapKey(dataKey: Buffer): { keyId: string; wrapped: Buffer };
+  unwrapKey(keyId: string, wrapped: Buffer): Buffer;
+}
+
+export class KmsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KmsError';
+  }
+}
+
+interface Keyring {
+  activeKeyId: string;
+  keys: Record<string, string>; // key ID -> base64 AES-256 key
+}
+
+const WRAP_ALGORITHM = 'aes-256-gcm';
+const WRAP_IV_LENGTH = 12;
+const WRAP_TAG_LENGTH = 16;
+
+function newKeyId(): string {
+  return `kek-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Local stand-in for a cloud KMS: KEKs live in a JSON keyring file (KMS_KEYRING_FILE, default
+ * .keys/keyring.json). The file is re-read when it changes on disk, so `rotate-keys` can switch
+ * the active key under a running server. Outside production a missing keyring is created with
+ * one fresh key.
+ */
+export class FileKms implements KeyManagementService {
+  private keyring: Keyring | undefined;
+  private loadedMtime = 0;
+
+  constructor(private readonly path: string) {}
+
+  private load(): Keyring {
+    if (!existsSync(this.path)) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new KmsError(`KMS keyring not found at ${this.path}`);
+      }
+      const keyId = newKeyId();
+      this.save({ activeKeyId: keyId, keys: { [keyId]: crypto.randomBytes(32).toString('base64') } });
+    }
+
+    const mtime = statSync(this.path).mtimeMs;
+    if (!this.keyring || mtime !== this.loadedMtime) {
+      const keyring = JSON.parse(readFileSync(this.path, 'utf8')) as Keyring;
+      if (!keyring.keys?.[keyring.activeKeyId]) {
+        throw new KmsError(`KMS keyring ${this.path} has no key for active key ID ${keyring.activeKeyId}`);
+      }
+      this.keyring = keyring;
+      this.loadedMtime = mtime;
+    }
+    return this.keyring;
+  }
+
+  private save(keyring: Keyring): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(keyring, null, 2) + '\n', { mode: 0o600 });
+    this.keyring = undefined;
+  }
+
+  private kek(keyId: string): Buffer {
+    const key = this.load().keys[keyId];
+    if (!key) {
+      throw new KmsError(`Unknown key ID ${keyId}`);
+    }
+    return Buffer.from(key, 'base64');
+  }
+
+  activeKeyId(): string {
+    return this.load().activeKeyId;
+  }
+
+  keyIds(): string[] {
+    return Object.keys(this.load().keys);
+  }
+
+  /**
+   * Adds a new KEK and makes it the active one; existing keys are kept for unwrapping
+   */
+  createKey(): string {
+    const keyring = this.load();
+    const keyId = newKeyId();
+    this.save({ activeKeyId: keyId, keys: { ...keyring.keys, [keyId]: crypto.randomBytes(32).toString('base64') } });
+    return keyId;
+  }
+
+  /**
+   * Removes a KEK. Only do this once no ciphertext references it.
+   */
+  deleteKey(keyId: string): void {
+    const keyring = this.load();
+    if (keyId === keyring.activeKeyId) {
+      throw new KmsError('Cannot delete the active key');
+    }
+    const { [keyId]: _, ...keys } = keyring.keys;
+    this.save({ activeKeyId: keyring.activeKeyId, keys });
+  }
+
+  wrapKey(dataKey: Buffer): { keyId: string; wrapped: Buffer } {
+    const keyId = this.activeKeyId();
+    const iv = crypto.randomBytes(WRAP_IV_LENGTH);
+    const cipher = crypto.createCipheriv(WRAP_ALGORITHM, this.kek(keyId), iv);
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return { keyId, wrapped: Buffer.concat([iv, cipher.getAuthTag(), ciphertext]) };
+  }
+
+  unwrapKey(keyId: string, wrapped: Buffer): Buffer {
+    const iv = wrapped.subarray(0, WRAP_IV_LENGTH);
+    const tag = wrapped.subarray(WRAP_IV_LENGTH, WRAP_IV_LENGTH + WRAP_TAG_LENGTH);
+    const decipher = crypto.createDecipheriv(WRAP_ALGORITHM, this.kek(keyId), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(wrapped.subarray(WRAP_IV_LENGTH + WRAP_TAG_LENGTH)), decipher.final()]);
+  }
+}
+
+export const kms = new FileKms(resolve(process.env.KMS_KEYRING_FILE || '.keys/keyring.json'));
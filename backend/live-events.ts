@@ -0,0 +1,93 @@
+import { EventEmitter } from 'events';
+import { eq } from 'drizzle-orm';
+import { transactions, type VerificationJob, type VerificationJobStep } from '@shared/schema';
+import type { Permission } from '@shared/permissions';
+import type { LiveEvent, VerificationStepStatus } from '@shared/live-events';
+import { db } from './db';
+import { storage } from './storage';
+
+export type { LiveEvent } from '@shared/live-events';
+
+// Permission a subscriber needs to be told about each kind of event
+export const LIVE_EVENT_PERMISSIONS: Record<LiveEvent['type'], Permission> = {
+  'transaction.created': 'transaction:read',
+  'transaction.updated': 'transaction:read',
+  'verification-status.updated': 'patient:read',
+  'job.updated': 'job:read',
+};
+
+const practiceEvents = new EventEmitter();
+practiceEvents.setMaxListeners(0);
+
+/**
+ * Listens for a practice's events
+ * @returns Stops listening
+ */
+export function subscribeLiveEvents(practiceId: string, listener: (event: LiveEvent) => void): () => void {
+  practiceEvents.on(practiceId, listener);
+  return () => {
+    practiceEvents.off(practiceId, listener);
+  };
+}
+
+async function emitForPatient(patientId: string, event: LiveEvent): Promise<void> {
+  const practiceId = (await storage.getPatientById(patientId))?.practiceId;
+  if (practiceId) practiceEvents.emit(practiceId, event);
+}
+
+// Publishing never fails the write it reports on; a missed event is caught up by the next fetch
+function publish(work: () => Promise<void>): void {
+  work().catch(() => undefined);
+}
+
+/**
+ * Reports a transaction that was just inserted or updated
+ */
+export function publishTransaction(transactionId: string, action: 'created' | 'updated'): void {
+  publish(async () => {
+    const [transaction] = await db.select().from(transactions).where(eq(transactions.id, transactionId));
+    if (!transaction) return;
+    await emitForPatient(transaction.patientId, {
+      type: `transaction.${action}`,
+      transactionId,
+      patientId: transaction.patientId,
+      transactionType: transaction.type,
+      status: transaction.status,
+    });
+  });
+}
+
+/**
+ * Reports the patient's current verification step statuses
+ */
+export function publishVerificationStatus(patientId: string): void {
+  publish(async () => {
+    const status = await storage.getPatientVerificationStatus(patientId);
+    if (!status) return;
+    await emitForPatient(patientId, {
+      type: 'verification-status.updated',
+      patientId,
+      steps: {
+        fetchPMS: status.fetchPMS as VerificationStepStatus,
+        documentAnalysis: status.documentAnalysis as VerificationStepStatus,
+        apiVerification: status.apiVerification as VerificationStepStatus,
+        callCenter: status.callCenter as VerificationStepStatus,
+        saveToPMS: status.saveToPMS as VerificationStepStatus,
+      },
+    });
+  });
+}
+
+/**
+ * Reports a verification job's new state, or progress on one of its steps
+ */
+export function publishJob(job: VerificationJob, step?: VerificationJobStep): void {
+  publish(() => emitForPatient(job.patientId, {
+    type: 'job.updated',
+    jobId: job.id,
+    patientId: job.patientId,
+    status: job.status,
+    currentStep: step?.step ?? job.currentStep,
+    step: step && { step: step.step, attempt: step.attempt, status: step.status, message: step.message },
+  }));
+}
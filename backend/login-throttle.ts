@@ -0,0 +1,126 @@
+import type { LoginThrottle } from '@shared/schema';
+import { storage } from './storage';
+
+// Failed logins are counted per account (lowercased email) and per client IP. Past a few
+// failures each further attempt has to wait an exponentially growing delay; past the lockout
+// threshold the account or IP is refused outright until the lockout ends or an admin unlocks it.
+
+interface ThrottlePolicy {
+  delayAfter: number; // Failures before delays start
+  lockAfter: number; // Failures that trigger a lockout
+}
+
+const POLICIES: Record<'account' | 'ip', ThrottlePolicy> = {
+  account: { delayAfter: 3, lockAfter: parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || '10', 10) },
+  // A clinic's staff often share one public IP, so the IP limits are looser
+  ip: { delayAfter: 10, lockAfter: parseInt(process.env.LOGIN_IP_LOCKOUT_THRESHOLD || '50', 10) }
+};
+
+const MAX_DELAY_MS = 60 * 1000;
+
+function lockoutMs(): number {
+  return parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) * 60 * 1000;
+}
+
+export function accountKey(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * When the next attempt may be made, or null if it can be made now
+ */
+function retryAt(throttle: LoginThrottle | undefined, policy: ThrottlePolicy): number | null {
+  if (!throttle) return null;
+  const now = Date.now();
+  if (throttle.lockedUntil && throttle.lockedUntil.getTime() > now) {
+    return throttle.lockedUntil.getTime();
+  }
+  // Failures older than the lockout period no longer count
+  if (throttle.lastFailureAt.getTime() < now - lockoutMs() || throttle.failures < policy.delayAfter) {
+    return null;
+  }
+  const delay = Math.min(1000 * 2 ** (throttle.failures - policy.delayAfter), MAX_DELAY_MS);
+  const at = throttle.lastFailureAt.getTime() + delay;
+  return at > now ? at : null;
+}
+
+export interface LoginBlock {
+  retryAfterSeconds: number;
+  locked: boolean; // Locked out, rather than waiting out a delay
+}
+
+/**
+ * Whether a login attempt for `email` from `ip` has to wait
+ * @returns null if the attempt may go ahead
+ */
+export async function checkLoginThrottle(email: string, ip: string | undefined): Promise<LoginBlock | null> {
+  const checks: [LoginThrottle | undefined, ThrottlePolicy][] = [
+    [await storage.getLoginThrottle('account', accountKey(email)), POLICIES.account]
+  ];
+  if (ip) {
+    checks.push([await storage.getLoginThrottle('ip', ip), POLICIES.ip]);
+  }
+
+  let block: LoginBlock | null = null;
+  for (const [throttle, policy] of checks) {
+    const at = retryAt(throttle, policy);
+    if (at === null) continue;
+    const retryAfterSeconds = Math.ceil((at - Date.now()) / 1000);
+    const locked = !!throttle?.lockedUntil && throttle.lockedUntil.getTime() === at;
+    if (!block || retryAfterSeconds > block.retryAfterSeconds) {
+      block = { retryAfterSeconds, locked };
+    }
+  }
+  return block;
+}
+
+/**
+ * Counts a failed password or MFA code, locking the account or IP once it reaches its threshold
+ */
+export async function recordLoginFailure(email: string, ip: string | undefined): Promise<void> {
+  const resetBefore = new Date(Date.now() - lockoutMs());
+  const targets: ['account' | 'ip', string][] = [['account', accountKey(email)]];
+  if (ip) targets.push(['ip', ip]);
+
+  for (const [scope, key] of targets) {
+    const throttle = await storage.recordLoginFailure(scope, key, resetBefore);
+    if (throttle.failures >= POLICIES[scope].lockAfter) {
+      await storage.lockLoginThrottle(scope, key, new Date(Date.now() + lockoutMs()));
+    }
+  }
+}
+
+/**
+ * Resets an account's failure count after a complete login. IP counts are left to expire, so
+ * one valid account cannot clear the way for guessing at others.
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await storage.deleteLoginThrottle('account', accountKey(email));
+}
+
+export async function unlockAccount(email: string): Promise<boolean> {
+  return storage.deleteLoginThrottle('account', accountKey(email));
+}
+
+export interface AccountLockout {
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+/**
+ * Recent failures and any active lockout per account key, for accounts that have either
+ */
+export async function accountLockouts(): Promise<Map<string, AccountLockout>> {
+  const now = Date.now();
+  const lockouts = new Map<string, AccountLockout>();
+  for (const throttle of await storage.getLoginThrottles('account')) {
+    const locked = !!throttle.lockedUntil && throttle.lockedUntil.getTime() > now;
+    const recent = throttle.lastFailureAt.getTime() >= now - lockoutMs();
+    if (!locked && !recent) continue;
+    lockouts.set(throttle.key, {
+      failedAttempts: recent ? throttle.failures : 0,
+      lockedUntil: locked ? throttle.lockedUntil!.toISOString() : null
+    });
+  }
+  return lockouts;
+}
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import type { Request } from 'express';
+import QRCode from 'qrcode';
+import type { User } from '@shared/schema';
+import { encrypt, decrypt } from './crypto';
+import { storage } from './storage';
+
+// RFC 6238 TOTP as authenticator apps implement it: HMAC-SHA1, 30 second steps, 6 digits
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_DRIFT_STEPS = 1; // Accept the previous and next code too, for clock skew
+const SECRET_BYTES = 20;
+
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = 'Smith AI Center';
+
+// A password-verified login waiting for its second factor
+const PENDING_TTL_MS = 5 * 60 * 1000;
+const MAX_PENDING_ATTEMPTS = 5;
+
+export class MfaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MfaError';
+  }
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) continue;
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Time step of the first code within the drift window that matches and is newer than
+ * `lastUsedStep`, or null
+ */
+function matchTotp(secret: string, code: string, lastUsedStep: number | null): number | null {
+  const current = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_DRIFT_STEPS; step <= current + TOTP_DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+export interface MfaEnrollment {
+  secret: string; // For manual entry when the QR code cannot be scanned
+  otpauthUri: string;
+  qrCode: string; // PNG data URL of otpauthUri
+}
+
+/**
+ * Starts (or restarts) TOTP enrollment. The factor stays inactive until `confirmEnrollment`
+ * sees a valid code, so a half-finished enrollment never locks anyone out.
+ */
+export async function beginEnrollment(user: User): Promise<MfaEnrollment> {
+  const existing = await storage.getMfaFactor(user.id);
+  if (existing?.enabledAt) {
+    throw new MfaError('MFA is already enabled; an administrator must reset it first');
+  }
+
+  const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+  await storage.saveMfaFactor(user.id, encrypt(secret));
+
+  const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+  const otpauthUri = `otpauth://totp/${label}?${params}`;
+  return { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+}
+
+/**
+ * Activates a pending enrollment if `code` is valid
+ * @returns The recovery codes, shown to the user once, or null if the code is wrong
+ */
+export async function confirmEnrollment(userId: string, code: string): Promise<string[] | null> {
+  const factor = await storage.getMfaFactor(userId);
+  if (!factor) {
+    throw new MfaError('MFA enrollment has not been started');
+  }
+  if (factor.enabledAt) {
+    throw new MfaError('MFA is already enabled');
+  }
+
+  const step = /^\d{6}$/.test(code) ? matchTotp(decrypt(factor.secret), code, null) : null;
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  await storage.updateMfaFactor(userId, {
+    enabledAt: new Date(),
+    lastUsedStep: step,
+    recoveryCodes: recoveryCodes.map(hashRecoveryCode)
+  });
+  return recoveryCodes;
+}
+
+/**
+ * Checks a login's second factor: a current TOTP code, or an unused recovery code, which is
+ * then used up
+ */
+export async function verifyMfaCode(userId: string, code: string): Promise<boolean> {
+  const factor = await storage.getMfaFactor(userId);
+  if (!factor?.enabledAt) return false;
+
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = matchTotp(decrypt(factor.secret), trimmed, factor.lastUsedStep);
+    if (step === null) return false;
+    await storage.updateMfaFactor(userId, { lastUsedStep: step });
+    return true;
+  }
+
+  const hash = hashRecoveryCode(trimmed);
+  if (!factor.recoveryCodes.includes(hash)) return false;
+  await storage.updateMfaFactor(userId, { recoveryCodes: factor.recoveryCodes.filter(h => h !== hash) });
+  return true;
+}
+
+export async function mfaStatus(userId: string): Promise<{ enabled: boolean; enabledAt: string | null; recoveryCodesRemaining: number }> {
+  const factor = await storage.getMfaFactor(userId);
+  return {
+    enabled: !!factor?.enabledAt,
+    enabledAt: factor?.enabledAt ? factor.enabledAt.toISOString() : null,
+    recoveryCodesRemaining: factor?.enabledAt ? factor.recoveryCodes.length : 0
+  };
+}
+
+interface PendingMfa {
+  userId: string;
+  enroll: boolean; // MFA is required for the user's role but they have not enrolled yet
+  expiresAt: number;
+  attempts: number;
+}
+
+/**
+ * Parks a password-verified login until the second factor is checked. The session carries no
+ * userId meanwhile, so it cannot reach any authenticated route.
+ */
+export function setPendingMfa(req: Request, userId: string, enroll: boolean): void {
+  (req.session as any).mfaPending = { userId, enroll, expiresAt: Date.now() + PENDING_TTL_MS, attempts: 0 };
+}
+
+export function getPendingMfa(req: Request): PendingMfa | undefined {
+  const pending = (req.session as any)?.mfaPending as PendingMfa | undefined;
+  if (!pending) return undefined;
+  if (pending.expiresAt < Date.now() || pending.attempts >= MAX_PENDING_ATTEMPTS) {
+    delete (req.session as any).mfaPending;
+    return undefined;
+  }
+  return pending;
+}
+
+/**
+ * Counts a wrong code; the pending login is dropped after MAX_PENDING_ATTEMPTS
+ */
+export function recordFailedMfaAttempt(req: Request): void {
+  const pending = (req.session as any)?.mfaPending as PendingMfa | undefined;
+  if (pending) pending.attempts++;
+}
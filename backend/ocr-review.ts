@@ -0,0 +1,306 @@
+import type { Insurance, OcrExtraction, Patient } from '@shared/schema';
+import { storage } from './storage';
+import { encrypt, decrypt, maskSensitiveData } from './crypto';
+import type { OCRResult } from './ocr';
+
+export type OcrReviewField = 'givenName' | 'familyName' | 'provider' | 'policyNumber' | 'groupNumber' | 'subscriberId' | 'subscriberName';
+
+export type OcrValues = Record<OcrReviewField, string>;
+
+export type OcrExtractionStatus = 'pending' | 'confirmed' | 'rejected';
+
+interface ReviewFieldSpec {
+  field: OcrReviewField;
+  label: string;
+  record: 'patient' | 'insurance';
+  encrypted?: boolean; // Encrypted on the insurance record, so the current value is shown masked
+  confidence: string[]; // OCR fields the value is built from
+}
+
+// Fields an extraction can change, mapped onto the patient and their primary insurance
+export const OCR_REVIEW_FIELDS: ReviewFieldSpec[] = [
+  { field: 'givenName', label: 'First Name', record: 'patient', confidence: ['firstName'] },
+  { field: 'familyName', label: 'Last Name', record: 'patient', confidence: ['lastName'] },
+  { field: 'provider', label: 'Insurance Provider', record: 'insurance', confidence: ['provider'] },
+  { field: 'policyNumber', label: 'Policy Number', record: 'insurance', encrypted: true, confidence: ['policyNumber'] },
+  { field: 'groupNumber', label: 'Group Number', record: 'insurance', encrypted: true, confidence: ['groupNumber'] },
+  { field: 'subscriberId', label: 'Subscriber ID', record: 'insurance', confidence: ['subscriberId'] },
+  { field: 'subscriberName', label: 'Subscriber Name', record: 'insurance', confidence: ['firstName', 'lastName'] },
+];
+
+const REVIEW_FIELD_NAMES = OCR_REVIEW_FIELDS.map(spec => spec.field);
+
+export interface OcrReviewFieldDiff {
+  field: OcrReviewField;
+  label: string;
+  record: 'patient' | 'insurance';
+  current: string | null; // Masked for encrypted fields
+  extracted: string; // As read from the card
+  proposed: string; // What confirming writes, after reviewer edits
+  confidence: number;
+  changed: boolean; // Proposed value is set and differs from the current one
+  edited: boolean;
+}
+
+export interface OcrReview {
+  id: string;
+  patientId: string;
+  status: OcrExtractionStatus;
+  template: string | null;
+  createdAt: Date;
+  reviewedAt: Date | null;
+  appliedFields: string[] | null;
+  fields: OcrReviewFieldDiff[];
+}
+
+export class OcrReviewError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'OcrReviewError';
+  }
+}
+
+function emptyValues(): OcrValues {
+  return Object.fromEntries(REVIEW_FIELD_NAMES.map(field => [field, ''])) as OcrValues;
+}
+
+function readValues(encrypted: string): OcrValues {
+  return { ...emptyValues(), ...JSON.parse(decrypt(encrypted)) };
+}
+
+function writeValues(values: OcrValues): string {
+  return encrypt(JSON.stringify(values));
+}
+
+/**
+ * Maps an OCR result onto the patient and insurance fields it would change. Fields the scan
+ * could not read stay empty.
+ */
+export function valuesFromScan(result: OCRResult): OcrValues {
+  const data = result.extractedData;
+  return {
+    givenName: [data.firstName, data.middleName].filter(Boolean).join(' '),
+    familyName: data.lastName,
+    provider: data.provider,
+    policyNumber: data.policyNumber,
+    groupNumber: data.groupNumber,
+    subscriberId: data.subscriberId,
+    subscriberName: data.firstName && data.lastName ? `${data.firstName} ${data.lastName}` : '',
+  };
+}
+
+async function primaryInsurance(patientId: string): Promise<Insurance | undefined> {
+  return (await storage.getPatientInsurances(patientId)).find(i => i.type === 'Primary');
+}
+
+function currentValue(spec: ReviewFieldSpec, patient: Patient, insurance: Insurance | undefined): string | null {
+  if (spec.record === 'patient') {
+    return patient[spec.field as 'givenName' | 'familyName'];
+  }
+  const value = insurance?.[spec.field as keyof Insurance] as string | null | undefined;
+  if (!value) return null;
+  return spec.encrypted ? decrypt(value) : value;
+}
+
+/**
+ * Stores a scan as a pending extraction; the patient and insurance are left untouched
+ */
+export async function createOcrExtraction(patient: Patient, userId: string, result: OCRResult): Promise<OcrExtraction> {
+  const values = writeValues(valuesFromScan(result));
+  return storage.createOcrExtraction({
+    patientId: patient.id,
+    practiceId: patient.practiceId,
+    createdBy: userId,
+    status: 'pending',
+    extractedData: values,
+    proposedData: values,
+    confidence: result.confidence.fields,
+    template: result.template,
+  });
+}
+
+/**
+ * Field-by-field comparison of an extraction with the patient's current data
+ */
+export async function reviewOf(extraction: OcrExtraction): Promise<OcrReview> {
+  const patient = await storage.getPatientById(extraction.patientId);
+  if (!patient) {
+    throw new OcrReviewError('Patient not found', 404);
+  }
+  const insurance = await primaryInsurance(patient.id);
+  const extracted = readValues(extraction.extractedData);
+  const proposed = readValues(extraction.proposedData);
+  const confidence = extraction.confidence || {};
+
+  const fields = OCR_REVIEW_FIELDS.map(spec => {
+    const current = currentValue(spec, patient, insurance);
+    const value = proposed[spec.field].trim();
+    return {
+      field: spec.field,
+      label: spec.label,
+      record: spec.record,
+      current: current && spec.encrypted ? maskSensitiveData(current) : current,
+      extracted: extracted[spec.field],
+      proposed: proposed[spec.field],
+      confidence: Math.min(...spec.confidence.map(key => confidence[key] ?? 0)),
+      changed: !!value && value !== (current || '').trim(),
+      edited: proposed[spec.field] !== extracted[spec.field],
+    };
+  });
+
+  return {
+    id: extraction.id,
+    patientId: extraction.patientId,
+    status: extraction.status as OcrExtractionStatus,
+    template: extraction.template,
+    createdAt: extraction.createdAt,
+    reviewedAt: extraction.reviewedAt,
+    appliedFields: extraction.appliedFields,
+    fields,
+  };
+}
+
+function assertPending(extraction: OcrExtraction): void {
+  if (extraction.status !== 'pending') {
+    throw new OcrReviewError(`This extraction has already been ${extraction.status}`, 409);
+  }
+}
+
+function parseFieldList(fields: unknown): OcrReviewField[] {
+  if (!Array.isArray(fields) || fields.some(field => !REVIEW_FIELD_NAMES.includes(field))) {
+    throw new OcrReviewError(`fields must be a list of: ${REVIEW_FIELD_NAMES.join(', ')}`);
+  }
+  return fields;
+}
+
+/**
+ * Replaces proposed values with the reviewer's corrections
+ * @param values - Field name to corrected value; fields not given keep their value
+ * @throws OcrReviewError
+ */
+export async function editOcrExtraction(extraction: OcrExtraction, values: unknown): Promise<OcrExtraction> {
+  assertPending(extraction);
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    throw new OcrReviewError('values must be an object');
+  }
+  const edits = Object.entries(values);
+  for (const [field, value] of edits) {
+    if (!REVIEW_FIELD_NAMES.includes(field as OcrReviewField) || typeof value !== 'string') {
+      throw new OcrReviewError(`Invalid value for ${field}`);
+    }
+  }
+
+  const proposed = { ...readValues(extraction.proposedData), ...Object.fromEntries(edits) } as OcrValues;
+  const updated = await storage.updateOcrExtraction(extraction.id, { proposedData: writeValues(proposed) });
+  if (!updated) {
+    throw new OcrReviewError('Extraction not found', 404);
+  }
+  return updated;
+}
+
+async function applyValues(patient: Patient, values: Partial<OcrValues>): Promise<void> {
+  if (values.givenName || values.familyName) {
+    await storage.updatePatient(patient.id, {
+      ...(values.givenName ? { givenName: values.givenName } : {}),
+      ...(values.familyName ? { familyName: values.familyName } : {}),
+    });
+  }
+
+  const insuranceUpdates: Partial<Insurance> = {};
+  for (const spec of OCR_REVIEW_FIELDS) {
+    const value = values[spec.field];
+    if (spec.record !== 'insurance' || !value) continue;
+    (insuranceUpdates as Record<string, string>)[spec.field] = spec.encrypted ? encrypt(value) : value;
+  }
+  if (Object.keys(insuranceUpdates).length === 0) return;
+
+  const insurance = await primaryInsurance(patient.id);
+  if (insurance) {
+    await storage.updateInsurance(insurance.id, insuranceUpdates);
+    return;
+  }
+
+  await storage.createInsurance({
+    patientId: patient.id,
+    type: 'Primary',
+    provider: values.provider!,
+    policyNumber: insuranceUpdates.policyNumber ?? null,
+    groupNumber: insuranceUpdates.groupNumber ?? null,
+    subscriberId: insuranceUpdates.subscriberId ?? null,
+    subscriberName: insuranceUpdates.subscriberName ?? null,
+    relationship: 'Self',
+    effectiveDate: null,
+    expirationDate: null,
+    deductible: null,
+    deductibleMet: null,
+    maxBenefit: null,
+    preventiveCoverage: null,
+    basicCoverage: null,
+    majorCoverage: null
+  });
+}
+
+/**
+ * Writes the approved fields to the patient and their primary insurance, creating the insurance
+ * if there is none. Only one reviewer can confirm or reject an extraction.
+ * @param fields - Fields to apply; defaults to every field whose proposed value differs from the current one
+ * @returns The confirmed extraction and the fields written
+ * @throws OcrReviewError
+ */
+export async function confirmOcrExtraction(
+  extraction: OcrExtraction,
+  userId: string,
+  fields?: unknown
+): Promise<{ extraction: OcrExtraction; applied: OcrReviewField[] }> {
+  assertPending(extraction);
+  const review = await reviewOf(extraction);
+  const selected = fields === undefined
+    ? review.fields.filter(diff => diff.changed).map(diff => diff.field)
+    : parseFieldList(fields);
+
+  const proposed = readValues(extraction.proposedData);
+  const applied = selected.filter(field => proposed[field].trim());
+  const values = Object.fromEntries(applied.map(field => [field, proposed[field].trim()])) as Partial<OcrValues>;
+
+  const patient = (await storage.getPatientById(extraction.patientId))!;
+  const writesInsurance = OCR_REVIEW_FIELDS.some(spec => spec.record === 'insurance' && values[spec.field]);
+  if (writesInsurance && !values.provider && !(await primaryInsurance(patient.id))) {
+    throw new OcrReviewError('Insurance Provider is required to create the primary insurance');
+  }
+
+  const confirmed = await storage.finishOcrExtraction(extraction.id, {
+    status: 'confirmed',
+    appliedFields: applied,
+    reviewedBy: userId,
+    reviewedAt: new Date(),
+  });
+  if (!confirmed) {
+    throw new OcrReviewError('This extraction has already been reviewed', 409);
+  }
+
+  try {
+    await applyValues(patient, values);
+  } catch (error) {
+    // Hand the extraction back for review rather than record changes that were not made
+    await storage.updateOcrExtraction(extraction.id, { status: 'pending', appliedFields: null, reviewedBy: null, reviewedAt: null });
+    throw error;
+  }
+  return { extraction: confirmed, applied };
+}
+
+/**
+ * Discards an extraction without changing the patient
+ * @throws OcrReviewError
+ */
+export async function rejectOcrExtraction(extraction: OcrExtraction, userId: string): Promise<OcrExtraction> {
+  assertPending(extraction);
+  const rejected = await storage.finishOcrExtraction(extraction.id, {
+    status: 'rejected',
+    reviewedBy: userId,
+    reviewedAt: new Date(),
+  });
+  if (!rejected) {
+    throw new OcrReviewError('This extraction has already been reviewed', 409);
+  }
+  return rejected;
+}
@@ -1,4 +1,16 @@
 import Tesseract from 'tesseract.js';
+import sharp from 'sharp';
+import {
+  cardTemplateFor,
+  GENERIC_CARD_TEMPLATE,
+  type CardField,
+  type CardRegion,
+  type CardSide,
+  type CardTemplate,
+  type FieldLayout
+} from './card-templates';
+
+export type { CardSide } from './card-templates';
 
 export interface ExtractedInsuranceData {
   firstName: string;
@@ -10,185 +22,398 @@ export interface ExtractedInsuranceData {
   subscriberId: string;
 }
 
+/**
+ * Where a value was read, as fractions of the processed side image returned in `images`
+ */
+export interface FieldBox {
+  side: CardSide;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type OCRField = CardField | 'provider';
+
 export interface OCRResult {
   extractedData: ExtractedInsuranceData;
   confidence: {
     overall: number;
     fields: { [key: string]: number };
   };
+  boxes: Partial<Record<OCRField, FieldBox>>;
+  images: Partial<Record<CardSide, string>>; // processed (cropped, deskewed) images as data URLs
+  template: string; // id of the payer layout used
+}
+
+export interface InsuranceCardImages {
+  front: Buffer;
+  back?: Buffer;
+}
+
+// Cards are upscaled or downscaled to this width before OCR; Tesseract reads best around 300 DPI
+const OCR_WIDTH = 2000;
+
+// Below this mean word confidence, a side is read again from a black-and-white version
+const LOW_CONFIDENCE = 60;
+
+// Width of the processed images sent back for highlighting
+const PREVIEW_WIDTH = 1000;
+
+interface OcrWord {
+  text: string;
+  confidence: number;
+  bbox: Tesseract.Bbox;
+  start: number; // offset of the word in its line's text
 }
 
-interface ExtractionPatterns {
-  name: RegExp;
-  policyNumber: RegExp;
-  groupNumber: RegExp;
-  subscriberId: RegExp;
-  provider: RegExp;
+interface OcrLine {
+  text: string;
+  words: OcrWord[];
 }
 
-const extractionPatterns: ExtractionPatterns = {
-  // Name patterns - look for "Member Name", "Patient Name", "Subscriber Name", etc.
-  // More flexible: allows for various formats and capitalization
-  name: /(?:Member|Patient|Subscriber|Enrollee|Employee|Cardholder)(?:\s*Name)?[:\s]+([A-Z][A-Za-z]+(?:[-'][A-Za-z]+)?)\s+([A-Z]\.?\s?)?([A-Z][A-Za-z]+(?:[-'][A-Za-z]+)?)/i,
+interface SideScan {
+  side: CardSide;
+  lines: OcrLine[];
+  text: string;
+  confidence: number;
+  width: number;
+  height: number;
+  image: Buffer;
+}
 
-  // Policy number - more flexible matching
-  policyNumber: /(?:Policy|Member|ID|Certificate|Card)(?:\s*(?:Number|ID|#))?[:\s#]*([A-Z0-9]{6,20})/i,
+interface FieldMatch {
+  values: { [group: string]: string };
+  confidence: number;
+  box: FieldBox;
+  score: number;
+}
 
-  // Group number - more flexible
-  groupNumber: /Group(?:\s*(?:Number|ID|#))?[:\s#]*([A-Z0-9]{3,20})/i,
+// Separators between a label and its value
+const LEADER = /^[\s:#.-]*/;
 
-  // Subscriber ID / Dental ID - more flexible
-  subscriberId: /(?:Subscriber|Dental|Member)(?:\s*(?:ID|Number|#))?[:\s#]*([A-Z0-9]{6,20})/i,
+interface ValuePattern {
+  pattern: RegExp;
+  groups: string[]; // names for the capture groups, in order
+}
 
-  // Provider name - expanded list and more flexible matching
-  provider: /(?:cigna|blue\s*cross|bcbs|aetna|united\s*health(?:care)?|delta\s*dental|humana|metlife|guardian|anthem|kaiser|wellpoint)/i,
+// Shapes of the values that follow each label
+const valuePatterns: Record<CardField, ValuePattern[]> = {
+  name: [
+    // "LAST, FIRST M"
+    { pattern: /^[\s:.-]*([A-Z][A-Za-z'-]+),\s*([A-Z][A-Za-z'-]+)(?:\s+([A-Z])\b\.?)?/i, groups: ['last', 'first', 'middle'] },
+    // "FIRST M LAST"
+    { pattern: /^[\s:.-]*([A-Z][A-Za-z'-]+)(?:\s+([A-Z])\b\.?)?\s+([A-Z][A-Za-z'-]+)/i, groups: ['first', 'middle', 'last'] }
+  ],
+  policyNumber: [{ pattern: /^[\s:#.-]*([A-Z0-9][A-Z0-9-]{5,19})\b/i, groups: ['value'] }],
+  groupNumber: [{ pattern: /^[\s:#.-]*([A-Z0-9][A-Z0-9-]{2,19})\b/i, groups: ['value'] }],
+  subscriberId: [{ pattern: /^[\s:#.-]*([A-Z0-9][A-Z0-9-]{5,19})\b/i, groups: ['value'] }]
 };
 
-function validateField(value: string | undefined, minLength: number = 2, maxLength: number = 50): boolean {
-  if (!value) return false;
-  const trimmed = value.trim();
-  return trimmed.length >= minLength && trimmed.length <= maxLength;
+// Carriers recognised when the payer directory has no match
+const carrierPattern = /\b(?:cigna|blue\s*cross|bcbs|aetna|united\s*health(?:care)?|delta\s*dental|humana|metlife|guardian|anthem|kaiser|wellpoint)\b/i;
+
+const carrierNames: { [key: string]: string } = {
+  'cigna': 'Cigna',
+  'blue cross': 'Blue Cross Blue Shield',
+  'bcbs': 'Blue Cross Blue Shield',
+  'aetna': 'Aetna',
+  'united health': 'UnitedHealthcare',
+  'unitedhealth': 'UnitedHealthcare',
+  'delta dental': 'Delta Dental',
+  'humana': 'Humana',
+  'metlife': 'MetLife',
+  'guardian': 'Guardian',
+  'anthem': 'Anthem',
+  'kaiser': 'Kaiser Permanente',
+  'wellpoint': 'WellPoint'
+};
+
+/**
+ * Straightens a phone photo for OCR: applies EXIF orientation, crops the plain background
+ * around the card, and produces a large, high-contrast grayscale image
+ */
+async function preprocess(image: Buffer): Promise<Buffer> {
+  const oriented = await sharp(image).rotate().flatten({ background: '#ffffff' }).png().toBuffer();
+
+  let cropped = oriented;
+  try {
+    cropped = await sharp(oriented).trim({ threshold: 30 }).png().toBuffer();
+  } catch {
+    // Nothing to trim
+  }
+
+  return sharp(cropped)
+    .grayscale()
+    .resize({ width: OCR_WIDTH })
+    .normalise()
+    .sharpen()
+    .png()
+    .toBuffer();
+}
+
+async function binarize(image: Buffer): Promise<Buffer> {
+  return sharp(image).threshold(128).png().toBuffer();
+}
+
+function linesOf(page: Tesseract.Page): OcrLine[] {
+  const lines: OcrLine[] = [];
+  for (const block of page.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const words: OcrWord[] = [];
+        let text = '';
+        for (const word of line.words) {
+          if (!word.text.trim()) continue;
+          if (text) text += ' ';
+          words.push({ text: word.text, confidence: word.confidence, bbox: word.bbox, start: text.length });
+          text += word.text;
+        }
+        if (words.length) lines.push({ text, words });
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Reads one side of the card. Tesseract measures and corrects the skew (`rotateAuto`); the
+ * deskewed image it returns is what the word boxes refer to.
+ */
+async function recognize(worker: Tesseract.Worker, side: CardSide, image: Buffer): Promise<SideScan> {
+  const { data } = await worker.recognize(image, { rotateAuto: true }, { text: true, blocks: true, imageGrey: true });
+
+  const deskewed = data.imageGrey
+    ? Buffer.from(data.imageGrey.slice(data.imageGrey.indexOf(',') + 1), 'base64')
+    : image;
+  const { width = 1, height = 1 } = await sharp(deskewed).metadata();
+
+  const lines = linesOf(data);
+  const words = lines.flatMap(line => line.words);
+  const confidence = words.length ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length : 0;
+
+  return { side, lines, text: data.text, confidence, width, height, image: deskewed };
+}
+
+/**
+ * Reads a side from the cleaned-up grayscale image, retrying on a thresholded copy when the
+ * words come back with low confidence (glare, patterned card backgrounds)
+ */
+async function scanSide(worker: Tesseract.Worker, side: CardSide, image: Buffer): Promise<SideScan> {
+  const prepared = await preprocess(image);
+  const scan = await recognize(worker, side, prepared);
+  if (scan.confidence >= LOW_CONFIDENCE) return scan;
+
+  const retry = await recognize(worker, side, await binarize(prepared));
+  return retry.confidence > scan.confidence ? retry : scan;
 }
 
-function calculateConfidence(extractedFields: Partial<ExtractedInsuranceData>): { overall: number; fields: { [key: string]: number } } {
-  const fieldConfidences: { [key: string]: number } = {
-    firstName: extractedFields.firstName ? 100 : 0,
-    lastName: extractedFields.lastName ? 100 : 0,
-    provider: extractedFields.provider ? 100 : 0,
-    policyNumber: extractedFields.policyNumber ? 100 : 0,
-    groupNumber: extractedFields.groupNumber ? 80 : 0, // Optional field
-    subscriberId: extractedFields.subscriberId ? 100 : 0,
+function boxOf(scan: SideScan, words: OcrWord[]): FieldBox {
+  const x0 = Math.min(...words.map(word => word.bbox.x0));
+  const y0 = Math.min(...words.map(word => word.bbox.y0));
+  const x1 = Math.max(...words.map(word => word.bbox.x1));
+  const y1 = Math.max(...words.map(word => word.bbox.y1));
+  return {
+    side: scan.side,
+    x: x0 / scan.width,
+    y: y0 / scan.height,
+    width: (x1 - x0) / scan.width,
+    height: (y1 - y0) / scan.height
   };
+}
 
-  const values = Object.values(fieldConfidences);
-  const overall = values.reduce((sum, val) => sum + val, 0) / values.length;
+function inRegion(box: FieldBox, region: CardRegion): boolean {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  return cx >= region.x0 && cx <= region.x1 && cy >= region.y0 && cy <= region.y1;
+}
 
+/**
+ * Confidence and position of the characters `start`..`end` of a line. A value is only as
+ * trustworthy as its least certain word.
+ */
+function measure(scan: SideScan, line: OcrLine, start: number, end: number): { confidence: number; box: FieldBox } | undefined {
+  const words = line.words.filter(word => word.start < end && word.start + word.text.length > start);
+  if (!words.length) return undefined;
   return {
-    overall: Math.round(overall),
-    fields: fieldConfidences
+    confidence: Math.round(Math.min(...words.map(word => word.confidence))),
+    box: boxOf(scan, words)
   };
 }
 
-export async function processInsuranceCard(imageBuffer: Buffer): Promise<OCRResult> {
-  try {
-    // Create Tesseract worker
-    const worker = await Tesseract.createWorker('eng', 1);
+// IDs always carry digits; this keeps words like "NUMBER" or "DENTAL" out
+function acceptValue(field: CardField, values: { [group: string]: string }): boolean {
+  return field === 'name' || /\d/.test(values.value);
+}
 
-    // Configure Tesseract for optimal insurance card reading
-    await worker.setParameters({
-      tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 .-:#',
-    });
+/**
+ * Finds a field by its label on the same line or the line below, scoring each candidate on word
+ * confidence plus a bonus for sitting where the payer layout expects it
+ */
+function findField(scans: SideScan[], field: CardField, layout: FieldLayout, bonus: number): FieldMatch | undefined {
+  let best: FieldMatch | undefined;
 
-    // Perform OCR
-    const { data: { text } } = await worker.recognize(imageBuffer);
+  for (const scan of scans) {
+    if (layout.side && layout.side !== scan.side) continue;
 
-    // Terminate worker
-    await worker.terminate();
+    scan.lines.forEach((line, index) => {
+      const label = line.text.match(layout.labels);
+      if (!label || label.index === undefined) return;
 
-    // Extract structured data using regex patterns
-    const extractedData: Partial<ExtractedInsuranceData> = {};
+      const labelEnd = label.index + label[0].length;
+      const places = [
+        { line, offset: labelEnd, rest: line.text.slice(labelEnd) },
+        ...(scan.lines[index + 1] ? [{ line: scan.lines[index + 1], offset: 0, rest: scan.lines[index + 1].text }] : [])
+      ];
 
-    // Extract name
-    const nameMatch = text.match(extractionPatterns.name);
-    if (nameMatch) {
-      extractedData.firstName = nameMatch[1]?.trim();
-      extractedData.middleName = nameMatch[2]?.trim().replace('.', '') || '';
-      extractedData.lastName = nameMatch[3]?.trim();
-    }
+      for (const place of places) {
+        for (const { pattern, groups } of valuePatterns[field]) {
+          const match = place.rest.match(pattern);
+          if (!match) continue;
 
-    // Extract policy number
-    const policyMatch = text.match(extractionPatterns.policyNumber);
-    if (policyMatch && validateField(policyMatch[1], 6, 20)) {
-      extractedData.policyNumber = policyMatch[1].trim();
-    }
+          const values = Object.fromEntries(groups.map((group, i) => [group, match[i + 1] || '']));
+          if (!acceptValue(field, values)) continue;
+
+          const leader = match[0].match(LEADER)![0].length;
+          const measured = measure(scan, place.line, place.offset + leader, place.offset + match[0].length);
+          if (!measured) continue;
+
+          const score = measured.confidence + bonus + (layout.region && inRegion(measured.box, layout.region) ? 25 : 0);
+          if (!best || score > best.score) {
+            best = { values, confidence: measured.confidence, box: measured.box, score };
+          }
+          return;
+        }
+      }
+    });
+  }
+
+  return best;
+}
+
+function extractField(scans: SideScan[], template: CardTemplate, field: CardField): FieldMatch | undefined {
+  const layouts: Array<[FieldLayout | undefined, number]> = [
+    [template.fields[field], 10],
+    [template === GENERIC_CARD_TEMPLATE ? undefined : GENERIC_CARD_TEMPLATE.fields[field], 0]
+  ];
+  for (const [layout, bonus] of layouts) {
+    const match = layout && findField(scans, field, layout, bonus);
+    if (match) return match;
+  }
+  return undefined;
+}
 
-    // Extract group number
-    const groupMatch = text.match(extractionPatterns.groupNumber);
-    if (groupMatch && validateField(groupMatch[1], 3, 20)) {
-      extractedData.groupNumber = groupMatch[1].trim();
+/**
+ * Locates the carrier name on the card for highlighting
+ */
+function locateProvider(scans: SideScan[], provider: string): { confidence: number; box: FieldBox } | undefined {
+  const keyword = provider.toLowerCase().split(/\s+/).find(word => word.length >= 3);
+  for (const scan of scans) {
+    for (const line of scan.lines) {
+      const lower = line.text.toLowerCase();
+      const carrier = line.text.match(carrierPattern);
+      const index = carrier?.index ?? (keyword ? lower.indexOf(keyword) : -1);
+      if (index < 0) continue;
+      const length = carrier ? carrier[0].length : keyword!.length;
+      const measured = measure(scan, line, index, index + length);
+      if (measured) return measured;
     }
+  }
+  return undefined;
+}
+
+function carrierFromText(text: string): string | undefined {
+  const match = text.match(carrierPattern);
+  if (!match) return undefined;
+  const found = match[0].toLowerCase().replace(/\s+/g, ' ');
+  return Object.entries(carrierNames).find(([key]) => found.includes(key))?.[1] || match[0];
+}
 
-    // Extract subscriber ID (fallback to policy number if not found)
-    const subscriberMatch = text.match(extractionPatterns.subscriberId);
-    if (subscriberMatch && validateField(subscriberMatch[1], 6, 20)) {
-      extractedData.subscriberId = subscriberMatch[1].trim();
-    } else if (extractedData.policyNumber) {
-      // Fallback: use policy number as subscriber ID
-      extractedData.subscriberId = extractedData.policyNumber;
+async function previewOf(scan: SideScan): Promise<string> {
+  const jpeg = await sharp(scan.image).resize({ width: PREVIEW_WIDTH }).jpeg({ quality: 70 }).toBuffer();
+  return `data:image/jpeg;base64,${jpeg.toString('base64')}`;
+}
+
+/**
+ * Runs OCR over the front and, when given, the back of an insurance card and extracts member
+ * and plan fields, each with the confidence of the words it was read from and where it sits on
+ * the card
+ * @param images - Card photos; the back often carries group and payer details
+ * @param resolveProvider - Optional lookup (e.g. the payer directory) that names the carrier found in the OCR text
+ */
+export async function processInsuranceCard(
+  images: InsuranceCardImages,
+  resolveProvider?: (text: string) => Promise<string | undefined>
+): Promise<OCRResult> {
+  const worker = await Tesseract.createWorker('eng', 1);
+
+  try {
+    const scans: SideScan[] = [await scanSide(worker, 'front', images.front)];
+    if (images.back) {
+      scans.push(await scanSide(worker, 'back', images.back));
     }
 
-    // Extract provider - more flexible extraction
-    const providerMatch = text.match(extractionPatterns.provider);
-    if (providerMatch) {
-      // Normalize provider name
-      const providerName = providerMatch[0].trim();
-      const providerMap: { [key: string]: string } = {
-        'cigna': 'Cigna',
-        'blue cross': 'Blue Cross',
-        'bcbs': 'Blue Cross Blue Shield',
-        'aetna': 'Aetna',
-        'united health': 'UnitedHealthcare',
-        'united healthcare': 'UnitedHealthcare',
-        'delta dental': 'Delta Dental',
-        'humana': 'Humana',
-        'metlife': 'MetLife',
-        'guardian': 'Guardian',
-        'anthem': 'Anthem',
-        'kaiser': 'Kaiser Permanente',
-        'wellpoint': 'WellPoint'
-      };
-
-      const normalizedProvider = Object.entries(providerMap).find(([key]) =>
-        providerName.toLowerCase().includes(key)
-      )?.[1] || providerName;
-
-      extractedData.provider = normalizedProvider;
+    const text = scans.map(scan => scan.text).join('\n');
+    const pageConfidence = Math.round(scans[0].confidence);
+    const boxes: OCRResult['boxes'] = {};
+    const fieldConfidence: { [key: string]: number } = {};
+
+    // Carrier first - payer directory, then the built-in carrier list - since it picks the layout
+    const provider = (resolveProvider ? await resolveProvider(text) : undefined) || carrierFromText(text);
+    const template = cardTemplateFor(provider);
+    if (provider) {
+      const located = locateProvider(scans, provider);
+      fieldConfidence.provider = located ? located.confidence : pageConfidence;
+      if (located) boxes.provider = located.box;
     } else {
-      // Fallback: search anywhere in text for common providers
-      const textLower = text.toLowerCase();
-      if (textLower.includes('cigna')) extractedData.provider = 'Cigna';
-      else if (textLower.includes('blue cross') || textLower.includes('bcbs')) extractedData.provider = 'Blue Cross Blue Shield';
-      else if (textLower.includes('aetna')) extractedData.provider = 'Aetna';
-      else if (textLower.includes('united')) extractedData.provider = 'UnitedHealthcare';
-      else if (textLower.includes('delta')) extractedData.provider = 'Delta Dental';
-      else if (textLower.includes('humana')) extractedData.provider = 'Humana';
-      else if (textLower.includes('metlife')) extractedData.provider = 'MetLife';
-      else if (textLower.includes('guardian')) extractedData.provider = 'Guardian';
-      else if (textLower.includes('anthem')) extractedData.provider = 'Anthem';
+      fieldConfidence.provider = 0;
     }
 
-    // Calculate confidence scores
-    const confidence = calculateConfidence(extractedData);
+    const name = extractField(scans, template, 'name');
+    fieldConfidence.firstName = name ? name.confidence : 0;
+    fieldConfidence.lastName = name ? name.confidence : 0;
+    if (name) boxes.name = name.box;
 
-    // Use placeholders for missing required fields instead of throwing errors
-    if (!extractedData.firstName || !extractedData.lastName) {
-      extractedData.firstName = extractedData.firstName || 'Unknown';
-      extractedData.lastName = extractedData.lastName || 'Patient';
-    }
-    if (!extractedData.provider) {
-      extractedData.provider = 'Unknown Provider';
+    const policy = extractField(scans, template, 'policyNumber');
+    const group = extractField(scans, template, 'groupNumber');
+    const subscriber = extractField(scans, template, 'subscriberId') || policy;
+
+    for (const [field, match] of [['policyNumber', policy], ['groupNumber', group], ['subscriberId', subscriber]] as const) {
+      fieldConfidence[field] = match ? match.confidence : 0;
+      if (match) boxes[field] = match.box;
     }
-    if (!extractedData.policyNumber) {
-      extractedData.policyNumber = 'UNKNOWN';
+
+    const values = Object.values(fieldConfidence);
+    const confidence = {
+      overall: Math.round(values.reduce((sum, val) => sum + val, 0) / values.length),
+      fields: fieldConfidence
+    };
+
+    const preview: OCRResult['images'] = {};
+    for (const scan of scans) {
+      preview[scan.side] = await previewOf(scan);
     }
 
-    // Return result with defaults for optional fields
-    const result: OCRResult = {
+    // Fields that could not be read are left empty (confidence 0) for the reviewer to fill in
+    return {
       extractedData: {
-        firstName: extractedData.firstName,
-        middleName: extractedData.middleName || '',
-        lastName: extractedData.lastName,
-        provider: extractedData.provider,
-        policyNumber: extractedData.policyNumber,
-        groupNumber: extractedData.groupNumber || '',
-        subscriberId: extractedData.subscriberId || extractedData.policyNumber,
+        firstName: name?.values.first || '',
+        middleName: name?.values.middle || '',
+        lastName: name?.values.last || '',
+        provider: provider || '',
+        policyNumber: policy?.values.value || '',
+        groupNumber: group?.values.value || '',
+        subscriberId: subscriber?.values.value || '',
       },
-      confidence
+      confidence,
+      boxes,
+      images: preview,
+      template: template.id
     };
 
-    return result;
-
   } catch (error) {
     throw new Error(`Failed to process insurance card: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    await worker.terminate();
   }
 }
@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import type { User } from '@shared/schema';
+import { passwordPolicyError } from '@shared/password-policy';
+import { storage } from './storage';
+
+// A new password may not match the current one or any of this many before it
+export const PASSWORD_HISTORY_SIZE = 5;
+
+const BCRYPT_ROUNDS = 10;
+
+export class PasswordPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+/**
+ * Hashes a password for a new account after checking it against the strength policy
+ * @throws PasswordPolicyError
+ */
+export async function hashNewPassword(password: string, user: { email: string; username: string }): Promise<string> {
+  const error = passwordPolicyError(password, user);
+  if (error) {
+    throw new PasswordPolicyError(error);
+  }
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Checks a replacement password against the strength policy and the user's recent passwords
+ * @returns The new password's hash, for `applyPasswordChange`
+ * @throws PasswordPolicyError
+ */
+export async function preparePasswordChange(user: User, password: string): Promise<string> {
+  const hashed = await hashNewPassword(password, user);
+
+  const history = await storage.getPasswordHistory(user.id, PASSWORD_HISTORY_SIZE);
+  for (const previous of [user.password, ...history.map(entry => entry.passwordHash)]) {
+    if (await bcrypt.compare(password, previous)) {
+      throw new PasswordPolicyError(`Password must differ from your last ${PASSWORD_HISTORY_SIZE + 1} passwords`);
+    }
+  }
+  return hashed;
+}
+
+/**
+ * Stores a hash from `preparePasswordChange`, keeping the old hash in the password history
+ */
+export async function applyPasswordChange(user: User, hashed: string): Promise<void> {
+  await storage.updateUserPassword(user.id, hashed);
+  await storage.addPasswordHistory(user.id, user.password, PASSWORD_HISTORY_SIZE);
+}
+
+/**
+ * Replaces a user's password, enforcing the strength policy and refusing recently used
+ * passwords
+ * @throws PasswordPolicyError
+ */
+export async function changePassword(user: User, password: string): Promise<void> {
+  await applyPasswordChange(user, await preparePasswordChange(user, password));
+}
+
+/**
+ * Hash of a random password nobody knows, for accounts that have not set one yet
+ */
+export async function unusablePasswordHash(): Promise<string> {
+  return bcrypt.hash(crypto.randomBytes(32).toString('hex'), BCRYPT_ROUNDS);
+}
@@ -0,0 +1,150 @@
+import type { Payer, InsertPayer } from '@shared/schema';
+import { storage } from './storage';
+
+export type PayerTransactionType = 'API' | 'CALL' | 'FAX';
+
+export const PAYER_TRANSACTION_TYPES: PayerTransactionType[] = ['API', 'CALL', 'FAX'];
+
+// Starter directory, written on first startup only. Admins maintain it through /api/payers afterwards.
+// Phone and fax numbers are placeholders - replace them with the practice's provider-services lines.
+const DEFAULT_PAYERS: InsertPayer[] = [
+  {
+    name: 'Cigna Dental',
+    payerId: '62308',
+    aliases: ['Cigna', 'Cigna Dental PPO', 'CIGNA'],
+    phoneNumber: '1-800-555-0101',
+    faxNumber: '1-800-555-0102',
+    supportedTransactions: ['API', 'CALL', 'FAX'],
+  },
+  {
+    name: 'Delta Dental',
+    payerId: '77777',
+    aliases: ['Delta', 'Delta Dental PPO', 'Delta Dental Premier', 'DeltaCare'],
+    phoneNumber: '1-800-555-0103',
+    faxNumber: '1-800-555-0104',
+    supportedTransactions: ['API', 'CALL', 'FAX'],
+  },
+  {
+    name: 'MetLife Dental',
+    payerId: '65978',
+    aliases: ['MetLife', 'Metropolitan Life'],
+    phoneNumber: '1-800-555-0105',
+    faxNumber: '1-800-555-0106',
+    supportedTransactions: ['API', 'CALL', 'FAX'],
+  },
+  {
+    name: 'Aetna Dental',
+    payerId: '60054',
+    aliases: ['Aetna', 'Aetna DMO', 'Aetna Dental PPO'],
+    phoneNumber: '1-800-555-0107',
+    faxNumber: '1-800-555-0108',
+    supportedTransactions: ['API', 'CALL'],
+  },
+  {
+    name: 'Guardian Dental',
+    payerId: '64246',
+    aliases: ['Guardian', 'Guardian Life'],
+    phoneNumber: '1-800-555-0109',
+    faxNumber: '1-800-555-0110',
+    supportedTransactions: ['API', 'CALL', 'FAX'],
+  },
+  {
+    name: 'UnitedHealthcare Dental',
+    payerId: '52133',
+    aliases: ['UnitedHealthcare', 'United Healthcare', 'United Health', 'UHC'],
+    phoneNumber: '1-800-555-0111',
+    faxNumber: '1-800-555-0112',
+    supportedTransactions: ['API', 'CALL'],
+  },
+  {
+    name: 'Humana Dental',
+    payerId: '73288',
+    aliases: ['Humana'],
+    phoneNumber: '1-800-555-0113',
+    faxNumber: '1-800-555-0114',
+    supportedTransactions: ['API', 'CALL', 'FAX'],
+  },
+  {
+    name: 'Blue Cross Blue Shield',
+    payerId: null,
+    aliases: ['BCBS', 'Blue Cross', 'Blue Shield', 'Anthem', 'Anthem Blue Cross', 'WellPoint'],
+    phoneNumber: '1-800-555-0115',
+    faxNumber: null,
+    supportedTransactions: ['CALL'],
+  },
+  {
+    name: 'Kaiser Permanente',
+    payerId: null,
+    aliases: ['Kaiser'],
+    phoneNumber: '1-800-555-0116',
+    faxNumber: null,
+    supportedTransactions: ['CALL'],
+  },
+];
+
+/**
+ * Seeds the payer directory with common dental carriers when it is empty
+ */
+export async function seedPayerDirectory(): Promise<void> {
+  const existing = await storage.getAllPayers();
+  if (existing.length > 0) return;
+
+  for (const payer of DEFAULT_PAYERS) {
+    await storage.createPayer(payer);
+  }
+}
+
+/**
+ * Lowercases and strips punctuation so "Delta-Dental, Inc." matches "delta dental inc"
+ */
+export function normalizePayerName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function namesOf(payer: Payer): string[] {
+  return [payer.name, ...(payer.aliases || [])].map(normalizePayerName).filter(Boolean);
+}
+
+/**
+ * Resolves a free-text carrier name (e.g. `insurances.provider`) to a directory entry.
+ * Exact name/alias matches win; otherwise the longest name or alias contained in the input.
+ */
+export async function resolvePayer(providerName: string | null | undefined): Promise<Payer | undefined> {
+  if (!providerName) return undefined;
+  const needle = normalizePayerName(providerName);
+  if (!needle) return undefined;
+
+  const directory = (await storage.getAllPayers()).filter(p => p.active);
+
+  const exact = directory.find(payer => namesOf(payer).includes(needle));
+  if (exact) return exact;
+
+  return findPayerInText(providerName, directory);
+}
+
+/**
+ * Finds the carrier mentioned in arbitrary text, such as the OCR output of an insurance card
+ * @param text - Text to search
+ * @param directory - Directory entries to consider (defaults to all active payers)
+ */
+export async function findPayerInText(text: string, directory?: Payer[]): Promise<Payer | undefined> {
+  const haystack = ` ${normalizePayerName(text)} `;
+  const candidates = directory || (await storage.getAllPayers()).filter(p => p.active);
+
+  let best: { payer: Payer; length: number } | undefined;
+  for (const payer of candidates) {
+    for (const name of namesOf(payer)) {
+      if (haystack.includes(` ${name} `) && (!best || name.length > best.length)) {
+        best = { payer, length: name.length };
+      }
+    }
+  }
+  return best?.payer;
+}
+
+/**
+ * Whether the payer can be reached through the given channel
+ */
+export function payerSupports(payer: Payer, type: PayerTransactionType): boolean {
+  return (payer.supportedTransactions || []).includes(type);
+}
@@ -0,0 +1,210 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+
+// US Letter, in points
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+export const MARGIN = 54;
+
+const LINE_HEIGHT = 1.35;
+const RULE_COLOR = rgb(0.6, 0.6, 0.6);
+
+export interface TableColumn {
+  header: string;
+  width: number; // Share of the page width; the shares of a table add up to 1
+}
+
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+// The standard fonts only encode WinAnsi; anything else (and line breaks) would make pdf-lib throw
+function printable(text: string, font: PDFFont): string {
+  let characters = characterSets.get(font);
+  if (!characters) {
+    characters = new Set(font.getCharacterSet());
+    characterSets.set(font, characters);
+  }
+  return Array.from(text.replace(/\s+/g, ' '), c => characters!.has(c.codePointAt(0)!) ? c : '?').join('');
+}
+
+/**
+ * Splits text on spaces into lines no wider than `width`
+ */
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of printable(text, font).split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
+
+/**
+ * Writes lines top to bottom, starting a new page when one fills up
+ */
+export class PageWriter {
+  page: PDFPage;
+  y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private readonly pdf: PDFDocument, private readonly font: PDFFont, private readonly bold: PDFFont) {
+    this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  newPage() {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /**
+   * Starts a new page unless `height` points still fit on this one
+   */
+  keepTogether(height: number) {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  text(text: string, options: { size?: number; bold?: boolean; indent?: number; gap?: number } = {}) {
+    const size = options.size ?? 11;
+    const font = options.bold ? this.bold : this.font;
+    const width = PAGE_WIDTH - 2 * MARGIN - (options.indent ?? 0);
+
+    for (const part of wrap(text, font, size, width)) {
+      if (this.y - size < MARGIN) this.newPage();
+      this.y -= size * LINE_HEIGHT;
+      this.page.drawText(part, { x: MARGIN + (options.indent ?? 0), y: this.y, size, font });
+    }
+    this.y -= options.gap ?? 0;
+  }
+
+  rule() {
+    this.y -= 8;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 1,
+      color: RULE_COLOR,
+    });
+    this.y -= 8;
+  }
+
+  field(label: string, value: string | null | undefined) {
+    this.text(`${label}: ${value || '-'}`);
+  }
+
+  /**
+   * Writes a label whose value is only known later, e.g. the page count on a cover sheet
+   * @returns Fills in the value
+   */
+  deferredField(label: string): (value: string) => void {
+    this.text(`${label}: `);
+    const { page, y } = this;
+    const x = MARGIN + this.font.widthOfTextAtSize(`${label}: `, 11);
+    return value => page.drawText(value, { x, y, size: 11, font: this.font });
+  }
+
+  /**
+   * Writes label and value pairs in columns, filling each row left to right
+   */
+  fieldGrid(fields: [string, string | null | undefined][], columns: number = 2, size: number = 10) {
+    const columnWidth = (PAGE_WIDTH - 2 * MARGIN) / columns;
+    for (let i = 0; i < fields.length; i += columns) {
+      const cells = fields.slice(i, i + columns).map(([label, value]) =>
+        wrap(`${value || '-'}`, this.font, size, columnWidth - 8 - this.bold.widthOfTextAtSize(`${label}: `, size))
+      );
+      const height = Math.max(...cells.map(lines => lines.length)) * size * LINE_HEIGHT;
+      this.keepTogether(height);
+
+      fields.slice(i, i + columns).forEach(([label], column) => {
+        const x = MARGIN + column * columnWidth;
+        const labelWidth = this.bold.widthOfTextAtSize(`${label}: `, size);
+        this.page.drawText(`${label}:`, { x, y: this.y - size * LINE_HEIGHT, size, font: this.bold });
+        cells[column].forEach((line, n) => {
+          this.page.drawText(line, { x: x + labelWidth, y: this.y - (n + 1) * size * LINE_HEIGHT, size, font: this.font });
+        });
+      });
+      this.y -= height + 2;
+    }
+  }
+
+  /**
+   * Writes a table with a header row, repeated at the top of each page the table runs onto
+   */
+  table(columns: TableColumn[], rows: string[][], size: number = 10) {
+    const tableWidth = PAGE_WIDTH - 2 * MARGIN;
+    const padding = 4;
+
+    const drawRow = (cells: string[], font: PDFFont, shaded: boolean) => {
+      const lines = cells.map((cell, i) => wrap(cell || '-', font, size, columns[i].width * tableWidth - 2 * padding));
+      const height = Math.max(...lines.map(l => l.length)) * size * LINE_HEIGHT + 2 * padding;
+      if (this.y - height < MARGIN) {
+        this.newPage();
+        if (!shaded) drawRow(columns.map(c => c.header), this.bold, true);
+      }
+      if (shaded) {
+        this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: tableWidth, height, color: rgb(0.92, 0.92, 0.92) });
+      }
+      let x = MARGIN;
+      lines.forEach((cellLines, i) => {
+        cellLines.forEach((line, n) => {
+          this.page.drawText(line, { x: x + padding, y: this.y - padding - (n + 1) * size * LINE_HEIGHT + 2, size, font });
+        });
+        x += columns[i].width * tableWidth;
+      });
+      this.y -= height;
+      this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: MARGIN + tableWidth, y: this.y }, thickness: 0.5, color: RULE_COLOR });
+    };
+
+    drawRow(columns.map(c => c.header), this.bold, true);
+    rows.forEach(row => drawRow(row, this.font, false));
+    this.y -= 6;
+  }
+
+  /**
+   * Writes signature and date lines side by side
+   */
+  signatureLines(labels: string[]) {
+    const gap = 24;
+    const width = (PAGE_WIDTH - 2 * MARGIN - gap * (labels.length - 1)) / labels.length;
+    this.keepTogether(48);
+    this.y -= 32;
+    labels.forEach((label, i) => {
+      const x = MARGIN + i * (width + gap);
+      this.page.drawLine({ start: { x, y: this.y }, end: { x: x + width, y: this.y }, thickness: 1 });
+      this.page.drawText(label, { x, y: this.y - 12, size: 9, font: this.font });
+    });
+    this.y -= 16;
+  }
+
+  /**
+   * Writes `text` and the page number at the foot of every page. Call once all pages are written.
+   */
+  footer(text: string) {
+    const pages = this.pdf.getPages();
+    pages.forEach((page, i) => {
+      const pageNumber = `Page ${i + 1} of ${pages.length}`;
+      page.drawText(printable(text, this.font), { x: MARGIN, y: MARGIN / 2, size: 8, font: this.font });
+      page.drawText(pageNumber, {
+        x: PAGE_WIDTH - MARGIN - this.font.widthOfTextAtSize(pageNumber, 8),
+        y: MARGIN / 2,
+        size: 8,
+        font: this.font,
+      });
+    });
+  }
+}
+
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' });
+}
+
+export async function createWriter(title: string): Promise<{ pdf: PDFDocument; writer: PageWriter }> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+  pdf.setProducer('Smith AI Center');
+  const writer = new PageWriter(pdf, await pdf.embedFont(StandardFonts.Helvetica), await pdf.embedFont(StandardFonts.HelveticaBold));
+  return { pdf, writer };
+}
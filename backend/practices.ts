@@ -0,0 +1,54 @@
+import type { PracticeMembership, User } from '@shared/schema';
+import { storage } from './storage';
+
+export type PracticeRole = 'owner' | 'manager' | 'staff';
+
+export const PRACTICE_ROLES: PracticeRole[] = ['owner', 'manager', 'staff'];
+
+/**
+ * Owners and managers maintain their practice's membership list
+ */
+export function canManagePractice(role: string | undefined): boolean {
+  return role === 'owner' || role === 'manager';
+}
+
+/**
+ * Gives a user a practice of their own, with them as owner
+ */
+export async function createPersonalPractice(user: Pick<User, 'id' | 'username'>): Promise<PracticeMembership> {
+  const practice = await storage.createPractice({ name: `${user.username}'s Practice` });
+  return storage.createPracticeMembership({ practiceId: practice.id, userId: user.id, role: 'owner' });
+}
+
+/**
+ * Picks the practice a session works in: `preferredId` while the user is still a member of it
+ * and it is active, otherwise their oldest membership in an active practice.
+ */
+export async function resolveActivePractice(userId: string, preferredId?: string): Promise<PracticeMembership | undefined> {
+  if (preferredId) {
+    const membership = await storage.getPracticeMembership(preferredId, userId);
+    const practice = membership ? await storage.getPracticeById(preferredId) : undefined;
+    if (membership && practice?.active) return membership;
+  }
+
+  for (const membership of await storage.getMembershipsByUserId(userId)) {
+    const practice = await storage.getPracticeById(membership.practiceId);
+    if (practice?.active) return membership;
+  }
+  return undefined;
+}
+
+/**
+ * Startup migration from per-user to per-practice data. Every user without a membership gets a
+ * personal practice, and their patients and coverage rows that predate practices move into it,
+ * so nobody sees more data than before.
+ */
+export async function backfillPractices(): Promise<void> {
+  for (const user of await storage.getAllUsers()) {
+    let [membership] = await storage.getMembershipsByUserId(user.id);
+    if (!membership) {
+      membership = await createPersonalPractice(user);
+    }
+    await storage.assignUnscopedRecordsToPractice(user.id, membership.practiceId);
+  }
+}
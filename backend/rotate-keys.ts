@@ -0,0 +1,127 @@
+import { db } from "./db";
+import { patients, insurances, ocrExtractions, documentVersions, faxes, verificationFormVersions, mfaFactors } from "@shared/schema";
+import { and, asc, eq, gt, type SQL } from "drizzle-orm";
+import type { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import { decrypt, encrypt, encryptionKeyId, needsReencryption } from "./crypto";
+import { kms } from "./kms";
+
+// Re-encrypts every encrypted PHI field under the KMS's active key.
+//
+//   npm run keys:rotate                      re-encrypt values under the legacy format or a retired key
+//   npm run keys:rotate -- --new-key         create and activate a new key first, then re-encrypt
+//   npm run keys:rotate -- --delete-retired  afterwards, delete keys no value references any more
+//
+// Servers keep running throughout: they pick up the new active key from the keyring file, old
+// keys stay available for reading, and each row is only updated if it still holds the value that
+// was read, so concurrent edits are never overwritten.
+
+const BATCH_SIZE = 500;
+
+interface EncryptedTable {
+  name: string;
+  table: PgTable;
+  id: PgColumn; // Any unique text column; rows are paged and updated by it
+  fields: Record<string, PgColumn>;
+}
+
+const ENCRYPTED_TABLES: EncryptedTable[] = [
+  { name: "patients", table: patients, id: patients.id, fields: { birthDate: patients.birthDate, ssn: patients.ssn } },
+  { name: "insurances", table: insurances, id: insurances.id, fields: { policyNumber: insurances.policyNumber, groupNumber: insurances.groupNumber } },
+  { name: "ocr_extractions", table: ocrExtractions, id: ocrExtractions.id, fields: { extractedData: ocrExtractions.extractedData, proposedData: ocrExtractions.proposedData } },
+  // Re-wrapping a document's data key is enough; the file on disk keeps its ciphertext
+  { name: "document_versions", table: documentVersions, id: documentVersions.id, fields: { fileName: documentVersions.fileName, encryptionKey: documentVersions.encryptionKey } },
+  { name: "faxes", table: faxes, id: faxes.id, fields: { encryptionKey: faxes.encryptionKey } },
+  { name: "verification_form_versions", table: verificationFormVersions, id: verificationFormVersions.id, fields: { data: verificationFormVersions.data } },
+  // One factor per user, and the user is what sign-in looks the secret up by
+  { name: "mfa_factors", table: mfaFactors, id: mfaFactors.userId, fields: { secret: mfaFactors.secret } },
+];
+
+interface RotationResult {
+  rotated: number;
+  skipped: number; // Changed by someone else mid-rotation; picked up on the next run if needed
+  failed: number;
+  keyIdsInUse: Set<string>;
+}
+
+async function rotateTable({ name, table, id, fields }: EncryptedTable, result: RotationResult): Promise<void> {
+  let lastId: string | undefined;
+
+  for (;;) {
+    const columns: Record<string, PgColumn> = { id, ...fields };
+    const rows = await db.select(columns).from(table)
+      .where(lastId ? gt(id, lastId) : undefined)
+      .orderBy(asc(id))
+      .limit(BATCH_SIZE) as Record<string, string | null>[];
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      for (const [field, column] of Object.entries(fields)) {
+        const current = row[field];
+        if (!current) continue;
+
+        if (!needsReencryption(current)) {
+          result.keyIdsInUse.add(encryptionKeyId(current)!);
+          continue;
+        }
+
+        try {
+          const next = encrypt(decrypt(current));
+          const conditions: SQL[] = [eq(id, row.id!), eq(column, current)];
+          const updated = await db.update(table).set({ [field]: next }).where(and(...conditions)).returning({ id });
+          if (updated.length > 0) {
+            result.rotated++;
+            result.keyIdsInUse.add(encryptionKeyId(next)!);
+          } else {
+            result.skipped++;
+          }
+        } catch (error) {
+          result.failed++;
+          console.error(`${name}.${field} ${row.id}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    }
+
+    lastId = rows[rows.length - 1].id!;
+  }
+}
+
+export async function rotateKeys(options: { newKey?: boolean; deleteRetired?: boolean } = {}): Promise<RotationResult> {
+  if (options.newKey) {
+    console.log(`Activated new key ${kms.createKey()}`);
+  }
+
+  const result: RotationResult = { rotated: 0, skipped: 0, failed: 0, keyIdsInUse: new Set() };
+  for (const table of ENCRYPTED_TABLES) {
+    await rotateTable(table, result);
+  }
+  console.log(`Re-encrypted ${result.rotated} values under ${kms.activeKeyId()} (${result.skipped} changed concurrently, ${result.failed} failed)`);
+
+  // Only safe when every value was checked and none still needs an old key
+  if (options.deleteRetired) {
+    if (result.failed > 0 || result.skipped > 0) {
+      console.log("Keeping retired keys; re-run once every value has been re-encrypted");
+    } else {
+      for (const keyId of kms.keyIds()) {
+        if (keyId !== kms.activeKeyId() && !result.keyIdsInUse.has(keyId)) {
+          kms.deleteKey(keyId);
+          console.log(`Deleted retired key ${keyId}`);
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+// Run rotation if this file is executed directly
+rotateKeys({
+  newKey: process.argv.includes("--new-key"),
+  deleteRetired: process.argv.includes("--delete-retired")
+})
+  .then((result) => {
+    process.exit(result.failed > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,66 +1,142 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, TRANSACTION_SORT_FIELDS, type TransactionSortField, type AuditLogQuery } from "./storage";
 import { db } from "./db";
-import { transactions, transactionDataVerified, callCommunications } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { transactions, transactionDataVerified, callCommunications, type User, type Patient, type Insurance, type Fax, type VerificationJob } from "@shared/schema";
+import { DEFAULT_PRACTICE_INTEGRATIONS } from "@shared/integrations";
+import { isCoverageSource } from "@shared/coverage";
+import { eq, getTableColumns } from "drizzle-orm";
 import bcrypt from "bcryptjs";
-import axios from "axios";
 import { readFileSync } from "fs";
 import { join } from "path";
 import { encrypt, decrypt, maskSensitiveData } from "./crypto";
 import multer from "multer";
 import { processInsuranceCard } from "./ocr";
+import { createOcrExtraction, reviewOf, editOcrExtraction, confirmOcrExtraction, rejectOcrExtraction, OcrReviewError } from "./ocr-review";
+import {
+  listPatientDocuments,
+  createDocument,
+  addDocumentVersion,
+  readDocument,
+  deleteDocument,
+  removeDocumentFiles,
+  storeInsuranceCardImage,
+  DocumentError,
+  DOCUMENT_MIME_TYPES,
+  MAX_DOCUMENT_SIZE
+} from "./documents";
+import {
+  startDocumentAnalysis,
+  getDocumentAnalysisJob,
+  findDocumentAnalysisJob,
+  watchDocumentAnalysisJob,
+  DocumentAnalysisError,
+  ANALYZABLE_CATEGORIES,
+  type DocumentAnalysisJob
+} from "./document-analysis";
+import {
+  requestBenefitFax,
+  receiveInboundFax,
+  assignInboundFax,
+  readUnmatchedFax,
+  faxSummary,
+  normalizeFaxNumber,
+  FaxRequestError
+} from "./fax-requests";
+import { FaxError, verifyFaxWebhook } from "./fax";
+import {
+  prefillVerificationForm,
+  getVerificationForm,
+  listVerificationFormVersions,
+  saveVerificationForm,
+  resolveFormInsurance,
+  revealedFields,
+  VerificationFormError
+} from "./verification-forms";
+import { renderVerificationForm } from "./verification-form-pdf";
+import {
+  parseTemplateBody,
+  templatesForPractice,
+  selectFormTemplate,
+  templateOfForm,
+  FormTemplateError
+} from "./verification-form-templates";
+import { STANDARD_TEMPLATE_SECTIONS } from "@shared/verification-form-template";
+import { subscribeLiveEvents, publishTransaction, LIVE_EVENT_PERMISSIONS } from "./live-events";
+import { inquiryFromInsurance, EligibilityError, type EligibilityInquiry } from "./eligibility";
+import { planDentalBenefits } from "./eligibility-planner";
+import {
+  enqueueVerificationJob,
+  retryVerificationJob,
+  cancelVerificationJob,
+  resumeFromTransaction,
+  resolveWorkflowRules,
+  startVerificationWorker,
+  WorkflowError,
+  WORKFLOW_STEPS
+} from "./workflow";
+import { scheduleDailyVerifications, startDailyScheduler, dailyScheduleConfig } from "./scheduler";
+import {
+  backfillPractices,
+  canManagePractice,
+  createPersonalPractice,
+  resolveActivePractice,
+  PRACTICE_ROLES
+} from "./practices";
+import { checkLoginThrottle, recordLoginFailure, clearLoginFailures, unlockAccount, accountLockouts, accountKey } from "./login-throttle";
+import { hashNewPassword, changePassword, unusablePasswordHash, PasswordPolicyError } from "./passwords";
+import { sendInvitation, requestPasswordReset, describeToken, acceptInvitation, resetPassword, AuthTokenError } from "./auth-tokens";
+import { hasPermission, isRole, mfaRequiredForRole, permissionsForRole, ROLES, type Permission } from "@shared/permissions";
+import { startSession, listUserSessions, revokeUserSession } from "./sessions";
+import {
+  beginEnrollment,
+  confirmEnrollment,
+  verifyMfaCode,
+  mfaStatus,
+  setPendingMfa,
+  getPendingMfa,
+  recordFailedMfaAttempt,
+  MfaError
+} from "./mfa";
+import { CoverageHistoryError, backfillCoverageRuns, diffPatientRuns, patientRun, saveCoverageRun } from "./coverage-history";
+import { recordAudit, ensureAuditLogAppendOnly, auditLogCsvRow, AUDIT_ACTIONS, AUDIT_CSV_HEADER } from "./audit";
+import { seedPayerDirectory, resolvePayer, findPayerInText, payerSupports, PAYER_TRANSACTION_TYPES } from "./payers";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
 
-  // Seed test users if they don't exist
-  const seedTestUsers = async () => {
-    try {
-      const dentalUser = await storage.getUserByEmail("dental@smithai.com");
-      if (!dentalUser) {
-        const hashedPassword = await bcrypt.hash("admin123", 10);
-        await storage.createUser({
-          email: "dental@smithai.com",
-          username: "dental_admin",
-          password: hashedPassword,
-          role: "dental",
-          dataSource: null
-        });
-      }
+  // Move users and patients from before practices existed into practices
+  try {
+    await backfillPractices();
+  } catch (error) {
+  }
 
-      const insuranceUser = await storage.getUserByEmail("insurance@smithai.com");
-      if (!insuranceUser) {
-        const hashedPassword = await bcrypt.hash("admin123", 10);
-        await storage.createUser({
-          email: "insurance@smithai.com",
-          username: "insurance_admin",
-          password: hashedPassword,
-          role: "insurance",
-          dataSource: null
-        });
-      }
+  // Put coverage by code rows from before runs into a run per patient
+  try {
+    await backfillCoverageRuns();
+  } catch (error) {
+  }
 
-      const adminUser = await storage.getUserByEmail("admin@smithai.com");
-      if (!adminUser) {
-        const hashedPassword = await bcrypt.hash("admin123", 10);
-        await storage.createUser({
-          email: "admin@smithai.com",
-          username: "admin",
-          password: hashedPassword,
-          role: "admin",
-          dataSource: null
-        });
-      }
-    } catch (error) {
-    }
-  };
+  // Reject updates and deletes of audit log entries at the database
+  try {
+    await ensureAuditLogAppendOnly();
+  } catch (error) {
+  }
 
-  // Seed test users on startup
-  await seedTestUsers();
+  // Seed the payer directory on first startup
+  try {
+    await seedPayerDirectory();
+  } catch (error) {
+  }
+
+  // Start the verification workflow worker and the nightly job scheduler
+  try {
+    await startVerificationWorker();
+    startDailyScheduler();
+  } catch (error) {
+  }
 
   // Authentication routes
   /**
@@ -84,14 +160,17 @@ export async function registerRoutes(
    *               email:
    *                 type: string
    *                 format: email
-   *                 example: dental@smithai.com
+   *                 example: jane@example.com
    *               password:
    *                 type: string
    *                 format: password
-   *                 example: admin123
    *     responses:
    *       200:
-   *         description: Login successful
+   *         description: |
+   *           Login successful, or the password was accepted and a second factor is needed. With
+   *           `mfaRequired` no session is started yet: complete the login with `POST /api/auth/mfa/verify`,
+   *           or, when `enrollmentRequired` is also set, enroll with `POST /api/auth/mfa/setup` and
+   *           `POST /api/auth/mfa/enable`.
    *         content:
    *           application/json:
    *             schema:
@@ -101,6 +180,10 @@ export async function registerRoutes(
    *                   type: boolean
    *                 user:
    *                   $ref: '#/components/schemas/User'
+   *                 mfaRequired:
+   *                   type: boolean
+   *                 enrollmentRequired:
+   *                   type: boolean
    *       400:
    *         description: Email and password required
    *         content:
@@ -113,54 +196,103 @@ export async function registerRoutes(
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
+   *       429:
+   *         description: |
+   *           Too many failed attempts for this account or IP. `Retry-After` gives the wait in seconds:
+   *           a short delay after a few failures, or the rest of a lockout.
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
    */
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { email, password } = req.body;
 
-      if (!email || !password) {
+      if (typeof email !== "string" || typeof password !== "string" || !email || !password) {
         return res.status(400).json({ error: "Email and password are required" });
       }
 
+      if (await rejectThrottledLogin(email, req, res)) return;
+
       const user = await storage.getUserByEmail(email);
-      if (!user) {
+      const isPasswordValid = user ? await bcrypt.compare(password, user.password) : false;
+      if (!user || !isPasswordValid) {
+        await recordLoginFailure(email, req.ip);
         return res.status(401).json({ error: "Invalid email or password" });
       }
 
-      const isPasswordValid = await bcrypt.compare(password, user.password);
-      if (!isPasswordValid) {
-        return res.status(401).json({ error: "Invalid email or password" });
+      // Hold the login until the second factor is checked, or set up if the role requires one
+      const mfa = await mfaStatus(user.id);
+      if (mfa.enabled || mfaRequiredForRole(user.role)) {
+        setPendingMfa(req, user.id, !mfa.enabled);
+        return res.json({ success: true, mfaRequired: true, enrollmentRequired: !mfa.enabled });
       }
 
-      // Store user in session
-      (req.session as any).userId = user.id;
-      (req.session as any).userRole = user.role;
-      (req.session as any).userEmail = user.email;
-
-      res.json({
-        success: true,
-        user: {
-          id: user.id,
-          email: user.email,
-          role: user.role
-        }
-      });
+      res.json({ success: true, user: await completeLogin(req, user) });
     } catch (error) {
       res.status(500).json({ error: "Failed to login" });
     }
   });
 
+  // Answers 429 if the account or IP has to wait before trying again
+  const rejectThrottledLogin = async (email: string, req: any, res: any): Promise<boolean> => {
+    const block = await checkLoginThrottle(email, req.ip);
+    if (!block) return false;
+    const minutes = Math.ceil(block.retryAfterSeconds / 60);
+    res.set("Retry-After", String(block.retryAfterSeconds));
+    res.status(429).json({
+      error: block.locked
+        ? `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`
+        : `Too many failed login attempts. Wait ${block.retryAfterSeconds} second${block.retryAfterSeconds === 1 ? "" : "s"} and try again.`
+    });
+    return true;
+  };
+
+  // Stores the user in a new session and returns the login response's user
+  const completeLogin = async (req: any, user: User) => {
+    await clearLoginFailures(user.email);
+    await startSession(req, user);
+
+    const membership = await resolveActivePractice(user.id);
+    req.session.practiceId = membership?.practiceId;
+    req.session.practiceRole = membership?.role;
+
+    return {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      practiceId: membership?.practiceId || null,
+      practiceRole: membership?.role || null,
+      permissions: permissionsForRole(user.role)
+    };
+  };
+
   /**
    * @openapi
-   * /api/auth/logout:
+   * /api/auth/mfa/verify:
    *   post:
    *     tags:
    *       - Authentication
-   *     summary: User logout
-   *     description: Log out the current user and destroy session
+   *     summary: Complete a login with a second factor
+   *     description: |
+   *       Checks a 6-digit authenticator code, or a recovery code (each works once), for a login whose
+   *       password was accepted. The pending login expires after 5 minutes or 5 wrong codes.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *                 example: "123456"
    *     responses:
    *       200:
-   *         description: Logout successful
+   *         description: Login successful
    *         content:
    *           application/json:
    *             schema:
@@ -168,148 +300,167 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
-   *       500:
-   *         description: Failed to logout
+   *                 user:
+   *                   $ref: '#/components/schemas/User'
+   *       429:
+   *         description: Too many failed attempts; wrong codes count toward the account lockout
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Invalid code, or no pending login
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  app.post("/api/auth/logout", async (req, res) => {
-    req.session?.destroy((err: any) => {
-      if (err) {
-        return res.status(500).json({ error: "Failed to logout" });
+  app.post("/api/auth/mfa/verify", async (req, res) => {
+    try {
+      const pending = getPendingMfa(req);
+      if (!pending || pending.enroll) {
+        return res.status(401).json({ error: "Login expired. Please sign in again." });
       }
-      res.clearCookie("connect.sid");
-      res.json({ success: true });
-    });
+
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        return res.status(401).json({ error: "User not found" });
+      }
+      if (await rejectThrottledLogin(user.email, req, res)) return;
+
+      const { code } = req.body;
+      if (typeof code !== "string" || !(await verifyMfaCode(user.id, code))) {
+        recordFailedMfaAttempt(req);
+        await recordLoginFailure(user.email, req.ip);
+        return res.status(401).json({ error: "Invalid verification code" });
+      }
+
+      res.json({ success: true, user: await completeLogin(req, user) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify code" });
+    }
   });
 
+  // The signed-in user, or the user of a login held for MFA enrollment
+  const mfaEnrollmentUser = async (req: any): Promise<User | undefined> => {
+    const userId = req.session?.userId || getPendingMfa(req)?.userId;
+    return userId ? await storage.getUser(userId) : undefined;
+  };
+
   /**
    * @openapi
-   * /api/auth/verify:
+   * /api/auth/mfa:
    *   get:
    *     tags:
    *       - Authentication
-   *     summary: Verify session
-   *     description: Verify the current user session and return user information
+   *     summary: Your MFA status
+   *     security:
+   *       - cookieAuth: []
    *     responses:
    *       200:
-   *         description: Session verified
+   *         description: MFA status
    *         content:
    *           application/json:
    *             schema:
    *               type: object
    *               properties:
-   *                 user:
-   *                   $ref: '#/components/schemas/User'
+   *                 enabled:
+   *                   type: boolean
+   *                 enabledAt:
+   *                   type: string
+   *                   format: date-time
+   *                   nullable: true
+   *                 recoveryCodesRemaining:
+   *                   type: integer
+   *                 required:
+   *                   type: boolean
+   *                   description: Whether your role requires MFA
    *       401:
-   *         description: Not authenticated or user not found
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
-   *       500:
-   *         description: Failed to verify session
+   *         description: Authentication required
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  app.get("/api/auth/verify", async (req, res) => {
+  app.get("/api/auth/mfa", async (req, res) => {
     try {
       const userId = (req.session as any)?.userId;
       if (!userId) {
-        return res.status(401).json({ error: "Not authenticated" });
-      }
-
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(401).json({ error: "User not found" });
+        return res.status(401).json({ error: "Authentication required" });
       }
-
-      res.json({
-        user: {
-          id: user.id,
-          email: user.email,
-          role: user.role,
-          username: user.username,
-          dataSource: user.dataSource
-        }
-      });
+      const role = (req.session as any)?.userRole;
+      res.json({ ...(await mfaStatus(userId)), required: mfaRequiredForRole(role) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to verify session" });
+      res.status(500).json({ error: "Failed to fetch MFA status" });
     }
   });
 
-  // Middleware to check if user is admin
-  const requireAdmin = (req: any, res: any, next: any) => {
-    const userRole = req.session?.userRole;
-    if (userRole !== "admin") {
-      return res.status(403).json({ error: "Admin access required" });
-    }
-    next();
-  };
-
-  // User management routes (admin only)
   /**
    * @openapi
-   * /api/users:
-   *   get:
+   * /api/auth/mfa/setup:
+   *   post:
    *     tags:
-   *       - User Management
-   *     summary: Get all users (Admin only)
-   *     description: Retrieve all users in the system (admin access required)
-   *     security:
-   *       - cookieAuth: []
+   *       - Authentication
+   *     summary: Start TOTP enrollment
+   *     description: |
+   *       Generates a new authenticator secret for the signed-in user, or for a login that is waiting
+   *       on required enrollment. Nothing changes for sign-in until the enrollment is confirmed with
+   *       `POST /api/auth/mfa/enable`.
    *     responses:
    *       200:
-   *         description: Users retrieved successfully
+   *         description: Enrollment started
    *         content:
    *           application/json:
    *             schema:
    *               type: object
    *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 users:
-   *                   type: array
-   *                   items:
-   *                     $ref: '#/components/schemas/User'
-   *       403:
-   *         description: Admin access required
+   *                 secret:
+   *                   type: string
+   *                   description: Base32 secret for manual entry
+   *                 otpauthUri:
+   *                   type: string
+   *                 qrCode:
+   *                   type: string
+   *                   description: PNG data URL of the otpauth URI
+   *       401:
+   *         description: Not signed in
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
-   *       500:
-   *         description: Failed to fetch users
+   *       409:
+   *         description: MFA already enabled
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  app.get("/api/users", requireAdmin, async (req, res) => {
+  app.post("/api/auth/mfa/setup", async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
-      // Don't send passwords to the client
-      const safeUsers = users.map(({ password, ...user }) => user);
-      res.json({ success: true, users: safeUsers });
+      const user = await mfaEnrollmentUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required" });
+      }
+      res.json(await beginEnrollment(user));
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch users" });
+      if (error instanceof MfaError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to start MFA enrollment" });
     }
   });
 
   /**
    * @openapi
-   * /api/users:
+   * /api/auth/mfa/enable:
    *   post:
    *     tags:
-   *       - User Management
-   *     summary: Create a new user (Admin only)
-   *     description: Create a new user account (admin access required)
-   *     security:
-   *       - cookieAuth: []
+   *       - Authentication
+   *     summary: Confirm TOTP enrollment
+   *     description: |
+   *       Activates the factor from `POST /api/auth/mfa/setup` once a code from the authenticator app
+   *       checks out. Returns recovery codes, which are shown only this once. For a login waiting on
+   *       required enrollment this also completes the login.
    *     requestBody:
    *       required: true
    *       content:
@@ -317,33 +468,14 @@ export async function registerRoutes(
    *           schema:
    *             type: object
    *             required:
-   *               - email
-   *               - username
-   *               - password
-   *               - role
+   *               - code
    *             properties:
-   *               email:
+   *               code:
    *                 type: string
-   *                 format: email
-   *                 example: newuser@smithai.com
-   *               username:
-   *                 type: string
-   *                 example: newuser
-   *               password:
-   *                 type: string
-   *                 format: password
-   *                 example: password123
-   *               role:
-   *                 type: string
-   *                 enum: [admin, dental, insurance]
-   *                 example: dental
-   *               dataSource:
-   *                 type: string
-   *                 nullable: true
-   *                 example: null
+   *                 example: "123456"
    *     responses:
    *       200:
-   *         description: User created successfully
+   *         description: MFA enabled
    *         content:
    *           application/json:
    *             schema:
@@ -351,413 +483,523 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
+   *                 recoveryCodes:
+   *                   type: array
+   *                   items:
+   *                     type: string
    *                 user:
    *                   $ref: '#/components/schemas/User'
    *       400:
-   *         description: Validation error or user already exists
+   *         description: Invalid code
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
-   *       403:
-   *         description: Admin access required
+   *       409:
+   *         description: Enrollment not started or MFA already enabled
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  app.post("/api/users", requireAdmin, async (req, res) => {
+  app.post("/api/auth/mfa/enable", async (req, res) => {
     try {
-      const { email, username, password, role, dataSource } = req.body;
-
-      if (!email || !username || !password || !role) {
-        return res.status(400).json({ error: "Email, username, password, and role are required" });
+      const user = await mfaEnrollmentUser(req);
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required" });
       }
 
-      // Check if email already exists
-      const existingEmail = await storage.getUserByEmail(email);
-      if (existingEmail) {
-        return res.status(400).json({ error: "Email already exists" });
+      const { code } = req.body;
+      const recoveryCodes = typeof code === "string" ? await confirmEnrollment(user.id, code.trim()) : null;
+      if (!recoveryCodes) {
+        recordFailedMfaAttempt(req);
+        return res.status(400).json({ error: "Invalid verification code" });
       }
 
-      // Check if username already exists
-      const existingUsername = await storage.getUserByUsername(username);
-      if (existingUsername) {
-        return res.status(400).json({ error: "Username already exists" });
+      if ((req.session as any).userId) {
+        return res.json({ success: true, recoveryCodes });
       }
-
-      const hashedPassword = await bcrypt.hash(password, 10);
-      const user = await storage.createUser({
-        email,
-        username,
-        password: hashedPassword,
-        role,
-        dataSource: dataSource || null
-      });
-
-      const { password: _, ...safeUser } = user;
-      res.json({ success: true, user: safeUser });
+      res.json({ success: true, recoveryCodes, user: await completeLogin(req, user) });
     } catch (error) {
-      res.status(500).json({ error: "Failed to create user" });
+      if (error instanceof MfaError) {
+        return res.status(409).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to enable MFA" });
     }
   });
 
-  app.put("/api/users/:id", requireAdmin, async (req, res) => {
+  /**
+   * @openapi
+   * /api/auth/forgot-password:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Request a password reset email
+   *     description: |
+   *       Emails a single-use reset link if the address has an account. The response is the same
+   *       whether or not it does.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *     responses:
+   *       200:
+   *         description: Request accepted
+   */
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    const { email } = req.body;
+    if (typeof email !== "string" || !email.trim()) {
+      return res.status(400).json({ error: "Email is required" });
+    }
     try {
-      const { id } = req.params;
-      const { email, username, role, dataSource } = req.body;
-
-      // Check if trying to update to existing email
-      if (email) {
-        const existingEmail = await storage.getUserByEmail(email);
-        if (existingEmail && existingEmail.id !== id) {
-          return res.status(400).json({ error: "Email already exists" });
-        }
-      }
-
-      // Check if trying to update to existing username
-      if (username) {
-        const existingUsername = await storage.getUserByUsername(username);
-        if (existingUsername && existingUsername.id !== id) {
-          return res.status(400).json({ error: "Username already exists" });
-        }
-      }
-
-      const updates: any = {};
-      if (email) updates.email = email;
-      if (username) updates.username = username;
-      if (role) updates.role = role;
-      if (dataSource !== undefined) updates.dataSource = dataSource;
+      await requestPasswordReset(email.trim());
+    } catch (error) {
+    }
+    res.json({ success: true });
+  });
 
-      const user = await storage.updateUser(id, updates);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+  /**
+   * @openapi
+   * /api/auth/token-info:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Check an invitation or reset link
+   *     description: Returns who the link is for without using it up.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *               - purpose
+   *             properties:
+   *               token:
+   *                 type: string
+   *               purpose:
+   *                 type: string
+   *                 enum: [invite, reset]
+   *     responses:
+   *       200:
+   *         description: Link is valid
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 email:
+   *                   type: string
+   *                 username:
+   *                   type: string
+   *                 expiresAt:
+   *                   type: string
+   *                   format: date-time
+   *       404:
+   *         description: Link invalid, used or expired
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/auth/token-info", async (req, res) => {
+    try {
+      const { token, purpose } = req.body;
+      if (purpose !== "invite" && purpose !== "reset") {
+        return res.status(400).json({ error: "Purpose must be invite or reset" });
       }
-
-      const { password: _, ...safeUser } = user;
-      res.json({ success: true, user: safeUser });
+      res.json(await describeToken(token, purpose));
     } catch (error) {
-      res.status(500).json({ error: "Failed to update user" });
+      if (error instanceof AuthTokenError) {
+        return res.status(404).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to check link" });
     }
   });
 
-  app.delete("/api/users/:id", requireAdmin, async (req, res) => {
+  /**
+   * @openapi
+   * /api/auth/accept-invite:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Accept an invitation
+   *     description: Sets the invited user's first password. The user then signs in normally.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *               - password
+   *             properties:
+   *               token:
+   *                 type: string
+   *               password:
+   *                 type: string
+   *                 format: password
+   *     responses:
+   *       200:
+   *         description: Password set
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 email:
+   *                   type: string
+   *       400:
+   *         description: Password too weak, or link invalid, used or expired
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   * /api/auth/reset-password:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: Reset a forgotten password
+   *     description: |
+   *       Sets a new password from a reset link. Signs the user out of all sessions and clears any
+   *       login lockout.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *               - password
+   *             properties:
+   *               token:
+   *                 type: string
+   *               password:
+   *                 type: string
+   *                 format: password
+   *     responses:
+   *       200:
+   *         description: Password reset
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 email:
+   *                   type: string
+   *       400:
+   *         description: Password too weak or recently used, or link invalid, used or expired
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/auth/accept-invite", async (req, res) => {
     try {
-      const { id } = req.params;
-
-      // Prevent deleting own account
-      const currentUserId = (req.session as any)?.userId;
-      if (id === currentUserId) {
-        return res.status(400).json({ error: "Cannot delete your own account" });
-      }
-
-      const success = await storage.deleteUser(id);
-      if (!success) {
-        return res.status(404).json({ error: "User not found" });
+      const { token, password } = req.body;
+      if (typeof password !== "string" || !password) {
+        return res.status(400).json({ error: "Password is required" });
       }
-
-      res.json({ success: true });
+      const user = await acceptInvitation(token, password);
+      res.json({ success: true, email: user.email });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete user" });
+      if (error instanceof AuthTokenError || error instanceof PasswordPolicyError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to accept invitation" });
     }
   });
 
-  app.put("/api/users/:id/password", requireAdmin, async (req, res) => {
+  app.post("/api/auth/reset-password", async (req, res) => {
     try {
-      const { id } = req.params;
-      const { password } = req.body;
-
-      if (!password) {
+      const { token, password } = req.body;
+      if (typeof password !== "string" || !password) {
         return res.status(400).json({ error: "Password is required" });
       }
-
-      const hashedPassword = await bcrypt.hash(password, 10);
-      const user = await storage.updateUserPassword(id, hashedPassword);
-
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
-
-      res.json({ success: true });
+      const user = await resetPassword(token, password);
+      res.json({ success: true, email: user.email });
     } catch (error) {
-      res.status(500).json({ error: "Failed to update password" });
+      if (error instanceof AuthTokenError || error instanceof PasswordPolicyError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to reset password" });
     }
   });
 
-  // Middleware to check authentication
-  const requireAuth = (req: any, res: any, next: any) => {
-    const userId = req.session?.userId;
-    if (!userId) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-    next();
-  };
-
-  // Configure multer for insurance card file uploads (in-memory only, HIPAA compliant)
-  const upload = multer({
-    storage: multer.memoryStorage(), // In-memory only, never persist to disk
-    limits: {
-      fileSize: 10 * 1024 * 1024, // 10MB max
-      files: 1 // Single file only
-    },
-    fileFilter: (req, file, cb) => {
-      const allowedTypes = ['image/jpeg', 'image/png', 'application/pdf'];
-      if (!allowedTypes.includes(file.mimetype)) {
-        cb(new Error('Only JPEG, PNG, and PDF files are supported'));
-      } else {
-        cb(null, true);
+  /**
+   * @openapi
+   * /api/auth/logout:
+   *   post:
+   *     tags:
+   *       - Authentication
+   *     summary: User logout
+   *     description: Log out the current user and destroy session
+   *     responses:
+   *       200:
+   *         description: Logout successful
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *       500:
+   *         description: Failed to logout
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/auth/logout", async (req, res) => {
+    req.session?.destroy((err: any) => {
+      if (err) {
+        return res.status(500).json({ error: "Failed to logout" });
       }
-    }
+      res.clearCookie("connect.sid");
+      res.json({ success: true });
+    });
   });
 
-  // Helper function to generate next patient ID in format P0000001
-  const generateNextPatientId = async (userId: string): Promise<string> => {
-    const existingPatients = await storage.getPatientsByUserId(userId);
-
-    if (existingPatients.length === 0) {
-      return 'P0000001';
-    }
-
-    // Extract all numeric IDs from existing patient IDs
-    const numericIds = existingPatients
-      .map(p => p.id)
-      .filter(id => id.startsWith('P'))
-      .map(id => parseInt(id.substring(1), 10))
-      .filter(num => !isNaN(num));
-
-    // Find the highest ID number
-    const maxId = numericIds.length > 0 ? Math.max(...numericIds) : 0;
-
-    // Generate next ID with zero-padding (7 digits total: P + 0000001)
-    const nextId = maxId + 1;
-    return `P${nextId.toString().padStart(7, '0')}`;
-  };
-
-  // Patient management routes
   /**
    * @openapi
-   * /api/patients:
+   * /api/auth/verify:
    *   get:
    *     tags:
-   *       - Patients
-   *     summary: Get all patients
-   *     description: Retrieve all patients for the authenticated user with their complete data including telecoms, addresses, insurance, appointments, and treatments
-   *     security:
-   *       - cookieAuth: []
+   *       - Authentication
+   *     summary: Verify session
+   *     description: Verify the current user session and return user information
    *     responses:
    *       200:
-   *         description: Patients retrieved successfully
+   *         description: Session verified
    *         content:
    *           application/json:
    *             schema:
    *               type: object
    *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 patients:
-   *                   type: array
-   *                   items:
-   *                     $ref: '#/components/schemas/Patient'
+   *                 user:
+   *                   $ref: '#/components/schemas/User'
    *       401:
-   *         description: Authentication required
+   *         description: Not authenticated or user not found
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    *       500:
-   *         description: Failed to fetch patients
+   *         description: Failed to verify session
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  app.get("/api/patients", requireAuth, async (req, res) => {
+  app.get("/api/auth/verify", async (req, res) => {
     try {
       const userId = (req.session as any)?.userId;
-      const patients = await storage.getPatientsByUserId(userId);
+      if (!userId) {
+        return res.status(401).json({ error: "Not authenticated" });
+      }
 
-      // Get all related data for each patient
-      const patientsWithData = await Promise.all(patients.map(async (patient) => {
-        const [telecoms, addresses, insurances, appointments, treatments, verificationStatus, coverageDetail] = await Promise.all([
-          storage.getPatientTelecoms(patient.id),
-          storage.getPatientAddresses(patient.id),
-          storage.getPatientInsurances(patient.id),
-          storage.getPatientAppointments(patient.id),
-          storage.getPatientTreatments(patient.id),
-          storage.getPatientVerificationStatus(patient.id),
-          storage.getCoverageDetailByPatientId(patient.id)
-        ]);
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ error: "User not found" });
+      }
 
-        let procedures: any[] = [];
-        if (coverageDetail) {
-          procedures = await storage.getProceduresByCoverageId(coverageDetail.id);
+      const practiceId = (req.session as any)?.practiceId;
+      const practice = practiceId ? await storage.getPracticeById(practiceId) : undefined;
+
+      res.json({
+        user: {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          username: user.username,
+          dataSource: user.dataSource,
+          practice: practice ? {
+            id: practice.id,
+            name: practice.name,
+            role: (req.session as any)?.practiceRole,
+            integrations: practice.integrations
+          } : null,
+          permissions: permissionsForRole(user.role)
         }
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to verify session" });
+    }
+  });
 
-        // Transform addresses from DB format (line1, line2) to client format (line: string[])
-        const transformedAddresses = addresses.map(addr => ({
-          line: [addr.line1, addr.line2].filter(Boolean) as string[],
-          city: addr.city,
-          state: addr.state,
-          postalCode: addr.postalCode
-        }));
+  // Middleware to check authentication. Also reloads the user's role and re-checks the session's
+  // practice membership, so role changes and removal from a practice apply on the next request.
+  const requireAuth = async (req: any, res: any, next: any) => {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ error: "User not found" });
+      }
+      req.session.userRole = user.role;
 
-        // Transform insurances from DB format to client format
-        // DB: flat fields → Client: nested coverage object
-        const transformedInsurances = insurances.map(ins => ({
-          id: ins.id,
-          type: ins.type,
-          provider: ins.provider,
-          policyNumber: ins.policyNumber ? '************' : null, // Masked (HIPAA)
-          policyNumberEncrypted: !!ins.policyNumber,
-          groupNumber: ins.groupNumber ? '********' : null, // Masked (HIPAA)
-          groupNumberEncrypted: !!ins.groupNumber,
-          subscriberName: ins.subscriberName,
-          subscriberId: ins.subscriberId,
-          relationship: ins.relationship,
-          effectiveDate: ins.effectiveDate,
-          expirationDate: ins.expirationDate,
-          coverage: {
-            deductible: ins.deductible || '',
-            deductibleMet: ins.deductibleMet || '',
-            maxBenefit: ins.maxBenefit || '',
-            preventiveCoverage: ins.preventiveCoverage || '',
-            basicCoverage: ins.basicCoverage || '',
-            majorCoverage: ins.majorCoverage || ''
-          }
-        }));
+      const membership = await resolveActivePractice(userId, req.session.practiceId);
+      req.session.practiceId = membership?.practiceId;
+      req.session.practiceRole = membership?.role;
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to load user" });
+    }
+    next();
+  };
 
-        // Transform patient from DB format to client format
-        // DB: { givenName, familyName } → Client: { name: { given: string[], family: string } }
-        const givenNames = patient.givenName ? patient.givenName.split(' ') : [];
+  // Middleware to check the session's role grants every listed permission. Use after requireAuth.
+  const requirePermission = (...permissions: Permission[]) => (req: any, res: any, next: any) => {
+    const userRole = req.session?.userRole;
+    const missing = permissions.filter(permission => !hasPermission(userRole, permission));
+    if (missing.length > 0) {
+      return res.status(403).json({ error: `Missing permission: ${missing.join(", ")}` });
+    }
+    next();
+  };
 
-        // Mask sensitive data (HIPAA-compliant) - don't send decrypted data
-        // Mask telecom data (phone, email)
-        const maskedTelecoms = telecoms.map(t => ({
-          system: t.system,
-          value: t.system === 'phone' ? '(***) ***-****' : t.system === 'email' ? '****@****.***' : t.value,
-          encrypted: t.system === 'phone' || t.system === 'email' // Mark as encrypted for UI
-        }));
+  // Session management routes
+  /**
+   * @openapi
+   * /api/auth/sessions:
+   *   get:
+   *     tags:
+   *       - Authentication
+   *     summary: List your active sessions
+   *     description: Sessions that have not expired or gone idle, most recently active first. `current` marks the requesting session.
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Sessions retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 sessions:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/UserSession'
+   *       401:
+   *         description: Authentication required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *   delete:
+   *     tags:
+   *       - Authentication
+   *     summary: Sign out everywhere else
+   *     description: Revokes all of your sessions except the requesting one
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Sessions revoked
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 revoked:
+   *                   type: integer
+   */
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const sessions = await listUserSessions((req.session as any).userId, req.sessionID);
+      res.json({ success: true, sessions });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
 
-        return {
-          id: patient.id,
-          active: patient.active,
-          name: {
-            given: givenNames,
-            family: patient.familyName
-          },
-          gender: patient.gender,
-          birthDate: patient.birthDate ? '****-**-**' : null, // Masked (HIPAA)
-          birthDateEncrypted: !!patient.birthDate,
-          ssn: patient.ssn ? '***-**-****' : null, // Masked (HIPAA)
-          ssnEncrypted: !!patient.ssn,
-          telecom: maskedTelecoms,
-          address: transformedAddresses,
-          insurance: transformedInsurances,
-          appointments,
-          treatments,
-          coverage: coverageDetail ? {
-            annual_maximum: coverageDetail.annualMaximum ? parseFloat(coverageDetail.annualMaximum) : 0,
-            annual_used: coverageDetail.annualUsed ? parseFloat(coverageDetail.annualUsed) : 0,
-            deductible: coverageDetail.deductible ? parseFloat(coverageDetail.deductible) : 0,
-            deductible_met: coverageDetail.deductibleMet ? parseFloat(coverageDetail.deductibleMet) : 0,
-            procedures: procedures.map(p => ({
-              code: p.code,
-              name: p.name,
-              category: p.category,
-              coverage: p.coverage || '',
-              estimated_cost: p.estimatedCost || '',
-              patient_pays: p.patientPays || ''
-            }))
-          } : undefined,
-          verificationStatus
-        };
-      }));
+  app.delete("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      const revoked = await storage.deleteSessionsByUserId((req.session as any).userId, req.sessionID);
+      res.json({ success: true, revoked });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke sessions" });
+    }
+  });
 
-      res.json({ success: true, patients: patientsWithData });
+  /**
+   * @openapi
+   * /api/auth/sessions/{id}:
+   *   delete:
+   *     tags:
+   *       - Authentication
+   *     summary: Revoke one of your sessions
+   *     description: Revoking the current session logs you out.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Session revoked
+   *       404:
+   *         description: Session not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const sid = await revokeUserSession((req.session as any).userId, req.params.id);
+      if (!sid) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      if (sid === req.sessionID) {
+        res.clearCookie("connect.sid");
+      }
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch patients" });
+      res.status(500).json({ error: "Failed to revoke session" });
     }
   });
 
+  // User management routes
   /**
    * @openapi
-   * /api/patients:
-   *   post:
+   * /api/users:
+   *   get:
    *     tags:
-   *       - Patients
-   *     summary: Create a new patient
-   *     description: Create a new patient record with optional telecoms, addresses, insurance, appointments, and treatments
+   *       - User Management
+   *     summary: Get all users
+   *     description: Retrieve all users in the system (requires `user:manage`)
    *     security:
    *       - cookieAuth: []
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             required:
-   *               - patient
-   *             properties:
-   *               patient:
-   *                 type: object
-   *                 properties:
-   *                   active:
-   *                     type: boolean
-   *                     example: true
-   *                   name:
-   *                     type: object
-   *                     properties:
-   *                       given:
-   *                         type: array
-   *                         items:
-   *                           type: string
-   *                         example: ["John", "Michael"]
-   *                       family:
-   *                         type: string
-   *                         example: "Doe"
-   *                   gender:
-   *                     type: string
-   *                     enum: [male, female, other]
-   *                     example: male
-   *                   birthDate:
-   *                     type: string
-   *                     format: date
-   *                     example: "1990-05-15"
-   *                   ssn:
-   *                     type: string
-   *                     example: "123-45-6789"
-   *               telecoms:
-   *                 type: array
-   *                 items:
-   *                   type: object
-   *                   properties:
-   *                     system:
-   *                       type: string
-   *                       enum: [phone, email]
-   *                     value:
-   *                       type: string
-   *               addresses:
-   *                 type: array
-   *                 items:
-   *                   type: object
-   *                   properties:
-   *                     line:
-   *                       type: array
-   *                       items:
-   *                         type: string
-   *                     city:
-   *                       type: string
-   *                     state:
-   *                       type: string
-   *                     postalCode:
-   *                       type: string
-   *               insurances:
-   *                 type: array
-   *                 items:
-   *                   $ref: '#/components/schemas/Insurance'
    *     responses:
    *       200:
-   *         description: Patient created successfully
+   *         description: Users retrieved successfully
    *         content:
    *           application/json:
    *             schema:
@@ -765,175 +1007,1566 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
-   *                 patient:
-   *                   type: object
-   *       400:
-   *         description: Patient data is required
+   *                 users:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/User'
+   *       403:
+   *         description: Missing permission
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
-   *       401:
-   *         description: Authentication required
+   *       500:
+   *         description: Failed to fetch users
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    */
-  app.post("/api/patients", requireAuth, async (req, res) => {
+  app.get("/api/users", requireAuth, requirePermission("user:manage"), async (req, res) => {
     try {
-      const userId = (req.session as any)?.userId;
-      const { patient, telecoms, addresses, insurances, appointments, treatments, verificationStatus } = req.body;
-
-      if (!patient) {
-        return res.status(400).json({ error: "Patient data is required" });
-      }
+      const users = await storage.getAllUsers();
+      // Don't send passwords to the client
+      const mfaEnabled = new Set(await storage.getMfaEnabledUserIds());
+      const lockouts = await accountLockouts();
+      const invitePending = new Set(await storage.getPendingInviteUserIds());
+      const safeUsers = users.map(({ password, ...user }) => ({
+        ...user,
+        mfaEnabled: mfaEnabled.has(user.id),
+        invitePending: invitePending.has(user.id),
+        lockout: lockouts.get(accountKey(user.email)) || null
+      }));
+      res.json({ success: true, users: safeUsers });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
 
-      // Auto-generate patient ID in format P0000001
-      const patientId = await generateNextPatientId(userId);
+  /**
+   * @openapi
+   * /api/users:
+   *   post:
+   *     tags:
+   *       - User Management
+   *     summary: Create a new user
+   *     description: Create a new user account (requires `user:manage`)
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *               - username
+   *               - password
+   *               - role
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *                 example: newuser@smithai.com
+   *               username:
+   *                 type: string
+   *                 example: newuser
+   *               password:
+   *                 type: string
+   *                 format: password
+   *                 description: Must meet the password strength policy. Omit when `invite` is true.
+   *               invite:
+   *                 type: boolean
+   *                 description: Email the user a link to choose their own password instead of setting one
+   *               role:
+   *                 type: string
+   *                 enum: [admin, dental, insurance]
+   *                 example: dental
+   *               dataSource:
+   *                 type: string
+   *                 nullable: true
+   *                 example: null
+   *               practiceId:
+   *                 type: string
+   *                 description: Practice to join. When omitted the user gets a new practice of their own.
+   *               practiceRole:
+   *                 type: string
+   *                 enum: [owner, manager, staff]
+   *                 default: staff
+   *     responses:
+   *       200:
+   *         description: User created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 user:
+   *                   $ref: '#/components/schemas/User'
+   *       400:
+   *         description: Validation error or user already exists
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Missing permission
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/users", requireAuth, requirePermission("user:manage"), async (req, res) => {
+    try {
+      const { email, username, password, role, dataSource, practiceId, practiceRole, invite } = req.body;
 
-      // Encrypt sensitive data (HIPAA-compliant) before storing
-      const encryptedBirthDate = patient.birthDate ? encrypt(patient.birthDate) : null;
-      const encryptedSSN = patient.ssn ? encrypt(patient.ssn) : null;
+      if (!email || !username || (!password && !invite) || !role) {
+        return res.status(400).json({ error: "Email, username, password, and role are required" });
+      }
 
-      // Transform patient from client format to DB format
-      // Client: { name: { given: string[], family: string } } → DB: { givenName, familyName }
-      const newPatient = await storage.createPatient({
-        id: patientId,
-        userId,
-        active: patient.active,
-        givenName: patient.name?.given?.join(' ') || patient.givenName || '',
-        familyName: patient.name?.family || patient.familyName || '',
-        gender: patient.gender,
-        birthDate: encryptedBirthDate,
-        ssn: encryptedSSN
-      });
+      if (!isRole(role)) {
+        return res.status(400).json({ error: `Role must be one of ${ROLES.join(', ')}` });
+      }
 
-      // Create related data
-      if (telecoms && Array.isArray(telecoms)) {
-        await Promise.all(telecoms.map(t => storage.createPatientTelecom({ ...t, patientId: newPatient.id })));
+      if (practiceId && !(await storage.getPracticeById(practiceId))) {
+        return res.status(400).json({ error: "Practice not found" });
+      }
+      if (practiceRole && !PRACTICE_ROLES.includes(practiceRole)) {
+        return res.status(400).json({ error: `Practice role must be one of ${PRACTICE_ROLES.join(', ')}` });
       }
 
-      if (addresses && Array.isArray(addresses)) {
-        // Transform addresses from client format (line: string[]) to DB format (line1, line2)
-        await Promise.all(addresses.map(a => storage.createPatientAddress({
-          patientId: newPatient.id,
-          line1: a.line?.[0] || null,
-          line2: a.line?.[1] || null,
-          city: a.city,
-          state: a.state,
-          postalCode: a.postalCode
-        })));
+      // Check if email already exists
+      const existingEmail = await storage.getUserByEmail(email);
+      if (existingEmail) {
+        return res.status(400).json({ error: "Email already exists" });
       }
 
-      if (insurances && Array.isArray(insurances)) {
-        // Transform insurances from client format (nested coverage) to DB format (flat fields)
-        // Encrypt HIPAA-sensitive fields (policyNumber, groupNumber)
-        await Promise.all(insurances.map(i => storage.createInsurance({
-          patientId: newPatient.id,
-          type: i.type,
-          provider: i.provider,
-          policyNumber: i.policyNumber ? encrypt(i.policyNumber) : null,
-          groupNumber: i.groupNumber ? encrypt(i.groupNumber) : null,
-          subscriberName: i.subscriberName,
-          subscriberId: i.subscriberId,
-          relationship: i.relationship,
-          effectiveDate: i.effectiveDate,
-          expirationDate: i.expirationDate,
-          deductible: i.coverage?.deductible || null,
-          deductibleMet: i.coverage?.deductibleMet || null,
-          maxBenefit: i.coverage?.maxBenefit || null,
-          preventiveCoverage: i.coverage?.preventiveCoverage || null,
-          basicCoverage: i.coverage?.basicCoverage || null,
-          majorCoverage: i.coverage?.majorCoverage || null
-        })));
+      // Check if username already exists
+      const existingUsername = await storage.getUserByUsername(username);
+      if (existingUsername) {
+        return res.status(400).json({ error: "Username already exists" });
       }
 
-      if (appointments && Array.isArray(appointments)) {
-        await Promise.all(appointments.map(a => storage.createAppointment({ ...a, patientId: newPatient.id })));
+      // Invited users get a password nobody knows until they accept
+      const hashedPassword = invite ? await unusablePasswordHash() : await hashNewPassword(password, { email, username });
+      const user = await storage.createUser({
+        email,
+        username,
+        password: hashedPassword,
+        role,
+        dataSource: dataSource || null
+      });
+
+      // Join the chosen practice, or start a new one owned by the user
+      if (practiceId) {
+        await storage.createPracticeMembership({ practiceId, userId: user.id, role: practiceRole || 'staff' });
+      } else {
+        await createPersonalPractice(user);
       }
 
-      if (treatments && Array.isArray(treatments)) {
-        await Promise.all(treatments.map(t => storage.createTreatment({ ...t, patientId: newPatient.id })));
+      const { password: _, ...safeUser } = user;
+      if (invite) {
+        try {
+          await sendInvitation(user, (req.session as any).userId);
+        } catch (error) {
+          return res.status(502).json({ error: "User created, but the invitation email could not be sent. Use Resend Invite to try again." });
+        }
+      }
+      res.json({ success: true, user: safeUser });
+    } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ error: error.message });
       }
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
 
-      if (verificationStatus) {
-        await storage.createVerificationStatus({ ...verificationStatus, patientId: newPatient.id });
+  app.put("/api/users/:id", requireAuth, requirePermission("user:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { email, username, role, dataSource } = req.body;
+
+      if (role !== undefined && !isRole(role)) {
+        return res.status(400).json({ error: `Role must be one of ${ROLES.join(', ')}` });
       }
 
-      // Create a 'Waiting' API transaction for the new patient
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-      const apiRequestId = `REQ-${timestamp}-API`;
-      const patientFullName = `${patient.name?.given?.join(' ') || ''} ${patient.name?.family || ''}`.trim();
+      // Check if trying to update to existing email
+      if (email) {
+        const existingEmail = await storage.getUserByEmail(email);
+        if (existingEmail && existingEmail.id !== id) {
+          return res.status(400).json({ error: "Email already exists" });
+        }
+      }
 
-      const waitingApiTransaction = {
-        requestId: apiRequestId,
-        patientId: newPatient.id,
-        patientName: patientFullName || 'Unknown Patient',
-        type: 'API',
-        method: 'POST /api/benefits/query',
-        startTime: '', // Empty - waiting to start
-        status: 'Waiting',
-        insuranceProvider: insurances && insurances.length > 0 ? insurances[0].provider : '-',
-        fetchStatus: 'pending',
-        saveStatus: 'pending'
-      };
+      // Check if trying to update to existing username
+      if (username) {
+        const existingUsername = await storage.getUserByUsername(username);
+        if (existingUsername && existingUsername.id !== id) {
+          return res.status(400).json({ error: "Username already exists" });
+        }
+      }
+
+      const updates: any = {};
+      if (email) updates.email = email;
+      if (username) updates.username = username;
+      if (role) updates.role = role;
+      if (dataSource !== undefined) updates.dataSource = dataSource;
 
-      await db.insert(transactions).values(waitingApiTransaction);
+      const user = await storage.updateUser(id, updates);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
 
-      res.json({ success: true, patient: newPatient });
+      const { password: _, ...safeUser } = user;
+      res.json({ success: true, user: safeUser });
     } catch (error) {
-      res.status(500).json({ error: "Failed to create patient" });
+      res.status(500).json({ error: "Failed to update user" });
     }
   });
 
-  // Fetch PMS - Create sample patients with upcoming appointments
-  app.post("/api/patients/fetch-pms", requireAuth, async (req, res) => {
+  app.delete("/api/users/:id", requireAuth, requirePermission("user:manage"), async (req, res) => {
     try {
-      const userId = (req.session as any)?.userId;
+      const { id } = req.params;
 
-      // Sample patient data
-      const samplePatients = [
-        {
-          patient: {
-            name: { given: ['Emily'], family: 'Rodriguez' },
-            gender: 'female',
-            birthDate: '1990-03-15',
-            ssn: '123-45-6789',
-            active: true
-          },
-          telecoms: [
-            { system: 'phone', value: '(555) 234-5678' },
-            { system: 'email', value: 'emily.rodriguez@email.com' }
-          ],
-          addresses: [
-            {
-              line: ['456 Oak Avenue', 'Apt 12'],
-              city: 'San Francisco',
-              state: 'CA',
-              postalCode: '94102'
-            }
-          ],
-          insurances: [
-            {
-              type: 'Dental',
-              provider: 'Delta Dental',
-              policyNumber: 'DD123456789',
-              groupNumber: 'GRP001',
-              subscriberName: 'Emily Rodriguez',
-              subscriberId: 'ER123456',
-              relationship: 'Self',
-              effectiveDate: '2024-01-01',
-              expirationDate: '2024-12-31',
-              coverage: {
-                deductible: '50.00',
-                deductibleMet: '0.00',
-                maxBenefit: '2000.00',
-                preventiveCoverage: '100',
-                basicCoverage: '80',
-                majorCoverage: '50'
-              }
-            }
+      // Prevent deleting own account
+      const currentUserId = (req.session as any)?.userId;
+      if (id === currentUserId) {
+        return res.status(400).json({ error: "Cannot delete your own account" });
+      }
+
+      const success = await storage.deleteUser(id);
+      if (!success) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete user" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/users/{id}/sessions:
+   *   get:
+   *     tags:
+   *       - User Management
+   *     summary: List a user's active sessions (requires `user:manage`)
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Sessions retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 sessions:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/UserSession'
+   *   delete:
+   *     tags:
+   *       - User Management
+   *     summary: Force logout (requires `user:manage`)
+   *     description: Revokes every session of the user. Your own current session is kept.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Sessions revoked
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 revoked:
+   *                   type: integer
+   *       404:
+   *         description: User not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/users/:id/sessions", requireAuth, requirePermission("user:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const sessions = await listUserSessions(id, req.sessionID);
+      res.json({ success: true, sessions });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions", requireAuth, requirePermission("user:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const revoked = await storage.deleteSessionsByUserId(id, req.sessionID);
+      res.json({ success: true, revoked });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke sessions" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/users/{id}/mfa:
+   *   delete:
+   *     tags:
+   *       - User Management
+   *     summary: Reset a user's MFA (requires `user:manage`)
+   *     description: |
+   *       Removes the user's authenticator and recovery codes, e.g. after a lost phone. Their next
+   *       login enrolls a new authenticator if their role requires MFA.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: MFA reset
+   *       404:
+   *         description: User not found, or no MFA factor to reset
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.delete("/api/users/:id/mfa", requireAuth, requirePermission("user:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      if (!(await storage.getUser(id))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!(await storage.deleteMfaFactor(id))) {
+        return res.status(404).json({ error: "User has no MFA factor" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to reset MFA" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/users/{id}/invitation:
+   *   post:
+   *     tags:
+   *       - User Management
+   *     summary: Resend an invitation (requires `user:manage`)
+   *     description: Emails a new invitation link; earlier links stop working. Only for users who have not accepted yet.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Invitation sent
+   *       404:
+   *         description: User not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: User has already accepted an invitation or set a password
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       502:
+   *         description: Email could not be sent
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/users/:id/invitation", requireAuth, requirePermission("user:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      const latest = await storage.getLatestAuthToken(user.id, "invite");
+      if (!latest || latest.usedAt) {
+        return res.status(409).json({ error: "User was not invited or has already accepted" });
+      }
+      try {
+        await sendInvitation(user, (req.session as any).userId);
+      } catch (error) {
+        return res.status(502).json({ error: "Invitation email could not be sent" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resend invitation" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/users/{id}/lockout:
+   *   delete:
+   *     tags:
+   *       - User Management
+   *     summary: Unlock a user's account (requires `user:manage`)
+   *     description: Ends a login lockout and clears the user's failed attempt count. Lockouts of an IP address are not affected.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Account unlocked
+   *       404:
+   *         description: User not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.delete("/api/users/:id/lockout", requireAuth, requirePermission("user:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      await unlockAccount(user.email);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to unlock account" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/users/{id}/password:
+   *   put:
+   *     tags:
+   *       - User Management
+   *     summary: Set a user's password (requires `user:manage`)
+   *     description: The password must meet the strength policy and differ from the user's last 6 passwords.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - password
+   *             properties:
+   *               password:
+   *                 type: string
+   *                 format: password
+   *     responses:
+   *       200:
+   *         description: Password updated
+   *       400:
+   *         description: Password missing, too weak or recently used
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: User not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.put("/api/users/:id/password", requireAuth, requirePermission("user:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { password } = req.body;
+
+      if (typeof password !== "string" || !password) {
+        return res.status(400).json({ error: "Password is required" });
+      }
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      await changePassword(user, password);
+      // Outstanding invitation and reset links would otherwise still replace this password
+      await storage.deleteUnusedAuthTokens(user.id);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof PasswordPolicyError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update password" });
+    }
+  });
+
+  // Practice routes
+  // Middleware for membership management: users with practice:manage, or owners and managers of
+  // practice :id. Sets req.managerRole; practice:manage acts as owner. Use after requireAuth.
+  const requirePracticeManager = async (req: any, res: any, next: any) => {
+    const userId = req.session.userId;
+    if (hasPermission(req.session.userRole, "practice:manage")) {
+      req.managerRole = 'owner';
+      return next();
+    }
+    try {
+      const membership = await storage.getPracticeMembership(req.params.id, userId);
+      if (!canManagePractice(membership?.role)) {
+        return res.status(403).json({ error: "Practice manager access required" });
+      }
+      req.managerRole = membership!.role;
+    } catch (error) {
+      return res.status(500).json({ error: "Failed to load practice membership" });
+    }
+    next();
+  };
+
+  const parsePracticeBody = (body: any): { practice?: any; error?: string } => {
+    const { name, npi, address, phone, faxNumber, integrations, active } = body;
+    const practice: any = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) return { error: "Name must be a non-empty string" };
+      practice.name = name.trim();
+    }
+    if (npi !== undefined) {
+      if (npi && !/^\d{10}$/.test(npi)) return { error: "NPI must be 10 digits" };
+      practice.npi = npi || null;
+    }
+    if (address !== undefined) {
+      if (address !== null && typeof address !== 'string') return { error: "Address must be a string" };
+      practice.address = address?.trim() || null;
+    }
+    if (phone !== undefined) {
+      if (phone !== null && typeof phone !== 'string') return { error: "Phone must be a string" };
+      practice.phone = phone?.trim() || null;
+    }
+    if (faxNumber !== undefined) {
+      if (faxNumber !== null && typeof faxNumber !== 'string') return { error: "Fax number must be a string" };
+      const digits = faxNumber ? normalizeFaxNumber(faxNumber) : '';
+      if (digits && digits.length !== 10) return { error: "Fax number must have 10 digits" };
+      practice.faxNumber = digits || null;
+    }
+    if (integrations !== undefined) {
+      if (!integrations || typeof integrations !== 'object' || Array.isArray(integrations)) {
+        return { error: "Integrations must be an object" };
+      }
+      const unknown = Object.keys(integrations).filter(key => !(key in DEFAULT_PRACTICE_INTEGRATIONS));
+      if (unknown.length > 0) return { error: `Unknown integrations: ${unknown.join(', ')}` };
+      if (integrations.eligibilityApi !== undefined && typeof integrations.eligibilityApi !== 'boolean') {
+        return { error: "integrations.eligibilityApi must be true or false" };
+      }
+      practice.integrations = { ...DEFAULT_PRACTICE_INTEGRATIONS, ...integrations };
+    }
+    if (active !== undefined) practice.active = !!active;
+
+    return { practice };
+  };
+
+  // Inbound faxes are scoped by the number they were sent to, so no two practices may share one
+  const faxNumberTaken = async (faxNumber: string | null | undefined, practiceId?: string): Promise<boolean> => {
+    const holder = faxNumber ? await storage.getPracticeByFaxNumber(faxNumber) : undefined;
+    return !!holder && holder.id !== practiceId;
+  };
+
+  // Owners can only be removed or demoted while another owner remains
+  const isLastOwner = async (practiceId: string, userId: string): Promise<boolean> => {
+    const members = await storage.getPracticeMembers(practiceId);
+    const owners = members.filter(m => m.role === 'owner');
+    return owners.length === 1 && owners[0].userId === userId;
+  };
+
+  /**
+   * @openapi
+   * /api/practices:
+   *   get:
+   *     tags:
+   *       - Practices
+   *     summary: List practices
+   *     description: All practices for users with `practice:manage`, otherwise the practices the user belongs to. `current` marks the practice the session works in.
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Practices retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 practices:
+   *                   type: array
+   *                   items:
+   *                     allOf:
+   *                       - $ref: '#/components/schemas/Practice'
+   *                       - type: object
+   *                         properties:
+   *                           role:
+   *                             type: string
+   *                             nullable: true
+   *                           current:
+   *                             type: boolean
+   *   post:
+   *     tags:
+   *       - Practices
+   *     summary: Create a practice (requires `practice:manage`)
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/Practice'
+   *     responses:
+   *       200:
+   *         description: Practice created successfully
+   *       400:
+   *         description: Validation error
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Missing permission
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: Another practice already uses the fax number
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/practices", requireAuth, async (req, res) => {
+    try {
+      const userId = (req.session as any)?.userId;
+      const userRole = (req.session as any)?.userRole;
+      const currentPracticeId = (req.session as any)?.practiceId;
+
+      const memberships = await storage.getMembershipsByUserId(userId);
+      const roles = new Map(memberships.map(m => [m.practiceId, m.role]));
+      const allPractices = await storage.getAllPractices();
+      const visible = hasPermission(userRole, "practice:manage") ? allPractices : allPractices.filter(p => roles.has(p.id));
+
+      const result = visible.map(practice => ({
+        ...practice,
+        role: roles.get(practice.id) || null,
+        current: practice.id === currentPracticeId
+      }));
+
+      res.json({ success: true, practices: result });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch practices" });
+    }
+  });
+
+  app.post("/api/practices", requireAuth, requirePermission("practice:manage"), async (req, res) => {
+    try {
+      const { practice, error } = parsePracticeBody(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      if (!practice.name) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+      if (await faxNumberTaken(practice.faxNumber)) {
+        return res.status(409).json({ error: "Another practice already uses this fax number" });
+      }
+
+      const created = await storage.createPractice(practice);
+      res.json({ success: true, practice: created });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create practice" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/practices/switch:
+   *   post:
+   *     tags:
+   *       - Practices
+   *     summary: Switch the session's practice
+   *     description: Patient, transaction and coverage data is scoped to the session's practice. The user must be a member of the target practice.
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - practiceId
+   *             properties:
+   *               practiceId:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Practice switched
+   *       403:
+   *         description: Not a member of an active practice with this ID
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/practices/switch", requireAuth, async (req, res) => {
+    try {
+      const userId = (req.session as any)?.userId;
+      const { practiceId } = req.body;
+
+      const membership = practiceId ? await storage.getPracticeMembership(practiceId, userId) : undefined;
+      const practice = membership ? await storage.getPracticeById(membership.practiceId) : undefined;
+      if (!membership || !practice?.active) {
+        return res.status(403).json({ error: "Not a member of this practice" });
+      }
+
+      (req.session as any).practiceId = membership.practiceId;
+      (req.session as any).practiceRole = membership.role;
+      res.json({ success: true, practice: { id: practice.id, name: practice.name, role: membership.role, integrations: practice.integrations } });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to switch practice" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/practices/{id}:
+   *   put:
+   *     tags:
+   *       - Practices
+   *     summary: Update a practice (requires `practice:manage`)
+   *     description: |
+   *       Set `active` to false to suspend a practice; its members can no longer work in it.
+   *       `integrations` may list only the settings to change, e.g. `{ "eligibilityApi": true }`.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/Practice'
+   *     responses:
+   *       200:
+   *         description: Practice updated successfully
+   *       404:
+   *         description: Practice not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: Another practice already uses the fax number
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.put("/api/practices/:id", requireAuth, requirePermission("practice:manage"), async (req, res) => {
+    try {
+      const { practice: updates, error } = parsePracticeBody(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      if (await faxNumberTaken(updates.faxNumber, req.params.id)) {
+        return res.status(409).json({ error: "Another practice already uses this fax number" });
+      }
+
+      // Integrations left out of the request keep their setting
+      if (updates.integrations) {
+        const existing = await storage.getPracticeById(req.params.id);
+        updates.integrations = { ...DEFAULT_PRACTICE_INTEGRATIONS, ...existing?.integrations, ...req.body.integrations };
+      }
+
+      const practice = await storage.updatePractice(req.params.id, updates);
+      if (!practice) {
+        return res.status(404).json({ error: "Practice not found" });
+      }
+
+      res.json({ success: true, practice });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update practice" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/practices/{id}/members:
+   *   get:
+   *     tags:
+   *       - Practices
+   *     summary: List practice members
+   *     description: Admins and the practice's owners and managers only
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Members retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 members:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/PracticeMember'
+   *   post:
+   *     tags:
+   *       - Practices
+   *     summary: Add a user to a practice
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - userId
+   *             properties:
+   *               userId:
+   *                 type: string
+   *               role:
+   *                 type: string
+   *                 enum: [owner, manager, staff]
+   *                 default: staff
+   *     responses:
+   *       200:
+   *         description: Member added
+   *       400:
+   *         description: Validation error or user is already a member
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Practice manager access required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/practices/:id/members", requireAuth, requirePracticeManager, async (req, res) => {
+    try {
+      const members = await storage.getPracticeMembers(req.params.id);
+      const usersById = new Map((await storage.getAllUsers()).map(u => [u.id, u]));
+
+      const result = members.map(member => ({
+        ...member,
+        username: usersById.get(member.userId)?.username || null,
+        email: usersById.get(member.userId)?.email || null
+      }));
+
+      res.json({ success: true, members: result });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch practice members" });
+    }
+  });
+
+  app.post("/api/practices/:id/members", requireAuth, requirePracticeManager, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { userId, role = 'staff' } = req.body;
+
+      if (!PRACTICE_ROLES.includes(role)) {
+        return res.status(400).json({ error: `Role must be one of ${PRACTICE_ROLES.join(', ')}` });
+      }
+      if (!(await storage.getPracticeById(id))) {
+        return res.status(404).json({ error: "Practice not found" });
+      }
+      if (!userId || !(await storage.getUser(userId))) {
+        return res.status(400).json({ error: "User not found" });
+      }
+      if (role === 'owner' && (req as any).managerRole !== 'owner') {
+        return res.status(403).json({ error: "Only owners can add owners" });
+      }
+      if (await storage.getPracticeMembership(id, userId)) {
+        return res.status(400).json({ error: "User is already a member of this practice" });
+      }
+
+      const member = await storage.createPracticeMembership({ practiceId: id, userId, role });
+      res.json({ success: true, member });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to add practice member" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/practices/{id}/members/{userId}:
+   *   put:
+   *     tags:
+   *       - Practices
+   *     summary: Change a member's practice role
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - role
+   *             properties:
+   *               role:
+   *                 type: string
+   *                 enum: [owner, manager, staff]
+   *     responses:
+   *       200:
+   *         description: Role updated
+   *       400:
+   *         description: Invalid role, or the change would leave the practice without an owner
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Membership not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *   delete:
+   *     tags:
+   *       - Practices
+   *     summary: Remove a user from a practice
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: userId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Member removed
+   *       400:
+   *         description: The practice's last owner cannot be removed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Membership not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.put("/api/practices/:id/members/:userId", requireAuth, requirePracticeManager, async (req, res) => {
+    try {
+      const { id, userId } = req.params;
+      const { role } = req.body;
+
+      if (!PRACTICE_ROLES.includes(role)) {
+        return res.status(400).json({ error: `Role must be one of ${PRACTICE_ROLES.join(', ')}` });
+      }
+
+      const membership = await storage.getPracticeMembership(id, userId);
+      if (!membership) {
+        return res.status(404).json({ error: "Membership not found" });
+      }
+      if ((role === 'owner' || membership.role === 'owner') && (req as any).managerRole !== 'owner') {
+        return res.status(403).json({ error: "Only owners can change owner roles" });
+      }
+      if (role !== 'owner' && await isLastOwner(id, userId)) {
+        return res.status(400).json({ error: "A practice must keep at least one owner" });
+      }
+
+      const member = await storage.updatePracticeMembership(membership.id, { role });
+      res.json({ success: true, member });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update practice member" });
+    }
+  });
+
+  app.delete("/api/practices/:id/members/:userId", requireAuth, requirePracticeManager, async (req, res) => {
+    try {
+      const { id, userId } = req.params;
+
+      const membership = await storage.getPracticeMembership(id, userId);
+      if (!membership) {
+        return res.status(404).json({ error: "Membership not found" });
+      }
+      if (membership.role === 'owner' && (req as any).managerRole !== 'owner') {
+        return res.status(403).json({ error: "Only owners can remove owners" });
+      }
+      if (await isLastOwner(id, userId)) {
+        return res.status(400).json({ error: "A practice must keep at least one owner" });
+      }
+
+      await storage.deletePracticeMembership(membership.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove practice member" });
+    }
+  });
+
+  // Configure multer for insurance card file uploads (in-memory only, HIPAA compliant). The
+  // originals are kept in the encrypted document store; plaintext never touches the disk.
+  const upload = multer({
+    storage: multer.memoryStorage(), // In-memory only, never persist to disk
+    limits: {
+      fileSize: 10 * 1024 * 1024, // 10MB max
+      files: 2 // Card front and back
+    },
+    fileFilter: (req, file, cb) => {
+      const allowedTypes = ['image/jpeg', 'image/png'];
+      if (!allowedTypes.includes(file.mimetype)) {
+        cb(new Error('Only JPEG and PNG files are supported'));
+      } else {
+        cb(null, true);
+      }
+    }
+  });
+
+  // Document uploads, held in memory until documents.ts encrypts them to disk
+  const documentUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: {
+      fileSize: MAX_DOCUMENT_SIZE,
+      files: 1
+    },
+    fileFilter: (req, file, cb) => {
+      if (!DOCUMENT_MIME_TYPES.includes(file.mimetype)) {
+        cb(new Error('Only PDF, JPEG and PNG files are supported'));
+      } else {
+        cb(null, true);
+      }
+    }
+  });
+
+  // Helper function to generate next patient ID in format P0000001.
+  // IDs are the table's primary key, so they are numbered across all practices.
+  const generateNextPatientId = async (): Promise<string> => {
+    const existingIds = await storage.getAllPatientIds();
+
+    if (existingIds.length === 0) {
+      return 'P0000001';
+    }
+
+    // Extract all numeric IDs from existing patient IDs
+    const numericIds = existingIds
+      .filter(id => id.startsWith('P'))
+      .map(id => parseInt(id.substring(1), 10))
+      .filter(num => !isNaN(num));
+
+    // Find the highest ID number
+    const maxId = numericIds.length > 0 ? Math.max(...numericIds) : 0;
+
+    // Generate next ID with zero-padding (7 digits total: P + 0000001)
+    const nextId = maxId + 1;
+    return `P${nextId.toString().padStart(7, '0')}`;
+  };
+
+  // Patient management routes
+  /**
+   * @openapi
+   * /api/patients:
+   *   get:
+   *     tags:
+   *       - Patients
+   *     summary: Get all patients
+   *     description: Retrieve all patients for the authenticated user with their complete data including telecoms, addresses, insurance, appointments, and treatments
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Patients retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 patients:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Patient'
+   *       401:
+   *         description: Authentication required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: Failed to fetch patients
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/patients", requireAuth, requirePermission("patient:read"), async (req, res) => {
+    try {
+      const practiceId = (req.session as any)?.practiceId;
+      if (!practiceId) {
+        return res.status(403).json({ error: "No practice selected" });
+      }
+      const patients = await storage.getPatientsByPracticeId(practiceId);
+
+      // Get all related data for each patient
+      const patientsWithData = await Promise.all(patients.map(async (patient) => {
+        const [telecoms, addresses, insurances, appointments, treatments, verificationStatus, coverageDetail] = await Promise.all([
+          storage.getPatientTelecoms(patient.id),
+          storage.getPatientAddresses(patient.id),
+          storage.getPatientInsurances(patient.id),
+          storage.getPatientAppointments(patient.id),
+          storage.getPatientTreatments(patient.id),
+          storage.getPatientVerificationStatus(patient.id),
+          storage.getCoverageDetailByPatientId(patient.id)
+        ]);
+
+        let procedures: any[] = [];
+        if (coverageDetail) {
+          procedures = await storage.getProceduresByCoverageId(coverageDetail.id);
+        }
+
+        // Transform addresses from DB format (line1, line2) to client format (line: string[])
+        const transformedAddresses = addresses.map(addr => ({
+          line: [addr.line1, addr.line2].filter(Boolean) as string[],
+          city: addr.city,
+          state: addr.state,
+          postalCode: addr.postalCode
+        }));
+
+        // Transform insurances from DB format to client format
+        // DB: flat fields → Client: nested coverage object
+        const transformedInsurances = insurances.map(ins => ({
+          id: ins.id,
+          type: ins.type,
+          provider: ins.provider,
+          policyNumber: ins.policyNumber ? '************' : null, // Masked (HIPAA)
+          policyNumberEncrypted: !!ins.policyNumber,
+          groupNumber: ins.groupNumber ? '********' : null, // Masked (HIPAA)
+          groupNumberEncrypted: !!ins.groupNumber,
+          subscriberName: ins.subscriberName,
+          subscriberId: ins.subscriberId,
+          relationship: ins.relationship,
+          effectiveDate: ins.effectiveDate,
+          expirationDate: ins.expirationDate,
+          coverage: {
+            deductible: ins.deductible || '',
+            deductibleMet: ins.deductibleMet || '',
+            maxBenefit: ins.maxBenefit || '',
+            preventiveCoverage: ins.preventiveCoverage || '',
+            basicCoverage: ins.basicCoverage || '',
+            majorCoverage: ins.majorCoverage || ''
+          }
+        }));
+
+        // Transform patient from DB format to client format
+        // DB: { givenName, familyName } → Client: { name: { given: string[], family: string } }
+        const givenNames = patient.givenName ? patient.givenName.split(' ') : [];
+
+        // Mask sensitive data (HIPAA-compliant) - don't send decrypted data
+        // Mask telecom data (phone, email)
+        const maskedTelecoms = telecoms.map(t => ({
+          system: t.system,
+          value: t.system === 'phone' ? '(***) ***-****' : t.system === 'email' ? '****@****.***' : t.value,
+          encrypted: t.system === 'phone' || t.system === 'email' // Mark as encrypted for UI
+        }));
+
+        return {
+          id: patient.id,
+          active: patient.active,
+          name: {
+            given: givenNames,
+            family: patient.familyName
+          },
+          gender: patient.gender,
+          birthDate: patient.birthDate ? '****-**-**' : null, // Masked (HIPAA)
+          birthDateEncrypted: !!patient.birthDate,
+          ssn: patient.ssn ? '***-**-****' : null, // Masked (HIPAA)
+          ssnEncrypted: !!patient.ssn,
+          telecom: maskedTelecoms,
+          address: transformedAddresses,
+          insurance: transformedInsurances,
+          appointments,
+          treatments,
+          coverage: coverageDetail ? {
+            annual_maximum: coverageDetail.annualMaximum ? parseFloat(coverageDetail.annualMaximum) : 0,
+            annual_used: coverageDetail.annualUsed ? parseFloat(coverageDetail.annualUsed) : 0,
+            deductible: coverageDetail.deductible ? parseFloat(coverageDetail.deductible) : 0,
+            deductible_met: coverageDetail.deductibleMet ? parseFloat(coverageDetail.deductibleMet) : 0,
+            procedures: procedures.map(p => ({
+              code: p.code,
+              name: p.name,
+              category: p.category,
+              coverage: p.coverage || '',
+              estimated_cost: p.estimatedCost || '',
+              patient_pays: p.patientPays || ''
+            }))
+          } : undefined,
+          verificationStatus
+        };
+      }));
+
+      await recordAudit(req, patients.map(patient => ({ action: 'read' as const, resource: 'patient' as const, patientId: patient.id })));
+      res.json({ success: true, patients: patientsWithData });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch patients" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/patients:
+   *   post:
+   *     tags:
+   *       - Patients
+   *     summary: Create a new patient
+   *     description: Create a new patient record with optional telecoms, addresses, insurance, appointments, and treatments
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - patient
+   *             properties:
+   *               patient:
+   *                 type: object
+   *                 properties:
+   *                   active:
+   *                     type: boolean
+   *                     example: true
+   *                   name:
+   *                     type: object
+   *                     properties:
+   *                       given:
+   *                         type: array
+   *                         items:
+   *                           type: string
+   *                         example: ["John", "Michael"]
+   *                       family:
+   *                         type: string
+   *                         example: "Doe"
+   *                   gender:
+   *                     type: string
+   *                     enum: [male, female, other]
+   *                     example: male
+   *                   birthDate:
+   *                     type: string
+   *                     format: date
+   *                     example: "1990-05-15"
+   *                   ssn:
+   *                     type: string
+   *                     example: "123-45-6789"
+   *               telecoms:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     system:
+   *                       type: string
+   *                       enum: [phone, email]
+   *                     value:
+   *                       type: string
+   *               addresses:
+   *                 type: array
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     line:
+   *                       type: array
+   *                       items:
+   *                         type: string
+   *                     city:
+   *                       type: string
+   *                     state:
+   *                       type: string
+   *                     postalCode:
+   *                       type: string
+   *               insurances:
+   *                 type: array
+   *                 items:
+   *                   $ref: '#/components/schemas/Insurance'
+   *     responses:
+   *       200:
+   *         description: Patient created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 patient:
+   *                   type: object
+   *       400:
+   *         description: Patient data is required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Authentication required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/patients", requireAuth, requirePermission("patient:write"), async (req, res) => {
+    try {
+      const userId = (req.session as any)?.userId;
+      const practiceId = (req.session as any)?.practiceId;
+      const { patient, telecoms, addresses, insurances, appointments, treatments, verificationStatus } = req.body;
+
+      if (!patient) {
+        return res.status(400).json({ error: "Patient data is required" });
+      }
+      if (!practiceId) {
+        return res.status(403).json({ error: "No practice selected" });
+      }
+
+      // Auto-generate patient ID in format P0000001
+      const patientId = await generateNextPatientId();
+
+      // Encrypt sensitive data (HIPAA-compliant) before storing
+      const encryptedBirthDate = patient.birthDate ? encrypt(patient.birthDate) : null;
+      const encryptedSSN = patient.ssn ? encrypt(patient.ssn) : null;
+
+      // Transform patient from client format to DB format
+      // Client: { name: { given: string[], family: string } } → DB: { givenName, familyName }
+      const newPatient = await storage.createPatient({
+        id: patientId,
+        userId,
+        practiceId,
+        active: patient.active,
+        givenName: patient.name?.given?.join(' ') || patient.givenName || '',
+        familyName: patient.name?.family || patient.familyName || '',
+        gender: patient.gender,
+        birthDate: encryptedBirthDate,
+        ssn: encryptedSSN
+      });
+
+      // Create related data
+      if (telecoms && Array.isArray(telecoms)) {
+        await Promise.all(telecoms.map(t => storage.createPatientTelecom({ ...t, patientId: newPatient.id })));
+      }
+
+      if (addresses && Array.isArray(addresses)) {
+        // Transform addresses from client format (line: string[]) to DB format (line1, line2)
+        await Promise.all(addresses.map(a => storage.createPatientAddress({
+          patientId: newPatient.id,
+          line1: a.line?.[0] || null,
+          line2: a.line?.[1] || null,
+          city: a.city,
+          state: a.state,
+          postalCode: a.postalCode
+        })));
+      }
+
+      if (insurances && Array.isArray(insurances)) {
+        // Transform insurances from client format (nested coverage) to DB format (flat fields)
+        // Encrypt HIPAA-sensitive fields (policyNumber, groupNumber)
+        await Promise.all(insurances.map(i => storage.createInsurance({
+          patientId: newPatient.id,
+          type: i.type,
+          provider: i.provider,
+          policyNumber: i.policyNumber ? encrypt(i.policyNumber) : null,
+          groupNumber: i.groupNumber ? encrypt(i.groupNumber) : null,
+          subscriberName: i.subscriberName,
+          subscriberId: i.subscriberId,
+          relationship: i.relationship,
+          effectiveDate: i.effectiveDate,
+          expirationDate: i.expirationDate,
+          deductible: i.coverage?.deductible || null,
+          deductibleMet: i.coverage?.deductibleMet || null,
+          maxBenefit: i.coverage?.maxBenefit || null,
+          preventiveCoverage: i.coverage?.preventiveCoverage || null,
+          basicCoverage: i.coverage?.basicCoverage || null,
+          majorCoverage: i.coverage?.majorCoverage || null
+        })));
+      }
+
+      if (appointments && Array.isArray(appointments)) {
+        await Promise.all(appointments.map(a => storage.createAppointment({ ...a, patientId: newPatient.id })));
+      }
+
+      if (treatments && Array.isArray(treatments)) {
+        await Promise.all(treatments.map(t => storage.createTreatment({ ...t, patientId: newPatient.id })));
+      }
+
+      if (verificationStatus) {
+        await storage.createVerificationStatus({ ...verificationStatus, patientId: newPatient.id });
+      }
+
+      // Create a 'Waiting' API transaction for the new patient
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+      const apiRequestId = `REQ-${timestamp}-API`;
+      const patientFullName = `${patient.name?.given?.join(' ') || ''} ${patient.name?.family || ''}`.trim();
+
+      const waitingApiTransaction = {
+        requestId: apiRequestId,
+        patientId: newPatient.id,
+        patientName: patientFullName || 'Unknown Patient',
+        type: 'API',
+        method: 'POST /api/benefits/query',
+        startTime: '', // Empty - waiting to start
+        status: 'Waiting',
+        insuranceProvider: insurances && insurances.length > 0 ? insurances[0].provider : '-',
+        fetchStatus: 'pending',
+        saveStatus: 'pending'
+      };
+
+      const [waitingTransaction] = await db.insert(transactions).values(waitingApiTransaction).returning();
+      publishTransaction(waitingTransaction.id, 'created');
+
+      res.json({ success: true, patient: newPatient });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create patient" });
+    }
+  });
+
+  // Fetch PMS - Create sample patients with upcoming appointments
+  app.post("/api/patients/fetch-pms", requireAuth, requirePermission("patient:write"), async (req, res) => {
+    try {
+      const userId = (req.session as any)?.userId;
+      const practiceId = (req.session as any)?.practiceId;
+      if (!practiceId) {
+        return res.status(403).json({ error: "No practice selected" });
+      }
+
+      // Sample patient data
+      const samplePatients = [
+        {
+          patient: {
+            name: { given: ['Emily'], family: 'Rodriguez' },
+            gender: 'female',
+            birthDate: '1990-03-15',
+            ssn: '123-45-6789',
+            active: true
+          },
+          telecoms: [
+            { system: 'phone', value: '(555) 234-5678' },
+            { system: 'email', value: 'emily.rodriguez@email.com' }
+          ],
+          addresses: [
+            {
+              line: ['456 Oak Avenue', 'Apt 12'],
+              city: 'San Francisco',
+              state: 'CA',
+              postalCode: '94102'
+            }
+          ],
+          insurances: [
+            {
+              type: 'Dental',
+              provider: 'Delta Dental',
+              policyNumber: 'DD123456789',
+              groupNumber: 'GRP001',
+              subscriberName: 'Emily Rodriguez',
+              subscriberId: 'ER123456',
+              relationship: 'Self',
+              effectiveDate: '2024-01-01',
+              expirationDate: '2024-12-31',
+              coverage: {
+                deductible: '50.00',
+                deductibleMet: '0.00',
+                maxBenefit: '2000.00',
+                preventiveCoverage: '100',
+                basicCoverage: '80',
+                majorCoverage: '50'
+              }
+            }
           ],
           appointmentTypes: ['Routine Cleaning', 'Dental Exam']
         },
@@ -945,451 +2578,3893 @@ export async function registerRoutes(
             ssn: '987-65-4321',
             active: true
           },
-          telecoms: [
-            { system: 'phone', value: '(555) 876-5432' },
-            { system: 'email', value: 'michael.chen@email.com' }
-          ],
-          addresses: [
-            {
-              line: ['789 Pine Street'],
-              city: 'Los Angeles',
-              state: 'CA',
-              postalCode: '90001'
+          telecoms: [
+            { system: 'phone', value: '(555) 876-5432' },
+            { system: 'email', value: 'michael.chen@email.com' }
+          ],
+          addresses: [
+            {
+              line: ['789 Pine Street'],
+              city: 'Los Angeles',
+              state: 'CA',
+              postalCode: '90001'
+            }
+          ],
+          insurances: [
+            {
+              type: 'Dental',
+              provider: 'MetLife',
+              policyNumber: 'ML987654321',
+              groupNumber: 'GRP002',
+              subscriberName: 'Michael Chen',
+              subscriberId: 'MC987654',
+              relationship: 'Self',
+              effectiveDate: '2024-01-01',
+              expirationDate: '2024-12-31',
+              coverage: {
+                deductible: '100.00',
+                deductibleMet: '50.00',
+                maxBenefit: '1500.00',
+                preventiveCoverage: '100',
+                basicCoverage: '70',
+                majorCoverage: '50'
+              }
+            }
+          ],
+          appointmentTypes: ['Filling', 'X-Ray']
+        },
+        {
+          patient: {
+            name: { given: ['Sarah'], family: 'Thompson' },
+            gender: 'female',
+            birthDate: '1995-11-08',
+            ssn: '456-78-9012',
+            active: true
+          },
+          telecoms: [
+            { system: 'phone', value: '(555) 345-6789' },
+            { system: 'email', value: 'sarah.thompson@email.com' }
+          ],
+          addresses: [
+            {
+              line: ['321 Maple Drive'],
+              city: 'San Diego',
+              state: 'CA',
+              postalCode: '92101'
+            }
+          ],
+          insurances: [
+            {
+              type: 'Dental',
+              provider: 'Cigna',
+              policyNumber: 'CG456789012',
+              groupNumber: 'GRP003',
+              subscriberName: 'Sarah Thompson',
+              subscriberId: 'ST456789',
+              relationship: 'Self',
+              effectiveDate: '2024-01-01',
+              expirationDate: '2024-12-31',
+              coverage: {
+                deductible: '75.00',
+                deductibleMet: '25.00',
+                maxBenefit: '1800.00',
+                preventiveCoverage: '100',
+                basicCoverage: '80',
+                majorCoverage: '60'
+              }
+            }
+          ],
+          appointmentTypes: ['Consultation', 'Root Canal']
+        }
+      ];
+
+      const createdPatients = [];
+
+      // Create each sample patient
+      for (const sampleData of samplePatients) {
+        const patientId = await generateNextPatientId();
+
+        // Encrypt sensitive data
+        const encryptedBirthDate = encrypt(sampleData.patient.birthDate);
+        const encryptedSSN = encrypt(sampleData.patient.ssn);
+
+        // Create patient
+        const newPatient = await storage.createPatient({
+          id: patientId,
+          userId,
+          practiceId,
+          active: sampleData.patient.active,
+          givenName: sampleData.patient.name.given.join(' '),
+          familyName: sampleData.patient.name.family,
+          gender: sampleData.patient.gender,
+          birthDate: encryptedBirthDate,
+          ssn: encryptedSSN
+        });
+
+        // Create telecoms
+        await Promise.all(sampleData.telecoms.map(t =>
+          storage.createPatientTelecom({ ...t, patientId: newPatient.id })
+        ));
+
+        // Create addresses
+        await Promise.all(sampleData.addresses.map(a =>
+          storage.createPatientAddress({
+            patientId: newPatient.id,
+            line1: a.line[0] || null,
+            line2: a.line[1] || null,
+            city: a.city,
+            state: a.state,
+            postalCode: a.postalCode
+          })
+        ));
+
+        // Create insurances
+        await Promise.all(sampleData.insurances.map(i =>
+          storage.createInsurance({
+            patientId: newPatient.id,
+            type: i.type,
+            provider: i.provider,
+            policyNumber: encrypt(i.policyNumber),
+            groupNumber: encrypt(i.groupNumber),
+            subscriberName: i.subscriberName,
+            subscriberId: i.subscriberId,
+            relationship: i.relationship,
+            effectiveDate: i.effectiveDate,
+            expirationDate: i.expirationDate,
+            deductible: i.coverage.deductible,
+            deductibleMet: i.coverage.deductibleMet,
+            maxBenefit: i.coverage.maxBenefit,
+            preventiveCoverage: i.coverage.preventiveCoverage,
+            basicCoverage: i.coverage.basicCoverage,
+            majorCoverage: i.coverage.majorCoverage
+          })
+        ));
+
+        // Create 1 upcoming appointment on Tuesday after 1 week
+        const today = new Date();
+        const oneWeekLater = new Date(today);
+        oneWeekLater.setDate(today.getDate() + 7);
+
+        // Find the next Tuesday after 1 week
+        // 0 = Sunday, 1 = Monday, 2 = Tuesday, etc.
+        const dayOfWeek = oneWeekLater.getDay();
+        const daysUntilTuesday = dayOfWeek <= 2 ? (2 - dayOfWeek) : (9 - dayOfWeek);
+        const nextTuesday = new Date(oneWeekLater);
+        nextTuesday.setDate(oneWeekLater.getDate() + daysUntilTuesday);
+
+        const appointment = {
+          patientId: newPatient.id,
+          date: nextTuesday.toISOString().split('T')[0],
+          time: '09:00',
+          type: sampleData.appointmentTypes[0],
+          status: 'scheduled',
+          provider: 'Dr. Smith'
+        };
+
+        await storage.createAppointment(appointment);
+
+        // Create verification status
+        await storage.createVerificationStatus({
+          patientId: newPatient.id,
+          fetchPMS: 'pending',
+          documentAnalysis: 'pending',
+          apiVerification: 'pending',
+          callCenter: 'pending',
+          saveToPMS: 'pending'
+        });
+
+        // Create a 'Waiting' API transaction
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+        const apiRequestId = `REQ-${timestamp}-${patientId}-API`;
+        const patientFullName = `${sampleData.patient.name.given.join(' ')} ${sampleData.patient.name.family}`;
+
+        const [waitingTransaction] = await db.insert(transactions).values({
+          requestId: apiRequestId,
+          patientId: newPatient.id,
+          patientName: patientFullName,
+          type: 'API',
+          method: 'POST /api/benefits/query',
+          startTime: '',
+          status: 'Waiting',
+          insuranceProvider: sampleData.insurances[0].provider,
+          fetchStatus: 'pending',
+          saveStatus: 'pending'
+        }).returning();
+        publishTransaction(waitingTransaction.id, 'created');
+
+        createdPatients.push(newPatient);
+      }
+
+      res.json({
+        success: true,
+        patientsCreated: createdPatients.length,
+        patients: createdPatients
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch PMS data" });
+    }
+  });
+
+  // Update patient
+  app.put("/api/patients/:id", requireAuth, requirePermission("patient:write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const practiceId = (req.session as any)?.practiceId;
+      const updates = req.body;
+
+      // Verify patient exists and belongs to current practice
+      const existingPatient = await storage.getPatientById(id);
+      if (!existingPatient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (existingPatient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Prepare updates with encryption for sensitive fields
+      const patientUpdates: any = {};
+
+      // Transform name from client format to DB format if provided
+      if (updates.name) {
+        if (updates.name.given) {
+          patientUpdates.givenName = updates.name.given.filter(Boolean).join(' ');
+        }
+        if (updates.name.family) {
+          patientUpdates.familyName = updates.name.family;
+        }
+      }
+
+      // Handle other fields
+      if (updates.gender !== undefined) patientUpdates.gender = updates.gender;
+      if (updates.active !== undefined) patientUpdates.active = updates.active;
+
+      // Encrypt sensitive fields
+      if (updates.birthDate) {
+        patientUpdates.birthDate = encrypt(updates.birthDate);
+      }
+      if (updates.ssn) {
+        // Prevent re-encrypting the mask
+        if (updates.ssn !== 'XXX-XX-XXXX' && updates.ssn !== '***-**-****') {
+          patientUpdates.ssn = encrypt(updates.ssn);
+        }
+      }
+
+      // Update patient in database
+      const updatedPatient = await storage.updatePatient(id, patientUpdates);
+
+      if (!updatedPatient) {
+        return res.status(500).json({ error: "Failed to update patient" });
+      }
+
+      // Handle insurance updates if provided
+      if (updates.insurance && Array.isArray(updates.insurance)) {
+        // Get existing insurances for this patient
+        const existingInsurances = await storage.getPatientInsurances(id);
+
+        // Update or create insurance records
+        for (const insuranceData of updates.insurance) {
+          // Find matching existing insurance by type (Primary/Secondary)
+          const existingInsurance = existingInsurances.find(i => i.type === insuranceData.type);
+
+          if (existingInsurance) {
+            // Update existing insurance
+            await storage.updateInsurance(existingInsurance.id, {
+              provider: insuranceData.provider,
+              policyNumber: insuranceData.policyNumber === '************'
+                ? existingInsurance.policyNumber // Keep existing encrypted value
+                : (insuranceData.policyNumber ? encrypt(insuranceData.policyNumber) : null),
+              groupNumber: insuranceData.groupNumber === '********'
+                ? existingInsurance.groupNumber // Keep existing encrypted value
+                : (insuranceData.groupNumber ? encrypt(insuranceData.groupNumber) : null),
+              subscriberName: insuranceData.subscriberName,
+              subscriberId: insuranceData.subscriberId,
+              relationship: insuranceData.relationship,
+              effectiveDate: insuranceData.effectiveDate,
+              expirationDate: insuranceData.expirationDate,
+              deductible: insuranceData.coverage?.deductible || null,
+              deductibleMet: insuranceData.coverage?.deductibleMet || null,
+              maxBenefit: insuranceData.coverage?.maxBenefit || null,
+              preventiveCoverage: insuranceData.coverage?.preventiveCoverage || null,
+              basicCoverage: insuranceData.coverage?.basicCoverage || null,
+              majorCoverage: insuranceData.coverage?.majorCoverage || null
+            });
+          } else {
+            // Create new insurance
+            await storage.createInsurance({
+              patientId: id,
+              type: insuranceData.type,
+              provider: insuranceData.provider,
+              policyNumber: insuranceData.policyNumber ? encrypt(insuranceData.policyNumber) : null,
+              groupNumber: insuranceData.groupNumber ? encrypt(insuranceData.groupNumber) : null,
+              subscriberName: insuranceData.subscriberName,
+              subscriberId: insuranceData.subscriberId,
+              relationship: insuranceData.relationship,
+              effectiveDate: insuranceData.effectiveDate,
+              expirationDate: insuranceData.expirationDate,
+              deductible: insuranceData.coverage?.deductible || null,
+              deductibleMet: insuranceData.coverage?.deductibleMet || null,
+              maxBenefit: insuranceData.coverage?.maxBenefit || null,
+              preventiveCoverage: insuranceData.coverage?.preventiveCoverage || null,
+              basicCoverage: insuranceData.coverage?.basicCoverage || null,
+              majorCoverage: insuranceData.coverage?.majorCoverage || null
+            });
+          }
+        }
+      }
+
+      res.json({ success: true, patient: updatedPatient });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update patient" });
+    }
+  });
+
+  app.get("/api/patients/:id", requireAuth, requirePermission("patient:read"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const practiceId = (req.session as any)?.practiceId;
+      const patient = await storage.getPatientById(id);
+
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Get all related data
+      const [telecoms, addresses, insurances, appointments, treatments, verificationStatus, coverageDetail] = await Promise.all([
+        storage.getPatientTelecoms(patient.id),
+        storage.getPatientAddresses(patient.id),
+        storage.getPatientInsurances(patient.id),
+        storage.getPatientAppointments(patient.id),
+        storage.getPatientTreatments(patient.id),
+        storage.getPatientVerificationStatus(patient.id),
+        storage.getCoverageDetailByPatientId(patient.id)
+      ]);
+
+      let procedures: any[] = [];
+      if (coverageDetail) {
+        procedures = await storage.getProceduresByCoverageId(coverageDetail.id);
+      }
+
+      // Transform addresses from DB format (line1, line2) to client format (line: string[])
+      const transformedAddresses = addresses.map(addr => ({
+        line: [addr.line1, addr.line2].filter(Boolean) as string[],
+        city: addr.city,
+        state: addr.state,
+        postalCode: addr.postalCode
+      }));
+
+      // Transform insurances from DB format to client format
+      // DB: flat fields → Client: nested coverage object
+      // Mask sensitive fields (HIPAA-compliant)
+      const transformedInsurances = insurances.map(ins => ({
+        id: ins.id, // Include insurance ID for decryption
+        type: ins.type,
+        provider: ins.provider,
+        policyNumber: ins.policyNumber ? '************' : null, // Masked (HIPAA)
+        policyNumberEncrypted: !!ins.policyNumber,
+        groupNumber: ins.groupNumber ? '********' : null, // Masked (HIPAA)
+        groupNumberEncrypted: !!ins.groupNumber,
+        subscriberName: ins.subscriberName,
+        subscriberId: ins.subscriberId,
+        relationship: ins.relationship,
+        effectiveDate: ins.effectiveDate,
+        expirationDate: ins.expirationDate,
+        coverage: {
+          deductible: ins.deductible || '',
+          deductibleMet: ins.deductibleMet || '',
+          maxBenefit: ins.maxBenefit || '',
+          preventiveCoverage: ins.preventiveCoverage || '',
+          basicCoverage: ins.basicCoverage || '',
+          majorCoverage: ins.majorCoverage || ''
+        }
+      }));
+
+      // Transform patient from DB format to client format
+      // DB: { givenName, familyName } → Client: { name: { given: string[], family: string } }
+      const givenNames = patient.givenName ? patient.givenName.split(' ') : [];
+
+      // Mask sensitive data (HIPAA-compliant)
+      // Mask telecom data (phone, email)
+      const maskedTelecoms = telecoms.map(t => ({
+        system: t.system,
+        value: t.system === 'phone' ? '(***) ***-****' : t.system === 'email' ? '****@****.***' : t.value,
+        encrypted: t.system === 'phone' || t.system === 'email' // Mark as encrypted for UI
+      }));
+
+      await recordAudit(req, { action: 'read', resource: 'patient', patientId: id });
+      res.json({
+        success: true,
+        patient: {
+          id: patient.id,
+          active: patient.active,
+          name: {
+            given: givenNames,
+            family: patient.familyName
+          },
+          gender: patient.gender,
+          birthDate: patient.birthDate ? '****-**-**' : null, // Masked (HIPAA)
+          birthDateEncrypted: !!patient.birthDate,
+          ssn: patient.ssn ? '***-**-****' : null, // Masked (HIPAA)
+          ssnEncrypted: !!patient.ssn,
+          telecom: maskedTelecoms,
+          address: transformedAddresses,
+          insurance: transformedInsurances,
+          appointments,
+          treatments,
+
+          coverage: coverageDetail ? {
+            annual_maximum: coverageDetail.annualMaximum ? parseFloat(coverageDetail.annualMaximum) : 0,
+            annual_used: coverageDetail.annualUsed ? parseFloat(coverageDetail.annualUsed) : 0,
+            deductible: coverageDetail.deductible ? parseFloat(coverageDetail.deductible) : 0,
+            deductible_met: coverageDetail.deductibleMet ? parseFloat(coverageDetail.deductibleMet) : 0,
+            procedures: procedures.map(p => ({
+              code: p.code,
+              name: p.name,
+              category: p.category,
+              coverage: p.coverage || '',
+              estimated_cost: p.estimatedCost || '',
+              patient_pays: p.patientPays || ''
+            }))
+          } : undefined,
+          verificationStatus
+        }
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch patient" });
+    }
+  });
+
+  // Decrypt sensitive patient data endpoint (HIPAA-compliant)
+  /**
+   * @openapi
+   * /api/patients/{id}/decrypt:
+   *   post:
+   *     tags:
+   *       - Patients
+   *     summary: Decrypt sensitive patient data
+   *     description: Decrypt HIPAA-protected patient fields (birthDate, phone, email, ssn) - requires authentication and ownership verification
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - field
+   *             properties:
+   *               field:
+   *                 type: string
+   *                 enum: [birthDate, phone, email, ssn]
+   *                 example: birthDate
+   *     responses:
+   *       200:
+   *         description: Field decrypted successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 field:
+   *                   type: string
+   *                 value:
+   *                   type: string
+   *       400:
+   *         description: Invalid field specified
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Patient not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/patients/:id/decrypt", requireAuth, requirePermission("patient:decrypt"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { field } = req.body;
+
+      // List of allowed sensitive fields
+      const allowedFields = ['birthDate', 'phone', 'email', 'ssn'];
+
+      if (!field || !allowedFields.includes(field)) {
+        return res.status(400).json({ error: "Invalid field specified" });
+      }
+
+      if (field === 'ssn' && !hasPermission((req.session as any)?.userRole, "patient:decrypt-ssn")) {
+        return res.status(403).json({ error: "Missing permission: patient:decrypt-ssn" });
+      }
+
+      const patient = await storage.getPatientById(id);
+
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+
+      // Verify patient belongs to current practice
+      const practiceId = (req.session as any)?.practiceId;
+      if (patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Decrypt the requested field
+      let decryptedValue = null;
+
+      try {
+        switch (field) {
+          case 'birthDate':
+            if (patient.birthDate) {
+              decryptedValue = decrypt(patient.birthDate);
             }
-          ],
-          insurances: [
-            {
-              type: 'Dental',
-              provider: 'MetLife',
-              policyNumber: 'ML987654321',
-              groupNumber: 'GRP002',
-              subscriberName: 'Michael Chen',
-              subscriberId: 'MC987654',
-              relationship: 'Self',
-              effectiveDate: '2024-01-01',
-              expirationDate: '2024-12-31',
-              coverage: {
-                deductible: '100.00',
-                deductibleMet: '50.00',
-                maxBenefit: '1500.00',
-                preventiveCoverage: '100',
-                basicCoverage: '70',
-                majorCoverage: '50'
-              }
+            break;
+
+          case 'phone':
+          case 'email':
+            // Fetch telecoms to get phone/email
+            const telecoms = await storage.getPatientTelecoms(patient.id);
+            const telecom = telecoms.find(t => t.system === field);
+            if (telecom?.value) {
+              // For now, telecoms are not encrypted, but we can encrypt them in the future
+              // If they were encrypted, we would decrypt here
+              decryptedValue = telecom.value;
             }
-          ],
-          appointmentTypes: ['Filling', 'X-Ray']
-        },
-        {
-          patient: {
-            name: { given: ['Sarah'], family: 'Thompson' },
-            gender: 'female',
-            birthDate: '1995-11-08',
-            ssn: '456-78-9012',
-            active: true
-          },
-          telecoms: [
-            { system: 'phone', value: '(555) 345-6789' },
-            { system: 'email', value: 'sarah.thompson@email.com' }
-          ],
-          addresses: [
-            {
-              line: ['321 Maple Drive'],
-              city: 'San Diego',
-              state: 'CA',
-              postalCode: '92101'
+            break;
+
+          case 'ssn':
+            // Decrypt SSN (HIPAA-sensitive)
+            if (patient.ssn) {
+              decryptedValue = decrypt(patient.ssn);
             }
-          ],
-          insurances: [
-            {
-              type: 'Dental',
-              provider: 'Cigna',
-              policyNumber: 'CG456789012',
-              groupNumber: 'GRP003',
-              subscriberName: 'Sarah Thompson',
-              subscriberId: 'ST456789',
-              relationship: 'Self',
-              effectiveDate: '2024-01-01',
-              expirationDate: '2024-12-31',
-              coverage: {
-                deductible: '75.00',
-                deductibleMet: '25.00',
-                maxBenefit: '1800.00',
-                preventiveCoverage: '100',
-                basicCoverage: '80',
-                majorCoverage: '60'
-              }
+            break;
+
+          default:
+            return res.status(400).json({ error: "Field not supported" });
+        }
+      } catch (error) {
+        return res.status(500).json({ error: "Failed to decrypt data" });
+      }
+
+      await recordAudit(req, { action: 'decrypt', resource: 'patient', patientId: id, field });
+      res.json({
+        success: true,
+        field,
+        value: decryptedValue
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to decrypt patient data" });
+    }
+  });
+
+  // Decrypt sensitive insurance data endpoint (HIPAA-compliant)
+  app.post("/api/patients/:id/insurance/:insuranceId/decrypt", requireAuth, requirePermission("patient:decrypt"), async (req, res) => {
+    try {
+      const { id, insuranceId } = req.params;
+      const { field } = req.body;
+
+      // List of allowed sensitive insurance fields
+      const allowedFields = ['policyNumber', 'groupNumber'];
+
+      if (!field || !allowedFields.includes(field)) {
+        return res.status(400).json({ error: "Invalid field specified" });
+      }
+
+      const patient = await storage.getPatientById(id);
+
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+
+      // Verify patient belongs to current practice
+      const practiceId = (req.session as any)?.practiceId;
+      if (patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Get insurance record
+      const insurances = await storage.getPatientInsurances(id);
+      const insurance = insurances.find(ins => ins.id === insuranceId);
+
+      if (!insurance) {
+        return res.status(404).json({ error: "Insurance not found" });
+      }
+
+      // Decrypt the requested field
+      let decryptedValue = null;
+
+      try {
+        switch (field) {
+          case 'policyNumber':
+            if (insurance.policyNumber) {
+              decryptedValue = decrypt(insurance.policyNumber);
             }
-          ],
-          appointmentTypes: ['Consultation', 'Root Canal']
+            break;
+
+          case 'groupNumber':
+            if (insurance.groupNumber) {
+              decryptedValue = decrypt(insurance.groupNumber);
+            }
+            break;
+
+          default:
+            return res.status(400).json({ error: "Field not supported" });
+        }
+      } catch (error) {
+        return res.status(500).json({ error: "Failed to decrypt data" });
+      }
+
+      await recordAudit(req, { action: 'decrypt', resource: 'insurance', patientId: id, resourceId: insuranceId, field });
+      res.json({
+        success: true,
+        field,
+        value: decryptedValue
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to decrypt insurance data" });
+    }
+  });
+
+  // OCR endpoint for insurance card scanning
+  /**
+   * @openapi
+   * /api/patients/{id}/insurance-card-ocr:
+   *   post:
+   *     tags:
+   *       - Patients
+   *     summary: OCR scan insurance card
+   *     description: Upload and process the front (and optionally the back) of an insurance card using OCR to extract patient and insurance information. Each field reports the Tesseract confidence of the words it was read from and a bounding box on the processed card image. Nothing is written to the patient or their insurance; the result is stored as a pending extraction to review and confirm.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - insuranceCardImage
+   *             properties:
+   *               insuranceCardImage:
+   *                 type: string
+   *                 format: binary
+   *                 description: Front of the insurance card (JPEG or PNG, max 10MB)
+   *               insuranceCardBackImage:
+   *                 type: string
+   *                 format: binary
+   *                 description: Back of the insurance card (JPEG or PNG, max 10MB)
+   *     responses:
+   *       200:
+   *         description: Insurance card processed successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 extraction:
+   *                   $ref: '#/components/schemas/OcrExtraction'
+   *                 extractedData:
+   *                   type: object
+   *                   properties:
+   *                     firstName:
+   *                       type: string
+   *                     lastName:
+   *                       type: string
+   *                     middleName:
+   *                       type: string
+   *                     provider:
+   *                       type: string
+   *                     policyNumber:
+   *                       type: string
+   *                     groupNumber:
+   *                       type: string
+   *                     subscriberId:
+   *                       type: string
+   *                 confidence:
+   *                   type: object
+   *                   properties:
+   *                     overall:
+   *                       type: number
+   *                     fields:
+   *                       type: object
+   *                       additionalProperties:
+   *                         type: number
+   *                   description: OCR confidence scores (0-100), per field from the lowest word confidence
+   *                 boxes:
+   *                   type: object
+   *                   description: Where each field (name, provider, policyNumber, groupNumber, subscriberId) was read
+   *                   additionalProperties:
+   *                     $ref: '#/components/schemas/OcrFieldBox'
+   *                 images:
+   *                   type: object
+   *                   description: Processed front and back images (data URLs) the boxes refer to
+   *                   properties:
+   *                     front:
+   *                       type: string
+   *                     back:
+   *                       type: string
+   *                 template:
+   *                   type: string
+   *                   description: Payer card layout used for extraction
+   *                 documents:
+   *                   type: array
+   *                   description: The stored card images; a new version when the patient already has one for that side
+   *                   items:
+   *                     $ref: '#/components/schemas/PatientDocument'
+   *       400:
+   *         description: Insurance card image is required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: OCR processing failed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/patients/:id/insurance-card-ocr",
+    requireAuth,
+    requirePermission("ocr:scan"),
+    upload.fields([
+      { name: 'insuranceCardImage', maxCount: 1 },
+      { name: 'insuranceCardBackImage', maxCount: 1 }
+    ]),
+    async (req, res) => {
+      try {
+        const { id } = req.params;
+        const practiceId = (req.session as any)?.practiceId;
+
+        // Verify ownership
+        const patient = await storage.getPatientById(id);
+        if (!patient || patient.practiceId !== practiceId) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+
+        const files = req.files as { [field: string]: Express.Multer.File[] } | undefined;
+        const front = files?.insuranceCardImage?.[0];
+        const back = files?.insuranceCardBackImage?.[0];
+        if (!front) {
+          return res.status(400).json({ error: "Insurance card image is required" });
+        }
+
+        await recordAudit(req, { action: 'ocr', resource: 'insurance', patientId: id });
+
+
+        // Process OCR
+        const result = await processInsuranceCard(
+          { front: front.buffer, back: back?.buffer },
+          async (text) => (await findPayerInText(text))?.name
+        );
+
+        // Held for review; staff confirm the fields before anything reaches the patient record
+        const userId = (req.session as any)?.userId;
+        const extraction = await createOcrExtraction(patient, userId, result);
+        const { extractedData, confidence, boxes, images, template } = result;
+
+        // Keep the original card images with the patient's documents
+        const documents = [await storeInsuranceCardImage(patient, userId, 'front', front)];
+        if (back) {
+          documents.push(await storeInsuranceCardImage(patient, userId, 'back', back));
+        }
+
+        res.json({ success: true, extraction: await reviewOf(extraction), extractedData, confidence, boxes, images, template, documents });
+      } catch (error) {
+        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to process insurance card' });
+      }
+    }
+  );
+
+  // Loads an OCR extraction in the session's practice; other practices' extractions read as not found
+  const findOcrExtraction = async (req: any) => {
+    const extraction = await storage.getOcrExtraction(req.params.id);
+    return extraction && extraction.practiceId === (req.session as any)?.practiceId ? extraction : undefined;
+  };
+
+  /**
+   * @openapi
+   * /api/patients/{id}/ocr-extractions:
+   *   get:
+   *     tags:
+   *       - Patients
+   *     summary: List a patient's insurance card OCR extractions
+   *     description: Newest first, each with a field-by-field comparison against the patient's current data. Defaults to extractions still waiting for review.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [pending, confirmed, rejected, all]
+   *           default: pending
+   *     responses:
+   *       200:
+   *         description: Extractions
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 extractions:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/OcrExtraction'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/patients/:id/ocr-extractions", requireAuth, requirePermission("ocr:scan"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const status = typeof req.query.status === "string" ? req.query.status : "pending";
+      const extractions = await storage.getPatientOcrExtractions(id, status === "all" ? undefined : status);
+      const reviews = await Promise.all(extractions.map(reviewOf));
+
+      await recordAudit(req, reviews.map(review => ({ action: 'read' as const, resource: 'ocr-extraction' as const, patientId: id, resourceId: review.id })));
+      res.json({ extractions: reviews });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch OCR extractions" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/ocr-extractions/{id}:
+   *   get:
+   *     tags:
+   *       - Patients
+   *     summary: Get an OCR extraction with its comparison to current data
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Extraction
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/OcrExtraction'
+   *       404:
+   *         description: Extraction not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *   patch:
+   *     tags:
+   *       - Patients
+   *     summary: Correct the values a pending extraction will apply
+   *     description: Fields not given keep their value. The values read from the card are kept alongside for comparison.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - values
+   *             properties:
+   *               values:
+   *                 type: object
+   *                 description: Field (givenName, familyName, provider, policyNumber, groupNumber, subscriberId, subscriberName) to corrected value
+   *                 additionalProperties:
+   *                   type: string
+   *     responses:
+   *       200:
+   *         description: Updated extraction
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/OcrExtraction'
+   *       400:
+   *         description: Unknown field or non-string value
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: The extraction has already been confirmed or rejected
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/ocr-extractions/:id", requireAuth, requirePermission("ocr:scan"), async (req, res) => {
+    try {
+      const extraction = await findOcrExtraction(req);
+      if (!extraction) {
+        return res.status(404).json({ error: "Extraction not found" });
+      }
+      const review = await reviewOf(extraction);
+      await recordAudit(req, { action: 'read', resource: 'ocr-extraction', patientId: extraction.patientId, resourceId: extraction.id });
+      res.json(review);
+    } catch (error) {
+      if (error instanceof OcrReviewError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch OCR extraction" });
+    }
+  });
+
+  app.patch("/api/ocr-extractions/:id", requireAuth, requirePermission("ocr:scan"), async (req, res) => {
+    try {
+      const extraction = await findOcrExtraction(req);
+      if (!extraction) {
+        return res.status(404).json({ error: "Extraction not found" });
+      }
+      const review = await reviewOf(await editOcrExtraction(extraction, req.body?.values));
+      await recordAudit(req, { action: 'read', resource: 'ocr-extraction', patientId: extraction.patientId, resourceId: extraction.id });
+      res.json(review);
+    } catch (error) {
+      if (error instanceof OcrReviewError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to update OCR extraction" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/ocr-extractions/{id}/confirm:
+   *   post:
+   *     tags:
+   *       - Patients
+   *     summary: Apply a pending extraction to the patient and their primary insurance (requires `patient:write`)
+   *     description: Writes the chosen fields' proposed values, creating the primary insurance if the patient has none. Empty values are never written.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               fields:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                 description: Fields to apply. Defaults to every field whose proposed value differs from the current one.
+   *     responses:
+   *       200:
+   *         description: Extraction confirmed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 appliedFields:
+   *                   type: array
+   *                   items:
+   *                     type: string
+   *       400:
+   *         description: Unknown field, or insurance fields without a provider for a patient with no primary insurance
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: The extraction has already been confirmed or rejected
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/ocr-extractions/:id/confirm", requireAuth, requirePermission("ocr:scan", "patient:write"), async (req, res) => {
+    try {
+      const extraction = await findOcrExtraction(req);
+      if (!extraction) {
+        return res.status(404).json({ error: "Extraction not found" });
+      }
+      const { applied } = await confirmOcrExtraction(extraction, (req.session as any)?.userId, req.body?.fields);
+      res.json({ success: true, appliedFields: applied });
+    } catch (error) {
+      if (error instanceof OcrReviewError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to confirm OCR extraction" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/ocr-extractions/{id}/reject:
+   *   post:
+   *     tags:
+   *       - Patients
+   *     summary: Discard a pending extraction without changing the patient
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Extraction rejected
+   *       409:
+   *         description: The extraction has already been confirmed or rejected
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/ocr-extractions/:id/reject", requireAuth, requirePermission("ocr:scan"), async (req, res) => {
+    try {
+      const extraction = await findOcrExtraction(req);
+      if (!extraction) {
+        return res.status(404).json({ error: "Extraction not found" });
+      }
+      await rejectOcrExtraction(extraction, (req.session as any)?.userId);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof OcrReviewError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to reject OCR extraction" });
+    }
+  });
+
+  // Loads a document in the session's practice; other practices' documents read as not found
+  const findDocument = async (req: any) => {
+    const document = await storage.getPatientDocument(req.params.id);
+    return document && document.practiceId === (req.session as any)?.practiceId ? document : undefined;
+  };
+
+  /**
+   * @openapi
+   * /api/patients/{id}/documents:
+   *   get:
+   *     tags:
+   *       - Documents
+   *     summary: List a patient's stored documents
+   *     description: Insurance card images, EOBs and faxed benefit sheets, most recently updated first, each with its versions
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     responses:
+   *       200:
+   *         description: Documents
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 documents:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/PatientDocument'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/patients/:id/documents", requireAuth, requirePermission("patient:read"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      res.json({ documents: await listPatientDocuments(id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch documents" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/patients/{id}/documents:
+   *   post:
+   *     tags:
+   *       - Documents
+   *     summary: Store a document for a patient
+   *     description: The file is encrypted at rest. PDF, JPEG and PNG are accepted, up to 20MB; images get a thumbnail.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *               - category
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *               category:
+   *                 type: string
+   *                 enum: [insurance-card-front, insurance-card-back, eob, benefit-fax, fax-request, verification-form, other]
+   *     responses:
+   *       201:
+   *         description: Document stored
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 document:
+   *                   $ref: '#/components/schemas/PatientDocument'
+   *       400:
+   *         description: Missing file, unsupported file type or unknown category
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/patients/:id/documents", requireAuth, requirePermission("patient:write"), documentUpload.single("file"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: "A file is required" });
+      }
+
+      const document = await createDocument(patient, (req.session as any)?.userId, req.body?.category, req.file);
+      res.status(201).json({ document });
+    } catch (error) {
+      if (error instanceof DocumentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to store document" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/documents/{id}/versions:
+   *   post:
+   *     tags:
+   *       - Documents
+   *     summary: Upload a new version of a document
+   *     description: Earlier versions are kept and can still be downloaded.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Document ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *     responses:
+   *       201:
+   *         description: Version stored
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 document:
+   *                   $ref: '#/components/schemas/PatientDocument'
+   *       400:
+   *         description: Missing file or unsupported file type
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Document not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/documents/:id/versions", requireAuth, requirePermission("patient:write"), documentUpload.single("file"), async (req, res) => {
+    try {
+      const document = await findDocument(req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: "A file is required" });
+      }
+
+      res.status(201).json({ document: await addDocumentVersion(document, (req.session as any)?.userId, req.file) });
+    } catch (error) {
+      if (error instanceof DocumentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to store document version" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/documents/{id}/content:
+   *   get:
+   *     tags:
+   *       - Documents
+   *     summary: Download a document
+   *     description: Decrypts and returns one version of the document, shown inline unless download is set
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Document ID
+   *       - in: query
+   *         name: version
+   *         schema:
+   *           type: integer
+   *         description: Version number; defaults to the current version
+   *       - in: query
+   *         name: download
+   *         schema:
+   *           type: boolean
+   *         description: Send as an attachment rather than inline
+   *     responses:
+   *       200:
+   *         description: File contents
+   *         content:
+   *           application/pdf: {}
+   *           image/jpeg: {}
+   *           image/png: {}
+   *       404:
+   *         description: Document or version not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/documents/:id/content", requireAuth, requirePermission("patient:read"), async (req, res) => {
+    try {
+      const document = await findDocument(req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const version = req.query.version ? parseInt(req.query.version as string) : undefined;
+      const download = req.query.download === "true";
+      const file = await readDocument(document, version);
+      await recordAudit(req, { action: download ? 'export' : 'read', resource: 'document', patientId: document.patientId, resourceId: document.id });
+
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Disposition", `${download ? "attachment" : "inline"}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+      res.setHeader("Cache-Control", "private, no-store");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(file.data);
+    } catch (error) {
+      if (error instanceof DocumentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to read document" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/documents/{id}/thumbnail:
+   *   get:
+   *     tags:
+   *       - Documents
+   *     summary: Thumbnail of an image document
+   *     description: JPEG preview of a card image or other image document. PDFs have no thumbnail.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Document ID
+   *       - in: query
+   *         name: version
+   *         schema:
+   *           type: integer
+   *         description: Version number; defaults to the current version
+   *     responses:
+   *       200:
+   *         description: Thumbnail
+   *         content:
+   *           image/jpeg: {}
+   *       404:
+   *         description: Document, version or thumbnail not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/documents/:id/thumbnail", requireAuth, requirePermission("patient:read"), async (req, res) => {
+    try {
+      const document = await findDocument(req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+
+      const version = req.query.version ? parseInt(req.query.version as string) : undefined;
+      const file = await readDocument(document, version, true);
+      await recordAudit(req, { action: 'read', resource: 'document', patientId: document.patientId, resourceId: document.id });
+
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Cache-Control", "private, no-store");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(file.data);
+    } catch (error) {
+      if (error instanceof DocumentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to read thumbnail" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/documents/{id}:
+   *   delete:
+   *     tags:
+   *       - Documents
+   *     summary: Delete a document and all its versions
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Document ID
+   *     responses:
+   *       200:
+   *         description: Document deleted
+   *       404:
+   *         description: Document not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.delete("/api/documents/:id", requireAuth, requirePermission("patient:write"), async (req, res) => {
+    try {
+      const document = await findDocument(req);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      await deleteDocument(document);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete document" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/patients/{id}/document-analysis:
+   *   post:
+   *     tags:
+   *       - Documents
+   *     summary: Analyze a patient's benefit documents
+   *     description: |
+   *       Starts reading the documents in the background: PDF text layers, with OCR for scanned
+   *       pages and images. Coverage percentages, frequencies, waiting periods, deductibles and
+   *       maximums are extracted and recorded on an ANALYSIS transaction. Follow progress with
+   *       `GET /api/document-analysis/{jobId}/events`.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               documentIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                 description: Documents to read; defaults to the patient's EOBs, faxed benefit sheets and other documents
+   *               insuranceId:
+   *                 type: string
+   *                 description: Insurance whose values on file are compared; defaults to the primary
+   *     responses:
+   *       202:
+   *         description: Analysis started
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 job:
+   *                   $ref: '#/components/schemas/DocumentAnalysisJob'
+   *       400:
+   *         description: No documents to analyze, or a document is not the patient's
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/patients/:id/document-analysis", requireAuth, requirePermission("ocr:scan", "transaction:write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { documentIds, insuranceId } = req.body || {};
+      if (documentIds !== undefined && (!Array.isArray(documentIds) || documentIds.some((d: any) => typeof d !== 'string'))) {
+        return res.status(400).json({ error: "documentIds must be an array of document IDs" });
+      }
+      const stored = await storage.getPatientDocuments(id);
+      if (documentIds && documentIds.some((documentId: string) => !stored.some(document => document.id === documentId))) {
+        return res.status(400).json({ error: "Document not found for this patient" });
+      }
+      const documents = documentIds
+        ? stored.filter(document => documentIds.includes(document.id))
+        : stored.filter(document => ANALYZABLE_CATEGORIES.includes(document.category));
+
+      const insurances = await storage.getPatientInsurances(id);
+      const insurance = insuranceId
+        ? insurances.find(i => i.id === insuranceId)
+        : insurances.find(i => i.type === 'Primary') || insurances[0];
+
+      await recordAudit(req, documents.map(document => ({ action: 'ocr' as const, resource: 'document' as const, patientId: id, resourceId: document.id })));
+
+      const user = await storage.getUser((req.session as any)?.userId);
+      const job = await startDocumentAnalysis({ patient, insurance, documents, runBy: user?.username || 'Smith AI System', userId: user?.id ?? null });
+      res.status(202).json({ job });
+    } catch (error) {
+      if (error instanceof DocumentAnalysisError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to start document analysis" });
+    }
+  });
+
+  // Analysis jobs are visible to the practice of the patient they read
+  const findAnalysisJob = (req: any): DocumentAnalysisJob | undefined => {
+    const job = getDocumentAnalysisJob(req.params.id);
+    return job && job.practiceId === (req.session as any)?.practiceId ? job : undefined;
+  };
+
+  /**
+   * @openapi
+   * /api/document-analysis/{id}:
+   *   get:
+   *     tags:
+   *       - Documents
+   *     summary: Get a document analysis job
+   *     description: Progress, and the extracted benefit fields once finished. Jobs are kept for 15 minutes after they finish.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Analysis job ID
+   *     responses:
+   *       200:
+   *         description: Job
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 job:
+   *                   $ref: '#/components/schemas/DocumentAnalysisJob'
+   *       404:
+   *         description: Job not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/document-analysis/:id", requireAuth, requirePermission("ocr:scan"), async (req, res) => {
+    const job = findAnalysisJob(req);
+    if (!job) {
+      return res.status(404).json({ error: "Analysis job not found" });
+    }
+    res.json({ job });
+  });
+
+  /**
+   * @openapi
+   * /api/document-analysis/{id}/events:
+   *   get:
+   *     tags:
+   *       - Documents
+   *     summary: Stream document analysis progress
+   *     description: |
+   *       Server-sent events. Each `message` event carries the job as JSON, starting with its
+   *       current state; the stream ends after the job completes or fails.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Analysis job ID
+   *     responses:
+   *       200:
+   *         description: Event stream
+   *         content:
+   *           text/event-stream: {}
+   *       404:
+   *         description: Job not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/document-analysis/:id/events", requireAuth, requirePermission("ocr:scan"), (req, res) => {
+    const job = findAnalysisJob(req);
+    if (!job) {
+      return res.status(404).json({ error: "Analysis job not found" });
+    }
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-store");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    const unwatch = watchDocumentAnalysisJob(job.id, update => {
+      res.write(`data: ${JSON.stringify(update)}\n\n`);
+      if (update.status !== 'running') {
+        unwatch();
+        res.end();
+      }
+    });
+    req.on("close", unwatch);
+
+    res.write(`data: ${JSON.stringify(job)}\n\n`);
+    if (job.status !== 'running') {
+      unwatch();
+      res.end();
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/events:
+   *   get:
+   *     tags:
+   *       - Events
+   *     summary: Stream live updates for the session's practice
+   *     description: |
+   *       Server-sent events. Each `message` event carries a JSON `LiveEvent` when a transaction is
+   *       created or updated, a patient's verification status changes, or a verification job or one
+   *       of its steps moves on. Events only name what changed; fetch the details through the
+   *       usual routes. Events a role could not read (e.g. jobs without `job:read`) are not sent.
+   *       A comment line is sent every 25 seconds to keep the connection open. Before each one the
+   *       session is checked again: the stream ends once the session is gone (logout or revocation),
+   *       switches practice, or its user's role or practice membership changes. The browser then
+   *       reconnects under the session's current access.
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Event stream
+   *         content:
+   *           text/event-stream:
+   *             schema:
+   *               $ref: '#/components/schemas/LiveEvent'
+   *       403:
+   *         description: No practice selected
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/events", requireAuth, (req, res) => {
+    const practiceId = (req.session as any)?.practiceId;
+    if (!practiceId) {
+      return res.status(403).json({ error: "No practice selected" });
+    }
+    const userId = (req.session as any)?.userId;
+    const role = (req.session as any)?.userRole;
+
+    // The stream outlives the request that opened it, so its access is checked again as it runs
+    const stillValid = async (): Promise<boolean> => {
+      const current: any = await new Promise((resolve, reject) =>
+        req.sessionStore.get(req.sessionID, (error, stored) => error ? reject(error) : resolve(stored)));
+      if (!current || current.userId !== userId || current.practiceId !== practiceId) return false;
+      const user = await storage.getUser(userId);
+      if (!user || user.role !== role) return false;
+      const membership = await resolveActivePractice(userId, practiceId);
+      return membership?.practiceId === practiceId;
+    };
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-store");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    const unsubscribe = subscribeLiveEvents(practiceId, event => {
+      if (hasPermission(role, LIVE_EVENT_PERMISSIONS[event.type])) {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      }
+    });
+    let closed = false;
+    const close = () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+    const heartbeat = setInterval(async () => {
+      const valid = await stillValid().catch(() => false);
+      if (closed) return;
+      if (!valid) {
+        close();
+        res.end();
+        return;
+      }
+      res.write(": keep-alive\n\n");
+    }, 25000);
+    req.on("close", close);
+  });
+
+  /**
+   * @openapi
+   * /api/patients/{id}/fax-requests:
+   *   post:
+   *     tags:
+   *       - Faxes
+   *     summary: Fax the payer a benefit breakdown request
+   *     description: |
+   *       Sends a cover sheet and request form to the fax number in the payer directory. The form is
+   *       kept as a `fax-request` document and a FAX transaction stays `Waiting` until the payer's
+   *       reply arrives through `POST /api/fax/inbound`.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               insuranceId:
+   *                 type: string
+   *                 description: Insurance to request benefits for; defaults to the primary
+   *     responses:
+   *       201:
+   *         description: Fax sent
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 fax:
+   *                   $ref: '#/components/schemas/Fax'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: The patient has no such insurance
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       422:
+   *         description: The payer is not in the directory or does not take faxes
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       502:
+   *         description: The fax provider could not send the fax
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/patients/:id/fax-requests", requireAuth, requirePermission("fax:send", "transaction:write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const { insuranceId } = req.body || {};
+      const insurances = await storage.getPatientInsurances(id);
+      const insurance = insuranceId
+        ? insurances.find(i => i.id === insuranceId)
+        : insurances.find(i => i.type === 'Primary') || insurances[0];
+      if (!insurance) {
+        return res.status(404).json({ error: "Insurance not found for this patient" });
+      }
+
+      // The form carries the birth date and policy numbers out of the system
+      await recordAudit(req, { action: 'export', resource: 'insurance', patientId: id, resourceId: insurance.id, field: 'fax' });
+
+      const userId = (req.session as any)?.userId;
+      const user = await storage.getUser(userId);
+      const fax = await requestBenefitFax({ patient, insurance, userId, runBy: user?.username || 'Smith AI System' });
+      res.status(201).json({ fax });
+    } catch (error) {
+      if (error instanceof FaxRequestError || error instanceof FaxError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to send fax" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/patients/{id}/faxes:
+   *   get:
+   *     tags:
+   *       - Faxes
+   *     summary: List a patient's sent and received faxes
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     responses:
+   *       200:
+   *         description: Faxes, newest first
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 faxes:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Fax'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/patients/:id/faxes", requireAuth, requirePermission("transaction:read"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      const faxes = await storage.getPatientFaxes(id);
+      res.json({ faxes: faxes.map(faxSummary) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch faxes" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/fax/inbound:
+   *   post:
+   *     tags:
+   *       - Faxes
+   *     summary: Receive a fax from the fax gateway
+   *     description: |
+   *       Webhook for the fax gateway, authenticated with `Authorization: Bearer <FAX_WEBHOOK_SECRET>`
+   *       instead of a session. The fax is matched to a benefit request by `reference`, or else by
+   *       the sending number, and filed under that patient. Unmatched faxes wait for an admin.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         multipart/form-data:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - file
+   *               - from
+   *             properties:
+   *               file:
+   *                 type: string
+   *                 format: binary
+   *                 description: PDF, JPEG or PNG
+   *               from:
+   *                 type: string
+   *                 description: Sending fax number
+   *               to:
+   *                 type: string
+   *               id:
+   *                 type: string
+   *                 description: The gateway's fax ID
+   *               reference:
+   *                 type: string
+   *                 description: Request reference, when the gateway read it off the fax
+   *     responses:
+   *       201:
+   *         description: Fax received
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 fax:
+   *                   $ref: '#/components/schemas/Fax'
+   *       400:
+   *         description: Missing file or sender, or unsupported file type
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Missing or wrong webhook secret
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/fax/inbound", (req, res, next) => {
+    if (!verifyFaxWebhook(req.headers.authorization)) {
+      return res.status(401).json({ error: "Invalid webhook secret" });
+    }
+    next();
+  }, documentUpload.single("file"), async (req, res) => {
+    try {
+      const { from, to, id, reference } = req.body || {};
+      if (!req.file || typeof from !== 'string' || !from.trim()) {
+        return res.status(400).json({ error: "file and from are required" });
+      }
+      const fax = await receiveInboundFax({
+        from,
+        to: typeof to === 'string' ? to : undefined,
+        document: req.file.buffer,
+        providerFaxId: typeof id === 'string' ? id : undefined,
+        reference: typeof reference === 'string' ? reference : undefined,
+      });
+      res.status(201).json({ fax });
+    } catch (error) {
+      if (error instanceof FaxRequestError || error instanceof DocumentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to receive fax" });
+    }
+  });
+
+  // An unmatched fax belongs to the practice whose number it was sent to. Faxes to no practice's
+  // number are left to users who manage every practice.
+  const canManageFax = (req: any, fax: Fax): boolean =>
+    fax.practiceId
+      ? fax.practiceId === req.session?.practiceId
+      : hasPermission(req.session?.userRole, "practice:manage");
+
+  /**
+   * @openapi
+   * /api/faxes/unmatched:
+   *   get:
+   *     tags:
+   *       - Faxes
+   *     summary: List received faxes not matched to a patient (requires `fax:manage`)
+   *     description: Faxes sent to the current practice's fax number, and with `practice:manage` also those sent to no practice's number.
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Unmatched faxes, newest first
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 faxes:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Fax'
+   */
+  app.get("/api/faxes/unmatched", requireAuth, requirePermission("fax:manage"), async (req, res) => {
+    try {
+      const faxes = await storage.getUnmatchedFaxes(
+        (req.session as any)?.practiceId,
+        hasPermission((req.session as any)?.userRole, "practice:manage")
+      );
+      res.json({ faxes: faxes.map(faxSummary) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch faxes" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/faxes/{id}:
+   *   get:
+   *     tags:
+   *       - Faxes
+   *     summary: Get a fax
+   *     description: Poll an outbound request until its status is `answered`; the reply is then in the patient's documents.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Fax ID
+   *     responses:
+   *       200:
+   *         description: Fax, with the reply and the analysis reading it when it has one
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 fax:
+   *                   $ref: '#/components/schemas/Fax'
+   *                 reply:
+   *                   nullable: true
+   *                   allOf:
+   *                     - $ref: '#/components/schemas/Fax'
+   *                 analysis:
+   *                   nullable: true
+   *                   description: Started by the server when the reply is filed; kept for 15 minutes after it finishes
+   *                   allOf:
+   *                     - $ref: '#/components/schemas/DocumentAnalysisJob'
+   *       404:
+   *         description: Fax not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/faxes/:id", requireAuth, requirePermission("transaction:read"), async (req, res) => {
+    try {
+      const fax = await storage.getFax(req.params.id);
+      if (!fax || !fax.patientId || fax.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(404).json({ error: "Fax not found" });
+      }
+      const reply = fax.status === 'answered'
+        ? (await storage.getPatientFaxes(fax.patientId)).find(f => f.replyTo === fax.id)
+        : undefined;
+      const analysis = reply?.documentId ? findDocumentAnalysisJob(reply.documentId) : undefined;
+      res.json({ fax: faxSummary(fax), reply: reply ? faxSummary(reply) : null, analysis: analysis ?? null });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch fax" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/faxes/{id}/content:
+   *   get:
+   *     tags:
+   *       - Faxes
+   *     summary: View an unmatched fax (requires `fax:manage`)
+   *     description: Faxes filed under a patient are read through `GET /api/documents/{id}/content`.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Fax ID
+   *     responses:
+   *       200:
+   *         description: The decrypted fax
+   *         content:
+   *           application/pdf: {}
+   *           image/jpeg: {}
+   *           image/png: {}
+   *       404:
+   *         description: Fax not found or already filed under a patient
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/faxes/:id/content", requireAuth, requirePermission("fax:manage"), async (req, res) => {
+    try {
+      const fax = await storage.getFax(req.params.id);
+      if (!fax || fax.direction !== 'inbound' || !canManageFax(req, fax)) {
+        return res.status(404).json({ error: "Fax not found" });
+      }
+      const file = await readUnmatchedFax(fax);
+      await recordAudit(req, { action: 'read', resource: 'fax', resourceId: fax.id });
+
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Cache-Control", "private, no-store");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(file.data);
+    } catch (error) {
+      if (error instanceof FaxRequestError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to read fax" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/faxes/{id}/assign:
+   *   post:
+   *     tags:
+   *       - Faxes
+   *     summary: File an unmatched fax under a patient (requires `fax:manage`)
+   *     description: |
+   *       The fax becomes one of the patient's benefit fax documents. If the patient has a benefit
+   *       request still waiting, the fax answers it and its FAX transaction closes as SUCCESS.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Fax ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - patientId
+   *             properties:
+   *               patientId:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Fax filed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 fax:
+   *                   $ref: '#/components/schemas/Fax'
+   *       403:
+   *         description: The patient belongs to another practice
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Fax or patient not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: The fax is already filed
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/faxes/:id/assign", requireAuth, requirePermission("fax:manage"), async (req, res) => {
+    try {
+      const fax = await storage.getFax(req.params.id);
+      if (!fax || !canManageFax(req, fax)) {
+        return res.status(404).json({ error: "Fax not found" });
+      }
+      const { patientId } = req.body || {};
+      const patient = typeof patientId === 'string' ? await storage.getPatientById(patientId) : undefined;
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      res.json({ fax: await assignInboundFax(fax, patient, (req.session as any)?.userId) });
+    } catch (error) {
+      if (error instanceof FaxRequestError || error instanceof DocumentError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to assign fax" });
+    }
+  });
+
+  app.delete("/api/patients/:id", requireAuth, requirePermission("patient:delete"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const practiceId = (req.session as any)?.practiceId;
+
+      // Verify patient exists and belongs to current practice
+      const patient = await storage.getPatientById(id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Delete patient (cascade deletes will handle all related data)
+      const documentVersions = await storage.getPatientDocumentVersions(id);
+      const success = await storage.deletePatient(id);
+
+      if (!success) {
+        return res.status(500).json({ error: "Failed to delete patient" });
+      }
+      await removeDocumentFiles(documentVersions);
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete patient" });
+    }
+  });
+
+  // Appointment routes
+  /**
+   * @openapi
+   * /api/patients/{id}/appointments:
+   *   post:
+   *     tags:
+   *       - Appointments
+   *     summary: Create a new appointment
+   *     description: Create a new appointment for a patient
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               date:
+   *                 type: string
+   *                 format: date
+   *                 example: "2025-12-30"
+   *               time:
+   *                 type: string
+   *                 example: "10:00 AM"
+   *               type:
+   *                 type: string
+   *                 example: "Cleaning"
+   *               status:
+   *                 type: string
+   *                 default: "scheduled"
+   *                 example: "scheduled"
+   *               provider:
+   *                 type: string
+   *                 example: "Dr. Smith"
+   *     responses:
+   *       200:
+   *         description: Appointment created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 appointment:
+   *                   type: object
+   *       401:
+   *         description: Authentication required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Patient not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/patients/:id/appointments", requireAuth, requirePermission("patient:write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const practiceId = (req.session as any)?.practiceId;
+      const appointmentData = req.body;
+
+      // Verify patient exists and belongs to current practice
+      const patient = await storage.getPatientById(id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Create appointment
+      const appointment = await storage.createAppointment({
+        patientId: id,
+        date: appointmentData.date,
+        time: appointmentData.time,
+        type: appointmentData.type,
+        status: appointmentData.status || 'scheduled',
+        provider: appointmentData.provider
+      });
+
+      res.json({ success: true, appointment });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create appointment" });
+    }
+  });
+
+  app.put("/api/patients/:id/appointments/:appointmentId", requireAuth, requirePermission("patient:write"), async (req, res) => {
+    try {
+      const { id, appointmentId } = req.params;
+      const practiceId = (req.session as any)?.practiceId;
+      const updates = req.body;
+
+      // Verify patient exists and belongs to current practice
+      const patient = await storage.getPatientById(id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Update appointment
+      const appointment = await storage.updateAppointment(appointmentId, updates);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+
+      res.json({ success: true, appointment });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update appointment" });
+    }
+  });
+
+  app.delete("/api/patients/:id/appointments/:appointmentId", requireAuth, requirePermission("patient:write"), async (req, res) => {
+    try {
+      const { id, appointmentId } = req.params;
+      const practiceId = (req.session as any)?.practiceId;
+
+      // Verify patient exists and belongs to current practice
+      const patient = await storage.getPatientById(id);
+      if (!patient) {
+        return res.status(404).json({ error: "Patient not found" });
+      }
+      if (patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Delete appointment
+      const success = await storage.deleteAppointment(appointmentId);
+      if (!success) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete appointment" });
+    }
+  });
+
+  // Transaction routes
+  /**
+   * @openapi
+   * /api/transactions:
+   *   get:
+   *     tags:
+   *       - Transactions
+   *     summary: Query transactions
+   *     description: |
+   *       Filter, sort and page through the transactions of the session practice's patients.
+   *       Pass `nextCursor` from the previous page as `cursor` to fetch the next one; the cursor is only valid with the same filters and sort, and one made for another `sort` or `order` is rejected with 400.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: patientId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: type
+   *         description: Comma-separated transaction types (e.g. API,CALL)
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: status
+   *         description: Comma-separated statuses (e.g. SUCCESS,FAILED)
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: from
+   *         description: First creation date, inclusive
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: to
+   *         description: Last creation date, inclusive
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: insuranceProvider
+   *         description: Case-insensitive substring of the insurance provider name
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: runBy
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: sort
+   *         schema:
+   *           type: string
+   *           enum: [createdAt, startTime, patientName, type, status]
+   *           default: createdAt
+   *       - in: query
+   *         name: order
+   *         schema:
+   *           type: string
+   *           enum: [asc, desc]
+   *           default: desc
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 200
+   *           default: 50
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Transactions retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 transactions:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Transaction'
+   *                 nextCursor:
+   *                   type: string
+   *                   nullable: true
+   *                 hasMore:
+   *                   type: boolean
+   *       400:
+   *         description: Invalid filter, sort or cursor
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       401:
+   *         description: Authentication required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: Failed to fetch transactions
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/transactions", requireAuth, requirePermission("transaction:read"), async (req, res) => {
+    try {
+      const practiceId = (req.session as any)?.practiceId;
+      if (!practiceId) {
+        return res.status(403).json({ error: "No practice selected" });
+      }
+
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      const isoTimestampPattern = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+      const list = (value: unknown) =>
+        typeof value === "string" ? value.split(",").map(v => v.trim()).filter(Boolean) : undefined;
+      const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+      const sort = (text(req.query.sort) || "createdAt") as TransactionSortField;
+      if (!TRANSACTION_SORT_FIELDS.includes(sort)) {
+        return res.status(400).json({ error: `sort must be one of ${TRANSACTION_SORT_FIELDS.join(", ")}` });
+      }
+
+      const order = text(req.query.order) || "desc";
+      if (order !== "asc" && order !== "desc") {
+        return res.status(400).json({ error: "order must be asc or desc" });
+      }
+
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+      if (isNaN(limit) || limit < 1 || limit > 200) {
+        return res.status(400).json({ error: "limit must be between 1 and 200" });
+      }
+
+      const fromDate = text(req.query.from);
+      const toDate = text(req.query.to);
+      if ((fromDate && !datePattern.test(fromDate)) || (toDate && !datePattern.test(toDate))) {
+        return res.status(400).json({ error: "from and to must be in YYYY-MM-DD format" });
+      }
+      const to = toDate ? new Date(`${toDate}T00:00:00`) : undefined;
+      to?.setDate(to.getDate() + 1);
+
+      // A cursor holds the sort it was made under; its value is only comparable under that sort
+      let after: { sort?: unknown; order?: unknown; value: string; id: string } | undefined;
+      if (req.query.cursor) {
+        try {
+          after = JSON.parse(Buffer.from(req.query.cursor as string, "base64url").toString("utf8"));
+        } catch {
+          after = undefined;
+        }
+        if (typeof after?.value !== "string" || typeof after?.id !== "string") {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+        if (after.sort !== sort || after.order !== order) {
+          return res.status(400).json({ error: "The cursor was made for another sort; start again from the first page" });
+        }
+        if (sort === "createdAt" && (!isoTimestampPattern.test(after.value) || isNaN(Date.parse(after.value)))) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+      }
+
+      const { transactions, hasMore } = await storage.queryTransactions({
+        practiceId,
+        patientId: text(req.query.patientId),
+        types: list(req.query.type),
+        statuses: list(req.query.status),
+        from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+        to,
+        insuranceProvider: text(req.query.insuranceProvider),
+        runBy: text(req.query.runBy),
+        sort,
+        order,
+        limit,
+        after
+      });
+
+      const last = transactions[transactions.length - 1];
+      const lastValue = last?.[sort];
+      const nextCursor = hasMore && last
+        ? Buffer.from(JSON.stringify({
+            sort,
+            order,
+            value: lastValue instanceof Date ? lastValue.toISOString() : String(lastValue ?? ""),
+            id: last.id
+          })).toString("base64url")
+        : null;
+
+      await recordAudit(req, transactions.map(transaction => ({
+        action: 'read' as const,
+        resource: 'transaction' as const,
+        patientId: transaction.patientId,
+        resourceId: transaction.id
+      })));
+      res.json({ success: true, transactions, nextCursor, hasMore });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch transactions" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/transactions:
+   *   post:
+   *     tags:
+   *       - Transactions
+   *     summary: Create a new transaction
+   *     description: Create a new transaction record with optional verified data and call communications
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               requestId:
+   *                 type: string
+   *                 description: Request ID (auto-generated if not provided)
+   *                 example: "REQ-2025-12-27-12-30-00"
+   *               patientId:
+   *                 type: string
+   *                 nullable: true
+   *                 description: Associated patient ID
+   *               status:
+   *                 type: string
+   *                 description: Transaction status
+   *               dataVerified:
+   *                 type: array
+   *                 description: Array of verified data items
+   *                 items:
+   *                   type: string
+   *               callCommunications:
+   *                 type: array
+   *                 description: Array of call communication records
+   *                 items:
+   *                   type: object
+   *     responses:
+   *       200:
+   *         description: Transaction created successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 transaction:
+   *                   $ref: '#/components/schemas/Transaction'
+   *       401:
+   *         description: Authentication required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       500:
+   *         description: Failed to create transaction
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 error:
+   *                   type: string
+   *                 details:
+   *                   type: string
+   */
+  app.post("/api/transactions", requireAuth, requirePermission("transaction:write"), async (req, res) => {
+    try {
+      const practiceId = (req.session as any)?.practiceId;
+      const transactionData = req.body;
+
+
+      // Verify patient belongs to current practice if patientId is provided
+      if (transactionData.patientId) {
+        const patient = await storage.getPatientById(transactionData.patientId);
+        if (!patient || patient.practiceId !== practiceId) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+      }
+
+      // Generate request ID if not provided
+      if (!transactionData.requestId) {
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+        transactionData.requestId = `REQ-${timestamp}`;
+      }
+
+      // Remove dataVerified and callCommunications from main transaction data
+      const { dataVerified, callCommunications: comms, ...txnData } = transactionData;
+
+
+      // Insert transaction
+      const [transaction] = await db.insert(transactions).values(txnData).returning();
+
+      // Insert verified data items if provided
+      if (dataVerified && Array.isArray(dataVerified)) {
+        for (const item of dataVerified) {
+          await db.insert(transactionDataVerified).values({
+            transactionId: transaction.id,
+            item
+          });
+        }
+      }
+
+      // Insert call communications if provided
+      if (comms && Array.isArray(comms)) {
+        for (const comm of comms) {
+          await db.insert(callCommunications).values({
+            transactionId: transaction.id,
+            ...comm
+          });
+        }
+      }
+
+      publishTransaction(transaction.id, 'created');
+      res.json({ success: true, transaction });
+    } catch (error: any) {
+      res.status(500).json({
+        error: "Failed to create transaction",
+        details: error.message
+      });
+    }
+  });
+
+  // Transactions belong to their patient's practice; other practices' transactions read as not found
+  const getPracticeTransaction = async (id: string, practiceId: string | undefined) => {
+    const transaction = await storage.getTransactionById(id);
+    if (!transaction) return undefined;
+    const patient = await storage.getPatientById(transaction.patientId);
+    return patient && patient.practiceId === practiceId ? transaction : undefined;
+  };
+
+  app.get("/api/transactions/:id", requireAuth, requirePermission("transaction:read"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const transaction = await getPracticeTransaction(id, (req.session as any)?.practiceId);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      await recordAudit(req, { action: 'read', resource: 'transaction', patientId: transaction.patientId, resourceId: id });
+      res.json({ success: true, transaction });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch transaction" });
+    }
+  });
+
+  app.put("/api/transactions/:id", requireAuth, requirePermission("transaction:write"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const practiceId = (req.session as any)?.practiceId;
+      const transactionData = req.body;
+
+
+      // Verify transaction exists
+      const existingTransaction = await storage.getTransactionById(id);
+      if (!existingTransaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+
+      // Verify patient belongs to current practice
+      const patient = await storage.getPatientById(existingTransaction.patientId);
+      if (!patient || patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      // Remove dataVerified, callCommunications and coverageData from main transaction data. The row
+      // keeps its ID and patient, which the practice check above was made against.
+      const { dataVerified, callCommunications: comms, coverageData, id: _id, patientId: _patientId, createdAt: _createdAt, ...txnData } = transactionData;
+
+      // Coverage by code of the result (e.g. what a call confirmed) becomes a run of the
+      // transaction's type pointing at it. The run and the transaction's changes commit together,
+      // so malformed rows leave the transaction as it was and a failed update saves no run.
+      if (coverageData !== undefined && !isCoverageSource(existingTransaction.type)) {
+        return res.status(400).json({ error: `${existingTransaction.type} transactions carry no coverage by code` });
+      }
+      const columns = getTableColumns(transactions);
+      const updates = Object.fromEntries(Object.entries(txnData).filter(([field]) => field in columns));
+
+      const updatedTransaction = await db.transaction(async (tx) => {
+        if (coverageData !== undefined) {
+          await saveCoverageRun(patient, (req.session as any)?.userId, existingTransaction.type, coverageData, id, tx);
+        }
+
+        // A body with nothing but coverage or related rows leaves the transaction row as it is
+        const [updated] = Object.keys(updates).length > 0
+          ? await tx.update(transactions).set(updates).where(eq(transactions.id, id)).returning()
+          : [existingTransaction];
+
+        // Delete existing verified data items and insert new ones if provided
+        if (dataVerified && Array.isArray(dataVerified)) {
+          await tx.delete(transactionDataVerified).where(eq(transactionDataVerified.transactionId, id));
+          for (const item of dataVerified) {
+            await tx.insert(transactionDataVerified).values({
+              transactionId: id,
+              item
+            });
+          }
+        }
+
+        // Delete existing call communications and insert new ones if provided
+        if (comms && Array.isArray(comms)) {
+          await tx.delete(callCommunications).where(eq(callCommunications.transactionId, id));
+          for (const comm of comms) {
+            const { id: _commId, ...communication } = comm;
+            await tx.insert(callCommunications).values({
+              ...communication,
+              transactionId: id
+            });
+          }
+        }
+        return updated;
+      });
+
+      // Auto-create CALL transaction when API transaction is updated to SUCCESS
+      if (existingTransaction.type === 'API' &&
+          txnData.status === 'SUCCESS' &&
+          existingTransaction.status !== 'SUCCESS') {
+
+        // Generate new request ID for CALL transaction
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+        const callRequestId = `REQ-${timestamp}-CALL`;
+
+        // Route the call to the payer's provider services line from the directory
+        const payer = await resolvePayer(existingTransaction.insuranceProvider);
+
+        const callTransactionData = {
+          requestId: callRequestId,
+          patientId: existingTransaction.patientId,
+          patientName: existingTransaction.patientName,
+          type: 'CALL',
+          method: 'Insurance Verification Call',
+          startTime: '', // Empty - waiting to start
+          status: 'Waiting',
+          insuranceProvider: existingTransaction.insuranceProvider || '-',
+          phoneNumber: payer && payerSupports(payer, 'CALL') ? payer.phoneNumber : null,
+          fetchStatus: 'pending',
+          saveStatus: 'pending'
+        };
+
+        const [callTransaction] = await db.insert(transactions).values(callTransactionData).returning();
+        publishTransaction(callTransaction.id, 'created');
+      }
+
+      publishTransaction(updatedTransaction.id, 'updated');
+
+      // Let a verification job waiting on this transaction continue
+      await resumeFromTransaction(updatedTransaction);
+
+      res.json({ success: true, transaction: updatedTransaction });
+    } catch (error: any) {
+      if (error instanceof CoverageHistoryError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to update transaction",
+        details: error.message
+      });
+    }
+  });
+
+  app.get("/api/transactions/:id/communications", requireAuth, requirePermission("transaction:read"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const transaction = await getPracticeTransaction(id, (req.session as any)?.practiceId);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      const communications = await storage.getCallCommunicationsByTransactionId(id);
+      await recordAudit(req, { action: 'read', resource: 'transaction', patientId: transaction.patientId, resourceId: id, field: 'communications' });
+      res.json({ success: true, communications });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch communications" });
+    }
+  });
+
+  app.get("/api/transactions/:id/verified-data", requireAuth, requirePermission("transaction:read"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const transaction = await getPracticeTransaction(id, (req.session as any)?.practiceId);
+      if (!transaction) {
+        return res.status(404).json({ error: "Transaction not found" });
+      }
+      const verifiedData = await storage.getTransactionDataVerifiedByTransactionId(id);
+      await recordAudit(req, { action: 'read', resource: 'transaction', patientId: transaction.patientId, resourceId: id, field: 'verifiedData' });
+      res.json({ success: true, verifiedData });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch verified data" });
+    }
+  });
+
+  // Payer directory routes
+  const parsePayerBody = (body: any): { payer?: any; error?: string } => {
+    const { name, payerId, aliases, phoneNumber, faxNumber, supportedTransactions, active } = body;
+    const payer: any = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) return { error: "Name must be a non-empty string" };
+      payer.name = name.trim();
+    }
+    if (aliases !== undefined) {
+      if (!Array.isArray(aliases) || aliases.some((a: any) => typeof a !== 'string')) {
+        return { error: "Aliases must be an array of strings" };
+      }
+      payer.aliases = aliases.map((a: string) => a.trim()).filter(Boolean);
+    }
+    if (supportedTransactions !== undefined) {
+      if (!Array.isArray(supportedTransactions) || supportedTransactions.some((t: any) => !PAYER_TRANSACTION_TYPES.includes(t))) {
+        return { error: `Supported transactions must be any of ${PAYER_TRANSACTION_TYPES.join(', ')}` };
+      }
+      payer.supportedTransactions = supportedTransactions;
+    }
+    if (payerId !== undefined) payer.payerId = payerId || null;
+    if (phoneNumber !== undefined) payer.phoneNumber = phoneNumber || null;
+    if (faxNumber !== undefined) payer.faxNumber = faxNumber || null;
+    if (active !== undefined) payer.active = !!active;
+
+    return { payer };
+  };
+
+  /**
+   * @openapi
+   * /api/payers:
+   *   get:
+   *     tags:
+   *       - Payer Directory
+   *     summary: List payers
+   *     description: Retrieve the payer directory (carrier names, aliases, payer IDs, phone/fax numbers and supported transaction types)
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Payers retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 payers:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/Payer'
+   *       401:
+   *         description: Authentication required
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/payers", requireAuth, requirePermission("payer:read"), async (req, res) => {
+    try {
+      const payers = await storage.getAllPayers();
+      res.json({ success: true, payers });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch payers" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/payers/resolve:
+   *   get:
+   *     tags:
+   *       - Payer Directory
+   *     summary: Resolve a carrier name
+   *     description: Match a free-text carrier name (e.g. an insurance provider or OCR text) to a payer directory entry
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: name
+   *         required: true
+   *         schema:
+   *           type: string
+   *         example: "Cigna Dental PPO"
+   *     responses:
+   *       200:
+   *         description: Payer resolved
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 payer:
+   *                   $ref: '#/components/schemas/Payer'
+   *       404:
+   *         description: No matching payer
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/payers/resolve", requireAuth, requirePermission("payer:read"), async (req, res) => {
+    try {
+      const name = typeof req.query.name === 'string' ? req.query.name : '';
+      if (!name) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+
+      const payer = await resolvePayer(name);
+      if (!payer) {
+        return res.status(404).json({ error: "No matching payer" });
+      }
+
+      res.json({ success: true, payer });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resolve payer" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/payers:
+   *   post:
+   *     tags:
+   *       - Payer Directory
+   *     summary: Create a payer (requires `payer:manage`)
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/Payer'
+   *     responses:
+   *       200:
+   *         description: Payer created successfully
+   *       400:
+   *         description: Validation error or payer already exists
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Missing permission
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/payers", requireAuth, requirePermission("payer:manage"), async (req, res) => {
+    try {
+      const { payer, error } = parsePayerBody(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      if (!payer.name) {
+        return res.status(400).json({ error: "Name is required" });
+      }
+
+      const existing = await storage.getPayerByName(payer.name);
+      if (existing) {
+        return res.status(400).json({ error: "Payer already exists" });
+      }
+
+      const created = await storage.createPayer(payer);
+      res.json({ success: true, payer: created });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to create payer" });
+    }
+  });
+
+  app.put("/api/payers/:id", requireAuth, requirePermission("payer:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { payer: updates, error } = parsePayerBody(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      if (updates.name) {
+        const existing = await storage.getPayerByName(updates.name);
+        if (existing && existing.id !== id) {
+          return res.status(400).json({ error: "Payer already exists" });
         }
-      ];
+      }
 
-      const createdPatients = [];
+      const payer = await storage.updatePayer(id, updates);
+      if (!payer) {
+        return res.status(404).json({ error: "Payer not found" });
+      }
 
-      // Create each sample patient
-      for (const sampleData of samplePatients) {
-        const patientId = await generateNextPatientId(userId);
+      res.json({ success: true, payer });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to update payer" });
+    }
+  });
 
-        // Encrypt sensitive data
-        const encryptedBirthDate = encrypt(sampleData.patient.birthDate);
-        const encryptedSSN = encrypt(sampleData.patient.ssn);
+  app.delete("/api/payers/:id", requireAuth, requirePermission("payer:manage"), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const success = await storage.deletePayer(id);
+      if (!success) {
+        return res.status(404).json({ error: "Payer not found" });
+      }
 
-        // Create patient
-        const newPatient = await storage.createPatient({
-          id: patientId,
-          userId,
-          active: sampleData.patient.active,
-          givenName: sampleData.patient.name.given.join(' '),
-          familyName: sampleData.patient.name.family,
-          gender: sampleData.patient.gender,
-          birthDate: encryptedBirthDate,
-          ssn: encryptedSSN
-        });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete payer" });
+    }
+  });
+
+  // Verification workflow routes
+  /**
+   * @openapi
+   * /api/verification-jobs:
+   *   post:
+   *     tags:
+   *       - Verification Workflow
+   *     summary: Queue a verification job
+   *     description: |
+   *       Queues the five-step verification pipeline (Fetch PMS, API Verification, Document Analysis,
+   *       Call Center, Save To PMS) for a patient. Each executed step writes a transaction; steps are
+   *       retried or skipped according to the workflow rules, which can be overridden per job.
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - patientId
+   *             properties:
+   *               patientId:
+   *                 type: string
+   *                 example: "P0000001"
+   *               insuranceId:
+   *                 type: string
+   *                 description: Insurance to verify (defaults to the primary insurance)
+   *               scheduledFor:
+   *                 type: string
+   *                 format: date-time
+   *                 description: Run at or after this time (defaults to now)
+   *               provider:
+   *                 type: object
+   *                 description: Billing provider for the 270 (defaults to PRACTICE_NPI / PRACTICE_NAME)
+   *                 properties:
+   *                   npi:
+   *                     type: string
+   *                   organizationName:
+   *                     type: string
+   *               rules:
+   *                 type: object
+   *                 description: Per-step overrides of enabled, maxAttempts, backoffMs, skipIf and continueOnFailure
+   *                 example: { "callCenter": { "enabled": false } }
+   *     responses:
+   *       200:
+   *         description: Job queued
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 job:
+   *                   $ref: '#/components/schemas/VerificationJob'
+   *       400:
+   *         description: Invalid request or workflow rules
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.post("/api/verification-jobs", requireAuth, requirePermission("job:write"), async (req, res) => {
+    try {
+      const userId = (req.session as any)?.userId;
+      const practiceId = (req.session as any)?.practiceId;
+      const { patientId, insuranceId, scheduledFor, rules, provider } = req.body;
+
+      if (!patientId) {
+        return res.status(400).json({ error: "patientId is required" });
+      }
+
+      const patient = await storage.getPatientById(patientId);
+      if (!patient || patient.practiceId !== practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      if (insuranceId) {
+        const insurances = await storage.getPatientInsurances(patientId);
+        if (!insurances.some(i => i.id === insuranceId)) {
+          return res.status(404).json({ error: "Insurance not found" });
+        }
+      }
+
+      const scheduledDate = scheduledFor ? new Date(scheduledFor) : undefined;
+      if (scheduledDate && isNaN(scheduledDate.getTime())) {
+        return res.status(400).json({ error: "scheduledFor must be a valid date" });
+      }
+
+      const job = await enqueueVerificationJob({
+        patientId,
+        userId,
+        insuranceId,
+        scheduledFor: scheduledDate,
+        rules,
+        provider
+      });
+      res.json({ success: true, job });
+    } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to queue verification job" });
+    }
+  });
+
+  // rules and context stay out of job lists; context carries benefit data, read per job with an audit entry
+  const listedJob = ({ rules, context, ...job }: VerificationJob) => job;
+
+  /**
+   * @openapi
+   * /api/verification-jobs:
+   *   get:
+   *     tags:
+   *       - Verification Workflow
+   *     summary: List verification jobs
+   *     description: List the current user's verification jobs, newest first, without `rules` and `context`. Get a job by ID for those.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: patientId
+   *         schema:
+   *           type: string
+   *         description: Only jobs for this patient
+   *     responses:
+   *       200:
+   *         description: Jobs retrieved
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 jobs:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/VerificationJob'
+   */
+  app.get("/api/verification-jobs", requireAuth, requirePermission("job:read"), async (req, res) => {
+    try {
+      const userId = (req.session as any)?.userId;
+      const practiceId = (req.session as any)?.practiceId;
+      const patientId = typeof req.query.patientId === 'string' ? req.query.patientId : undefined;
+
+      if (patientId) {
+        const patient = await storage.getPatientById(patientId);
+        if (!patient || patient.practiceId !== practiceId) {
+          return res.status(403).json({ error: "Access denied" });
+        }
+        const jobs = await storage.getVerificationJobsByPatientId(patientId);
+        return res.json({ success: true, jobs: jobs.map(listedJob) });
+      }
+
+      if (!practiceId) {
+        return res.status(403).json({ error: "No practice selected" });
+      }
+      const jobs = await storage.getVerificationJobsByPracticeId(practiceId);
+      res.json({ success: true, jobs: jobs.map(listedJob) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch verification jobs" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/verification-jobs/rules:
+   *   get:
+   *     tags:
+   *       - Verification Workflow
+   *     summary: Get the effective workflow rules
+   *     description: Default retry/skip rules per step, after VERIFICATION_WORKFLOW_RULES overrides
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: Rules retrieved
+   */
+  app.get("/api/verification-jobs/rules", requireAuth, requirePermission("job:read"), async (req, res) => {
+    try {
+      res.json({ success: true, rules: resolveWorkflowRules() });
+    } catch (error: any) {
+      res.status(500).json({ error: "Invalid VERIFICATION_WORKFLOW_RULES", details: error.message });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/verification-jobs/{id}:
+   *   get:
+   *     tags:
+   *       - Verification Workflow
+   *     summary: Get a verification job
+   *     description: Get a job with every step attempt and its timestamps
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Job retrieved
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 job:
+   *                   $ref: '#/components/schemas/VerificationJob'
+   *                 steps:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/VerificationJobStep'
+   *                 transactions:
+   *                   type: array
+   *                   description: Transactions written by the job's steps
+   *                   items:
+   *                     $ref: '#/components/schemas/Transaction'
+   *       404:
+   *         description: Job not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  // Jobs belong to their patient's practice; other practices' jobs read as not found
+  const getPracticeJob = async (id: string, practiceId: string | undefined) => {
+    const job = await storage.getVerificationJobById(id);
+    if (!job) return undefined;
+    const patient = await storage.getPatientById(job.patientId);
+    return patient && patient.practiceId === practiceId ? job : undefined;
+  };
+
+  app.get("/api/verification-jobs/:id", requireAuth, requirePermission("job:read"), async (req, res) => {
+    try {
+      const job = await getPracticeJob(req.params.id, (req.session as any)?.practiceId);
+      if (!job) {
+        return res.status(404).json({ error: "Verification job not found" });
+      }
+      const steps = await storage.getVerificationJobSteps(job.id);
+      const transactionIds = Array.from(new Set(steps.map(step => step.transactionId).filter(Boolean))) as string[];
+      const jobTransactions = (await Promise.all(transactionIds.map(id => storage.getTransactionById(id)))).filter(Boolean);
+      await recordAudit(req, { action: 'read', resource: 'job', patientId: job.patientId, resourceId: job.id });
+      res.json({ success: true, job, steps, transactions: jobTransactions });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch verification job" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/verification-jobs/{id}/retry:
+   *   post:
+   *     tags:
+   *       - Verification Workflow
+   *     summary: Retry a failed verification job
+   *     description: Re-queues a failed or cancelled job from its first unfinished step
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Job re-queued
+   *       409:
+   *         description: Job is not failed or cancelled
+   */
+  app.post("/api/verification-jobs/:id/retry", requireAuth, requirePermission("job:write"), async (req, res) => {
+    try {
+      const job = await getPracticeJob(req.params.id, (req.session as any)?.practiceId);
+      if (!job) {
+        return res.status(404).json({ error: "Verification job not found" });
+      }
+      const updated = await retryVerificationJob(job);
+      res.json({ success: true, job: updated });
+    } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to retry verification job" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/verification-jobs/{id}/cancel:
+   *   post:
+   *     tags:
+   *       - Verification Workflow
+   *     summary: Cancel a verification job
+   *     description: Cancels a queued, waiting or running job. A running job stops before its next step.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Job cancelled
+   *       409:
+   *         description: Job already finished
+   */
+  app.post("/api/verification-jobs/:id/cancel", requireAuth, requirePermission("job:write"), async (req, res) => {
+    try {
+      const job = await getPracticeJob(req.params.id, (req.session as any)?.practiceId);
+      if (!job) {
+        return res.status(404).json({ error: "Verification job not found" });
+      }
+      const updated = await cancelVerificationJob(job);
+      res.json({ success: true, job: updated });
+    } catch (error: any) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to cancel verification job" });
+    }
+  });
 
-        // Create telecoms
-        await Promise.all(sampleData.telecoms.map(t =>
-          storage.createPatientTelecom({ ...t, patientId: newPatient.id })
-        ));
+  /**
+   * @openapi
+   * /api/jobs:
+   *   get:
+   *     tags:
+   *       - Verification Workflow
+   *     summary: List verification jobs by scheduled date
+   *     description: |
+   *       Jobs scheduled on `date`, or from `from` through `to` (inclusive) for week and month views,
+   *       with the patient, appointment and per-step status of each job.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: date
+   *         schema:
+   *           type: string
+   *           format: date
+   *         example: "2026-01-06"
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date
+   *     responses:
+   *       200:
+   *         description: Jobs retrieved
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 jobs:
+   *                   type: array
+   *                   items:
+   *                     allOf:
+   *                       - $ref: '#/components/schemas/VerificationJob'
+   *                       - type: object
+   *                         properties:
+   *                           patientName:
+   *                             type: string
+   *                           appointmentDate:
+   *                             type: string
+   *                             nullable: true
+   *                           appointmentTime:
+   *                             type: string
+   *                             nullable: true
+   *                           steps:
+   *                             type: object
+   *                             description: Latest status per step (pending when the step has not started)
+   *                             example: { "fetchPMS": "completed", "apiVerification": "in_progress", "documentAnalysis": "pending", "callCenter": "pending", "saveToPMS": "pending" }
+   *       400:
+   *         description: Missing or invalid dates
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/jobs", requireAuth, requirePermission("job:read"), async (req, res) => {
+    try {
+      const practiceId = (req.session as any)?.practiceId;
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      const fromDate = (req.query.from || req.query.date) as string | undefined;
+      const toDate = (req.query.to || req.query.date) as string | undefined;
 
-        // Create addresses
-        await Promise.all(sampleData.addresses.map(a =>
-          storage.createPatientAddress({
-            patientId: newPatient.id,
-            line1: a.line[0] || null,
-            line2: a.line[1] || null,
-            city: a.city,
-            state: a.state,
-            postalCode: a.postalCode
-          })
-        ));
+      if (!fromDate || !toDate || !datePattern.test(fromDate) || !datePattern.test(toDate)) {
+        return res.status(400).json({ error: "date (or from and to) is required in YYYY-MM-DD format" });
+      }
 
-        // Create insurances
-        await Promise.all(sampleData.insurances.map(i =>
-          storage.createInsurance({
-            patientId: newPatient.id,
-            type: i.type,
-            provider: i.provider,
-            policyNumber: encrypt(i.policyNumber),
-            groupNumber: encrypt(i.groupNumber),
-            subscriberName: i.subscriberName,
-            subscriberId: i.subscriberId,
-            relationship: i.relationship,
-            effectiveDate: i.effectiveDate,
-            expirationDate: i.expirationDate,
-            deductible: i.coverage.deductible,
-            deductibleMet: i.coverage.deductibleMet,
-            maxBenefit: i.coverage.maxBenefit,
-            preventiveCoverage: i.coverage.preventiveCoverage,
-            basicCoverage: i.coverage.basicCoverage,
-            majorCoverage: i.coverage.majorCoverage
-          })
-        ));
+      const from = new Date(`${fromDate}T00:00:00`);
+      const to = new Date(`${toDate}T00:00:00`);
+      to.setDate(to.getDate() + 1);
 
-        // Create 1 upcoming appointment on Tuesday after 1 week
-        const today = new Date();
-        const oneWeekLater = new Date(today);
-        oneWeekLater.setDate(today.getDate() + 7);
+      if (!practiceId) {
+        return res.status(403).json({ error: "No practice selected" });
+      }
 
-        // Find the next Tuesday after 1 week
-        // 0 = Sunday, 1 = Monday, 2 = Tuesday, etc.
-        const dayOfWeek = oneWeekLater.getDay();
-        const daysUntilTuesday = dayOfWeek <= 2 ? (2 - dayOfWeek) : (9 - dayOfWeek);
-        const nextTuesday = new Date(oneWeekLater);
-        nextTuesday.setDate(oneWeekLater.getDate() + daysUntilTuesday);
+      const jobs = await storage.getVerificationJobsScheduledBetween(practiceId, from, to);
+      const patientsById = new Map((await storage.getPatientsByPracticeId(practiceId)).map(p => [p.id, p]));
+      const appointmentsById = new Map(
+        (await storage.getAppointmentsByIds(jobs.map(j => j.appointmentId).filter(Boolean) as string[])).map(a => [a.id, a])
+      );
+      const steps = await storage.getVerificationJobStepsForJobs(jobs.map(j => j.id));
+
+      // rules and context stay server-side; context carries benefit data
+      const result = jobs.map(({ rules, context, ...job }) => {
+        const patient = patientsById.get(job.patientId);
+        const appointment = job.appointmentId ? appointmentsById.get(job.appointmentId) : undefined;
+
+        // Steps are ordered by start time, so the last row per step is its current state
+        const stepStatus: Record<string, string> = Object.fromEntries(WORKFLOW_STEPS.map(step => [step, 'pending']));
+        for (const step of steps) {
+          if (step.jobId === job.id) stepStatus[step.step] = step.status;
+        }
 
-        const appointment = {
-          patientId: newPatient.id,
-          date: nextTuesday.toISOString().split('T')[0],
-          time: '09:00',
-          type: sampleData.appointmentTypes[0],
-          status: 'scheduled',
-          provider: 'Dr. Smith'
+        return {
+          ...job,
+          patientName: patient ? `${patient.givenName} ${patient.familyName}` : job.patientId,
+          appointmentDate: appointment?.date || null,
+          appointmentTime: appointment?.time || null,
+          steps: stepStatus
         };
+      });
 
-        await storage.createAppointment(appointment);
+      await recordAudit(req, jobs.map(job => ({ action: 'read' as const, resource: 'job' as const, patientId: job.patientId, resourceId: job.id })));
+      res.json({ success: true, jobs: result });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
 
-        // Create verification status
-        await storage.createVerificationStatus({
-          patientId: newPatient.id,
-          fetchPMS: 'pending',
-          documentAnalysis: 'pending',
-          apiVerification: 'pending',
-          callCenter: 'pending',
-          saveToPMS: 'pending'
-        });
+  /**
+   * @openapi
+   * /api/jobs/schedule:
+   *   post:
+   *     tags:
+   *       - Verification Workflow
+   *     summary: Run the daily job scheduler now
+   *     description: |
+   *       Queues verification jobs for scheduled appointments in the next VERIFICATION_LOOKAHEAD_DAYS days,
+   *       as the nightly run does. Appointments that already have a job are skipped. Requires `job:schedule`.
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             properties:
+   *               date:
+   *                 type: string
+   *                 format: date
+   *                 description: Day to schedule from (defaults to today)
+   *     responses:
+   *       200:
+   *         description: Scheduler run finished
+   *       403:
+   *         description: Missing permission
+   */
+  app.post("/api/jobs/schedule", requireAuth, requirePermission("job:schedule"), async (req, res) => {
+    try {
+      const { date } = req.body || {};
+      if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        return res.status(400).json({ error: "date must be in YYYY-MM-DD format" });
+      }
+      const run = await scheduleDailyVerifications(date ? new Date(`${date}T00:00:00`) : new Date());
+      if (run.status === 'failed') {
+        return res.status(500).json({ error: "Scheduler run failed", details: run.errorMessage });
+      }
+      res.json({ success: true, run, config: dailyScheduleConfig() });
+    } catch (error: any) {
+      res.status(500).json({ error: "Failed to run scheduler", details: error.message });
+    }
+  });
 
-        // Create a 'Waiting' API transaction
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-        const apiRequestId = `REQ-${timestamp}-${patientId}-API`;
-        const patientFullName = `${sampleData.patient.name.given.join(' ')} ${sampleData.patient.name.family}`;
+  // Load dental codes
+  const dentalCodesPath = join(process.cwd(), "mockupdata", "common_dental_cdt_codes.json");
+  const dentalCodes = JSON.parse(readFileSync(dentalCodesPath, "utf-8"));
+
+  // Stedi dental benefits route
+  /**
+   * @openapi
+   * /api/stedi/dental-benefits:
+   *   post:
+   *     tags:
+   *       - Stedi Integration
+   *     summary: Check dental benefits via X12 270/271
+   *     description: |
+   *       Builds an X12 270 eligibility inquiry, sends it to the configured clearinghouse
+   *       (Stedi, or the canned-271 stub when ELIGIBILITY_STUB_DIR is set) and returns the
+   *       parsed 271 benefit segments (EB with their DTP and MSG). Either send subscriber +
+   *       provider directly, or send patientId (and optionally insuranceId) to build the
+   *       inquiry from the patient's stored insurance.
+   *
+   *       CDT codes are grouped by service type and checked with bounded concurrency
+   *       (ELIGIBILITY_CONCURRENCY) and retry/backoff (ELIGIBILITY_MAX_RETRIES); codes the
+   *       service type answers do not cover are sent as batched procedure inquiries. 271s
+   *       are cached per subscriber, payer and date.
+   *
+   *       The session's practice must have `integrations.eligibilityApi` turned on.
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - provider
+   *             properties:
+   *               tradingPartnerServiceId:
+   *                 type: string
+   *                 description: Payer ID sent in the 2100A NM1*PR segment (resolved from the payer directory when omitted)
+   *                 example: "62308"
+   *               payerName:
+   *                 type: string
+   *                 description: Carrier name looked up in the payer directory
+   *                 example: "Cigna Dental"
+   *               patientId:
+   *                 type: string
+   *                 example: "P0000001"
+   *               insuranceId:
+   *                 type: string
+   *               subscriber:
+   *                 type: object
+   *                 properties:
+   *                   memberId:
+   *                     type: string
+   *                     example: "12345678"
+   *                   firstName:
+   *                     type: string
+   *                     example: "John"
+   *                   lastName:
+   *                     type: string
+   *                     example: "Doe"
+   *                   dateOfBirth:
+   *                     type: string
+   *                     format: date
+   *                     example: "1990-01-15"
+   *               provider:
+   *                 type: object
+   *                 properties:
+   *                   npi:
+   *                     type: string
+   *                     example: "1234567890"
+   *                   organizationName:
+   *                     type: string
+   *                     example: "Smith Dental Practice"
+   *     responses:
+   *       200:
+   *         description: Dental benefits retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: object
+   *                   properties:
+   *                     general:
+   *                       type: object
+   *                       description: Parsed 271 for service type 35 (payer, subscriber, planDates, benefits)
+   *                     procedures:
+   *                       type: array
+   *                       description: Procedure-specific coverage details
+   *                       items:
+   *                         type: object
+   *                         properties:
+   *                           code:
+   *                             type: string
+   *                           description:
+   *                             type: string
+   *                           category:
+   *                             type: string
+   *                           serviceTypeCode:
+   *                             type: string
+   *                             example: "41"
+   *                           source:
+   *                             type: string
+   *                             nullable: true
+   *                             enum: [procedure, serviceType]
+   *                             description: Whether the benefit came from a procedure (EQ AD) or service type (EQ01) inquiry
+   *                           benefit:
+   *                             type: array
+   *                             nullable: true
+   *                             items:
+   *                               type: object
+   *                     meta:
+   *                       type: object
+   *                       properties:
+   *                         requests:
+   *                           type: integer
+   *                         cacheHits:
+   *                           type: integer
+   *                         retries:
+   *                           type: integer
+   *                         durationMs:
+   *                           type: integer
+   *       400:
+   *         description: Missing required fields
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 error:
+   *                   type: string
+   *       422:
+   *         description: Payer rejected the inquiry (AAA segments)
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 error:
+   *                   type: string
+   *                 rejections:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       loop:
+   *                         type: string
+   *                       code:
+   *                         type: string
+   *                         example: "75"
+   *                       description:
+   *                         type: string
+   *                         example: "Subscriber/Insured Not Found"
+   *                       followUpAction:
+   *                         type: string
+   *       409:
+   *         description: Live eligibility checks are turned off in the practice's integrations
+   *       502:
+   *         description: Clearinghouse unreachable or returned an unreadable 271
+   */
+  app.post("/api/stedi/dental-benefits", requireAuth, requirePermission("eligibility:check"), async (req, res) => {
+    try {
+      const { subscriber, provider, patientId, insuranceId, tradingPartnerServiceId, payerName } = req.body;
 
-        await db.insert(transactions).values({
-          requestId: apiRequestId,
-          patientId: newPatient.id,
-          patientName: patientFullName,
-          type: 'API',
-          method: 'POST /api/benefits/query',
-          startTime: '',
-          status: 'Waiting',
-          insuranceProvider: sampleData.insurances[0].provider,
-          fetchStatus: 'pending',
-          saveStatus: 'pending'
+      if ((!subscriber && !patientId) || !provider) {
+        return res.status(400).json({
+          success: false,
+          error: "Subscriber (or patientId) and provider information are required"
         });
-
-        createdPatients.push(newPatient);
       }
 
-      res.json({
-        success: true,
-        patientsCreated: createdPatients.length,
-        patients: createdPatients
-      });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch PMS data" });
-    }
-  });
-
-  // Update patient
-  app.put("/api/patients/:id", requireAuth, async (req, res) => {
-    try {
-      const { id } = req.params;
-      const userId = (req.session as any)?.userId;
-      const updates = req.body;
-
-      // Verify patient exists and belongs to current user
-      const existingPatient = await storage.getPatientById(id);
-      if (!existingPatient) {
-        return res.status(404).json({ error: "Patient not found" });
-      }
-      if (existingPatient.userId !== userId) {
-        return res.status(403).json({ error: "Access denied" });
+      const sessionPractice = await storage.getPracticeById((req.session as any)?.practiceId);
+      if (!sessionPractice?.integrations.eligibilityApi) {
+        return res.status(409).json({
+          success: false,
+          error: "Live eligibility checks are turned off for this practice"
+        });
       }
 
-      // Prepare updates with encryption for sensitive fields
-      const patientUpdates: any = {};
+      let inquiry: EligibilityInquiry;
 
-      // Transform name from client format to DB format if provided
-      if (updates.name) {
-        if (updates.name.given) {
-          patientUpdates.givenName = updates.name.given.filter(Boolean).join(' ');
+      // Resolve the payer ID from the directory unless the caller pinned one
+      const resolveInquiryPayer = async (carrierName: string | null | undefined) => {
+        if (tradingPartnerServiceId) {
+          return { id: tradingPartnerServiceId, name: payerName || tradingPartnerServiceId };
         }
-        if (updates.name.family) {
-          patientUpdates.familyName = updates.name.family;
+        const entry = await resolvePayer(carrierName);
+        if (!entry || !entry.payerId || !payerSupports(entry, 'API')) {
+          return undefined;
         }
-      }
-
-      // Handle other fields
-      if (updates.gender !== undefined) patientUpdates.gender = updates.gender;
-      if (updates.active !== undefined) patientUpdates.active = updates.active;
+        return { id: entry.payerId, name: entry.name };
+      };
 
-      // Encrypt sensitive fields
-      if (updates.birthDate) {
-        patientUpdates.birthDate = encrypt(updates.birthDate);
-      }
-      if (updates.ssn) {
-        // Prevent re-encrypting the mask
-        if (updates.ssn !== 'XXX-XX-XXXX' && updates.ssn !== '***-**-****') {
-          patientUpdates.ssn = encrypt(updates.ssn);
+      if (patientId) {
+        const practiceId = (req.session as any)?.practiceId;
+        const patient = await storage.getPatientById(patientId);
+        if (!patient || patient.practiceId !== practiceId) {
+          return res.status(403).json({ success: false, error: "Access denied" });
         }
-      }
-
-      // Update patient in database
-      const updatedPatient = await storage.updatePatient(id, patientUpdates);
-
-      if (!updatedPatient) {
-        return res.status(500).json({ error: "Failed to update patient" });
-      }
-
-      // Handle insurance updates if provided
-      if (updates.insurance && Array.isArray(updates.insurance)) {
-        // Get existing insurances for this patient
-        const existingInsurances = await storage.getPatientInsurances(id);
 
-        // Update or create insurance records
-        for (const insuranceData of updates.insurance) {
-          // Find matching existing insurance by type (Primary/Secondary)
-          const existingInsurance = existingInsurances.find(i => i.type === insuranceData.type);
-
-          if (existingInsurance) {
-            // Update existing insurance
-            await storage.updateInsurance(existingInsurance.id, {
-              provider: insuranceData.provider,
-              policyNumber: insuranceData.policyNumber === '************'
-                ? existingInsurance.policyNumber // Keep existing encrypted value
-                : (insuranceData.policyNumber ? encrypt(insuranceData.policyNumber) : null),
-              groupNumber: insuranceData.groupNumber === '********'
-                ? existingInsurance.groupNumber // Keep existing encrypted value
-                : (insuranceData.groupNumber ? encrypt(insuranceData.groupNumber) : null),
-              subscriberName: insuranceData.subscriberName,
-              subscriberId: insuranceData.subscriberId,
-              relationship: insuranceData.relationship,
-              effectiveDate: insuranceData.effectiveDate,
-              expirationDate: insuranceData.expirationDate,
-              deductible: insuranceData.coverage?.deductible || null,
-              deductibleMet: insuranceData.coverage?.deductibleMet || null,
-              maxBenefit: insuranceData.coverage?.maxBenefit || null,
-              preventiveCoverage: insuranceData.coverage?.preventiveCoverage || null,
-              basicCoverage: insuranceData.coverage?.basicCoverage || null,
-              majorCoverage: insuranceData.coverage?.majorCoverage || null
-            });
-          } else {
-            // Create new insurance
-            await storage.createInsurance({
-              patientId: id,
-              type: insuranceData.type,
-              provider: insuranceData.provider,
-              policyNumber: insuranceData.policyNumber ? encrypt(insuranceData.policyNumber) : null,
-              groupNumber: insuranceData.groupNumber ? encrypt(insuranceData.groupNumber) : null,
-              subscriberName: insuranceData.subscriberName,
-              subscriberId: insuranceData.subscriberId,
-              relationship: insuranceData.relationship,
-              effectiveDate: insuranceData.effectiveDate,
-              expirationDate: insuranceData.expirationDate,
-              deductible: insuranceData.coverage?.deductible || null,
-              deductibleMet: insuranceData.coverage?.deductibleMet || null,
-              maxBenefit: insuranceData.coverage?.maxBenefit || null,
-              preventiveCoverage: insuranceData.coverage?.preventiveCoverage || null,
-              basicCoverage: insuranceData.coverage?.basicCoverage || null,
-              majorCoverage: insuranceData.coverage?.majorCoverage || null
-            });
-          }
+        const insurances = await storage.getPatientInsurances(patientId);
+        const insurance = insuranceId
+          ? insurances.find(i => i.id === insuranceId)
+          : insurances.find(i => i.type === 'Primary') || insurances[0];
+        if (!insurance) {
+          return res.status(404).json({ success: false, error: "Insurance not found" });
         }
-      }
 
-      res.json({ success: true, patient: updatedPatient });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update patient" });
-    }
-  });
+        const payer = await resolveInquiryPayer(insurance.provider);
+        if (!payer) {
+          return res.status(400).json({
+            success: false,
+            error: `No electronic payer ID on file for "${insurance.provider}". Add it to the payer directory or pass tradingPartnerServiceId.`
+          });
+        }
 
-  app.get("/api/patients/:id", requireAuth, async (req, res) => {
-    try {
-      const { id } = req.params;
-      const patient = await storage.getPatientById(id);
+        inquiry = inquiryFromInsurance(patient, insurance, provider, payer);
+      } else {
+        const payer = await resolveInquiryPayer(payerName);
+        if (!payer) {
+          return res.status(400).json({
+            success: false,
+            error: "tradingPartnerServiceId (payer ID) or a payerName known to the payer directory is required"
+          });
+        }
 
-      if (!patient) {
-        return res.status(404).json({ error: "Patient not found" });
+        inquiry = { payer, provider, subscriber };
       }
 
-      // Get all related data
-      const [telecoms, addresses, insurances, appointments, treatments, verificationStatus, coverageDetail] = await Promise.all([
-        storage.getPatientTelecoms(patient.id),
-        storage.getPatientAddresses(patient.id),
-        storage.getPatientInsurances(patient.id),
-        storage.getPatientAppointments(patient.id),
-        storage.getPatientTreatments(patient.id),
-        storage.getPatientVerificationStatus(patient.id),
-        storage.getCoverageDetailByPatientId(patient.id)
-      ]);
+      // General coverage, one inquiry per service type, then batched procedure inquiries for the rest.
+      // 271s are cached per subscriber + payer + day, so re-verifying the same patient is instant.
+      const plan = await planDentalBenefits(inquiry, dentalCodes.data.procedures);
 
-      let procedures: any[] = [];
-      if (coverageDetail) {
-        procedures = await storage.getProceduresByCoverageId(coverageDetail.id);
+      res.json({ success: true, data: plan });
+    } catch (error: any) {
+      if (error instanceof EligibilityError) {
+        return res.status(error.status).json({
+          success: false,
+          error: error.message,
+          rejections: error.rejections
+        });
       }
-
-      // Transform addresses from DB format (line1, line2) to client format (line: string[])
-      const transformedAddresses = addresses.map(addr => ({
-        line: [addr.line1, addr.line2].filter(Boolean) as string[],
-        city: addr.city,
-        state: addr.state,
-        postalCode: addr.postalCode
-      }));
-
-      // Transform insurances from DB format to client format
-      // DB: flat fields → Client: nested coverage object
-      // Mask sensitive fields (HIPAA-compliant)
-      const transformedInsurances = insurances.map(ins => ({
-        id: ins.id, // Include insurance ID for decryption
-        type: ins.type,
-        provider: ins.provider,
-        policyNumber: ins.policyNumber ? '************' : null, // Masked (HIPAA)
-        policyNumberEncrypted: !!ins.policyNumber,
-        groupNumber: ins.groupNumber ? '********' : null, // Masked (HIPAA)
-        groupNumberEncrypted: !!ins.groupNumber,
-        subscriberName: ins.subscriberName,
-        subscriberId: ins.subscriberId,
-        relationship: ins.relationship,
-        effectiveDate: ins.effectiveDate,
-        expirationDate: ins.expirationDate,
-        coverage: {
-          deductible: ins.deductible || '',
-          deductibleMet: ins.deductibleMet || '',
-          maxBenefit: ins.maxBenefit || '',
-          preventiveCoverage: ins.preventiveCoverage || '',
-          basicCoverage: ins.basicCoverage || '',
-          majorCoverage: ins.majorCoverage || ''
-        }
-      }));
-
-      // Transform patient from DB format to client format
-      // DB: { givenName, familyName } → Client: { name: { given: string[], family: string } }
-      const givenNames = patient.givenName ? patient.givenName.split(' ') : [];
-
-      // Mask sensitive data (HIPAA-compliant)
-      // Mask telecom data (phone, email)
-      const maskedTelecoms = telecoms.map(t => ({
-        system: t.system,
-        value: t.system === 'phone' ? '(***) ***-****' : t.system === 'email' ? '****@****.***' : t.value,
-        encrypted: t.system === 'phone' || t.system === 'email' // Mark as encrypted for UI
-      }));
-
-      res.json({
-        success: true,
-        patient: {
-          id: patient.id,
-          active: patient.active,
-          name: {
-            given: givenNames,
-            family: patient.familyName
-          },
-          gender: patient.gender,
-          birthDate: patient.birthDate ? '****-**-**' : null, // Masked (HIPAA)
-          birthDateEncrypted: !!patient.birthDate,
-          ssn: patient.ssn ? '***-**-****' : null, // Masked (HIPAA)
-          ssnEncrypted: !!patient.ssn,
-          telecom: maskedTelecoms,
-          address: transformedAddresses,
-          insurance: transformedInsurances,
-          appointments,
-          treatments,
-
-          coverage: coverageDetail ? {
-            annual_maximum: coverageDetail.annualMaximum ? parseFloat(coverageDetail.annualMaximum) : 0,
-            annual_used: coverageDetail.annualUsed ? parseFloat(coverageDetail.annualUsed) : 0,
-            deductible: coverageDetail.deductible ? parseFloat(coverageDetail.deductible) : 0,
-            deductible_met: coverageDetail.deductibleMet ? parseFloat(coverageDetail.deductibleMet) : 0,
-            procedures: procedures.map(p => ({
-              code: p.code,
-              name: p.name,
-              category: p.category,
-              coverage: p.coverage || '',
-              estimated_cost: p.estimatedCost || '',
-              patient_pays: p.patientPays || ''
-            }))
-          } : undefined,
-          verificationStatus
-        }
+      res.status(500).json({
+        success: false,
+        error: error.message
       });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch patient" });
     }
   });
 
-  // Decrypt sensitive patient data endpoint (HIPAA-compliant)
+  // Save coverage by code data
   /**
    * @openapi
-   * /api/patients/{id}/decrypt:
+   * /api/coverage-by-code/{patientId}:
    *   post:
-   *     tags:
-   *       - Patients
-   *     summary: Decrypt sensitive patient data
-   *     description: Decrypt HIPAA-protected patient fields (birthDate, phone, email, ssn) - requires authentication and ownership verification
+   *     tags:
+   *       - Coverage
+   *     summary: Save coverage by code data
+   *     description: |
+   *       Save procedure-specific coverage data for a patient as a new run, from any verification
+   *       source. Each row records where its values came from: its own `source` if it names one,
+   *       else the run's. Earlier runs are kept for the history.
    *     security:
    *       - cookieAuth: []
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: patientId
    *         required: true
    *         schema:
    *           type: string
@@ -1401,15 +6476,51 @@ export async function registerRoutes(
    *           schema:
    *             type: object
    *             required:
-   *               - field
+   *               - coverageData
+   *               - source
    *             properties:
-   *               field:
+   *               source:
    *                 type: string
-   *                 enum: [birthDate, phone, email, ssn]
-   *                 example: birthDate
+   *                 enum: [API, CALL, FAX, ANALYSIS, MANUAL]
+   *               sourceRef:
+   *                 type: string
+   *                 description: ID of the transaction, document or fax the values came from
+   *               coverageData:
+   *                 type: array
+   *                 maxItems: 500
+   *                 items:
+   *                   type: object
+   *                   properties:
+   *                     saiCode:
+   *                       type: string
+   *                       example: VF000020
+   *                     refInsCode:
+   *                       type: string
+   *                       example: D020
+   *                     category:
+   *                       type: string
+   *                     fieldName:
+   *                       type: string
+   *                     preStepValue:
+   *                       type: string
+   *                       example: 80%
+   *                     aiCallValue:
+   *                       type: string
+   *                     verified:
+   *                       type: boolean
+   *                     verifiedBy:
+   *                       type: string
+   *                     comments:
+   *                       type: string
+   *                     source:
+   *                       type: string
+   *                       enum: [API, CALL, FAX, ANALYSIS, MANUAL]
+   *                       description: Where this row's values came from, if not the run's source
+   *                     sourceRef:
+   *                       type: string
    *     responses:
    *       200:
-   *         description: Field decrypted successfully
+   *         description: Coverage data saved successfully
    *         content:
    *           application/json:
    *             schema:
@@ -1417,201 +6528,234 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
-   *                 field:
-   *                   type: string
-   *                 value:
+   *                 message:
    *                   type: string
+   *                 run:
+   *                   $ref: '#/components/schemas/CoverageByCodeRun'
    *       400:
-   *         description: Invalid field specified
+   *         description: Unknown source or malformed rows
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 error:
+   *                   type: string
    *       403:
    *         description: Access denied
    *         content:
    *           application/json:
    *             schema:
-   *               $ref: '#/components/schemas/Error'
-   *       404:
-   *         description: Patient not found
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 error:
+   *                   type: string
    */
-  app.post("/api/patients/:id/decrypt", requireAuth, async (req, res) => {
+  app.post("/api/coverage-by-code/:patientId", requireAuth, requirePermission("coverage:write"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const { field } = req.body;
-
-      // List of allowed sensitive fields
-      const allowedFields = ['birthDate', 'phone', 'email', 'ssn'];
-
-      if (!field || !allowedFields.includes(field)) {
-        return res.status(400).json({ error: "Invalid field specified" });
-      }
-
-      const patient = await storage.getPatientById(id);
-
-      if (!patient) {
-        return res.status(404).json({ error: "Patient not found" });
-      }
-
-      // Verify patient belongs to current user
+      const { patientId } = req.params;
       const userId = (req.session as any)?.userId;
-      if (patient.userId !== userId) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-
-      // Decrypt the requested field
-      let decryptedValue = null;
-
-      try {
-        switch (field) {
-          case 'birthDate':
-            if (patient.birthDate) {
-              decryptedValue = decrypt(patient.birthDate);
-            }
-            break;
-
-          case 'phone':
-          case 'email':
-            // Fetch telecoms to get phone/email
-            const telecoms = await storage.getPatientTelecoms(patient.id);
-            const telecom = telecoms.find(t => t.system === field);
-            if (telecom?.value) {
-              // For now, telecoms are not encrypted, but we can encrypt them in the future
-              // If they were encrypted, we would decrypt here
-              decryptedValue = telecom.value;
-            }
-            break;
+      const practiceId = (req.session as any)?.practiceId;
+      const { coverageData, source, sourceRef } = req.body;
 
-          case 'ssn':
-            // Decrypt SSN (HIPAA-sensitive)
-            if (patient.ssn) {
-              decryptedValue = decrypt(patient.ssn);
-            }
-            break;
-
-          default:
-            return res.status(400).json({ error: "Field not supported" });
-        }
-      } catch (error) {
-        return res.status(500).json({ error: "Failed to decrypt data" });
+      // Verify patient belongs to current practice
+      const patient = await storage.getPatientById(patientId);
+      if (!patient || patient.practiceId !== practiceId) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied"
+        });
       }
 
+      const run = await saveCoverageRun(patient, userId, source, coverageData, sourceRef);
+
       res.json({
         success: true,
-        field,
-        value: decryptedValue
+        message: "Coverage by code data saved successfully",
+        run
+      });
+    } catch (error: any) {
+      if (error instanceof CoverageHistoryError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      res.status(500).json({
+        success: false,
+        error: error.message
       });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to decrypt patient data" });
     }
   });
 
-  // Decrypt sensitive insurance data endpoint (HIPAA-compliant)
-  app.post("/api/patients/:id/insurance/:insuranceId/decrypt", requireAuth, async (req, res) => {
+  // Get coverage by code data for a patient
+  /**
+   * @openapi
+   * /api/coverage-by-code/{patientId}:
+   *   get:
+   *     tags:
+   *       - Coverage
+   *     summary: Get coverage by code data
+   *     description: Retrieve the procedure-specific coverage data of the patient's latest run
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: patientId
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *     responses:
+   *       200:
+   *         description: Coverage data retrieved successfully
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 error:
+   *                   type: string
+   *       500:
+   *         description: Failed to fetch coverage data
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 error:
+   *                   type: string
+   */
+  app.get("/api/coverage-by-code/:patientId", requireAuth, requirePermission("coverage:read"), async (req, res) => {
     try {
-      const { id, insuranceId } = req.params;
-      const { field } = req.body;
-
-      // List of allowed sensitive insurance fields
-      const allowedFields = ['policyNumber', 'groupNumber'];
-
-      if (!field || !allowedFields.includes(field)) {
-        return res.status(400).json({ error: "Invalid field specified" });
-      }
-
-      const patient = await storage.getPatientById(id);
-
-      if (!patient) {
-        return res.status(404).json({ error: "Patient not found" });
-      }
-
-      // Verify patient belongs to current user
-      const userId = (req.session as any)?.userId;
-      if (patient.userId !== userId) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-
-      // Get insurance record
-      const insurances = await storage.getPatientInsurances(id);
-      const insurance = insurances.find(ins => ins.id === insuranceId);
+      const { patientId } = req.params;
+      const practiceId = (req.session as any)?.practiceId;
 
-      if (!insurance) {
-        return res.status(404).json({ error: "Insurance not found" });
+      // Verify patient belongs to current practice
+      const patient = await storage.getPatientById(patientId);
+      if (!patient || patient.practiceId !== practiceId) {
+        return res.status(403).json({
+          success: false,
+          error: "Access denied"
+        });
       }
 
-      // Decrypt the requested field
-      let decryptedValue = null;
+      const data = await storage.getCoverageByCodeForPatient(patientId, practiceId);
+      await recordAudit(req, { action: 'read', resource: 'coverage', patientId });
 
-      try {
-        switch (field) {
-          case 'policyNumber':
-            if (insurance.policyNumber) {
-              decryptedValue = decrypt(insurance.policyNumber);
-            }
-            break;
+      res.json({
+        success: true,
+        data
+      });
+    } catch (error: any) {
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
 
-          case 'groupNumber':
-            if (insurance.groupNumber) {
-              decryptedValue = decrypt(insurance.groupNumber);
-            }
-            break;
+  // Coverage by code history
+  /**
+   * @openapi
+   * /api/coverage-by-code/{patientId}/runs:
+   *   get:
+   *     tags:
+   *       - Coverage
+   *     summary: List coverage by code runs
+   *     description: The patient's saved coverage by code runs, newest first
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: patientId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Runs
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 success:
+   *                   type: boolean
+   *                 runs:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/CoverageByCodeRun'
+   *       403:
+   *         description: Access denied
+   */
+  app.get("/api/coverage-by-code/:patientId/runs", requireAuth, requirePermission("coverage:read"), async (req, res) => {
+    try {
+      const practiceId = (req.session as any)?.practiceId;
+      const patient = await storage.getPatientById(req.params.patientId);
+      if (!patient || patient.practiceId !== practiceId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
+      }
 
-          default:
-            return res.status(400).json({ error: "Field not supported" });
-        }
-      } catch (error) {
-        return res.status(500).json({ error: "Failed to decrypt data" });
+      const runs = await storage.getCoverageByCodeRuns(patient.id, practiceId);
+      const users = new Map<string, string>();
+      for (const userId of Array.from(new Set(runs.map(run => run.userId).filter((id): id is string => !!id)))) {
+        const user = await storage.getUser(userId);
+        if (user) users.set(userId, user.username);
       }
+      await recordAudit(req, { action: 'read', resource: 'coverage', patientId: patient.id });
 
       res.json({
         success: true,
-        field,
-        value: decryptedValue
+        runs: runs.map(run => ({ ...run, userName: run.userId ? users.get(run.userId) ?? null : null }))
       });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to decrypt insurance data" });
+    } catch (error: any) {
+      res.status(500).json({ success: false, error: error.message });
     }
   });
 
-  // OCR endpoint for insurance card scanning
   /**
    * @openapi
-   * /api/patients/{id}/insurance-card-ocr:
-   *   post:
+   * /api/coverage-by-code/{patientId}/runs/{runId}:
+   *   get:
    *     tags:
-   *       - Patients
-   *     summary: OCR scan insurance card
-   *     description: Upload and process an insurance card image using OCR to extract patient and insurance information
+   *       - Coverage
+   *     summary: Get a coverage by code run
+   *     description: The rows one run saved, as they were then
    *     security:
    *       - cookieAuth: []
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: patientId
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: runId
    *         required: true
    *         schema:
    *           type: string
-   *         description: Patient ID
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         multipart/form-data:
-   *           schema:
-   *             type: object
-   *             required:
-   *               - insuranceCardImage
-   *             properties:
-   *               insuranceCardImage:
-   *                 type: string
-   *                 format: binary
-   *                 description: Insurance card image (JPEG, PNG, or PDF, max 10MB)
    *     responses:
    *       200:
-   *         description: Insurance card processed successfully
+   *         description: The run and its rows
    *         content:
    *           application/json:
    *             schema:
@@ -1619,187 +6763,69 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
-   *                 extractedData:
-   *                   type: object
-   *                   properties:
-   *                     firstName:
-   *                       type: string
-   *                     lastName:
-   *                       type: string
-   *                     middleName:
-   *                       type: string
-   *                     provider:
-   *                       type: string
-   *                     policyNumber:
-   *                       type: string
-   *                     groupNumber:
-   *                       type: string
-   *                     subscriberId:
-   *                       type: string
-   *                 confidence:
-   *                   type: number
-   *                   description: OCR confidence score
-   *       400:
-   *         description: Insurance card image is required
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *                 run:
+   *                   $ref: '#/components/schemas/CoverageByCodeRun'
+   *                 data:
+   *                   type: array
+   *                   items:
+   *                     type: object
    *       403:
    *         description: Access denied
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
-   *       500:
-   *         description: OCR processing failed
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Run not found
    */
-  app.post("/api/patients/:id/insurance-card-ocr",
-    requireAuth,
-    upload.single('insuranceCardImage'),
-    async (req, res) => {
-      try {
-        const { id } = req.params;
-        const userId = (req.session as any)?.userId;
-
-        // Verify ownership
-        const patient = await storage.getPatientById(id);
-        if (!patient || patient.userId !== userId) {
-          return res.status(403).json({ error: "Access denied" });
-        }
-
-        if (!req.file) {
-          return res.status(400).json({ error: "Insurance card image is required" });
-        }
-
-
-        // Process OCR
-        const { extractedData, confidence } = await processInsuranceCard(req.file.buffer);
-
-        // Update patient name
-        await storage.updatePatient(id, {
-          givenName: `${extractedData.firstName} ${extractedData.middleName || ''}`.trim(),
-          familyName: extractedData.lastName
-        });
-
-        // Update or create insurance
-        const existingInsurances = await storage.getPatientInsurances(id);
-        const primaryInsurance = existingInsurances.find(i => i.type === 'Primary');
-
-        if (primaryInsurance) {
-          // Update existing primary insurance
-          await storage.updateInsurance(primaryInsurance.id, {
-            provider: extractedData.provider,
-            policyNumber: extractedData.policyNumber,
-            groupNumber: extractedData.groupNumber,
-            subscriberId: extractedData.subscriberId,
-            subscriberName: `${extractedData.firstName} ${extractedData.lastName}`
-          });
-        } else {
-          // Create new primary insurance
-          await storage.createInsurance({
-            patientId: id,
-            type: 'Primary',
-            provider: extractedData.provider,
-            policyNumber: extractedData.policyNumber,
-            groupNumber: extractedData.groupNumber,
-            subscriberId: extractedData.subscriberId,
-            subscriberName: `${extractedData.firstName} ${extractedData.lastName}`,
-            relationship: 'Self',
-            effectiveDate: null,
-            expirationDate: null,
-            deductible: null,
-            deductibleMet: null,
-            maxBenefit: null,
-            preventiveCoverage: null,
-            basicCoverage: null,
-            majorCoverage: null
-          });
-        }
-
-        res.json({ success: true, extractedData, confidence });
-      } catch (error) {
-        res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to process insurance card' });
-      }
-    }
-  );
-
-  app.delete("/api/patients/:id", requireAuth, async (req, res) => {
+  app.get("/api/coverage-by-code/:patientId/runs/:runId", requireAuth, requirePermission("coverage:read"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const userId = (req.session as any)?.userId;
-
-      // Verify patient exists and belongs to current user
-      const patient = await storage.getPatientById(id);
-      if (!patient) {
-        return res.status(404).json({ error: "Patient not found" });
-      }
-      if (patient.userId !== userId) {
-        return res.status(403).json({ error: "Access denied" });
+      const patient = await storage.getPatientById(req.params.patientId);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
       }
 
-      // Delete patient (cascade deletes will handle all related data)
-      const success = await storage.deletePatient(id);
+      const run = await patientRun(patient, req.params.runId);
+      const data = await storage.getCoverageByCodeForRun(run.id);
+      await recordAudit(req, { action: 'read', resource: 'coverage', resourceId: run.id, patientId: patient.id });
 
-      if (!success) {
-        return res.status(500).json({ error: "Failed to delete patient" });
+      res.json({ success: true, run, data });
+    } catch (error: any) {
+      if (error instanceof CoverageHistoryError) {
+        return res.status(error.status).json({ success: false, error: error.message });
       }
-
-      res.json({ success: true });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to delete patient" });
+      res.status(500).json({ success: false, error: error.message });
     }
   });
 
-  // Appointment routes
   /**
    * @openapi
-   * /api/patients/{id}/appointments:
-   *   post:
+   * /api/coverage-by-code/{patientId}/diff:
+   *   get:
    *     tags:
-   *       - Appointments
-   *     summary: Create a new appointment
-   *     description: Create a new appointment for a patient
+   *       - Coverage
+   *     summary: Compare two coverage by code runs
+   *     description: |
+   *       Codes added, removed or changed between two runs, with each changed field's value before
+   *       and after (e.g. a pre-step value going from 80% to 50%). Without `to` the latest run is
+   *       compared; without `from` the run before `to`.
    *     security:
    *       - cookieAuth: []
    *     parameters:
    *       - in: path
-   *         name: id
+   *         name: patientId
    *         required: true
    *         schema:
    *           type: string
-   *         description: Patient ID
-   *     requestBody:
-   *       required: true
-   *       content:
-   *         application/json:
-   *           schema:
-   *             type: object
-   *             properties:
-   *               date:
-   *                 type: string
-   *                 format: date
-   *                 example: "2025-12-30"
-   *               time:
-   *                 type: string
-   *                 example: "10:00 AM"
-   *               type:
-   *                 type: string
-   *                 example: "Cleaning"
-   *               status:
-   *                 type: string
-   *                 default: "scheduled"
-   *                 example: "scheduled"
-   *               provider:
-   *                 type: string
-   *                 example: "Dr. Smith"
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *         description: ID of the older run
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *         description: ID of the newer run
    *     responses:
    *       200:
-   *         description: Appointment created successfully
+   *         description: The diff
    *         content:
    *           application/json:
    *             schema:
@@ -1807,125 +6833,56 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
-   *                 appointment:
-   *                   type: object
-   *       401:
-   *         description: Authentication required
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *                 diff:
+   *                   $ref: '#/components/schemas/CoverageRunDiff'
+   *       400:
+   *         description: No earlier run to compare with, or from and to are the same run
    *       403:
    *         description: Access denied
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
    *       404:
-   *         description: Patient not found
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *         description: Run not found
    */
-  app.post("/api/patients/:id/appointments", requireAuth, async (req, res) => {
-    try {
-      const { id } = req.params;
-      const userId = (req.session as any)?.userId;
-      const appointmentData = req.body;
-
-      // Verify patient exists and belongs to current user
-      const patient = await storage.getPatientById(id);
-      if (!patient) {
-        return res.status(404).json({ error: "Patient not found" });
-      }
-      if (patient.userId !== userId) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-
-      // Create appointment
-      const appointment = await storage.createAppointment({
-        patientId: id,
-        date: appointmentData.date,
-        time: appointmentData.time,
-        type: appointmentData.type,
-        status: appointmentData.status || 'scheduled',
-        provider: appointmentData.provider
-      });
-
-      res.json({ success: true, appointment });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to create appointment" });
-    }
-  });
-
-  app.put("/api/patients/:id/appointments/:appointmentId", requireAuth, async (req, res) => {
-    try {
-      const { id, appointmentId } = req.params;
-      const userId = (req.session as any)?.userId;
-      const updates = req.body;
-
-      // Verify patient exists and belongs to current user
-      const patient = await storage.getPatientById(id);
-      if (!patient) {
-        return res.status(404).json({ error: "Patient not found" });
-      }
-      if (patient.userId !== userId) {
-        return res.status(403).json({ error: "Access denied" });
-      }
-
-      // Update appointment
-      const appointment = await storage.updateAppointment(appointmentId, updates);
-      if (!appointment) {
-        return res.status(404).json({ error: "Appointment not found" });
-      }
-
-      res.json({ success: true, appointment });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to update appointment" });
-    }
-  });
-
-  app.delete("/api/patients/:id/appointments/:appointmentId", requireAuth, async (req, res) => {
+  app.get("/api/coverage-by-code/:patientId/diff", requireAuth, requirePermission("coverage:read"), async (req, res) => {
     try {
-      const { id, appointmentId } = req.params;
-      const userId = (req.session as any)?.userId;
-
-      // Verify patient exists and belongs to current user
-      const patient = await storage.getPatientById(id);
-      if (!patient) {
-        return res.status(404).json({ error: "Patient not found" });
-      }
-      if (patient.userId !== userId) {
-        return res.status(403).json({ error: "Access denied" });
+      const patient = await storage.getPatientById(req.params.patientId);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ success: false, error: "Access denied" });
       }
 
-      // Delete appointment
-      const success = await storage.deleteAppointment(appointmentId);
-      if (!success) {
-        return res.status(404).json({ error: "Appointment not found" });
-      }
+      const from = typeof req.query.from === 'string' && req.query.from ? req.query.from : undefined;
+      const to = typeof req.query.to === 'string' && req.query.to ? req.query.to : undefined;
+      const diff = await diffPatientRuns(patient, from, to);
+      await recordAudit(req, [
+        { action: 'read', resource: 'coverage', resourceId: diff.from.id, patientId: patient.id },
+        { action: 'read', resource: 'coverage', resourceId: diff.to.id, patientId: patient.id },
+      ]);
 
-      res.json({ success: true });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to delete appointment" });
+      res.json({ success: true, diff });
+    } catch (error: any) {
+      if (error instanceof CoverageHistoryError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      res.status(500).json({ success: false, error: error.message });
     }
   });
 
-  // Transaction routes
+  // Verification form template routes
   /**
    * @openapi
-   * /api/transactions:
+   * /api/verification-form-templates:
    *   get:
    *     tags:
-   *       - Transactions
-   *     summary: Get all transactions
-   *     description: Retrieve all transactions for the authenticated user
+   *       - Coverage
+   *     summary: List verification form templates
+   *     description: |
+   *       Active templates of the user's practice and those for every practice; users with
+   *       `form-template:manage` get every template, inactive ones included. `standard` holds the
+   *       sections of the built-in form, used when no template applies.
    *     security:
    *       - cookieAuth: []
    *     responses:
    *       200:
-   *         description: Transactions retrieved successfully
+   *         description: Templates, by name
    *         content:
    *           application/json:
    *             schema:
@@ -1933,40 +6890,37 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
-   *                 transactions:
+   *                 templates:
    *                   type: array
    *                   items:
-   *                     $ref: '#/components/schemas/Transaction'
-   *       401:
-   *         description: Authentication required
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
-   *       500:
-   *         description: Failed to fetch transactions
-   *         content:
-   *           application/json:
-   *             schema:
-   *               $ref: '#/components/schemas/Error'
+   *                     $ref: '#/components/schemas/VerificationFormTemplate'
+   *                 standard:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/VerificationFormTemplateSection'
    */
-  app.get("/api/transactions", requireAuth, async (req, res) => {
+  app.get("/api/verification-form-templates", requireAuth, requirePermission("coverage:read"), async (req, res) => {
     try {
-      const transactions = await storage.getAllTransactions();
-      res.json({ success: true, transactions });
+      const templates = hasPermission((req.session as any)?.userRole, "form-template:manage")
+        ? await storage.getVerificationFormTemplates()
+        : await templatesForPractice((req.session as any)?.practiceId ?? null);
+      res.json({ success: true, templates, standard: STANDARD_TEMPLATE_SECTIONS });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch transactions" });
+      res.status(500).json({ error: "Failed to fetch verification form templates" });
     }
   });
 
   /**
    * @openapi
-   * /api/transactions:
+   * /api/verification-form-templates:
    *   post:
    *     tags:
-   *       - Transactions
-   *     summary: Create a new transaction
-   *     description: Create a new transaction record with optional verified data and call communications
+   *       - Coverage
+   *     summary: Create a verification form template (requires `form-template:manage`)
+   *     description: |
+   *       A template applies to the forms of one practice (or every practice when `practiceId` is
+   *       null) for one payer (or every payer). Field keys of the standard form keep its values;
+   *       other keys are the template's own.
    *     security:
    *       - cookieAuth: []
    *     requestBody:
@@ -1974,32 +6928,10 @@ export async function registerRoutes(
    *       content:
    *         application/json:
    *           schema:
-   *             type: object
-   *             properties:
-   *               requestId:
-   *                 type: string
-   *                 description: Request ID (auto-generated if not provided)
-   *                 example: "REQ-2025-12-27-12-30-00"
-   *               patientId:
-   *                 type: string
-   *                 nullable: true
-   *                 description: Associated patient ID
-   *               status:
-   *                 type: string
-   *                 description: Transaction status
-   *               dataVerified:
-   *                 type: array
-   *                 description: Array of verified data items
-   *                 items:
-   *                   type: string
-   *               callCommunications:
-   *                 type: array
-   *                 description: Array of call communication records
-   *                 items:
-   *                   type: object
+   *             $ref: '#/components/schemas/VerificationFormTemplate'
    *     responses:
    *       200:
-   *         description: Transaction created successfully
+   *         description: Template created
    *         content:
    *           application/json:
    *             schema:
@@ -2007,294 +6939,381 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
-   *                 transaction:
-   *                   $ref: '#/components/schemas/Transaction'
-   *       401:
-   *         description: Authentication required
+   *                 template:
+   *                   $ref: '#/components/schemas/VerificationFormTemplate'
+   *       400:
+   *         description: Invalid template, or no such practice or payer
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
    *       403:
-   *         description: Access denied
+   *         description: Missing permission
    *         content:
    *           application/json:
    *             schema:
    *               $ref: '#/components/schemas/Error'
-   *       500:
-   *         description: Failed to create transaction
-   *         content:
-   *           application/json:
-   *             schema:
-   *               type: object
-   *               properties:
-   *                 error:
-   *                   type: string
-   *                 details:
-   *                   type: string
    */
-  app.post("/api/transactions", requireAuth, async (req, res) => {
+  app.post("/api/verification-form-templates", requireAuth, requirePermission("form-template:manage"), async (req, res) => {
     try {
+      const values = await parseTemplateBody(req.body, true);
       const userId = (req.session as any)?.userId;
-      const transactionData = req.body;
-
-
-      // Verify patient belongs to current user if patientId is provided
-      if (transactionData.patientId) {
-        const patient = await storage.getPatientById(transactionData.patientId);
-        if (!patient || patient.userId !== userId) {
-          return res.status(403).json({ error: "Access denied" });
-        }
-      }
-
-      // Generate request ID if not provided
-      if (!transactionData.requestId) {
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-        transactionData.requestId = `REQ-${timestamp}`;
+      const template = await storage.createVerificationFormTemplate({
+        ...values,
+        name: values.name!,
+        sections: values.sections!,
+        createdBy: userId,
+        updatedBy: userId,
+      });
+      res.json({ success: true, template });
+    } catch (error) {
+      if (error instanceof FormTemplateError) {
+        return res.status(error.status).json({ error: error.message });
       }
+      res.status(500).json({ error: "Failed to create verification form template" });
+    }
+  });
 
-      // Remove dataVerified and callCommunications from main transaction data
-      const { dataVerified, callCommunications: comms, ...txnData } = transactionData;
-
-
-      // Insert transaction
-      const [transaction] = await db.insert(transactions).values(txnData).returning();
-
-      // Insert verified data items if provided
-      if (dataVerified && Array.isArray(dataVerified)) {
-        for (const item of dataVerified) {
-          await db.insert(transactionDataVerified).values({
-            transactionId: transaction.id,
-            item
-          });
-        }
+  /**
+   * @openapi
+   * /api/verification-form-templates/{id}:
+   *   put:
+   *     tags:
+   *       - Coverage
+   *     summary: Update a verification form template (requires `form-template:manage`)
+   *     description: Forms already saved on the template show its new fields from their next version.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             $ref: '#/components/schemas/VerificationFormTemplate'
+   *     responses:
+   *       200:
+   *         description: Template updated
+   *       400:
+   *         description: Invalid template, or no such practice or payer
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: Template not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.put("/api/verification-form-templates/:id", requireAuth, requirePermission("form-template:manage"), async (req, res) => {
+    try {
+      const values = await parseTemplateBody(req.body, false);
+      const template = await storage.updateVerificationFormTemplate(req.params.id, {
+        ...values,
+        updatedBy: (req.session as any)?.userId,
+      });
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
       }
-
-      // Insert call communications if provided
-      if (comms && Array.isArray(comms)) {
-        for (const comm of comms) {
-          await db.insert(callCommunications).values({
-            transactionId: transaction.id,
-            ...comm
-          });
-        }
+      res.json({ success: true, template });
+    } catch (error) {
+      if (error instanceof FormTemplateError) {
+        return res.status(error.status).json({ error: error.message });
       }
-
-      res.json({ success: true, transaction });
-    } catch (error: any) {
-      res.status(500).json({
-        error: "Failed to create transaction",
-        details: error.message
-      });
+      res.status(500).json({ error: "Failed to update verification form template" });
     }
   });
 
-  app.get("/api/transactions/:id", requireAuth, async (req, res) => {
+  /**
+   * @openapi
+   * /api/verification-form-templates/{id}:
+   *   delete:
+   *     tags:
+   *       - Coverage
+   *     summary: Delete a verification form template (requires `form-template:manage`)
+   *     description: Only templates no saved form version uses can be deleted; deactivate the others.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Template deleted
+   *       404:
+   *         description: Template not found
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: Saved forms use the template
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.delete("/api/verification-form-templates/:id", requireAuth, requirePermission("form-template:manage"), async (req, res) => {
     try {
       const { id } = req.params;
-      const transaction = await storage.getTransactionById(id);
-      if (!transaction) {
-        return res.status(404).json({ error: "Transaction not found" });
+      if (await storage.isVerificationFormTemplateInUse(id)) {
+        return res.status(409).json({ error: "Saved forms use this template; deactivate it instead" });
       }
-      res.json({ success: true, transaction });
+      const success = await storage.deleteVerificationFormTemplate(id);
+      if (!success) {
+        return res.status(404).json({ error: "Template not found" });
+      }
+      res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch transaction" });
+      res.status(500).json({ error: "Failed to delete verification form template" });
     }
   });
 
-  app.put("/api/transactions/:id", requireAuth, async (req, res) => {
+  // Verification form routes
+  /**
+   * @openapi
+   * /api/patients/{id}/verification-form:
+   *   get:
+   *     tags:
+   *       - Coverage
+   *     summary: Get a patient's verification form and the values to prefill it with
+   *     description: |
+   *       Returns the latest saved version of the form for one of the patient's insurances (null if
+   *       never saved) and values gathered from the patient and insurance records, the latest
+   *       confirmed card scan, document analysis, eligibility response and AI call results. Fields the
+   *       user may not decrypt (SSNs without `patient:decrypt-ssn`; birth dates and group number
+   *       without `patient:decrypt`) are blank and listed in `withheld`. `template` is the template the
+   *       form was saved on, or for a new form the practice's template for the payer (null for the
+   *       standard form); `templates` lists the ones the user can switch to.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *       - in: query
+   *         name: insuranceId
+   *         schema:
+   *           type: string
+   *         description: Defaults to the primary insurance
+   *       - in: query
+   *         name: version
+   *         schema:
+   *           type: integer
+   *         description: An earlier saved version instead of the latest
+   *       - in: query
+   *         name: templateId
+   *         schema:
+   *           type: string
+   *         description: Prefill for this template instead (`standard` for the standard form)
+   *     responses:
+   *       200:
+   *         description: Form and prefill values
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 insuranceId:
+   *                   type: string
+   *                 insurances:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       id:
+   *                         type: string
+   *                       type:
+   *                         type: string
+   *                       provider:
+   *                         type: string
+   *                 form:
+   *                   nullable: true
+   *                   allOf:
+   *                     - $ref: '#/components/schemas/VerificationForm'
+   *                 prefill:
+   *                   $ref: '#/components/schemas/VerificationFormPrefill'
+   *                 template:
+   *                   nullable: true
+   *                   allOf:
+   *                     - $ref: '#/components/schemas/VerificationFormTemplate'
+   *                 templates:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   *                     properties:
+   *                       id:
+   *                         type: string
+   *                       name:
+   *                         type: string
+   *                       description:
+   *                         type: string
+   *                         nullable: true
+   *       400:
+   *         description: Invalid version, or templateId names no active template of the practice
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: The patient has no such insurance, or the form no such version
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/patients/:id/verification-form", requireAuth, requirePermission("coverage:read"), async (req, res) => {
     try {
       const { id } = req.params;
-      const userId = (req.session as any)?.userId;
-      const transactionData = req.body;
-
-
-      // Verify transaction exists
-      const existingTransaction = await storage.getTransactionById(id);
-      if (!existingTransaction) {
-        return res.status(404).json({ error: "Transaction not found" });
-      }
-
-      // Verify patient belongs to current user if patientId is in the transaction
-      if (existingTransaction.patientId) {
-        const patient = await storage.getPatientById(existingTransaction.patientId);
-        if (!patient || patient.userId !== userId) {
-          return res.status(403).json({ error: "Access denied" });
-        }
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      // Remove dataVerified and callCommunications from main transaction data
-      const { dataVerified, callCommunications: comms, ...txnData } = transactionData;
-
-      // Update transaction
-      const [updatedTransaction] = await db.update(transactions)
-        .set(txnData)
-        .where(eq(transactions.id, id))
-        .returning();
-
-
-      // Delete existing verified data items and insert new ones if provided
-      if (dataVerified && Array.isArray(dataVerified)) {
-        await db.delete(transactionDataVerified).where(eq(transactionDataVerified.transactionId, id));
-        for (const item of dataVerified) {
-          await db.insert(transactionDataVerified).values({
-            transactionId: id,
-            item
-          });
-        }
+      const role = (req.session as any)?.userRole;
+      const insurance = await resolveFormInsurance(id, req.query.insuranceId);
+      const version = req.query.version !== undefined ? parseInt(String(req.query.version), 10) : undefined;
+      if (version !== undefined && !(version > 0)) {
+        return res.status(400).json({ error: "version must be a positive number" });
       }
 
-      // Delete existing call communications and insert new ones if provided
-      if (comms && Array.isArray(comms)) {
-        await db.delete(callCommunications).where(eq(callCommunications.transactionId, id));
-        for (const comm of comms) {
-          await db.insert(callCommunications).values({
-            transactionId: id,
-            ...comm
-          });
-        }
+      const form = await getVerificationForm(patient, insurance, role, version);
+      if (version !== undefined && !form) {
+        return res.status(404).json({ error: "Verification form version not found" });
       }
+      const template = req.query.templateId !== undefined
+        ? await selectFormTemplate(patient, req.query.templateId === 'standard' ? null : req.query.templateId)
+        : await templateOfForm(patient, insurance, form);
+      const prefill = await prefillVerificationForm(patient, insurance, role, template);
+      const insurances = await storage.getPatientInsurances(id);
+      const templates = await templatesForPractice(patient.practiceId);
 
-      // Auto-create CALL transaction when API transaction is updated to SUCCESS
-      if (existingTransaction.type === 'API' &&
-          txnData.status === 'SUCCESS' &&
-          existingTransaction.status !== 'SUCCESS') {
-
-        // Generate new request ID for CALL transaction
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-        const callRequestId = `REQ-${timestamp}-CALL`;
-
-        const callTransactionData = {
-          requestId: callRequestId,
-          patientId: existingTransaction.patientId,
-          patientName: existingTransaction.patientName,
-          type: 'CALL',
-          method: 'Insurance Verification Call',
-          startTime: '', // Empty - waiting to start
-          status: 'Waiting',
-          insuranceProvider: existingTransaction.insuranceProvider || '-',
-          fetchStatus: 'pending',
-          saveStatus: 'pending'
-        };
-
-        await db.insert(transactions).values(callTransactionData);
-      }
+      await recordAudit(req, [
+        { action: 'read', resource: 'verification-form', patientId: id, resourceId: form?.id },
+        ...[...new Set([...(form ? revealedFields(form) : []), ...revealedFields(prefill)])]
+          .map(field => ({ action: 'decrypt' as const, resource: 'verification-form' as const, patientId: id, resourceId: form?.id, field })),
+      ]);
 
-      res.json({ success: true, transaction: updatedTransaction });
-    } catch (error: any) {
-      res.status(500).json({
-        error: "Failed to update transaction",
-        details: error.message
+      res.json({
+        insuranceId: insurance.id,
+        insurances: insurances.map(i => ({ id: i.id, type: i.type, provider: i.provider })),
+        form,
+        prefill,
+        template: template ?? null,
+        templates: templates.map(t => ({ id: t.id, name: t.name, description: t.description })),
       });
-    }
-  });
-
-  app.get("/api/transactions/:id/communications", requireAuth, async (req, res) => {
-    try {
-      const { id } = req.params;
-      const communications = await storage.getCallCommunicationsByTransactionId(id);
-      res.json({ success: true, communications });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch communications" });
+      if (error instanceof VerificationFormError || error instanceof FormTemplateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to fetch verification form" });
     }
   });
 
-  app.get("/api/transactions/:id/verified-data", requireAuth, async (req, res) => {
+  /**
+   * @openapi
+   * /api/patients/{id}/verification-form/versions:
+   *   get:
+   *     tags:
+   *       - Coverage
+   *     summary: List the saved versions of a patient's verification form
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *       - in: query
+   *         name: insuranceId
+   *         schema:
+   *           type: string
+   *         description: Defaults to the primary insurance
+   *     responses:
+   *       200:
+   *         description: Versions, newest first
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 versions:
+   *                   type: array
+   *                   items:
+   *                     $ref: '#/components/schemas/VerificationFormVersion'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: The patient has no such insurance
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/patients/:id/verification-form/versions", requireAuth, requirePermission("coverage:read"), async (req, res) => {
     try {
       const { id } = req.params;
-      const verifiedData = await storage.getTransactionDataVerifiedByTransactionId(id);
-      res.json({ success: true, verifiedData });
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch verified data" });
-    }
-  });
-
-  // Load dental codes
-  const dentalCodesPath = join(process.cwd(), "mockupdata", "common_dental_cdt_codes.json");
-  const dentalCodes = JSON.parse(readFileSync(dentalCodesPath, "utf-8"));
-
-  const STEDI_API_KEY = process.env.STEDI_API_KEY;
-  const STEDI_BASE_URL = "https://healthcare.us.stedi.com/2024-04-01";
-
-  // Helper function to call Stedi Eligibility API
-  async function checkEligibility(subscriber: any, provider: any, encounter: any, tradingPartnerServiceId: string = "CIGNA") {
-    // Format date of birth to YYYYMMDD format if it's in YYYY-MM-DD format
-    const formattedSubscriber = {
-      ...subscriber,
-      dateOfBirth: subscriber.dateOfBirth?.replace(/-/g, '')
-    };
-
-    const response = await axios.post(
-      `${STEDI_BASE_URL}/change/medicalnetwork/eligibility/v3`,
-      {
-        tradingPartnerServiceId,
-        subscriber: formattedSubscriber,
-        provider,
-        encounter
-      },
-      {
-        headers: {
-          Authorization: STEDI_API_KEY,
-          "Content-Type": "application/json"
-        }
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
       }
-    );
-    return response.data;
-  }
-
-  // Check if general benefits already cover a procedure
-  function isCoveredInGeneral(generalBenefits: any, procedureCode: string) {
-    if (!generalBenefits || !generalBenefits.benefits) return false;
-    return generalBenefits.benefits.some(
-      (b: any) =>
-        b.service?.toUpperCase() === procedureCode.toUpperCase() ||
-        (b.serviceTypeCode === "35") // fallback for broad dental coverage
-    );
-  }
-
-  // Mock dental benefits data for testing
-  const getMockDentalBenefits = () => ({
-    general: {
-      benefits: [
-        {
-          service: "Dental - Preventive",
-          status: "active",
-          percentageCovered: "100",
-          copayAmount: "$0"
-        },
-        {
-          service: "Dental - Basic",
-          status: "active",
-          percentageCovered: "80",
-          copayAmount: "$25"
-        },
-        {
-          service: "Dental - Major",
-          status: "active",
-          percentageCovered: "50",
-          copayAmount: "$100"
-        }
-      ]
-    },
-    procedures: dentalCodes.data.procedures.slice(0, 20).map((code: any) => ({
-      code: code.code,
-      description: code.description,
-      category: code.category,
-      benefit: {
-        percentageCovered: code.category.toLowerCase().includes("preventive") ? "100" : "80"
+      const insurance = await resolveFormInsurance(id, req.query.insuranceId);
+      res.json({ versions: await listVerificationFormVersions(patient, insurance) });
+    } catch (error) {
+      if (error instanceof VerificationFormError) {
+        return res.status(error.status).json({ error: error.message });
       }
-    }))
+      res.status(500).json({ error: "Failed to fetch verification form versions" });
+    }
   });
 
-  // Stedi dental benefits route
   /**
    * @openapi
-   * /api/stedi/dental-benefits:
-   *   post:
+   * /api/patients/{id}/verification-form:
+   *   put:
    *     tags:
-   *       - Stedi Integration
-   *     summary: Check dental benefits via Stedi API
-   *     description: Query Stedi eligibility API for dental benefits including general coverage and procedure-specific benefits
+   *       - Coverage
+   *     summary: Save a patient's verification form as a new version
+   *     description: |
+   *       `baseVersion` is the version the edits started from (0 for a form never saved). If someone
+   *       saved in the meantime the request fails with 409 and the latest version, so nothing is
+   *       overwritten. Withheld fields keep their saved values. The version is saved on `templateId`
+   *       if given, else on the template of the latest version (or of a new form); the template's
+   *       required fields must not be blank.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
    *     requestBody:
    *       required: true
    *       content:
@@ -2302,316 +7321,363 @@ export async function registerRoutes(
    *           schema:
    *             type: object
    *             required:
-   *               - subscriber
-   *               - provider
+   *               - data
+   *               - baseVersion
    *             properties:
-   *               subscriber:
-   *                 type: object
-   *                 properties:
-   *                   memberId:
-   *                     type: string
-   *                     example: "12345678"
-   *                   firstName:
-   *                     type: string
-   *                     example: "John"
-   *                   lastName:
-   *                     type: string
-   *                     example: "Doe"
-   *                   dateOfBirth:
-   *                     type: string
-   *                     format: date
-   *                     example: "1990-01-15"
-   *               provider:
+   *               insuranceId:
+   *                 type: string
+   *                 description: Defaults to the primary insurance
+   *               baseVersion:
+   *                 type: integer
+   *               templateId:
+   *                 type: string
+   *                 nullable: true
+   *                 description: Null for the standard form
+   *               data:
    *                 type: object
-   *                 properties:
-   *                   npi:
-   *                     type: string
-   *                     example: "1234567890"
-   *                   organizationName:
-   *                     type: string
-   *                     example: "Smith Dental Practice"
+   *                 description: Form fields, with the template's own fields under `custom`; fields left out are saved empty
    *     responses:
    *       200:
-   *         description: Dental benefits retrieved successfully
+   *         description: Saved version
    *         content:
    *           application/json:
    *             schema:
    *               type: object
    *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 data:
-   *                   type: object
-   *                   properties:
-   *                     general:
-   *                       type: object
-   *                       description: General dental coverage information
-   *                     procedures:
-   *                       type: array
-   *                       description: Procedure-specific coverage details
-   *                       items:
-   *                         type: object
-   *                         properties:
-   *                           code:
-   *                             type: string
-   *                           description:
-   *                             type: string
-   *                           category:
-   *                             type: string
-   *                           benefit:
-   *                             type: object
-   *                 note:
-   *                   type: string
-   *                   description: Additional information (e.g., when using mock data)
+   *                 form:
+   *                   $ref: '#/components/schemas/VerificationForm'
    *       400:
-   *         description: Missing required fields
+   *         description: Invalid field, baseVersion or templateId, or blank required fields
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: The patient has no such insurance
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       409:
+   *         description: The form was saved by someone else since baseVersion
    *         content:
    *           application/json:
    *             schema:
    *               type: object
    *               properties:
-   *                 success:
-   *                   type: boolean
    *                 error:
    *                   type: string
-   *       500:
-   *         description: Stedi API error or configuration issue
+   *                 form:
+   *                   $ref: '#/components/schemas/VerificationForm'
+   */
+  app.put("/api/patients/:id/verification-form", requireAuth, requirePermission("coverage:write"), async (req, res) => {
+    const { id } = req.params;
+    const role = (req.session as any)?.userRole;
+    try {
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const insurance = await resolveFormInsurance(id, req.body?.insuranceId);
+      const template = req.body?.templateId !== undefined
+        ? await selectFormTemplate(patient, req.body.templateId)
+        : await templateOfForm(patient, insurance, await getVerificationForm(patient, insurance, role));
+      try {
+        const form = await saveVerificationForm({
+          patient,
+          insurance,
+          data: req.body?.data,
+          baseVersion: req.body?.baseVersion,
+          template,
+          userId: (req.session as any).userId,
+          role,
+        });
+        res.json({ form });
+      } catch (error) {
+        if (error instanceof VerificationFormError && error.status === 409) {
+          const form = await getVerificationForm(patient, insurance, role);
+          await recordAudit(req, { action: 'read', resource: 'verification-form', patientId: id, resourceId: form?.id });
+          return res.status(409).json({ error: error.message, form });
+        }
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof VerificationFormError || error instanceof FormTemplateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ error: "Failed to save verification form" });
+    }
+  });
+
+  // Saved version to print: `version` from the query or body, else the latest
+  const savedFormForPdf = async (patient: Patient, insurance: Insurance, role: string | undefined, rawVersion: unknown) => {
+    const version = rawVersion !== undefined && rawVersion !== '' ? Number(rawVersion) : undefined;
+    if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+      throw new VerificationFormError("version must be a positive number");
+    }
+    const form = await getVerificationForm(patient, insurance, role, version);
+    if (!form) {
+      throw new VerificationFormError(version ? "Verification form version not found" : "Save the verification form before printing it", 404);
+    }
+    return form;
+  };
+
+  /**
+   * @openapi
+   * /api/patients/{id}/verification-form/pdf:
+   *   get:
+   *     tags:
+   *       - Coverage
+   *     summary: A saved verification form as a letter-size PDF
+   *     description: |
+   *       Printed on the practice letterhead with patient, subscriber and plan details, coverage tables,
+   *       notes and signature lines. SSNs show their last four digits; fields the user may not decrypt
+   *       print as "Withheld". Viewing inline is audited as a print, downloading as an export.
+   *     security:
+   *       - cookieAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *         description: Patient ID
+   *       - in: query
+   *         name: insuranceId
+   *         schema:
+   *           type: string
+   *         description: Defaults to the primary insurance
+   *       - in: query
+   *         name: version
+   *         schema:
+   *           type: integer
+   *         description: Defaults to the latest version
+   *       - in: query
+   *         name: download
+   *         schema:
+   *           type: boolean
+   *         description: Send as an attachment instead of inline
+   *     responses:
+   *       200:
+   *         description: The form
+   *         content:
+   *           application/pdf: {}
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: No such insurance, or the form was never saved or has no such version
    *         content:
    *           application/json:
    *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 error:
-   *                   type: string
+   *               $ref: '#/components/schemas/Error'
    */
-  app.post("/api/stedi/dental-benefits", async (req, res) => {
+  app.get("/api/patients/:id/verification-form/pdf", requireAuth, requirePermission("coverage:read"), async (req, res) => {
     try {
-      const { subscriber, provider } = req.body;
-
-      if (!subscriber || !provider) {
-        return res.status(400).json({
-          success: false,
-          error: "Subscriber and provider information are required"
-        });
-      }
-
-      if (!STEDI_API_KEY) {
-        return res.status(500).json({
-          success: false,
-          error: "STEDI_API_KEY is not configured"
-        });
+      const { id } = req.params;
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      try {
-        // 1️⃣ General dental coverage (STC 35)
-        const generalBenefits = await checkEligibility(
-          subscriber,
-          provider,
-          { serviceTypeCodes: ["35"] },
-          "CIGNA"
-        );
-
-        const combinedResults = {
-          general: generalBenefits,
-          procedures: []
-        };
-
-        // 2️⃣ Loop CDT codes, skip if covered by general benefits
-        for (const item of dentalCodes.data.procedures) {
-          const covered = isCoveredInGeneral(generalBenefits, item.code);
-
-          let procedureBenefit = null;
-          if (!covered) {
-            procedureBenefit = await checkEligibility(
-              subscriber,
-              provider,
-              {
-                serviceTypeCodes: ["35"],
-                procedureCode: item.code
-              },
-              "CIGNA"
-            );
-          }
+      const insurance = await resolveFormInsurance(id, req.query.insuranceId);
+      const form = await savedFormForPdf(patient, insurance, (req.session as any)?.userRole, req.query.version);
+      const download = req.query.download === "true";
+      const user = await storage.getUser((req.session as any)?.userId);
+      const { pdf, fileName } = await renderVerificationForm(patient, insurance, form, user?.username || 'Smith AI System');
 
-          (combinedResults.procedures as any[]).push({
-            code: item.code,
-            description: item.description,
-            category: item.category,
-            benefit: procedureBenefit?.benefits || (covered ? "Covered in STC 35" : null)
-          });
-        }
+      await recordAudit(req, [
+        { action: download ? 'export' : 'print', resource: 'verification-form', patientId: id, resourceId: form.id },
+        ...revealedFields(form).map(field => ({ action: 'decrypt' as const, resource: 'verification-form' as const, patientId: id, resourceId: form.id, field })),
+      ]);
 
-        res.json({ success: true, data: combinedResults });
-      } catch (stediError: any) {
-        // If Stedi API fails, return mock data for testing UI
-        res.json({
-          success: true,
-          data: getMockDentalBenefits(),
-          note: "Mock data - Stedi API test case not found. Use real test credentials for production."
-        });
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `${download ? "attachment" : "inline"}; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+      res.setHeader("Cache-Control", "private, no-store");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.send(pdf);
+    } catch (error) {
+      if (error instanceof VerificationFormError) {
+        return res.status(error.status).json({ error: error.message });
       }
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: error.message
-      });
+      res.status(500).json({ error: "Failed to generate verification form PDF" });
     }
   });
 
-  // Save coverage by code data
   /**
    * @openapi
-   * /api/coverage-by-code/{patientId}:
+   * /api/patients/{id}/verification-form/pdf:
    *   post:
    *     tags:
    *       - Coverage
-   *     summary: Save coverage by code data
-   *     description: Save procedure-specific coverage data for a patient (requires Data Mode and STEDI Test to be enabled)
+   *     summary: Keep a saved verification form's PDF in the patient's documents
+   *     description: Stores the PDF from GET /api/patients/{id}/verification-form/pdf as a new `verification-form` document.
    *     security:
    *       - cookieAuth: []
    *     parameters:
    *       - in: path
-   *         name: patientId
+   *         name: id
    *         required: true
    *         schema:
    *           type: string
    *         description: Patient ID
    *     requestBody:
-   *       required: true
    *       content:
    *         application/json:
    *           schema:
    *             type: object
-   *             required:
-   *               - coverageData
-   *               - dataMode
-   *               - stediTest
    *             properties:
-   *               coverageData:
-   *                 type: array
-   *                 items:
-   *                   type: object
-   *                   properties:
-   *                     code:
-   *                       type: string
-   *                     name:
-   *                       type: string
-   *                     category:
-   *                       type: string
-   *                     coverage:
-   *                       type: string
-   *                     estimated_cost:
-   *                       type: string
-   *                     patient_pays:
-   *                       type: string
-   *               dataMode:
-   *                 type: boolean
-   *                 example: true
-   *               stediTest:
-   *                 type: boolean
-   *                 example: true
+   *               insuranceId:
+   *                 type: string
+   *                 description: Defaults to the primary insurance
+   *               version:
+   *                 type: integer
+   *                 description: Defaults to the latest version
    *     responses:
-   *       200:
-   *         description: Coverage data saved successfully
+   *       201:
+   *         description: Document stored
    *         content:
    *           application/json:
    *             schema:
    *               type: object
    *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 message:
-   *                   type: string
-   *       400:
-   *         description: Invalid request or data mode/stedi test not enabled
+   *                 document:
+   *                   $ref: '#/components/schemas/PatientDocument'
+   *       403:
+   *         description: Access denied
    *         content:
    *           application/json:
    *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 error:
-   *                   type: string
-   *       403:
-   *         description: Access denied
+   *               $ref: '#/components/schemas/Error'
+   *       404:
+   *         description: No such insurance, or the form was never saved or has no such version
    *         content:
    *           application/json:
    *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 error:
-   *                   type: string
+   *               $ref: '#/components/schemas/Error'
    */
-  app.post("/api/coverage-by-code/:patientId", requireAuth, async (req, res) => {
+  app.post("/api/patients/:id/verification-form/pdf", requireAuth, requirePermission("coverage:read", "patient:write"), async (req, res) => {
     try {
-      const { patientId } = req.params;
+      const { id } = req.params;
+      const patient = await storage.getPatientById(id);
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const insurance = await resolveFormInsurance(id, req.body?.insuranceId);
+      const form = await savedFormForPdf(patient, insurance, (req.session as any)?.userRole, req.body?.version);
       const userId = (req.session as any)?.userId;
-      const { coverageData, dataMode, stediTest } = req.body;
+      const user = await storage.getUser(userId);
+      const { pdf, fileName } = await renderVerificationForm(patient, insurance, form, user?.username || 'Smith AI System');
 
-      // Check if data mode is enabled and STEDI test is on
-      if (!dataMode || !stediTest) {
-        return res.status(400).json({
-          success: false,
-          error: "Coverage by code data can only be saved when Data Mode is ON and STEDI Test is ON"
-        });
-      }
+      await recordAudit(req, [
+        { action: 'export', resource: 'verification-form', patientId: id, resourceId: form.id, field: 'document' },
+        ...revealedFields(form).map(field => ({ action: 'decrypt' as const, resource: 'verification-form' as const, patientId: id, resourceId: form.id, field })),
+      ]);
 
-      if (!coverageData || !Array.isArray(coverageData)) {
-        return res.status(400).json({
-          success: false,
-          error: "Invalid coverage data format"
-        });
+      const document = await createDocument(patient, userId, 'verification-form', { buffer: pdf, originalname: fileName });
+      res.status(201).json({ document });
+    } catch (error) {
+      if (error instanceof VerificationFormError || error instanceof DocumentError) {
+        return res.status(error.status).json({ error: error.message });
       }
+      res.status(500).json({ error: "Failed to store verification form PDF" });
+    }
+  });
 
-      // Verify patient belongs to current user
-      const patient = await storage.getPatientById(patientId);
-      if (!patient || patient.userId !== userId) {
-        return res.status(403).json({
-          success: false,
-          error: "Access denied"
-        });
-      }
+  // Audit log routes
+  // Parses the viewer's filters; shared by the list and the CSV export
+  const parseAuditLogFilters = (query: any): { filters?: Omit<AuditLogQuery, "limit" | "before">; error?: string } => {
+    const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+    const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
 
-      await storage.saveCoverageByCode(patientId, userId, coverageData);
+    const actions = text(query.action)?.split(",").map(a => a.trim()).filter(Boolean);
+    if (actions?.some(action => !AUDIT_ACTIONS.includes(action as any))) {
+      return { error: `action must be one of ${AUDIT_ACTIONS.join(", ")}` };
+    }
 
-      res.json({
-        success: true,
-        message: "Coverage by code data saved successfully"
-      });
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: error.message
-      });
+    const fromDate = text(query.from);
+    const toDate = text(query.to);
+    if ((fromDate && !datePattern.test(fromDate)) || (toDate && !datePattern.test(toDate))) {
+      return { error: "from and to must be in YYYY-MM-DD format" };
     }
-  });
+    const to = toDate ? new Date(`${toDate}T00:00:00`) : undefined;
+    to?.setDate(to.getDate() + 1);
+
+    return {
+      filters: {
+        userId: text(query.userId),
+        patientId: text(query.patientId),
+        practiceId: text(query.practiceId),
+        actions,
+        from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+        to
+      }
+    };
+  };
 
-  // Get coverage by code data for a patient
   /**
    * @openapi
-   * /api/coverage-by-code/{patientId}:
+   * /api/audit-logs:
    *   get:
    *     tags:
-   *       - Coverage
-   *     summary: Get coverage by code data
-   *     description: Retrieve saved procedure-specific coverage data for a patient
+   *       - Audit Log
+   *     summary: Query the PHI access audit log (requires `audit:read`)
+   *     description: Entries newest first. Pass `nextCursor` from the previous page as `cursor` to fetch the next one.
    *     security:
    *       - cookieAuth: []
    *     parameters:
-   *       - in: path
+   *       - in: query
+   *         name: userId
+   *         schema:
+   *           type: string
+   *       - in: query
    *         name: patientId
-   *         required: true
    *         schema:
    *           type: string
-   *         description: Patient ID
+   *       - in: query
+   *         name: practiceId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: action
+   *         description: Comma-separated actions (read, decrypt, export, print, ocr)
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *           minimum: 1
+   *           maximum: 200
+   *           default: 50
+   *       - in: query
+   *         name: cursor
+   *         schema:
+   *           type: string
    *     responses:
    *       200:
-   *         description: Coverage data retrieved successfully
+   *         description: Audit log entries retrieved successfully
    *         content:
    *           application/json:
    *             schema:
@@ -2619,58 +7685,180 @@ export async function registerRoutes(
    *               properties:
    *                 success:
    *                   type: boolean
-   *                 data:
+   *                 entries:
    *                   type: array
    *                   items:
-   *                     type: object
+   *                     $ref: '#/components/schemas/AuditLogEntry'
+   *                 nextCursor:
+   *                   type: string
+   *                   nullable: true
+   *                 hasMore:
+   *                   type: boolean
+   *       400:
+   *         description: Invalid filter or cursor
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
    *       403:
-   *         description: Access denied
+   *         description: Missing permission
    *         content:
    *           application/json:
    *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 error:
-   *                   type: string
-   *       500:
-   *         description: Failed to fetch coverage data
+   *               $ref: '#/components/schemas/Error'
+   *   post:
+   *     tags:
+   *       - Audit Log
+   *     summary: Record a client-side print or export of patient data
+   *     security:
+   *       - cookieAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - patientId
+   *               - action
+   *             properties:
+   *               patientId:
+   *                 type: string
+   *               action:
+   *                 type: string
+   *                 enum: [print, export]
+   *               resource:
+   *                 type: string
+   *                 default: verification-form
+   *     responses:
+   *       200:
+   *         description: Entry recorded
+   *       400:
+   *         description: Invalid action
    *         content:
    *           application/json:
    *             schema:
-   *               type: object
-   *               properties:
-   *                 success:
-   *                   type: boolean
-   *                 error:
-   *                   type: string
+   *               $ref: '#/components/schemas/Error'
+   *       403:
+   *         description: Access denied
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
    */
-  app.get("/api/coverage-by-code/:patientId", requireAuth, async (req, res) => {
+  app.get("/api/audit-logs", requireAuth, requirePermission("audit:read"), async (req, res) => {
     try {
-      const { patientId } = req.params;
-      const userId = (req.session as any)?.userId;
+      const { filters, error } = parseAuditLogFilters(req.query);
+      if (error) {
+        return res.status(400).json({ error });
+      }
 
-      // Verify patient belongs to current user
-      const patient = await storage.getPatientById(patientId);
-      if (!patient || patient.userId !== userId) {
-        return res.status(403).json({
-          success: false,
-          error: "Access denied"
-        });
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+      if (isNaN(limit) || limit < 1 || limit > 200) {
+        return res.status(400).json({ error: "limit must be between 1 and 200" });
       }
 
-      const data = await storage.getCoverageByCodeForPatient(patientId, userId);
+      let before: { createdAt: string; id: string } | undefined;
+      if (req.query.cursor) {
+        try {
+          before = JSON.parse(Buffer.from(req.query.cursor as string, "base64url").toString("utf8"));
+        } catch {
+          before = undefined;
+        }
+        if (typeof before?.createdAt !== "string" || typeof before?.id !== "string") {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+      }
 
-      res.json({
-        success: true,
-        data
-      });
-    } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        error: error.message
-      });
+      const { entries, hasMore } = await storage.queryAuditLogs({ ...filters, limit, before });
+      const last = entries[entries.length - 1];
+      const nextCursor = hasMore && last
+        ? Buffer.from(JSON.stringify({ createdAt: last.createdAt.toISOString(), id: last.id })).toString("base64url")
+        : null;
+
+      res.json({ success: true, entries, nextCursor, hasMore });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  app.post("/api/audit-logs", requireAuth, requirePermission("patient:read"), async (req, res) => {
+    try {
+      const { patientId, action, resource = 'verification-form' } = req.body;
+      if (action !== 'print' && action !== 'export') {
+        return res.status(400).json({ error: "action must be print or export" });
+      }
+      if (resource !== 'verification-form') {
+        return res.status(400).json({ error: "resource must be verification-form" });
+      }
+
+      const patient = patientId ? await storage.getPatientById(patientId) : undefined;
+      if (!patient || patient.practiceId !== (req.session as any)?.practiceId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      await recordAudit(req, { action, resource, patientId });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to record audit entry" });
+    }
+  });
+
+  /**
+   * @openapi
+   * /api/audit-logs/export:
+   *   get:
+   *     tags:
+   *       - Audit Log
+   *     summary: Export the audit log as CSV (requires `audit:read`)
+   *     description: Every entry matching the same filters as `GET /api/audit-logs`, newest first. The export itself is logged.
+   *     security:
+   *       - cookieAuth: []
+   *     responses:
+   *       200:
+   *         description: CSV file
+   *         content:
+   *           text/csv:
+   *             schema:
+   *               type: string
+   *       400:
+   *         description: Invalid filter
+   *         content:
+   *           application/json:
+   *             schema:
+   *               $ref: '#/components/schemas/Error'
+   */
+  app.get("/api/audit-logs/export", requireAuth, requirePermission("audit:read"), async (req, res) => {
+    try {
+      const { filters, error } = parseAuditLogFilters(req.query);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      await recordAudit(req, { action: 'export', resource: 'audit-log', patientId: filters!.patientId });
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit-log-${new Date().toISOString().split("T")[0]}.csv"`);
+      res.write(AUDIT_CSV_HEADER + "\n");
+
+      // Page through the log so a large export is never held in memory at once
+      let before: { createdAt: string; id: string } | undefined;
+      for (;;) {
+        const { entries, hasMore } = await storage.queryAuditLogs({ ...filters, limit: 1000, before });
+        for (const entry of entries) {
+          res.write(auditLogCsvRow(entry) + "\n");
+        }
+        const last = entries[entries.length - 1];
+        if (!hasMore || !last) break;
+        before = { createdAt: last.createdAt.toISOString(), id: last.id };
+      }
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+      } else {
+        res.status(500).json({ error: "Failed to export audit log" });
+      }
     }
   });
 
@@ -0,0 +1,123 @@
+import type { SchedulerRun } from '@shared/schema';
+import { storage } from './storage';
+import { enqueueVerificationJob } from './workflow';
+
+const DAILY_VERIFICATION_TASK = 'daily-verification';
+const SCHEDULER_POLL_MS = 60 * 1000;
+
+export interface DailyScheduleConfig {
+  runAt: string; // HH:MM, server local time
+  lookaheadDays: number;
+  spacingMinutes: number; // gap between consecutive jobs' scheduled times
+}
+
+export function dailyScheduleConfig(): DailyScheduleConfig {
+  return {
+    runAt: process.env.VERIFICATION_SCHEDULE_TIME || '01:00',
+    lookaheadDays: parseInt(process.env.VERIFICATION_LOOKAHEAD_DAYS || '7', 10),
+    spacingMinutes: parseInt(process.env.VERIFICATION_JOB_SPACING_MINUTES || '2', 10),
+  };
+}
+
+/**
+ * YYYY-MM-DD in server local time, the format `appointments.date` uses
+ */
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function atTime(date: Date, hhmm: string): Date {
+  const [hours, minutes] = hhmm.split(':').map(n => parseInt(n, 10));
+  const result = new Date(date);
+  result.setHours(hours || 0, minutes || 0, 0, 0);
+  return result;
+}
+
+/**
+ * Queues a verification job for every scheduled appointment from `runDate` through the next
+ * `lookaheadDays` days. Appointments that already have a job (other than a cancelled one) are
+ * left alone, so running twice for the same day queues nothing new.
+ * Jobs are spaced `spacingMinutes` apart starting at the configured run time.
+ */
+export async function scheduleDailyVerifications(
+  runDate: Date = new Date(),
+  config: DailyScheduleConfig = dailyScheduleConfig()
+): Promise<SchedulerRun> {
+  const runDay = toDateString(runDate);
+  const existing = await storage.getSchedulerRun(DAILY_VERIFICATION_TASK, runDay);
+  const run = existing
+    ? (await storage.updateSchedulerRun(existing.id, { status: 'running', startedAt: new Date(), finishedAt: null, errorMessage: null }))!
+    : await storage.createSchedulerRun({ task: DAILY_VERIFICATION_TASK, runDate: runDay, status: 'running' });
+
+  try {
+    const lastDay = new Date(runDate);
+    lastDay.setDate(lastDay.getDate() + config.lookaheadDays);
+    const appointments = await storage.getScheduledAppointmentsBetween(runDay, toDateString(lastDay));
+
+    // Jobs due in the past (a manual run late in the day) start right away
+    let slot = Math.max(atTime(runDate, config.runAt).getTime(), Date.now());
+    let queued = 0;
+
+    for (const appointment of appointments) {
+      if (await storage.getActiveVerificationJobForAppointment(appointment.id)) continue;
+
+      const patient = await storage.getPatientById(appointment.patientId);
+      if (!patient || !patient.active) continue;
+
+      await enqueueVerificationJob({
+        patientId: patient.id,
+        userId: patient.userId,
+        appointmentId: appointment.id,
+        scheduledFor: new Date(slot),
+      });
+      slot += config.spacingMinutes * 60 * 1000;
+      queued++;
+    }
+
+    return (await storage.updateSchedulerRun(run.id, {
+      status: 'completed',
+      jobsQueued: (existing?.status === 'completed' ? existing.jobsQueued : 0) + queued,
+      finishedAt: new Date(),
+    }))!;
+  } catch (error) {
+    return (await storage.updateSchedulerRun(run.id, {
+      status: 'failed',
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      finishedAt: new Date(),
+    }))!;
+  }
+}
+
+let schedulerTimer: NodeJS.Timeout | undefined;
+let scheduling = false;
+
+async function checkDailySchedule() {
+  const now = new Date();
+  const config = dailyScheduleConfig();
+  if (scheduling || now < atTime(now, config.runAt)) return;
+
+  scheduling = true;
+  try {
+    // A 'running' row left by a crashed process is picked up again
+    const run = await storage.getSchedulerRun(DAILY_VERIFICATION_TASK, toDateString(now));
+    if (run?.status === 'completed') return;
+    await scheduleDailyVerifications(now, config);
+  } catch (error) {
+    // Database unavailable - try again on the next tick
+  } finally {
+    scheduling = false;
+  }
+}
+
+/**
+ * Starts the nightly scheduler. It checks once a minute and runs the day's scheduling once
+ * the configured time has passed and no completed run is recorded for today. A server that
+ * was down at the scheduled time catches up when it starts.
+ */
+export function startDailyScheduler(): void {
+  if (schedulerTimer) return;
+  schedulerTimer = setInterval(checkDailySchedule, SCHEDULER_POLL_MS);
+  checkDailySchedule();
+}
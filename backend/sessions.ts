@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import session from 'express-session';
+import connectPgSimple from 'connect-pg-simple';
+import type { Session, User } from '@shared/schema';
+import { storage } from './storage';
+
+// Absolute lifetime from login, whatever the activity
+export const SESSION_MAX_AGE_MS = 1000 * 60 * 60 * 24;
+
+// lastActivityAt is written at most this often, so an active user costs one session write a
+// minute rather than one per request
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 1000;
+
+export function sessionIdleTimeoutMs(): number {
+  return parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || '30', 10) * 60 * 1000;
+}
+
+/**
+ * express-session backed by the Postgres `session` table (see `sessions` in the schema), so
+ * sessions survive restarts and can be listed and revoked
+ */
+export function createSessionMiddleware(): RequestHandler {
+  const PgStore = connectPgSimple(session);
+  return session({
+    store: new PgStore({ conString: process.env.DATABASE_URL, tableName: 'session' }),
+    secret: process.env.SESSION_SECRET || 'your-secret-key-change-in-production',
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      secure: process.env.NODE_ENV === 'production',
+      httpOnly: true,
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  });
+}
+
+/**
+ * Ends API sessions that have been idle longer than SESSION_IDLE_TIMEOUT_MINUTES or are older
+ * than SESSION_MAX_AGE_MS; the request then continues signed out. Otherwise records activity.
+ */
+export function enforceSessionTimeouts(req: Request, res: Response, next: NextFunction): void {
+  const current = req.session as any;
+  if (!current?.userId || !req.path.startsWith('/api')) return next();
+
+  const now = Date.now();
+  const lastActivityAt = current.lastActivityAt ?? now;
+  const idle = now - lastActivityAt > sessionIdleTimeoutMs();
+  const expired = now - (current.createdAt ?? now) > SESSION_MAX_AGE_MS;
+
+  if (idle || expired) {
+    current.destroy(() => {
+      res.clearCookie('connect.sid');
+      next();
+    });
+    return;
+  }
+
+  if (now - lastActivityAt >= ACTIVITY_WRITE_INTERVAL_MS) {
+    current.lastActivityAt = now;
+  }
+  next();
+}
+
+/**
+ * Starts a fresh session for a user who just authenticated. The session ID is regenerated so a
+ * pre-login ID cannot be reused (session fixation).
+ */
+export async function startSession(req: Request, user: User): Promise<void> {
+  await new Promise<void>((resolve, reject) => req.session.regenerate((err: any) => err ? reject(err) : resolve()));
+
+  const now = Date.now();
+  Object.assign(req.session, {
+    userId: user.id,
+    userRole: user.role,
+    userEmail: user.email,
+    createdAt: now,
+    lastActivityAt: now,
+    ipAddress: req.ip || req.socket?.remoteAddress || null,
+    userAgent: req.get('user-agent') || null
+  });
+}
+
+/**
+ * Identifier shown to clients for a session. The raw session ID never leaves the server.
+ */
+export function sessionPublicId(sid: string): string {
+  return crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+}
+
+export interface SessionSummary {
+  id: string;
+  current: boolean;
+  createdAt: string | null;
+  lastActivityAt: string | null;
+  expiresAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+function isIdle(row: Session): boolean {
+  const data = row.sess as any;
+  return !!data.lastActivityAt && Date.now() - data.lastActivityAt > sessionIdleTimeoutMs();
+}
+
+/**
+ * A user's sessions that are neither expired nor idle, most recently active first
+ * @param currentSid - The requesting session, flagged `current`
+ */
+export async function listUserSessions(userId: string, currentSid?: string): Promise<SessionSummary[]> {
+  const rows = await storage.getActiveSessionsByUserId(userId);
+  return rows
+    .filter(row => !isIdle(row))
+    .map(row => {
+      const data = row.sess as any;
+      return {
+        id: sessionPublicId(row.sid),
+        current: row.sid === currentSid,
+        createdAt: data.createdAt ? new Date(data.createdAt).toISOString() : null,
+        lastActivityAt: data.lastActivityAt ? new Date(data.lastActivityAt).toISOString() : null,
+        expiresAt: row.expire.toISOString(),
+        ipAddress: data.ipAddress || null,
+        userAgent: data.userAgent || null
+      };
+    })
+    .sort((a, b) => (b.lastActivityAt || '').localeCompare(a.lastActivityAt || ''));
+}
+
+/**
+ * Revokes one of a user's sessions by its public ID
+ * @returns The revoked session's raw ID, or undefined if the user has no such session
+ */
+export async function revokeUserSession(userId: string, publicId: string): Promise<string | undefined> {
+  const rows = await storage.getActiveSessionsByUserId(userId);
+  const row = rows.find(r => sessionPublicId(r.sid) === publicId);
+  if (!row) return undefined;
+  await storage.deleteSession(row.sid);
+  return row.sid;
+}
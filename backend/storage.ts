@@ -23,6 +23,7 @@ import {
   callCommunications,
   transactionDataVerified,
   coverageByCode,
+  coverageByCodeRuns,
   type CoverageDetail,
   type Procedure,
   type Transaction,
@@ -31,10 +32,101 @@ import {
   type InsertCoverageDetail,
   type InsertProcedure,
   type CoverageByCode,
-  type InsertCoverageByCode
+  type InsertCoverageByCode,
+  type CoverageByCodeRun,
+  type InsertCoverageByCodeRun,
+  payers,
+  type Payer,
+  type InsertPayer,
+  verificationJobs,
+  verificationJobSteps,
+  type VerificationJob,
+  type InsertVerificationJob,
+  type VerificationJobStep,
+  type InsertVerificationJobStep,
+  schedulerRuns,
+  type SchedulerRun,
+  type InsertSchedulerRun,
+  practices,
+  practiceMemberships,
+  type Practice,
+  type InsertPractice,
+  type PracticeMembership,
+  type InsertPracticeMembership,
+  auditLogs,
+  type AuditLog,
+  type InsertAuditLog,
+  sessions,
+  type Session,
+  mfaFactors,
+  type MfaFactor,
+  passwordHistory,
+  type PasswordHistory,
+  loginThrottles,
+  type LoginThrottle,
+  authTokens,
+  type AuthToken,
+  type InsertAuthToken,
+  ocrExtractions,
+  type OcrExtraction,
+  type InsertOcrExtraction,
+  patientDocuments,
+  documentVersions,
+  type PatientDocument,
+  type InsertPatientDocument,
+  type DocumentVersion,
+  type InsertDocumentVersion,
+  faxes,
+  type Fax,
+  type InsertFax,
+  verificationFormTemplates,
+  verificationForms,
+  verificationFormVersions,
+  type VerificationFormTemplate,
+  type InsertVerificationFormTemplate,
+  type VerificationForm,
+  type InsertVerificationForm,
+  type VerificationFormVersion,
+  type InsertVerificationFormVersion
 } from "@shared/schema";
+import type { CoverageSource } from "@shared/coverage";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, and, or, gt, gte, lt, lte, ne, desc, asc, inArray, notInArray, ilike, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+
+export const TRANSACTION_SORT_FIELDS = ["createdAt", "startTime", "patientName", "type", "status"] as const;
+export type TransactionSortField = typeof TRANSACTION_SORT_FIELDS[number];
+
+export interface TransactionQuery {
+  practiceId: string; // Only transactions for this practice's patients
+  patientId?: string;
+  types?: string[];
+  statuses?: string[];
+  from?: Date; // createdAt >= from
+  to?: Date; // createdAt < to
+  insuranceProvider?: string; // Case-insensitive substring match
+  runBy?: string;
+  sort: TransactionSortField;
+  order: "asc" | "desc";
+  limit: number;
+  after?: { value: string; id: string }; // Sort value and id of the last row on the previous page
+}
+
+export interface AuditLogQuery {
+  userId?: string;
+  patientId?: string;
+  practiceId?: string;
+  actions?: string[];
+  from?: Date; // createdAt >= from
+  to?: Date; // createdAt < to
+  limit: number;
+  before?: { createdAt: string; id: string }; // Last row on the previous page; entries are newest first
+}
+
+// A coverage row's own values; the run supplies the patient, practice, user and run ID
+export type CoverageByCodeValues = Omit<InsertCoverageByCode, 'patientId' | 'practiceId' | 'userId' | 'runId'>;
+
+// A transaction callers already hold, so methods taking one can commit together with their writes
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface IStorage {
   // User methods
@@ -47,9 +139,24 @@ export interface IStorage {
   deleteUser(id: string): Promise<boolean>;
   updateUserPassword(id: string, hashedPassword: string): Promise<User | undefined>;
 
+  // Practice methods
+  getAllPractices(): Promise<Practice[]>;
+  getPracticeById(id: string): Promise<Practice | undefined>;
+  getPracticeByFaxNumber(faxNumber: string): Promise<Practice | undefined>;
+  createPractice(practice: InsertPractice): Promise<Practice>;
+  updatePractice(id: string, updates: Partial<Omit<Practice, 'id'>>): Promise<Practice | undefined>;
+  getPracticeMembers(practiceId: string): Promise<PracticeMembership[]>;
+  getMembershipsByUserId(userId: string): Promise<PracticeMembership[]>;
+  getPracticeMembership(practiceId: string, userId: string): Promise<PracticeMembership | undefined>;
+  createPracticeMembership(membership: InsertPracticeMembership): Promise<PracticeMembership>;
+  updatePracticeMembership(id: string, updates: Partial<Pick<PracticeMembership, 'role'>>): Promise<PracticeMembership | undefined>;
+  deletePracticeMembership(id: string): Promise<boolean>;
+  assignUnscopedRecordsToPractice(userId: string, practiceId: string): Promise<void>;
+
   // Patient methods
   createPatient(patient: InsertPatient): Promise<Patient>;
-  getPatientsByUserId(userId: string): Promise<Patient[]>;
+  getPatientsByPracticeId(practiceId: string): Promise<Patient[]>;
+  getAllPatientIds(): Promise<string[]>;
   getPatientById(patientId: string): Promise<Patient | undefined>;
   updatePatient(id: string, updates: Partial<Patient>): Promise<Patient | undefined>;
   deletePatient(id: string): Promise<boolean>;
@@ -92,15 +199,132 @@ export interface IStorage {
 
   // Transaction methods
   getAllTransactions(): Promise<Transaction[]>;
+  queryTransactions(query: TransactionQuery): Promise<{ transactions: Transaction[]; hasMore: boolean }>;
   getTransactionById(id: string): Promise<Transaction | undefined>;
   getCallCommunicationsByTransactionId(transactionId: string): Promise<CallCommunication[]>;
   getTransactionDataVerifiedByTransactionId(transactionId: string): Promise<TransactionDataVerified[]>;
 
-  // Coverage by code methods
-  saveCoverageByCode(patientId: string, userId: string, coverageData: any[]): Promise<void>;
-  getCoverageByCodeForPatient(patientId: string, userId: string): Promise<CoverageByCode[]>;
+  // Coverage by code methods - each save is a new run; earlier runs are kept
+  saveCoverageByCode(run: Omit<InsertCoverageByCodeRun, 'rowCount'>, rows: CoverageByCodeValues[], within?: DbTransaction): Promise<CoverageByCodeRun>;
+  getCoverageByCodeForPatient(patientId: string, practiceId: string, source?: CoverageSource): Promise<CoverageByCode[]>; // Rows of the latest run, of the source if given
+  getCoverageByCodeRuns(patientId: string, practiceId: string): Promise<CoverageByCodeRun[]>; // Newest first
+  getCoverageByCodeRun(id: string): Promise<CoverageByCodeRun | undefined>;
+  getCoverageByCodeForRun(runId: string): Promise<CoverageByCode[]>;
+  getUnversionedCoverageByCode(): Promise<CoverageByCode[]>;
+  createCoverageByCodeRun(run: InsertCoverageByCodeRun, rowIds: string[]): Promise<CoverageByCodeRun>;
+
+  // Payer directory methods
+  getAllPayers(): Promise<Payer[]>;
+  getPayerById(id: string): Promise<Payer | undefined>;
+  getPayerByName(name: string): Promise<Payer | undefined>;
+  createPayer(payer: InsertPayer): Promise<Payer>;
+  updatePayer(id: string, updates: Partial<Omit<Payer, 'id'>>): Promise<Payer | undefined>;
+  deletePayer(id: string): Promise<boolean>;
+
+  // Verification workflow methods
+  createVerificationJob(job: InsertVerificationJob): Promise<VerificationJob>;
+  getVerificationJobById(id: string): Promise<VerificationJob | undefined>;
+  getVerificationJobsByPracticeId(practiceId: string): Promise<VerificationJob[]>;
+  getVerificationJobsByPatientId(patientId: string): Promise<VerificationJob[]>;
+  getDueVerificationJobs(now: Date, limit: number): Promise<VerificationJob[]>;
+  getVerificationJobsByStatus(status: string): Promise<VerificationJob[]>;
+  updateVerificationJob(id: string, updates: Partial<Omit<VerificationJob, 'id'>>, fromStatuses?: string[]): Promise<VerificationJob | undefined>; // Only while the job is in one of fromStatuses, if given
+  createVerificationJobStep(step: InsertVerificationJobStep): Promise<VerificationJobStep>;
+  updateVerificationJobStep(id: string, updates: Partial<Omit<VerificationJobStep, 'id'>>): Promise<VerificationJobStep | undefined>;
+  getVerificationJobSteps(jobId: string): Promise<VerificationJobStep[]>;
+  getVerificationJobStepByTransactionId(transactionId: string): Promise<VerificationJobStep | undefined>;
+  getVerificationJobStepsForJobs(jobIds: string[]): Promise<VerificationJobStep[]>;
+  getVerificationJobsScheduledBetween(practiceId: string, from: Date, to: Date): Promise<VerificationJob[]>;
+  getActiveVerificationJobForAppointment(appointmentId: string): Promise<VerificationJob | undefined>;
+
+  // Scheduling methods
+  getScheduledAppointmentsBetween(fromDate: string, toDate: string): Promise<Appointment[]>;
+  getAppointmentsByIds(ids: string[]): Promise<Appointment[]>;
+  getSchedulerRun(task: string, runDate: string): Promise<SchedulerRun | undefined>;
+  createSchedulerRun(run: InsertSchedulerRun): Promise<SchedulerRun>;
+  updateSchedulerRun(id: string, updates: Partial<Omit<SchedulerRun, 'id'>>): Promise<SchedulerRun | undefined>;
+
+  // Login session methods - rows are written by the session store; these only read and revoke
+  getActiveSessionsByUserId(userId: string): Promise<Session[]>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteSessionsByUserId(userId: string, exceptSid?: string): Promise<number>;
+
+  // MFA factor methods
+  getMfaFactor(userId: string): Promise<MfaFactor | undefined>;
+  getMfaEnabledUserIds(): Promise<string[]>;
+  saveMfaFactor(userId: string, secret: string): Promise<MfaFactor>;
+  updateMfaFactor(userId: string, updates: Partial<Omit<MfaFactor, 'id' | 'userId'>>): Promise<MfaFactor | undefined>;
+  deleteMfaFactor(userId: string): Promise<boolean>;
+
+  // Password history methods
+  getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]>;
+  addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void>;
+
+  // Login throttle methods
+  getLoginThrottle(scope: string, key: string): Promise<LoginThrottle | undefined>;
+  getLoginThrottles(scope: string): Promise<LoginThrottle[]>;
+  recordLoginFailure(scope: string, key: string, resetBefore: Date): Promise<LoginThrottle>;
+  lockLoginThrottle(scope: string, key: string, until: Date): Promise<void>;
+  deleteLoginThrottle(scope: string, key: string): Promise<boolean>;
+
+  // Auth token methods
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined>;
+  getLatestAuthToken(userId: string, purpose: string): Promise<AuthToken | undefined>;
+  getPendingInviteUserIds(): Promise<string[]>;
+  consumeAuthToken(id: string): Promise<AuthToken | undefined>;
+  deleteUnusedAuthTokens(userId: string, purpose?: string): Promise<void>;
+
+  // OCR extraction methods
+  createOcrExtraction(extraction: InsertOcrExtraction): Promise<OcrExtraction>;
+  getOcrExtraction(id: string): Promise<OcrExtraction | undefined>;
+  getPatientOcrExtractions(patientId: string, status?: string): Promise<OcrExtraction[]>;
+  updateOcrExtraction(id: string, updates: Partial<InsertOcrExtraction>): Promise<OcrExtraction | undefined>;
+  finishOcrExtraction(id: string, updates: Partial<InsertOcrExtraction>): Promise<OcrExtraction | undefined>;
+
+  // Patient document methods
+  createPatientDocument(document: InsertPatientDocument): Promise<PatientDocument>;
+  getPatientDocument(id: string): Promise<PatientDocument | undefined>;
+  getPatientDocuments(patientId: string): Promise<PatientDocument[]>;
+  findPatientDocument(patientId: string, category: string): Promise<PatientDocument | undefined>;
+  deletePatientDocument(id: string): Promise<boolean>;
+  addDocumentVersion(version: Omit<InsertDocumentVersion, "version">): Promise<DocumentVersion>;
+  getDocumentVersions(documentIds: string[]): Promise<DocumentVersion[]>;
+  getPatientDocumentVersions(patientId: string): Promise<DocumentVersion[]>;
+
+  // Fax methods
+  createFax(fax: InsertFax): Promise<Fax>;
+  getFax(id: string): Promise<Fax | undefined>;
+  updateFax(id: string, updates: Partial<InsertFax>): Promise<Fax | undefined>;
+  getPatientFaxes(patientId: string): Promise<Fax[]>;
+  getFaxByReference(reference: string): Promise<Fax | undefined>;
+  findAwaitingFaxes(remoteNumber: string, practiceId: string, since: Date, limit: number): Promise<Fax[]>;
+  getUnmatchedFaxes(practiceId: string | undefined, includeUnassigned: boolean): Promise<Fax[]>; // Unassigned: sent to no practice's number
+
+  // Verification form template methods
+  getVerificationFormTemplates(): Promise<VerificationFormTemplate[]>;
+  getVerificationFormTemplate(id: string): Promise<VerificationFormTemplate | undefined>;
+  createVerificationFormTemplate(template: InsertVerificationFormTemplate): Promise<VerificationFormTemplate>;
+  updateVerificationFormTemplate(id: string, updates: Partial<Omit<VerificationFormTemplate, 'id'>>): Promise<VerificationFormTemplate | undefined>;
+  deleteVerificationFormTemplate(id: string): Promise<boolean>;
+  isVerificationFormTemplateInUse(id: string): Promise<boolean>;
+
+  // Verification form methods
+  getVerificationForm(patientId: string, insuranceId: string): Promise<VerificationForm | undefined>;
+  createVerificationForm(form: InsertVerificationForm): Promise<VerificationForm>;
+  addVerificationFormVersion(version: Omit<InsertVerificationFormVersion, "version">, baseVersion: number, within?: DbTransaction): Promise<VerificationFormVersion | undefined>;
+  getVerificationFormVersions(formId: string): Promise<VerificationFormVersion[]>;
+  getVerificationFormVersion(formId: string, version: number): Promise<VerificationFormVersion | undefined>;
+
+  // Audit log methods - append-only, so there is no update or delete
+  createAuditLogs(entries: InsertAuditLog[]): Promise<void>;
+  queryAuditLogs(query: AuditLogQuery): Promise<{ entries: AuditLog[]; hasMore: boolean }>;
 }
 
+// Subquery of a practice's patient ids, for scoping tables that only carry patientId
+const practicePatientIds = (practiceId: string) =>
+  db.select({ id: patients.id }).from(patients).where(eq(patients.practiceId, practiceId));
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -141,14 +365,79 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Practice methods
+  async getAllPractices(): Promise<Practice[]> {
+    return await db.select().from(practices).orderBy(practices.name);
+  }
+
+  async getPracticeById(id: string): Promise<Practice | undefined> {
+    const [practice] = await db.select().from(practices).where(eq(practices.id, id));
+    return practice;
+  }
+
+  async getPracticeByFaxNumber(faxNumber: string): Promise<Practice | undefined> {
+    const [practice] = await db.select().from(practices).where(eq(practices.faxNumber, faxNumber));
+    return practice;
+  }
+
+  async createPractice(practice: InsertPractice): Promise<Practice> {
+    const [newPractice] = await db.insert(practices).values(practice).returning();
+    return newPractice;
+  }
+
+  async updatePractice(id: string, updates: Partial<Omit<Practice, 'id'>>): Promise<Practice | undefined> {
+    const [practice] = await db.update(practices).set({ ...updates, updatedAt: new Date() }).where(eq(practices.id, id)).returning();
+    return practice;
+  }
+
+  async getPracticeMembers(practiceId: string): Promise<PracticeMembership[]> {
+    return await db.select().from(practiceMemberships).where(eq(practiceMemberships.practiceId, practiceId)).orderBy(practiceMemberships.createdAt);
+  }
+
+  async getMembershipsByUserId(userId: string): Promise<PracticeMembership[]> {
+    return await db.select().from(practiceMemberships).where(eq(practiceMemberships.userId, userId)).orderBy(practiceMemberships.createdAt);
+  }
+
+  async getPracticeMembership(practiceId: string, userId: string): Promise<PracticeMembership | undefined> {
+    const [membership] = await db.select().from(practiceMemberships)
+      .where(and(eq(practiceMemberships.practiceId, practiceId), eq(practiceMemberships.userId, userId)));
+    return membership;
+  }
+
+  async createPracticeMembership(membership: InsertPracticeMembership): Promise<PracticeMembership> {
+    const [newMembership] = await db.insert(practiceMemberships).values(membership).returning();
+    return newMembership;
+  }
+
+  async updatePracticeMembership(id: string, updates: Partial<Pick<PracticeMembership, 'role'>>): Promise<PracticeMembership | undefined> {
+    const [membership] = await db.update(practiceMemberships).set(updates).where(eq(practiceMemberships.id, id)).returning();
+    return membership;
+  }
+
+  async deletePracticeMembership(id: string): Promise<boolean> {
+    const result = await db.delete(practiceMemberships).where(eq(practiceMemberships.id, id));
+    return result.rowCount ? result.rowCount > 0 : false;
+  }
+
+  async assignUnscopedRecordsToPractice(userId: string, practiceId: string): Promise<void> {
+    await db.update(patients).set({ practiceId }).where(and(eq(patients.userId, userId), isNull(patients.practiceId)));
+    await db.update(coverageByCode).set({ practiceId })
+      .where(and(isNull(coverageByCode.practiceId), inArray(coverageByCode.patientId, practicePatientIds(practiceId))));
+  }
+
   // Patient methods
   async createPatient(patient: InsertPatient): Promise<Patient> {
     const [newPatient] = await db.insert(patients).values(patient).returning();
     return newPatient;
   }
 
-  async getPatientsByUserId(userId: string): Promise<Patient[]> {
-    return await db.select().from(patients).where(eq(patients.userId, userId));
+  async getPatientsByPracticeId(practiceId: string): Promise<Patient[]> {
+    return await db.select().from(patients).where(eq(patients.practiceId, practiceId));
+  }
+
+  async getAllPatientIds(): Promise<string[]> {
+    const rows = await db.select({ id: patients.id }).from(patients);
+    return rows.map(row => row.id);
   }
 
   async getPatientById(patientId: string): Promise<Patient | undefined> {
@@ -274,6 +563,39 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
+  async queryTransactions(query: TransactionQuery): Promise<{ transactions: Transaction[]; hasMore: boolean }> {
+    const conditions: SQL[] = [inArray(transactions.patientId, practicePatientIds(query.practiceId))];
+    if (query.patientId) conditions.push(eq(transactions.patientId, query.patientId));
+    if (query.types?.length) conditions.push(inArray(transactions.type, query.types));
+    if (query.statuses?.length) conditions.push(inArray(transactions.status, query.statuses));
+    if (query.from) conditions.push(gte(transactions.createdAt, query.from));
+    if (query.to) conditions.push(lt(transactions.createdAt, query.to));
+    if (query.insuranceProvider) {
+      const escaped = query.insuranceProvider.replace(/[\\%_]/g, "\\$&");
+      conditions.push(ilike(transactions.insuranceProvider, `%${escaped}%`));
+    }
+    if (query.runBy) conditions.push(eq(transactions.runBy, query.runBy));
+
+    // Keyset pagination: rows strictly after the cursor in (sort column, id) order.
+    // createdAt is compared at millisecond precision since that is all the cursor (a JS Date) keeps.
+    const column: SQL = query.sort === "createdAt"
+      ? sql`date_trunc('milliseconds', ${transactions.createdAt})`
+      : sql`${transactions[query.sort]}`;
+    const direction = query.order === "asc" ? asc : desc;
+    if (query.after) {
+      const { value, id } = query.after;
+      const past = query.order === "asc" ? gt : lt;
+      conditions.push(or(past(column, value), and(eq(column, value), past(transactions.id, id)))!);
+    }
+
+    const rows = await db.select().from(transactions)
+      .where(and(...conditions))
+      .orderBy(direction(column), direction(transactions.id))
+      .limit(query.limit + 1);
+
+    return { transactions: rows.slice(0, query.limit), hasMore: rows.length > query.limit };
+  }
+
   async getTransactionById(id: string): Promise<Transaction | undefined> {
     const [transaction] = await db.select().from(transactions).where(eq(transactions.id, id));
     return transaction;
@@ -288,32 +610,586 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Coverage by code methods
-  async saveCoverageByCode(patientId: string, userId: string, coverageData: any[]): Promise<void> {
-    // First, delete existing records for this patient and user
-    await db.delete(coverageByCode).where(eq(coverageByCode.patientId, patientId));
-
-    // Then insert new records
-    if (coverageData && coverageData.length > 0) {
-      const records = coverageData.map((item) => ({
-        patientId,
-        userId,
-        saiCode: item.saiCode || null,
-        refInsCode: item.refInsCode || null,
-        category: item.category || null,
-        fieldName: item.fieldName || null,
-        preStepValue: item.preStepValue || null,
-        verified: item.verified || false,
-        verifiedBy: item.verifiedBy || null,
-        comments: item.comments || null,
-        coverageData: JSON.stringify(item)
-      }));
-
-      await db.insert(coverageByCode).values(records);
-    }
+  async saveCoverageByCode(run: Omit<InsertCoverageByCodeRun, 'rowCount'>, rows: CoverageByCodeValues[], within?: DbTransaction): Promise<CoverageByCodeRun> {
+    return await (within ?? db).transaction(async (tx) => {
+      const [created] = await tx.insert(coverageByCodeRuns).values({ ...run, rowCount: rows.length }).returning();
+      if (rows.length > 0) {
+        await tx.insert(coverageByCode).values(rows.map(row => ({
+          ...row,
+          patientId: created.patientId,
+          practiceId: created.practiceId,
+          userId: created.userId,
+          runId: created.id,
+        })));
+      }
+      return created;
+    });
   }
 
-  async getCoverageByCodeForPatient(patientId: string, userId: string): Promise<CoverageByCode[]> {
-    return await db.select().from(coverageByCode).where(eq(coverageByCode.patientId, patientId));
+  async getCoverageByCodeForPatient(patientId: string, practiceId: string, source?: CoverageSource): Promise<CoverageByCode[]> {
+    const latest = (await this.getCoverageByCodeRuns(patientId, practiceId)).find(run => !source || run.source === source);
+    return latest ? await this.getCoverageByCodeForRun(latest.id) : [];
+  }
+
+  async getCoverageByCodeRuns(patientId: string, practiceId: string): Promise<CoverageByCodeRun[]> {
+    return await db.select().from(coverageByCodeRuns)
+      .where(and(eq(coverageByCodeRuns.patientId, patientId), eq(coverageByCodeRuns.practiceId, practiceId)))
+      .orderBy(desc(coverageByCodeRuns.createdAt));
+  }
+
+  async getCoverageByCodeRun(id: string): Promise<CoverageByCodeRun | undefined> {
+    const [run] = await db.select().from(coverageByCodeRuns).where(eq(coverageByCodeRuns.id, id));
+    return run;
+  }
+
+  async getCoverageByCodeForRun(runId: string): Promise<CoverageByCode[]> {
+    return await db.select().from(coverageByCode)
+      .where(eq(coverageByCode.runId, runId))
+      .orderBy(asc(coverageByCode.saiCode), asc(coverageByCode.refInsCode));
+  }
+
+  async getUnversionedCoverageByCode(): Promise<CoverageByCode[]> {
+    return await db.select().from(coverageByCode).where(isNull(coverageByCode.runId));
+  }
+
+  async createCoverageByCodeRun(run: InsertCoverageByCodeRun, rowIds: string[]): Promise<CoverageByCodeRun> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(coverageByCodeRuns).values(run).returning();
+      if (rowIds.length > 0) {
+        await tx.update(coverageByCode).set({ runId: created.id }).where(inArray(coverageByCode.id, rowIds));
+      }
+      return created;
+    });
+  }
+
+  // Payer directory methods
+  async getAllPayers(): Promise<Payer[]> {
+    return await db.select().from(payers).orderBy(payers.name);
+  }
+
+  async getPayerById(id: string): Promise<Payer | undefined> {
+    const [payer] = await db.select().from(payers).where(eq(payers.id, id));
+    return payer;
+  }
+
+  async getPayerByName(name: string): Promise<Payer | undefined> {
+    const [payer] = await db.select().from(payers).where(eq(payers.name, name));
+    return payer;
+  }
+
+  async createPayer(payer: InsertPayer): Promise<Payer> {
+    const [newPayer] = await db.insert(payers).values(payer).returning();
+    return newPayer;
+  }
+
+  async updatePayer(id: string, updates: Partial<Omit<Payer, 'id'>>): Promise<Payer | undefined> {
+    const [payer] = await db.update(payers).set({ ...updates, updatedAt: new Date() }).where(eq(payers.id, id)).returning();
+    return payer;
+  }
+
+  async deletePayer(id: string): Promise<boolean> {
+    const result = await db.delete(payers).where(eq(payers.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Verification workflow methods
+  async createVerificationJob(job: InsertVerificationJob): Promise<VerificationJob> {
+    const [newJob] = await db.insert(verificationJobs).values(job).returning();
+    return newJob;
+  }
+
+  async getVerificationJobById(id: string): Promise<VerificationJob | undefined> {
+    const [job] = await db.select().from(verificationJobs).where(eq(verificationJobs.id, id));
+    return job;
+  }
+
+  async getVerificationJobsByPracticeId(practiceId: string): Promise<VerificationJob[]> {
+    return await db.select().from(verificationJobs)
+      .where(inArray(verificationJobs.patientId, practicePatientIds(practiceId)))
+      .orderBy(desc(verificationJobs.createdAt));
+  }
+
+  async getVerificationJobsByPatientId(patientId: string): Promise<VerificationJob[]> {
+    return await db.select().from(verificationJobs).where(eq(verificationJobs.patientId, patientId)).orderBy(desc(verificationJobs.createdAt));
+  }
+
+  async getDueVerificationJobs(now: Date, limit: number): Promise<VerificationJob[]> {
+    return await db.select().from(verificationJobs)
+      .where(and(eq(verificationJobs.status, "queued"), lte(verificationJobs.scheduledFor, now)))
+      .orderBy(asc(verificationJobs.scheduledFor))
+      .limit(limit);
+  }
+
+  async getVerificationJobsByStatus(status: string): Promise<VerificationJob[]> {
+    return await db.select().from(verificationJobs).where(eq(verificationJobs.status, status));
+  }
+
+  async updateVerificationJob(id: string, updates: Partial<Omit<VerificationJob, 'id'>>, fromStatuses?: string[]): Promise<VerificationJob | undefined> {
+    const [job] = await db.update(verificationJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(verificationJobs.id, id), fromStatuses ? inArray(verificationJobs.status, fromStatuses) : undefined))
+      .returning();
+    return job;
+  }
+
+  async createVerificationJobStep(step: InsertVerificationJobStep): Promise<VerificationJobStep> {
+    const [newStep] = await db.insert(verificationJobSteps).values(step).returning();
+    return newStep;
+  }
+
+  async updateVerificationJobStep(id: string, updates: Partial<Omit<VerificationJobStep, 'id'>>): Promise<VerificationJobStep | undefined> {
+    const [step] = await db.update(verificationJobSteps).set(updates).where(eq(verificationJobSteps.id, id)).returning();
+    return step;
+  }
+
+  async getVerificationJobSteps(jobId: string): Promise<VerificationJobStep[]> {
+    return await db.select().from(verificationJobSteps).where(eq(verificationJobSteps.jobId, jobId)).orderBy(asc(verificationJobSteps.startedAt));
+  }
+
+  async getVerificationJobStepByTransactionId(transactionId: string): Promise<VerificationJobStep | undefined> {
+    const [step] = await db.select().from(verificationJobSteps).where(eq(verificationJobSteps.transactionId, transactionId));
+    return step;
+  }
+
+  async getVerificationJobStepsForJobs(jobIds: string[]): Promise<VerificationJobStep[]> {
+    if (jobIds.length === 0) return [];
+    return await db.select().from(verificationJobSteps).where(inArray(verificationJobSteps.jobId, jobIds)).orderBy(asc(verificationJobSteps.startedAt));
+  }
+
+  async getVerificationJobsScheduledBetween(practiceId: string, from: Date, to: Date): Promise<VerificationJob[]> {
+    return await db.select().from(verificationJobs)
+      .where(and(inArray(verificationJobs.patientId, practicePatientIds(practiceId)), gte(verificationJobs.scheduledFor, from), lt(verificationJobs.scheduledFor, to)))
+      .orderBy(desc(verificationJobs.scheduledFor));
+  }
+
+  async getActiveVerificationJobForAppointment(appointmentId: string): Promise<VerificationJob | undefined> {
+    const [job] = await db.select().from(verificationJobs)
+      .where(and(eq(verificationJobs.appointmentId, appointmentId), ne(verificationJobs.status, "cancelled")));
+    return job;
+  }
+
+  // Scheduling methods
+  async getScheduledAppointmentsBetween(fromDate: string, toDate: string): Promise<Appointment[]> {
+    return await db.select().from(appointments)
+      .where(and(eq(appointments.status, "scheduled"), gte(appointments.date, fromDate), lte(appointments.date, toDate)))
+      .orderBy(asc(appointments.date), asc(appointments.time));
+  }
+
+  async getAppointmentsByIds(ids: string[]): Promise<Appointment[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(appointments).where(inArray(appointments.id, ids));
+  }
+
+  async getSchedulerRun(task: string, runDate: string): Promise<SchedulerRun | undefined> {
+    const [run] = await db.select().from(schedulerRuns).where(and(eq(schedulerRuns.task, task), eq(schedulerRuns.runDate, runDate)));
+    return run;
+  }
+
+  async createSchedulerRun(run: InsertSchedulerRun): Promise<SchedulerRun> {
+    const [newRun] = await db.insert(schedulerRuns).values(run).returning();
+    return newRun;
+  }
+
+  async updateSchedulerRun(id: string, updates: Partial<Omit<SchedulerRun, 'id'>>): Promise<SchedulerRun | undefined> {
+    const [run] = await db.update(schedulerRuns).set(updates).where(eq(schedulerRuns.id, id)).returning();
+    return run;
+  }
+
+  // Login session methods
+  async getActiveSessionsByUserId(userId: string): Promise<Session[]> {
+    return await db.select().from(sessions)
+      .where(and(sql`${sessions.sess}->>'userId' = ${userId}`, gt(sessions.expire, new Date())))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const result = await db.delete(sessions).where(eq(sessions.sid, sid)).returning();
+    return result.length > 0;
+  }
+
+  async deleteSessionsByUserId(userId: string, exceptSid?: string): Promise<number> {
+    const conditions: SQL[] = [sql`${sessions.sess}->>'userId' = ${userId}`];
+    if (exceptSid) conditions.push(ne(sessions.sid, exceptSid));
+    const result = await db.delete(sessions).where(and(...conditions)).returning();
+    return result.length;
+  }
+
+  // MFA factor methods
+  async getMfaFactor(userId: string): Promise<MfaFactor | undefined> {
+    const [factor] = await db.select().from(mfaFactors).where(eq(mfaFactors.userId, userId));
+    return factor;
+  }
+
+  async getMfaEnabledUserIds(): Promise<string[]> {
+    const rows = await db.select({ userId: mfaFactors.userId }).from(mfaFactors)
+      .where(isNotNull(mfaFactors.enabledAt));
+    return rows.map(row => row.userId);
+  }
+
+  // Starts a new enrollment, replacing any factor the user had
+  async saveMfaFactor(userId: string, secret: string): Promise<MfaFactor> {
+    const values = { secret, recoveryCodes: [], lastUsedStep: null, enabledAt: null, createdAt: new Date() };
+    const [factor] = await db.insert(mfaFactors).values({ userId, ...values })
+      .onConflictDoUpdate({ target: mfaFactors.userId, set: values })
+      .returning();
+    return factor;
+  }
+
+  async updateMfaFactor(userId: string, updates: Partial<Omit<MfaFactor, 'id' | 'userId'>>): Promise<MfaFactor | undefined> {
+    const [factor] = await db.update(mfaFactors).set(updates).where(eq(mfaFactors.userId, userId)).returning();
+    return factor;
+  }
+
+  async deleteMfaFactor(userId: string): Promise<boolean> {
+    const result = await db.delete(mfaFactors).where(eq(mfaFactors.userId, userId)).returning();
+    return result.length > 0;
+  }
+
+  // Password history methods
+  async getPasswordHistory(userId: string, limit: number): Promise<PasswordHistory[]> {
+    return await db.select().from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(limit);
+  }
+
+  // Records a replaced password hash and drops all but the newest `keep`
+  async addPasswordHistory(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await db.insert(passwordHistory).values({ userId, passwordHash });
+    const kept = db.select({ id: passwordHistory.id }).from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(keep);
+    await db.delete(passwordHistory)
+      .where(and(eq(passwordHistory.userId, userId), notInArray(passwordHistory.id, kept)));
+  }
+
+  // Login throttle methods
+  async getLoginThrottle(scope: string, key: string): Promise<LoginThrottle | undefined> {
+    const [throttle] = await db.select().from(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+    return throttle;
+  }
+
+  async getLoginThrottles(scope: string): Promise<LoginThrottle[]> {
+    return await db.select().from(loginThrottles).where(eq(loginThrottles.scope, scope));
+  }
+
+  // Counts a failure atomically; the count restarts at 1 if the last failure was before resetBefore
+  async recordLoginFailure(scope: string, key: string, resetBefore: Date): Promise<LoginThrottle> {
+    const now = new Date();
+    const [throttle] = await db.insert(loginThrottles)
+      .values({ scope, key, failures: 1, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: [loginThrottles.scope, loginThrottles.key],
+        set: {
+          failures: sql`case when ${loginThrottles.lastFailureAt} < ${resetBefore} then 1 else ${loginThrottles.failures} + 1 end`,
+          lastFailureAt: now
+        }
+      })
+      .returning();
+    return throttle;
+  }
+
+  async lockLoginThrottle(scope: string, key: string, until: Date): Promise<void> {
+    await db.update(loginThrottles).set({ lockedUntil: until })
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)));
+  }
+
+  async deleteLoginThrottle(scope: string, key: string): Promise<boolean> {
+    const result = await db.delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.key, key)))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Auth token methods
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const [created] = await db.insert(authTokens).values(token).returning();
+    return created;
+  }
+
+  async getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined> {
+    const [token] = await db.select().from(authTokens).where(eq(authTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getLatestAuthToken(userId: string, purpose: string): Promise<AuthToken | undefined> {
+    const [token] = await db.select().from(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose)))
+      .orderBy(desc(authTokens.createdAt))
+      .limit(1);
+    return token;
+  }
+
+  async getPendingInviteUserIds(): Promise<string[]> {
+    const rows = await db.selectDistinct({ userId: authTokens.userId }).from(authTokens)
+      .where(and(eq(authTokens.purpose, "invite"), isNull(authTokens.usedAt), gt(authTokens.expiresAt, new Date())));
+    return rows.map(row => row.userId);
+  }
+
+  // Marks a token used if it is still unused and unexpired; the conditional update makes it single-use under races
+  async consumeAuthToken(id: string): Promise<AuthToken | undefined> {
+    const [token] = await db.update(authTokens).set({ usedAt: new Date() })
+      .where(and(eq(authTokens.id, id), isNull(authTokens.usedAt), gt(authTokens.expiresAt, new Date())))
+      .returning();
+    return token;
+  }
+
+  async deleteUnusedAuthTokens(userId: string, purpose?: string): Promise<void> {
+    const conditions: SQL[] = [eq(authTokens.userId, userId), isNull(authTokens.usedAt)];
+    if (purpose) conditions.push(eq(authTokens.purpose, purpose));
+    await db.delete(authTokens).where(and(...conditions));
+  }
+
+  // OCR extraction methods
+  async createOcrExtraction(extraction: InsertOcrExtraction): Promise<OcrExtraction> {
+    const [created] = await db.insert(ocrExtractions).values(extraction).returning();
+    return created;
+  }
+
+  async getOcrExtraction(id: string): Promise<OcrExtraction | undefined> {
+    const [extraction] = await db.select().from(ocrExtractions).where(eq(ocrExtractions.id, id));
+    return extraction;
+  }
+
+  async getPatientOcrExtractions(patientId: string, status?: string): Promise<OcrExtraction[]> {
+    const conditions: SQL[] = [eq(ocrExtractions.patientId, patientId)];
+    if (status) conditions.push(eq(ocrExtractions.status, status));
+    return await db.select().from(ocrExtractions)
+      .where(and(...conditions))
+      .orderBy(desc(ocrExtractions.createdAt));
+  }
+
+  async updateOcrExtraction(id: string, updates: Partial<InsertOcrExtraction>): Promise<OcrExtraction | undefined> {
+    const [updated] = await db.update(ocrExtractions).set(updates).where(eq(ocrExtractions.id, id)).returning();
+    return updated;
+  }
+
+  // Moves a pending extraction to its final state; the conditional update lets only one reviewer decide it
+  async finishOcrExtraction(id: string, updates: Partial<InsertOcrExtraction>): Promise<OcrExtraction | undefined> {
+    const [updated] = await db.update(ocrExtractions).set(updates)
+      .where(and(eq(ocrExtractions.id, id), eq(ocrExtractions.status, "pending")))
+      .returning();
+    return updated;
+  }
+
+  // Patient document methods
+  async createPatientDocument(document: InsertPatientDocument): Promise<PatientDocument> {
+    const [created] = await db.insert(patientDocuments).values(document).returning();
+    return created;
+  }
+
+  async getPatientDocument(id: string): Promise<PatientDocument | undefined> {
+    const [document] = await db.select().from(patientDocuments).where(eq(patientDocuments.id, id));
+    return document;
+  }
+
+  async getPatientDocuments(patientId: string): Promise<PatientDocument[]> {
+    return await db.select().from(patientDocuments)
+      .where(eq(patientDocuments.patientId, patientId))
+      .orderBy(desc(patientDocuments.updatedAt));
+  }
+
+  // Most recently updated document of a category, e.g. the patient's insurance card front
+  async findPatientDocument(patientId: string, category: string): Promise<PatientDocument | undefined> {
+    const [document] = await db.select().from(patientDocuments)
+      .where(and(eq(patientDocuments.patientId, patientId), eq(patientDocuments.category, category)))
+      .orderBy(desc(patientDocuments.updatedAt))
+      .limit(1);
+    return document;
+  }
+
+  async deletePatientDocument(id: string): Promise<boolean> {
+    const result = await db.delete(patientDocuments).where(eq(patientDocuments.id, id)).returning({ id: patientDocuments.id });
+    return result.length > 0;
+  }
+
+  // Numbers the version from the document's counter, so concurrent uploads never share a number
+  async addDocumentVersion(version: Omit<InsertDocumentVersion, "version">): Promise<DocumentVersion> {
+    return await db.transaction(async (tx) => {
+      const [document] = await tx.update(patientDocuments)
+        .set({ currentVersion: sql`${patientDocuments.currentVersion} + 1`, updatedAt: new Date() })
+        .where(eq(patientDocuments.id, version.documentId))
+        .returning({ currentVersion: patientDocuments.currentVersion });
+      if (!document) {
+        throw new Error("Document not found");
+      }
+      const [created] = await tx.insert(documentVersions).values({ ...version, version: document.currentVersion }).returning();
+      return created;
+    });
+  }
+
+  async getDocumentVersions(documentIds: string[]): Promise<DocumentVersion[]> {
+    if (documentIds.length === 0) return [];
+    return await db.select().from(documentVersions)
+      .where(inArray(documentVersions.documentId, documentIds))
+      .orderBy(desc(documentVersions.version));
+  }
+
+  async getPatientDocumentVersions(patientId: string): Promise<DocumentVersion[]> {
+    return await db.select().from(documentVersions)
+      .where(inArray(documentVersions.documentId,
+        db.select({ id: patientDocuments.id }).from(patientDocuments).where(eq(patientDocuments.patientId, patientId))));
+  }
+
+  // Fax methods
+  async createFax(fax: InsertFax): Promise<Fax> {
+    const [created] = await db.insert(faxes).values(fax).returning();
+    return created;
+  }
+
+  async getFax(id: string): Promise<Fax | undefined> {
+    const [fax] = await db.select().from(faxes).where(eq(faxes.id, id));
+    return fax;
+  }
+
+  async updateFax(id: string, updates: Partial<InsertFax>): Promise<Fax | undefined> {
+    const [updated] = await db.update(faxes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(faxes.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getPatientFaxes(patientId: string): Promise<Fax[]> {
+    return await db.select().from(faxes)
+      .where(eq(faxes.patientId, patientId))
+      .orderBy(desc(faxes.createdAt));
+  }
+
+  async getFaxByReference(reference: string): Promise<Fax | undefined> {
+    const [fax] = await db.select().from(faxes).where(eq(faxes.reference, reference));
+    return fax;
+  }
+
+  // A practice's requests to a fax number that have not been answered yet, newest first
+  async findAwaitingFaxes(remoteNumber: string, practiceId: string, since: Date, limit: number): Promise<Fax[]> {
+    return await db.select().from(faxes)
+      .where(and(
+        eq(faxes.direction, "outbound"),
+        eq(faxes.status, "sent"),
+        eq(faxes.remoteNumber, remoteNumber),
+        eq(faxes.practiceId, practiceId),
+        gte(faxes.createdAt, since)
+      ))
+      .orderBy(desc(faxes.createdAt))
+      .limit(limit);
+  }
+
+  async getUnmatchedFaxes(practiceId: string | undefined, includeUnassigned: boolean): Promise<Fax[]> {
+    const scopes = [
+      practiceId ? eq(faxes.practiceId, practiceId) : undefined,
+      includeUnassigned ? isNull(faxes.practiceId) : undefined,
+    ].filter((scope): scope is SQL => !!scope);
+    if (scopes.length === 0) return [];
+    return await db.select().from(faxes)
+      .where(and(eq(faxes.direction, "inbound"), eq(faxes.status, "unmatched"), or(...scopes)))
+      .orderBy(desc(faxes.createdAt));
+  }
+
+  // Verification form template methods
+  async getVerificationFormTemplates(): Promise<VerificationFormTemplate[]> {
+    return await db.select().from(verificationFormTemplates).orderBy(verificationFormTemplates.name);
+  }
+
+  async getVerificationFormTemplate(id: string): Promise<VerificationFormTemplate | undefined> {
+    const [template] = await db.select().from(verificationFormTemplates).where(eq(verificationFormTemplates.id, id));
+    return template;
+  }
+
+  async createVerificationFormTemplate(template: InsertVerificationFormTemplate): Promise<VerificationFormTemplate> {
+    const [created] = await db.insert(verificationFormTemplates).values(template).returning();
+    return created;
+  }
+
+  async updateVerificationFormTemplate(id: string, updates: Partial<Omit<VerificationFormTemplate, 'id'>>): Promise<VerificationFormTemplate | undefined> {
+    const [template] = await db.update(verificationFormTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(verificationFormTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteVerificationFormTemplate(id: string): Promise<boolean> {
+    const result = await db.delete(verificationFormTemplates).where(eq(verificationFormTemplates.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async isVerificationFormTemplateInUse(id: string): Promise<boolean> {
+    const [version] = await db.select({ id: verificationFormVersions.id }).from(verificationFormVersions)
+      .where(eq(verificationFormVersions.templateId, id))
+      .limit(1);
+    return !!version;
+  }
+
+  // Verification form methods
+  async getVerificationForm(patientId: string, insuranceId: string): Promise<VerificationForm | undefined> {
+    const [form] = await db.select().from(verificationForms)
+      .where(and(eq(verificationForms.patientId, patientId), eq(verificationForms.insuranceId, insuranceId)));
+    return form;
+  }
+
+  // Two first saves racing each other share the form the first one created
+  async createVerificationForm(form: InsertVerificationForm): Promise<VerificationForm> {
+    await db.insert(verificationForms).values(form).onConflictDoNothing();
+    return (await this.getVerificationForm(form.patientId, form.insuranceId))!;
+  }
+
+  // Adds the next version only if the form is still at baseVersion, so a save made from a stale
+  // copy cannot silently replace someone else's
+  async addVerificationFormVersion(version: Omit<InsertVerificationFormVersion, "version">, baseVersion: number, within?: DbTransaction): Promise<VerificationFormVersion | undefined> {
+    return await (within ?? db).transaction(async (tx) => {
+      const [form] = await tx.update(verificationForms)
+        .set({ currentVersion: sql`${verificationForms.currentVersion} + 1`, updatedAt: new Date() })
+        .where(and(eq(verificationForms.id, version.formId), eq(verificationForms.currentVersion, baseVersion)))
+        .returning({ currentVersion: verificationForms.currentVersion });
+      if (!form) return undefined;
+      const [created] = await tx.insert(verificationFormVersions).values({ ...version, version: form.currentVersion }).returning();
+      return created;
+    });
+  }
+
+  async getVerificationFormVersions(formId: string): Promise<VerificationFormVersion[]> {
+    return await db.select().from(verificationFormVersions)
+      .where(eq(verificationFormVersions.formId, formId))
+      .orderBy(desc(verificationFormVersions.version));
+  }
+
+  async getVerificationFormVersion(formId: string, version: number): Promise<VerificationFormVersion | undefined> {
+    const [found] = await db.select().from(verificationFormVersions)
+      .where(and(eq(verificationFormVersions.formId, formId), eq(verificationFormVersions.version, version)));
+    return found;
+  }
+
+  // Audit log methods
+  async createAuditLogs(entries: InsertAuditLog[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(auditLogs).values(entries);
+  }
+
+  async queryAuditLogs(query: AuditLogQuery): Promise<{ entries: AuditLog[]; hasMore: boolean }> {
+    const conditions: SQL[] = [];
+    if (query.userId) conditions.push(eq(auditLogs.userId, query.userId));
+    if (query.patientId) conditions.push(eq(auditLogs.patientId, query.patientId));
+    if (query.practiceId) conditions.push(eq(auditLogs.practiceId, query.practiceId));
+    if (query.actions?.length) conditions.push(inArray(auditLogs.action, query.actions));
+    if (query.from) conditions.push(gte(auditLogs.createdAt, query.from));
+    if (query.to) conditions.push(lt(auditLogs.createdAt, query.to));
+
+    // Keyset pagination, newest first, at the millisecond precision the cursor keeps
+    const createdAt = sql`date_trunc('milliseconds', ${auditLogs.createdAt})`;
+    if (query.before) {
+      const { createdAt: value, id } = query.before;
+      conditions.push(or(lt(createdAt, value), and(eq(createdAt, value), lt(auditLogs.id, id)))!);
+    }
+
+    const rows = await db.select().from(auditLogs)
+      .where(and(...conditions))
+      .orderBy(desc(createdAt), desc(auditLogs.id))
+      .limit(query.limit + 1);
+
+    return { entries: rows.slice(0, query.limit), hasMore: rows.length > query.limit };
   }
 }
 
@@ -66,6 +66,188 @@ const options: swaggerJsdoc.Options = {
               type: 'string',
               nullable: true,
               description: 'Data source for the user'
+            },
+            permissions: {
+              type: 'array',
+              items: { type: 'string', example: 'patient:read' },
+              description: 'Permissions granted by the role (login and session responses only)'
+            },
+            mfaEnabled: {
+              type: 'boolean',
+              description: 'Whether the user has enrolled an authenticator (user list only)'
+            },
+            invitePending: {
+              type: 'boolean',
+              description: 'Invited but has not set a password yet (user list only)'
+            },
+            lockout: {
+              type: 'object',
+              nullable: true,
+              description: 'Recent failed logins and any active lockout (user list only)',
+              properties: {
+                failedAttempts: { type: 'integer' },
+                lockedUntil: { type: 'string', format: 'date-time', nullable: true }
+              }
+            }
+          }
+        },
+        UserSession: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Public session ID (not the cookie value)'
+            },
+            current: {
+              type: 'boolean',
+              description: 'Whether this is the requesting session'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            lastActivityAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            expiresAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            ipAddress: {
+              type: 'string',
+              nullable: true
+            },
+            userAgent: {
+              type: 'string',
+              nullable: true
+            }
+          }
+        },
+        Practice: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Practice ID'
+            },
+            name: {
+              type: 'string',
+              description: 'Practice name'
+            },
+            npi: {
+              type: 'string',
+              nullable: true,
+              description: 'Billing provider NPI'
+            },
+            address: {
+              type: 'string',
+              nullable: true,
+              description: 'Mailing address printed on generated forms; may span lines'
+            },
+            phone: {
+              type: 'string',
+              nullable: true
+            },
+            faxNumber: {
+              type: 'string',
+              nullable: true,
+              description: 'Receiving fax number, digits only. Cover sheets give it as the reply number, and unmatched faxes sent to it belong to the practice.'
+            },
+            integrations: {
+              type: 'object',
+              description: 'Outside services the practice uses',
+              properties: {
+                eligibilityApi: {
+                  type: 'boolean',
+                  description: 'Live eligibility checks from the verification screen; off shows a sample response'
+                }
+              }
+            },
+            active: {
+              type: 'boolean'
+            }
+          }
+        },
+        PracticeMember: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Membership ID'
+            },
+            practiceId: {
+              type: 'string'
+            },
+            userId: {
+              type: 'string'
+            },
+            role: {
+              type: 'string',
+              enum: ['owner', 'manager', 'staff'],
+              description: 'Role within the practice'
+            },
+            username: {
+              type: 'string'
+            },
+            email: {
+              type: 'string',
+              format: 'email'
+            }
+          }
+        },
+        AuditLogEntry: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            userId: {
+              type: 'string',
+              nullable: true
+            },
+            userEmail: {
+              type: 'string',
+              nullable: true
+            },
+            practiceId: {
+              type: 'string',
+              nullable: true
+            },
+            patientId: {
+              type: 'string',
+              nullable: true
+            },
+            action: {
+              type: 'string',
+              enum: ['read', 'decrypt', 'export', 'print', 'ocr']
+            },
+            resource: {
+              type: 'string',
+              description: 'What was accessed, e.g. patient, insurance, transaction'
+            },
+            resourceId: {
+              type: 'string',
+              nullable: true
+            },
+            field: {
+              type: 'string',
+              nullable: true,
+              description: 'Decrypted field, e.g. ssn'
+            },
+            ipAddress: {
+              type: 'string',
+              nullable: true
+            },
+            userAgent: {
+              type: 'string',
+              nullable: true
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
             }
           }
         },
@@ -271,6 +453,816 @@ const options: swaggerJsdoc.Options = {
             }
           }
         },
+        Payer: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Directory entry ID'
+            },
+            name: {
+              type: 'string',
+              description: 'Canonical carrier name',
+              example: 'Cigna Dental'
+            },
+            payerId: {
+              type: 'string',
+              nullable: true,
+              description: 'Trading partner ID used for X12 eligibility',
+              example: '62308'
+            },
+            aliases: {
+              type: 'array',
+              items: {
+                type: 'string'
+              },
+              description: 'Alternate names and insurance card text that resolve to this payer'
+            },
+            phoneNumber: {
+              type: 'string',
+              nullable: true,
+              description: 'Provider services phone number used for AI calls'
+            },
+            faxNumber: {
+              type: 'string',
+              nullable: true,
+              description: 'Fax number used for benefit breakdown requests'
+            },
+            supportedTransactions: {
+              type: 'array',
+              items: {
+                type: 'string',
+                enum: ['API', 'CALL', 'FAX']
+              },
+              description: 'Channels the payer can be reached through'
+            },
+            active: {
+              type: 'boolean',
+              description: 'Whether the entry is used for resolution'
+            }
+          }
+        },
+        OcrExtraction: {
+          type: 'object',
+          description: 'Insurance card OCR result held for review, compared field by field with the patient and their primary insurance',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            patientId: {
+              type: 'string'
+            },
+            status: {
+              type: 'string',
+              enum: ['pending', 'confirmed', 'rejected']
+            },
+            template: {
+              type: 'string',
+              nullable: true,
+              description: 'Payer card layout used'
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            reviewedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            appliedFields: {
+              type: 'array',
+              nullable: true,
+              items: {
+                type: 'string'
+              },
+              description: 'Fields written when the extraction was confirmed'
+            },
+            fields: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  field: {
+                    type: 'string',
+                    enum: ['givenName', 'familyName', 'provider', 'policyNumber', 'groupNumber', 'subscriberId', 'subscriberName']
+                  },
+                  label: {
+                    type: 'string'
+                  },
+                  record: {
+                    type: 'string',
+                    enum: ['patient', 'insurance']
+                  },
+                  current: {
+                    type: 'string',
+                    nullable: true,
+                    description: 'Current value; policy and group numbers are masked'
+                  },
+                  extracted: {
+                    type: 'string',
+                    description: 'Value read from the card, empty when it could not be read'
+                  },
+                  proposed: {
+                    type: 'string',
+                    description: 'Value confirming will write, including reviewer edits'
+                  },
+                  confidence: {
+                    type: 'number',
+                    description: 'OCR confidence (0-100)'
+                  },
+                  changed: {
+                    type: 'boolean',
+                    description: 'Proposed value is set and differs from the current one'
+                  },
+                  edited: {
+                    type: 'boolean'
+                  }
+                }
+              }
+            }
+          }
+        },
+        OcrFieldBox: {
+          type: 'object',
+          description: 'Where an OCR field was read, as fractions (0-1) of the processed card image',
+          properties: {
+            side: {
+              type: 'string',
+              enum: ['front', 'back']
+            },
+            x: {
+              type: 'number'
+            },
+            y: {
+              type: 'number'
+            },
+            width: {
+              type: 'number'
+            },
+            height: {
+              type: 'number'
+            }
+          }
+        },
+        PatientDocument: {
+          type: 'object',
+          description: 'Stored patient document (insurance card image, EOB, faxed benefit sheet) with its versions',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            patientId: {
+              type: 'string'
+            },
+            category: {
+              type: 'string',
+              enum: ['insurance-card-front', 'insurance-card-back', 'eob', 'benefit-fax', 'fax-request', 'verification-form', 'other']
+            },
+            currentVersion: {
+              type: 'integer'
+            },
+            fileName: {
+              type: 'string',
+              description: 'File name of the current version'
+            },
+            mimeType: {
+              type: 'string',
+              enum: ['application/pdf', 'image/jpeg', 'image/png']
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            versions: {
+              type: 'array',
+              description: 'Newest first',
+              items: {
+                type: 'object',
+                properties: {
+                  version: {
+                    type: 'integer'
+                  },
+                  fileName: {
+                    type: 'string'
+                  },
+                  mimeType: {
+                    type: 'string'
+                  },
+                  size: {
+                    type: 'integer',
+                    description: 'Bytes'
+                  },
+                  hasThumbnail: {
+                    type: 'boolean'
+                  },
+                  uploadedBy: {
+                    type: 'string',
+                    nullable: true
+                  },
+                  createdAt: {
+                    type: 'string',
+                    format: 'date-time'
+                  }
+                }
+              }
+            }
+          }
+        },
+        LiveEvent: {
+          type: 'object',
+          description: 'A change pushed over GET /api/events. Only ids and statuses; fetch details separately.',
+          required: ['type', 'patientId'],
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['transaction.created', 'transaction.updated', 'verification-status.updated', 'job.updated']
+            },
+            patientId: {
+              type: 'string'
+            },
+            transactionId: {
+              type: 'string',
+              description: 'transaction.* events'
+            },
+            transactionType: {
+              type: 'string',
+              description: 'transaction.* events, e.g. API, CALL, FAX'
+            },
+            status: {
+              type: 'string',
+              description: 'New transaction or job status'
+            },
+            steps: {
+              type: 'object',
+              description: 'verification-status.updated: status of each workflow step',
+              additionalProperties: {
+                type: 'string',
+                enum: ['pending', 'in_progress', 'completed']
+              }
+            },
+            jobId: {
+              type: 'string',
+              description: 'job.updated events'
+            },
+            currentStep: {
+              type: 'string',
+              nullable: true
+            },
+            step: {
+              type: 'object',
+              description: 'job.updated: the step attempt that changed, if any',
+              properties: {
+                step: {
+                  type: 'string'
+                },
+                attempt: {
+                  type: 'integer'
+                },
+                status: {
+                  type: 'string'
+                },
+                message: {
+                  type: 'string',
+                  nullable: true
+                }
+              }
+            }
+          }
+        },
+        Fax: {
+          type: 'object',
+          description: 'A benefit breakdown request sent to a payer, or a fax received from one',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            direction: {
+              type: 'string',
+              enum: ['outbound', 'inbound']
+            },
+            status: {
+              type: 'string',
+              enum: ['sending', 'sent', 'answered', 'failed', 'matched', 'unmatched'],
+              description: 'Outbound: sending, sent, answered or failed. Inbound: matched or unmatched.'
+            },
+            patientId: {
+              type: 'string',
+              nullable: true
+            },
+            transactionId: {
+              type: 'string',
+              nullable: true,
+              description: 'The FAX transaction'
+            },
+            documentId: {
+              type: 'string',
+              nullable: true,
+              description: 'The sent request form, or the received fax once filed under the patient'
+            },
+            reference: {
+              type: 'string',
+              nullable: true,
+              description: 'Printed on the cover sheet, e.g. BR-1A2B3C4D'
+            },
+            replyTo: {
+              type: 'string',
+              nullable: true,
+              description: 'Inbound: the request it answers'
+            },
+            remoteNumber: {
+              type: 'string',
+              nullable: true,
+              description: 'Payer fax number, digits only'
+            },
+            provider: {
+              type: 'string',
+              example: 'loopback'
+            },
+            providerFaxId: {
+              type: 'string',
+              nullable: true
+            },
+            pages: {
+              type: 'integer',
+              nullable: true
+            },
+            errorMessage: {
+              type: 'string',
+              nullable: true
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        DocumentAnalysisJob: {
+          type: 'object',
+          description: 'Background read of benefit documents, recorded as an ANALYSIS transaction',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            patientId: {
+              type: 'string'
+            },
+            documentIds: {
+              type: 'array',
+              items: {
+                type: 'string'
+              }
+            },
+            status: {
+              type: 'string',
+              enum: ['running', 'completed', 'failed']
+            },
+            progress: {
+              type: 'integer',
+              description: '0-100'
+            },
+            message: {
+              type: 'string',
+              description: 'What the job is doing, e.g. the page being read'
+            },
+            transactionId: {
+              type: 'string',
+              nullable: true
+            },
+            result: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                pages: {
+                  type: 'integer'
+                },
+                ocrPages: {
+                  type: 'integer',
+                  description: 'Pages read by OCR rather than from a PDF text layer'
+                },
+                rows: {
+                  type: 'array',
+                  description: 'One row per benefit field, in the shape of the verification data panel',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      saiCode: {
+                        type: 'string'
+                      },
+                      refInsCode: {
+                        type: 'string'
+                      },
+                      category: {
+                        type: 'string'
+                      },
+                      fieldName: {
+                        type: 'string'
+                      },
+                      preStepValue: {
+                        type: 'string',
+                        description: 'Value already on the insurance'
+                      },
+                      missing: {
+                        type: 'string',
+                        enum: ['Y', 'N']
+                      },
+                      aiCallValue: {
+                        type: 'string',
+                        description: 'Value read from the documents'
+                      },
+                      verifiedBy: {
+                        type: 'string'
+                      },
+                      confidence: {
+                        type: 'integer',
+                        description: 'OCR confidence (0-100) of the line the value was read from; 100 for PDF text'
+                      },
+                      source: {
+                        type: 'object',
+                        properties: {
+                          documentId: {
+                            type: 'string'
+                          },
+                          page: {
+                            type: 'integer'
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            },
+            errorMessage: {
+              type: 'string',
+              nullable: true
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            finishedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            }
+          }
+        },
+        VerificationJob: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              description: 'Job ID'
+            },
+            patientId: {
+              type: 'string'
+            },
+            insuranceId: {
+              type: 'string',
+              nullable: true
+            },
+            status: {
+              type: 'string',
+              enum: ['queued', 'running', 'waiting', 'completed', 'failed', 'cancelled'],
+              description: 'waiting means the job is paused on an open CALL transaction'
+            },
+            currentStep: {
+              type: 'string',
+              nullable: true,
+              enum: ['fetchPMS', 'apiVerification', 'documentAnalysis', 'callCenter', 'saveToPMS']
+            },
+            scheduledFor: {
+              type: 'string',
+              format: 'date-time'
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            finishedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            },
+            rules: {
+              type: 'string',
+              nullable: true,
+              description: 'JSON string of per-job rule overrides'
+            },
+            errorMessage: {
+              type: 'string',
+              nullable: true
+            }
+          }
+        },
+        VerificationJobStep: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            jobId: {
+              type: 'string'
+            },
+            step: {
+              type: 'string',
+              enum: ['fetchPMS', 'apiVerification', 'documentAnalysis', 'callCenter', 'saveToPMS']
+            },
+            attempt: {
+              type: 'integer',
+              description: 'Attempt number (0 for skipped steps)'
+            },
+            status: {
+              type: 'string',
+              enum: ['in_progress', 'waiting', 'completed', 'failed', 'skipped']
+            },
+            transactionId: {
+              type: 'string',
+              nullable: true,
+              description: 'Transaction written for this step'
+            },
+            message: {
+              type: 'string',
+              nullable: true,
+              description: 'Outcome, failure or skip reason'
+            },
+            startedAt: {
+              type: 'string',
+              format: 'date-time'
+            },
+            finishedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true
+            }
+          }
+        },
+        VerificationFormVersion: {
+          type: 'object',
+          properties: {
+            version: {
+              type: 'integer'
+            },
+            savedBy: {
+              type: 'string',
+              nullable: true,
+              description: 'User ID of the author'
+            },
+            savedByName: {
+              type: 'string',
+              nullable: true
+            },
+            savedAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        VerificationForm: {
+          allOf: [
+            { $ref: '#/components/schemas/VerificationFormVersion' },
+            {
+              type: 'object',
+              properties: {
+                id: {
+                  type: 'string'
+                },
+                patientId: {
+                  type: 'string'
+                },
+                insuranceId: {
+                  type: 'string'
+                },
+                templateId: {
+                  type: 'string',
+                  nullable: true,
+                  description: 'Template the version was saved on; null for the standard form'
+                },
+                currentVersion: {
+                  type: 'integer',
+                  description: 'Latest saved version; send as baseVersion when saving'
+                },
+                data: {
+                  type: 'object',
+                  description: 'Form fields'
+                },
+                withheld: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Fields blanked because the user may not decrypt them'
+                }
+              }
+            }
+          ]
+        },
+        VerificationFormPrefill: {
+          type: 'object',
+          properties: {
+            data: {
+              type: 'object',
+              description: 'Form fields gathered from the patient record and verification results'
+            },
+            sources: {
+              type: 'object',
+              additionalProperties: {
+                type: 'string',
+                enum: ['pms', 'ocr', 'document-analysis', 'eligibility', 'ai-call']
+              },
+              description: 'Where each prefilled field came from; template fields by key'
+            },
+            withheld: {
+              type: 'array',
+              items: { type: 'string' }
+            }
+          }
+        },
+        VerificationFormTemplateSection: {
+          type: 'object',
+          required: ['title', 'fields'],
+          properties: {
+            title: {
+              type: 'string',
+              example: 'Orthodontic Coverage'
+            },
+            fields: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['key', 'label', 'type'],
+                properties: {
+                  key: {
+                    type: 'string',
+                    description: 'A standard form field (e.g. yearlyMax or insurerType.primary) or a key of the template\'s own',
+                    example: 'orthoWorkInProgress'
+                  },
+                  label: {
+                    type: 'string',
+                    example: 'Work in progress covered'
+                  },
+                  type: {
+                    type: 'string',
+                    enum: ['text', 'textarea', 'date', 'percent', 'amount', 'yes-no', 'select']
+                  },
+                  required: {
+                    type: 'boolean'
+                  },
+                  options: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    description: 'Choices of a select field'
+                  },
+                  saiCode: {
+                    type: 'string',
+                    description: 'Benefit row the field is prefilled from',
+                    example: 'VF000061'
+                  },
+                  refInsCode: {
+                    type: 'string',
+                    description: 'Payer reference code of the benefit row',
+                    example: 'D061'
+                  }
+                }
+              }
+            }
+          }
+        },
+        VerificationFormTemplate: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string',
+              readOnly: true
+            },
+            name: {
+              type: 'string',
+              example: 'Pediatric - Delta Dental'
+            },
+            description: {
+              type: 'string',
+              nullable: true
+            },
+            practiceId: {
+              type: 'string',
+              nullable: true,
+              description: 'Null: every practice'
+            },
+            payerId: {
+              type: 'string',
+              nullable: true,
+              description: 'Null: every payer'
+            },
+            sections: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/VerificationFormTemplateSection' }
+            },
+            active: {
+              type: 'boolean'
+            },
+            updatedAt: {
+              type: 'string',
+              format: 'date-time',
+              readOnly: true
+            }
+          }
+        },
+        CoverageByCodeRun: {
+          type: 'object',
+          properties: {
+            id: {
+              type: 'string'
+            },
+            patientId: {
+              type: 'string'
+            },
+            practiceId: {
+              type: 'string',
+              nullable: true
+            },
+            userId: {
+              type: 'string',
+              nullable: true,
+              description: 'User who saved the run'
+            },
+            userName: {
+              type: 'string',
+              nullable: true,
+              description: 'Only in the run list'
+            },
+            source: {
+              type: 'string',
+              enum: ['API', 'CALL', 'FAX', 'ANALYSIS', 'MANUAL']
+            },
+            sourceRef: {
+              type: 'string',
+              nullable: true,
+              description: 'ID of the transaction, document or fax the values came from'
+            },
+            rowCount: {
+              type: 'integer',
+              example: 64
+            },
+            createdAt: {
+              type: 'string',
+              format: 'date-time'
+            }
+          }
+        },
+        CoverageRunDiff: {
+          type: 'object',
+          properties: {
+            from: { $ref: '#/components/schemas/CoverageByCodeRun' },
+            to: { $ref: '#/components/schemas/CoverageByCodeRun' },
+            rows: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  key: {
+                    type: 'string',
+                    description: 'SAI code and payer reference code the rows were matched on',
+                    example: 'VF000013|D013'
+                  },
+                  saiCode: { type: 'string', nullable: true },
+                  refInsCode: { type: 'string', nullable: true },
+                  fieldName: { type: 'string', nullable: true },
+                  status: {
+                    type: 'string',
+                    enum: ['added', 'removed', 'changed']
+                  },
+                  changes: {
+                    type: 'array',
+                    description: 'Empty for added and removed rows',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        field: {
+                          type: 'string',
+                          enum: ['preStepValue', 'aiCallValue', 'verified', 'verifiedBy', 'comments', 'category', 'fieldName', 'source']
+                        },
+                        before: { type: 'string', nullable: true, example: '80%' },
+                        after: { type: 'string', nullable: true, example: '50%' }
+                      }
+                    }
+                  }
+                }
+              }
+            },
+            unchanged: {
+              type: 'integer',
+              description: 'Rows the same in both runs'
+            }
+          }
+        },
         Transaction: {
           type: 'object',
           properties: {
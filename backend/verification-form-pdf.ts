@@ -0,0 +1,257 @@
+import type { Insurance, Patient, VerificationFormTemplate } from '@shared/schema';
+import type { VerificationFormData } from '@shared/verification-form';
+import { readFieldValue, type TemplateField } from '@shared/verification-form-template';
+import { storage } from './storage';
+import { replyFaxNumber } from './fax';
+import { createWriter, formatDate, type PageWriter } from './pdf-writer';
+import type { VerificationFormRecord } from './verification-forms';
+
+export interface VerificationFormPdfDetails {
+  practice: { name: string; npi?: string | null; address?: string | null; phone?: string | null; faxNumber?: string | null };
+  form: Pick<VerificationFormRecord, 'data' | 'withheld' | 'version' | 'savedByName' | 'savedAt'>;
+  template?: Pick<VerificationFormTemplate, 'name' | 'sections'>; // Laid out section by section instead of the standard form
+  printedAt: Date;
+  printedBy: string;
+}
+
+// SSNs are printed as their last four digits: the PDF can end up in the document vault, which
+// users without `patient:decrypt-ssn` can open
+function maskSsn(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return value ? `***-**-${digits.length >= 4 ? digits.slice(-4) : '****'}` : '';
+}
+
+function yesNo(value: boolean): string {
+  return value ? 'Yes' : 'No';
+}
+
+function percent(value: string): string {
+  return value && !value.endsWith('%') ? `${value}%` : value;
+}
+
+function coveredAt(covered: boolean, at: string): string {
+  return covered ? percent(at) || 'Covered' : 'Not covered';
+}
+
+function years(value: string): string {
+  return value ? `${value} years` : '';
+}
+
+function checked(options: Record<string, boolean>): string {
+  return Object.entries(options).filter(([, on]) => on).map(([label]) => label).join(', ') || 'None';
+}
+
+function section(writer: PageWriter, title: string) {
+  writer.keepTogether(60);
+  writer.y -= 6;
+  writer.text(title.toUpperCase(), { bold: true, size: 11, gap: 4 });
+}
+
+const SSN_FIELDS = new Set(['patientSSN', 'subscriberSSN']);
+
+function templateValue(data: VerificationFormData, field: TemplateField, withheld: Set<string>): string {
+  if (withheld.has(field.key)) return 'Withheld';
+  const value = readFieldValue(data, field.key);
+  if (field.type === 'yes-no') return yesNo(value === true);
+  const text = typeof value === 'string' ? value : '';
+  if (SSN_FIELDS.has(field.key)) return maskSsn(text);
+  return field.type === 'percent' ? percent(text) : text;
+}
+
+/**
+ * Letter-size verification form: practice letterhead, patient, subscriber and plan details, coverage
+ * tables, notes and signature lines, with the version it was printed from on every page. A form
+ * saved on a template prints the template's sections as field and value tables instead.
+ */
+export async function buildVerificationFormPdf(details: VerificationFormPdfDetails): Promise<Buffer> {
+  const { practice, form } = details;
+  const withheld = new Set<string>(form.withheld);
+  const data = form.data;
+  // Protected fields the user may not see print as "Withheld" rather than blank
+  const value = (field: keyof VerificationFormData, format: (raw: any) => string = raw => raw): string =>
+    withheld.has(field) ? 'Withheld' : format(data[field]);
+
+  const { pdf, writer } = await createWriter(`Dental insurance verification form - ${data.patientName}`);
+
+  // Letterhead
+  writer.text(practice.name, { size: 16, bold: true });
+  (practice.address || '').split('\n').filter(line => line.trim()).forEach(line => writer.text(line, { size: 10 }));
+  const contact = [
+    practice.phone && `Phone ${practice.phone}`,
+    practice.faxNumber && `Fax ${practice.faxNumber}`,
+    practice.npi && `NPI ${practice.npi}`,
+  ].filter(Boolean).join('    ');
+  if (contact) writer.text(contact, { size: 10 });
+  writer.rule();
+
+  writer.text('Dental Insurance Verification Form', { size: 16, bold: true });
+  writer.text(
+    `${details.template ? `${details.template.name}. ` : ''}` +
+    `Version ${form.version}, saved by ${form.savedByName || 'unknown user'} on ${formatDate(form.savedAt)}. ` +
+    `Printed ${formatDate(details.printedAt)} by ${details.printedBy}.`,
+    { size: 9, gap: 4 }
+  );
+
+  if (details.template) {
+    for (const { title, fields } of details.template.sections) {
+      section(writer, title);
+      writer.table(
+        [{ header: 'Field', width: 0.45 }, { header: 'Value', width: 0.55 }],
+        fields.map(field => [field.label, templateValue(data, field, withheld)])
+      );
+    }
+  } else {
+    writeStandardSections(writer, data, value);
+  }
+
+  writer.signatureLines(['Verified by', 'Date']);
+  writer.signatureLines(['Reviewed by', 'Date']);
+
+  writer.footer([data.patientName, `Verification form version ${form.version}`, 'Contains protected health information'].filter(Boolean).join(' - '));
+  return Buffer.from(await pdf.save());
+}
+
+// The standard form: field grids for the people and plan, tables for the coverage
+function writeStandardSections(
+  writer: PageWriter,
+  data: VerificationFormData,
+  value: (field: keyof VerificationFormData, format?: (raw: any) => string) => string
+) {
+
+  section(writer, 'Patient');
+  writer.fieldGrid([
+    ['Name', data.patientName],
+    ['Date of birth', value('patientDOB')],
+    ['SSN', value('patientSSN', maskSsn)],
+    ['Relationship to subscriber', data.relationshipToSubscriber],
+  ]);
+
+  section(writer, 'Subscriber');
+  writer.fieldGrid([
+    ['Name', data.subscriberName],
+    ['Date of birth', value('subscriberDOB')],
+    ['SSN', value('subscriberSSN', maskSsn)],
+    ['Subscriber ID', data.subscriberID],
+  ]);
+
+  section(writer, 'Insurance');
+  writer.fieldGrid([
+    ['Company', data.insuranceCompany],
+    ['Insurer type', checked({ Primary: data.insurerType.primary, Secondary: data.insurerType.secondary })],
+    ['Address', data.insuranceAddress],
+    ['Phone', data.insurancePhone],
+    ['Employer', data.employer],
+    ['Group number', value('groupNumber')],
+    ['Effective date', data.effectiveDate],
+    ['Renewal month', data.renewalMonth],
+    ['Yearly maximum', data.yearlyMax],
+    ['Deductible (individual)', data.deductiblePerIndividual],
+    ['Deductible (family)', data.deductiblePerFamily],
+    ['Deductible applies to', checked({
+      Preventative: data.deductibleAppliesTo.preventative,
+      Basic: data.deductibleAppliesTo.basic,
+      Major: data.deductibleAppliesTo.major,
+    })],
+  ]);
+
+  section(writer, 'Coverage by class');
+  writer.table(
+    [
+      { header: 'Class', width: 0.16 },
+      { header: 'Covered at', width: 0.14 },
+      { header: 'Waiting period', width: 0.16 },
+      { header: 'Effective date', width: 0.16 },
+      { header: 'Includes', width: 0.38 },
+    ],
+    [
+      ['Preventative', percent(data.preventativeCoveredAt), yesNo(data.preventativeWaitingPeriod), data.preventativeEffectiveDate, ''],
+      ['Basic', percent(data.basicCoveredAt), yesNo(data.basicWaitingPeriod), data.basicEffectiveDate, data.basicIncludes],
+      ['Major', percent(data.majorCoveredAt), yesNo(data.majorWaitingPeriod), data.majorEffectiveDate, data.majorIncludes],
+    ]
+  );
+
+  const benefitColumns = [{ header: 'Benefit', width: 0.45 }, { header: 'Value', width: 0.55 }];
+
+  section(writer, 'Preventative frequencies and limits');
+  writer.table(benefitColumns, [
+    ['Bitewings', data.bitewingFrequency],
+    ['Prophylaxis / exam', data.prophylaxisExamFrequency],
+    ['Last full mouth series', data.lastFMS],
+    ['Eligible for full mouth series now', yesNo(data.eligibleForFMSNow)],
+    ['Full mouth series every', years(data.eligibleForFMSEvery)],
+    ['Fluoride varnish', data.fluorideVarnishFrequency],
+    ['Fluoride age limit', data.fluorideAgeLimitExists ? data.fluorideAgeLimit : 'None'],
+    ['Sealants', data.sealantCoverage
+      ? checked({ Molars: data.sealantTeethCovered.molars, Premolars: data.sealantTeethCovered.premolars })
+      : 'Not covered'],
+    ['Sealant age limit', data.sealantAgeLimitExists ? data.sealantAgeLimit : 'None'],
+    ['Sealant replacement', data.sealantReplacement],
+  ]);
+
+  section(writer, 'Periodontal');
+  writer.table(benefitColumns, [
+    ['SRP history', data.srpHistory ? `Yes${data.srpHistoryDate ? `, ${data.srpHistoryDate}` : ''}` : 'No'],
+    ['SRP covered', yesNo(data.srpCovered)],
+    ['SRP frequency', data.srpFrequency],
+    ['All quadrants in one visit', yesNo(data.srpAllQuadrantsSameVisit)],
+    ['SRP waiting period', data.srpWaitingPeriod],
+    ['Adult prophylaxis with SRP', yesNo(data.adultProphylaxisWithSRP)],
+    ['Adult prophylaxis waiting period', data.adultProphylaxisWaitingPeriod],
+    ['Periodontal maintenance', data.periodontalMaintenanceCovered ? data.periodontalMaintenanceFrequency || 'Covered' : 'Not covered'],
+  ]);
+
+  section(writer, 'Implants and orthodontics');
+  writer.table(benefitColumns, [
+    ['Endosteal implants', coveredAt(data.endostealImplantsCovered, data.endostealImplantsCoveredAt)],
+    ['Bone replacement grafts', coveredAt(data.boneReplacementGraftsCovered, data.boneReplacementGraftsCoveredAt)],
+    ['Guided tissue regeneration', coveredAt(data.guidedTissueRegenerationCovered, data.guidedTissueRegenerationCoveredAt)],
+    ['Implant abutments', coveredAt(data.implantAbutmentsCovered, data.implantAbutmentsCoveredAt)],
+    ['Implant crowns', coveredAt(data.implantCrownsCovered, data.implantCrownsCoveredAt)],
+    ['Implant pre-determination required', yesNo(data.implantPreDeterminationRequired)],
+    ['Orthodontics', coveredAt(data.orthodonticsCovered, data.orthodonticsCoveredAt)],
+    ['Orthodontics age limit', data.orthodonticsAgeLimitExists ? data.orthodonticsAgeLimit : 'None'],
+    ['Orthodontics lifetime maximum', data.orthodonticsLifetimeMaxExists ? data.orthodonticsLifetimeMax : 'None'],
+  ]);
+
+  section(writer, 'Miscellaneous');
+  writer.table(benefitColumns, [
+    ['Nightguards', coveredAt(data.nightguardsCovered, data.nightguardsCoveredAt)],
+    ['Nitrous oxide', coveredAt(data.nitrousOxideCovered, data.nitrousOxideCoveredAt)],
+    ['Crown and bridge replacement', years(data.crownsAndBridgesReplacement)],
+    ['Denture replacement', years(data.denturesReplacement)],
+    ['Missing tooth clause', yesNo(data.missingToothClauseCovered)],
+  ]);
+
+  section(writer, 'Notes');
+  const notes = data.additionalNotes.split('\n').filter(line => line.trim());
+  (notes.length ? notes : ['-']).forEach(line => writer.text(line, { size: 10 }));
+}
+
+/**
+ * Renders a saved form on the letterhead of the patient's practice
+ * @returns The PDF and a file name for it
+ */
+export async function renderVerificationForm(
+  patient: Patient,
+  insurance: Insurance,
+  form: VerificationFormRecord,
+  printedBy: string
+): Promise<{ pdf: Buffer; fileName: string }> {
+  const practice = patient.practiceId ? await storage.getPracticeById(patient.practiceId) : undefined;
+  const template = form.templateId ? await storage.getVerificationFormTemplate(form.templateId) : undefined;
+  const pdf = await buildVerificationFormPdf({
+    practice: {
+      name: practice?.name || 'Dental practice',
+      npi: practice?.npi,
+      address: practice?.address,
+      phone: practice?.phone,
+      faxNumber: replyFaxNumber(),
+    },
+    form,
+    template,
+    printedAt: new Date(),
+    printedBy,
+  });
+  const payer = insurance.provider.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return { pdf, fileName: `verification-form-${payer || 'insurance'}-v${form.version}.pdf` };
+}
@@ -0,0 +1,196 @@
+import type { Insurance, Patient, VerificationFormTemplate } from '@shared/schema';
+import {
+  MAX_SECTION_FIELDS,
+  MAX_TEMPLATE_SECTIONS,
+  TEMPLATE_FIELD_TYPES,
+  standardFieldKind,
+  type TemplateField,
+  type TemplateSection,
+} from '@shared/verification-form-template';
+import { storage } from './storage';
+import { resolvePayer } from './payers';
+
+const FIELD_KEY = /^[A-Za-z][A-Za-z0-9_]{0,63}(?:\.[A-Za-z][A-Za-z0-9_]{0,63})?$/;
+const CODE = /^[A-Za-z0-9]{2,16}$/;
+const MAX_LABEL_LENGTH = 200;
+const MAX_OPTIONS = 50;
+
+export class FormTemplateError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'FormTemplateError';
+  }
+}
+
+export type FormTemplateValues = Partial<Pick<VerificationFormTemplate, 'name' | 'description' | 'practiceId' | 'payerId' | 'sections' | 'active'>>;
+
+function parseField(input: unknown, where: string): TemplateField {
+  if (!input || typeof input !== 'object') {
+    throw new FormTemplateError(`${where} must be an object`);
+  }
+  const { key, label, type, required, options, saiCode, refInsCode } = input as Record<string, unknown>;
+
+  if (typeof key !== 'string' || !FIELD_KEY.test(key)) {
+    throw new FormTemplateError(`${where}: key must start with a letter and hold only letters, digits and _ (one "." for a standard option)`);
+  }
+  if (typeof label !== 'string' || !label.trim() || label.length > MAX_LABEL_LENGTH) {
+    throw new FormTemplateError(`${where}: label is required`);
+  }
+  if (typeof type !== 'string' || !(TEMPLATE_FIELD_TYPES as readonly string[]).includes(type)) {
+    throw new FormTemplateError(`${where}: type must be one of ${TEMPLATE_FIELD_TYPES.join(', ')}`);
+  }
+
+  // A standard field keeps its kind of value, so the standard form and the PDF can still show it
+  const kind = standardFieldKind(key);
+  if (key.includes('.') && !kind) {
+    throw new FormTemplateError(`${where}: ${key} is not an option of the standard form`);
+  }
+  if (kind && (kind === 'boolean') !== (type === 'yes-no')) {
+    throw new FormTemplateError(`${where}: ${key} is a standard ${kind === 'boolean' ? 'yes/no' : 'text'} field`);
+  }
+
+  const field: TemplateField = { key, label: label.trim(), type: type as TemplateField['type'] };
+  if (required) field.required = true;
+  if (type === 'select') {
+    if (!Array.isArray(options) || options.length === 0 || options.length > MAX_OPTIONS
+      || options.some(option => typeof option !== 'string' || !option.trim())) {
+      throw new FormTemplateError(`${where}: a select field needs a list of options`);
+    }
+    field.options = options.map(option => option.trim());
+  }
+  for (const [name, code] of [['saiCode', saiCode], ['refInsCode', refInsCode]] as const) {
+    if (code === undefined || code === null || code === '') continue;
+    if (typeof code !== 'string' || !CODE.test(code)) {
+      throw new FormTemplateError(`${where}: ${name} must be letters and digits, e.g. VF000013 or D013`);
+    }
+    field[name] = code.toUpperCase();
+  }
+  return field;
+}
+
+/**
+ * Checks a template's sections
+ * @throws FormTemplateError naming the first problem
+ */
+export function parseTemplateSections(input: unknown): TemplateSection[] {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_TEMPLATE_SECTIONS) {
+    throw new FormTemplateError(`sections must list 1 to ${MAX_TEMPLATE_SECTIONS} sections`);
+  }
+
+  const keys = new Set<string>();
+  return input.map((section, s) => {
+    const where = `Section ${s + 1}`;
+    const { title, fields } = (section || {}) as Record<string, unknown>;
+    if (typeof title !== 'string' || !title.trim() || title.length > MAX_LABEL_LENGTH) {
+      throw new FormTemplateError(`${where}: title is required`);
+    }
+    if (!Array.isArray(fields) || fields.length === 0 || fields.length > MAX_SECTION_FIELDS) {
+      throw new FormTemplateError(`${where}: fields must list 1 to ${MAX_SECTION_FIELDS} fields`);
+    }
+    return {
+      title: title.trim(),
+      fields: fields.map((input, f) => {
+        const field = parseField(input, `${where}, field ${f + 1}`);
+        if (keys.has(field.key)) {
+          throw new FormTemplateError(`${where}, field ${f + 1}: ${field.key} is used twice`);
+        }
+        keys.add(field.key);
+        return field;
+      }),
+    };
+  });
+}
+
+/**
+ * The template columns in a create or update request
+ * @param creating - Name and sections are required
+ * @throws FormTemplateError
+ */
+export async function parseTemplateBody(body: any, creating: boolean): Promise<FormTemplateValues> {
+  const { name, description, practiceId, payerId, sections, active } = body || {};
+  const values: FormTemplateValues = {};
+
+  if (name !== undefined || creating) {
+    if (typeof name !== 'string' || !name.trim()) throw new FormTemplateError('Name is required');
+    values.name = name.trim();
+  }
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') throw new FormTemplateError('Description must be a string');
+    values.description = description?.trim() || null;
+  }
+  if (practiceId !== undefined) {
+    if (practiceId && !(typeof practiceId === 'string' && await storage.getPracticeById(practiceId))) {
+      throw new FormTemplateError('Practice not found');
+    }
+    values.practiceId = practiceId || null;
+  }
+  if (payerId !== undefined) {
+    if (payerId && !(typeof payerId === 'string' && await storage.getPayerById(payerId))) {
+      throw new FormTemplateError('Payer not found');
+    }
+    values.payerId = payerId || null;
+  }
+  if (sections !== undefined || creating) {
+    values.sections = parseTemplateSections(sections);
+  }
+  if (active !== undefined) values.active = !!active;
+  return values;
+}
+
+function availableTo(template: VerificationFormTemplate, practiceId: string | null): boolean {
+  return template.active && (!template.practiceId || template.practiceId === practiceId);
+}
+
+/**
+ * Active templates a practice can use: its own and those for every practice
+ */
+export async function templatesForPractice(practiceId: string | null): Promise<VerificationFormTemplate[]> {
+  return (await storage.getVerificationFormTemplates()).filter(template => availableTo(template, practiceId));
+}
+
+/**
+ * The template a new form starts with. The most specific match wins: the practice's template for
+ * the payer, then one for the payer in every practice, then the practice's general template, then
+ * a general one for every practice. Among equals the latest edited wins.
+ * @returns undefined for the standard form
+ */
+export async function resolveFormTemplate(patient: Patient, insurance: Insurance): Promise<VerificationFormTemplate | undefined> {
+  const payer = await resolvePayer(insurance.provider);
+  const rank = (template: VerificationFormTemplate) =>
+    (template.payerId ? 2 : 0) + (template.practiceId ? 1 : 0);
+
+  return (await templatesForPractice(patient.practiceId))
+    .filter(template => !template.payerId || template.payerId === payer?.id)
+    .sort((a, b) => rank(b) - rank(a) || b.updatedAt.getTime() - a.updatedAt.getTime())[0];
+}
+
+/**
+ * A template picked for a patient's form
+ * @param templateId - null for the standard form
+ * @throws FormTemplateError (400) if the template is inactive or belongs to another practice
+ */
+export async function selectFormTemplate(patient: Patient, templateId: unknown): Promise<VerificationFormTemplate | undefined> {
+  if (templateId === null) return undefined;
+  const template = typeof templateId === 'string' ? await storage.getVerificationFormTemplate(templateId) : undefined;
+  if (!template || !availableTo(template, patient.practiceId)) {
+    throw new FormTemplateError('templateId must name an active template of this practice');
+  }
+  return template;
+}
+
+export function templateFields(template: Pick<VerificationFormTemplate, 'sections'>): TemplateField[] {
+  return template.sections.flatMap(section => section.fields);
+}
+
+/**
+ * The template a form is shown on: the one its version was saved on, else the one a new form starts with
+ * @param form - The saved version, or null if the form was never saved
+ */
+export async function templateOfForm(
+  patient: Patient,
+  insurance: Insurance,
+  form: { templateId: string | null } | null
+): Promise<VerificationFormTemplate | undefined> {
+  if (form) return form.templateId ? await storage.getVerificationFormTemplate(form.templateId) : undefined;
+  return resolveFormTemplate(patient, insurance);
+}
@@ -0,0 +1,593 @@
+import type { Insurance, Patient, VerificationForm, VerificationFormTemplate, VerificationFormVersion } from '@shared/schema';
+import { hasPermission, type Permission } from '@shared/permissions';
+import {
+  emptyVerificationForm,
+  type PrefillSource,
+  type VerificationFormData,
+  type VerificationFormField,
+} from '@shared/verification-form';
+import {
+  emptyFieldValue,
+  readFieldValue,
+  standardFieldKind,
+  type TemplateField,
+  type TemplateFieldValue,
+} from '@shared/verification-form-template';
+import { db } from './db';
+import { storage } from './storage';
+import { encrypt, decrypt } from './crypto';
+import { resolvePayer } from './payers';
+import { summarizePlanBenefits, type DentalBenefitsPlan } from './eligibility-planner';
+import type { ExtractedBenefitRow } from './benefit-extraction';
+import { templateFields } from './verification-form-templates';
+import { benefitFieldRow, saveCoverageRun } from './coverage-history';
+
+// Longest value kept for a text field
+const MAX_VALUE_LENGTH = 2000;
+
+// Fields holding values that are encrypted on the patient and insurance records. Roles that may not
+// decrypt those see them blank, and their saves keep the stored values.
+export const PROTECTED_FORM_FIELDS: Partial<Record<VerificationFormField, Permission>> = {
+  patientSSN: 'patient:decrypt-ssn',
+  subscriberSSN: 'patient:decrypt-ssn',
+  patientDOB: 'patient:decrypt',
+  subscriberDOB: 'patient:decrypt',
+  groupNumber: 'patient:decrypt',
+};
+
+export class VerificationFormError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'VerificationFormError';
+  }
+}
+
+export interface VerificationFormPrefill {
+  data: VerificationFormData;
+  sources: Record<string, PrefillSource>; // Fields set from a source, and which one; template fields by key
+  withheld: VerificationFormField[];
+}
+
+export interface VerificationFormVersionSummary {
+  version: number;
+  savedBy: string | null;
+  savedByName: string | null;
+  savedAt: Date;
+}
+
+export interface VerificationFormRecord extends VerificationFormVersionSummary {
+  id: string;
+  patientId: string;
+  insuranceId: string;
+  templateId: string | null; // Template the version was filled in on; null for the standard form
+  currentVersion: number; // Send as baseVersion when saving
+  data: VerificationFormData;
+  withheld: VerificationFormField[];
+}
+
+function safeDecrypt(value: string | null): string | undefined {
+  if (!value) return undefined;
+  try {
+    return decrypt(value);
+  } catch {
+    return undefined;
+  }
+}
+
+// Fields of a template the standard form lacks; their values are kept under `custom`
+function customFields(template: Pick<VerificationFormTemplate, 'sections'> | undefined): TemplateField[] {
+  return template ? templateFields(template).filter(field => !standardFieldKind(field.key)) : [];
+}
+
+/**
+ * The form's fields from a request body. Fields left out keep their empty value; unknown fields
+ * are dropped, as are custom values of fields the template lacks.
+ * @throws VerificationFormError if a field holds the wrong type
+ */
+export function normalizeFormData(input: unknown, template?: Pick<VerificationFormTemplate, 'sections'>): VerificationFormData {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new VerificationFormError('data must be an object of form fields');
+  }
+
+  const values = input as Record<string, unknown>;
+  const form = emptyVerificationForm();
+  const target = form as unknown as Record<string, unknown>;
+  for (const [field, initial] of Object.entries(form)) {
+    const value = values[field];
+    if (value === undefined) continue;
+
+    if (typeof initial === 'object') {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new VerificationFormError(`${field} must be an object of true/false options`);
+      }
+      target[field] = Object.fromEntries(Object.entries(initial).map(([option, unset]) => {
+        const given = (value as Record<string, unknown>)[option];
+        if (given !== undefined && typeof given !== 'boolean') {
+          throw new VerificationFormError(`${field}.${option} must be true or false`);
+        }
+        return [option, given ?? unset];
+      }));
+    } else if (typeof value !== typeof initial) {
+      throw new VerificationFormError(`${field} must be ${typeof initial === 'boolean' ? 'true or false' : 'a string'}`);
+    } else {
+      target[field] = typeof value === 'string' ? value.slice(0, MAX_VALUE_LENGTH) : value;
+    }
+  }
+
+  const custom = values.custom ?? {};
+  if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
+    throw new VerificationFormError('custom must be an object of template field values');
+  }
+  const fields = customFields(template);
+  if (fields.length > 0) form.custom = {};
+  for (const field of fields) {
+    const value = (custom as Record<string, unknown>)[field.key];
+    if (value === undefined) {
+      form.custom![field.key] = emptyFieldValue(field);
+    } else if (typeof value !== typeof emptyFieldValue(field)) {
+      throw new VerificationFormError(`${field.label} must be ${field.type === 'yes-no' ? 'true or false' : 'a string'}`);
+    } else if (field.type === 'select' && value && !field.options?.includes(value as string)) {
+      throw new VerificationFormError(`${field.label} must be one of ${field.options?.join(', ')}`);
+    } else {
+      form.custom![field.key] = typeof value === 'string' ? value.slice(0, MAX_VALUE_LENGTH) : value as boolean;
+    }
+  }
+  return form;
+}
+
+/**
+ * Labels of the template's required fields left blank. A yes/no field always holds an answer, and
+ * fields the user cannot see are not theirs to fill in.
+ */
+export function missingRequiredFields(
+  data: VerificationFormData,
+  template: Pick<VerificationFormTemplate, 'sections'>,
+  withheld: VerificationFormField[]
+): string[] {
+  return templateFields(template)
+    .filter(field => field.required && field.type !== 'yes-no' && !withheld.includes(field.key as VerificationFormField))
+    .filter(field => !String(readFieldValue(data, field.key) ?? '').trim())
+    .map(field => field.label);
+}
+
+function readData(version: VerificationFormVersion): VerificationFormData {
+  // Versions saved before a field was added lack it
+  return { ...emptyVerificationForm(), ...JSON.parse(decrypt(version.data)) };
+}
+
+function withheldFields(role: string | undefined): VerificationFormField[] {
+  return (Object.keys(PROTECTED_FORM_FIELDS) as VerificationFormField[])
+    .filter(field => !hasPermission(role, PROTECTED_FORM_FIELDS[field]!));
+}
+
+function withhold(data: VerificationFormData, withheld: VerificationFormField[]): VerificationFormData {
+  const shown = { ...data };
+  for (const field of withheld) {
+    (shown as unknown as Record<string, unknown>)[field] = '';
+  }
+  return shown;
+}
+
+/**
+ * Protected fields a record shows with a value, so reading it can be audited as a decrypt
+ */
+export function revealedFields(record: { data: VerificationFormData; withheld: VerificationFormField[] }): VerificationFormField[] {
+  return (Object.keys(PROTECTED_FORM_FIELDS) as VerificationFormField[])
+    .filter(field => !record.withheld.includes(field) && record.data[field] !== '');
+}
+
+// --- Prefill ---------------------------------------------------------------------------------
+
+const NOT_COVERED = /\bnot\s*(?:covered|included)\b|\bno\s*coverage\b|\bexcluded\b/i;
+
+function percentOf(value: string): string {
+  if (NOT_COVERED.test(value)) return '0';
+  return value.match(/(\d+(?:\.\d+)?)\s*%/)?.[1] || '';
+}
+
+// "$1,200 per Year", "1200.00" -> "$1,200"
+function amountOf(value: string | undefined): string {
+  const digits = value?.match(/\$?\s*(\d[\d,]*(?:\.\d+)?)/)?.[1];
+  if (!digits) return '';
+  return `$${Number(digits.replace(/,/g, '')).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+// X12 D8 (CCYYMMDD) or the start of an RD8 range -> MM/DD/YYYY
+function x12Date(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[2]}/${match[3]}/${match[1]}` : '';
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Verification data panel rows (document analysis, AI calls) by SAI code. Applied in this order, so
+// a later code for the same field wins.
+const BENEFIT_ROW_FIELDS: Record<string, (value: string) => Partial<VerificationFormData>> = {
+  VF000002: value => ({ groupNumber: value }),
+  VF000003: value => ({ effectiveDate: value }),
+  VF000004: value => ({ insuranceCompany: value }),
+  VF000005: value => ({ subscriberID: value }),
+  VF000060: value => ({ yearlyMax: amountOf(value) }),
+  VF000051: value => ({ deductiblePerIndividual: amountOf(value) }),
+  VF000053: value => ({ deductiblePerFamily: amountOf(value) }),
+  VF000052: value => ({
+    deductibleAppliesTo: { preventative: /\bprevent/i.test(value), basic: /\bbasic\b/i.test(value), major: /\bmajor\b/i.test(value) },
+  }),
+  VF000013: value => ({ preventativeCoveredAt: percentOf(value) }),
+  VF000012: value => ({ bitewingFrequency: value }),
+  VF000010: value => ({ prophylaxisExamFrequency: value }),
+  VF000028: value => ({ prophylaxisExamFrequency: value }),
+  VF000029: value => ({ lastFMS: value }),
+  VF000040: value => ({ eligibleForFMSNow: /^\s*(?:y|yes|true)\b/i.test(value) }),
+  VF000041: value => ({ eligibleForFMSEvery: value.match(/\d+/)?.[0] || '' }),
+  VF000042: value => ({ fluorideVarnishFrequency: value }),
+  VF000023: value => ({ basicCoveredAt: percentOf(value) }),
+  VF000043: value => ({ basicWaitingPeriod: /[1-9]/.test(value) }),
+  VF000035: value => ({ majorCoveredAt: percentOf(value) }),
+  VF000045: value => ({ majorWaitingPeriod: /[1-9]/.test(value) }),
+  VF000046: value => ({ majorEffectiveDate: value }),
+  VF000022: value => ({ srpCovered: !NOT_COVERED.test(value) }),
+  VF000034: value => NOT_COVERED.test(value)
+    ? { endostealImplantsCovered: false }
+    : { endostealImplantsCovered: true, endostealImplantsCoveredAt: percentOf(value) },
+  VF000061: value => NOT_COVERED.test(value)
+    ? { orthodonticsLifetimeMaxExists: false }
+    : { orthodonticsLifetimeMaxExists: !!amountOf(value), orthodonticsLifetimeMax: amountOf(value) },
+};
+
+function valuesFromBenefitRows(rows: { saiCode?: string; aiCallValue?: string; missing?: string }[]): Partial<VerificationFormData> {
+  const values: Partial<VerificationFormData> = {};
+  for (const [saiCode, toValues] of Object.entries(BENEFIT_ROW_FIELDS)) {
+    const row = rows.find(r => r.saiCode === saiCode && r.missing !== 'Y' && r.aiCallValue?.trim());
+    if (row) Object.assign(values, toValues(row.aiCallValue!.trim()));
+  }
+  return values;
+}
+
+// Template fields mapped to a benefit row, by its SAI code or else its payer reference code
+function customValuesFromBenefitRows(
+  rows: { saiCode?: string; refInsCode?: string; aiCallValue?: string; missing?: string }[],
+  fields: TemplateField[]
+): Record<string, TemplateFieldValue> {
+  const values: Record<string, TemplateFieldValue> = {};
+  for (const field of fields) {
+    if (!field.saiCode && !field.refInsCode) continue;
+    const row = rows.find(r => r.missing !== 'Y' && r.aiCallValue?.trim()
+      && ((field.saiCode && r.saiCode === field.saiCode) || (field.refInsCode && r.refInsCode === field.refInsCode)));
+    const value = row?.aiCallValue!.trim();
+    if (!value) continue;
+
+    if (field.type === 'percent') values[field.key] = percentOf(value);
+    else if (field.type === 'amount') values[field.key] = amountOf(value);
+    else if (field.type === 'yes-no') values[field.key] = !NOT_COVERED.test(value) && !/^\s*(?:n|no|false)\b/i.test(value);
+    else if (field.type === 'select') {
+      const option = field.options?.find(o => o.toLowerCase() === value.toLowerCase());
+      if (option) values[field.key] = option;
+    } else values[field.key] = value;
+  }
+  return values;
+}
+
+function valuesFromRecords(patient: Patient, insurance: Insurance, payerPhone: string | null | undefined): Partial<VerificationFormData> {
+  const patientName = `${patient.givenName} ${patient.familyName}`.trim();
+  const isSelf = !insurance.relationship || insurance.relationship.toLowerCase() === 'self';
+  const birthDate = safeDecrypt(patient.birthDate);
+  const ssn = safeDecrypt(patient.ssn);
+
+  return {
+    patientName,
+    patientDOB: birthDate,
+    patientSSN: ssn,
+    relationshipToSubscriber: insurance.relationship || 'Self',
+    subscriberName: insurance.subscriberName || (isSelf ? patientName : undefined),
+    subscriberDOB: isSelf ? birthDate : undefined,
+    subscriberSSN: isSelf ? ssn : undefined,
+    subscriberID: insurance.subscriberId || undefined,
+    insuranceCompany: insurance.provider,
+    insurerType: { primary: insurance.type === 'Primary', secondary: insurance.type === 'Secondary' },
+    insurancePhone: payerPhone || undefined,
+    groupNumber: safeDecrypt(insurance.groupNumber),
+    effectiveDate: insurance.effectiveDate || undefined,
+    yearlyMax: amountOf(insurance.maxBenefit || undefined),
+    deductiblePerIndividual: amountOf(insurance.deductible || undefined),
+    preventativeCoveredAt: insurance.preventiveCoverage?.replace('%', '') || undefined,
+    basicCoveredAt: insurance.basicCoverage?.replace('%', '') || undefined,
+    majorCoveredAt: insurance.majorCoverage?.replace('%', '') || undefined,
+  };
+}
+
+// Card scans are confirmed onto the primary insurance
+async function valuesFromOcr(patient: Patient, insurance: Insurance): Promise<Partial<VerificationFormData>> {
+  if (insurance.type !== 'Primary') return {};
+  const [latest] = await storage.getPatientOcrExtractions(patient.id, 'confirmed');
+  if (!latest) return {};
+  const values = JSON.parse(decrypt(latest.proposedData));
+  return {
+    insuranceCompany: values.provider,
+    subscriberName: values.subscriberName,
+    subscriberID: values.subscriberId,
+    groupNumber: values.groupNumber,
+  };
+}
+
+function valuesFromPlan(plan: DentalBenefitsPlan): Partial<VerificationFormData> {
+  const summary = summarizePlanBenefits(plan);
+  const familyDeductible = plan.general.benefits.find(b => b.code === 'C' && b.coverageLevel === 'FAM' && b.amount);
+  const planBegin = plan.general.planDates.find(d => d.qualifier === '346') || plan.general.planDates.find(d => d.qualifier === '356');
+  const effectiveDate = planBegin ? x12Date(planBegin.value) : '';
+
+  return {
+    subscriberID: plan.general.subscriber.memberId,
+    groupNumber: plan.general.subscriber.groupNumber,
+    effectiveDate,
+    renewalMonth: effectiveDate ? MONTHS[parseInt(effectiveDate.slice(0, 2), 10) - 1] : undefined,
+    yearlyMax: amountOf(summary.maxBenefit),
+    deductiblePerIndividual: amountOf(summary.deductible),
+    deductiblePerFamily: amountOf(familyDeductible?.amount),
+    preventativeCoveredAt: summary.preventiveCoverage,
+    basicCoveredAt: summary.basicCoverage,
+    majorCoveredAt: summary.majorCoverage,
+  };
+}
+
+// Latest finished transaction of a type for this insurance whose raw response parses
+async function latestResponse<T>(patient: Patient, insurance: Insurance, type: string, isResponse: (value: any) => boolean): Promise<T | undefined> {
+  const { transactions } = await storage.queryTransactions({
+    practiceId: patient.practiceId!,
+    patientId: patient.id,
+    types: [type],
+    statuses: ['SUCCESS', 'PARTIAL'],
+    sort: 'createdAt',
+    order: 'desc',
+    limit: 20,
+  });
+  for (const transaction of transactions) {
+    if (!transaction.rawResponse) continue;
+    if (transaction.insuranceProvider && transaction.insuranceProvider !== insurance.provider) continue;
+    try {
+      const response = JSON.parse(transaction.rawResponse);
+      if (isResponse(response)) return response;
+    } catch {
+      // Not JSON; older transactions stored free text
+    }
+  }
+  return undefined;
+}
+
+async function gatherPrefill(patient: Patient, insurance: Insurance, template?: VerificationFormTemplate): Promise<Omit<VerificationFormPrefill, 'withheld'>> {
+  const fields = customFields(template);
+  const data = normalizeFormData({}, template);
+  const sources: VerificationFormPrefill['sources'] = {};
+  const apply = (source: PrefillSource, values: Partial<VerificationFormData>) => {
+    for (const [field, value] of Object.entries(values) as [VerificationFormField, unknown][]) {
+      if (value === undefined || value === null || value === '') continue;
+      (data as unknown as Record<string, unknown>)[field] = value;
+      sources[field] = source;
+    }
+  };
+  const applyRows = (source: PrefillSource, rows: Parameters<typeof customValuesFromBenefitRows>[0]) => {
+    apply(source, valuesFromBenefitRows(rows));
+    for (const [key, value] of Object.entries(customValuesFromBenefitRows(rows, fields))) {
+      if (value === '') continue;
+      data.custom![key] = value;
+      sources[key] = source;
+    }
+  };
+
+  const payer = await resolvePayer(insurance.provider);
+  apply('pms', valuesFromRecords(patient, insurance, payer?.phoneNumber));
+  apply('ocr', await valuesFromOcr(patient, insurance));
+
+  const analysis = await latestResponse<{ rows: ExtractedBenefitRow[] }>(patient, insurance, 'ANALYSIS', r => Array.isArray(r?.rows));
+  if (analysis) applyRows('document-analysis', analysis.rows);
+
+  const plan = await latestResponse<DentalBenefitsPlan>(patient, insurance, 'API', r => Array.isArray(r?.general?.benefits));
+  if (plan) apply('eligibility', valuesFromPlan(plan));
+
+  if (patient.practiceId) {
+    const rows = (await storage.getCoverageByCodeForPatient(patient.id, patient.practiceId, 'CALL'))
+      .map(row => (row.coverageData ? JSON.parse(row.coverageData) : {}));
+    applyRows('ai-call', rows);
+  }
+  return { data, sources };
+}
+
+/**
+ * Form values gathered from the patient and insurance records, the latest confirmed card scan,
+ * document analysis, eligibility (270/271) response and AI call results. Each source overrides the
+ * ones before it where it has a value. The template's own fields are filled from the document
+ * analysis and AI call rows of their SAI or reference code.
+ */
+export async function prefillVerificationForm(
+  patient: Patient,
+  insurance: Insurance,
+  role: string | undefined,
+  template?: VerificationFormTemplate
+): Promise<VerificationFormPrefill> {
+  const { data, sources } = await gatherPrefill(patient, insurance, template);
+  const withheld = withheldFields(role);
+  for (const field of withheld) delete sources[field];
+  return { data: withhold(data, withheld), sources, withheld };
+}
+
+// --- Saved versions --------------------------------------------------------------------------
+
+async function usernamesOf(userIds: (string | null)[]): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  for (const id of new Set(userIds.filter((id): id is string => !!id))) {
+    const user = await storage.getUser(id);
+    if (user) names.set(id, user.username);
+  }
+  return names;
+}
+
+async function recordOf(form: VerificationForm, version: VerificationFormVersion, role: string | undefined): Promise<VerificationFormRecord> {
+  const names = await usernamesOf([version.savedBy]);
+  const withheld = withheldFields(role);
+  return {
+    id: form.id,
+    patientId: form.patientId,
+    insuranceId: form.insuranceId,
+    templateId: version.templateId,
+    currentVersion: form.currentVersion,
+    version: version.version,
+    data: withhold(readData(version), withheld),
+    withheld,
+    savedBy: version.savedBy,
+    savedByName: version.savedBy ? names.get(version.savedBy) || null : null,
+    savedAt: version.createdAt,
+  };
+}
+
+/**
+ * The insurance a form is for: the one named, else the patient's primary (or only) insurance
+ * @throws VerificationFormError (404) if there is none
+ */
+export async function resolveFormInsurance(patientId: string, insuranceId?: unknown): Promise<Insurance> {
+  const insurances = await storage.getPatientInsurances(patientId);
+  const insurance = typeof insuranceId === 'string' && insuranceId
+    ? insurances.find(i => i.id === insuranceId)
+    : insurances.find(i => i.type === 'Primary') || insurances[0];
+  if (!insurance) {
+    throw new VerificationFormError('Insurance not found', 404);
+  }
+  return insurance;
+}
+
+/**
+ * The saved form for a patient's insurance at its latest version, or an earlier one
+ * @returns null if the form was never saved (or has no such version)
+ */
+export async function getVerificationForm(patient: Patient, insurance: Insurance, role: string | undefined, version?: number): Promise<VerificationFormRecord | null> {
+  const form = await storage.getVerificationForm(patient.id, insurance.id);
+  if (!form || form.currentVersion === 0) return null;
+  const found = await storage.getVerificationFormVersion(form.id, version ?? form.currentVersion);
+  return found ? recordOf(form, found, role) : null;
+}
+
+/**
+ * Every saved version of the form, newest first
+ */
+export async function listVerificationFormVersions(patient: Patient, insurance: Insurance): Promise<VerificationFormVersionSummary[]> {
+  const form = await storage.getVerificationForm(patient.id, insurance.id);
+  if (!form) return [];
+  const versions = await storage.getVerificationFormVersions(form.id);
+  const names = await usernamesOf(versions.map(version => version.savedBy));
+  return versions.map(version => ({
+    version: version.version,
+    savedBy: version.savedBy,
+    savedByName: version.savedBy ? names.get(version.savedBy) || null : null,
+    savedAt: version.createdAt,
+  }));
+}
+
+export interface SaveVerificationForm {
+  patient: Patient;
+  insurance: Insurance;
+  data: unknown;
+  baseVersion: unknown; // Version the edits started from; 0 for a form never saved
+  template: VerificationFormTemplate | undefined; // Undefined for the standard form
+  userId: string;
+  role: string | undefined;
+}
+
+// Standard form fields that hold a benefit row's value, by its SAI code
+const FORM_BENEFIT_ROWS: Partial<Record<VerificationFormField, string>> = {
+  yearlyMax: 'VF000060',
+  deductiblePerIndividual: 'VF000051',
+  deductiblePerFamily: 'VF000053',
+  preventativeCoveredAt: 'VF000013',
+  basicCoveredAt: 'VF000023',
+  majorCoveredAt: 'VF000035',
+  prophylaxisExamFrequency: 'VF000010',
+  bitewingFrequency: 'VF000012',
+  fluorideVarnishFrequency: 'VF000042',
+};
+
+/**
+ * The benefit values staff entered, as coverage by code rows: the standard fields above, then
+ * template fields mapped to a benefit row that none of those covered
+ */
+function coverageRowsOfForm(data: VerificationFormData, template: VerificationFormTemplate | undefined): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  for (const [field, saiCode] of Object.entries(FORM_BENEFIT_ROWS)) {
+    const value = String((data as unknown as Record<string, unknown>)[field] ?? '').trim();
+    const row = value ? benefitFieldRow(saiCode, field.endsWith('CoveredAt') ? `${value}%` : value, 'Verification form') : undefined;
+    if (row) rows.push(row);
+  }
+
+  for (const section of template?.sections ?? []) {
+    for (const field of section.fields) {
+      if (!field.saiCode && !field.refInsCode) continue;
+      if (field.saiCode && rows.some(row => row.saiCode === field.saiCode)) continue;
+      const value = readFieldValue(data, field.key);
+      if (value === undefined || value === '') continue;
+      rows.push({
+        saiCode: field.saiCode ?? null,
+        refInsCode: field.refInsCode ?? null,
+        category: section.title,
+        fieldName: field.label,
+        missing: 'N',
+        aiCallValue: typeof value === 'boolean' ? (value ? 'Yes' : 'No') : field.type === 'percent' ? `${value}%` : value,
+        verified: true,
+        verifiedBy: 'Verification form',
+      });
+    }
+  }
+  return rows;
+}
+
+/**
+ * Saves the form as its next version, on the given template. Its benefit values also become a
+ * MANUAL run of the coverage by code.
+ * @throws VerificationFormError - 400 for invalid data or blank required fields, 409 if someone
+ * saved since baseVersion
+ */
+export async function saveVerificationForm(request: SaveVerificationForm): Promise<VerificationFormRecord> {
+  const { patient, insurance, template, role } = request;
+  const { baseVersion } = request;
+  if (typeof baseVersion !== 'number' || !Number.isInteger(baseVersion) || baseVersion < 0) {
+    throw new VerificationFormError('baseVersion must be the version the edits started from (0 for a new form)');
+  }
+  const data = normalizeFormData(request.data, template);
+  const withheld = withheldFields(role);
+  const missing = template ? missingRequiredFields(data, template, withheld) : [];
+  if (missing.length > 0) {
+    throw new VerificationFormError(`Required fields are blank: ${missing.join(', ')}`);
+  }
+
+  const form = await storage.getVerificationForm(patient.id, insurance.id)
+    || await storage.createVerificationForm({ patientId: patient.id, insuranceId: insurance.id, practiceId: patient.practiceId });
+  if (form.currentVersion !== baseVersion) {
+    throw new VerificationFormError('The form was saved by someone else since you opened it', 409);
+  }
+
+  // Fields this user cannot see were sent blank; keep what they held
+  if (withheld.length > 0) {
+    const latest = form.currentVersion > 0 ? await storage.getVerificationFormVersion(form.id, form.currentVersion) : undefined;
+    const previous = latest ? readData(latest) : (await gatherPrefill(patient, insurance, template)).data;
+    for (const field of withheld) {
+      (data as unknown as Record<string, unknown>)[field] = previous[field];
+    }
+  }
+
+  // What staff entered is the latest word on those codes, kept as a MANUAL run pointing at the
+  // version. Both commit together, so a failed run leaves the form at its base version to save again.
+  const rows = coverageRowsOfForm(data, template);
+  const saved = await db.transaction(async (tx) => {
+    const created = await storage.addVerificationFormVersion({
+      formId: form.id,
+      data: encrypt(JSON.stringify(data)),
+      templateId: template?.id ?? null,
+      savedBy: request.userId,
+    }, baseVersion, tx);
+    if (created && patient.practiceId && rows.length > 0) {
+      await saveCoverageRun(patient, request.userId, 'MANUAL', rows, created.id, tx);
+    }
+    return created;
+  });
+  if (!saved) {
+    throw new VerificationFormError('The form was saved by someone else since you opened it', 409);
+  }
+  return recordOf({ ...form, currentVersion: saved.version }, saved, role);
+}
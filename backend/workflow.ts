@@ -0,0 +1,736 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { eq } from 'drizzle-orm';
+import {
+  transactions,
+  type Insurance,
+  type Patient,
+  type Transaction,
+  type VerificationJob,
+  type VerificationJobStep,
+  type InsertVerificationJobStep,
+} from '@shared/schema';
+import { db } from './db';
+import { storage } from './storage';
+import { inquiryFromInsurance, EligibilityError } from './eligibility';
+import { planDentalBenefits, summarizePlanBenefits, type BenefitSummary, type ProcedureInput } from './eligibility-planner';
+import { resolvePayer, payerSupports } from './payers';
+import { analyzeDocuments, analysisTransaction, saveAnalysisCoverage, DocumentAnalysisError, ANALYZABLE_CATEGORIES } from './document-analysis';
+import { BENEFIT_FIELDS } from './benefit-extraction';
+import { benefitFieldRow, saveCoverageRun } from './coverage-history';
+import { publishJob, publishTransaction, publishVerificationStatus } from './live-events';
+import type { X12Provider } from './x12';
+
+export type WorkflowStep = 'fetchPMS' | 'apiVerification' | 'documentAnalysis' | 'callCenter' | 'saveToPMS';
+
+export const WORKFLOW_STEPS: WorkflowStep[] = ['fetchPMS', 'apiVerification', 'documentAnalysis', 'callCenter', 'saveToPMS'];
+
+export type SkipCondition = 'payerWithoutApi' | 'payerWithoutPhone' | 'apiVerified' | 'noDocuments';
+
+export interface StepRule {
+  enabled: boolean; // false skips the step outright
+  maxAttempts: number;
+  backoffMs: number; // delay before attempt n+1 is backoffMs * 2^(n-1)
+  skipIf: SkipCondition[];
+  continueOnFailure: boolean; // move on to the next step once attempts are exhausted
+}
+
+export type WorkflowRules = Record<WorkflowStep, StepRule>;
+
+export type WorkflowRuleOverrides = Partial<Record<WorkflowStep, Partial<StepRule>>>;
+
+export const DEFAULT_WORKFLOW_RULES: WorkflowRules = {
+  fetchPMS: { enabled: true, maxAttempts: 3, backoffMs: 1000, skipIf: [], continueOnFailure: false },
+  apiVerification: { enabled: true, maxAttempts: 3, backoffMs: 5000, skipIf: ['payerWithoutApi'], continueOnFailure: true },
+  documentAnalysis: { enabled: true, maxAttempts: 2, backoffMs: 5000, skipIf: ['noDocuments'], continueOnFailure: true },
+  callCenter: { enabled: true, maxAttempts: 1, backoffMs: 0, skipIf: ['apiVerified', 'payerWithoutPhone'], continueOnFailure: false },
+  saveToPMS: { enabled: true, maxAttempts: 3, backoffMs: 1000, skipIf: [], continueOnFailure: false },
+};
+
+const SKIP_CONDITIONS: SkipCondition[] = ['payerWithoutApi', 'payerWithoutPhone', 'apiVerified', 'noDocuments'];
+
+const SKIP_REASONS: Record<SkipCondition, string> = {
+  payerWithoutApi: 'Payer has no electronic eligibility (API) route',
+  payerWithoutPhone: 'Payer has no provider services phone number',
+  apiVerified: 'Benefits fully verified by API',
+  noDocuments: 'No documents on file to analyze',
+};
+
+const STEP_TRANSACTIONS: Record<WorkflowStep, { type: string; method: string }> = {
+  fetchPMS: { type: 'FETCH', method: 'GET /pms/patient/data' },
+  apiVerification: { type: 'API', method: 'POST X12 270/271' },
+  documentAnalysis: { type: 'ANALYSIS', method: 'POST /document-analysis' },
+  callCenter: { type: 'CALL', method: 'Insurance Verification Call' },
+  saveToPMS: { type: 'SAVE', method: 'POST /pms/patient/save' },
+};
+
+const RUN_BY = 'Smith AI System';
+const WORKER_POLL_MS = parseInt(process.env.VERIFICATION_WORKER_POLL_MS || '5000', 10);
+const WORKER_CONCURRENCY = parseInt(process.env.VERIFICATION_WORKER_CONCURRENCY || '2', 10);
+
+/**
+ * Raised for workflow requests and step failures; `retryable` false ends the step without further attempts
+ */
+export class WorkflowError extends Error {
+  status: number;
+  retryable: boolean;
+
+  constructor(message: string, status: number = 400, retryable: boolean = false) {
+    super(message);
+    this.name = 'WorkflowError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+type StepResult = 'completed' | 'skipped' | 'failed';
+
+/**
+ * Data carried between steps, persisted as `verification_jobs.context`
+ */
+export interface WorkflowContext {
+  provider?: X12Provider;
+  payer?: {
+    name: string;
+    payerId: string | null;
+    phoneNumber: string | null;
+    supportsApi: boolean;
+    supportsCall: boolean;
+  };
+  documentCount?: number;
+  apiVerified?: boolean;
+  benefits?: BenefitSummary;
+  results: Partial<Record<WorkflowStep, StepResult>>;
+}
+
+interface JobRun {
+  job: VerificationJob;
+  patient: Patient;
+  insurance?: Insurance;
+  context: WorkflowContext;
+}
+
+interface StepOutcome {
+  status: 'completed' | 'waiting';
+  message?: string;
+  transaction?: Partial<typeof transactions.$inferInsert>;
+  saveCoverage?: (transactionId: string) => Promise<unknown>; // Keeps what the step found as a coverage by code run
+}
+
+/**
+ * Merges rule overrides onto the defaults (VERIFICATION_WORKFLOW_RULES env JSON, then per-job overrides)
+ * @throws WorkflowError when an override names an unknown step or skip condition
+ */
+export function resolveWorkflowRules(overrides?: WorkflowRuleOverrides | null): WorkflowRules {
+  const layers: WorkflowRuleOverrides[] = [];
+  if (process.env.VERIFICATION_WORKFLOW_RULES) {
+    layers.push(JSON.parse(process.env.VERIFICATION_WORKFLOW_RULES));
+  }
+  if (overrides) layers.push(overrides);
+
+  const rules = structuredClone(DEFAULT_WORKFLOW_RULES);
+  for (const layer of layers) {
+    for (const [step, rule] of Object.entries(layer)) {
+      if (!WORKFLOW_STEPS.includes(step as WorkflowStep)) {
+        throw new WorkflowError(`Unknown workflow step: ${step}`);
+      }
+      const unknown = (rule?.skipIf || []).filter(c => !SKIP_CONDITIONS.includes(c));
+      if (unknown.length > 0) {
+        throw new WorkflowError(`Unknown skip condition(s) for ${step}: ${unknown.join(', ')}`);
+      }
+      rules[step as WorkflowStep] = { ...rules[step as WorkflowStep], ...rule };
+    }
+  }
+  return rules;
+}
+
+function parseContext(job: VerificationJob): WorkflowContext {
+  return job.context ? JSON.parse(job.context) : { results: {} };
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let dentalProcedures: ProcedureInput[] | undefined;
+
+function loadDentalProcedures(): ProcedureInput[] {
+  if (!dentalProcedures) {
+    const path = join(process.cwd(), 'mockupdata', 'common_dental_cdt_codes.json');
+    dentalProcedures = JSON.parse(readFileSync(path, 'utf-8')).data.procedures;
+  }
+  return dentalProcedures!;
+}
+
+/**
+ * Coverage by code rows for the benefits a 271 answered, next to the values on the insurance
+ */
+function summaryCoverageRows(summary: BenefitSummary, insurance: Insurance): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  for (const spec of BENEFIT_FIELDS) {
+    const value = spec.insuranceField && summary[spec.insuranceField];
+    if (!spec.insuranceField || !value) continue;
+    const row = benefitFieldRow(spec.saiCode, spec.kind === 'percent' ? `${value}%` : `$${value}`, 'API', insurance[spec.insuranceField] || '');
+    if (row) rows.push(row);
+  }
+  return rows;
+}
+
+const STEP_HANDLERS: Record<WorkflowStep, (run: JobRun) => Promise<StepOutcome>> = {
+  async fetchPMS({ patient, insurance, context }) {
+    if (!insurance) {
+      throw new WorkflowError('Patient has no insurance on file');
+    }
+
+    const payer = await resolvePayer(insurance.provider);
+    context.payer = {
+      name: payer?.name || insurance.provider,
+      payerId: payer?.payerId || null,
+      phoneNumber: payer && payerSupports(payer, 'CALL') ? payer.phoneNumber : null,
+      supportsApi: !!payer?.payerId && !!payer && payerSupports(payer, 'API'),
+      supportsCall: !!payer && payerSupports(payer, 'CALL'),
+    };
+    const documents = await storage.getPatientDocuments(patient.id);
+    context.documentCount = documents.filter(document => ANALYZABLE_CATEGORIES.includes(document.category)).length;
+
+    return {
+      status: 'completed',
+      message: `Loaded ${insurance.type} insurance (${insurance.provider})`,
+      transaction: {
+        verificationScore: 100,
+        fetchStatus: 'completed',
+        eligibilityCheck: 'Patient record retrieved from PMS',
+        coverageDetails: `${insurance.type}: ${insurance.provider}${payer ? ` (payer directory: ${payer.name})` : ' (not in payer directory)'}`,
+        transcript: `Fetch PMS data completed for ${patient.givenName} ${patient.familyName}.`,
+      },
+    };
+  },
+
+  async apiVerification({ patient, insurance, context }) {
+    if (!insurance || !context.payer?.payerId) {
+      throw new WorkflowError('No electronic payer ID resolved for this insurance');
+    }
+    if (!context.provider?.npi) {
+      throw new WorkflowError('No provider NPI configured (set the practice NPI or PRACTICE_NPI, or pass provider when queuing the job)');
+    }
+
+    const inquiry = inquiryFromInsurance(patient, insurance, context.provider, {
+      id: context.payer.payerId,
+      name: context.payer.name,
+    });
+
+    let plan;
+    try {
+      plan = await planDentalBenefits(inquiry, loadDentalProcedures());
+    } catch (error) {
+      if (error instanceof EligibilityError) {
+        throw new WorkflowError(error.message, error.status, error.status >= 500);
+      }
+      throw error;
+    }
+
+    const summary = summarizePlanBenefits(plan);
+    const answered = plan.procedures.filter(p => p.source).length;
+    context.benefits = summary;
+    context.apiVerified = summary.active && !!summary.preventiveCoverage && !!summary.basicCoverage && !!summary.majorCoverage;
+
+    return {
+      status: 'completed',
+      message: `${answered}/${plan.procedures.length} procedures answered in ${plan.meta.requests} request(s)`,
+      saveCoverage: async transactionId => {
+        const rows = summaryCoverageRows(summary, insurance);
+        if (patient.practiceId && rows.length > 0) await saveCoverageRun(patient, null, 'API', rows, transactionId);
+      },
+      transaction: {
+        status: context.apiVerified ? 'SUCCESS' : 'PARTIAL',
+        insuranceRep: 'API System',
+        verificationScore: Math.round((answered / Math.max(plan.procedures.length, 1)) * 100),
+        responseCode: '200',
+        eligibilityCheck: summary.active ? 'ACTIVE' : 'INACTIVE',
+        benefitsVerification: `Preventive: ${summary.preventiveCoverage ?? '-'}%, Basic: ${summary.basicCoverage ?? '-'}%, Major: ${summary.majorCoverage ?? '-'}%`,
+        coverageDetails: `Annual Maximum: ${summary.maxBenefit ?? '-'} | Procedures answered: ${answered}/${plan.procedures.length}`,
+        deductibleInfo: `Deductible: ${summary.deductible ?? '-'}`,
+        rawResponse: JSON.stringify(plan),
+      },
+    };
+  },
+
+  async documentAnalysis({ patient, insurance, context }) {
+    const documents = (await storage.getPatientDocuments(patient.id))
+      .filter(document => ANALYZABLE_CATEGORIES.includes(document.category));
+
+    let result;
+    try {
+      result = await analyzeDocuments(documents, insurance);
+    } catch (error) {
+      if (error instanceof DocumentAnalysisError) {
+        throw new WorkflowError(error.message, error.status);
+      }
+      throw error;
+    }
+
+    // Documents fill in what the 271 left out; they do not override it
+    const value = (saiCode: string) => {
+      const row = result.rows.find(r => r.saiCode === saiCode && r.missing === 'N');
+      return row && row.aiCallValue !== 'Not Covered' ? row.aiCallValue.replace(/[$,%]/g, '') : undefined;
+    };
+    const summary = context.benefits || { active: false };
+    context.benefits = {
+      ...summary,
+      deductible: summary.deductible ?? value('VF000051'),
+      maxBenefit: summary.maxBenefit ?? value('VF000060'),
+      preventiveCoverage: summary.preventiveCoverage ?? value('VF000013'),
+      basicCoverage: summary.basicCoverage ?? value('VF000023'),
+      majorCoverage: summary.majorCoverage ?? value('VF000035'),
+    };
+
+    const found = result.rows.filter(row => row.missing === 'N').length;
+    return {
+      status: 'completed',
+      message: `${found}/${result.rows.length} benefit fields found in ${documents.length} document(s)`,
+      transaction: analysisTransaction(result),
+      saveCoverage: transactionId => saveAnalysisCoverage(patient, null, transactionId, result),
+    };
+  },
+
+  async callCenter({ context }) {
+    // The call itself happens out of band; the job waits until its CALL transaction is closed
+    return {
+      status: 'waiting',
+      message: `Waiting for call to ${context.payer?.name}`,
+      transaction: {
+        startTime: '',
+        phoneNumber: context.payer?.phoneNumber || null,
+      },
+    };
+  },
+
+  async saveToPMS({ insurance, context }) {
+    const summary = context.benefits;
+    const updates: Partial<Insurance> = {};
+    if (summary?.deductible) updates.deductible = summary.deductible;
+    if (summary?.maxBenefit) updates.maxBenefit = summary.maxBenefit;
+    if (summary?.preventiveCoverage) updates.preventiveCoverage = summary.preventiveCoverage;
+    if (summary?.basicCoverage) updates.basicCoverage = summary.basicCoverage;
+    if (summary?.majorCoverage) updates.majorCoverage = summary.majorCoverage;
+
+    if (insurance && Object.keys(updates).length > 0) {
+      await storage.updateInsurance(insurance.id, updates);
+    }
+
+    return {
+      status: 'completed',
+      message: `Saved ${Object.keys(updates).length} insurance field(s)`,
+      transaction: {
+        verificationScore: 100,
+        saveStatus: 'completed',
+        eligibilityCheck: 'All verification data saved to PMS',
+        coverageDetails: Object.keys(updates).length > 0 ? `Updated: ${Object.keys(updates).join(', ')}` : 'No benefit changes to save',
+      },
+    };
+  },
+};
+
+// Job and step writes go through these so the practice's open pages hear about them
+
+/**
+ * A job write that applies only while the job is still in one of `from`. A cancel made while a
+ * step runs then wins over whatever the step returns: the job never leaves `cancelled` this way.
+ * @returns undefined if the job moved on
+ */
+async function moveJob(jobId: string, from: string[], updates: Partial<Omit<VerificationJob, 'id'>>): Promise<VerificationJob | undefined> {
+  const job = await storage.updateVerificationJob(jobId, updates, from);
+  if (job) publishJob(job);
+  return job;
+}
+
+async function createStep(job: VerificationJob, values: InsertVerificationJobStep): Promise<VerificationJobStep> {
+  const step = await storage.createVerificationJobStep(values);
+  publishJob(job, step);
+  return step;
+}
+
+async function updateStep(job: VerificationJob, id: string, updates: Partial<Omit<VerificationJobStep, 'id'>>): Promise<void> {
+  const step = await storage.updateVerificationJobStep(id, updates);
+  if (step) publishJob(job, step);
+}
+
+/**
+ * Mirrors step progress into the patient's `verification_statuses` row
+ */
+async function syncVerificationStatus(patientId: string, step: WorkflowStep, value: 'pending' | 'in_progress' | 'completed') {
+  const existing = await storage.getPatientVerificationStatus(patientId);
+  if (existing) {
+    await storage.updateVerificationStatus(existing.id, { [step]: value });
+  } else {
+    await storage.createVerificationStatus({
+      patientId,
+      fetchPMS: 'pending',
+      documentAnalysis: 'pending',
+      apiVerification: 'pending',
+      callCenter: 'pending',
+      saveToPMS: 'pending',
+      [step]: value,
+    });
+  }
+  publishVerificationStatus(patientId);
+}
+
+async function eligibilityApiEnabled(patient: Patient): Promise<boolean> {
+  const practice = patient.practiceId ? await storage.getPracticeById(patient.practiceId) : undefined;
+  return !!practice?.integrations.eligibilityApi;
+}
+
+/**
+ * Saves what a successful step found as a coverage by code run. Best effort: the step already
+ * succeeded, so a failed save is reported instead of re-running the step (and its payer inquiry).
+ * @returns The error message when the save failed
+ */
+async function saveStepCoverage(outcome: StepOutcome, transactionId: string): Promise<string | undefined> {
+  if (!outcome.saveCoverage) return undefined;
+  try {
+    await outcome.saveCoverage(transactionId);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
+
+/**
+ * Runs one step under its rule: skip check, then attempts with exponential backoff.
+ * Writes one transaction per executed step, updated as attempts finish.
+ */
+async function runStep(run: JobRun, step: WorkflowStep, rule: StepRule): Promise<StepResult | 'waiting'> {
+  const { job, patient, context } = run;
+
+  const skipCondition = rule.skipIf.find(condition => {
+    switch (condition) {
+      case 'payerWithoutApi': return !context.payer?.supportsApi;
+      case 'payerWithoutPhone': return !context.payer?.phoneNumber;
+      case 'apiVerified': return context.apiVerified === true;
+      case 'noDocuments': return !context.documentCount;
+    }
+  });
+  // Not up to the job's rules: the setting is read as the step starts, so turning it off holds for queued jobs too
+  const practiceBlocked = step === 'apiVerification' && !await eligibilityApiEnabled(patient);
+  if (!rule.enabled || skipCondition || practiceBlocked) {
+    const now = new Date();
+    await createStep(job, {
+      jobId: job.id,
+      step,
+      attempt: 0,
+      status: 'skipped',
+      message: practiceBlocked
+        ? 'Live eligibility checks are turned off for this practice'
+        : skipCondition ? SKIP_REASONS[skipCondition] : 'Disabled by workflow rules',
+      startedAt: now,
+      finishedAt: now,
+    });
+    return 'skipped';
+  }
+
+  const started = new Date();
+  const timestamp = started.toISOString().replace(/[:.]/g, '-').slice(0, -5);
+  const [transaction] = await db.insert(transactions).values({
+    requestId: `REQ-${timestamp}-${patient.id}-${STEP_TRANSACTIONS[step].type}`,
+    patientId: patient.id,
+    patientName: `${patient.givenName} ${patient.familyName}`,
+    type: STEP_TRANSACTIONS[step].type,
+    method: STEP_TRANSACTIONS[step].method,
+    startTime: formatTimestamp(started),
+    status: 'Waiting',
+    insuranceProvider: run.insurance?.provider || '-',
+    runBy: RUN_BY,
+    fetchStatus: context.results.fetchPMS === 'completed' ? 'completed' : 'pending',
+    saveStatus: 'pending',
+  }).returning();
+  publishTransaction(transaction.id, 'created');
+
+  for (let attempt = 1; ; attempt++) {
+    const stepRow = await createStep(job, {
+      jobId: job.id,
+      step,
+      attempt,
+      status: 'in_progress',
+      transactionId: transaction.id,
+    });
+
+    try {
+      const outcome = await STEP_HANDLERS[step](run);
+      const finished = new Date();
+
+      if (outcome.status === 'waiting') {
+        await db.update(transactions).set(outcome.transaction || {}).where(eq(transactions.id, transaction.id));
+        publishTransaction(transaction.id, 'updated');
+        await updateStep(job, stepRow.id, { status: 'waiting', message: outcome.message });
+        return 'waiting';
+      }
+
+      await db.update(transactions).set({
+        status: 'SUCCESS',
+        ...outcome.transaction,
+        endTime: formatTimestamp(finished),
+        duration: formatDuration(finished.getTime() - started.getTime()),
+      }).where(eq(transactions.id, transaction.id));
+      publishTransaction(transaction.id, 'updated');
+      const coverageError = await saveStepCoverage(outcome, transaction.id);
+      await updateStep(job, stepRow.id, {
+        status: 'completed',
+        message: coverageError
+          ? [outcome.message, `Coverage by code not saved: ${coverageError}`].filter(Boolean).join('. ')
+          : outcome.message,
+        finishedAt: finished,
+      });
+      return 'completed';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const retryable = !(error instanceof WorkflowError) || error.retryable;
+      await updateStep(job, stepRow.id, { status: 'failed', message, finishedAt: new Date() });
+
+      if (!retryable || attempt >= rule.maxAttempts) {
+        const finished = new Date();
+        await db.update(transactions).set({
+          status: 'FAILED',
+          errorMessage: message,
+          endTime: formatTimestamp(finished),
+          duration: formatDuration(finished.getTime() - started.getTime()),
+        }).where(eq(transactions.id, transaction.id));
+        publishTransaction(transaction.id, 'updated');
+        return 'failed';
+      }
+      await sleep(rule.backoffMs * 2 ** (attempt - 1));
+    }
+  }
+}
+
+/**
+ * Runs a queued job from its first unfinished step until it completes, fails or has to wait
+ */
+export async function runVerificationJob(jobId: string): Promise<VerificationJob | undefined> {
+  const queued = await storage.getVerificationJobById(jobId);
+  if (!queued || queued.status !== 'queued') return queued;
+
+  const job = await moveJob(jobId, ['queued'], {
+    status: 'running',
+    startedAt: queued.startedAt || new Date(),
+    errorMessage: null,
+  });
+  if (!job) return storage.getVerificationJobById(jobId);
+
+  // Returns the job as it is now: written if still running, else as the cancel left it
+  const finish = async (updates: Partial<Omit<VerificationJob, 'id'>>) =>
+    (await moveJob(jobId, ['running'], updates)) ?? storage.getVerificationJobById(jobId);
+
+  const patient = await storage.getPatientById(job.patientId);
+  if (!patient) {
+    return finish({ status: 'failed', errorMessage: 'Patient not found', finishedAt: new Date() });
+  }
+  const insurances = await storage.getPatientInsurances(patient.id);
+  const insurance = job.insuranceId
+    ? insurances.find(i => i.id === job.insuranceId)
+    : insurances.find(i => i.type === 'Primary') || insurances[0];
+
+  const context = parseContext(job);
+  const rules = resolveWorkflowRules(job.rules ? JSON.parse(job.rules) : null);
+  const run: JobRun = { job, patient, insurance, context };
+
+  for (const step of WORKFLOW_STEPS) {
+    if (context.results[step]) continue;
+
+    // A cancel request lands between steps; one made while a step runs stops the job after it
+    if (!await moveJob(jobId, ['running'], { currentStep: step, context: JSON.stringify(context) })) {
+      return storage.getVerificationJobById(jobId);
+    }
+    await syncVerificationStatus(patient.id, step, 'in_progress');
+
+    const result = await runStep(run, step, rules[step]);
+
+    if (result === 'waiting') {
+      return finish({ status: 'waiting', context: JSON.stringify(context) });
+    }
+    if (result === 'failed' && !rules[step].continueOnFailure) {
+      await syncVerificationStatus(patient.id, step, 'pending');
+      return finish({
+        status: 'failed',
+        errorMessage: `Step ${step} failed`,
+        context: JSON.stringify(context),
+        finishedAt: new Date(),
+      });
+    }
+
+    context.results[step] = result;
+    await syncVerificationStatus(patient.id, step, result === 'failed' ? 'pending' : 'completed');
+  }
+
+  return finish({
+    status: 'completed',
+    currentStep: null,
+    context: JSON.stringify(context),
+    finishedAt: new Date(),
+  });
+}
+
+export interface EnqueueVerificationJob {
+  patientId: string;
+  userId: string;
+  insuranceId?: string | null;
+  appointmentId?: string | null;
+  scheduledFor?: Date;
+  rules?: WorkflowRuleOverrides | null;
+  provider?: X12Provider;
+}
+
+/**
+ * Queues a verification job; the worker picks it up once `scheduledFor` has passed
+ */
+export async function enqueueVerificationJob(request: EnqueueVerificationJob): Promise<VerificationJob> {
+  // Validate overrides up front so a bad rule fails the request, not the job
+  resolveWorkflowRules(request.rules);
+
+  // Provider on the 270: the request's, else the patient's practice, else the server-wide default
+  const patient = await storage.getPatientById(request.patientId);
+  const practice = patient?.practiceId ? await storage.getPracticeById(patient.practiceId) : undefined;
+  const provider = request.provider?.npi
+    ? request.provider
+    : practice?.npi
+      ? { npi: practice.npi, organizationName: practice.name }
+      : process.env.PRACTICE_NPI
+        ? { npi: process.env.PRACTICE_NPI, organizationName: process.env.PRACTICE_NAME }
+        : undefined;
+  const context: WorkflowContext = { provider, results: {} };
+
+  const job = await storage.createVerificationJob({
+    patientId: request.patientId,
+    userId: request.userId,
+    insuranceId: request.insuranceId || null,
+    appointmentId: request.appointmentId || null,
+    status: 'queued',
+    scheduledFor: request.scheduledFor || new Date(),
+    rules: request.rules ? JSON.stringify(request.rules) : null,
+    context: JSON.stringify(context),
+  });
+  publishJob(job);
+
+  if (job.scheduledFor <= new Date()) {
+    setImmediate(pollVerificationJobs);
+  }
+  return job;
+}
+
+/**
+ * Re-queues a failed job; completed and skipped steps are not run again
+ */
+export async function retryVerificationJob(job: VerificationJob): Promise<VerificationJob | undefined> {
+  if (job.status !== 'failed' && job.status !== 'cancelled') {
+    throw new WorkflowError(`Only failed or cancelled jobs can be retried (job is ${job.status})`, 409);
+  }
+  const updated = await moveJob(job.id, ['failed', 'cancelled'], {
+    status: 'queued',
+    scheduledFor: new Date(),
+    errorMessage: null,
+    finishedAt: null,
+  });
+  setImmediate(pollVerificationJobs);
+  return updated;
+}
+
+/**
+ * Cancels a job that has not finished. A running job stops once its current step returns, and
+ * the step's outcome does not change the status.
+ */
+export async function cancelVerificationJob(job: VerificationJob): Promise<VerificationJob | undefined> {
+  const cancelled = ['completed', 'failed', 'cancelled'].includes(job.status)
+    ? undefined
+    : await moveJob(job.id, ['queued', 'running', 'waiting'], { status: 'cancelled', finishedAt: new Date() });
+  if (!cancelled) {
+    const latest = await storage.getVerificationJobById(job.id);
+    throw new WorkflowError(`Job is already ${latest?.status ?? job.status}`, 409);
+  }
+  return cancelled;
+}
+
+/**
+ * Resumes a job waiting on a CALL transaction once that transaction is closed.
+ * Called after every transaction update; ignores transactions no job is waiting on.
+ */
+export async function resumeFromTransaction(transaction: Transaction): Promise<void> {
+  if (!['SUCCESS', 'PARTIAL', 'FAILED'].includes(transaction.status)) return;
+
+  const stepRow = await storage.getVerificationJobStepByTransactionId(transaction.id);
+  if (!stepRow || stepRow.status !== 'waiting') return;
+
+  const job = await storage.getVerificationJobById(stepRow.jobId);
+  if (!job || job.status !== 'waiting') return;
+
+  const step = stepRow.step as WorkflowStep;
+  const failed = transaction.status === 'FAILED';
+  await updateStep(job, stepRow.id, {
+    status: failed ? 'failed' : 'completed',
+    message: failed ? transaction.errorMessage || 'Call failed' : `Call closed as ${transaction.status}`,
+    finishedAt: new Date(),
+  });
+
+  const context = parseContext(job);
+  const rule = resolveWorkflowRules(job.rules ? JSON.parse(job.rules) : null)[step];
+  if (failed && !rule.continueOnFailure) {
+    await syncVerificationStatus(job.patientId, step, 'pending');
+    await moveJob(job.id, ['waiting'], { status: 'failed', errorMessage: `Step ${step} failed`, finishedAt: new Date() });
+    return;
+  }
+
+  context.results[step] = failed ? 'failed' : 'completed';
+  await syncVerificationStatus(job.patientId, step, failed ? 'pending' : 'completed');
+  // A job cancelled while it waited stays cancelled
+  if (await moveJob(job.id, ['waiting'], { status: 'queued', scheduledFor: new Date(), context: JSON.stringify(context) })) {
+    setImmediate(pollVerificationJobs);
+  }
+}
+
+const runningJobs = new Set<string>();
+let workerTimer: NodeJS.Timeout | undefined;
+
+async function pollVerificationJobs() {
+  const slots = WORKER_CONCURRENCY - runningJobs.size;
+  if (slots <= 0) return;
+
+  try {
+    const due = await storage.getDueVerificationJobs(new Date(), slots);
+    for (const job of due) {
+      if (runningJobs.has(job.id)) continue;
+      runningJobs.add(job.id);
+      runVerificationJob(job.id)
+        .catch(error =>
+          moveJob(job.id, ['queued', 'running'], {
+            status: 'failed',
+            errorMessage: error instanceof Error ? error.message : 'Unknown error',
+            finishedAt: new Date(),
+          }).catch(() => undefined)
+        )
+        .finally(() => runningJobs.delete(job.id));
+    }
+  } catch (error) {
+    // Database unavailable - try again on the next tick
+  }
+}
+
+/**
+ * Starts the in-process job worker. Jobs left `running` by a previous process are re-queued
+ * and resume from their first unfinished step.
+ */
+export async function startVerificationWorker(): Promise<void> {
+  if (workerTimer) return;
+
+  for (const job of await storage.getVerificationJobsByStatus('running')) {
+    await moveJob(job.id, ['running'], { status: 'queued' });
+  }
+
+  workerTimer = setInterval(pollVerificationJobs, WORKER_POLL_MS);
+  pollVerificationJobs();
+}
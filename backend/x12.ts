@@ -0,0 +1,493 @@
+// X12 005010X279A1 eligibility (270 request / 271 response) encoding and parsing
+
+export interface X12Party {
+  name: string;
+  id: string;
+}
+
+export interface X12Person {
+  firstName: string;
+  lastName: string;
+  memberId?: string;
+  dateOfBirth?: string; // YYYY-MM-DD or YYYYMMDD
+  gender?: 'M' | 'F' | 'U';
+}
+
+export interface X12Provider {
+  npi: string;
+  organizationName?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface EligibilityInquiry {
+  payer: X12Party;
+  provider: X12Provider;
+  subscriber: X12Person & { memberId: string; groupNumber?: string };
+  dependent?: X12Person;
+  serviceTypeCodes?: string[];
+  procedureCodes?: string[];
+  dateOfService?: string;
+  traceNumber?: string;
+}
+
+export interface EligibilityDate {
+  qualifier: string;
+  description: string;
+  format: string;
+  value: string;
+}
+
+export interface EligibilityBenefit {
+  code: string;
+  description: string;
+  coverageLevel?: string;
+  serviceTypeCodes: string[];
+  insuranceType?: string;
+  planDescription?: string;
+  timePeriod?: string;
+  amount?: string;
+  percent?: string;
+  quantityQualifier?: string;
+  quantity?: string;
+  authorizationRequired?: string;
+  inNetwork?: string;
+  procedureCode?: string;
+  dates: EligibilityDate[];
+  messages: string[];
+}
+
+export interface EligibilityRejection {
+  loop: 'payer' | 'provider' | 'subscriber' | 'dependent';
+  code: string;
+  description: string;
+  followUpAction?: string;
+}
+
+export interface EligibilityResponse {
+  controlNumber: string;
+  traceNumber?: string;
+  payer: X12Party;
+  subscriber: X12Person & { groupNumber?: string };
+  dependent?: X12Person;
+  planDates: EligibilityDate[];
+  benefits: EligibilityBenefit[];
+  rejections: EligibilityRejection[];
+}
+
+// EB01 - Eligibility or Benefit Information Code
+export const BENEFIT_CODES: Record<string, string> = {
+  '1': 'Active Coverage',
+  '2': 'Active - Full Risk Capitation',
+  '3': 'Active - Services Capitated',
+  '4': 'Active - Services Capitated to Primary Care Physician',
+  '5': 'Active - Pending Investigation',
+  '6': 'Inactive',
+  '7': 'Inactive - Pending Eligibility Update',
+  '8': 'Inactive - Pending Investigation',
+  'A': 'Co-Insurance',
+  'B': 'Co-Payment',
+  'C': 'Deductible',
+  'D': 'Benefit Description',
+  'E': 'Exclusions',
+  'F': 'Limitations',
+  'G': 'Out of Pocket (Stop Loss)',
+  'H': 'Unlimited',
+  'I': 'Non-Covered',
+  'J': 'Cost Containment',
+  'K': 'Reserve',
+  'L': 'Primary Care Provider',
+  'M': 'Pre-existing Condition',
+  'N': 'Services Restricted to Following Provider',
+  'P': 'Benefit Disclaimer',
+  'R': 'Other or Additional Payor',
+  'U': 'Contact Following Entity for Eligibility or Benefit Information',
+  'V': 'Cannot Process',
+  'W': 'Other Source of Data',
+  'X': 'Health Care Facility',
+  'Y': 'Spend Down',
+};
+
+// AAA03 - Reject Reason Code
+export const REJECT_REASON_CODES: Record<string, string> = {
+  '04': 'Authorized Quantity Exceeded',
+  '15': 'Required Application Data Missing',
+  '41': 'Authorization/Access Restrictions',
+  '42': 'Unable to Respond at Current Time',
+  '43': 'Invalid/Missing Provider Identification',
+  '44': 'Invalid/Missing Provider Name',
+  '45': 'Invalid/Missing Provider Specialty',
+  '46': 'Invalid/Missing Provider Phone Number',
+  '47': 'Invalid/Missing Provider State',
+  '48': 'Invalid/Missing Referring Provider Identification Number',
+  '49': 'Provider is Not Primary Care Physician',
+  '50': 'Provider Ineligible for Inquiries',
+  '51': 'Provider Not on File',
+  '52': 'Service Dates Not Within Provider Plan Enrollment',
+  '53': 'Inquired Benefit Inconsistent with Provider Type',
+  '54': 'Inappropriate Product/Service ID Qualifier',
+  '55': 'Inappropriate Product/Service ID',
+  '56': 'Inappropriate Date',
+  '57': 'Invalid/Missing Date(s) of Service',
+  '58': 'Invalid/Missing Date-of-Birth',
+  '60': 'Date of Birth Follows Date(s) of Service',
+  '61': 'Date of Death Precedes Date(s) of Service',
+  '62': 'Date of Service Not Within Allowable Inquiry Period',
+  '63': 'Date of Service in Future',
+  '64': 'Invalid/Missing Patient ID',
+  '65': 'Invalid/Missing Patient Name',
+  '66': 'Invalid/Missing Patient Gender Code',
+  '67': 'Patient Not Found',
+  '68': 'Duplicate Patient ID Number',
+  '69': "Inconsistent with Patient's Age",
+  '70': "Inconsistent with Patient's Gender",
+  '71': 'Patient Birth Date Does Not Match That for the Patient on the Database',
+  '72': 'Invalid/Missing Subscriber/Insured ID',
+  '73': 'Invalid/Missing Subscriber/Insured Name',
+  '74': 'Invalid/Missing Subscriber/Insured Gender Code',
+  '75': 'Subscriber/Insured Not Found',
+  '76': 'Duplicate Subscriber/Insured ID Number',
+  '77': 'Subscriber Found, Patient Not Found',
+  '78': 'Subscriber/Insured Not in Group/Plan Identified',
+  '79': 'Invalid Participant Identification',
+  '80': 'No Response Received - Transaction Terminated',
+  '97': 'Invalid or Missing Provider Address',
+  'T4': 'Payer Name or Identifier Missing',
+};
+
+// AAA04 - Follow-up Action Code
+const FOLLOW_UP_ACTIONS: Record<string, string> = {
+  'C': 'Please Correct and Resubmit',
+  'N': 'Resubmission Not Allowed',
+  'P': 'Please Resubmit Original Transaction',
+  'R': 'Resubmission Allowed',
+  'S': 'Do Not Resubmit; Inquiry Initiated to a Third Party',
+  'W': 'Please Wait 30 Days and Resubmit',
+  'X': 'Please Wait 10 Days and Resubmit',
+  'Y': 'Do Not Resubmit; We Will Hand Deliver',
+};
+
+// DTP01 - Date/Time Qualifier (subset used by dental payers)
+const DATE_QUALIFIERS: Record<string, string> = {
+  '096': 'Discharge',
+  '193': 'Period Start',
+  '194': 'Period End',
+  '198': 'Completion',
+  '290': 'Coordination of Benefits',
+  '291': 'Plan',
+  '292': 'Benefit',
+  '295': 'Primary Care Provider',
+  '304': 'Latest Visit or Consultation',
+  '307': 'Eligibility',
+  '318': 'Added',
+  '340': 'Consolidated Omnibus Budget Reconciliation Act (COBRA) Begin',
+  '341': 'Consolidated Omnibus Budget Reconciliation Act (COBRA) End',
+  '342': 'Premium Paid to Date Begin',
+  '343': 'Premium Paid to Date End',
+  '346': 'Plan Begin',
+  '347': 'Plan End',
+  '356': 'Eligibility Begin',
+  '357': 'Eligibility End',
+  '435': 'Admission',
+  '472': 'Service',
+  '636': 'Date of Last Update',
+};
+
+const ELEMENT_SEPARATOR = '*';
+const REPETITION_SEPARATOR = '^';
+const COMPONENT_SEPARATOR = ':';
+const SEGMENT_TERMINATOR = '~';
+
+const SENDER_ID = process.env.X12_SENDER_ID || 'SMITHAI';
+const RECEIVER_ID = process.env.X12_RECEIVER_ID || 'STEDI';
+
+/**
+ * Strips characters that would collide with X12 delimiters
+ */
+function clean(value: string | undefined): string {
+  return (value || '').replace(/[*~^:]/g, ' ').trim().toUpperCase();
+}
+
+function toX12Date(value: string): string {
+  return value.replace(/-/g, '').slice(0, 8);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().slice(11, 16).replace(':', '');
+}
+
+function controlNumber(): string {
+  return String(Math.floor(Math.random() * 1_000_000_000)).padStart(9, '0');
+}
+
+/**
+ * Builds an X12 270 eligibility inquiry
+ * @param inquiry - Payer, provider, subscriber (and optional dependent) to ask about
+ * @returns The full interchange (ISA..IEA) as a single string
+ */
+export function build270(inquiry: EligibilityInquiry, now: Date = new Date()): string {
+  const icn = controlNumber();
+  const date = formatDate(now);
+  const time = formatTime(now);
+  const trace = inquiry.traceNumber || icn;
+  const serviceTypes = inquiry.serviceTypeCodes?.length ? inquiry.serviceTypeCodes : ['35'];
+
+  const segments: string[][] = [];
+  const push = (...elements: string[]) => segments.push(elements);
+
+  push('ST', '270', '0001', '005010X279A1');
+  push('BHT', '0022', '13', trace, date, time);
+
+  // 2000A / 2100A - Information source (payer)
+  push('HL', '1', '', '20', '1');
+  push('NM1', 'PR', '2', clean(inquiry.payer.name), '', '', '', '', 'PI', clean(inquiry.payer.id));
+
+  // 2000B / 2100B - Information receiver (provider)
+  push('HL', '2', '1', '21', '1');
+  if (inquiry.provider.organizationName || !inquiry.provider.lastName) {
+    push('NM1', '1P', '2', clean(inquiry.provider.organizationName), '', '', '', '', 'XX', clean(inquiry.provider.npi));
+  } else {
+    push('NM1', '1P', '1', clean(inquiry.provider.lastName), clean(inquiry.provider.firstName), '', '', '', 'XX', clean(inquiry.provider.npi));
+  }
+
+  // 2000C / 2100C - Subscriber
+  const { subscriber, dependent } = inquiry;
+  push('HL', '3', '2', '22', dependent ? '1' : '0');
+  push('TRN', '1', trace, `9${SENDER_ID.padEnd(9, '0').slice(0, 9)}`);
+  push('NM1', 'IL', '1', clean(subscriber.lastName), clean(subscriber.firstName), '', '', '', 'MI', clean(subscriber.memberId));
+  if (subscriber.groupNumber) {
+    push('REF', '6P', clean(subscriber.groupNumber));
+  }
+  if (subscriber.dateOfBirth) {
+    push('DMG', 'D8', toX12Date(subscriber.dateOfBirth), ...(subscriber.gender ? [subscriber.gender] : []));
+  }
+
+  const eligibilityLoop = () => {
+    push('DTP', '291', 'D8', inquiry.dateOfService ? toX12Date(inquiry.dateOfService) : date);
+    if (inquiry.procedureCodes?.length) {
+      // 2110 - one EQ per procedure, AD = American Dental Association codes
+      for (const code of inquiry.procedureCodes) {
+        push('EQ', '', `AD${COMPONENT_SEPARATOR}${clean(code)}`);
+      }
+    } else {
+      push('EQ', serviceTypes.join(REPETITION_SEPARATOR));
+    }
+  };
+
+  if (dependent) {
+    // 2000D / 2100D - Dependent
+    push('HL', '4', '3', '23', '0');
+    push('TRN', '1', trace, `9${SENDER_ID.padEnd(9, '0').slice(0, 9)}`);
+    push('NM1', '03', '1', clean(dependent.lastName), clean(dependent.firstName));
+    if (dependent.dateOfBirth) {
+      push('DMG', 'D8', toX12Date(dependent.dateOfBirth), ...(dependent.gender ? [dependent.gender] : []));
+    }
+  }
+  eligibilityLoop();
+
+  push('SE', String(segments.length + 1), '0001');
+
+  const isa = [
+    'ISA', '00', ''.padEnd(10), '00', ''.padEnd(10),
+    'ZZ', SENDER_ID.padEnd(15).slice(0, 15),
+    'ZZ', RECEIVER_ID.padEnd(15).slice(0, 15),
+    date.slice(2), time, REPETITION_SEPARATOR, '00501', icn, '0',
+    process.env.NODE_ENV === 'production' ? 'P' : 'T', COMPONENT_SEPARATOR,
+  ];
+  const gs = ['GS', 'HS', SENDER_ID, RECEIVER_ID, date, time, '1', 'X', '005010X279A1'];
+
+  return [
+    isa,
+    gs,
+    ...segments,
+    ['GE', '1', '1'],
+    ['IEA', '1', icn],
+  ].map(elements => elements.join(ELEMENT_SEPARATOR)).join(SEGMENT_TERMINATOR) + SEGMENT_TERMINATOR;
+}
+
+interface Delimiters {
+  element: string;
+  repetition: string;
+  component: string;
+  segment: string;
+}
+
+/**
+ * Reads the delimiters from the fixed-width ISA header
+ */
+function readDelimiters(raw: string): Delimiters {
+  if (!raw.startsWith('ISA') || raw.length < 106) {
+    throw new Error('Invalid X12 interchange: missing ISA header');
+  }
+  return {
+    element: raw[3],
+    repetition: raw[82],
+    component: raw[104],
+    segment: raw[105],
+  };
+}
+
+function describeDate(qualifier: string, format: string, value: string): EligibilityDate {
+  return {
+    qualifier,
+    description: DATE_QUALIFIERS[qualifier] || qualifier,
+    format,
+    value,
+  };
+}
+
+/**
+ * Parses an X12 271 eligibility response into typed benefit segments
+ * @param raw - The raw interchange returned by the payer / clearinghouse
+ * @returns Payer, subscriber, plan dates, EB benefits (with their DTP and MSG) and AAA rejections
+ */
+export function parse271(raw: string): EligibilityResponse {
+  const text = raw.trim();
+  const delimiters = readDelimiters(text);
+  const segments = text
+    .split(delimiters.segment)
+    .map(segment => segment.replace(/^[\r\n]+/, '').trim())
+    .filter(Boolean)
+    .map(segment => segment.split(delimiters.element));
+
+  const st = segments.find(segment => segment[0] === 'ST');
+  if (!st || st[1] !== '271') {
+    throw new Error(`Expected an X12 271 transaction, received ${st?.[1] || 'none'}`);
+  }
+
+  const result: EligibilityResponse = {
+    controlNumber: st[2],
+    payer: { name: '', id: '' },
+    subscriber: { firstName: '', lastName: '' },
+    planDates: [],
+    benefits: [],
+    rejections: [],
+  };
+
+  let loop: EligibilityRejection['loop'] = 'payer';
+  let currentBenefit: EligibilityBenefit | undefined;
+  let inRelatedEntity = false;
+
+  for (const elements of segments) {
+    const [id] = elements;
+    const at = (index: number) => elements[index] || undefined;
+
+    switch (id) {
+      case 'TRN':
+        result.traceNumber = result.traceNumber || at(2);
+        break;
+
+      case 'LS':
+        inRelatedEntity = true;
+        break;
+
+      case 'LE':
+        inRelatedEntity = false;
+        break;
+
+      case 'HL':
+        currentBenefit = undefined;
+        break;
+
+      case 'NM1': {
+        // NM1 inside an LS/LE pair names a related entity, not a new loop
+        if (inRelatedEntity) break;
+        currentBenefit = undefined;
+        const entity = at(1);
+        if (entity === 'PR') {
+          loop = 'payer';
+          result.payer = { name: at(3) || '', id: at(9) || '' };
+        } else if (entity === '1P' || entity === 'FA') {
+          loop = 'provider';
+        } else if (entity === 'IL') {
+          loop = 'subscriber';
+          result.subscriber = {
+            ...result.subscriber,
+            lastName: at(3) || '',
+            firstName: at(4) || '',
+            memberId: at(9),
+          };
+        } else if (entity === '03') {
+          loop = 'dependent';
+          result.dependent = { lastName: at(3) || '', firstName: at(4) || '' };
+        }
+        break;
+      }
+
+      case 'REF':
+        if (at(1) === '6P' && loop === 'subscriber' && !currentBenefit) {
+          result.subscriber.groupNumber = at(2);
+        }
+        break;
+
+      case 'DMG': {
+        const person = loop === 'dependent' ? result.dependent : result.subscriber;
+        if (person && at(2)) {
+          const dob = at(2)!;
+          person.dateOfBirth = `${dob.slice(0, 4)}-${dob.slice(4, 6)}-${dob.slice(6, 8)}`;
+          person.gender = at(3) as X12Person['gender'];
+        }
+        break;
+      }
+
+      case 'AAA': {
+        const code = at(3) || '';
+        const followUp = at(4);
+        result.rejections.push({
+          loop,
+          code,
+          description: REJECT_REASON_CODES[code] || `Rejection ${code}`,
+          followUpAction: followUp ? FOLLOW_UP_ACTIONS[followUp] || followUp : undefined,
+        });
+        break;
+      }
+
+      case 'EB': {
+        const code = at(1) || '';
+        const procedure = at(13)?.split(delimiters.component);
+        currentBenefit = {
+          code,
+          description: BENEFIT_CODES[code] || code,
+          coverageLevel: at(2),
+          serviceTypeCodes: at(3) ? at(3)!.split(delimiters.repetition) : [],
+          insuranceType: at(4),
+          planDescription: at(5),
+          timePeriod: at(6),
+          amount: at(7),
+          percent: at(8),
+          quantityQualifier: at(9),
+          quantity: at(10),
+          authorizationRequired: at(11),
+          inNetwork: at(12),
+          procedureCode: procedure && procedure.length > 1 ? procedure[1] : procedure?.[0],
+          dates: [],
+          messages: [],
+        };
+        result.benefits.push(currentBenefit);
+        break;
+      }
+
+      case 'DTP': {
+        const date = describeDate(at(1) || '', at(2) || '', at(3) || '');
+        if (currentBenefit) {
+          currentBenefit.dates.push(date);
+        } else if (loop === 'subscriber' || loop === 'dependent') {
+          result.planDates.push(date);
+        }
+        break;
+      }
+
+      case 'MSG':
+        if (currentBenefit && at(1)) {
+          currentBenefit.messages.push(at(1)!);
+        }
+        break;
+    }
+  }
+
+  return result;
+}
@@ -8,12 +8,14 @@ import InsuranceCallDashboard from '@/components/insurance/InsuranceCallDashboar
 import InsuranceCallDetail from '@/components/insurance/InsuranceCallDetail';
 import StediEligibilityChecker from '@/components/insurance/StediEligibilityChecker';
 import UserManagement from '@/components/admin/UserManagement';
-import { StediApiProvider } from '@/context/StediApiContext';
+import AuditLogViewer from '@/components/admin/AuditLogViewer';
+import FormTemplateManagement from '@/components/admin/FormTemplateManagement';
+import SetPasswordPage from '@/components/SetPasswordPage';
 import { Toaster } from '@/components/ui/toaster';
 
 function App() {
   return (
-    <StediApiProvider>
+    <>
       <Router>
       <Switch>
         <Route path="/" component={() => <HomePage />} />
@@ -25,6 +27,10 @@ function App() {
         <Route path="/insurance/call/:id" component={() => <InsuranceCallDetail />} />
         <Route path="/insurance/stedi-eligibility" component={() => <StediEligibilityChecker />} />
         <Route path="/admin/users" component={() => <UserManagement />} />
+        <Route path="/admin/audit-log" component={() => <AuditLogViewer />} />
+        <Route path="/admin/form-templates" component={() => <FormTemplateManagement />} />
+        <Route path="/accept-invite" component={() => <SetPasswordPage purpose="invite" />} />
+        <Route path="/reset-password" component={() => <SetPasswordPage purpose="reset" />} />
         <Route path="/dashboard" component={() => <DailyJobDashboard />} />
         <Route path="/patient-appointments" component={() => <PatientsManagement />} />
         <Route path="/smart-ai-transaction-history" component={() => <SmartAITransactionHistory />} />
@@ -39,7 +45,7 @@ function App() {
       </Switch>
     </Router>
     <Toaster />
-    </StediApiProvider>
+    </>
   );
 }
 
@@ -1,6 +1,7 @@
 import React, { useMemo } from 'react';
 import { useLocation } from 'wouter';
-import { useStediApi } from '@/context/StediApiContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { allowedNavigation } from '@/constants/navigation';
 
 interface HeaderProps {
   onLogoClick?: () => void;
@@ -19,28 +20,19 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ onLogoClick, currentUser, onLogout, onLoginClick, onInsuranceLoginClick, onAdminLoginClick, mode = 'b2b' }) => {
   const [, navigate] = useLocation();
-  const { isApiEnabled, toggleApi } = useStediApi();
+  const { user, permissions } = usePermissions(!!onLogout);
+  const isApiEnabled = !!user?.practice?.integrations.eligibilityApi;
 
   // Computed equivalent using useMemo
   const isRealDataOn = useMemo(() => {
     return !!currentUser?.dataSource
   }, [currentUser?.dataSource]); // Dependencies are explicit
 
-  const HeaderMenuBtn: React.FC<{ buttonType: "patient" | "dashboard" }> = ({ buttonType }) => {
-    const urlPath = buttonType === "patient" ? "/b2b-agent/patient-appointments" : "/b2b-agent/dashboard";
-    const buttonLabel = buttonType === "patient" ? "Patient Appointments" : "Dashboard";
-
-      return (
-          <button
-            onClick={() => navigate(`${urlPath}`)}
-            className="px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-1.5"
-          >
-            <span className="material-symbols-outlined text-sm">dashboard</span>
-            {buttonLabel}
-          </button>
-      );
-    }
-
+  // Links for the current mode that the user's role is allowed to open. The jobs dashboard is
+  // hidden in data mode, where appointments come straight from the PMS.
+  const navigationItems = useMemo(() => {
+    return allowedNavigation(permissions, mode).filter(item => !(isRealDataOn && item.path === '/b2b-agent/dashboard'));
+  }, [permissions, mode, isRealDataOn]);
 
   return (
     <header className="bg-slate-50/80 dark:bg-slate-900/80 backdrop-blur-md border-b border-slate-200/50 dark:border-slate-700/50 px-6 py-3 shrink-0 sticky top-0 z-50">
@@ -80,33 +72,16 @@ const Header: React.FC<HeaderProps> = ({ onLogoClick, currentUser, onLogout, onL
           {/* Navigation Links */}
           {onLogout && (
             <div className="flex items-center gap-2">
-              {mode === 'admin' ? (
-                <>
-                  <button
-                    onClick={() => navigate('/admin/users')}
-                    className="px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-1.5"
-                  >
-                    <span className="material-symbols-outlined text-sm">manage_accounts</span>
-                    User Management
-                  </button>
-                </>
-              ) : mode === 'insurance' ? (
-                <>
-                  <button
-                    onClick={() => navigate('/insurance/dashboard')}
-                    className="px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-1.5"
-                  >
-                    <span className="material-symbols-outlined text-sm">dashboard</span>
-                    Call Dashboard
-                  </button>
-                </>
-              ) : (
-                <>
-        
-                {!isRealDataOn && <HeaderMenuBtn buttonType="dashboard" />}
-                <HeaderMenuBtn buttonType="patient" />
-                </>
-              )}
+              {navigationItems.map(item => (
+                <button
+                  key={item.path}
+                  onClick={() => navigate(item.path)}
+                  className="px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-800 rounded-lg transition-colors flex items-center gap-1.5"
+                >
+                  <span className="material-symbols-outlined text-sm">{item.icon}</span>
+                  {item.label}
+                </button>
+              ))}
             </div>
           )}
         </div>
@@ -150,21 +125,20 @@ const Header: React.FC<HeaderProps> = ({ onLogoClick, currentUser, onLogout, onL
             </div>
 
 
-            {/* API Toggle Button */}
+            {/* Eligibility API status, set per practice by admins */}
             {isRealDataOn && (
-              <button
-                onClick={toggleApi}
-                className={`px-2.5 py-1 rounded-md text-[11px] font-medium transition-colors flex items-center gap-1.5 whitespace-nowrap ${isApiEnabled
-                  ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 hover:bg-blue-200 dark:hover:bg-blue-900/60'
-                  : 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-900/50'
+              <span
+                className={`px-2.5 py-1 rounded-md text-[11px] font-medium flex items-center gap-1.5 whitespace-nowrap ${isApiEnabled
+                  ? 'bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300'
+                  : 'bg-blue-50 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400'
                   }`}
-                title={isApiEnabled ? 'API Enabled - Using Stedi API' : 'API Disabled - Using mock data'}
+                title={isApiEnabled ? 'API Enabled - Using Stedi API' : 'API Disabled - Using mock data. An admin can turn it on in the practice settings.'}
               >
                 <span className="material-symbols-outlined text-xs">
                   {isApiEnabled ? 'cloud_done' : 'cloud_off'}
                 </span>
                 Stedi API {isApiEnabled ? 'On' : 'Off'}
-              </button>
+              </span>
             )}
             
             {/* User Info */}
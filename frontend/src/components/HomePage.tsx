@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
 import Header from '@/components/Header';
 import LoginModal from '@/components/LoginModal';
+import { usePermissions } from '@/hooks/use-permissions';
+import { allowedNavigation } from '@/constants/navigation';
 import mermaid from 'mermaid';
 
 const HomePage: React.FC = () => {
@@ -8,6 +11,11 @@ const HomePage: React.FC = () => {
     const [loginUserType, setLoginUserType] = useState<'b2b' | 'insurance' | 'admin'>('b2b');
     const [showDesktopWarning, setShowDesktopWarning] = useState(false);
     const [showDiagramModal, setShowDiagramModal] = useState(false);
+    const [, navigate] = useLocation();
+    const { user, permissions } = usePermissions();
+
+    // Shortcuts for a user who is still signed in, limited to what their role allows
+    const navigationItems = allowedNavigation(permissions);
 
     useEffect(() => {
         mermaid.initialize({
@@ -99,6 +107,23 @@ const HomePage: React.FC = () => {
                         </h1>
                     </div>
 
+                    {/* Signed-in Shortcuts */}
+                    {user && navigationItems.length > 0 && (
+                        <div className="flex items-center justify-center gap-2 flex-wrap">
+                            <span className="text-xs text-slate-500 dark:text-slate-400">Signed in as {user.username} -</span>
+                            {navigationItems.map(item => (
+                                <button
+                                    key={item.path}
+                                    onClick={() => navigate(item.path)}
+                                    className="px-3 py-1.5 text-xs font-medium text-slate-600 dark:text-slate-300 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors flex items-center gap-1.5"
+                                >
+                                    <span className="material-symbols-outlined text-sm">{item.icon}</span>
+                                    {item.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Bridge Visualization - Smith AI Between Dental Office & Insurance */}
                     <div className="relative py-8 px-8 overflow-hidden">
                         {/* Content */}
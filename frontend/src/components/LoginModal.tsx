@@ -1,6 +1,8 @@
 import { ConsoleLogWriter } from 'drizzle-orm';
 import React, { useEffect, useState } from 'react';
 import { useLocation } from 'wouter';
+import { allowedNavigation } from '@/constants/navigation';
+import { requestPasswordReset } from '@/services/accountService';
 
 interface LoginModalProps {
     isOpen: boolean;
@@ -13,19 +15,102 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, userType = 'b2
     const [isLoading, setIsLoading] = useState(false);
     const [errorMessage, setErrorMessage] = useState('');
     const [hipaaAgreed, setHipaaAgreed] = useState(false);
-    const [email, setEmail] = useState(
-        userType === 'insurance' ? 'insurance@smithai.com' :
-        userType === 'admin' ? 'admin@smithai.com' :
-        'dental@smithai.com'
-    );
+    const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
+    // Steps after the password: 'mfa' asks for a code, 'enroll' sets up an authenticator when the
+    // role requires one, 'recovery' shows the new recovery codes once. 'forgot' requests a reset link.
+    const [step, setStep] = useState<'password' | 'mfa' | 'enroll' | 'recovery' | 'forgot'>('password');
+    const [resetRequested, setResetRequested] = useState(false);
+    const [mfaCode, setMfaCode] = useState('');
+    const [enrollment, setEnrollment] = useState<{ secret: string; qrCode: string } | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [loggedInUser, setLoggedInUser] = useState<any>(null);
 
     useEffect(() => {
         if (isOpen) {
             setErrorMessage("");
+            setStep('password');
+            setMfaCode('');
+            setResetRequested(false);
         }
     }, [isOpen]);
 
+    const handleForgotSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setErrorMessage('');
+        setIsLoading(true);
+
+        try {
+            await requestPasswordReset(email);
+            setResetRequested(true);
+        } catch (error: any) {
+            setErrorMessage(error.message || 'An error occurred. Please try again.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Open the portal's first page the role is allowed to see.
+    // Dental users go directly to patient appointments.
+    const openPortal = (user: any) => {
+        const allowed = allowedNavigation(user.permissions || [], userType);
+        const landing = allowed.find(item => item.path === '/b2b-agent/patient-appointments') || allowed[0];
+        if (!landing) {
+            setErrorMessage('Access denied. Your role cannot use this portal.');
+            setIsLoading(false);
+            return;
+        }
+        navigate(landing.path);
+        onClose();
+    };
+
+    const startEnrollment = async () => {
+        const response = await fetch('/api/auth/mfa/setup', { method: 'POST' });
+        const data = await response.json();
+        if (!response.ok) {
+            throw new Error(data.error || 'Failed to start authenticator setup');
+        }
+        setEnrollment({ secret: data.secret, qrCode: data.qrCode });
+        setStep('enroll');
+    };
+
+    const handleMfaSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setErrorMessage('');
+        setIsLoading(true);
+
+        try {
+            const response = await fetch(step === 'enroll' ? '/api/auth/mfa/enable' : '/api/auth/mfa/verify', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ code: mfaCode }),
+            });
+
+            const data = await response.json();
+
+            if (!response.ok) {
+                setErrorMessage(data.error || 'Verification failed. Please try again.');
+                setMfaCode('');
+                setIsLoading(false);
+                return;
+            }
+
+            if (data.recoveryCodes) {
+                setRecoveryCodes(data.recoveryCodes);
+                setLoggedInUser(data.user);
+                setStep('recovery');
+                setIsLoading(false);
+                return;
+            }
+            openPortal(data.user);
+        } catch (error) {
+            setErrorMessage('An error occurred. Please try again.');
+            setIsLoading(false);
+        }
+    };
+
     const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -58,21 +143,19 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, userType = 'b2
                 return;
             }
 
-            // Successfully logged in
-            if (userType === 'admin' ) {
-                if ( data.user.role !== 'admin'){
-                    setErrorMessage('Access denied. Admins only.');
-                    setIsLoading(false);
-                    return;
+            // Password accepted - the second factor or authenticator setup comes next
+            if (data.mfaRequired) {
+                setMfaCode('');
+                if (data.enrollmentRequired) {
+                    await startEnrollment();
+                } else {
+                    setStep('mfa');
                 }
-                navigate('/admin/users');
-            } else if (userType === 'insurance') {
-                navigate('/insurance/dashboard');
-            } else {
-                // Dental users go directly to patient appointments
-                navigate('/b2b-agent/patient-appointments');
+                setIsLoading(false);
+                return;
             }
-            onClose();
+
+            openPortal(data.user);
         } catch (error) {
             setErrorMessage('An error occurred. Please try again.');
             setIsLoading(false);
@@ -106,6 +189,156 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, userType = 'b2
                     </p>
                 </div>
 
+                {step === 'recovery' ? (
+                    <div className="space-y-6">
+                        <div>
+                            <h3 className="text-sm font-semibold text-slate-900 dark:text-white">Save your recovery codes</h3>
+                            <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
+                                Each code signs you in once if you lose your authenticator. They will not be shown again.
+                            </p>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 p-4 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg font-mono text-sm text-slate-900 dark:text-white">
+                            {recoveryCodes.map(code => (
+                                <span key={code}>{code}</span>
+                            ))}
+                        </div>
+                        <button
+                            type="button"
+                            onClick={() => openPortal(loggedInUser)}
+                            className="w-full py-2.5 px-4 bg-slate-900 hover:bg-slate-800 dark:bg-white dark:hover:bg-slate-100 text-white dark:text-slate-900 font-medium rounded-lg shadow-md transition-colors"
+                        >
+                            I have saved these codes
+                        </button>
+                    </div>
+                ) : step === 'forgot' ? (
+                    <form onSubmit={handleForgotSubmit} className="space-y-6">
+                        {resetRequested ? (
+                            <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+                                <p className="text-sm text-green-700 dark:text-green-400 font-medium">
+                                    If an account exists for {email}, a password reset link is on its way. The link works once and expires in an hour.
+                                </p>
+                            </div>
+                        ) : (
+                            <>
+                                <p className="text-sm text-slate-600 dark:text-slate-300">
+                                    Enter your email address and we will send you a link to choose a new password.
+                                </p>
+                                <div>
+                                    <label htmlFor="forgot-email" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Email Address
+                                    </label>
+                                    <input
+                                        id="forgot-email"
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        required
+                                        disabled={isLoading}
+                                        className="w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                        placeholder="you@example.com"
+                                    />
+                                </div>
+                            </>
+                        )}
+
+                        {errorMessage && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                                <div className="flex items-start gap-2">
+                                    <span className="material-symbols-outlined text-red-600 dark:text-red-400 text-lg">error</span>
+                                    <p className="text-sm text-red-600 dark:text-red-400 font-medium">{errorMessage}</p>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={() => { setStep('password'); setErrorMessage(''); setResetRequested(false); }}
+                                disabled={isLoading}
+                                className="flex-1 py-2.5 px-4 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium rounded-lg hover:bg-slate-50 dark:hover:bg-slate-900/30 transition-colors disabled:opacity-50"
+                            >
+                                Back to Sign In
+                            </button>
+                            {!resetRequested && (
+                                <button
+                                    type="submit"
+                                    disabled={isLoading || !email}
+                                    className="flex-1 py-2.5 px-4 bg-slate-900 hover:bg-slate-800 dark:bg-white dark:hover:bg-slate-100 text-white dark:text-slate-900 font-medium rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                                >
+                                    {isLoading ? (
+                                        <span className="material-symbols-outlined animate-spin text-xl">progress_activity</span>
+                                    ) : 'Send Reset Link'}
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                ) : step !== 'password' ? (
+                    <form onSubmit={handleMfaSubmit} className="space-y-6">
+                        {step === 'enroll' && enrollment ? (
+                            <div className="space-y-3">
+                                <p className="text-sm text-slate-600 dark:text-slate-300">
+                                    Your role requires two-factor authentication. Scan this code with an authenticator app, then enter the 6-digit code it shows.
+                                </p>
+                                <img src={enrollment.qrCode} alt="Authenticator QR code" className="w-44 h-44 mx-auto" />
+                                <p className="text-xs text-center text-slate-500 dark:text-slate-400">
+                                    Or enter this key manually: <span className="font-mono break-all">{enrollment.secret}</span>
+                                </p>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-slate-600 dark:text-slate-300">
+                                Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                            </p>
+                        )}
+
+                        <div>
+                            <label htmlFor="mfa-code" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                Verification Code
+                            </label>
+                            <input
+                                id="mfa-code"
+                                type="text"
+                                inputMode={step === 'enroll' ? 'numeric' : 'text'}
+                                autoComplete="one-time-code"
+                                autoFocus
+                                value={mfaCode}
+                                onChange={(e) => setMfaCode(e.target.value)}
+                                required
+                                disabled={isLoading}
+                                className="w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-900 dark:text-white font-mono tracking-widest focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                placeholder="123456"
+                            />
+                        </div>
+
+                        {errorMessage && (
+                            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                                <div className="flex items-start gap-2">
+                                    <span className="material-symbols-outlined text-red-600 dark:text-red-400 text-lg">error</span>
+                                    <p className="text-sm text-red-600 dark:text-red-400 font-medium">{errorMessage}</p>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="flex gap-3">
+                            <button
+                                type="button"
+                                onClick={() => { setStep('password'); setErrorMessage(''); }}
+                                disabled={isLoading}
+                                className="flex-1 py-2.5 px-4 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 font-medium rounded-lg hover:bg-slate-50 dark:hover:bg-slate-900/30 transition-colors disabled:opacity-50"
+                            >
+                                Back
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isLoading || !mfaCode.trim()}
+                                className="flex-1 py-2.5 px-4 bg-slate-900 hover:bg-slate-800 dark:bg-white dark:hover:bg-slate-100 text-white dark:text-slate-900 font-medium rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                            >
+                                {isLoading ? (
+                                    <span className="material-symbols-outlined animate-spin text-xl">progress_activity</span>
+                                ) : step === 'enroll' ? 'Turn On' : 'Verify'}
+                            </button>
+                        </div>
+                    </form>
+                ) : (
                 <form onSubmit={handleLogin} className="space-y-6">
                     <div>
                         <label htmlFor="email" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
@@ -137,6 +370,15 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, userType = 'b2
                             className="w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                             placeholder="••••••••"
                         />
+                        <div className="flex justify-end mt-1">
+                            <button
+                                type="button"
+                                onClick={() => { setStep('forgot'); setErrorMessage(''); }}
+                                className="text-xs text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200"
+                            >
+                                Forgot password?
+                            </button>
+                        </div>
                     </div>
 
                     {/* Error Message */}
@@ -186,6 +428,7 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, userType = 'b2
                         )}
                     </button>
                 </form>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'wouter';
+import { PASSWORD_POLICY_HINT } from '@shared/password-policy';
+import {
+  fetchLinkInfo,
+  setPasswordFromLink,
+  tokenFromLocation,
+  type AccountLinkInfo,
+  type AccountLinkPurpose
+} from '@/services/accountService';
+
+interface SetPasswordPageProps {
+  purpose: AccountLinkPurpose;
+}
+
+const COPY: Record<AccountLinkPurpose, { title: string; intro: string; submit: string; done: string }> = {
+  invite: {
+    title: 'Accept Invitation',
+    intro: 'Choose a password to activate your account',
+    submit: 'Activate Account',
+    done: 'Your account is ready. Sign in with your new password.'
+  },
+  reset: {
+    title: 'Reset Password',
+    intro: 'Choose a new password for your account',
+    submit: 'Reset Password',
+    done: 'Your password has been reset and your other sessions were signed out. Sign in with your new password.'
+  }
+};
+
+// Landing page for emailed invitation and password reset links
+const SetPasswordPage: React.FC<SetPasswordPageProps> = ({ purpose }) => {
+  const [, navigate] = useLocation();
+  const [token] = useState(tokenFromLocation);
+  const [info, setInfo] = useState<AccountLinkInfo | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [linkError, setLinkError] = useState('');
+  const [errorMessage, setErrorMessage] = useState('');
+  const [done, setDone] = useState(false);
+  const copy = COPY[purpose];
+
+  useEffect(() => {
+    // Keep the token out of the address bar and browser history once it has been read
+    window.history.replaceState(null, '', window.location.pathname);
+
+    if (!token) {
+      setLinkError('This link is invalid or has expired');
+      setIsLoading(false);
+      return;
+    }
+    fetchLinkInfo(token, purpose)
+      .then(setInfo)
+      .catch((err: Error) => setLinkError(err.message))
+      .finally(() => setIsLoading(false));
+  }, [token, purpose]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setErrorMessage('Passwords do not match');
+      return;
+    }
+
+    setErrorMessage('');
+    setIsSaving(true);
+    try {
+      await setPasswordFromLink(token, purpose, password);
+      setDone(true);
+    } catch (err: any) {
+      setErrorMessage(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-2 rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 focus:border-transparent outline-none transition-all disabled:opacity-50 disabled:cursor-not-allowed";
+  const buttonClass = "w-full py-2.5 px-4 bg-slate-900 hover:bg-slate-800 dark:bg-white dark:hover:bg-slate-100 text-white dark:text-slate-900 font-medium rounded-lg shadow-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2";
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900 p-4">
+      <div className="max-w-md w-full bg-white dark:bg-slate-800 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 p-8">
+        <div className="text-center mb-8">
+          <div className="w-12 h-12 bg-orange-100 dark:bg-orange-900/30 rounded-lg flex items-center justify-center mx-auto mb-4">
+            <span className="material-symbols-outlined text-2xl text-orange-600 dark:text-orange-500">
+              {purpose === 'invite' ? 'person_add' : 'lock_reset'}
+            </span>
+          </div>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white">{copy.title}</h2>
+          <p className="text-slate-500 dark:text-slate-400 mt-2">
+            {info ? `${copy.intro} (${info.email})` : copy.intro}
+          </p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <span className="material-symbols-outlined animate-spin text-4xl text-slate-400">progress_activity</span>
+          </div>
+        ) : linkError || done ? (
+          <div className="space-y-6">
+            <div className={`p-3 rounded-lg border ${done
+              ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400'
+              : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-600 dark:text-red-400'}`}
+            >
+              <p className="text-sm font-medium">
+                {done ? copy.done : `${linkError}. Ask your administrator for a new invitation, or request a new reset link from the sign-in screen.`}
+              </p>
+            </div>
+            <button type="button" onClick={() => navigate('/')} className={buttonClass}>
+              Go to Sign In
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label htmlFor="new-password" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                New Password
+              </label>
+              <input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                disabled={isSaving}
+                className={inputClass}
+              />
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{PASSWORD_POLICY_HINT}</p>
+            </div>
+
+            <div>
+              <label htmlFor="confirm-password" className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                Confirm Password
+              </label>
+              <input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isSaving}
+                className={inputClass}
+              />
+            </div>
+
+            {errorMessage && (
+              <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <div className="flex items-start gap-2">
+                  <span className="material-symbols-outlined text-red-600 dark:text-red-400 text-lg">error</span>
+                  <p className="text-sm text-red-600 dark:text-red-400 font-medium">{errorMessage}</p>
+                </div>
+              </div>
+            )}
+
+            <button type="submit" disabled={isSaving} className={buttonClass}>
+              {isSaving ? (
+                <span className="material-symbols-outlined animate-spin text-xl">progress_activity</span>
+              ) : copy.submit}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SetPasswordPage;
@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import Header from '@/components/Header';
+import {
+  fetchAuditLogs,
+  auditLogExportUrl,
+  AUDIT_ACTIONS,
+  type AuditAction,
+  type AuditLogEntry
+} from '@/services/auditService';
+
+interface UserOption {
+  id: string;
+  email: string;
+  username: string;
+}
+
+interface Filters {
+  userId: string;
+  patientId: string;
+  action: AuditAction | '';
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: Filters = { userId: '', patientId: '', action: '', from: '', to: '' };
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  read: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+  decrypt: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+  export: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400',
+  print: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400',
+  ocr: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400'
+};
+
+const AuditLogViewer: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState('');
+
+  const queryFilters = (f: Filters) => ({
+    userId: f.userId || undefined,
+    patientId: f.patientId.trim() || undefined,
+    action: f.action ? [f.action] : undefined,
+    from: f.from || undefined,
+    to: f.to || undefined
+  });
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [applied]);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/users');
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(data.users);
+      }
+    } catch (error) {
+    }
+  };
+
+  const loadEntries = async (cursor?: string) => {
+    try {
+      cursor ? setLoadingMore(true) : setIsLoading(true);
+      const page = await fetchAuditLogs({ ...queryFilters(applied), limit: 50, cursor });
+      setEntries(prev => cursor ? [...prev, ...page.entries] : page.entries);
+      setNextCursor(page.nextCursor);
+      setError('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApplied(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    setApplied(EMPTY_FILTERS);
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      window.location.href = '/';
+    } catch (error) {
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none";
+  const labelClass = "block text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider mb-1";
+  const headerCellClass = "px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider";
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      <Header
+        mode="admin"
+        onLogout={handleLogout}
+        onLogoClick={() => window.location.href = '/'}
+      />
+
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Audit Log</h1>
+            <p className="text-slate-500 dark:text-slate-400 mt-2">Every read, decrypt, export, print and OCR of patient data</p>
+          </div>
+          <a
+            href={auditLogExportUrl(queryFilters(applied))}
+            className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+          >
+            <span className="material-symbols-outlined">download</span>
+            Export CSV
+          </a>
+        </div>
+
+        {/* Filters */}
+        <form onSubmit={handleSearch} className="mb-6 bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 p-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <label className={labelClass}>User</label>
+              <select
+                value={filters.userId}
+                onChange={(e) => setFilters({ ...filters, userId: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">All users</option>
+                {users.map(user => (
+                  <option key={user.id} value={user.id}>{user.email}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Patient ID</label>
+              <input
+                type="text"
+                value={filters.patientId}
+                onChange={(e) => setFilters({ ...filters, patientId: e.target.value })}
+                placeholder="e.g. P000123"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Action</label>
+              <select
+                value={filters.action}
+                onChange={(e) => setFilters({ ...filters, action: e.target.value as AuditAction | '' })}
+                className={inputClass}
+              >
+                <option value="">All actions</option>
+                {AUDIT_ACTIONS.map(action => (
+                  <option key={action} value={action}>{action}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>From</label>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>To</label>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg text-sm font-medium hover:bg-slate-50 dark:hover:bg-slate-900/30 transition-colors"
+            >
+              Reset
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-slate-900 hover:bg-slate-800 dark:bg-white dark:hover:bg-slate-100 text-white dark:text-slate-900 rounded-lg text-sm font-medium transition-colors"
+            >
+              Apply Filters
+            </button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <div className="flex items-center gap-2">
+              <span className="material-symbols-outlined text-red-600 dark:text-red-400">error</span>
+              <p className="text-red-600 dark:text-red-400 font-medium">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <span className="material-symbols-outlined animate-spin text-4xl text-slate-400">progress_activity</span>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+                <tr>
+                  <th className={headerCellClass}>Time</th>
+                  <th className={headerCellClass}>User</th>
+                  <th className={headerCellClass}>Patient</th>
+                  <th className={headerCellClass}>Action</th>
+                  <th className={headerCellClass}>Resource</th>
+                  <th className={headerCellClass}>Field</th>
+                  <th className={headerCellClass}>IP Address</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {entries.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-sm text-slate-500 dark:text-slate-400">
+                      No audit entries match these filters
+                    </td>
+                  </tr>
+                ) : entries.map(entry => (
+                  <tr key={entry.id} className="hover:bg-slate-50 dark:hover:bg-slate-900/30 transition-colors">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900 dark:text-white">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-900 dark:text-white">{entry.userEmail || entry.userId || '-'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">{entry.patientId || '-'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${ACTION_STYLES[entry.action] || ACTION_STYLES.read}`}>
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
+                      {entry.resource}
+                      {entry.resourceId && <span className="ml-1 text-xs text-slate-400">({entry.resourceId.slice(0, 8)})</span>}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">{entry.field || '-'}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400" title={entry.userAgent || undefined}>
+                      {entry.ipAddress || '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {nextCursor && (
+              <div className="flex justify-center p-4 border-t border-slate-200 dark:border-slate-700">
+                <button
+                  onClick={() => loadEntries(nextCursor)}
+                  disabled={loadingMore}
+                  className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogViewer;
@@ -0,0 +1,473 @@
+import React, { useState, useEffect } from 'react';
+import Header from '@/components/Header';
+import {
+  fetchFormTemplates,
+  createFormTemplate,
+  updateFormTemplate,
+  deleteFormTemplate,
+  type FormTemplate,
+  type FormTemplateValues
+} from '@/services/formTemplateService';
+import {
+  TEMPLATE_FIELD_TYPES,
+  type TemplateField,
+  type TemplateSection
+} from '@shared/verification-form-template';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const FIELD_TYPE_LABELS: Record<TemplateField['type'], string> = {
+  'text': 'Text',
+  'textarea': 'Long text',
+  'date': 'Date',
+  'percent': 'Percent',
+  'amount': 'Amount',
+  'yes-no': 'Yes / No',
+  'select': 'Choice',
+};
+
+const EMPTY_FIELD: TemplateField = { key: '', label: '', type: 'text' };
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white text-sm focus:ring-2 focus:ring-orange-500 outline-none";
+const cellInputClass = "w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-900 text-slate-900 dark:text-white text-xs focus:ring-2 focus:ring-orange-500 outline-none";
+const labelClass = "block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1";
+const headerCellClass = "px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider";
+
+function move<T>(items: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+const FormTemplateManagement: React.FC = () => {
+  const [templates, setTemplates] = useState<FormTemplate[]>([]);
+  const [standard, setStandard] = useState<TemplateSection[]>([]);
+  const [practices, setPractices] = useState<Option[]>([]);
+  const [payers, setPayers] = useState<Option[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const [editing, setEditing] = useState<FormTemplate | null>(null);
+  const [draft, setDraft] = useState<FormTemplateValues | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+    fetchOptions();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setIsLoading(true);
+      const data = await fetchFormTemplates();
+      setTemplates(data.templates);
+      setStandard(data.standard);
+      setError('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to load form templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchOptions = async () => {
+    try {
+      const [practiceResponse, payerResponse] = await Promise.all([fetch('/api/practices'), fetch('/api/payers')]);
+      if (practiceResponse.ok) setPractices((await practiceResponse.json()).practices);
+      if (payerResponse.ok) setPayers((await payerResponse.json()).payers);
+    } catch (error) {
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      window.location.href = '/';
+    } catch (error) {
+    }
+  };
+
+  const openEditor = (template: FormTemplate | null) => {
+    setEditing(template);
+    setDraft(template
+      ? { name: template.name, description: template.description, practiceId: template.practiceId, payerId: template.payerId, sections: template.sections, active: template.active }
+      // New templates start from a copy of the standard form
+      : { name: '', description: '', practiceId: null, payerId: null, sections: structuredClone(standard), active: true });
+  };
+
+  const closeEditor = () => {
+    setEditing(null);
+    setDraft(null);
+  };
+
+  const setSections = (update: (sections: TemplateSection[]) => TemplateSection[]) => {
+    setDraft(prev => prev && { ...prev, sections: update(prev.sections) });
+  };
+
+  const setSection = (index: number, section: Partial<TemplateSection>) => {
+    setSections(sections => sections.map((s, i) => (i === index ? { ...s, ...section } : s)));
+  };
+
+  const setField = (sectionIndex: number, fieldIndex: number, field: Partial<TemplateField>) => {
+    setSections(sections => sections.map((s, i) => i !== sectionIndex ? s : {
+      ...s,
+      fields: s.fields.map((f, j) => (j === fieldIndex ? { ...f, ...field } : f)),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const values: FormTemplateValues = {
+      ...draft,
+      sections: draft.sections.map(section => ({
+        ...section,
+        fields: section.fields.map(field => ({
+          ...field,
+          options: field.type === 'select' ? field.options?.map(o => o.trim()).filter(Boolean) : undefined,
+        })),
+      })),
+    };
+    try {
+      setIsSaving(true);
+      if (editing) {
+        await updateFormTemplate(editing.id, values);
+      } else {
+        await createFormTemplate(values);
+      }
+      closeEditor();
+      loadTemplates();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (template: FormTemplate) => {
+    try {
+      await updateFormTemplate(template.id, { active: !template.active });
+      loadTemplates();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = async (template: FormTemplate) => {
+    if (!confirm(`Delete ${template.name}?`)) return;
+    try {
+      await deleteFormTemplate(template.id);
+      loadTemplates();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const nameOf = (options: Option[], id: string | null, all: string) =>
+    id ? options.find(option => option.id === id)?.name || id : all;
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      <Header
+        mode="admin"
+        onLogout={handleLogout}
+        onLogoClick={() => window.location.href = '/'}
+      />
+
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-slate-900 dark:text-white">Form Templates</h1>
+            <p className="text-slate-500 dark:text-slate-400 mt-2">
+              Sections and fields of the verification form, per practice and payer. The most specific active template applies.
+            </p>
+          </div>
+          <button
+            onClick={() => openEditor(null)}
+            disabled={standard.length === 0}
+            className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <span className="material-symbols-outlined">add</span>
+            New Template
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <div className="flex items-center gap-2">
+              <span className="material-symbols-outlined text-red-600 dark:text-red-400">error</span>
+              <p className="text-red-600 dark:text-red-400 font-medium">{error}</p>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <span className="material-symbols-outlined animate-spin text-4xl text-slate-400">progress_activity</span>
+          </div>
+        ) : (
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+                <tr>
+                  <th className={headerCellClass}>Name</th>
+                  <th className={headerCellClass}>Practice</th>
+                  <th className={headerCellClass}>Payer</th>
+                  <th className={headerCellClass}>Fields</th>
+                  <th className={headerCellClass}>Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {templates.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-8 text-center text-sm text-slate-500 dark:text-slate-400">
+                      No templates yet; every practice uses the standard form
+                    </td>
+                  </tr>
+                ) : templates.map(template => (
+                  <tr key={template.id} className="hover:bg-slate-50 dark:hover:bg-slate-900/30 transition-colors">
+                    <td className="px-6 py-4 text-sm text-slate-900 dark:text-white">
+                      {template.name}
+                      {template.description && <div className="text-xs text-slate-500 dark:text-slate-400">{template.description}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">{nameOf(practices, template.practiceId, 'All practices')}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">{nameOf(payers, template.payerId, 'All payers')}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
+                      {template.sections.reduce((count, section) => count + section.fields.length, 0)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                        template.active
+                          ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                          : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'
+                      }`}>
+                        {template.active ? 'active' : 'inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => openEditor(template)}
+                        className="text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-300 mr-4"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(template)}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 mr-4"
+                      >
+                        {template.active ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(template)}
+                        className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Template Modal */}
+      {draft && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-6xl w-full max-h-[90vh] flex flex-col">
+            <form onSubmit={handleSave} className="flex flex-col min-h-0">
+              <div className="p-6 border-b border-slate-200 dark:border-slate-700">
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-4">
+                  {editing ? 'Edit Template' : 'New Template'}
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className={labelClass}>Name</label>
+                    <input
+                      type="text"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      required
+                      className={inputClass}
+                      placeholder="e.g. Pediatric"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Practice</label>
+                    <select
+                      value={draft.practiceId ?? ''}
+                      onChange={(e) => setDraft({ ...draft, practiceId: e.target.value || null })}
+                      className={inputClass}
+                    >
+                      <option value="">All practices</option>
+                      {practices.map(practice => (
+                        <option key={practice.id} value={practice.id}>{practice.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Payer</label>
+                    <select
+                      value={draft.payerId ?? ''}
+                      onChange={(e) => setDraft({ ...draft, payerId: e.target.value || null })}
+                      className={inputClass}
+                    >
+                      <option value="">All payers</option>
+                      {payers.map(payer => (
+                        <option key={payer.id} value={payer.id}>{payer.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex items-end pb-2">
+                    <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                      <input
+                        type="checkbox"
+                        checked={draft.active}
+                        onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+                      />
+                      Active
+                    </label>
+                  </div>
+                  <div className="md:col-span-4">
+                    <label className={labelClass}>Description (optional)</label>
+                    <input
+                      type="text"
+                      value={draft.description ?? ''}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="p-6 overflow-y-auto space-y-6">
+                <p className="text-xs text-slate-500 dark:text-slate-400">
+                  Keys of the standard form (e.g. yearlyMax, insurerType.primary) keep its values; other keys are this template's own.
+                  A field with an SAI or reference code is prefilled from that benefit row of document analysis and AI calls.
+                </p>
+                {draft.sections.map((section, s) => (
+                  <div key={s} className="border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <div className="flex items-center gap-2 px-4 py-3 bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+                      <input
+                        type="text"
+                        value={section.title}
+                        onChange={(e) => setSection(s, { title: e.target.value })}
+                        required
+                        className={`${inputClass} font-semibold`}
+                        placeholder="Section title"
+                      />
+                      <button type="button" title="Move up" onClick={() => setSections(sections => move(sections, s, -1))} className="material-symbols-outlined text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">arrow_upward</button>
+                      <button type="button" title="Move down" onClick={() => setSections(sections => move(sections, s, 1))} className="material-symbols-outlined text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">arrow_downward</button>
+                      <button type="button" title="Remove section" onClick={() => setSections(sections => sections.filter((_, i) => i !== s))} className="material-symbols-outlined text-red-500 hover:text-red-700">delete</button>
+                    </div>
+                    <table className="w-full">
+                      <thead>
+                        <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                          <th className="px-2 py-2 font-medium">Key</th>
+                          <th className="px-2 py-2 font-medium">Label</th>
+                          <th className="px-2 py-2 font-medium">Type</th>
+                          <th className="px-2 py-2 font-medium">Choices</th>
+                          <th className="px-2 py-2 font-medium">SAI code</th>
+                          <th className="px-2 py-2 font-medium">Ref code</th>
+                          <th className="px-2 py-2 font-medium">Required</th>
+                          <th className="px-2 py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {section.fields.map((field, f) => (
+                          <tr key={f}>
+                            <td className="px-2 py-1 w-44">
+                              <input type="text" value={field.key} onChange={(e) => setField(s, f, { key: e.target.value })} required className={cellInputClass} />
+                            </td>
+                            <td className="px-2 py-1">
+                              <input type="text" value={field.label} onChange={(e) => setField(s, f, { label: e.target.value })} required className={cellInputClass} />
+                            </td>
+                            <td className="px-2 py-1 w-28">
+                              <select value={field.type} onChange={(e) => setField(s, f, { type: e.target.value as TemplateField['type'] })} className={cellInputClass}>
+                                {TEMPLATE_FIELD_TYPES.map(type => (
+                                  <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+                                ))}
+                              </select>
+                            </td>
+                            <td className="px-2 py-1 w-40">
+                              {field.type === 'select' && (
+                                <input
+                                  type="text"
+                                  value={(field.options ?? []).join(',')}
+                                  onChange={(e) => setField(s, f, { options: e.target.value.split(',') })}
+                                  required
+                                  className={cellInputClass}
+                                  placeholder="Comma separated"
+                                />
+                              )}
+                            </td>
+                            <td className="px-2 py-1 w-28">
+                              <input type="text" value={field.saiCode ?? ''} onChange={(e) => setField(s, f, { saiCode: e.target.value || undefined })} className={cellInputClass} placeholder="VF000061" />
+                            </td>
+                            <td className="px-2 py-1 w-24">
+                              <input type="text" value={field.refInsCode ?? ''} onChange={(e) => setField(s, f, { refInsCode: e.target.value || undefined })} className={cellInputClass} placeholder="D061" />
+                            </td>
+                            <td className="px-2 py-1 text-center">
+                              <input type="checkbox" checked={!!field.required} onChange={(e) => setField(s, f, { required: e.target.checked || undefined })} />
+                            </td>
+                            <td className="px-2 py-1 whitespace-nowrap text-right">
+                              <button type="button" title="Move up" onClick={() => setSection(s, { fields: move(section.fields, f, -1) })} className="material-symbols-outlined text-base text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">arrow_upward</button>
+                              <button type="button" title="Move down" onClick={() => setSection(s, { fields: move(section.fields, f, 1) })} className="material-symbols-outlined text-base text-slate-500 hover:text-slate-800 dark:hover:text-slate-200">arrow_downward</button>
+                              <button type="button" title="Remove field" onClick={() => setSection(s, { fields: section.fields.filter((_, i) => i !== f) })} className="material-symbols-outlined text-base text-red-500 hover:text-red-700">close</button>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="px-4 py-2">
+                      <button
+                        type="button"
+                        onClick={() => setSection(s, { fields: [...section.fields, { ...EMPTY_FIELD }] })}
+                        className="text-sm text-orange-600 hover:text-orange-700 font-medium"
+                      >
+                        + Add field
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => setSections(sections => [...sections, { title: '', fields: [{ ...EMPTY_FIELD }] }])}
+                  className="text-sm text-orange-600 hover:text-orange-700 font-medium"
+                >
+                  + Add section
+                </button>
+              </div>
+
+              <div className="flex gap-3 p-6 border-t border-slate-200 dark:border-slate-700">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : editing ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={closeEditor}
+                  className="flex-1 px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white rounded-lg font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormTemplateManagement;
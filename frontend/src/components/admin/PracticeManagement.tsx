@@ -0,0 +1,403 @@
+import React, { useState } from 'react';
+import { DEFAULT_PRACTICE_INTEGRATIONS, type PracticeIntegrations } from '@shared/integrations';
+
+export interface Practice {
+  id: string;
+  name: string;
+  npi: string | null;
+  address: string | null;
+  phone: string | null;
+  faxNumber: string | null;
+  integrations: PracticeIntegrations;
+  active: boolean;
+}
+
+interface PracticeMember {
+  id: string;
+  practiceId: string;
+  userId: string;
+  role: string;
+  username: string | null;
+  email: string | null;
+}
+
+interface PracticeManagementProps {
+  practices: Practice[];
+  users: { id: string; username: string; email: string }[];
+  onPracticesChange: () => void;
+  onError: (message: string) => void;
+}
+
+export const PRACTICE_ROLES = ['owner', 'manager', 'staff'];
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 outline-none";
+
+const PracticeManagement: React.FC<PracticeManagementProps> = ({ practices, users, onPracticesChange, onError }) => {
+  const [showPracticeModal, setShowPracticeModal] = useState(false);
+  const [editingPractice, setEditingPractice] = useState<Practice | null>(null);
+  const [practiceForm, setPracticeForm] = useState({ name: '', npi: '', address: '', phone: '', faxNumber: '', integrations: DEFAULT_PRACTICE_INTEGRATIONS });
+
+  const [membersPractice, setMembersPractice] = useState<Practice | null>(null);
+  const [members, setMembers] = useState<PracticeMember[]>([]);
+  const [membersLoading, setMembersLoading] = useState(false);
+  const [memberForm, setMemberForm] = useState({ userId: '', role: 'staff' });
+
+  const request = async (url: string, method: string, body?: any) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const openPracticeModal = (practice: Practice | null) => {
+    setEditingPractice(practice);
+    setPracticeForm({
+      name: practice?.name || '',
+      npi: practice?.npi || '',
+      address: practice?.address || '',
+      phone: practice?.phone || '',
+      faxNumber: practice?.faxNumber || '',
+      integrations: { ...DEFAULT_PRACTICE_INTEGRATIONS, ...practice?.integrations },
+    });
+    setShowPracticeModal(true);
+  };
+
+  const handleSavePractice = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (editingPractice) {
+        await request(`/api/practices/${editingPractice.id}`, 'PUT', practiceForm);
+      } else {
+        await request('/api/practices', 'POST', practiceForm);
+      }
+      setShowPracticeModal(false);
+      onPracticesChange();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const handleToggleActive = async (practice: Practice) => {
+    if (practice.active && !confirm(`Suspend ${practice.name}? Its members will lose access to its patients.`)) return;
+    try {
+      await request(`/api/practices/${practice.id}`, 'PUT', { active: !practice.active });
+      onPracticesChange();
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const fetchMembers = async (practiceId: string) => {
+    try {
+      setMembersLoading(true);
+      const data = await request(`/api/practices/${practiceId}/members`, 'GET');
+      setMembers(data.members);
+    } catch (err: any) {
+      onError(err.message);
+    } finally {
+      setMembersLoading(false);
+    }
+  };
+
+  const openMembersModal = (practice: Practice) => {
+    setMembersPractice(practice);
+    setMembers([]);
+    setMemberForm({ userId: '', role: 'staff' });
+    fetchMembers(practice.id);
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!membersPractice || !memberForm.userId) return;
+    try {
+      await request(`/api/practices/${membersPractice.id}/members`, 'POST', memberForm);
+      setMemberForm({ userId: '', role: 'staff' });
+      fetchMembers(membersPractice.id);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const handleChangeRole = async (member: PracticeMember, role: string) => {
+    try {
+      await request(`/api/practices/${member.practiceId}/members/${member.userId}`, 'PUT', { role });
+      fetchMembers(member.practiceId);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const handleRemoveMember = async (member: PracticeMember) => {
+    if (!confirm(`Remove ${member.username || member.email} from this practice?`)) return;
+    try {
+      await request(`/api/practices/${member.practiceId}/members/${member.userId}`, 'DELETE');
+      fetchMembers(member.practiceId);
+    } catch (err: any) {
+      onError(err.message);
+    }
+  };
+
+  const nonMembers = users.filter(user => !members.some(member => member.userId === user.id));
+
+  return (
+    <div className="mt-12">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Practices</h2>
+          <p className="text-slate-500 dark:text-slate-400 mt-1">Patients and verification data are shared within a practice</p>
+        </div>
+        <button
+          onClick={() => openPracticeModal(null)}
+          className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
+        >
+          <span className="material-symbols-outlined">add_business</span>
+          Create Practice
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-200 dark:border-slate-700 overflow-hidden">
+        <table className="w-full">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 border-b border-slate-200 dark:border-slate-700">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Name</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">NPI</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+            {practices.map((practice) => (
+              <tr key={practice.id} className="hover:bg-slate-50 dark:hover:bg-slate-900/30 transition-colors">
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-900 dark:text-white">{practice.name}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
+                  {practice.npi || <span className="text-slate-400 dark:text-slate-500 italic">not set</span>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                    practice.active
+                      ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400'
+                      : 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300'
+                  }`}>
+                    {practice.active ? 'active' : 'suspended'}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => openMembersModal(practice)}
+                    className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300 mr-4"
+                  >
+                    Members
+                  </button>
+                  <button
+                    onClick={() => openPracticeModal(practice)}
+                    className="text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-300 mr-4"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(practice)}
+                    className={practice.active
+                      ? 'text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300'
+                      : 'text-green-600 hover:text-green-800 dark:text-green-400 dark:hover:text-green-300'}
+                  >
+                    {practice.active ? 'Suspend' : 'Reactivate'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Create / Edit Practice Modal */}
+      {showPracticeModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-md w-full p-6">
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">
+              {editingPractice ? 'Edit Practice' : 'Create Practice'}
+            </h2>
+            <form onSubmit={handleSavePractice} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={practiceForm.name}
+                  onChange={(e) => setPracticeForm({ ...practiceForm, name: e.target.value })}
+                  required
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">NPI (optional)</label>
+                <input
+                  type="text"
+                  value={practiceForm.npi}
+                  onChange={(e) => setPracticeForm({ ...practiceForm, npi: e.target.value })}
+                  pattern="\d{10}"
+                  className={inputClass}
+                  placeholder="10-digit billing provider NPI"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Address (optional)</label>
+                <textarea
+                  value={practiceForm.address}
+                  onChange={(e) => setPracticeForm({ ...practiceForm, address: e.target.value })}
+                  rows={2}
+                  className={inputClass}
+                  placeholder="Printed on verification forms"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Phone (optional)</label>
+                <input
+                  type="tel"
+                  value={practiceForm.phone}
+                  onChange={(e) => setPracticeForm({ ...practiceForm, phone: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Fax number (optional)</label>
+                <input
+                  type="tel"
+                  value={practiceForm.faxNumber}
+                  onChange={(e) => setPracticeForm({ ...practiceForm, faxNumber: e.target.value })}
+                  className={inputClass}
+                  placeholder="Payers reply here; unmatched faxes to it stay with this practice"
+                />
+              </div>
+              <label className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={practiceForm.integrations.eligibilityApi}
+                  onChange={(e) => setPracticeForm({
+                    ...practiceForm,
+                    integrations: { ...practiceForm.integrations, eligibilityApi: e.target.checked }
+                  })}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-slate-700 dark:text-slate-300">Live eligibility checks</span>
+                  <span className="block text-xs text-slate-500 dark:text-slate-400">Send 270 inquiries to the clearinghouse; off shows a sample response</span>
+                </span>
+              </label>
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium transition-colors"
+                >
+                  {editingPractice ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowPracticeModal(false)}
+                  className="flex-1 px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white rounded-lg font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Members Modal */}
+      {membersPractice && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl max-w-2xl w-full p-6">
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-1">Members</h2>
+            <p className="text-slate-600 dark:text-slate-400 mb-6">{membersPractice.name}</p>
+
+            {membersLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <span className="material-symbols-outlined animate-spin text-3xl text-slate-400">progress_activity</span>
+              </div>
+            ) : members.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400 italic py-4">No members yet</p>
+            ) : (
+              <div className="divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg mb-6">
+                {members.map((member) => (
+                  <div key={member.id} className="flex items-center gap-4 px-4 py-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-slate-900 dark:text-white truncate">{member.username}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400 truncate">{member.email}</div>
+                    </div>
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleChangeRole(member, e.target.value)}
+                      className="px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white"
+                    >
+                      {PRACTICE_ROLES.map(role => (
+                        <option key={role} value={role}>{role}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleRemoveMember(member)}
+                      className="text-sm text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleAddMember} className="flex gap-3 items-end">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Add user</label>
+                <select
+                  value={memberForm.userId}
+                  onChange={(e) => setMemberForm({ ...memberForm, userId: e.target.value })}
+                  required
+                  className={inputClass}
+                >
+                  <option value="">Select a user</option>
+                  {nonMembers.map(user => (
+                    <option key={user.id} value={user.id}>{user.username} ({user.email})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Role</label>
+                <select
+                  value={memberForm.role}
+                  onChange={(e) => setMemberForm({ ...memberForm, role: e.target.value })}
+                  className={inputClass}
+                >
+                  {PRACTICE_ROLES.map(role => (
+                    <option key={role} value={role}>{role}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium transition-colors"
+              >
+                Add
+              </button>
+            </form>
+
+            <div className="flex justify-end pt-6">
+              <button
+                type="button"
+                onClick={() => setMembersPractice(null)}
+                className="px-4 py-2 bg-slate-200 hover:bg-slate-300 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-900 dark:text-white rounded-lg font-medium transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeManagement;
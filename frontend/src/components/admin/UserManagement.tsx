@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import Header from '@/components/Header';
+import PracticeManagement, { PRACTICE_ROLES, type Practice } from './PracticeManagement';
+import { PASSWORD_POLICY_HINT } from '@shared/password-policy';
 
 interface User {
   id: string;
@@ -7,6 +9,9 @@ interface User {
   username: string;
   role: string;
   dataSource: string | null;
+  mfaEnabled?: boolean;
+  invitePending?: boolean;
+  lockout?: { failedAttempts: number; lockedUntil: string | null } | null;
 }
 
 const UserManagement: React.FC = () => {
@@ -24,12 +29,18 @@ const UserManagement: React.FC = () => {
     username: '',
     password: '',
     role: 'dental',
-    dataSource: ''
+    dataSource: '',
+    practiceId: '',
+    practiceRole: 'staff'
   });
+  const [practices, setPractices] = useState<Practice[]>([]);
+  // Email the new user an invitation link instead of setting their password
+  const [sendInvite, setSendInvite] = useState(false);
 
   useEffect(() => {
     fetchCurrentUser();
     fetchUsers();
+    fetchPractices();
   }, []);
 
   const fetchCurrentUser = async () => {
@@ -60,6 +71,19 @@ const UserManagement: React.FC = () => {
     }
   };
 
+  const fetchPractices = async () => {
+    try {
+      const response = await fetch('/api/practices');
+      if (!response.ok) {
+        throw new Error('Failed to fetch practices');
+      }
+      const data = await response.json();
+      setPractices(data.practices);
+    } catch (err) {
+      setError('Failed to load practices');
+    }
+  };
+
   const handleCreateUser = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -68,18 +92,27 @@ const UserManagement: React.FC = () => {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...formData,
-          dataSource: formData.dataSource || null
+          password: sendInvite ? undefined : formData.password,
+          invite: sendInvite,
+          dataSource: formData.dataSource || null,
+          practiceId: formData.practiceId || null
         })
       });
 
       if (!response.ok) {
         const data = await response.json();
+        // The user exists even when only the invitation email failed
+        if (response.status === 502) {
+          setShowCreateModal(false);
+          fetchUsers();
+        }
         throw new Error(data.error || 'Failed to create user');
       }
 
       setShowCreateModal(false);
-      setFormData({ email: '', username: '', password: '', role: 'dental', dataSource: '' });
+      setFormData({ email: '', username: '', password: '', role: 'dental', dataSource: '', practiceId: '', practiceRole: 'staff' });
       fetchUsers();
+      fetchPractices();
     } catch (err: any) {
       setError(err.message);
     }
@@ -108,7 +141,7 @@ const UserManagement: React.FC = () => {
 
       setShowEditModal(false);
       setSelectedUser(null);
-      setFormData({ email: '', username: '', password: '', role: 'dental', dataSource: '' });
+      setFormData({ email: '', username: '', password: '', role: 'dental', dataSource: '', practiceId: '', practiceRole: 'staff' });
       fetchUsers();
     } catch (err: any) {
       setError(err.message);
@@ -152,7 +185,7 @@ const UserManagement: React.FC = () => {
 
       setShowPasswordModal(false);
       setSelectedUser(null);
-      setFormData({ email: '', username: '', password: '', role: 'dental', dataSource: '' });
+      setFormData({ email: '', username: '', password: '', role: 'dental', dataSource: '', practiceId: '', practiceRole: 'staff' });
     } catch (err: any) {
       setError(err.message);
     }
@@ -165,7 +198,9 @@ const UserManagement: React.FC = () => {
       username: user.username,
       password: '',
       role: user.role,
-      dataSource: user.dataSource || ''
+      dataSource: user.dataSource || '',
+      practiceId: '',
+      practiceRole: 'staff'
     });
     setShowEditModal(true);
   };
@@ -176,6 +211,78 @@ const UserManagement: React.FC = () => {
     setShowPasswordModal(true);
   };
 
+  const handleResendInvite = async (user: User) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}/invitation`, {
+        method: 'POST'
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resend invitation');
+      }
+
+      alert(`A new invitation was sent to ${user.email}.`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleUnlock = async (user: User) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}/lockout`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unlock account');
+      }
+
+      fetchUsers();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleResetMfa = async (user: User) => {
+    if (!confirm(`Reset two-factor authentication for ${user.username}? They will set up a new authenticator at their next login.`)) return;
+
+    try {
+      const response = await fetch(`/api/users/${user.id}/mfa`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset MFA');
+      }
+
+      fetchUsers();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleForceLogout = async (user: User) => {
+    if (!confirm(`Sign ${user.username} out of all their sessions?`)) return;
+
+    try {
+      const response = await fetch(`/api/users/${user.id}/sessions`, {
+        method: 'DELETE'
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to force logout');
+      }
+
+      alert(`${user.username} was signed out of ${data.revoked} session${data.revoked === 1 ? '' : 's'}.`);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await fetch('/api/auth/logout', { method: 'POST' });
@@ -201,11 +308,12 @@ const UserManagement: React.FC = () => {
         <div className="flex items-center justify-between mb-8">
           <div>
             <h1 className="text-3xl font-bold text-slate-900 dark:text-white">User Management</h1>
-            <p className="text-slate-500 dark:text-slate-400 mt-2">Manage users and their roles</p>
+            <p className="text-slate-500 dark:text-slate-400 mt-2">Manage users, their roles and practice memberships</p>
           </div>
           <button
             onClick={() => {
-              setFormData({ email: '', username: '', password: '', role: 'dental', dataSource: '' });
+              setFormData({ email: '', username: '', password: '', role: 'dental', dataSource: '', practiceId: '', practiceRole: 'staff' });
+              setSendInvite(false);
               setShowCreateModal(true);
             }}
             className="px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium flex items-center gap-2 transition-colors"
@@ -237,6 +345,7 @@ const UserManagement: React.FC = () => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Username</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Role</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Data Source</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Login</th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Actions</th>
                 </tr>
               </thead>
@@ -257,6 +366,26 @@ const UserManagement: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-slate-500 dark:text-slate-400">
                       {user.dataSource || <span className="text-slate-400 dark:text-slate-500 italic">mockup</span>}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {user.lockout?.lockedUntil ? (
+                        <span
+                          className="px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400"
+                          title={`Locked until ${new Date(user.lockout.lockedUntil).toLocaleString()}`}
+                        >
+                          Locked
+                        </span>
+                      ) : user.invitePending ? (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400">
+                          Invited
+                        </span>
+                      ) : user.lockout?.failedAttempts ? (
+                        <span className="px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400">
+                          {user.lockout.failedAttempts} failed
+                        </span>
+                      ) : (
+                        <span className="text-sm text-slate-500 dark:text-slate-400">OK</span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <button
                         onClick={() => openEditModal(user)}
@@ -270,6 +399,36 @@ const UserManagement: React.FC = () => {
                       >
                         Change Password
                       </button>
+                      {user.invitePending && (
+                        <button
+                          onClick={() => handleResendInvite(user)}
+                          className="text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-300 mr-4"
+                        >
+                          Resend Invite
+                        </button>
+                      )}
+                      {user.lockout && (
+                        <button
+                          onClick={() => handleUnlock(user)}
+                          className="text-orange-600 hover:text-orange-800 dark:text-orange-400 dark:hover:text-orange-300 mr-4"
+                        >
+                          Unlock
+                        </button>
+                      )}
+                      {user.mfaEnabled && (
+                        <button
+                          onClick={() => handleResetMfa(user)}
+                          className="text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-300 mr-4"
+                        >
+                          Reset MFA
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleForceLogout(user)}
+                        className="text-slate-600 hover:text-slate-800 dark:text-slate-400 dark:hover:text-slate-300 mr-4"
+                      >
+                        Force Logout
+                      </button>
                       <button
                         onClick={() => handleDeleteUser(user.id)}
                         className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
@@ -283,6 +442,13 @@ const UserManagement: React.FC = () => {
             </table>
           </div>
         )}
+
+        <PracticeManagement
+          practices={practices}
+          users={users}
+          onPracticesChange={fetchPractices}
+          onError={setError}
+        />
       </div>
 
       {/* Create User Modal */}
@@ -311,16 +477,28 @@ const UserManagement: React.FC = () => {
                   className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 outline-none"
                 />
               </div>
-              <div>
-                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Password</label>
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
                 <input
-                  type="password"
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  required
-                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 outline-none"
+                  type="checkbox"
+                  checked={sendInvite}
+                  onChange={(e) => setSendInvite(e.target.checked)}
+                  className="w-4 h-4 rounded border-slate-300"
                 />
-              </div>
+                Email an invitation so the user chooses their own password
+              </label>
+              {!sendInvite && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Password</label>
+                  <input
+                    type="password"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 outline-none"
+                  />
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{PASSWORD_POLICY_HINT}</p>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Role</label>
                 <select
@@ -333,6 +511,33 @@ const UserManagement: React.FC = () => {
                   <option value="admin">Admin</option>
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Practice</label>
+                <select
+                  value={formData.practiceId}
+                  onChange={(e) => setFormData({ ...formData, practiceId: e.target.value })}
+                  className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 outline-none"
+                >
+                  <option value="">New practice owned by this user</option>
+                  {practices.filter(p => p.active).map(practice => (
+                    <option key={practice.id} value={practice.id}>{practice.name}</option>
+                  ))}
+                </select>
+              </div>
+              {formData.practiceId && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Practice Role</label>
+                  <select
+                    value={formData.practiceRole}
+                    onChange={(e) => setFormData({ ...formData, practiceRole: e.target.value })}
+                    className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 outline-none"
+                  >
+                    {PRACTICE_ROLES.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">Data Source (optional)</label>
                 <input
@@ -348,7 +553,7 @@ const UserManagement: React.FC = () => {
                   type="submit"
                   className="flex-1 px-4 py-2 bg-orange-600 hover:bg-orange-700 text-white rounded-lg font-medium transition-colors"
                 >
-                  Create
+                  {sendInvite ? 'Create and Invite' : 'Create'}
                 </button>
                 <button
                   type="button"
@@ -449,6 +654,7 @@ const UserManagement: React.FC = () => {
                   required
                   className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-900 dark:text-white focus:ring-2 focus:ring-orange-500 outline-none"
                 />
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{PASSWORD_POLICY_HINT}</p>
               </div>
               <div className="flex gap-3 pt-4">
                 <button
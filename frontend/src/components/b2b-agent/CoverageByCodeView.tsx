@@ -1,6 +1,15 @@
 import React, { useState, useEffect } from "react";
 import dentalCodesData from "@mockupdata/common_dental_cdt_codes.json";
 import { Procedure } from "@/types/patient";
+import {
+  fetchCoverageDiff,
+  fetchCoverageRun,
+  fetchCoverageRuns,
+  type CoverageChange,
+  type CoverageRecord,
+  type CoverageRun,
+  type CoverageRunDiff,
+} from "@/services/coverageService";
 
 export interface VerificationDataRow {
   saiCode: string;
@@ -10,6 +19,7 @@ export interface VerificationDataRow {
   preStepValue: string;
   verifiedBy: string;
   comments: string;
+  source?: string; // Provenance of saved rows: API, CALL, FAX, ANALYSIS or MANUAL
 }
 
 interface CoverageByCodeViewProps {
@@ -51,6 +61,37 @@ const processDatabaseProcedures = (procedures: Procedure[]): VerificationDataRow
   }));
 };
 
+// Transform database records to VerificationDataRow format
+const toVerificationRow = (record: CoverageRecord): VerificationDataRow => ({
+  saiCode: record.saiCode || '',
+  refInsCode: record.refInsCode || '',
+  category: record.category || '',
+  fieldName: record.fieldName || '',
+  preStepValue: record.preStepValue || '',
+  verifiedBy: record.verifiedBy || '',
+  comments: record.comments || '',
+  source: record.source
+});
+
+const CHANGE_LABELS: Record<CoverageChange['field'], string> = {
+  preStepValue: 'Pre Step Value',
+  aiCallValue: 'AI Call Value',
+  verified: 'Verified',
+  verifiedBy: 'Verified By',
+  comments: 'Comments',
+  category: 'Category',
+  fieldName: 'Field Name',
+  source: 'Source',
+};
+
+const DIFF_STATUS_STYLES: Record<string, string> = {
+  added: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  removed: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+  changed: 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400',
+};
+
+const formatRunDate = (value: string) => new Date(value).toLocaleString();
+
 // Default data (will be replaced by fetched data)
 const defaultVerificationData: VerificationDataRow[] = [];
 
@@ -58,6 +99,11 @@ const CoverageByCodeView: React.FC<CoverageByCodeViewProps> = ({ procedures, pat
   const [categoryFilter, setCategoryFilter] = useState<string>("All");
   const [verificationData, setVerificationData] = useState<VerificationDataRow[]>(defaultVerificationData);
   const [loading, setLoading] = useState(true);
+  const [runs, setRuns] = useState<CoverageRun[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [viewedRun, setViewedRun] = useState<CoverageRun | null>(null); // Null: the latest run
+  const [diff, setDiff] = useState<CoverageRunDiff | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
 
   // Fetch coverage by code data from database
   const fetchCoverageByCodeData = async (patientId: string) => {
@@ -66,17 +112,7 @@ const CoverageByCodeView: React.FC<CoverageByCodeViewProps> = ({ procedures, pat
       if (response.ok) {
         const result = await response.json();
         if (result.success && result.data && result.data.length > 0) {
-          // Transform database records to VerificationDataRow format
-          const transformedData: VerificationDataRow[] = result.data.map((record: any) => ({
-            saiCode: record.saiCode || '',
-            refInsCode: record.refInsCode || '',
-            category: record.category || '',
-            fieldName: record.fieldName || '',
-            preStepValue: record.preStepValue || '',
-            verifiedBy: record.verifiedBy || '',
-            comments: record.comments || ''
-          }));
-          setVerificationData(transformedData);
+          setVerificationData(result.data.map(toVerificationRow));
           return true;
         }
       }
@@ -86,13 +122,50 @@ const CoverageByCodeView: React.FC<CoverageByCodeViewProps> = ({ procedures, pat
     }
   };
 
+  const loadRuns = async (patientId: string) => {
+    try {
+      setRuns(await fetchCoverageRuns(patientId));
+    } catch (error) {
+      setRuns([]);
+    }
+  };
+
+  // Show the rows a past run saved; the latest run is shown by default
+  const handleViewRun = async (run: CoverageRun) => {
+    if (!patientId) return;
+    setHistoryError(null);
+    try {
+      const { data } = await fetchCoverageRun(patientId, run.id);
+      setVerificationData(data.map(toVerificationRow));
+      setViewedRun(run.id === runs[0]?.id ? null : run);
+    } catch (error: any) {
+      setHistoryError(error.message);
+    }
+  };
+
+  // Compare a run with the one saved before it
+  const handleCompare = async (run: CoverageRun) => {
+    if (!patientId) return;
+    setHistoryError(null);
+    try {
+      setDiff(await fetchCoverageDiff(patientId, undefined, run.id));
+    } catch (error: any) {
+      setDiff(null);
+      setHistoryError(error.message);
+    }
+  };
+
   // Load data on component mount or when procedures/patientId change
   useEffect(() => {
     const loadData = async () => {
       setLoading(true);
 
+      setViewedRun(null);
+      setDiff(null);
+
       // First, try to fetch from database if patientId is available
       if (patientId) {
+        loadRuns(patientId);
         const hasData = await fetchCoverageByCodeData(patientId);
         if (hasData) {
           setLoading(false);
@@ -186,6 +259,119 @@ const CoverageByCodeView: React.FC<CoverageByCodeViewProps> = ({ procedures, pat
         </div>
       </div>
 
+      {/* History */}
+      {runs.length > 0 && (
+        <div className="border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="w-full px-6 py-3 flex items-center gap-2 text-left hover:bg-slate-50 dark:hover:bg-slate-800/50"
+          >
+            <span className="material-symbols-outlined text-slate-500 dark:text-slate-400 text-lg">
+              {showHistory ? 'expand_less' : 'expand_more'}
+            </span>
+            <span className="text-sm font-medium text-slate-900 dark:text-white">History</span>
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              {runs.length} verification run{runs.length === 1 ? '' : 's'}
+            </span>
+          </button>
+          {showHistory && (
+            <div className="border-t border-slate-200 dark:border-slate-700">
+              {historyError && (
+                <p className="px-6 py-2 text-sm text-red-600 dark:text-red-400">{historyError}</p>
+              )}
+              <table className="w-full">
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {runs.map((run, index) => {
+                    const isViewed = viewedRun ? viewedRun.id === run.id : index === 0;
+                    return (
+                      <tr key={run.id} className={isViewed ? 'bg-slate-50 dark:bg-slate-800/50' : undefined}>
+                        <td className="px-6 py-2 text-sm text-slate-900 dark:text-white">
+                          {formatRunDate(run.createdAt)}
+                          {index === 0 && <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">(latest)</span>}
+                        </td>
+                        <td className="px-4 py-2 text-sm font-mono text-slate-600 dark:text-slate-400">{run.source}</td>
+                        <td className="px-4 py-2 text-sm text-slate-600 dark:text-slate-400">{run.userName || 'System'}</td>
+                        <td className="px-4 py-2 text-sm text-slate-600 dark:text-slate-400">{run.rowCount} codes</td>
+                        <td className="px-6 py-2 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => handleViewRun(run)}
+                            disabled={isViewed}
+                            className="px-3 py-1 rounded text-xs font-medium bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-50"
+                          >
+                            View
+                          </button>
+                          {index < runs.length - 1 && (
+                            <button
+                              onClick={() => handleCompare(run)}
+                              className="ml-2 px-3 py-1 rounded text-xs font-medium bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
+                            >
+                              Compare with previous
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Changes between two runs */}
+      {diff && (
+        <div className="border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 overflow-hidden">
+          <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 flex items-start justify-between">
+            <div>
+              <h3 className="text-sm font-medium text-slate-900 dark:text-white">
+                Changes from {formatRunDate(diff.from.createdAt)} to {formatRunDate(diff.to.createdAt)}
+              </h3>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                {diff.rows.length} changed, {diff.unchanged} unchanged
+              </p>
+            </div>
+            <button onClick={() => setDiff(null)} className="text-slate-500 hover:text-slate-700 dark:hover:text-slate-300">
+              <span className="material-symbols-outlined text-lg">close</span>
+            </button>
+          </div>
+          {diff.rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-slate-50 dark:bg-slate-800/50">
+                  <tr>
+                    {['SAI Code#', 'REF INS Code#', 'Field Name', 'Change', 'Before', 'After'].map(heading => (
+                      <th key={heading} className="px-4 py-3 text-left text-xs font-medium text-slate-600 dark:text-slate-400 uppercase tracking-wide">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                  {diff.rows.flatMap(row => {
+                    const changes: (CoverageChange | null)[] = row.status === 'changed' ? row.changes : [null];
+                    return changes.map((change, index) => (
+                      <tr key={`${row.key}-${change?.field ?? row.status}`}>
+                        <td className="px-4 py-2 text-sm font-mono text-slate-900 dark:text-white">{index === 0 ? row.saiCode : ''}</td>
+                        <td className="px-4 py-2 text-sm font-mono text-slate-900 dark:text-white">{index === 0 ? row.refInsCode : ''}</td>
+                        <td className="px-4 py-2 text-sm text-slate-700 dark:text-slate-300">{index === 0 ? row.fieldName : ''}</td>
+                        <td className="px-4 py-2 text-sm">
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${DIFF_STATUS_STYLES[row.status]}`}>
+                            {change ? CHANGE_LABELS[change.field] : row.status === 'added' ? 'Added' : 'Removed'}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-slate-600 dark:text-slate-400">{change?.before ?? '-'}</td>
+                        <td className="px-4 py-2 text-sm text-slate-900 dark:text-white">{change?.after ?? '-'}</td>
+                      </tr>
+                    ));
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Data Table */}
       <div className="border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 overflow-hidden">
         <div className="px-6 py-4 border-b border-slate-200 dark:border-slate-700">
@@ -194,6 +380,7 @@ const CoverageByCodeView: React.FC<CoverageByCodeViewProps> = ({ procedures, pat
           </h3>
           <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
             Showing {filteredData.length} of {verificationData.length} records
+            {viewedRun && ` from the run of ${formatRunDate(viewedRun.createdAt)}`}
           </p>
         </div>
         <div className="overflow-x-auto">
@@ -256,6 +443,9 @@ const CoverageByCodeView: React.FC<CoverageByCodeViewProps> = ({ procedures, pat
                     <span className="text-sm font-medium text-blue-600 dark:text-blue-500">
                       {row.verifiedBy}
                     </span>
+                    {row.source && row.source !== row.verifiedBy && (
+                      <span className="block text-xs text-slate-500 dark:text-slate-400">via {row.source}</span>
+                    )}
                   </td>
                   <td className="px-4 py-3 text-sm text-slate-600 dark:text-slate-400">
                     {row.comments}
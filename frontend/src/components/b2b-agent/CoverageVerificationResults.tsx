@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef } from "react";
 import VerificationDataPanel, { VerificationDataRow } from "./VerificationDataPanel";
 import stediService, { Subscriber, Provider } from "@/services/stediService";
+import { queryTransactions } from "@/services/transactionService";
 import { Patient } from "@/types/patient";
-import { useStediApi } from "@/context/StediApiContext";
+import { usePermissions } from "@/hooks/use-permissions";
 
 interface CoverageVerificationResultsProps {
   isOpen: boolean;
@@ -22,8 +23,8 @@ const CoverageVerificationResults: React.FC<CoverageVerificationResultsProps> =
   patient,
   onTransactionCreated
 }) => {
-  const { isApiEnabled } = useStediApi();
-  const [currentUser, setCurrentUser] = useState<any>(null);
+  const { user: sessionUser } = usePermissions();
+  const isApiEnabled = !!sessionUser?.practice?.integrations.eligibilityApi; // Else the results are a sample
   const [currentStep, setCurrentStep] = useState<Step>('idle');
   const [step1Status, setStep1Status] = useState<StepStatus>('pending');
   const [step2Status, setStep2Status] = useState<StepStatus>('pending');
@@ -225,32 +226,14 @@ Plan Renewal:           January 1st`;
     });
   };
 
-  // Fetch current user when component mounts
-  useEffect(() => {
-    const fetchCurrentUser = async () => {
-      try {
-        const response = await fetch('/api/auth/verify');
-        if (response.ok) {
-          const data = await response.json();
-          setCurrentUser(data.user);
-        }
-      } catch (error) {
-      }
-    };
-    fetchCurrentUser();
-  }, []);
-
-  // Function to save transaction history to database
-  const saveTransactionHistory = async (startTime: Date, endTime: Date) => {
+  // Function to save transaction history to database; resolves to the saved transaction's ID
+  const saveTransactionHistory = async (startTime: Date, endTime: Date): Promise<string | undefined> => {
     if (!patient?.id) {
       return;
     }
 
-    const dataMode = !!currentUser?.dataSource;
-    const stediTest = isApiEnabled;
-
-    // Only save if data mode is on and STEDI test is on
-    if (!dataMode || !stediTest) {
+    // Only save if the practice uses the eligibility API
+    if (!isApiEnabled) {
       return;
     }
 
@@ -303,15 +286,11 @@ Plan Renewal:           January 1st`;
 
 
       // First, try to find an existing 'Waiting' API transaction for this patient
-      const transactionsResponse = await fetch('/api/transactions', {
-        credentials: 'include'
-      });
-
       let waitingTransaction = null;
-      if (transactionsResponse.ok) {
-        const data = await transactionsResponse.json();
-        const patientTransactions = data.transactions.filter((t: any) => t.patientId === patient.id);
-        waitingTransaction = patientTransactions.find((t: any) => t.type === 'API' && t.status === 'Waiting');
+      try {
+        const page = await queryTransactions({ patientId: patient.id, type: ['API'], status: ['Waiting'], limit: 1 });
+        waitingTransaction = page.transactions[0] || null;
+      } catch (error) {
       }
 
       let response;
@@ -342,6 +321,8 @@ Plan Renewal:           January 1st`;
         if (onTransactionCreated) {
           onTransactionCreated();
         }
+        const { transaction } = await response.json();
+        return transaction?.id;
       } else {
         const error = await response.json();
       }
@@ -349,17 +330,14 @@ Plan Renewal:           January 1st`;
     }
   };
 
-  // Function to save coverage by code data to database
-  const saveCoverageByCodeData = async () => {
+  // Function to save coverage by code data to database, as a run pointing at the API transaction
+  const saveCoverageByCodeData = async (transactionId?: string) => {
     if (!patient?.id) {
       return;
     }
 
-    const dataMode = !!currentUser?.dataSource;
-    const stediTest = isApiEnabled;
-
-    // Only save if data mode is on and STEDI test is on
-    if (!dataMode || !stediTest) {
+    // Sample results of a practice without the eligibility API are not kept
+    if (!isApiEnabled) {
       return;
     }
 
@@ -371,8 +349,8 @@ Plan Renewal:           January 1st`;
         },
         body: JSON.stringify({
           coverageData: apiVerificationData,
-          dataMode,
-          stediTest
+          source: 'API',
+          sourceRef: transactionId
         })
       });
 
@@ -411,13 +389,12 @@ Plan Renewal:           January 1st`;
       setVerificationEndTime(endTime);
       setShowCompletionToast(true);
 
-      // Save coverage by code data to database
-      saveCoverageByCodeData();
-
-      // Save transaction history to database
-      if (verificationStartTime) {
-        saveTransactionHistory(verificationStartTime, endTime);
-      }
+      // Save transaction history, then the coverage by code data that came with it
+      const saveResults = async () => {
+        const transactionId = verificationStartTime ? await saveTransactionHistory(verificationStartTime, endTime) : undefined;
+        await saveCoverageByCodeData(transactionId);
+      };
+      saveResults();
 
       // Auto-hide toast after 4 seconds
       const timer = setTimeout(() => {
@@ -456,7 +433,11 @@ Plan Renewal:           January 1st`;
             organizationName: "Smith Dental Clinic"
           };
 
-          const result = await stediService.verifyStediAPI(subscriber, provider, isApiEnabled);
+          // The server builds the 270 from the stored insurance and resolves the payer ID from the payer directory
+          const result = await stediService.verifyStediAPI(subscriber, provider, isApiEnabled, {
+            patientId: patient.id,
+            insuranceId: insurance.id
+          });
 
           if (result.success && result.data) {
             apiResponseText = JSON.stringify(result.data, null, 2);
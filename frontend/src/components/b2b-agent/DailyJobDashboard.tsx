@@ -1,163 +1,157 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useLocation } from 'wouter';
-import { Patient } from '@/types/patient';
 import Header from '@/components/Header';
-import patientsData from '@mockupdata/patients.json';
 import { TRANSACTION_TYPE_STYLES } from '@/constants/transactionTypes';
+import { useLiveEvents, useLiveRefresh } from '@/hooks/use-live-events';
+import {
+  fetchJobs,
+  fetchJobTransactions,
+  type JobStepKey,
+  type JobTransaction,
+  type VerificationJobSummary
+} from '@/services/jobService';
 
 interface JobStep {
-  id: 'fetch_pms' | 'analysis' | 'api_call' | 'call_center' | 'save_pms';
+  id: JobStepKey;
   label: string;
   icon: string;
 }
 
+type StepDisplayStatus = 'pending' | 'in_progress' | 'completed' | 'skipped' | 'failed';
+
 interface PatientJob {
-  patient: Patient;
-  steps: Record<JobStep['id'], 'pending' | 'in_progress' | 'completed'>;
-  scheduledTime: string;
+  job: VerificationJobSummary;
+  steps: Record<JobStepKey, StepDisplayStatus>;
   startTime: string;
   endTime: string;
+  durationMin: number | null;
   jobDate: Date;
   appointmentDate: Date | null;
 }
 
 interface DailyJobDashboardProps {
-  patients?: Patient[];
   onDetailClick?: (patientId: string) => void;
 }
 
 type ViewMode = 'day' | 'week' | 'month';
 
-const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patientsPropsOverride, onDetailClick }) => {
+// YYYY-MM-DD in local time
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const toTimeString = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ onDetailClick }) => {
   const [, navigate] = useLocation();
-  const patients = patientsPropsOverride || (patientsData as Patient[]);
 
   const [viewMode, setViewMode] = useState<ViewMode>('day');
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<VerificationJobSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [jobTransactions, setJobTransactions] = useState<Record<string, JobTransaction[]>>({});
 
   const jobSteps: JobStep[] = [
-    { id: 'fetch_pms', label: 'Fetch PMS', icon: 'download' },
-    { id: 'api_call', label: 'API Verification', icon: 'api' },
-    { id: 'analysis', label: 'Document Analysis', icon: 'description' },
-    { id: 'call_center', label: 'Call Center', icon: 'phone' },
-    { id: 'save_pms', label: 'Save To PMS', icon: 'save' }
+    { id: 'fetchPMS', label: 'Fetch PMS', icon: 'download' },
+    { id: 'apiVerification', label: 'API Verification', icon: 'api' },
+    { id: 'documentAnalysis', label: 'Document Analysis', icon: 'description' },
+    { id: 'callCenter', label: 'Call Center', icon: 'phone' },
+    { id: 'saveToPMS', label: 'Save To PMS', icon: 'save' }
   ];
 
-  // Generate jobs for a specific date
-  const generateJobsForDate = (date: Date, patientList: Patient[]): PatientJob[] => {
-    const dateStr = date.toISOString().split('T')[0];
-    // Use date string to seed random number for consistent data per date
-    const seed = dateStr.split('').reduce((a, b) => a + b.charCodeAt(0), 0);
-
-    // Check if date is past, present, or future
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const checkDate = new Date(date);
-    checkDate.setHours(0, 0, 0, 0);
-
-    const isPastDate = checkDate < today;
-    const isFutureDate = checkDate > today;
-
-    return patientList.slice(0, 5 + (seed % 6)).map((patient, idx) => {
-      const rng = (seed + idx * 7) % 100;
-      const startHour = 8 + (rng % 12);
-      const startMin = (rng * 13) % 60;
-      const durationMin = 15 + ((rng * 19) % 61);
-
-      const startDateObj = new Date(date);
-      startDateObj.setHours(startHour, startMin, 0);
-
-      const endDate = new Date(startDateObj.getTime() + durationMin * 60000);
-
-      // For past dates: all steps completed
-      // For future dates: all steps pending
-      // For today: mixed status
-      const getStepStatus = () => {
-        if (isPastDate) {
-          return {
-            fetch_pms: 'completed' as const,
-            analysis: 'completed' as const,
-            api_call: 'completed' as const,
-            call_center: 'completed' as const,
-            save_pms: 'completed' as const
-          };
-        } else if (isFutureDate) {
-          return {
-            fetch_pms: 'pending' as const,
-            analysis: 'pending' as const,
-            api_call: 'pending' as const,
-            call_center: 'pending' as const,
-            save_pms: 'pending' as const
-          };
-        } else {
-          return {
-            fetch_pms: rng > 30 ? 'completed' as const : 'in_progress' as const,
-            analysis: rng > 40 ? 'completed' as const : 'in_progress' as const,
-            api_call: rng > 55 ? 'completed' as const : 'in_progress' as const,
-            call_center: rng > 70 ? 'completed' as const : 'in_progress' as const,
-            save_pms: rng > 80 ? 'completed' as const : 'in_progress' as const
-          };
-        }
-      };
-
-      // Set appointment date to 1 week after job start date
-      const appointmentDate = new Date(startDateObj);
-      appointmentDate.setDate(appointmentDate.getDate() + 7);
-
-      return {
-        patient,
-        steps: getStepStatus(),
-        scheduledTime: `${String(startHour).padStart(2, '0')}:${String(startMin).padStart(2, '0')}`,
-        startTime: `${String(startHour).padStart(2, '0')}:${String(startMin).padStart(2, '0')}`,
-        endTime: `${String(endDate.getHours()).padStart(2, '0')}:${String(endDate.getMinutes()).padStart(2, '0')}`,
-        jobDate: startDateObj,
-        appointmentDate
-      };
-    });
-  };
-
-  // Get filtered jobs based on view mode
-  const filteredJobs: PatientJob[] = useMemo(() => {
-    const jobs: PatientJob[] = [];
-
-    if (viewMode === 'day') {
-      jobs.push(...generateJobsForDate(selectedDate, patients));
-    } else if (viewMode === 'week') {
+  // First and last day of the selected period
+  const dateRange = useMemo(() => {
+    if (viewMode === 'week') {
       const startOfWeek = new Date(selectedDate);
       startOfWeek.setDate(selectedDate.getDate() - selectedDate.getDay());
-
-      for (let i = 0; i < 7; i++) {
-        const date = new Date(startOfWeek);
-        date.setDate(startOfWeek.getDate() + i);
-        jobs.push(...generateJobsForDate(date, patients));
-      }
-    } else if (viewMode === 'month') {
+      const endOfWeek = new Date(startOfWeek);
+      endOfWeek.setDate(startOfWeek.getDate() + 6);
+      return { from: toDateString(startOfWeek), to: toDateString(endOfWeek) };
+    }
+    if (viewMode === 'month') {
       const year = selectedDate.getFullYear();
       const month = selectedDate.getMonth();
-      const daysInMonth = new Date(year, month + 1, 0).getDate();
+      return { from: toDateString(new Date(year, month, 1)), to: toDateString(new Date(year, month + 1, 0)) };
+    }
+    return { from: toDateString(selectedDate), to: toDateString(selectedDate) };
+  }, [selectedDate, viewMode]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setLoadError(null);
+
+    fetchJobs(dateRange.from, dateRange.to)
+      .then(result => {
+        if (!cancelled) setJobs(result);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setJobs([]);
+          setLoadError(error.message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dateRange]);
 
-      for (let day = 1; day <= daysInMonth; day++) {
-        const date = new Date(year, month, day);
-        jobs.push(...generateJobsForDate(date, patients));
-      }
+  // Follow running jobs without the loading state; a reconnect refetches too, as events may be lost
+  useLiveRefresh(
+    event => event.type === 'job.updated',
+    () => {
+      fetchJobs(dateRange.from, dateRange.to).then(setJobs).catch(() => undefined);
     }
+  );
+
+  // Transactions of jobs already opened are refetched as their steps progress
+  useLiveEvents(event => {
+    if (event.type !== 'job.updated' || !event.step || !jobTransactions[event.jobId]) return;
+    fetchJobTransactions(event.jobId)
+      .then(transactions => setJobTransactions(prev => ({ ...prev, [event.jobId]: transactions })))
+      .catch(() => undefined);
+  });
+
+  // Jobs for the selected period, latest first
+  const filteredJobs: PatientJob[] = useMemo(() => {
+    return jobs.map(job => {
+      const scheduled = new Date(job.scheduledFor);
+      const started = job.startedAt ? new Date(job.startedAt) : null;
+      const finished = job.finishedAt ? new Date(job.finishedAt) : null;
+
+      const steps = Object.fromEntries(
+        jobSteps.map(step => {
+          const status = job.steps[step.id];
+          return [step.id, status === 'waiting' ? 'in_progress' : status];
+        })
+      ) as Record<JobStepKey, StepDisplayStatus>;
 
-    // Sort by latest time first
-    return jobs.sort((a, b) => b.jobDate.getTime() - a.jobDate.getTime());
-  }, [selectedDate, viewMode, patients]);
+      return {
+        job,
+        steps,
+        startTime: toTimeString(started || scheduled),
+        endTime: finished ? toTimeString(finished) : '--:--',
+        durationMin: started && finished ? Math.round((finished.getTime() - started.getTime()) / 60000) : null,
+        jobDate: scheduled,
+        appointmentDate: job.appointmentDate ? new Date(`${job.appointmentDate}T00:00:00`) : null
+      };
+    }).sort((a, b) => b.jobDate.getTime() - a.jobDate.getTime());
+  }, [jobs]);
 
   const stats = useMemo(() => {
     let totalJobs = filteredJobs.length;
     let completedJobs = 0;
     let inProgressJobs = 0;
 
-    filteredJobs.forEach(job => {
-      const allCompleted = Object.values(job.steps).every(step => step === 'completed');
-      const anyInProgress = Object.values(job.steps).some(step => step === 'in_progress');
-
-      if (allCompleted) completedJobs++;
-      else if (anyInProgress) inProgressJobs++;
+    filteredJobs.forEach(({ job }) => {
+      if (job.status === 'completed') completedJobs++;
+      else if (job.status === 'running' || job.status === 'waiting') inProgressJobs++;
     });
 
     const completionRate = totalJobs > 0 ? Math.round((completedJobs / totalJobs) * 100) : 0;
@@ -209,132 +203,48 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
   };
 
   const getStepLineColor = (status: string) => {
-    if (status === 'completed') return 'bg-green-500';
-    if (status === 'in_progress') return 'bg-slate-300 dark:bg-slate-600';
+    if (status === 'completed' || status === 'skipped') return 'bg-green-500';
     return 'bg-slate-300 dark:bg-slate-600';
   };
 
-  const getPatientName = (patient: Patient) => {
-    const given = patient.name.given.join(' ');
-    return `${given} ${patient.name.family}`.trim();
-  };
-
-  const getJobStatus = (job: PatientJob) => {
-    const allCompleted = Object.values(job.steps).every(s => s === 'completed');
-    const anyInProgress = Object.values(job.steps).some(s => s === 'in_progress');
-
-    if (allCompleted) return { text: 'Completed', color: 'text-green-600 dark:text-green-400', bg: 'bg-green-100 dark:bg-green-900/30' };
-    if (anyInProgress) return { text: 'In Progress', color: 'text-blue-600 dark:text-blue-400', bg: 'bg-blue-100 dark:bg-blue-900/30' };
-    return { text: 'Pending', color: 'text-slate-600 dark:text-slate-400', bg: 'bg-slate-100 dark:bg-slate-800' };
+  const getJobStatus = ({ job }: PatientJob) => {
+    switch (job.status) {
+      case 'completed':
+        return { text: 'Completed', color: 'text-green-600 dark:text-green-400', bg: 'bg-green-100 dark:bg-green-900/30' };
+      case 'running':
+        return { text: 'In Progress', color: 'text-blue-600 dark:text-blue-400', bg: 'bg-blue-100 dark:bg-blue-900/30' };
+      case 'waiting':
+        return { text: 'Waiting', color: 'text-purple-600 dark:text-purple-400', bg: 'bg-purple-100 dark:bg-purple-900/30' };
+      case 'failed':
+        return { text: 'Failed', color: 'text-red-600 dark:text-red-400', bg: 'bg-red-100 dark:bg-red-900/30' };
+      case 'cancelled':
+        return { text: 'Cancelled', color: 'text-slate-500 dark:text-slate-400', bg: 'bg-slate-100 dark:bg-slate-800' };
+      default:
+        return { text: 'Queued', color: 'text-slate-600 dark:text-slate-400', bg: 'bg-slate-100 dark:bg-slate-800' };
+    }
   };
 
   const handleLogout = () => {
     navigate('/');
   };
 
-  // Generate mock transaction history for a job
-  const generateTransactionHistory = (job: PatientJob) => {
-    const transactions = [];
-    const seed = job.jobDate.getTime();
-    const insuranceProvider = job.patient.insurance?.[0]?.provider || 'Cigna Dental';
-
-    // Fetch PMS transaction
-    if (job.steps.fetch_pms !== 'pending') {
-      transactions.push({
-        startTime: job.jobDate.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' }) + ' ' + job.startTime + ':00',
-        reqId: `REQ-${job.jobDate.toISOString().split('T')[0].replace(/-/g, '')}-${Math.floor((seed) % 1000).toString().padStart(4, '0')}`,
-        duration: '2m 15s',
-        type: 'FETCH',
-        status: job.steps.fetch_pms === 'completed' ? 'SUCCESS' : 'IN_PROGRESS',
-        insuranceProvider: '-',
-        insuranceRep: '-',
-        score: '100%',
-        runBy: 'Smith AI System'
-      });
-    }
-
-    // API transaction
-    if (job.steps.api_call !== 'pending') {
-      const apiStartTime = new Date(job.jobDate.getTime() + 3 * 60000); // 3 minutes after job start
-      transactions.push({
-        startTime: apiStartTime.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' }) + ' ' +
-          `${String(apiStartTime.getHours()).padStart(2, '0')}:${String(apiStartTime.getMinutes()).padStart(2, '0')}:15`,
-        reqId: `REQ-${job.jobDate.toISOString().split('T')[0].replace(/-/g, '')}-${Math.floor((seed + 100) % 1000).toString().padStart(4, '0')}`,
-        duration: '1m 10s',
-        type: 'API',
-        status: job.steps.api_call === 'completed' ? 'SUCCESS' : 'IN_PROGRESS',
-        insuranceProvider,
-        insuranceRep: 'API System',
-        score: '92%',
-        runBy: 'Smith AI System'
-      });
-    }
-
-    // Document Analysis transaction
-    if (job.steps.analysis !== 'pending') {
-      const analysisStartTime = new Date(job.jobDate.getTime() + 9 * 60000); // 9 minutes after job start
-      transactions.push({
-        startTime: analysisStartTime.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' }) + ' ' +
-          `${String(analysisStartTime.getHours()).padStart(2, '0')}:${String(analysisStartTime.getMinutes()).padStart(2, '0')}:30`,
-        reqId: `REQ-${job.jobDate.toISOString().split('T')[0].replace(/-/g, '')}-${Math.floor((seed + 50) % 1000).toString().padStart(4, '0')}`,
-        duration: '5m 25s',
-        type: 'ANALYSIS',
-        status: job.steps.analysis === 'completed' ? 'SUCCESS' : 'IN_PROGRESS',
-        insuranceProvider,
-        insuranceRep: 'Document AI',
-        score: '85%',
-        runBy: 'Smith AI System'
-      });
-    }
-
-    // Call Center transaction
-    if (job.steps.call_center !== 'pending') {
-      const callStartTime = new Date(job.jobDate.getTime() + 12 * 60000); // 12 minutes after job start
-      transactions.push({
-        startTime: callStartTime.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' }) + ' ' +
-          `${String(callStartTime.getHours()).padStart(2, '0')}:${String(callStartTime.getMinutes()).padStart(2, '0')}:22`,
-        reqId: `REQ-${job.jobDate.toISOString().split('T')[0].replace(/-/g, '')}-${Math.floor((seed + 200) % 1000).toString().padStart(4, '0')}`,
-        duration: '48m 0s',
-        type: 'CALL',
-        status: job.steps.call_center === 'completed' ? 'SUCCESS' : 'IN_PROGRESS',
-        insuranceProvider,
-        insuranceRep: 'Amanda Rodriguez',
-        score: '98%',
-        runBy: 'Smith AI System'
-      });
-    }
-
-    // Save to PMS transaction
-    if (job.steps.save_pms !== 'pending') {
-      const saveStartTime = new Date(job.jobDate.getTime() + 61 * 60000); // 61 minutes after job start
-      transactions.push({
-        startTime: saveStartTime.toLocaleDateString('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' }) + ' ' +
-          `${String(saveStartTime.getHours()).padStart(2, '0')}:${String(saveStartTime.getMinutes()).padStart(2, '0')}:45`,
-        reqId: `REQ-${job.jobDate.toISOString().split('T')[0].replace(/-/g, '')}-${Math.floor((seed + 300) % 1000).toString().padStart(4, '0')}`,
-        duration: '1m 30s',
-        type: 'SAVE',
-        status: job.steps.save_pms === 'completed' ? 'SUCCESS' : 'IN_PROGRESS',
-        insuranceProvider: '-',
-        insuranceRep: '-',
-        score: '100%',
-        runBy: 'Smith AI System'
-      });
-    }
-
-    return transactions;
-  };
-
-  const handleGoToDetail = (job: PatientJob) => {
+  const handleGoToDetail = ({ job }: PatientJob) => {
     if (onDetailClick) {
-      onDetailClick(job.patient.id);
+      onDetailClick(job.patientId);
     } else {
-      // Always navigate to Sarah Jane Johnson (ID: 1001)
-      navigate(`/b2b-agent/patient-detail?patientId=1001`);
+      navigate(`/b2b-agent/patient-detail?patientId=${job.patientId}`);
     }
   };
 
   const toggleJobExpansion = (jobId: string) => {
     setExpandedJobId(expandedJobId === jobId ? null : jobId);
+
+    // Load the job's transactions the first time it is expanded
+    if (expandedJobId !== jobId && !jobTransactions[jobId]) {
+      fetchJobTransactions(jobId)
+        .then(transactions => setJobTransactions(prev => ({ ...prev, [jobId]: transactions })))
+        .catch(() => setJobTransactions(prev => ({ ...prev, [jobId]: [] })));
+    }
   };
 
   return (
@@ -493,12 +403,9 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
 
             {/* Table Rows */}
             <div className="divide-y divide-slate-100 dark:divide-slate-700 max-h-[600px] overflow-y-auto">
-              {filteredJobs.map((job, index) => {
+              {filteredJobs.map((job) => {
                 const jobStatus = getJobStatus(job);
-                const [startHour, startMin] = job.startTime.split(':');
-                const [endHour, endMin] = job.endTime.split(':');
-                const durationMin = (parseInt(endHour) * 60 + parseInt(endMin)) - (parseInt(startHour) * 60 + parseInt(startMin));
-                const jobId = `${job.jobDate.toISOString()}-${index}`;
+                const jobId = job.job.id;
                 const isExpanded = expandedJobId === jobId;
 
                 return (
@@ -526,7 +433,7 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
 
                     {/* Duration */}
                     <div style={{ width: '10%' }}>
-                      <p className="text-xs text-slate-600 dark:text-slate-400">{durationMin}m</p>
+                      <p className="text-xs text-slate-600 dark:text-slate-400">{job.durationMin !== null ? `${job.durationMin}m` : '-'}</p>
                     </div>
 
                     {/* Appointment Date */}
@@ -541,7 +448,7 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
 
                     {/* Patient Name */}
                     <div style={{ width: '15%' }}>
-                      <p className="font-medium text-slate-900 dark:text-white text-sm truncate">{getPatientName(job.patient)}</p>
+                      <p className="font-medium text-slate-900 dark:text-white text-sm truncate">{job.job.patientName}</p>
                     </div>
 
                     {/* Progress Steps */}
@@ -560,6 +467,10 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
                                       ? 'bg-green-500 dark:bg-green-600 border-green-500 dark:border-green-600 text-white'
                                       : status === 'in_progress'
                                       ? 'bg-blue-500 dark:bg-blue-600 border-blue-500 dark:border-blue-600 text-white'
+                                      : status === 'failed'
+                                      ? 'bg-red-500 dark:bg-red-600 border-red-500 dark:border-red-600 text-white'
+                                      : status === 'skipped'
+                                      ? 'bg-white dark:bg-slate-800 border-green-500 dark:border-green-600 text-green-600 dark:text-green-400'
                                       : 'bg-slate-200 dark:bg-slate-700 border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-400'
                                   }`}
                                 >
@@ -567,6 +478,10 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
                                     <span className="material-symbols-outlined text-sm">check</span>
                                   ) : status === 'in_progress' ? (
                                     <span className="material-symbols-outlined text-sm animate-spin">sync</span>
+                                  ) : status === 'failed' ? (
+                                    <span className="material-symbols-outlined text-sm">close</span>
+                                  ) : status === 'skipped' ? (
+                                    <span className="material-symbols-outlined text-sm" title="Skipped">redo</span>
                                   ) : (
                                     stepIndex + 1
                                   )}
@@ -617,8 +532,11 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
 
                       {/* Patient Info */}
                       <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
-                        Patient: {getPatientName(job.patient)} | Date: {job.jobDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
+                        Patient: {job.job.patientName} | Date: {job.jobDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}
                       </p>
+                      {job.job.errorMessage && (
+                        <p className="text-sm text-red-600 dark:text-red-400 mb-4">{job.job.errorMessage}</p>
+                      )}
 
                       {/* Transaction History Table */}
                       <div className="bg-white dark:bg-slate-900 rounded-xl overflow-hidden border border-slate-200 dark:border-slate-700">
@@ -639,13 +557,23 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
                               </tr>
                             </thead>
                             <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
-                              {generateTransactionHistory(job).map((transaction, idx) => (
-                                <tr key={idx} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
+                              {!jobTransactions[jobId] && (
+                                <tr>
+                                  <td colSpan={8} className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400">Loading transactions...</td>
+                                </tr>
+                              )}
+                              {jobTransactions[jobId]?.length === 0 && (
+                                <tr>
+                                  <td colSpan={8} className="px-4 py-3 text-sm text-slate-500 dark:text-slate-400">No transactions yet</td>
+                                </tr>
+                              )}
+                              {jobTransactions[jobId]?.map((transaction) => (
+                                <tr key={transaction.id} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
                                   <td className="px-4 py-3">
-                                    <div className="text-sm text-slate-900 dark:text-white font-medium">{transaction.startTime.split(' ')[0]}</div>
-                                    <div className="text-xs text-slate-500 dark:text-slate-400">{transaction.reqId}</div>
+                                    <div className="text-sm text-slate-900 dark:text-white font-medium">{transaction.startTime || '-'}</div>
+                                    <div className="text-xs text-slate-500 dark:text-slate-400">{transaction.requestId}</div>
                                   </td>
-                                  <td className="px-4 py-3 text-sm text-slate-600 dark:text-slate-400">{transaction.duration}</td>
+                                  <td className="px-4 py-3 text-sm text-slate-600 dark:text-slate-400">{transaction.duration || '-'}</td>
                                   <td className="px-4 py-3">
                                     <span className={`inline-flex items-center px-2.5 py-1 rounded-lg text-xs font-bold ${TRANSACTION_TYPE_STYLES[transaction.type as keyof typeof TRANSACTION_TYPE_STYLES]?.bgColor} ${TRANSACTION_TYPE_STYLES[transaction.type as keyof typeof TRANSACTION_TYPE_STYLES]?.textColor}`}>
                                       {transaction.type}
@@ -654,23 +582,28 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
                                   <td className="px-4 py-3">
                                     <span className={`inline-flex items-center px-2.5 py-1 rounded-lg text-xs font-bold ${
                                       transaction.status === 'SUCCESS' ? 'bg-green-50 dark:bg-green-900/30 text-green-600 dark:text-green-400' :
+                                      transaction.status === 'FAILED' ? 'bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400' :
                                       'bg-yellow-50 dark:bg-yellow-900/30 text-yellow-600 dark:text-yellow-400'
                                     }`}>
                                       {transaction.status}
                                     </span>
                                   </td>
-                                  <td className="px-4 py-3 text-sm text-slate-900 dark:text-white">{transaction.insuranceProvider}</td>
-                                  <td className="px-4 py-3 text-sm text-slate-900 dark:text-white">{transaction.insuranceRep}</td>
+                                  <td className="px-4 py-3 text-sm text-slate-900 dark:text-white">{transaction.insuranceProvider || '-'}</td>
+                                  <td className="px-4 py-3 text-sm text-slate-900 dark:text-white">{transaction.insuranceRep || '-'}</td>
                                   <td className="px-4 py-3">
-                                    <span className={`text-sm font-bold ${
-                                      parseInt(transaction.score) === 100 ? 'text-green-600 dark:text-green-400' :
-                                      parseInt(transaction.score) >= 80 ? 'text-orange-600 dark:text-orange-400' :
-                                      'text-red-600 dark:text-red-400'
-                                    }`}>
-                                      {transaction.score}
-                                    </span>
+                                    {transaction.verificationScore !== null ? (
+                                      <span className={`text-sm font-bold ${
+                                        transaction.verificationScore === 100 ? 'text-green-600 dark:text-green-400' :
+                                        transaction.verificationScore >= 80 ? 'text-orange-600 dark:text-orange-400' :
+                                        'text-red-600 dark:text-red-400'
+                                      }`}>
+                                        {transaction.verificationScore}%
+                                      </span>
+                                    ) : (
+                                      <span className="text-sm text-slate-400">-</span>
+                                    )}
                                   </td>
-                                  <td className="px-4 py-3 text-sm text-slate-900 dark:text-white">{transaction.runBy}</td>
+                                  <td className="px-4 py-3 text-sm text-slate-900 dark:text-white">{transaction.runBy || '-'}</td>
                                 </tr>
                               ))}
                             </tbody>
@@ -686,13 +619,19 @@ const DailyJobDashboard: React.FC<DailyJobDashboardProps> = ({ patients: patient
           </div>
 
           {/* Empty State */}
-          {filteredJobs.length === 0 && (
+          {loadError && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm text-red-700 dark:text-red-400">
+              {loadError}
+            </div>
+          )}
+
+          {!loading && !loadError && filteredJobs.length === 0 && (
             <div className="bg-white dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700 p-12 text-center">
               <div className="w-16 h-16 bg-slate-100 dark:bg-slate-700 rounded-full flex items-center justify-center mx-auto mb-4">
                 <span className="material-symbols-outlined text-3xl text-slate-400">schedule</span>
               </div>
               <h3 className="text-lg font-semibold text-slate-900 dark:text-white">No jobs scheduled</h3>
-              <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">No patients are scheduled for this period.</p>
+              <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">No verification jobs are queued for this period.</p>
             </div>
           )}
         </div>
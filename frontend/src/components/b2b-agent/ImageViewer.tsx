@@ -53,12 +53,14 @@ interface ImageViewerWithModalProps {
   imageUrl: string;
   firstPageMaxWidth?: string;
   alt?: string;
+  title?: string;
 }
 
 export const ImageViewerWithModal: React.FC<ImageViewerWithModalProps> = ({
   imageUrl,
   firstPageMaxWidth = '50%',
-  alt = 'Image'
+  alt = 'Image',
+  title = 'Fax Document'
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -92,7 +94,7 @@ export const ImageViewerWithModal: React.FC<ImageViewerWithModalProps> = ({
                   image
                 </span>
                 <h2 className="text-xl font-semibold text-slate-900 dark:text-white">
-                  Fax Document
+                  {title}
                 </h2>
               </div>
               <button
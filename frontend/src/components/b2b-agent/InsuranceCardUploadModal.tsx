@@ -1,139 +1,251 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
+import {
+  scanInsuranceCard,
+  updateOcrExtraction,
+  confirmOcrExtraction,
+  rejectOcrExtraction,
+  type CardSide,
+  type FieldBox,
+  type OcrBoxField,
+  type OcrExtractionReview,
+  type OcrReviewField,
+  type OcrScanResult
+} from "@/services/ocrService";
 
 interface InsuranceCardUploadModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onDataScanned: (data: ScannedData) => void;
+  onReviewed: () => void; // Called after an extraction is applied or rejected
   patientId: string;
+  extraction?: OcrExtractionReview | null; // Open on a pending extraction instead of the upload step
 }
 
-export interface ScannedData {
-  firstName: string;
-  middleName: string;
-  lastName: string;
-  insuranceProvider: string;
-  policyNumber: string;
-  groupNumber: string;
-  subscriberId: string;
-}
+// Fields read with less confidence than this are flagged for checking
+const LOW_FIELD_CONFIDENCE = 70;
+
+const BOX_COLORS: Record<OcrBoxField, string> = {
+  name: '#2563eb',
+  provider: '#9333ea',
+  policyNumber: '#16a34a',
+  groupNumber: '#ea580c',
+  subscriberId: '#0891b2'
+};
+
+// Card area each reviewed field was read from
+const FIELD_BOXES: Record<OcrReviewField, OcrBoxField> = {
+  givenName: 'name',
+  familyName: 'name',
+  subscriberName: 'name',
+  provider: 'provider',
+  policyNumber: 'policyNumber',
+  groupNumber: 'groupNumber',
+  subscriberId: 'subscriberId'
+};
 
 const InsuranceCardUploadModal: React.FC<InsuranceCardUploadModalProps> = ({
   isOpen,
   onClose,
-  onDataScanned,
+  onReviewed,
   patientId,
+  extraction,
 }) => {
-  const [_uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadedFiles, setUploadedFiles] = useState<Partial<Record<CardSide, File>>>({});
+  const [previewUrls, setPreviewUrls] = useState<Partial<Record<CardSide, string>>>({});
   const [isScanning, setIsScanning] = useState(false);
   const [scanProgress, setScanProgress] = useState(0);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [review, setReview] = useState<OcrExtractionReview | null>(null);
+  const [cardView, setCardView] = useState<Pick<OcrScanResult, 'boxes' | 'images'> | null>(null);
+  const [drafts, setDrafts] = useState<Partial<Record<OcrReviewField, string>>>({});
+  const [selected, setSelected] = useState<OcrReviewField[]>([]);
+  const [activeField, setActiveField] = useState<OcrBoxField | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
   const [scanComplete, setScanComplete] = useState(false);
 
   // Sample insurance card image URL for testing
   const sampleInsuranceCardUrl = "https://images.unsplash.com/photo-1563013544-824ae1b704d3?w=800&q=80";
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const previewUrl = previewUrls.front || null;
+
+  const handleFileChange = (side: CardSide) => (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      setUploadedFile(file);
+      setUploadedFiles((prev) => ({ ...prev, [side]: file }));
       const reader = new FileReader();
       reader.onloadend = () => {
-        setPreviewUrl(reader.result as string);
+        setPreviewUrls((prev) => ({ ...prev, [side]: reader.result as string }));
       };
       reader.readAsDataURL(file);
     }
   };
 
-  const handleScan = async () => {
-    if (!_uploadedFile) return;
+  const removeSide = (side: CardSide) => {
+    setUploadedFiles((prev) => ({ ...prev, [side]: undefined }));
+    setPreviewUrls((prev) => ({ ...prev, [side]: undefined }));
+  };
 
-    setIsScanning(true);
+  // Proposed values start as the card's, and only fields that would change are ticked
+  const startReview = (next: OcrExtractionReview) => {
+    setReview(next);
+    setDrafts(Object.fromEntries(next.fields.map((diff) => [diff.field, diff.proposed])));
+    setSelected(next.fields.filter((diff) => diff.changed).map((diff) => diff.field));
+    setErrorMessage('');
+  };
+
+  const resetScan = () => {
+    setUploadedFiles({});
+    setPreviewUrls({});
+    setReview(null);
+    setCardView(null);
+    setDrafts({});
+    setSelected([]);
+    setActiveField(null);
+    setErrorMessage('');
     setScanProgress(0);
     setScanComplete(false);
+  };
 
-    try {
-      // Create FormData for file upload
-      const formData = new FormData();
-      formData.append('insuranceCardImage', _uploadedFile);
-
-      // Simulate progress updates
-      const progressInterval = setInterval(() => {
-        setScanProgress((prev) => Math.min(prev + 10, 90));
-      }, 300);
-
-      // Call backend OCR API
-      const response = await fetch(`/api/patients/${patientId}/insurance-card-ocr`, {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
+  useEffect(() => {
+    if (isOpen && extraction) {
+      startReview(extraction);
+    }
+  }, [isOpen, extraction]);
 
-      clearInterval(progressInterval);
-      setScanProgress(100);
+  const handleClose = () => {
+    onClose();
+    resetScan();
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'OCR processing failed');
-      }
+  const handleScan = async () => {
+    if (!uploadedFiles.front) return;
 
-      const { extractedData, confidence } = await response.json();
+    setIsScanning(true);
+    setScanProgress(0);
+    setReview(null);
+    setScanComplete(false);
 
-      // Check for placeholder data or low confidence
-      const hasPlaceholders =
-        extractedData.firstName === 'Unknown' ||
-        extractedData.lastName === 'Patient' ||
-        extractedData.provider === 'Unknown Provider' ||
-        extractedData.policyNumber === 'UNKNOWN';
+    // Simulate progress updates
+    const progressInterval = setInterval(() => {
+      setScanProgress((prev) => Math.min(prev + 10, 90));
+    }, 300);
 
-      const isLowConfidence = confidence.overall < 70;
+    try {
+      const result = await scanInsuranceCard(patientId, uploadedFiles.front, uploadedFiles.back);
+      setScanProgress(100);
 
-      // Show warning if low confidence or placeholders detected
-      if (isLowConfidence || hasPlaceholders) {
-        const warningMessage = hasPlaceholders
-          ? 'Some information could not be extracted from the card. Please review and update the data manually.'
-          : 'OCR confidence is low. Please verify the extracted information is correct.';
+      // Nothing is saved yet: staff check each value against the card and the current record
+      setCardView({ boxes: result.boxes, images: result.images });
+      startReview(result.extraction);
+    } catch (error) {
+      alert('Failed to scan insurance card. Please try again or enter data manually.');
+      setScanProgress(0);
+    } finally {
+      clearInterval(progressInterval);
+      setIsScanning(false);
+    }
+  };
 
-        if (!confirm(`${warningMessage}\n\nConfidence: ${confidence.overall}%\n\nDo you want to continue with the extracted data?`)) {
-          setIsScanning(false);
-          setScanProgress(0);
-          return;
-        }
-      }
+  const toggleField = (field: OcrReviewField) => {
+    setSelected((prev) => prev.includes(field) ? prev.filter((f) => f !== field) : [...prev, field]);
+  };
 
-      // Pass extracted data to parent component
-      onDataScanned({
-        firstName: extractedData.firstName || '',
-        middleName: extractedData.middleName || '',
-        lastName: extractedData.lastName || '',
-        insuranceProvider: extractedData.provider || '',
-        policyNumber: extractedData.policyNumber || '',
-        groupNumber: extractedData.groupNumber || '',
-        subscriberId: extractedData.subscriberId || ''
-      });
+  const handleConfirm = async () => {
+    if (!review) return;
 
+    setIsSubmitting(true);
+    setErrorMessage('');
+    try {
+      const edits = Object.fromEntries(
+        review.fields
+          .filter((diff) => (drafts[diff.field] ?? diff.proposed) !== diff.proposed)
+          .map((diff) => [diff.field, drafts[diff.field] ?? ''])
+      );
+      if (Object.keys(edits).length > 0) {
+        await updateOcrExtraction(review.id, edits);
+      }
+      await confirmOcrExtraction(review.id, selected);
+      onReviewed();
       setScanComplete(true);
 
       // Auto-close after showing success
-      setTimeout(() => {
-        onClose();
-        setUploadedFile(null);
-        setPreviewUrl(null);
-        setScanProgress(0);
-        setScanComplete(false);
-      }, 1000);
+      setTimeout(handleClose, 1000);
+    } catch (err: any) {
+      setErrorMessage(err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-    } catch (error) {
-      alert('Failed to scan insurance card. Please try again or enter data manually.');
-      setIsScanning(false);
-      setScanProgress(0);
+  const handleReject = async () => {
+    if (!review) return;
+
+    setIsSubmitting(true);
+    setErrorMessage('');
+    try {
+      await rejectOcrExtraction(review.id);
+      onReviewed();
+      handleClose();
+    } catch (err: any) {
+      setErrorMessage(err.message);
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
   const handleUseSampleCard = () => {
-    setPreviewUrl(sampleInsuranceCardUrl);
-    setUploadedFile(new File([], "sample-insurance-card.jpg"));
+    setPreviewUrls({ front: sampleInsuranceCardUrl });
+    setUploadedFiles({ front: new File([], "sample-insurance-card.jpg") });
   };
 
+  const renderUploadSlot = (side: CardSide) => (
+    <div className="border-2 border-dashed border-slate-300 dark:border-slate-700 rounded-lg p-4 text-center flex flex-col">
+      <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
+        {side === 'front' ? 'Front of card' : 'Back of card (optional)'}
+      </p>
+      {previewUrls[side] ? (
+        <div className="space-y-3 flex-1 flex flex-col justify-between">
+          <img
+            src={previewUrls[side]}
+            alt={`Insurance Card ${side === 'front' ? 'Front' : 'Back'}`}
+            className="max-w-full max-h-40 mx-auto rounded-lg shadow-lg"
+          />
+          <button
+            onClick={() => removeSide(side)}
+            className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors text-sm self-center"
+          >
+            Remove
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3 flex-1 flex flex-col justify-center">
+          <div className="flex justify-center">
+            <span className="material-symbols-outlined text-5xl text-slate-400 dark:text-slate-600">
+              add_photo_alternate
+            </span>
+          </div>
+          <div>
+            <label
+              htmlFor={`file-upload-${side}`}
+              className="cursor-pointer px-4 py-2 bg-slate-900 dark:bg-slate-800 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-slate-700 transition-colors inline-flex items-center gap-2 text-sm"
+            >
+              <span className="material-symbols-outlined text-base">
+                upload
+              </span>
+              Choose File
+            </label>
+            <input
+              id={`file-upload-${side}`}
+              type="file"
+              accept="image/jpeg,image/png"
+              onChange={handleFileChange(side)}
+              className="hidden"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -146,7 +258,7 @@ const InsuranceCardUploadModal: React.FC<InsuranceCardUploadModalProps> = ({
             Upload Insurance Card And Scan
           </h2>
           <button
-            onClick={onClose}
+            onClick={handleClose}
             className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 transition-colors"
           >
             <span className="material-symbols-outlined text-2xl">close</span>
@@ -155,7 +267,7 @@ const InsuranceCardUploadModal: React.FC<InsuranceCardUploadModalProps> = ({
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto px-6 py-6">
-          {!isScanning && !scanComplete && (
+          {!isScanning && !review && !scanComplete && (
             <div className="space-y-6">
               {/* Instructions */}
               <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
@@ -168,7 +280,7 @@ const InsuranceCardUploadModal: React.FC<InsuranceCardUploadModalProps> = ({
                       How it works
                     </h3>
                     <p className="text-sm text-blue-700 dark:text-blue-300">
-                      Upload a photo of the patient's insurance card. Our AI will
+                      Upload photos of the front and back of the patient's insurance card. Our AI will
                       automatically scan and extract information, then fill in all
                       necessary patient details including name, date of birth, insurance
                       information, and contact details.
@@ -178,82 +290,151 @@ const InsuranceCardUploadModal: React.FC<InsuranceCardUploadModalProps> = ({
               </div>
 
               {/* Upload Area */}
-              <div className="border-2 border-dashed border-slate-300 dark:border-slate-700 rounded-lg p-8 text-center">
-                {previewUrl ? (
-                  <div className="space-y-4">
-                    <img
-                      src={previewUrl}
-                      alt="Insurance Card Preview"
-                      className="max-w-full max-h-64 mx-auto rounded-lg shadow-lg"
-                    />
-                    <div className="flex justify-center gap-3">
-                      <button
-                        onClick={() => {
-                          setUploadedFile(null);
-                          setPreviewUrl(null);
-                        }}
-                        className="px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors text-sm"
-                      >
-                        Remove
-                      </button>
-                      <button
-                        onClick={handleScan}
-                        className="px-6 py-2 bg-slate-900 dark:bg-slate-800 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-slate-700 transition-colors flex items-center gap-2 text-sm font-medium"
-                      >
-                        <span className="material-symbols-outlined text-base">
-                          document_scanner
-                        </span>
-                        Start Scanning
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="space-y-4">
-                    <div className="flex justify-center">
-                      <span className="material-symbols-outlined text-6xl text-slate-400 dark:text-slate-600">
-                        add_photo_alternate
-                      </span>
-                    </div>
-                    <div>
-                      <label
-                        htmlFor="file-upload"
-                        className="cursor-pointer px-4 py-2 bg-slate-900 dark:bg-slate-800 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-slate-700 transition-colors inline-flex items-center gap-2"
-                      >
-                        <span className="material-symbols-outlined text-base">
-                          upload
-                        </span>
-                        Choose File
-                      </label>
-                      <input
-                        id="file-upload"
-                        type="file"
-                        accept="image/*"
-                        onChange={handleFileChange}
-                        className="hidden"
+              <div className="grid grid-cols-2 gap-4">
+                {renderUploadSlot('front')}
+                {renderUploadSlot('back')}
+              </div>
+              <p className="text-xs text-slate-400 dark:text-slate-500 text-center">
+                Supported formats: JPG, PNG. Adding the back helps read group and payer details.
+              </p>
+
+              {uploadedFiles.front ? (
+                <div className="flex justify-center">
+                  <button
+                    onClick={handleScan}
+                    className="px-6 py-2 bg-slate-900 dark:bg-slate-800 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-slate-700 transition-colors flex items-center gap-2 text-sm font-medium"
+                  >
+                    <span className="material-symbols-outlined text-base">
+                      document_scanner
+                    </span>
+                    Start Scanning
+                  </button>
+                </div>
+              ) : (
+                /* Sample Card Button */
+                <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
+                  <button
+                    onClick={handleUseSampleCard}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1 mx-auto"
+                  >
+                    <span className="material-symbols-outlined text-base">
+                      credit_card
+                    </span>
+                    Use Sample Insurance Card for Testing
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {review && !scanComplete && (
+            <div className="space-y-6">
+              {/* Card images with the area each value was read from */}
+              {cardView && (
+                <div className="grid grid-cols-2 gap-4">
+                  {(['front', 'back'] as CardSide[]).filter((side) => cardView.images[side]).map((side) => (
+                    <div key={side} className="relative rounded-lg overflow-hidden shadow-lg">
+                      <img
+                        src={cardView.images[side]}
+                        alt={`Scanned Insurance Card ${side === 'front' ? 'Front' : 'Back'}`}
+                        className="w-full block"
                       />
+                      {(Object.entries(cardView.boxes) as Array<[OcrBoxField, FieldBox]>)
+                        .filter(([, box]) => box.side === side)
+                        .map(([field, box]) => (
+                          <div
+                            key={field}
+                            className="absolute border-2 rounded-sm transition-all"
+                            style={{
+                              left: `${box.x * 100}%`,
+                              top: `${box.y * 100}%`,
+                              width: `${box.width * 100}%`,
+                              height: `${box.height * 100}%`,
+                              borderColor: BOX_COLORS[field],
+                              backgroundColor: activeField === field ? `${BOX_COLORS[field]}55` : 'transparent',
+                              opacity: activeField && activeField !== field ? 0.3 : 1
+                            }}
+                          />
+                        ))}
                     </div>
-                    <p className="text-sm text-slate-500 dark:text-slate-400">
-                      or drag and drop an image here
-                    </p>
-                    <p className="text-xs text-slate-400 dark:text-slate-500">
-                      Supported formats: JPG, PNG, PDF
-                    </p>
+                  ))}
+                </div>
+              )}
 
-                    {/* Sample Card Button */}
-                    <div className="pt-4 border-t border-slate-200 dark:border-slate-700">
-                      <button
-                        onClick={handleUseSampleCard}
-                        className="text-sm text-blue-600 dark:text-blue-400 hover:underline flex items-center gap-1 mx-auto"
+              {/* Current record compared with the card; only ticked fields are saved */}
+              <div className="border border-slate-200 dark:border-slate-800 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 dark:bg-slate-800/50 text-xs text-slate-500 dark:text-slate-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Apply</th>
+                      <th className="px-3 py-2 text-left font-medium">Field</th>
+                      <th className="px-3 py-2 text-left font-medium">Current</th>
+                      <th className="px-3 py-2 text-left font-medium">From Card</th>
+                      <th className="px-3 py-2 text-right font-medium">Confidence</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200 dark:divide-slate-800">
+                    {review.fields.map((diff) => (
+                      <tr
+                        key={diff.field}
+                        onMouseEnter={() => setActiveField(FIELD_BOXES[diff.field])}
+                        onMouseLeave={() => setActiveField(null)}
+                        className={diff.changed ? 'bg-amber-50/50 dark:bg-amber-900/10' : ''}
                       >
-                        <span className="material-symbols-outlined text-base">
-                          credit_card
-                        </span>
-                        Use Sample Insurance Card for Testing
-                      </button>
-                    </div>
-                  </div>
-                )}
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={selected.includes(diff.field)}
+                            onChange={() => toggleField(diff.field)}
+                            disabled={isSubmitting || !(drafts[diff.field] ?? diff.proposed).trim()}
+                            className="rounded border-slate-300"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <div className="flex items-center gap-2">
+                            <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: BOX_COLORS[FIELD_BOXES[diff.field]] }}></span>
+                            <span className="text-slate-500 dark:text-slate-400">{diff.label}</span>
+                          </div>
+                        </td>
+                        <td className="px-3 py-2 text-slate-700 dark:text-slate-300">{diff.current || '-'}</td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="text"
+                            value={drafts[diff.field] ?? diff.proposed}
+                            onChange={(e) => setDrafts((prev) => ({ ...prev, [diff.field]: e.target.value }))}
+                            placeholder="Not read"
+                            disabled={isSubmitting}
+                            className="w-full px-2 py-1 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary text-sm"
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${diff.confidence < LOW_FIELD_CONFIDENCE
+                            ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400'
+                            : 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'}`}
+                          >
+                            {diff.confidence}%
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
+
+              {review.fields.some((diff) => diff.confidence < LOW_FIELD_CONFIDENCE) && (
+                <p className="text-sm text-amber-700 dark:text-amber-400">
+                  Some values were read with low confidence or could not be found. Please verify them against the card.
+                </p>
+              )}
+
+              {errorMessage && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <div className="flex items-start gap-2">
+                    <span className="material-symbols-outlined text-red-600 dark:text-red-400 text-lg">error</span>
+                    <p className="text-sm text-red-600 dark:text-red-400 font-medium">{errorMessage}</p>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -348,7 +529,7 @@ const InsuranceCardUploadModal: React.FC<InsuranceCardUploadModalProps> = ({
                   Scan Complete!
                 </p>
                 <p className="text-sm text-slate-600 dark:text-slate-400">
-                  Patient information has been extracted and will be auto-filled
+                  The selected fields were saved to the patient record
                 </p>
               </div>
             </div>
@@ -359,11 +540,29 @@ const InsuranceCardUploadModal: React.FC<InsuranceCardUploadModalProps> = ({
         {!isScanning && !scanComplete && (
           <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-slate-200 dark:border-slate-800">
             <button
-              onClick={onClose}
+              onClick={handleClose}
               className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors"
             >
-              Cancel
+              {review ? 'Review Later' : 'Cancel'}
             </button>
+            {review && (
+              <>
+                <button
+                  onClick={handleReject}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 border border-red-300 dark:border-red-800 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <button
+                  onClick={handleConfirm}
+                  disabled={isSubmitting || selected.length === 0}
+                  className="px-4 py-2 bg-slate-900 dark:bg-slate-800 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-slate-700 transition-colors disabled:opacity-50"
+                >
+                  Apply Selected ({selected.length})
+                </button>
+              </>
+            )}
           </div>
         )}
       </div>
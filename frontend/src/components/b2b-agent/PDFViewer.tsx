@@ -95,11 +95,13 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({
 interface PDFViewerWithModalProps {
   pdfUrl: string;
   firstPageMaxWidth?: string;
+  title?: string;
 }
 
 export const PDFViewerWithModal: React.FC<PDFViewerWithModalProps> = ({
   pdfUrl,
-  firstPageMaxWidth = '50%'
+  firstPageMaxWidth = '50%',
+  title = 'Fax Document'
 }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
 
@@ -132,7 +134,7 @@ export const PDFViewerWithModal: React.FC<PDFViewerWithModalProps> = ({
                   picture_as_pdf
                 </span>
                 <h2 className="text-xl font-semibold text-slate-900 dark:text-white">
-                  Fax Document - All Pages
+                  {title} - All Pages
                 </h2>
               </div>
               <button
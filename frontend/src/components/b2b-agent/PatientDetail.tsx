@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   Patient,
   Appointment,
@@ -17,11 +17,26 @@ import CoverageVerificationResults from "./CoverageVerificationResults";
 import SmartAITransactionHistory from "./SmartAITransactionHistory";
 import CoverageByCodeView from "./CoverageByCodeView";
 import AppointmentManagement from "./AppointmentManagement";
+import PatientDocuments from "./PatientDocuments";
+import InsuranceCardUploadModal from "./InsuranceCardUploadModal";
 import SensitiveDataField from "@/components/SensitiveDataField";
 import InsuranceSensitiveDataField from "@/components/InsuranceSensitiveDataField";
 import { PRIMARY_BUTTON } from "@/styles/buttonStyles";
 import { VERIFICATION_STATUS_LABELS } from '@/constants/verificationStatus';
 import { deriveVerificationStatusFromTransactions, type Transaction, type VerificationStatus } from '@/utils/transactionStatus';
+import { queryTransactions } from '@/services/transactionService';
+import { useLiveRefresh } from '@/hooks/use-live-events';
+import { fetchPendingOcrExtractions, type OcrExtractionReview } from '@/services/ocrService';
+import {
+  DOCUMENT_CATEGORY_LABELS,
+  uploadPatientDocument,
+  deletePatientDocument,
+  startDocumentAnalysis,
+  watchDocumentAnalysis,
+  type DocumentAnalysisJob,
+  type DocumentCategory,
+  type PatientDocument
+} from '@/services/documentService';
 
 interface PatientDetailProps {
   patient: Patient;
@@ -32,6 +47,7 @@ interface PatientDetailProps {
   onCancel?: () => void;
   onBackToScheduleJobs?: () => void;
   onSavePatient?: (updatedPatient: Partial<Patient>) => Promise<void>;
+  onPatientUpdated?: () => void; // Reload the patient after changes made outside the edit form
 }
 
 // Tab content wrapper component for consistent spacing
@@ -51,6 +67,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
   onCancel,
   onBackToScheduleJobs: _onBackToScheduleJobs,
   onSavePatient,
+  onPatientUpdated,
 }) => {
   const [showAICenter, setShowAICenter] = useState(false);
   const [insuranceSubTab, setInsuranceSubTab] = useState<InsuranceSubTabType>(INSURANCE_SUB_TAB_TYPES.COVERAGE_DETAILS);
@@ -60,6 +77,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
 
   // Transaction refresh trigger
   const [transactionRefreshTrigger, setTransactionRefreshTrigger] = useState(0);
+  const [faxRequestTrigger, setFaxRequestTrigger] = useState(0);
 
   // Patient Basic Info editing states
   // Default to view mode for all users to protect sensitive data
@@ -85,15 +103,26 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
 
   // Document Analysis AI state
   const [showDocumentUploadModal, setShowDocumentUploadModal] = useState(false);
-  const [uploadedDocuments, setUploadedDocuments] = useState<File[]>([]);
+  const [uploadedDocuments, setUploadedDocuments] = useState<PatientDocument[]>([]);
+  const [uploadCategory, setUploadCategory] = useState<DocumentCategory>('benefit-fax');
+  const [isUploadingDocuments, setIsUploadingDocuments] = useState(false);
+  const [documentUploadError, setDocumentUploadError] = useState('');
   const [isAnalyzingDocuments, setIsAnalyzingDocuments] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
   const [analysisMessage, setAnalysisMessage] = useState('');
+  const [analysisJob, setAnalysisJob] = useState<DocumentAnalysisJob | null>(null);
+  const [analysisError, setAnalysisError] = useState('');
+  const stopAnalysisWatch = useRef<(() => void) | null>(null);
 
   // Delete patient state
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Insurance card scans waiting for review
+  const [pendingCardScans, setPendingCardScans] = useState<OcrExtractionReview[]>([]);
+  const [showCardScanModal, setShowCardScanModal] = useState(false);
+  const [reviewingCardScan, setReviewingCardScan] = useState<OcrExtractionReview | null>(null);
+
   // Transaction-based status for Data Mode
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [currentUser, setCurrentUser] = useState<any>(null);
@@ -121,6 +150,25 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
     }
   }, [currentUser?.dataSource, transactions, patient.verificationStatus]);
 
+  const loadPendingCardScans = () => {
+    if (!canEdit) return;
+    fetchPendingOcrExtractions(patient.id)
+      .then(setPendingCardScans)
+      .catch(() => setPendingCardScans([]));
+  };
+
+  useEffect(loadPendingCardScans, [patient.id, canEdit]);
+
+  const openCardScan = (extraction: OcrExtractionReview | null) => {
+    setReviewingCardScan(extraction);
+    setShowCardScanModal(true);
+  };
+
+  const handleCardScanReviewed = () => {
+    loadPendingCardScans();
+    onPatientUpdated?.();
+  };
+
   const getFullName = () => {
     const given = patient.name.given.join(" ");
     return `${given} ${patient.name.family}`.trim();
@@ -209,87 +257,87 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
 
   // Check if status is 100% (all 5 steps completed)
 
-  const handleDocumentUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
-    if (files) {
-      const newFiles = Array.from(files).slice(0, 3 - uploadedDocuments.length);
-      setUploadedDocuments([...uploadedDocuments, ...newFiles]);
+  // Files go straight into the patient's document store, so they are kept even if the analysis is cancelled
+  const handleDocumentUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files ? Array.from(event.target.files).slice(0, 3 - uploadedDocuments.length) : [];
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsUploadingDocuments(true);
+    setDocumentUploadError('');
+    const stored: PatientDocument[] = [];
+    try {
+      for (const file of files) {
+        stored.push(await uploadPatientDocument(patient.id, uploadCategory, file));
+      }
+    } catch (err: any) {
+      setDocumentUploadError(err.message);
+    } finally {
+      setUploadedDocuments(previous => [...previous, ...stored]);
+      setIsUploadingDocuments(false);
     }
   };
 
-  const handleRemoveDocument = (index: number) => {
-    setUploadedDocuments(uploadedDocuments.filter((_, i) => i !== index));
+  // Removing a file here deletes the document that was just stored for it
+  const handleRemoveDocument = async (index: number) => {
+    const document = uploadedDocuments[index];
+    try {
+      await deletePatientDocument(document.id);
+      setUploadedDocuments(uploadedDocuments.filter((_, i) => i !== index));
+    } catch (err: any) {
+      setDocumentUploadError(err.message);
+    }
   };
 
-  const handleStartDocumentAnalysis = () => {
+  // Uploaded documents are analyzed; with none uploaded, the server reads the patient's stored benefit documents
+  const handleStartDocumentAnalysis = async () => {
     setShowDocumentUploadModal(false);
     setIsAnalyzingDocuments(true);
     setAnalysisProgress(0);
-    setAnalysisMessage('🤖 Initializing AI Document Analysis System...');
-
-    // Stage 1: Initialization (0-15%)
-    setTimeout(() => {
-      setAnalysisProgress(15);
-      setAnalysisMessage('🔍 Scanning uploaded documents for content extraction...');
-    }, 1000);
-
-    // Stage 2: OCR Processing (15-30%)
-    setTimeout(() => {
-      setAnalysisProgress(30);
-      setAnalysisMessage('📄 Performing OCR on document images...');
-    }, 2500);
-
-    // Stage 3: Text Extraction (30-45%)
-    setTimeout(() => {
-      setAnalysisProgress(45);
-      setAnalysisMessage('🧠 Applying Natural Language Processing algorithms...');
-    }, 4000);
-
-    // Stage 4: NLP Analysis (45-60%)
-    setTimeout(() => {
-      setAnalysisProgress(60);
-      setAnalysisMessage('🔎 Identifying patient demographics and insurance data...');
-    }, 5500);
-
-    // Stage 5: Data Extraction (60-75%)
-    setTimeout(() => {
-      setAnalysisProgress(75);
-      setAnalysisMessage('✅ Validating extracted information accuracy...');
-    }, 7000);
-
-    // Stage 6: Validation (75-85%)
-    setTimeout(() => {
-      setAnalysisProgress(85);
-      setAnalysisMessage('🔗 Cross-referencing data with existing patient records...');
-    }, 8500);
-
-    // Stage 7: Cross-referencing (85-92%)
-    setTimeout(() => {
-      setAnalysisProgress(92);
-      setAnalysisMessage('💾 Preparing structured data for database insertion...');
-    }, 10000);
-
-    // Stage 8: Data Preparation (92-98%)
-    setTimeout(() => {
-      setAnalysisProgress(98);
-      setAnalysisMessage('🎯 Finalizing AI analysis results...');
-    }, 11500);
-
-    // Stage 9: Completion (98-100%)
-    setTimeout(() => {
-      setAnalysisProgress(100);
-      setAnalysisMessage('✨ Document analysis complete! Patient data extracted successfully.');
-    }, 12500);
-
-    // Close modal
-    setTimeout(() => {
-      setIsAnalyzingDocuments(false);
-      setAnalysisProgress(0);
-      setAnalysisMessage('');
-      setUploadedDocuments([]);
-    }, 14000);
+    setAnalysisMessage('Starting document analysis...');
+    setAnalysisJob(null);
+    setAnalysisError('');
+
+    try {
+      const job = await startDocumentAnalysis(
+        patient.id,
+        uploadedDocuments.length > 0 ? uploadedDocuments.map(document => document.id) : undefined
+      );
+      setTransactionRefreshTrigger(prev => prev + 1);
+      stopAnalysisWatch.current = watchDocumentAnalysis(
+        job.id,
+        (update) => {
+          setAnalysisProgress(update.progress);
+          setAnalysisMessage(update.message);
+          setAnalysisJob(update);
+          if (update.status === 'failed') {
+            setAnalysisError(update.errorMessage || 'Document analysis failed');
+          }
+          if (update.status !== 'running') {
+            setTransactionRefreshTrigger(prev => prev + 1);
+          }
+        },
+        (message) => setAnalysisError(message)
+      );
+    } catch (err: any) {
+      setAnalysisError(err.message);
+    }
+  };
+
+  const handleCloseDocumentAnalysis = () => {
+    stopAnalysisWatch.current?.();
+    stopAnalysisWatch.current = null;
+    setIsAnalyzingDocuments(false);
+    setAnalysisProgress(0);
+    setAnalysisMessage('');
+    setAnalysisJob(null);
+    setAnalysisError('');
+    setUploadedDocuments([]);
   };
 
+  // Stop following the analysis when leaving the patient
+  useEffect(() => () => stopAnalysisWatch.current?.(), []);
+
   const getPhone = () => {
     return patient.telecom.find((t) => t.system === "phone")?.value || "N/A";
   };
@@ -336,6 +384,14 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
     fetchCurrentUser();
   }, []);
 
+  // Refetch when this patient's transactions change elsewhere, so the derived status stays current
+  const [liveTransactionUpdates, setLiveTransactionUpdates] = useState(0);
+  useLiveRefresh(
+    event => event.type.startsWith('transaction.') && event.patientId === patient.id,
+    () => setLiveTransactionUpdates(prev => prev + 1),
+    !!currentUser?.dataSource
+  );
+
   // Fetch transactions for this patient when in Data Mode
   useEffect(() => {
     const fetchTransactions = async () => {
@@ -347,20 +403,8 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
 
       try {
         setLoadingTransactions(true);
-        const response = await fetch('/api/transactions', {
-          credentials: 'include'
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          if (data.success && data.transactions) {
-            // Filter transactions for this patient
-            const patientTransactions = data.transactions.filter(
-              (t: Transaction) => t.patientId === patient.id
-            );
-            setTransactions(patientTransactions);
-          }
-        }
+        const page = await queryTransactions<Transaction>({ patientId: patient.id, limit: 200 });
+        setTransactions(page.transactions);
       } catch (error) {
       } finally {
         setLoadingTransactions(false);
@@ -370,7 +414,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
     if (currentUser !== null) {
       fetchTransactions();
     }
-  }, [patient.id, currentUser, transactionRefreshTrigger]);
+  }, [patient.id, currentUser, transactionRefreshTrigger, liveTransactionUpdates]);
 
   // Initialize edited contact info and insurance from patient data
   React.useEffect(() => {
@@ -523,12 +567,9 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
             {/* Request Insurance Fax */}
             <button
               onClick={() => {
-                // Call the global openFaxModal function exposed by SmartAITransactionHistory
-                if (window.openFaxModal) {
-                  window.openFaxModal();
-                  // Also navigate to the AI Call History tab to show the modal
-                  onTabChange(TAB_TYPES.AI_CALL_HISTORY);
-                }
+                // SmartAITransactionHistory opens the fax modal; show its tab too
+                setFaxRequestTrigger(trigger => trigger + 1);
+                onTabChange(TAB_TYPES.AI_CALL_HISTORY);
               }}
               className="ml-3 px-3 py-1.5 rounded-lg flex items-center gap-1.5 text-xs font-medium transition-colors bg-slate-900 dark:bg-slate-800 text-white hover:bg-slate-800 dark:hover:bg-slate-700"
               title="Request insurance fax document"
@@ -668,6 +709,10 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
               if (tab === TAB_TYPES.INSURANCE_INFO) {
                 return false;
               }
+              // Documents are stored against a saved patient
+              if (tab === TAB_TYPES.DOCUMENTS && patient.id.startsWith('new-')) {
+                return false;
+              }
               // Hide Treatment History tab for non-admin users (keep Appointments visible)
               if (!isAdmin && tab === TAB_TYPES.TREATMENT_HISTORY) {
                 return false;
@@ -1237,6 +1282,30 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
         {/* Tab Content - Insurance Info */}
         {activeTab === TAB_TYPES.INSURANCE_INFO && (
           <TabContent>
+            {canEdit && (
+              <div className="flex items-center justify-between gap-4">
+                {pendingCardScans.length > 0 ? (
+                  <div className="flex-1 flex items-center justify-between gap-3 px-4 py-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg">
+                    <div className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-300">
+                      <span className="material-symbols-outlined text-lg">pending_actions</span>
+                      {pendingCardScans.length === 1
+                        ? '1 insurance card scan is waiting for review'
+                        : `${pendingCardScans.length} insurance card scans are waiting for review`}
+                    </div>
+                    <button
+                      onClick={() => openCardScan(pendingCardScans[0])}
+                      className="text-sm font-medium text-amber-800 dark:text-amber-300 hover:underline"
+                    >
+                      Review
+                    </button>
+                  </div>
+                ) : <div className="flex-1" />}
+                <button onClick={() => openCardScan(null)} className={PRIMARY_BUTTON}>
+                  <span className="material-symbols-outlined text-base">document_scanner</span>
+                  Scan Insurance Card
+                </button>
+              </div>
+            )}
             {(patient as any).insurance &&
               (patient as any).insurance.length > 0 ? (
               (patient as any).insurance.map(
@@ -1377,7 +1446,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
             {/* Verification Form Sub Tab */}
             {insuranceSubTab === INSURANCE_SUB_TAB_TYPES.VERIFICATION_FORM && (
               <TabContent>
-                <VerificationForm patient={patient} />
+                <VerificationForm patient={patient} dataMode={!!currentUser?.dataSource} />
               </TabContent>
             )}
 
@@ -1411,6 +1480,13 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
           </TabContent>
         )}
 
+        {/* Tab Content - Documents */}
+        {activeTab === TAB_TYPES.DOCUMENTS && (
+          <TabContent className="space-y-4">
+            <PatientDocuments patientId={patient.id} canEdit={canEdit} />
+          </TabContent>
+        )}
+
         {/* Tab Content - Treatment History */}
         {activeTab === TAB_TYPES.TREATMENT_HISTORY && (
           <TabContent className="space-y-4">
@@ -1449,9 +1525,9 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
         )}
 
         {/* Tab Content - AI Call History */}
-        {/* Always render SmartAITransactionHistory so window.openFaxModal is always available */}
+        {/* Always render SmartAITransactionHistory so the fax modal can open from any tab */}
         <div className={activeTab === TAB_TYPES.AI_CALL_HISTORY ? '' : 'hidden'}>
-          <SmartAITransactionHistory patientId={patient.id} refreshTrigger={transactionRefreshTrigger} />
+          <SmartAITransactionHistory patientId={patient.id} refreshTrigger={transactionRefreshTrigger} faxRequestTrigger={faxRequestTrigger} />
         </div>
       </div>
 
@@ -1481,6 +1557,18 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
         </div>
       )}
 
+      {/* Insurance Card Scan and Review Modal */}
+      <InsuranceCardUploadModal
+        isOpen={showCardScanModal}
+        onClose={() => {
+          setShowCardScanModal(false);
+          loadPendingCardScans();
+        }}
+        onReviewed={handleCardScanReviewed}
+        patientId={patient.id}
+        extraction={reviewingCardScan}
+      />
+
       {/* Smith AI Center Modal */}
       {showAICenter && (
         <SmithAICenter
@@ -1529,11 +1617,26 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
 
             {/* Upload Area */}
             <div className="mb-6">
+              <div className="flex items-center gap-3 mb-3">
+                <label htmlFor="document-upload-category" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                  Document type
+                </label>
+                <select
+                  id="document-upload-category"
+                  value={uploadCategory}
+                  onChange={(e) => setUploadCategory(e.target.value as DocumentCategory)}
+                  className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white"
+                >
+                  {Object.entries(DOCUMENT_CATEGORY_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
               <label className="block w-full">
                 <div className="border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-lg p-8 text-center hover:border-purple-500 dark:hover:border-purple-400 transition-colors cursor-pointer">
                   <div className="flex flex-col items-center gap-3">
-                    <span className="material-symbols-outlined text-5xl text-slate-400">
-                      upload_file
+                    <span className={`material-symbols-outlined text-5xl text-slate-400 ${isUploadingDocuments ? 'animate-spin' : ''}`}>
+                      {isUploadingDocuments ? 'progress_activity' : 'upload_file'}
                     </span>
                     <div>
                       <p className="text-sm font-medium text-slate-700 dark:text-slate-300">
@@ -1550,10 +1653,18 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
                     accept=".pdf,.jpg,.jpeg,.png"
                     onChange={handleDocumentUpload}
                     className="hidden"
-                    disabled={uploadedDocuments.length >= 3}
+                    disabled={uploadedDocuments.length >= 3 || isUploadingDocuments}
                   />
                 </div>
               </label>
+              {documentUploadError && (
+                <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                  <div className="flex items-start gap-2">
+                    <span className="material-symbols-outlined text-red-600 dark:text-red-400 text-lg">error</span>
+                    <p className="text-sm text-red-600 dark:text-red-400 font-medium">{documentUploadError}</p>
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Uploaded Documents List */}
@@ -1562,9 +1673,9 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
                 <p className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-3">
                   Uploaded Documents ({uploadedDocuments.length}/3)
                 </p>
-                {uploadedDocuments.map((file, index) => (
+                {uploadedDocuments.map((document, index) => (
                   <div
-                    key={index}
+                    key={document.id}
                     className="flex items-center justify-between p-3 bg-slate-50 dark:bg-slate-800 rounded-lg border border-slate-200 dark:border-slate-700"
                   >
                     <div className="flex items-center gap-3">
@@ -1573,10 +1684,10 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
                       </span>
                       <div>
                         <p className="text-sm font-medium text-slate-900 dark:text-white">
-                          {file.name}
+                          {document.fileName}
                         </p>
                         <p className="text-xs text-slate-500 dark:text-slate-400">
-                          {(file.size / 1024).toFixed(2)} KB
+                          {DOCUMENT_CATEGORY_LABELS[document.category]} · {(document.versions[0].size / 1024).toFixed(2)} KB
                         </p>
                       </div>
                     </div>
@@ -1596,8 +1707,8 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
               <div className="flex gap-3">
                 <span className="material-symbols-outlined text-blue-600 dark:text-blue-400 text-base">info</span>
                 <p className="text-xs text-blue-700 dark:text-blue-300">
-                  For demo purposes, you can start the analysis process even without uploading documents.
-                  The AI will simulate document processing and extraction.
+                  PDFs and images are read page by page, with OCR for scanned pages. Without uploads,
+                  the patient's stored EOBs and benefit sheets are analyzed.
                 </p>
               </div>
             </div>
@@ -1608,6 +1719,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
                 onClick={() => {
                   setShowDocumentUploadModal(false);
                   setUploadedDocuments([]);
+                  setDocumentUploadError('');
                 }}
                 className="flex-1 px-4 py-2.5 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 text-sm font-medium transition-colors"
               >
@@ -1641,7 +1753,7 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
                   AI Document Analysis
                 </h3>
                 <p className="text-sm text-slate-500 dark:text-slate-400">
-                  Processing and extracting data
+                  Reading documents and extracting benefits
                 </p>
               </div>
             </div>
@@ -1683,13 +1795,52 @@ const PatientDetail: React.FC<PatientDetailProps> = ({
                 <span className="w-2 h-2 bg-purple-500 rounded-full animate-pulse"></span>
                 <span>OCR Processing</span>
               </div>
-              {analysisProgress === 100 && (
+              {analysisJob?.status === 'completed' && (
                 <div className="flex items-center gap-2 text-xs text-green-600 dark:text-green-400 ml-auto">
                   <span className="material-symbols-outlined text-sm">check_circle</span>
                   <span className="font-semibold">Complete</span>
                 </div>
               )}
             </div>
+
+            {/* Extracted Fields */}
+            {analysisJob?.result && (
+              <div className="mt-4 max-h-64 overflow-y-auto space-y-1">
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                  {analysisJob.result.pages} page(s) read, {analysisJob.result.ocrPages} by OCR
+                </p>
+                {analysisJob.result.rows.filter(row => row.missing === 'N').map(row => (
+                  <div key={row.saiCode} className="flex items-center justify-between gap-3 px-3 py-1.5 bg-slate-50 dark:bg-slate-800 rounded text-xs">
+                    <span className="text-slate-600 dark:text-slate-400">{row.fieldName}</span>
+                    <span className="flex items-center gap-2">
+                      {row.preStepValue && row.preStepValue !== row.aiCallValue && (
+                        <span className="text-slate-400 line-through">{row.preStepValue}</span>
+                      )}
+                      <span className="font-semibold text-slate-900 dark:text-white">{row.aiCallValue}</span>
+                      <span className={row.confidence < 70 ? 'text-status-orange' : 'text-slate-400'}>{row.confidence}%</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {analysisError && (
+              <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <div className="flex items-start gap-2">
+                  <span className="material-symbols-outlined text-red-600 dark:text-red-400 text-lg">error</span>
+                  <p className="text-sm text-red-600 dark:text-red-400 font-medium">{analysisError}</p>
+                </div>
+              </div>
+            )}
+
+            {(analysisError || analysisJob?.status === 'completed') && (
+              <button
+                onClick={handleCloseDocumentAnalysis}
+                className="mt-4 w-full px-4 py-2.5 bg-slate-200 dark:bg-slate-700 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 text-sm font-medium transition-colors"
+              >
+                Close
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -3,6 +3,7 @@ import { useLocation } from 'wouter';
 import PatientList from './PatientList';
 import PatientDetail from './PatientDetail';
 import Header from '@/components/Header';
+import { useLiveEvents } from '@/hooks/use-live-events';
 import { Patient, FilterType, TabType, TAB_TYPES } from '@/types/patient';
 import patientsDataMockup from '@mockupdata/patients.json';
 
@@ -69,6 +70,14 @@ const PatientDetailPage: React.FC = () => {
     }
   };
 
+  // Verification progress made by jobs and other users shows up without a reload
+  useLiveEvents(event => {
+    if (event.type !== 'verification-status.updated') return;
+    setPatients(prev => prev.map(patient =>
+      patient.id === event.patientId ? { ...patient, verificationStatus: event.steps } : patient
+    ));
+  }, useDatabase, fetchPatientsFromDatabase);
+
   // Extract patientId from URL query params
   useEffect(() => {
     if (isLoading || patients.length === 0) return;
@@ -234,6 +243,7 @@ const PatientDetailPage: React.FC = () => {
               isAdmin={false}
               canEdit={useDatabase}
               onSavePatient={handleSavePatient}
+              onPatientUpdated={fetchPatientsFromDatabase}
               onBackToScheduleJobs={handleBackToDashboard}
             />
           </div>
@@ -0,0 +1,254 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PRIMARY_BUTTON } from '@/styles/buttonStyles';
+import { PDFViewerWithModal } from './PDFViewer';
+import { ImageViewerWithModal } from './ImageViewer';
+import {
+  DOCUMENT_CATEGORY_LABELS,
+  documentContentUrl,
+  documentThumbnailUrl,
+  fetchPatientDocuments,
+  uploadPatientDocument,
+  uploadDocumentVersion,
+  deletePatientDocument,
+  type DocumentCategory,
+  type PatientDocument
+} from '@/services/documentService';
+
+interface PatientDocumentsProps {
+  patientId: string;
+  canEdit: boolean;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Stored card images, EOBs and faxed benefit sheets for one patient, with their versions
+const PatientDocuments: React.FC<PatientDocumentsProps> = ({ patientId, canEdit }) => {
+  const [documents, setDocuments] = useState<PatientDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [category, setCategory] = useState<DocumentCategory>('eob');
+  const [viewing, setViewing] = useState<{ id: string; version: number } | null>(null);
+  const versionInput = useRef<HTMLInputElement>(null);
+  const [versionTarget, setVersionTarget] = useState<string | null>(null);
+
+  const loadDocuments = async () => {
+    try {
+      setDocuments(await fetchPatientDocuments(patientId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch documents');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    setViewing(null);
+    loadDocuments();
+  }, [patientId]);
+
+  const runSave = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await action();
+      await loadDocuments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save document');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    runSave(async () => {
+      const document = await uploadPatientDocument(patientId, category, file);
+      setViewing({ id: document.id, version: document.currentVersion });
+    });
+  };
+
+  const handleNewVersion = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !versionTarget) return;
+    runSave(async () => {
+      const document = await uploadDocumentVersion(versionTarget, file);
+      setViewing({ id: document.id, version: document.currentVersion });
+    });
+  };
+
+  const handleDelete = (document: PatientDocument) => {
+    if (!window.confirm(`Delete ${document.fileName} and all of its versions?`)) {
+      return;
+    }
+    runSave(async () => {
+      await deletePatientDocument(document.id);
+      if (viewing?.id === document.id) setViewing(null);
+    });
+  };
+
+  const viewedDocument = viewing && documents.find(d => d.id === viewing.id);
+  const viewedVersion = viewedDocument?.versions.find(v => v.version === viewing?.version);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-slate-900 dark:text-white">
+          Documents
+        </h3>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as DocumentCategory)}
+              disabled={isSaving}
+              className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white"
+            >
+              {Object.entries(DOCUMENT_CATEGORY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <label className={`${PRIMARY_BUTTON} cursor-pointer ${isSaving ? 'opacity-50 pointer-events-none' : ''}`}>
+              <span className="material-symbols-outlined text-sm">upload_file</span>
+              <span>Upload Document</span>
+              <input type="file" accept=".pdf,.jpg,.jpeg,.png" onChange={handleUpload} className="hidden" />
+            </label>
+          </div>
+        )}
+      </div>
+
+      {/* Shared picker for "New Version"; versionTarget says which document it is for */}
+      <input ref={versionInput} type="file" accept=".pdf,.jpg,.jpeg,.png" onChange={handleNewVersion} className="hidden" />
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <div className="flex items-start gap-2">
+            <span className="material-symbols-outlined text-red-600 dark:text-red-400 text-lg">error</span>
+            <p className="text-sm text-red-600 dark:text-red-400 font-medium">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <span className="material-symbols-outlined animate-spin text-4xl text-slate-400">progress_activity</span>
+        </div>
+      ) : documents.length === 0 ? (
+        <div className="border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-12 text-center">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            No documents stored for this patient. Scanned insurance cards are kept here automatically.
+          </p>
+        </div>
+      ) : (
+        <div className="border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 divide-y divide-slate-200 dark:divide-slate-700">
+          {documents.map((document) => {
+            const current = document.versions[0];
+            const isViewing = viewing?.id === document.id;
+            return (
+              <div key={document.id} className={`flex items-center gap-4 p-4 ${isViewing ? 'bg-slate-50 dark:bg-slate-800/50' : ''}`}>
+                <div className="w-16 h-12 shrink-0 rounded border border-slate-200 dark:border-slate-700 bg-slate-100 dark:bg-slate-800 overflow-hidden flex items-center justify-center">
+                  {current?.hasThumbnail ? (
+                    <img src={documentThumbnailUrl(document.id)} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="material-symbols-outlined text-slate-400">
+                      {document.mimeType === 'application/pdf' ? 'picture_as_pdf' : 'description'}
+                    </span>
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{document.fileName}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {DOCUMENT_CATEGORY_LABELS[document.category] || document.category}
+                    {' · '}Version {document.currentVersion}
+                    {current && ` · ${formatSize(current.size)}`}
+                    {' · '}{new Date(document.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => setViewing(isViewing ? null : { id: document.id, version: document.currentVersion })}
+                    className="px-3 py-1.5 text-xs font-medium rounded-md text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  >
+                    {isViewing ? 'Hide' : 'View'}
+                  </button>
+                  <a
+                    href={documentContentUrl(document.id, undefined, true)}
+                    className="px-3 py-1.5 text-xs font-medium rounded-md text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800"
+                  >
+                    Download
+                  </a>
+                  {canEdit && (
+                    <>
+                      <button
+                        onClick={() => {
+                          setVersionTarget(document.id);
+                          versionInput.current?.click();
+                        }}
+                        disabled={isSaving}
+                        className="px-3 py-1.5 text-xs font-medium rounded-md text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-50"
+                      >
+                        New Version
+                      </button>
+                      <button
+                        onClick={() => handleDelete(document)}
+                        disabled={isSaving}
+                        className="p-1.5 text-red-500 hover:text-red-700 dark:hover:text-red-400 disabled:opacity-50"
+                        title="Delete document"
+                      >
+                        <span className="material-symbols-outlined text-lg">delete</span>
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Viewer for the selected document and version */}
+      {viewedDocument && viewedVersion && (
+        <div className="border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 p-4 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm font-medium text-slate-900 dark:text-white truncate">{viewedVersion.fileName}</p>
+            {viewedDocument.versions.length > 1 && (
+              <select
+                value={viewedVersion.version}
+                onChange={(e) => setViewing({ id: viewedDocument.id, version: Number(e.target.value) })}
+                className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-xs text-slate-900 dark:text-white"
+              >
+                {viewedDocument.versions.map(v => (
+                  <option key={v.version} value={v.version}>
+                    Version {v.version} · {new Date(v.createdAt).toLocaleDateString()}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          {viewedVersion.mimeType === 'application/pdf' ? (
+            <PDFViewerWithModal
+              key={`${viewedDocument.id}-${viewedVersion.version}`}
+              pdfUrl={documentContentUrl(viewedDocument.id, viewedVersion.version)}
+              title={viewedVersion.fileName}
+            />
+          ) : (
+            <ImageViewerWithModal
+              key={`${viewedDocument.id}-${viewedVersion.version}`}
+              imageUrl={documentContentUrl(viewedDocument.id, viewedVersion.version)}
+              alt={viewedVersion.fileName}
+              title={viewedVersion.fileName}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PatientDocuments;
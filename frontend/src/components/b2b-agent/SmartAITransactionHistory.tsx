@@ -2,6 +2,17 @@ import React, { useState, useEffect, useRef } from 'react';
 import { VERIFICATION_STATUS_LABELS } from '@/constants/verificationStatus';
 import { getTransactionTypeColor } from '@/constants/transactionTypes';
 import { ImageViewerWithModal } from './ImageViewer';
+import { PDFViewerWithModal } from './PDFViewer';
+import { queryTransactions } from '@/services/transactionService';
+import { useLiveRefresh } from '@/hooks/use-live-events';
+import { requestBenefitFax, fetchFax, type Fax } from '@/services/faxService';
+import {
+  documentContentUrl,
+  fetchPatientDocuments,
+  watchDocumentAnalysis,
+  type DocumentAnalysisJob,
+  type PatientDocument
+} from '@/services/documentService';
 
 interface CallCommunication {
   timestamp: string;
@@ -284,24 +295,23 @@ export const mockData: Transaction[] = [
 type FaxStep = 'idle' | 'step1' | 'step2' | 'step3' | 'completed';
 type StepStatus = 'pending' | 'in_progress' | 'completed';
 
-// Create a global interface to expose fax functionality
-declare global {
-  interface Window {
-    openFaxModal?: () => void;
-  }
-}
+// How often a sent fax is checked for the payer's reply
+const FAX_POLL_INTERVAL_MS = 3000;
 
 interface SmartAITransactionHistoryProps {
   patientId?: string;
   refreshTrigger?: number;
+  faxRequestTrigger?: number; // Incremented to start a fax benefit request
 }
 
-const SmartAITransactionHistory: React.FC<SmartAITransactionHistoryProps> = ({ patientId, refreshTrigger }) => {
+const SmartAITransactionHistory: React.FC<SmartAITransactionHistoryProps> = ({ patientId, refreshTrigger, faxRequestTrigger }) => {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [typeFilter, setTypeFilter] = useState<'ALL' | 'API' | 'CALL' | 'FAX'>('ALL');
   const [activeDetailTab, setActiveDetailTab] = useState<{[key: string]: string}>({});
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
 
   // Fax modal states
@@ -314,6 +324,14 @@ const SmartAITransactionHistory: React.FC<SmartAITransactionHistoryProps> = ({ p
   const [step3Text, setStep3Text] = useState("");
   const contentRef = useRef<HTMLDivElement>(null);
 
+  // Fax benefit request in data mode
+  const [faxRequest, setFaxRequest] = useState<Fax | null>(null);
+  const [faxReplyDocument, setFaxReplyDocument] = useState<PatientDocument | null>(null);
+  const [faxStatusMessage, setFaxStatusMessage] = useState('');
+  const [faxError, setFaxError] = useState<string | null>(null);
+  const [faxAnalysis, setFaxAnalysis] = useState<DocumentAnalysisJob | null>(null);
+  const stopFaxRequest = useRef<(() => void) | null>(null);
+
   // Fetch current user to check data mode
   useEffect(() => {
     const fetchCurrentUser = async () => {
@@ -347,10 +365,14 @@ const SmartAITransactionHistory: React.FC<SmartAITransactionHistoryProps> = ({ p
     })).filter((txn: Transaction) => !patientId || txn.patientId === patientId);
   };
 
-  // Fetch transactions from API or use mock data
-  const fetchTransactions = async () => {
+  // Fetch transactions from API or use mock data; a cursor appends the next page
+  const fetchTransactions = async (cursor?: string) => {
     try {
-      setLoading(true);
+      if (cursor) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
 
       // Check if data mode is enabled
       const dataMode = currentUser?.dataSource;
@@ -358,40 +380,28 @@ const SmartAITransactionHistory: React.FC<SmartAITransactionHistoryProps> = ({ p
       if (!dataMode) {
         // Data mode is OFF - use mock data
         setTransactions(getMockTransactions());
-        setLoading(false);
+        setNextCursor(null);
         return;
       }
 
-      // Data mode is ON - fetch from database
-
-      const response = await fetch('/api/transactions', {
-        credentials: 'include'
+      // Data mode is ON - fetch from database, filtered server-side
+      const page = await queryTransactions<Transaction>({
+        patientId,
+        type: typeFilter === 'ALL' ? undefined : [typeFilter],
+        cursor
       });
 
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error('Failed to fetch transactions');
-      }
-
-      const data = await response.json();
-
-      if (data.success && data.transactions) {
-
-        // Filter by patient if patientId is provided
-        const filteredTransactions = patientId
-          ? data.transactions.filter((t: Transaction) => t.patientId === patientId)
-          : data.transactions;
-
-        setTransactions(filteredTransactions);
-      } else {
-        setTransactions([]);
-      }
+      setTransactions(prev => cursor ? [...prev, ...page.transactions] : page.transactions);
+      setNextCursor(page.hasMore ? page.nextCursor : null);
     } catch (error) {
       // Fallback to empty array on error
-      setTransactions([]);
+      if (!cursor) {
+        setTransactions([]);
+        setNextCursor(null);
+      }
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
@@ -399,7 +409,14 @@ const SmartAITransactionHistory: React.FC<SmartAITransactionHistoryProps> = ({ p
     if (currentUser !== null) {
       fetchTransactions();
     }
-  }, [patientId, refreshTrigger, currentUser]);
+  }, [patientId, refreshTrigger, currentUser, typeFilter]);
+
+  // Transactions written by jobs, other users or other tabs
+  useLiveRefresh(
+    event => event.type.startsWith('transaction.') && (!patientId || event.patientId === patientId),
+    () => fetchTransactions(),
+    !!currentUser?.dataSource
+  );
 
   const toggleExpand = (id: string) => {
     setExpandedId(expandedId === id ? null : id);
@@ -528,8 +545,109 @@ Important Notes
     { saiCode: "VF000010", refInsCode: "D010", category: "Benefit", fieldName: "Annual Maximum", preStepValue: "$2,000", missing: "N", aiCallValue: "$2,000", verifiedBy: "FAX" },
   ];
 
+  // Step 3 shows the fields read from the reply in data mode, the sample rows otherwise
+  const isLiveFax = !!(currentUser?.dataSource && patientId);
+  const faxRows: { saiCode: string; category: string; fieldName: string; aiCallValue: string; missing: string; verifiedBy: string; confidence?: number }[] =
+    isLiveFax ? (faxAnalysis?.result?.rows || []) : verificationDataRows;
+  const faxStats = (() => {
+    if (!isLiveFax) {
+      return { verified: '10', completion: '100%', processingTime: '512ms', confidence: '98%' };
+    }
+    const found = faxRows.filter(row => row.missing === 'N');
+    const confidence = found.length ? Math.round(found.reduce((sum, row) => sum + (row.confidence ?? 0), 0) / found.length) : 0;
+    const elapsed = faxAnalysis?.finishedAt ? new Date(faxAnalysis.finishedAt).getTime() - new Date(faxAnalysis.startedAt).getTime() : 0;
+    return {
+      verified: String(found.length),
+      completion: faxRows.length ? `${Math.round((found.length / faxRows.length) * 100)}%` : '0%',
+      processingTime: elapsed >= 1000 ? `${(elapsed / 1000).toFixed(1)}s` : `${elapsed}ms`,
+      confidence: `${confidence}%`,
+    };
+  })();
+
+  // Send a benefit request, wait for the payer's reply, then follow the server's analysis of it
+  const startFaxRequest = async (patientId: string) => {
+    let cancelled = false;
+    let stopWatching: (() => void) | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    stopFaxRequest.current = () => {
+      cancelled = true;
+      clearTimeout(pollTimer);
+      stopWatching?.();
+    };
+
+    const fail = (message: string) => {
+      if (cancelled) return;
+      setFaxError(message);
+      fetchTransactions();
+    };
+
+    setCurrentFaxStep('step1');
+    setStep1Status('in_progress');
+    setFaxStatusMessage('Sending benefit request to the payer...');
+
+    let fax: Fax;
+    try {
+      fax = await requestBenefitFax(patientId);
+    } catch (error) {
+      return fail(error instanceof Error ? error.message : 'Failed to send fax');
+    }
+    if (cancelled) return;
+    setFaxRequest(fax);
+    setFaxStatusMessage(`Request ${fax.reference} sent. Waiting for the payer to fax back...`);
+    fetchTransactions();
+
+    // Poll until the reply arrives
+    let reply: Fax | null = null;
+    let analysis: DocumentAnalysisJob | null = null;
+    while (!reply) {
+      await new Promise(resolve => { pollTimer = setTimeout(resolve, FAX_POLL_INTERVAL_MS); });
+      if (cancelled) return;
+      try {
+        const latest = await fetchFax(fax.id);
+        if (latest.fax.status === 'failed') {
+          return fail(latest.fax.errorMessage || 'The fax could not be sent');
+        }
+        reply = latest.reply;
+        analysis = latest.analysis;
+      } catch (error) {
+        return fail(error instanceof Error ? error.message : 'Failed to check the fax');
+      }
+    }
+    if (cancelled || !reply.documentId) return;
+
+    const documents = await fetchPatientDocuments(patientId).catch(() => []);
+    if (cancelled) return;
+    setFaxReplyDocument(documents.find(document => document.id === reply!.documentId) || null);
+    setStep1Status('completed');
+    fetchTransactions();
+
+    // The server starts reading the reply as soon as it is filed
+    setCurrentFaxStep('step2');
+    setStep2Status('in_progress');
+    if (!analysis) {
+      return fail(reply.errorMessage || 'The reply is on file but no analysis of it was found');
+    }
+    setFaxAnalysis(analysis);
+    stopWatching = watchDocumentAnalysis(analysis.id, update => {
+      setFaxAnalysis(update);
+      if (update.status === 'running') return;
+      if (update.status === 'failed') {
+        fail(update.errorMessage || 'Document analysis failed');
+        return;
+      }
+      setStep2Status('completed');
+      setCurrentFaxStep('step3');
+      setStep3Status('completed');
+      fetchTransactions();
+    }, fail);
+  };
+
   // Start fax verification process
   const startFaxVerification = async () => {
+    if (currentUser?.dataSource && patientId) {
+      return startFaxRequest(patientId);
+    }
+
     setCurrentFaxStep('step1');
     // Show loading state first for 10 seconds
     setStep1Status('in_progress');
@@ -560,13 +678,7 @@ Important Notes
 
   // Open fax modal handler
   const handleRequestFaxDocument = () => {
-    setCurrentFaxStep('idle');
-    setStep1Status('pending');
-    setStep2Status('pending');
-    setStep3Status('pending');
-    setStep1Text('');
-    setStep2Text('');
-    setStep3Text('');
+    resetFaxModal();
 
     setTimeout(() => {
       startFaxVerification();
@@ -575,6 +687,13 @@ Important Notes
 
   // Reset fax modal
   const resetFaxModal = () => {
+    stopFaxRequest.current?.();
+    stopFaxRequest.current = null;
+    setFaxRequest(null);
+    setFaxReplyDocument(null);
+    setFaxStatusMessage('');
+    setFaxError(null);
+    setFaxAnalysis(null);
     setCurrentFaxStep('idle');
     setStep1Status('pending');
     setStep2Status('pending');
@@ -584,15 +703,15 @@ Important Notes
     setStep3Text('');
   };
 
-  // Expose fax modal function globally
+  // Open the fax modal when the patient page asks for a fax
   useEffect(() => {
-    window.openFaxModal = () => {
+    if (faxRequestTrigger) {
       handleRequestFaxDocument();
-    };
-    return () => {
-      delete window.openFaxModal;
-    };
-  }, []);
+    }
+  }, [faxRequestTrigger]);
+
+  // Stop waiting for a reply when the patient page closes
+  useEffect(() => () => stopFaxRequest.current?.(), []);
 
   // Format transcript with styling
   const formatTranscript = (transcript: string) => {
@@ -758,7 +877,7 @@ Important Notes
         {/* Results Count */}
         <div className="ml-auto flex items-center gap-2">
           <button
-            onClick={fetchTransactions}
+            onClick={() => fetchTransactions()}
             disabled={loading}
             className="px-2 py-0.5 rounded text-[10px] font-medium text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors flex items-center gap-1 disabled:opacity-50"
             title="Refresh transactions"
@@ -1087,6 +1206,19 @@ Important Notes
             ))
           )}
         </div>
+
+        {/* Load More */}
+        {!loading && nextCursor && (
+          <div className="p-3 border-t border-slate-200 dark:border-slate-700 text-center">
+            <button
+              onClick={() => fetchTransactions(nextCursor)}
+              disabled={loadingMore}
+              className="px-3 py-1 rounded text-xs font-medium text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Fax Document Request Modal - 2 Step Process */}
@@ -1104,7 +1236,7 @@ Important Notes
                     Insurance Fax Verification
                   </h2>
                   <p className="text-sm text-slate-600 dark:text-slate-400">
-                    Sarah Johnson
+                    {isLiveFax ? (faxRequest?.reference ? `Request ${faxRequest.reference}` : 'Benefit breakdown request') : 'Sarah Johnson'}
                   </p>
                 </div>
               </div>
@@ -1185,6 +1317,12 @@ Important Notes
 
             {/* Content Area */}
             <div ref={contentRef} className="flex-1 overflow-y-auto p-6">
+              {faxError && (
+                <div className="mb-6 px-4 py-3 rounded border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                  {faxError}
+                </div>
+              )}
+
               {/* Step 1: Fax Data */}
               {step1Status !== 'pending' && (
                 <div className="space-y-4 mb-6">
@@ -1200,7 +1338,25 @@ Important Notes
                     {step1Status === 'in_progress' ? 'Processing fax document...' : 'Fax received from insurance carrier'}
                   </p>
 
-                  {step1Status === 'in_progress' ? (
+                  {isLiveFax ? (
+                    step1Status === 'in_progress' ? (
+                      <div className="bg-slate-50 dark:bg-slate-800 p-12 rounded border border-slate-200 dark:border-slate-700 flex flex-col items-center justify-center gap-4">
+                        <span className="material-symbols-outlined text-6xl text-blue-500 animate-pulse">fax</span>
+                        <p className="text-sm text-slate-900 dark:text-white font-semibold text-center">{faxStatusMessage}</p>
+                        {faxRequest?.remoteNumber && (
+                          <p className="text-xs text-slate-500 dark:text-slate-400">Payer fax {faxRequest.remoteNumber}</p>
+                        )}
+                      </div>
+                    ) : faxReplyDocument ? (
+                      <div className="bg-slate-50 dark:bg-slate-800 p-4 rounded border border-slate-200 dark:border-slate-700">
+                        {faxReplyDocument.mimeType === 'application/pdf' ? (
+                          <PDFViewerWithModal pdfUrl={documentContentUrl(faxReplyDocument.id)} firstPageMaxWidth="100%" title={faxReplyDocument.fileName} />
+                        ) : (
+                          <ImageViewerWithModal imageUrl={documentContentUrl(faxReplyDocument.id)} firstPageMaxWidth="100%" alt={faxReplyDocument.fileName} />
+                        )}
+                      </div>
+                    ) : null
+                  ) : step1Status === 'in_progress' ? (
                     <div className="bg-slate-50 dark:bg-slate-800 p-12 rounded border border-slate-200 dark:border-slate-700 flex flex-col items-center justify-center gap-6">
                       {/* Animated Document Icon */}
                       <div className="relative w-16 h-20 mb-2">
@@ -1258,9 +1414,26 @@ Important Notes
                   </div>
                   <p className="text-xs text-slate-600 dark:text-slate-400 mb-3">Extracted and analyzed coverage details</p>
 
-                  <div className="bg-slate-50 dark:bg-slate-800 text-slate-900 dark:text-slate-100 p-4 rounded border border-slate-200 dark:border-slate-700 font-mono text-xs overflow-x-auto whitespace-pre-wrap">
-                    {step2Text}
-                  </div>
+                  {isLiveFax ? (
+                    <div className="bg-slate-50 dark:bg-slate-800 p-4 rounded border border-slate-200 dark:border-slate-700 space-y-2">
+                      <div className="flex justify-between text-xs text-slate-600 dark:text-slate-400">
+                        <span>{faxAnalysis?.message || 'Starting document analysis...'}</span>
+                        <span>{faxAnalysis?.progress ?? 0}%</span>
+                      </div>
+                      <div className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500 rounded-full transition-all" style={{ width: `${faxAnalysis?.progress ?? 0}%` }}></div>
+                      </div>
+                      {faxAnalysis?.result && (
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          Read {faxAnalysis.result.pages} page{faxAnalysis.result.pages === 1 ? '' : 's'}, {faxAnalysis.result.ocrPages} by OCR
+                        </p>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="bg-slate-50 dark:bg-slate-800 text-slate-900 dark:text-slate-100 p-4 rounded border border-slate-200 dark:border-slate-700 font-mono text-xs overflow-x-auto whitespace-pre-wrap">
+                      {step2Text}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -1287,17 +1460,24 @@ Important Notes
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
-                        {verificationDataRows.map((row, idx) => (
+                        {faxRows.map((row, idx) => (
                           <tr key={idx} className="hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors">
                             <td className="px-3 py-2 text-slate-700 dark:text-slate-300 font-mono text-xs">{row.saiCode}</td>
                             <td className="px-3 py-2 text-slate-600 dark:text-slate-400 text-xs">{row.category}</td>
                             <td className="px-3 py-2 text-slate-700 dark:text-slate-300 text-xs font-medium">{row.fieldName}</td>
                             <td className="px-3 py-2 text-slate-700 dark:text-slate-300 text-xs">{row.aiCallValue}</td>
                             <td className="px-3 py-2 text-center">
-                              <span className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
-                                <span className="material-symbols-outlined text-sm">check_circle</span>
-                                Verified
-                              </span>
+                              {row.missing === 'N' ? (
+                                <span className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                                  <span className="material-symbols-outlined text-sm">check_circle</span>
+                                  Verified
+                                </span>
+                              ) : (
+                                <span className="inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                                  <span className="material-symbols-outlined text-sm">help</span>
+                                  Missing
+                                </span>
+                              )}
                             </td>
                             <td className="px-3 py-2 text-center text-slate-600 dark:text-slate-400 text-xs font-medium">{row.verifiedBy}</td>
                           </tr>
@@ -1309,19 +1489,19 @@ Important Notes
                   {/* Summary Stats */}
                   <div className="grid grid-cols-4 gap-3 mt-4">
                     <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg p-3 text-center">
-                      <div className="text-2xl font-bold text-green-600 dark:text-green-400">10</div>
+                      <div className="text-2xl font-bold text-green-600 dark:text-green-400">{faxStats.verified}</div>
                       <div className="text-xs text-green-700 dark:text-green-300 font-medium mt-1">Verified Fields</div>
                     </div>
                     <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 text-center">
-                      <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">100%</div>
+                      <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{faxStats.completion}</div>
                       <div className="text-xs text-blue-700 dark:text-blue-300 font-medium mt-1">Completion Rate</div>
                     </div>
                     <div className="bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg p-3 text-center">
-                      <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">512ms</div>
+                      <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">{faxStats.processingTime}</div>
                       <div className="text-xs text-purple-700 dark:text-purple-300 font-medium mt-1">Processing Time</div>
                     </div>
                     <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3 text-center">
-                      <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">98%</div>
+                      <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">{faxStats.confidence}</div>
                       <div className="text-xs text-amber-700 dark:text-amber-300 font-medium mt-1">Confidence</div>
                     </div>
                   </div>
@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import type { VerificationFormData } from '@/types/patient';
+import {
+  readFieldValue,
+  writeFieldValue,
+  type TemplateField,
+  type TemplateFieldValue,
+  type TemplateSection,
+} from '@shared/verification-form-template';
+
+interface TemplateFormSectionsProps {
+  sections: TemplateSection[];
+  data: VerificationFormData; // Shown values, or the edited ones while editing
+  isEditing: boolean;
+  withheld: string[]; // Fields hidden for the user's role
+  onChange: (data: VerificationFormData) => void;
+}
+
+const inputClass = "w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary";
+
+const PLACEHOLDERS: Partial<Record<TemplateField['type'], string>> = {
+  date: 'MM/DD/YYYY',
+  percent: 'e.g. 80',
+  amount: 'e.g. $1,500',
+};
+
+function displayValue(field: TemplateField, value: TemplateFieldValue | undefined): string {
+  if (field.type === 'yes-no') return value === true ? 'Yes' : 'No';
+  const text = typeof value === 'string' ? value : '';
+  return field.type === 'percent' && text && !text.endsWith('%') ? `${text}%` : text;
+}
+
+/**
+ * The verification form laid out by a template: one collapsible section per template section
+ */
+const TemplateFormSections: React.FC<TemplateFormSectionsProps> = ({ sections, data, isEditing, withheld, onChange }) => {
+  const [collapsed, setCollapsed] = useState<{ [title: string]: boolean }>({});
+
+  const renderInput = (field: TemplateField) => {
+    const value = readFieldValue(data, field.key);
+    const set = (next: TemplateFieldValue) => onChange(writeFieldValue(data, field.key, next));
+
+    if (field.type === 'yes-no') {
+      return (
+        <div className="flex gap-4 items-center h-10">
+          {[true, false].map(option => (
+            <label key={String(option)} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name={`template-${field.key}`}
+                checked={value === option}
+                onChange={() => set(option)}
+              />
+              <span className="text-sm text-slate-700 dark:text-slate-300">{option ? 'Yes' : 'No'}</span>
+            </label>
+          ))}
+        </div>
+      );
+    }
+    const text = typeof value === 'string' ? value : '';
+    if (field.type === 'textarea') {
+      return <textarea rows={3} className={inputClass} value={text} onChange={(e) => set(e.target.value)} />;
+    }
+    if (field.type === 'select') {
+      return (
+        <select className={inputClass} value={text} onChange={(e) => set(e.target.value)}>
+          <option value="">Select...</option>
+          {field.options?.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        type="text"
+        className={inputClass}
+        value={text}
+        placeholder={PLACEHOLDERS[field.type]}
+        onChange={(e) => set(e.target.value)}
+      />
+    );
+  };
+
+  return (
+    <>
+      {sections.map(section => (
+        <div key={section.title} className="border-2 border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden bg-white dark:bg-slate-900">
+          <button
+            onClick={() => setCollapsed(prev => ({ ...prev, [section.title]: !prev[section.title] }))}
+            className="w-full px-4 py-3 flex items-center gap-2 hover:bg-primary/5 dark:hover:bg-primary/10 transition-all group border-b-2 border-slate-200 dark:border-slate-700"
+          >
+            <span className="material-symbols-outlined text-slate-500 dark:text-slate-400 group-hover:text-primary transition-colors">
+              {collapsed[section.title] ? 'expand_more' : 'expand_less'}
+            </span>
+            <h4 className="font-semibold text-slate-900 dark:text-white text-sm">
+              {section.title.toUpperCase()}
+            </h4>
+          </button>
+          {!collapsed[section.title] && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4">
+              {section.fields.map(field => (
+                <div key={field.key} className={field.type === 'textarea' ? 'md:col-span-3' : undefined}>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                    {field.label}
+                    {field.required && <span className="text-red-500 ml-0.5">*</span>}
+                  </label>
+                  {withheld.includes(field.key) ? (
+                    <p className="w-full px-3 py-2 text-slate-400 dark:text-slate-500 italic">Hidden for your role</p>
+                  ) : isEditing ? (
+                    renderInput(field)
+                  ) : (
+                    <p className="w-full px-3 py-2 text-slate-900 dark:text-white whitespace-pre-wrap">
+                      {displayValue(field, readFieldValue(data, field.key))}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default TemplateFormSections;
@@ -1,18 +1,45 @@
 import React, { useRef, useState } from "react";
-import { Patient } from '@/types/patient';
+import { Patient, VerificationFormData } from '@/types/patient';
+import { useToast } from '@/hooks/use-toast';
+import { recordPhiAccess } from '@/services/auditService';
+import {
+  fetchVerificationForm,
+  fetchVerificationFormVersions,
+  saveVerificationForm,
+  verificationFormPdfUrl,
+  attachVerificationFormPdf,
+  VerificationFormConflictError,
+  type SavedVerificationForm,
+  type VerificationFormPrefill,
+  type VerificationFormResponse,
+  type VerificationFormVersion,
+} from '@/services/verificationFormService';
+import type { FormTemplate } from '@/services/formTemplateService';
+import TemplateFormSections from './TemplateFormSections';
 import verificationData from "@mockupdata/verificationData.json";
 // import availityService from "../services/availityService"; // Not currently used
 
 interface VerificationFormProps {
   patient: Patient;
+  dataMode?: boolean; // Load and save the form through the API instead of showing sample data
 }
 
-const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
+const PREFILL_SOURCE_LABELS: Record<string, string> = {
+  'pms': 'patient record',
+  'ocr': 'insurance card scan',
+  'document-analysis': 'document analysis',
+  'eligibility': 'eligibility response',
+  'ai-call': 'AI call',
+};
+
+const VerificationForm: React.FC<VerificationFormProps> = ({ patient, dataMode = false }) => {
   const formRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
 
   // Use empty form data for new patients, otherwise use sample data
   const isNewPatient = patient.id.startsWith('new-');
-  const emptyFormData = {
+  const persisted = dataMode && !isNewPatient;
+  const emptyFormData: VerificationFormData = {
     patientName: '',
     patientSSN: '',
     patientDOB: '',
@@ -94,7 +121,8 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
     additionalNotes: ''
   };
 
-  const [formData] = useState(isNewPatient ? emptyFormData : verificationData);
+  const sampleFormData: VerificationFormData = persisted || isNewPatient ? emptyFormData : verificationData;
+  const [formData, setFormData] = useState<VerificationFormData>(sampleFormData);
   const [showPatientSSN, setShowPatientSSN] = useState(false);
   const [showSubscriberSSN, setShowSubscriberSSN] = useState(false);
   const [collapsedSections, setCollapsedSections] = useState<{[key: string]: boolean}>({
@@ -113,10 +141,62 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
 
   // Edit mode state
   const [isEditing, setIsEditing] = useState(false);
-  const [editedFormData, setEditedFormData] = useState(isNewPatient ? emptyFormData : verificationData);
+  const [editedFormData, setEditedFormData] = useState<VerificationFormData>(sampleFormData);
+
+  // Saved form state (Data Mode)
+  const [insuranceId, setInsuranceId] = useState<string>();
+  const [insurances, setInsurances] = useState<VerificationFormResponse['insurances']>([]);
+  const [savedForm, setSavedForm] = useState<SavedVerificationForm | null>(null);
+  const [latestVersion, setLatestVersion] = useState(0);
+  const [versions, setVersions] = useState<VerificationFormVersion[]>([]);
+  const [prefill, setPrefill] = useState<VerificationFormPrefill | null>(null);
+  const [isLoadingForm, setIsLoadingForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [templates, setTemplates] = useState<VerificationFormResponse['templates']>([]);
+  const [formTemplate, setFormTemplate] = useState<FormTemplate | null>(null);
+  const [editedTemplate, setEditedTemplate] = useState<FormTemplate | null>(null);
+
+  const showForm = (data: VerificationFormData, template: FormTemplate | null) => {
+    setFormData(data);
+    setEditedFormData(data);
+    setFormTemplate(template);
+    setEditedTemplate(template);
+  };
+
+  // Loads the latest saved form (or an earlier version), falling back to prefilled values
+  const loadForm = async (forInsuranceId?: string, version?: number) => {
+    setIsLoadingForm(true);
+    try {
+      const response = await fetchVerificationForm(patient.id, forInsuranceId, version);
+      setInsuranceId(response.insuranceId);
+      setInsurances(response.insurances);
+      setSavedForm(response.form);
+      setPrefill(response.prefill);
+      setTemplates(response.templates);
+      showForm(response.form?.data ?? response.prefill.data, response.template);
+      if (version === undefined) {
+        setLatestVersion(response.form?.currentVersion ?? 0);
+        setVersions(response.form ? await fetchVerificationFormVersions(patient.id, response.insuranceId) : []);
+      }
+    } catch (error: any) {
+      toast({
+        variant: "error",
+        title: "Could not load verification form",
+        description: error.message,
+      });
+    } finally {
+      setIsLoadingForm(false);
+    }
+  };
+
+  React.useEffect(() => {
+    if (persisted) loadForm();
+  }, [patient.id, persisted]);
 
-  // Initialize editedFormData with patient data
+  // Initialize editedFormData with patient data; saved forms are prefilled by the server instead
   React.useEffect(() => {
+    if (persisted) return;
     setEditedFormData((prev: any) => ({
       ...prev,
       patientName: getFullName(),
@@ -132,17 +212,76 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
   };
 
   // Handle save changes
-  const handleSave = () => {
-    // Here you would typically call an API to save the changes
-    setIsEditing(false);
+  const handleSave = async () => {
+    if (!persisted || !insuranceId) {
+      setIsEditing(false);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // Saving while viewing an earlier version restores it as the newest
+      const form = await saveVerificationForm(patient.id, insuranceId, editedFormData, latestVersion, editedTemplate?.id ?? null);
+      setSavedForm(form);
+      setLatestVersion(form.currentVersion);
+      showForm(form.data, editedTemplate);
+      setVersions(await fetchVerificationFormVersions(patient.id, insuranceId));
+      setIsEditing(false);
+      toast({
+        variant: "success",
+        title: "Verification form saved",
+        description: `Saved as version ${form.version}.`,
+      });
+    } catch (error: any) {
+      if (error instanceof VerificationFormConflictError) {
+        // Someone else saved first; keep the edits open so they can be reapplied to the latest version
+        toast({
+          variant: "error",
+          title: "Form was changed by someone else",
+          description: error.form
+            ? `Version ${error.form.version} was saved by ${error.form.savedByName || 'another user'}. Your edits are still open; review them and save again.`
+            : error.message,
+        });
+        if (error.form) {
+          setSavedForm(error.form);
+          setLatestVersion(error.form.currentVersion);
+          setFormData(error.form.data);
+          setVersions(await fetchVerificationFormVersions(patient.id, insuranceId).catch(() => versions));
+        }
+      } else {
+        toast({
+          variant: "error",
+          title: "Could not save verification form",
+          description: error.message,
+        });
+      }
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   // Handle cancel editing
   const handleCancel = () => {
-    setEditedFormData(verificationData);
+    setEditedFormData(formData);
+    setEditedTemplate(formTemplate);
     setIsEditing(false);
   };
 
+  // Switches the form being edited to another template, prefilling the fields it adds
+  const handleTemplateChange = async (templateId: string) => {
+    try {
+      const response = await fetchVerificationForm(patient.id, insuranceId, undefined, templateId || 'standard');
+      setEditedTemplate(response.template);
+      setEditedFormData(prev => ({ ...prev, custom: { ...response.prefill.data.custom, ...prev.custom } }));
+    } catch (error: any) {
+      toast({
+        variant: "error",
+        title: "Could not switch template",
+        description: error.message,
+      });
+    }
+  };
+
   // Handle form field change
   const handleFieldChange = (field: string, value: any) => {
     setEditedFormData((prev: any) => ({
@@ -224,6 +363,13 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
   //   }
   // };
 
+  // Lists where the unsaved form's values came from
+  const prefillSummary = () => {
+    const sources = [...new Set(Object.values(prefill?.sources ?? {}))];
+    if (sources.length === 0) return 'Not saved yet';
+    return `Not saved yet · Prefilled from ${sources.map(source => PREFILL_SOURCE_LABELS[source] || source).join(', ')}`;
+  };
+
   const getFullName = () => {
     const given = patient.name.given.join(" ");
     return `${given} ${patient.name.family}`.trim();
@@ -234,11 +380,72 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
     return '***-**-****';
   };
 
-  const handlePrint = () => {
+  // Printing and exporting take PHI out of the app, so they are audited first.
+  // Unsaved patients have nothing on record yet.
+  const auditPhiAccess = async (action: 'print' | 'export'): Promise<boolean> => {
+    if (isNewPatient) return true;
+    try {
+      await recordPhiAccess(patient.id, action);
+      return true;
+    } catch (error: any) {
+      toast({
+        variant: "error",
+        title: action === 'print' ? "Could not print form" : "Could not export form",
+        description: error.message,
+      });
+      return false;
+    }
+  };
+
+  // Saved forms are printed from the server's PDF, which audits the print itself
+  const openSavedPdf = (download: boolean): boolean => {
+    if (!savedForm) {
+      toast({
+        variant: "error",
+        title: "Form not saved yet",
+        description: "Save the verification form before printing or downloading it.",
+      });
+      return false;
+    }
+    window.open(verificationFormPdfUrl(patient.id, insuranceId, savedForm.version, download), '_blank');
+    return true;
+  };
+
+  const handleAttachPdf = async () => {
+    if (!savedForm) return;
+    setIsAttaching(true);
+    try {
+      await attachVerificationFormPdf(patient.id, insuranceId, savedForm.version);
+      toast({
+        variant: "success",
+        title: "PDF saved to documents",
+        description: `Version ${savedForm.version} is in the patient's Documents tab.`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "error",
+        title: "Could not save PDF",
+        description: error.message,
+      });
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (persisted) {
+      openSavedPdf(false);
+      return;
+    }
     if (!formRef.current) return;
 
+    // Open the window before awaiting so popup blockers still see the click
     const printWindow = window.open('', '_blank');
     if (!printWindow) return;
+    if (!(await auditPhiAccess('print'))) {
+      printWindow.close();
+      return;
+    }
 
     printWindow.document.write(`
       <!DOCTYPE html>
@@ -455,7 +662,9 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
     printWindow.document.close();
   };
 
-  const handleExportCSV = () => {
+  const handleExportCSV = async () => {
+    if (!(await auditPhiAccess('export'))) return;
+
     const csvRows: string[] = [];
 
     // Add CSV header
@@ -894,11 +1103,63 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
         {/* Header with Title and Action Buttons - Sticky */}
         <div className="sticky top-0 z-20 bg-white dark:bg-slate-900 border-b border-slate-200 dark:border-slate-800 px-4 py-3 shadow-md rounded-t-xl">
           <div className="flex items-center justify-between">
-            <h3 className="font-semibold text-slate-900 dark:text-white flex items-center gap-2">
-              <span className="material-symbols-outlined">assignment</span>
-              Verification Form
-            </h3>
-            <div className="flex gap-2">
+            <div>
+              <h3 className="font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+                <span className="material-symbols-outlined">assignment</span>
+                Verification Form
+              </h3>
+              {persisted && !isLoadingForm && (
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">
+                  {savedForm
+                    ? `Version ${savedForm.version} saved by ${savedForm.savedByName || 'unknown user'} at ${new Date(savedForm.savedAt).toLocaleString()}`
+                    : prefillSummary()}
+                  {savedForm && savedForm.version !== latestVersion && ` · Viewing an earlier version; save to restore it`}
+                  {formTemplate && ` · ${formTemplate.name}`}
+                  {(savedForm?.withheld ?? prefill?.withheld ?? []).length > 0 && ' · Some fields are hidden for your role'}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2 items-center">
+              {persisted && insurances.length > 1 && !isEditing && (
+                <select
+                  value={insuranceId}
+                  onChange={(e) => loadForm(e.target.value)}
+                  className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-xs text-slate-900 dark:text-white"
+                >
+                  {insurances.map(i => (
+                    <option key={i.id} value={i.id}>{i.type} · {i.provider}</option>
+                  ))}
+                </select>
+              )}
+              {persisted && isEditing && (templates.length > 0 || editedTemplate) && (
+                <select
+                  value={editedTemplate?.id ?? ''}
+                  onChange={(e) => handleTemplateChange(e.target.value)}
+                  title="Form template"
+                  className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-xs text-slate-900 dark:text-white"
+                >
+                  <option value="">Standard form</option>
+                  {editedTemplate && !templates.some(t => t.id === editedTemplate.id) && (
+                    <option value={editedTemplate.id}>{editedTemplate.name}</option>
+                  )}
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </select>
+              )}
+              {persisted && versions.length > 1 && !isEditing && savedForm && (
+                <select
+                  value={savedForm.version}
+                  onChange={(e) => loadForm(insuranceId, Number(e.target.value))}
+                  className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-800 text-xs text-slate-900 dark:text-white"
+                >
+                  {versions.map(v => (
+                    <option key={v.version} value={v.version}>
+                      Version {v.version} · {new Date(v.savedAt).toLocaleDateString()}
+                    </option>
+                  ))}
+                </select>
+              )}
               {isEditing ? (
                 <>
                   <button
@@ -909,21 +1170,43 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
                   </button>
                   <button
                     onClick={handleSave}
-                    className="px-3 py-1.5 bg-primary text-white rounded-lg hover:bg-primary/90 flex items-center gap-1.5 text-sm"
+                    disabled={isSaving}
+                    className="px-3 py-1.5 bg-primary text-white rounded-lg hover:bg-primary/90 flex items-center gap-1.5 text-sm disabled:opacity-50"
                   >
                     <span className="material-symbols-outlined text-base">save</span>
-                    Save Changes
+                    {isSaving ? 'Saving...' : 'Save Changes'}
                   </button>
                 </>
               ) : (
                 <>
                   <button
                     onClick={() => setIsEditing(true)}
+                    disabled={isLoadingForm}
                     className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1.5 bg-white dark:bg-slate-900 text-sm"
                   >
                     <span className="material-symbols-outlined text-base">edit</span>
                     Edit
                   </button>
+                  {persisted && (
+                    <>
+                      <button
+                        onClick={() => openSavedPdf(true)}
+                        disabled={!savedForm}
+                        className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1.5 bg-white dark:bg-slate-900 text-sm disabled:opacity-50"
+                      >
+                        <span className="material-symbols-outlined text-base">picture_as_pdf</span>
+                        Download PDF
+                      </button>
+                      <button
+                        onClick={handleAttachPdf}
+                        disabled={!savedForm || isAttaching}
+                        className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1.5 bg-white dark:bg-slate-900 text-sm disabled:opacity-50"
+                      >
+                        <span className="material-symbols-outlined text-base">folder</span>
+                        {isAttaching ? 'Saving...' : 'Save to Documents'}
+                      </button>
+                    </>
+                  )}
                   <button
                     onClick={handleExportCSV}
                     className="px-3 py-1.5 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 flex items-center gap-1.5 bg-white dark:bg-slate-900 text-sm"
@@ -944,6 +1227,17 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
           </div>
         </div>
 
+        {persisted && (isEditing ? editedTemplate : formTemplate) ? (
+        <div ref={formRef} className="p-6 space-y-8">
+          <TemplateFormSections
+            sections={(isEditing ? editedTemplate : formTemplate)!.sections}
+            data={isEditing ? editedFormData : formData}
+            isEditing={isEditing}
+            withheld={savedForm?.withheld ?? prefill?.withheld ?? []}
+            onChange={setEditedFormData}
+          />
+        </div>
+        ) : (
         <div ref={formRef} className="p-6 space-y-8">
           {/* Patient & Subscriber Information Section */}
           <div className="border-2 border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden bg-white dark:bg-slate-900">
@@ -2769,6 +3063,7 @@ const VerificationForm: React.FC<VerificationFormProps> = ({ patient }) => {
             )}
           </div>
         </div>
+        )}
       </div>
 
     </div>
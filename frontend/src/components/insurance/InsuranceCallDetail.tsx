@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import Header from '@/components/Header';
+import { queryTransactions } from '@/services/transactionService';
 
 interface CallRecord {
   id: string;
@@ -82,10 +83,9 @@ const InsuranceCallDetail: React.FC = () => {
   useEffect(() => {
     const fetchCallRecords = async () => {
       try {
-        const response = await fetch('/api/transactions');
-        const data = await response.json();
+        const data = await queryTransactions({ type: ['CALL'], limit: 200 });
 
-        if (data.success && Array.isArray(data.transactions)) {
+        if (Array.isArray(data.transactions)) {
           const records: CallRecord[] = data.transactions.map((t: any) => {
             const dateObj = new Date(parseInt(t.startTime));
             return {
@@ -15,6 +15,9 @@ const StediEligibilityChecker: React.FC = () => {
   const [subscriberLastName, setSubscriberLastName] = useState('Doe');
   const [subscriberDOB, setSubscriberDOB] = useState('1987-05-21');
 
+  // Form state for payer
+  const [payerId, setPayerId] = useState('62308');
+
   // Form state for provider
   const [providerNPI, setProviderNPI] = useState('1234567890');
   const [providerOrgName, setProviderOrgName] = useState('Smith Dental Clinic');
@@ -31,7 +34,8 @@ const StediEligibilityChecker: React.FC = () => {
       lastName: 'Doe',
       dob: '1987-05-21',
       npi: '1234567890',
-      orgName: 'Smith Dental Clinic'
+      orgName: 'Smith Dental Clinic',
+      payerId: '62308'
     },
     {
       name: 'Sample 2 (CIGNA)',
@@ -40,7 +44,8 @@ const StediEligibilityChecker: React.FC = () => {
       lastName: 'Doe',
       dob: '1987-05-21',
       npi: '9876543210',
-      orgName: 'Premier Dental Group'
+      orgName: 'Premier Dental Group',
+      payerId: '62308'
     },
     {
       name: 'Sample 3 (CIGNA)',
@@ -49,7 +54,8 @@ const StediEligibilityChecker: React.FC = () => {
       lastName: 'Doe',
       dob: '1987-05-21',
       npi: '1111111111',
-      orgName: 'Bright Smile Dentistry'
+      orgName: 'Bright Smile Dentistry',
+      payerId: '62308'
     }
   ];
 
@@ -61,6 +67,7 @@ const StediEligibilityChecker: React.FC = () => {
     setSubscriberDOB(sample.dob);
     setProviderNPI(sample.npi);
     setProviderOrgName(sample.orgName);
+    setPayerId(sample.payerId);
     setResults(null);
     setError(null);
   };
@@ -84,7 +91,9 @@ const StediEligibilityChecker: React.FC = () => {
         organizationName: providerOrgName,
       };
 
-      const response = await stediService.checkDentalBenefits(subscriber, provider);
+      const response = await stediService.checkDentalBenefits(subscriber, provider, {
+        tradingPartnerServiceId: payerId,
+      });
       setResults(response);
     } catch (err: any) {
       setError(err.message || 'Failed to check eligibility');
@@ -100,6 +109,7 @@ const StediEligibilityChecker: React.FC = () => {
     setSubscriberDOB('');
     setProviderNPI('');
     setProviderOrgName('');
+    setPayerId('');
     setResults(null);
     setError(null);
   };
@@ -206,6 +216,24 @@ const StediEligibilityChecker: React.FC = () => {
                 </div>
               </div>
 
+              {/* Payer Information */}
+              <div>
+                <h3 className="text-lg font-medium mb-3 text-gray-800">Payer Details</h3>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Payer ID *
+                  </label>
+                  <input
+                    type="text"
+                    value={payerId}
+                    onChange={(e) => setPayerId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                    placeholder="e.g., 62308"
+                  />
+                </div>
+              </div>
+
               {/* Provider Information */}
               <div>
                 <h3 className="text-lg font-medium mb-3 text-gray-800">Provider Details</h3>
@@ -301,6 +329,11 @@ const StediEligibilityChecker: React.FC = () => {
                 {/* Procedure Benefits */}
                 <div>
                   <h3 className="text-lg font-medium mb-2 text-blue-700">Procedure-Specific Benefits</h3>
+                  {results.data.meta && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      {results.data.meta.requests} request(s), {results.data.meta.cacheHits} cached, {results.data.meta.retries} retried in {results.data.meta.durationMs} ms
+                    </p>
+                  )}
                   <div className="space-y-2 max-h-96 overflow-y-auto">
                     {results.data.procedures.map((proc, idx) => (
                       <div key={idx} className="border border-gray-200 rounded-md p-3 hover:bg-gray-50">
@@ -311,9 +344,13 @@ const StediEligibilityChecker: React.FC = () => {
                             <p className="text-xs text-gray-500 mt-1">Category: {proc.category}</p>
                           </div>
                           <div className="ml-4">
-                            {proc.benefit === "Covered in STC 35" ? (
+                            {proc.source === 'procedure' ? (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                                Procedure Detail
+                              </span>
+                            ) : proc.source === 'serviceType' ? (
                               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                                Covered
+                                Service Type {proc.serviceTypeCode}
                               </span>
                             ) : proc.benefit ? (
                               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
@@ -321,12 +358,12 @@ const StediEligibilityChecker: React.FC = () => {
                               </span>
                             ) : (
                               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                                Not Covered
+                                No Benefit Returned
                               </span>
                             )}
                           </div>
                         </div>
-                        {proc.benefit && proc.benefit !== "Covered in STC 35" && (
+                        {proc.benefit && (
                           <pre className="mt-2 text-xs bg-gray-50 p-2 rounded overflow-auto max-h-32">
                             {JSON.stringify(proc.benefit, null, 2)}
                           </pre>
@@ -0,0 +1,32 @@
+// Navigation Items - Centralized configuration
+// Each item is shown only to users whose role grants its permission
+
+import type { Permission } from '@shared/permissions';
+
+export type NavigationMode = 'b2b' | 'insurance' | 'admin';
+
+export interface NavigationItem {
+  label: string;
+  path: string;
+  icon: string;
+  mode: NavigationMode;
+  permission: Permission;
+}
+
+export const NAVIGATION_ITEMS: NavigationItem[] = [
+  { label: 'Dashboard', path: '/b2b-agent/dashboard', icon: 'dashboard', mode: 'b2b', permission: 'job:read' },
+  { label: 'Patient Appointments', path: '/b2b-agent/patient-appointments', icon: 'dashboard', mode: 'b2b', permission: 'patient:read' },
+  { label: 'Call Dashboard', path: '/insurance/dashboard', icon: 'dashboard', mode: 'insurance', permission: 'transaction:read' },
+  { label: 'User Management', path: '/admin/users', icon: 'manage_accounts', mode: 'admin', permission: 'user:manage' },
+  { label: 'Audit Log', path: '/admin/audit-log', icon: 'policy', mode: 'admin', permission: 'audit:read' },
+  { label: 'Form Templates', path: '/admin/form-templates', icon: 'dynamic_form', mode: 'admin', permission: 'form-template:manage' },
+];
+
+/**
+ * Navigation items the given permissions allow, optionally limited to one mode
+ */
+export function allowedNavigation(permissions: readonly string[], mode?: NavigationMode): NavigationItem[] {
+  return NAVIGATION_ITEMS.filter(item =>
+    (!mode || item.mode === mode) && permissions.includes(item.permission)
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef } from 'react';
+import type { LiveEvent } from '@shared/live-events';
+
+export type { LiveEvent } from '@shared/live-events';
+
+interface Subscriber {
+  onEvent: (event: LiveEvent) => void;
+  onReconnect?: () => void; // Events sent while the connection was down are lost
+}
+
+// One connection per tab, shared by every subscribed component
+const subscribers = new Set<Subscriber>();
+let source: EventSource | null = null;
+
+function connect() {
+  const events = new EventSource('/api/events', { withCredentials: true });
+  let dropped = false;
+  events.onmessage = (message) => {
+    const event: LiveEvent = JSON.parse(message.data);
+    subscribers.forEach(subscriber => subscriber.onEvent(event));
+  };
+  events.onopen = () => {
+    if (dropped) subscribers.forEach(subscriber => subscriber.onReconnect?.());
+    dropped = false;
+  };
+  events.onerror = () => {
+    dropped = true;
+    // The browser retries dropped connections itself; a refused one (signed out) is closed for good
+    if (events.readyState === EventSource.CLOSED && source === events) {
+      source = null;
+    }
+  };
+  source = events;
+}
+
+function subscribe(subscriber: Subscriber): () => void {
+  subscribers.add(subscriber);
+  if (!source) connect();
+  return () => {
+    subscribers.delete(subscriber);
+    if (subscribers.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+}
+
+/**
+ * Calls `onEvent` for every live event of the session's practice while mounted
+ * @param enabled - Pass false to stay disconnected, e.g. outside Data Mode
+ */
+export function useLiveEvents(onEvent: (event: LiveEvent) => void, enabled: boolean = true, onReconnect?: () => void) {
+  const handlers = useRef({ onEvent, onReconnect });
+  handlers.current = { onEvent, onReconnect };
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribe({
+      onEvent: event => handlers.current.onEvent(event),
+      onReconnect: () => handlers.current.onReconnect?.(),
+    });
+  }, [enabled]);
+}
+
+/**
+ * Calls `refresh` when a matching event arrives, at most once per `delayMs` so a burst of events
+ * (a verification job moving through its steps) causes one refetch. Also refreshes after a
+ * reconnect, since events may have been missed.
+ */
+export function useLiveRefresh(
+  matches: (event: LiveEvent) => boolean,
+  refresh: () => void,
+  enabled: boolean = true,
+  delayMs: number = 500
+) {
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latest = useRef(refresh);
+  latest.current = refresh;
+
+  const schedule = () => {
+    if (timer.current) return;
+    timer.current = setTimeout(() => {
+      timer.current = null;
+      latest.current();
+    }, delayMs);
+  };
+
+  useEffect(() => () => {
+    if (timer.current) clearTimeout(timer.current);
+  }, []);
+
+  useLiveEvents(event => {
+    if (matches(event)) schedule();
+  }, enabled, schedule);
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Permission } from '@shared/permissions';
+import type { PracticeIntegrations } from '@shared/integrations';
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  role: string;
+  username: string;
+  dataSource?: string | null;
+  practice: { id: string; name: string; role: string; integrations: PracticeIntegrations } | null; // The session's practice
+  permissions: Permission[];
+}
+
+/**
+ * Loads the signed-in user and the permissions their role grants.
+ * Pass `enabled = false` on pages that may be viewed signed out to skip the request.
+ */
+export function usePermissions(enabled: boolean = true) {
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [loading, setLoading] = useState(enabled);
+
+  useEffect(() => {
+    if (!enabled) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    fetch('/api/auth/verify', { credentials: 'include' })
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled) setUser(data?.user || null);
+      })
+      .catch(() => {
+        if (!cancelled) setUser(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  const permissions = useMemo(() => user?.permissions || [], [user]);
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions]);
+
+  return { user, permissions, can, loading };
+}
@@ -0,0 +1,55 @@
+/**
+ * Service for invitation and password reset links
+ */
+
+export type AccountLinkPurpose = 'invite' | 'reset';
+
+export interface AccountLinkInfo {
+  email: string;
+  username: string;
+  expiresAt: string;
+}
+
+async function postJson<T>(url: string, body: unknown, fallbackError: string): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * Token from the current page's `#token=...` fragment, where emailed links put it
+ */
+export function tokenFromLocation(): string {
+  return new URLSearchParams(window.location.hash.slice(1)).get('token') || '';
+}
+
+/**
+ * Ask for a password reset email. Succeeds whether or not the email has an account.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  await postJson('/api/auth/forgot-password', { email }, 'Failed to request password reset');
+}
+
+/**
+ * Who an invitation or reset link is for; throws if the link is invalid, used or expired
+ */
+export async function fetchLinkInfo(token: string, purpose: AccountLinkPurpose): Promise<AccountLinkInfo> {
+  return postJson('/api/auth/token-info', { token, purpose }, 'This link is invalid or has expired');
+}
+
+/**
+ * Set a password from an invitation or reset link
+ */
+export async function setPasswordFromLink(token: string, purpose: AccountLinkPurpose, password: string): Promise<void> {
+  const url = purpose === 'invite' ? '/api/auth/accept-invite' : '/api/auth/reset-password';
+  await postJson(url, { token, password }, 'Failed to set password');
+}
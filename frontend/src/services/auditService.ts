@@ -0,0 +1,96 @@
+/**
+ * Service for the PHI access audit log
+ */
+
+export type AuditAction = 'read' | 'decrypt' | 'export' | 'print' | 'ocr';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['read', 'decrypt', 'export', 'print', 'ocr'];
+
+export interface AuditLogEntry {
+  id: string;
+  userId: string | null;
+  userEmail: string | null;
+  practiceId: string | null;
+  patientId: string | null;
+  action: AuditAction;
+  resource: string;
+  resourceId: string | null;
+  field: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilters {
+  userId?: string;
+  patientId?: string;
+  action?: AuditAction[];
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  limit?: number;
+  cursor?: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+function toParams(filters: AuditLogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  return params;
+}
+
+/**
+ * Fetch one page of audit log entries, newest first
+ * @param filters - Filters and paging options; pass the previous page's `nextCursor` as `cursor`
+ */
+export async function fetchAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+  const response = await fetch(`/api/audit-logs?${toParams(filters).toString()}`, {
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch audit log');
+  }
+
+  const data = await response.json();
+  return {
+    entries: data.entries || [],
+    nextCursor: data.nextCursor ?? null,
+    hasMore: !!data.hasMore
+  };
+}
+
+/**
+ * URL that downloads every entry matching the filters as CSV
+ */
+export function auditLogExportUrl(filters: Omit<AuditLogFilters, 'limit' | 'cursor'> = {}): string {
+  return `/api/audit-logs/export?${toParams(filters).toString()}`;
+}
+
+/**
+ * Record that patient data left the app through a print or file export.
+ * Throws when the entry could not be written; callers should not print or export in that case.
+ * @param patientId - The patient whose data is printed or exported
+ * @param action - 'print' or 'export'
+ */
+export async function recordPhiAccess(patientId: string, action: 'print' | 'export'): Promise<void> {
+  const response = await fetch('/api/audit-logs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({ patientId, action, resource: 'verification-form' })
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to record audit entry');
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Service for the coverage by code history: saved runs and what changed between them
+ */
+
+import type { CoverageSource } from '@shared/coverage';
+
+export interface CoverageRun {
+  id: string;
+  patientId: string;
+  userId: string | null;
+  userName?: string | null; // Only in the run list
+  source: CoverageSource;
+  sourceRef: string | null;
+  rowCount: number;
+  createdAt: string;
+}
+
+export interface CoverageRecord {
+  id: string;
+  saiCode: string | null;
+  refInsCode: string | null;
+  category: string | null;
+  fieldName: string | null;
+  preStepValue: string | null;
+  verified: boolean | null;
+  verifiedBy: string | null;
+  comments: string | null;
+  source: CoverageSource; // Where the row's values came from
+  sourceRef: string | null;
+}
+
+export interface CoverageChange {
+  field: 'preStepValue' | 'aiCallValue' | 'verified' | 'verifiedBy' | 'comments' | 'category' | 'fieldName' | 'source';
+  before: string | null;
+  after: string | null;
+}
+
+export interface CoverageRowDiff {
+  key: string;
+  saiCode: string | null;
+  refInsCode: string | null;
+  fieldName: string | null;
+  status: 'added' | 'removed' | 'changed';
+  changes: CoverageChange[];
+}
+
+export interface CoverageRunDiff {
+  from: CoverageRun;
+  to: CoverageRun;
+  rows: CoverageRowDiff[];
+  unchanged: number;
+}
+
+async function requestJson<T>(url: string, fallbackError: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || data.success === false) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * The patient's saved runs, newest first
+ */
+export async function fetchCoverageRuns(patientId: string): Promise<CoverageRun[]> {
+  const data = await requestJson<{ runs: CoverageRun[] }>(
+    `/api/coverage-by-code/${patientId}/runs`, 'Failed to fetch coverage history');
+  return data.runs;
+}
+
+export async function fetchCoverageRun(patientId: string, runId: string): Promise<{ run: CoverageRun; data: CoverageRecord[] }> {
+  const data = await requestJson<{ run: CoverageRun; data: CoverageRecord[] }>(
+    `/api/coverage-by-code/${patientId}/runs/${runId}`, 'Failed to fetch coverage run');
+  return { run: data.run, data: data.data };
+}
+
+/**
+ * What changed between two runs
+ * @param from - Older run; defaults to the run before `to`
+ * @param to - Newer run; defaults to the latest
+ */
+export async function fetchCoverageDiff(patientId: string, from?: string, to?: string): Promise<CoverageRunDiff> {
+  const params = new URLSearchParams();
+  if (from) params.set('from', from);
+  if (to) params.set('to', to);
+  const query = params.toString();
+  const data = await requestJson<{ diff: CoverageRunDiff }>(
+    `/api/coverage-by-code/${patientId}/diff${query ? `?${query}` : ''}`, 'Failed to compare coverage runs');
+  return data.diff;
+}
@@ -0,0 +1,156 @@
+/**
+ * Service for the patient document store: card images, EOBs and faxed benefit sheets
+ */
+
+export type DocumentCategory = 'insurance-card-front' | 'insurance-card-back' | 'eob' | 'benefit-fax' | 'fax-request' | 'verification-form' | 'other';
+
+export const DOCUMENT_CATEGORY_LABELS: Record<DocumentCategory, string> = {
+  'insurance-card-front': 'Insurance Card (Front)',
+  'insurance-card-back': 'Insurance Card (Back)',
+  'eob': 'EOB',
+  'benefit-fax': 'Faxed Benefit Sheet',
+  'fax-request': 'Fax Benefit Request',
+  'verification-form': 'Verification Form',
+  'other': 'Other',
+};
+
+export interface DocumentVersion {
+  version: number;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  hasThumbnail: boolean;
+  uploadedBy: string | null;
+  createdAt: string;
+}
+
+export interface PatientDocument {
+  id: string;
+  patientId: string;
+  category: DocumentCategory;
+  currentVersion: number;
+  fileName: string;
+  mimeType: string;
+  createdAt: string;
+  updatedAt: string;
+  versions: DocumentVersion[]; // Newest first
+}
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include', ...init });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * URL the viewers load a document from; the server decrypts it on the way out
+ */
+export function documentContentUrl(id: string, version?: number, download = false): string {
+  const params = new URLSearchParams();
+  if (version) params.set('version', String(version));
+  if (download) params.set('download', 'true');
+  const query = params.toString();
+  return `/api/documents/${id}/content${query ? `?${query}` : ''}`;
+}
+
+export function documentThumbnailUrl(id: string, version?: number): string {
+  return `/api/documents/${id}/thumbnail${version ? `?version=${version}` : ''}`;
+}
+
+/**
+ * Documents stored for a patient, most recently updated first
+ */
+export async function fetchPatientDocuments(patientId: string): Promise<PatientDocument[]> {
+  const data = await requestJson<{ documents: PatientDocument[] }>(
+    `/api/patients/${patientId}/documents`, {}, 'Failed to fetch documents');
+  return data.documents;
+}
+
+export async function uploadPatientDocument(patientId: string, category: DocumentCategory, file: File): Promise<PatientDocument> {
+  const formData = new FormData();
+  formData.append('category', category);
+  formData.append('file', file);
+  const data = await requestJson<{ document: PatientDocument }>(
+    `/api/patients/${patientId}/documents`, { method: 'POST', body: formData }, 'Failed to upload document');
+  return data.document;
+}
+
+/**
+ * Upload a replacement file; earlier versions stay available
+ */
+export async function uploadDocumentVersion(id: string, file: File): Promise<PatientDocument> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const data = await requestJson<{ document: PatientDocument }>(
+    `/api/documents/${id}/versions`, { method: 'POST', body: formData }, 'Failed to upload new version');
+  return data.document;
+}
+
+export async function deletePatientDocument(id: string): Promise<void> {
+  await requestJson(`/api/documents/${id}`, { method: 'DELETE' }, 'Failed to delete document');
+}
+
+export interface ExtractedBenefitRow {
+  saiCode: string;
+  refInsCode: string;
+  category: string;
+  fieldName: string;
+  preStepValue: string;
+  missing: 'Y' | 'N';
+  aiCallValue: string;
+  verifiedBy: string;
+  confidence: number;
+  source?: { documentId: string; page: number };
+}
+
+export interface DocumentAnalysisJob {
+  id: string;
+  patientId: string;
+  documentIds: string[];
+  status: 'running' | 'completed' | 'failed';
+  progress: number; // 0-100
+  message: string;
+  transactionId: string | null;
+  result: { rows: ExtractedBenefitRow[]; pages: number; ocrPages: number } | null;
+  errorMessage: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+/**
+ * Start reading benefit documents on the server; defaults to the patient's EOBs and benefit sheets
+ */
+export async function startDocumentAnalysis(patientId: string, documentIds?: string[]): Promise<DocumentAnalysisJob> {
+  const data = await requestJson<{ job: DocumentAnalysisJob }>(
+    `/api/patients/${patientId}/document-analysis`,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ documentIds }) },
+    'Failed to start document analysis');
+  return data.job;
+}
+
+/**
+ * Follow an analysis job's progress until it completes or fails; returns a function that stops watching
+ */
+export function watchDocumentAnalysis(
+  jobId: string,
+  onUpdate: (job: DocumentAnalysisJob) => void,
+  onError: (message: string) => void
+): () => void {
+  const events = new EventSource(`/api/document-analysis/${jobId}/events`, { withCredentials: true });
+  events.onmessage = (event) => {
+    const job: DocumentAnalysisJob = JSON.parse(event.data);
+    // The server ends the stream here; close so the browser does not reconnect
+    if (job.status !== 'running') events.close();
+    onUpdate(job);
+  };
+  events.onerror = () => {
+    // A dropped connection is retried by the browser; a refused one is closed
+    if (events.readyState === EventSource.CLOSED) {
+      onError('Lost connection to the document analysis');
+    }
+  };
+  return () => events.close();
+}
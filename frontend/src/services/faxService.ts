@@ -0,0 +1,54 @@
+/**
+ * Service for benefit breakdown requests faxed to payers and the replies they fax back
+ */
+
+import type { DocumentAnalysisJob } from './documentService';
+
+export interface Fax {
+  id: string;
+  direction: 'outbound' | 'inbound';
+  status: 'sending' | 'sent' | 'answered' | 'failed' | 'matched' | 'unmatched';
+  patientId: string | null;
+  transactionId: string | null;
+  documentId: string | null; // Sent request form, or the received fax
+  reference: string | null;
+  replyTo: string | null;
+  remoteNumber: string | null;
+  provider: string;
+  pages: number | null;
+  errorMessage: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include', ...init });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * Fax the payer of the patient's primary insurance (or the given one) a benefit breakdown request
+ */
+export async function requestBenefitFax(patientId: string, insuranceId?: string): Promise<Fax> {
+  const data = await requestJson<{ fax: Fax }>(
+    `/api/patients/${patientId}/fax-requests`,
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ insuranceId }) },
+    'Failed to send fax');
+  return data.fax;
+}
+
+/**
+ * A fax and, once the payer has answered a request, the reply and the server's analysis of it
+ */
+export async function fetchFax(id: string): Promise<{ fax: Fax; reply: Fax | null; analysis: DocumentAnalysisJob | null }> {
+  return requestJson(`/api/faxes/${id}`, {}, 'Failed to fetch fax');
+}
+
+export async function fetchPatientFaxes(patientId: string): Promise<Fax[]> {
+  const data = await requestJson<{ faxes: Fax[] }>(`/api/patients/${patientId}/faxes`, {}, 'Failed to fetch faxes');
+  return data.faxes;
+}
@@ -0,0 +1,59 @@
+/**
+ * Service for verification form templates: the sections and fields of the form per practice and payer
+ */
+
+import type { TemplateSection } from '@shared/verification-form-template';
+
+export interface FormTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  practiceId: string | null; // Null: every practice
+  payerId: string | null; // Null: every payer
+  sections: TemplateSection[];
+  active: boolean;
+  updatedAt: string;
+}
+
+export type FormTemplateValues = Pick<FormTemplate, 'name' | 'description' | 'practiceId' | 'payerId' | 'sections' | 'active'>;
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include', ...init });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * Templates the user can use (every template for admins) and the standard form's sections
+ */
+export async function fetchFormTemplates(): Promise<{ templates: FormTemplate[]; standard: TemplateSection[] }> {
+  const data = await requestJson<{ templates: FormTemplate[]; standard: TemplateSection[] }>(
+    '/api/verification-form-templates', {}, 'Failed to fetch form templates');
+  return { templates: data.templates, standard: data.standard };
+}
+
+export async function createFormTemplate(values: FormTemplateValues): Promise<FormTemplate> {
+  const data = await requestJson<{ template: FormTemplate }>(
+    '/api/verification-form-templates',
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(values) },
+    'Failed to create form template');
+  return data.template;
+}
+
+export async function updateFormTemplate(id: string, values: Partial<FormTemplateValues>): Promise<FormTemplate> {
+  const data = await requestJson<{ template: FormTemplate }>(
+    `/api/verification-form-templates/${id}`,
+    { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(values) },
+    'Failed to update form template');
+  return data.template;
+}
+
+/**
+ * @throws Error if saved forms use the template; deactivate it instead
+ */
+export async function deleteFormTemplate(id: string): Promise<void> {
+  await requestJson(`/api/verification-form-templates/${id}`, { method: 'DELETE' }, 'Failed to delete form template');
+}
@@ -0,0 +1,73 @@
+/**
+ * Service for verification workflow jobs queued by the nightly scheduler or on demand
+ */
+
+export type JobStepKey = 'fetchPMS' | 'apiVerification' | 'documentAnalysis' | 'callCenter' | 'saveToPMS';
+
+export type JobStepStatus = 'pending' | 'in_progress' | 'waiting' | 'completed' | 'skipped' | 'failed';
+
+export type JobStatus = 'queued' | 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled';
+
+export interface VerificationJobSummary {
+  id: string;
+  patientId: string;
+  patientName: string;
+  insuranceId: string | null;
+  appointmentId: string | null;
+  appointmentDate: string | null;
+  appointmentTime: string | null;
+  status: JobStatus;
+  currentStep: JobStepKey | null;
+  scheduledFor: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  errorMessage: string | null;
+  steps: Record<JobStepKey, JobStepStatus>;
+}
+
+export interface JobTransaction {
+  id: string;
+  requestId: string;
+  type: string;
+  status: string;
+  startTime: string;
+  duration: string | null;
+  insuranceProvider: string | null;
+  insuranceRep: string | null;
+  verificationScore: number | null;
+  runBy: string | null;
+}
+
+/**
+ * Fetch jobs scheduled between two dates (inclusive)
+ * @param from - First day, YYYY-MM-DD
+ * @param to - Last day, YYYY-MM-DD (defaults to `from`)
+ */
+export async function fetchJobs(from: string, to: string = from): Promise<VerificationJobSummary[]> {
+  const params = from === to ? `date=${from}` : `from=${from}&to=${to}`;
+  const response = await fetch(`/api/jobs?${params}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch jobs');
+  }
+
+  const data = await response.json();
+  return data.jobs;
+}
+
+/**
+ * Fetch the transactions written by a job's steps
+ * @param jobId - The verification job ID
+ */
+export async function fetchJobTransactions(jobId: string): Promise<JobTransaction[]> {
+  const response = await fetch(`/api/verification-jobs/${jobId}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to fetch job details');
+  }
+
+  const data = await response.json();
+  return data.transactions;
+}
@@ -0,0 +1,105 @@
+/**
+ * Service for insurance card OCR and the review step before its values reach the patient record
+ */
+
+export type CardSide = 'front' | 'back';
+
+export type OcrBoxField = 'name' | 'provider' | 'policyNumber' | 'groupNumber' | 'subscriberId';
+
+export type OcrReviewField = 'givenName' | 'familyName' | 'provider' | 'policyNumber' | 'groupNumber' | 'subscriberId' | 'subscriberName';
+
+// Position of a value as fractions of the processed card image
+export interface FieldBox {
+  side: CardSide;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrFieldDiff {
+  field: OcrReviewField;
+  label: string;
+  record: 'patient' | 'insurance';
+  current: string | null; // Policy and group numbers come back masked
+  extracted: string;
+  proposed: string;
+  confidence: number;
+  changed: boolean;
+  edited: boolean;
+}
+
+export interface OcrExtractionReview {
+  id: string;
+  patientId: string;
+  status: 'pending' | 'confirmed' | 'rejected';
+  template: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+  appliedFields: string[] | null;
+  fields: OcrFieldDiff[];
+}
+
+export interface OcrScanResult {
+  extraction: OcrExtractionReview;
+  boxes: Partial<Record<OcrBoxField, FieldBox>>;
+  images: Partial<Record<CardSide, string>>;
+}
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include', ...init });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+function jsonBody(body: unknown): RequestInit {
+  return { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+}
+
+/**
+ * Scan the front and optionally the back of a card. The result is held as a pending extraction.
+ */
+export async function scanInsuranceCard(patientId: string, front: File, back?: File): Promise<OcrScanResult> {
+  const formData = new FormData();
+  formData.append('insuranceCardImage', front);
+  if (back) {
+    formData.append('insuranceCardBackImage', back);
+  }
+  return requestJson(`/api/patients/${patientId}/insurance-card-ocr`, { method: 'POST', body: formData }, 'OCR processing failed');
+}
+
+/**
+ * Extractions for a patient that are waiting for review, newest first
+ */
+export async function fetchPendingOcrExtractions(patientId: string): Promise<OcrExtractionReview[]> {
+  const data = await requestJson<{ extractions: OcrExtractionReview[] }>(
+    `/api/patients/${patientId}/ocr-extractions`, {}, 'Failed to fetch card scans');
+  return data.extractions;
+}
+
+/**
+ * Save corrections to the values an extraction will apply
+ */
+export async function updateOcrExtraction(id: string, values: Partial<Record<OcrReviewField, string>>): Promise<OcrExtractionReview> {
+  return requestJson(`/api/ocr-extractions/${id}`, { method: 'PATCH', ...jsonBody({ values }) }, 'Failed to save corrections');
+}
+
+/**
+ * Write the chosen fields to the patient and their primary insurance
+ * @returns The fields that were written
+ */
+export async function confirmOcrExtraction(id: string, fields: OcrReviewField[]): Promise<string[]> {
+  const data = await requestJson<{ appliedFields: string[] }>(
+    `/api/ocr-extractions/${id}/confirm`, { method: 'POST', ...jsonBody({ fields }) }, 'Failed to apply card scan');
+  return data.appliedFields;
+}
+
+/**
+ * Discard an extraction without changing the patient
+ */
+export async function rejectOcrExtraction(id: string): Promise<void> {
+  await requestJson(`/api/ocr-extractions/${id}/reject`, { method: 'POST' }, 'Failed to reject card scan');
+}
@@ -14,20 +14,45 @@ export interface Provider {
   lastName?: string;
 }
 
+export interface EligibilityOptions {
+  tradingPartnerServiceId?: string; // Payer ID
+  payerName?: string;
+  patientId?: string; // Build the 270 from the patient's stored insurance
+  insuranceId?: string;
+}
+
+export interface EligibilityRejection {
+  loop: string;
+  code: string;
+  description: string;
+  followUpAction?: string;
+}
+
 export interface ProcedureBenefit {
   code: string;
   description: string;
   category: string;
+  serviceTypeCode?: string; // X12 service type the category maps to
+  source?: 'procedure' | 'serviceType' | null;
   benefit: any;
 }
 
+export interface EligibilityPlanMeta {
+  requests: number; // 270s actually sent
+  cacheHits: number;
+  retries: number;
+  durationMs: number;
+}
+
 export interface DentalBenefitsResponse {
   success: boolean;
   data?: {
     general: any;
     procedures: ProcedureBenefit[];
+    meta?: EligibilityPlanMeta;
   };
   error?: string;
+  rejections?: EligibilityRejection[];
 }
 
 // Mock Stedi response data
@@ -93,7 +118,8 @@ class StediService {
    */
   async checkDentalBenefits(
     subscriber: Subscriber,
-    provider: Provider
+    provider: Provider,
+    options: EligibilityOptions = {}
   ): Promise<DentalBenefitsResponse> {
     try {
       const response = await fetch(`${this.backendUrl}/api/stedi/dental-benefits`, {
@@ -101,7 +127,7 @@ class StediService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ subscriber, provider }),
+        body: JSON.stringify({ subscriber, provider, ...options }),
       });
 
       const data = await response.json();
@@ -123,7 +149,8 @@ class StediService {
   async verifyStediAPI(
     subscriber: Subscriber,
     provider: Provider,
-    isApiEnabled: boolean = true
+    isApiEnabled: boolean = true,
+    options: EligibilityOptions = {}
   ): Promise<DentalBenefitsResponse> {
     // Return mock data if API is disabled
     if (!isApiEnabled) {
@@ -132,7 +159,7 @@ class StediService {
     }
 
     // Reuse the same endpoint as checkDentalBenefits for real API
-    return this.checkDentalBenefits(subscriber, provider);
+    return this.checkDentalBenefits(subscriber, provider, options);
   }
 }
 
@@ -0,0 +1,51 @@
+/**
+ * Service for querying verification transactions with server-side filters and paging
+ */
+
+export interface TransactionFilters {
+  patientId?: string;
+  type?: string[];
+  status?: string[];
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  insuranceProvider?: string;
+  runBy?: string;
+  sort?: 'createdAt' | 'startTime' | 'patientName' | 'type' | 'status';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TransactionPage<T = any> {
+  transactions: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+/**
+ * Fetch one page of transactions matching the filters
+ * @param filters - Filters, sort and paging options; pass the previous page's `nextCursor` as `cursor`
+ */
+export async function queryTransactions<T = any>(filters: TransactionFilters = {}): Promise<TransactionPage<T>> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+
+  const response = await fetch(`/api/transactions?${params.toString()}`, {
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to fetch transactions');
+  }
+
+  const data = await response.json();
+  return {
+    transactions: data.transactions || [],
+    nextCursor: data.nextCursor ?? null,
+    hasMore: !!data.hasMore
+  };
+}
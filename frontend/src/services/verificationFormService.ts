@@ -0,0 +1,130 @@
+/**
+ * Service for the dental verification form, saved as numbered versions per patient and insurance
+ */
+
+import type { PrefillSource, VerificationFormData, VerificationFormField } from '@shared/verification-form';
+import type { FormTemplate } from './formTemplateService';
+
+export interface VerificationFormVersion {
+  version: number;
+  savedBy: string | null;
+  savedByName: string | null;
+  savedAt: string;
+}
+
+export interface SavedVerificationForm extends VerificationFormVersion {
+  id: string;
+  patientId: string;
+  insuranceId: string;
+  templateId: string | null; // Null for the standard form
+  currentVersion: number; // Send as baseVersion when saving
+  data: VerificationFormData;
+  withheld: VerificationFormField[]; // Blank because the user may not decrypt them
+}
+
+export interface VerificationFormPrefill {
+  data: VerificationFormData;
+  sources: Record<string, PrefillSource>; // Template fields by key
+  withheld: VerificationFormField[];
+}
+
+export interface VerificationFormResponse {
+  insuranceId: string;
+  insurances: { id: string; type: string; provider: string }[];
+  form: SavedVerificationForm | null; // Null until first saved
+  prefill: VerificationFormPrefill;
+  template: FormTemplate | null; // The form's template; null for the standard form
+  templates: Pick<FormTemplate, 'id' | 'name' | 'description'>[]; // Templates the form can switch to
+}
+
+/**
+ * Thrown when someone else saved the form since it was loaded
+ */
+export class VerificationFormConflictError extends Error {
+  constructor(message: string, public readonly form: SavedVerificationForm | null) {
+    super(message);
+    this.name = 'VerificationFormConflictError';
+  }
+}
+
+async function requestJson<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include', ...init });
+  const data = await response.json().catch(() => ({}));
+  if (response.status === 409) {
+    throw new VerificationFormConflictError(data.error || fallbackError, data.form ?? null);
+  }
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+function formUrl(patientId: string, path: string, query: Record<string, string | number | undefined>): string {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const search = params.toString();
+  return `/api/patients/${patientId}/verification-form${path}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * The latest saved form (or the given version) for the patient's primary insurance or the given
+ * one, with values to prefill it from the patient record and verification results
+ * @param templateId - Prefill for this template instead of the form's own ('standard' for the standard form)
+ */
+export async function fetchVerificationForm(
+  patientId: string,
+  insuranceId?: string,
+  version?: number,
+  templateId?: string
+): Promise<VerificationFormResponse> {
+  return requestJson(formUrl(patientId, '', { insuranceId, version, templateId }), {}, 'Failed to fetch verification form');
+}
+
+export async function fetchVerificationFormVersions(patientId: string, insuranceId?: string): Promise<VerificationFormVersion[]> {
+  const data = await requestJson<{ versions: VerificationFormVersion[] }>(
+    formUrl(patientId, '/versions', { insuranceId }), {}, 'Failed to fetch verification form versions');
+  return data.versions;
+}
+
+/**
+ * Saves the form as a new version
+ * @param baseVersion - The version the edits started from, 0 for a form never saved
+ * @param templateId - Template to save on, null for the standard form
+ * @throws VerificationFormConflictError with the latest version if someone saved in the meantime
+ */
+export async function saveVerificationForm(
+  patientId: string,
+  insuranceId: string,
+  data: VerificationFormData,
+  baseVersion: number,
+  templateId: string | null
+): Promise<SavedVerificationForm> {
+  const response = await requestJson<{ form: SavedVerificationForm }>(
+    formUrl(patientId, '', {}),
+    {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ insuranceId, data, baseVersion, templateId }),
+    },
+    'Failed to save verification form');
+  return response.form;
+}
+
+/**
+ * URL of a saved form's PDF, for opening in a new tab or downloading
+ */
+export function verificationFormPdfUrl(patientId: string, insuranceId?: string, version?: number, download: boolean = false): string {
+  return formUrl(patientId, '/pdf', { insuranceId, version, download: download ? 'true' : undefined });
+}
+
+/**
+ * Keeps a saved form's PDF in the patient's documents
+ */
+export async function attachVerificationFormPdf(patientId: string, insuranceId?: string, version?: number): Promise<void> {
+  await requestJson(
+    formUrl(patientId, '/pdf', {}),
+    { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ insuranceId, version }) },
+    'Failed to save PDF to documents');
+}
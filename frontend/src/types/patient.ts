@@ -91,115 +91,7 @@ export interface CoverageDetails {
   procedures: Procedure[];
 }
 
-export interface VerificationFormData {
-  // Patient Information
-  patientName: string;
-  patientSSN: string;
-  patientDOB: string;
-  relationshipToSubscriber: string;
-
-  // Subscriber Information
-  subscriberName: string;
-  subscriberSSN: string;
-  subscriberDOB: string;
-  subscriberID: string;
-
-  // Insurance Information
-  insuranceCompany: string;
-  insurerType: 'Primary' | 'Secondary';
-  insuranceAddress: string;
-  insurancePhone: string;
-  employer: string;
-  groupNumber: string;
-  effectiveDate: string;
-  renewalMonth: string;
-  yearlyMax: string;
-  deductiblePerIndividual: string;
-  deductiblePerFamily: string;
-  deductibleAppliesTo: {
-    preventative: boolean;
-    basic: boolean;
-    major: boolean;
-  };
-
-  // Preventative Coverage
-  preventativeCoveredAt: string;
-  preventativeWaitingPeriod: boolean;
-  preventativeEffectiveDate: string;
-  bitewingFrequency: string;
-  prophylaxisExamFrequency: string;
-  lastFMS: string;
-  eligibleForFMSNow: boolean;
-  eligibleForFMSEvery: string;
-  fluorideVarnishFrequency: string;
-  fluorideAgeLimitExists: boolean;
-  fluorideAgeLimit: string;
-  sealantCoverage: boolean;
-  sealantTeethCovered: {
-    molars: boolean;
-    premolars: boolean;
-  };
-  sealantAgeLimitExists: boolean;
-  sealantAgeLimit: string;
-  sealantReplacement: string;
-
-  // Basic Coverage
-  basicCoveredAt: string;
-  basicWaitingPeriod: boolean;
-  basicEffectiveDate: string;
-  basicIncludes: string;
-
-  // Major Coverage
-  majorCoveredAt: string;
-  majorWaitingPeriod: boolean;
-  majorEffectiveDate: string;
-  majorIncludes: string;
-
-  // Periodontal Coverage
-  srpHistory: boolean;
-  srpHistoryDate: string;
-  srpCovered: boolean;
-  srpFrequency: string;
-  srpAllQuadrantsSameVisit: boolean;
-  srpWaitingPeriod: string;
-  adultProphylaxisWithSRP: boolean;
-  adultProphylaxisWaitingPeriod: string;
-  periodontalMaintenanceCovered: boolean;
-  periodontalMaintenanceFrequency: string;
-
-  // Implant Coverage
-  endostealImplantsCovered: boolean;
-  endostealImplantsCoveredAt: string;
-  boneReplacementGraftsCovered: boolean;
-  boneReplacementGraftsCoveredAt: string;
-  guidedTissueRegenerationCovered: boolean;
-  guidedTissueRegenerationCoveredAt: string;
-  implantAbutmentsCovered: boolean;
-  implantAbutmentsCoveredAt: string;
-  implantCrownsCovered: boolean;
-  implantCrownsCoveredAt: string;
-  implantPreDeterminationRequired: boolean;
-
-  // Orthodontic Coverage
-  orthodonticsCovered: boolean;
-  orthodonticsCoveredAt: string;
-  orthodonticsAgeLimitExists: boolean;
-  orthodonticsAgeLimit: string;
-  orthodonticsLifetimeMaxExists: boolean;
-  orthodonticsLifetimeMax: string;
-
-  // Miscellaneous
-  nightguardsCovered: boolean;
-  nightguardsCoveredAt: string;
-  nitrousOxideCovered: boolean;
-  nitrousOxideCoveredAt: string;
-  crownsAndBridgesReplacement: string;
-  denturesReplacement: string;
-  missingToothClauseCovered: boolean;
-
-  // Additional Notes
-  additionalNotes: string;
-}
+export type { VerificationFormData } from '@shared/verification-form';
 
 export type FilterType =
   | 'Active'
@@ -214,6 +106,7 @@ export const TAB_TYPES = {
   INSURANCE_INFO: 'INSURANCE_INFO',
   INSURANCE: 'INSURANCE',
   APPOINTMENTS: 'APPOINTMENTS',
+  DOCUMENTS: 'DOCUMENTS',
   TREATMENT_HISTORY: 'TREATMENT_HISTORY',
 } as const;
 
@@ -226,6 +119,7 @@ export const TAB_LABELS: Record<TabType, string> = {
   [TAB_TYPES.INSURANCE]: 'Insurance - Coverage',
   [TAB_TYPES.AI_CALL_HISTORY]: 'Smart AI Transaction History',
   [TAB_TYPES.APPOINTMENTS]: 'Appointments',
+  [TAB_TYPES.DOCUMENTS]: 'Documents',
   [TAB_TYPES.TREATMENT_HISTORY]: 'Treatment History',
 };
 
@@ -6,7 +6,7 @@
 export interface Transaction {
   id: string;
   requestId: string;
-  type: 'FETCH' | 'API' | 'CALL' | 'FAX' | 'SAVE';
+  type: 'FETCH' | 'API' | 'CALL' | 'FAX' | 'ANALYSIS' | 'SAVE';
   status: 'SUCCESS' | 'PARTIAL' | 'FAILED' | 'Waiting';
   startTime: string;
   endTime?: string;
@@ -87,6 +87,7 @@ export function deriveVerificationStatusFromTransactions(transactions: Transacti
         break;
 
       case 'FAX':
+      case 'ANALYSIS':
         if (txn.status === 'Waiting') {
           // FAX is waiting means previous steps are done
           status.fetchPMS = 'completed';
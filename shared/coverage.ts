@@ -0,0 +1,10 @@
+// Where coverage by code values come from. A run has one source; its rows may name another when
+// a run merges values, e.g. a manual correction of an AI call result.
+
+export const COVERAGE_SOURCES = ['API', 'CALL', 'FAX', 'ANALYSIS', 'MANUAL'] as const;
+
+export type CoverageSource = typeof COVERAGE_SOURCES[number];
+
+export function isCoverageSource(value: unknown): value is CoverageSource {
+  return typeof value === 'string' && (COVERAGE_SOURCES as readonly string[]).includes(value);
+}
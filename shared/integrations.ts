@@ -0,0 +1,10 @@
+// Per-practice configuration of the outside services the app talks to. Kept on the practice so
+// every user of a practice works the same way, and set by admins on the Practices page.
+
+export interface PracticeIntegrations {
+  eligibilityApi: boolean; // Live 270/271 checks from the verification screen; off shows a sample response
+}
+
+export const DEFAULT_PRACTICE_INTEGRATIONS: PracticeIntegrations = {
+  eligibilityApi: false,
+};
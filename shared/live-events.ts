@@ -0,0 +1,25 @@
+// Change notifications pushed to a practice's open pages through GET /api/events. They name what
+// changed and its new status only; pages fetch the details through the audited read routes.
+export type VerificationStepStatus = 'pending' | 'in_progress' | 'completed';
+
+export type LiveEvent =
+  | {
+      type: 'transaction.created' | 'transaction.updated';
+      transactionId: string;
+      patientId: string;
+      transactionType: string;
+      status: string;
+    }
+  | {
+      type: 'verification-status.updated';
+      patientId: string;
+      steps: Record<'fetchPMS' | 'documentAnalysis' | 'apiVerification' | 'callCenter' | 'saveToPMS', VerificationStepStatus>;
+    }
+  | {
+      type: 'job.updated';
+      jobId: string;
+      patientId: string;
+      status: string;
+      currentStep: string | null;
+      step?: { step: string; attempt: number; status: string; message: string | null };
+    };
@@ -0,0 +1,44 @@
+// Password strength rules, checked by the API whenever a password is set and shown next to
+// password fields in the UI.
+
+export const PASSWORD_MIN_LENGTH = 12;
+
+export const PASSWORD_POLICY_HINT =
+  `At least ${PASSWORD_MIN_LENGTH} characters with three of: lowercase, uppercase, numbers, symbols. ` +
+  'Must not contain your username or email, or be a common or recently used password.';
+
+// Passwords, compared after removing digits and symbols, that are too well known to allow
+const COMMON_PASSWORDS = new Set([
+  'password', 'passwd', 'admin', 'administrator', 'letmein', 'welcome', 'qwerty', 'qwertyuiop',
+  'abc', 'abcdef', 'iloveyou', 'monkey', 'dragon', 'sunshine', 'football', 'baseball', 'changeme',
+  'secret', 'dental', 'insurance', 'smith', 'smithai', 'patient', 'doctor', 'health', 'login',
+]);
+
+/**
+ * Why a password breaks the policy, or null if it is acceptable
+ * @param user - The account the password is for; its username and email must not appear in it
+ */
+export function passwordPolicyError(password: string, user: { email?: string; username?: string }): string | null {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(pattern => pattern.test(password)).length;
+  if (classes < 3) {
+    return 'Password must use three of: lowercase letters, uppercase letters, numbers, symbols';
+  }
+
+  const lower = password.toLowerCase();
+  const personal = [user.username, user.email?.split('@')[0]]
+    .map(value => value?.toLowerCase())
+    .filter((value): value is string => !!value && value.length >= 3);
+  if (personal.some(value => lower.includes(value))) {
+    return 'Password must not contain your username or email';
+  }
+
+  if (COMMON_PASSWORDS.has(lower.replace(/[^a-z]/g, ''))) {
+    return 'Password is too common';
+  }
+
+  return null;
+}
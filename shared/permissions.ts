@@ -0,0 +1,87 @@
+// Role-based permissions. The API enforces them per route and the UI uses the same list to
+// decide which navigation to show.
+
+export const PERMISSIONS = [
+  'patient:read',
+  'patient:write',
+  'patient:delete',
+  'patient:decrypt', // Birth date, contact details, policy and group numbers
+  'patient:decrypt-ssn',
+  'transaction:read',
+  'transaction:write',
+  'coverage:read',
+  'coverage:write',
+  'eligibility:check',
+  'ocr:scan',
+  'fax:send',
+  'fax:manage', // Unmatched inbound faxes sent to the practice's fax number
+  'job:read',
+  'job:write',
+  'job:schedule',
+  'payer:read',
+  'payer:manage',
+  'form-template:manage', // Verification form templates of every practice
+  'practice:manage',
+  'user:manage',
+  'audit:read',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLES = ['admin', 'dental', 'insurance'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  // Dental office staff run verifications for their practice's patients
+  dental: [
+    'patient:read',
+    'patient:write',
+    'patient:delete',
+    'patient:decrypt',
+    'patient:decrypt-ssn',
+    'transaction:read',
+    'transaction:write',
+    'coverage:read',
+    'coverage:write',
+    'eligibility:check',
+    'ocr:scan',
+    'fax:send',
+    'job:read',
+    'job:write',
+    'payer:read',
+  ],
+  // Insurance agents work calls and eligibility checks; no access to identifiers such as SSN
+  insurance: [
+    'patient:read',
+    'transaction:read',
+    'transaction:write',
+    'coverage:read',
+    'eligibility:check',
+    'payer:read',
+  ],
+};
+
+export function isRole(role: unknown): role is Role {
+  return typeof role === 'string' && (ROLES as readonly string[]).includes(role);
+}
+
+/**
+ * Permissions granted to a role; unknown roles get none
+ */
+export function permissionsForRole(role: string | undefined): Permission[] {
+  return isRole(role) ? [...ROLE_PERMISSIONS[role]] : [];
+}
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return isRole(role) && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Holding any of these makes a second factor mandatory: user:manage covers admins, and
+// patient:decrypt anyone who can reveal PHI
+export const MFA_REQUIRED_PERMISSIONS: readonly Permission[] = ['user:manage', 'patient:decrypt'];
+
+export function mfaRequiredForRole(role: string | undefined): boolean {
+  return MFA_REQUIRED_PERMISSIONS.some(permission => hasPermission(role, permission));
+}
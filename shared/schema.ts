@@ -1,7 +1,10 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, timestamp, integer, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, timestamp, integer, decimal, unique, json, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { TemplateSection } from "./verification-form-template";
+import { DEFAULT_PRACTICE_INTEGRATIONS, type PracticeIntegrations } from "./integrations";
+import { COVERAGE_SOURCES, type CoverageSource } from "./coverage";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -23,10 +26,34 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Practices (dental offices) - the tenant boundary for patients, transactions and coverage data
+export const practices = pgTable("practices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  npi: text("npi"), // Billing provider NPI used on eligibility inquiries
+  address: text("address"), // Letterhead of generated forms; may span lines
+  phone: text("phone"),
+  faxNumber: text("fax_number").unique(), // Receiving fax number, digits only; inbound faxes to it belong to the practice
+  integrations: json("integrations").$type<PracticeIntegrations>().notNull().default(DEFAULT_PRACTICE_INTEGRATIONS),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Practice memberships - a user can belong to several practices with a role in each
+export const practiceMemberships = pgTable("practice_memberships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  practiceId: varchar("practice_id").notNull().references(() => practices.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("staff"), // 'owner' | 'manager' | 'staff'
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("practice_memberships_practice_user").on(table.practiceId, table.userId)]);
+
 // Patients table
 export const patients = pgTable("patients", {
   id: varchar("id").primaryKey(),
-  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // Staff member who created the record
+  practiceId: varchar("practice_id").references(() => practices.id, { onDelete: "cascade" }), // Null only for rows created before practices existed
   active: boolean("active").notNull().default(true),
   givenName: text("given_name").notNull(),
   familyName: text("family_name").notNull(),
@@ -148,7 +175,7 @@ export const transactions = pgTable("transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   requestId: varchar("request_id").notNull(),
   patientId: varchar("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
-  type: text("type").notNull(), // 'FETCH' | 'API' | 'CALL' | 'FAX' | 'SAVE'
+  type: text("type").notNull(), // 'FETCH' | 'API' | 'ANALYSIS' | 'CALL' | 'FAX' | 'SAVE'
   method: text("method").notNull(),
   startTime: text("start_time").notNull(),
   endTime: text("end_time"),
@@ -191,11 +218,25 @@ export const transactionDataVerified = pgTable("transaction_data_verified", {
   item: text("item").notNull(),
 });
 
+// Coverage by code snapshots - one per saved verification run; earlier runs are kept for history
+export const coverageByCodeRuns = pgTable("coverage_by_code_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  practiceId: varchar("practice_id").references(() => practices.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // Null for runs saved by the system
+  source: text("source").$type<CoverageSource>().notNull().default("API"),
+  sourceRef: text("source_ref"), // ID of the transaction, document or fax the values came from
+  rowCount: integer("row_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Coverage by code data
 export const coverageByCode = pgTable("coverage_by_code", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   patientId: varchar("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
-  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // Null for rows saved by the system
+  practiceId: varchar("practice_id").references(() => practices.id, { onDelete: "cascade" }),
+  runId: varchar("run_id").references(() => coverageByCodeRuns.id, { onDelete: "cascade" }), // Null only for rows saved before runs, until the startup backfill
   saiCode: text("sai_code"),
   refInsCode: text("ref_ins_code"),
   category: text("category"),
@@ -204,11 +245,253 @@ export const coverageByCode = pgTable("coverage_by_code", {
   verified: boolean("verified"),
   verifiedBy: text("verified_by"),
   comments: text("comments"),
+  source: text("source").$type<CoverageSource>().notNull().default("API"), // Provenance of the row's values
+  sourceRef: text("source_ref"), // e.g. the document and page an analyzed value was read from
   timestamp: timestamp("timestamp").defaultNow().notNull(),
   coverageData: text("coverage_data"), // JSON string of complete coverage data
 });
 
+// Payer directory - maps carrier names, aliases and OCR hits to routing destinations
+export const payers = pgTable("payers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  payerId: text("payer_id"), // Trading partner ID used in X12 270 NM1*PR
+  aliases: text("aliases").array().notNull().default(sql`'{}'::text[]`), // Alternate names and card text
+  phoneNumber: text("phone_number"), // Provider services line for AI calls
+  faxNumber: text("fax_number"), // Benefit breakdown fax requests
+  supportedTransactions: text("supported_transactions").array().notNull().default(sql`'{}'::text[]`), // 'API' | 'CALL' | 'FAX'
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Verification workflow jobs - one run of the five-step pipeline for a patient
+export const verificationJobs = pgTable("verification_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  insuranceId: varchar("insurance_id").references(() => insurances.id, { onDelete: "set null" }),
+  appointmentId: varchar("appointment_id").references(() => appointments.id, { onDelete: "set null" }), // Set for jobs queued by the nightly scheduler
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'waiting' | 'completed' | 'failed' | 'cancelled'
+  currentStep: text("current_step"), // 'fetchPMS' | 'apiVerification' | 'documentAnalysis' | 'callCenter' | 'saveToPMS'
+  scheduledFor: timestamp("scheduled_for").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  rules: text("rules"), // JSON string of per-step retry/skip overrides
+  context: text("context"), // JSON string of data passed between steps
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Verification workflow step attempts - one row per attempt, updated as it moves pending -> in_progress -> final state
+export const verificationJobSteps = pgTable("verification_job_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull().references(() => verificationJobs.id, { onDelete: "cascade" }),
+  step: text("step").notNull(),
+  attempt: integer("attempt").notNull().default(1),
+  status: text("status").notNull(), // 'in_progress' | 'waiting' | 'completed' | 'failed' | 'skipped'
+  transactionId: varchar("transaction_id").references(() => transactions.id, { onDelete: "set null" }),
+  message: text("message"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Scheduler runs - one row per scheduled task per day so a restart does not repeat a finished run
+export const schedulerRuns = pgTable("scheduler_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  task: text("task").notNull(), // 'daily-verification'
+  runDate: text("run_date").notNull(), // YYYY-MM-DD
+  status: text("status").notNull(), // 'running' | 'completed' | 'failed'
+  jobsQueued: integer("jobs_queued").notNull().default(0),
+  errorMessage: text("error_message"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Login sessions - the connect-pg-simple store's table, declared here so db:push creates it.
+// sess holds the express-session data: cookie, userId, createdAt, lastActivityAt, ipAddress, userAgent.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
+// TOTP second factors - one per user. enabledAt is null until enrollment is confirmed with a code.
+export const mfaFactors = pgTable("mfa_factors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // Encrypted base32 TOTP secret
+  recoveryCodes: json("recovery_codes").$type<string[]>().notNull().default([]), // SHA-256 hashes of unused codes
+  lastUsedStep: integer("last_used_step"), // TOTP time step of the last accepted code, so a code cannot be replayed
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Previous password hashes, so a password change cannot reuse a recent one
+export const passwordHistory = pgTable("password_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_password_history_user").on(table.userId)]);
+
+// Single-use links emailed to users: invitations to set a first password, and password resets.
+// Only a hash of the token is stored.
+export const authTokens = pgTable("auth_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose").notNull(), // 'invite' | 'reset'
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the emailed token
+  createdBy: varchar("created_by"), // Admin who sent an invitation
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_auth_tokens_user").on(table.userId)]);
+
+// Failed login counters. Accounts are keyed by lowercased email so unknown emails are throttled
+// the same way as real ones.
+export const loginThrottles = pgTable("login_throttles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: text("scope").notNull(), // 'account' | 'ip'
+  key: text("key").notNull(), // Lowercased email or IP address
+  failures: integer("failures").notNull().default(0), // Consecutive failures since the last success or quiet period
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until"),
+}, (table) => [unique("login_throttles_scope_key").on(table.scope, table.key)]);
+
+// Insurance card OCR results waiting for review. Nothing is written to the patient or their
+// insurance until staff confirm the fields.
+export const ocrExtractions = pgTable("ocr_extractions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  practiceId: varchar("practice_id").references(() => practices.id, { onDelete: "cascade" }),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  status: text("status").notNull().default("pending"), // 'pending' | 'confirmed' | 'rejected'
+  extractedData: text("extracted_data").notNull(), // Encrypted JSON of the values read from the card
+  proposedData: text("proposed_data").notNull(), // Encrypted JSON of the values to apply, including reviewer edits
+  confidence: json("confidence").$type<Record<string, number>>().notNull().default({}), // Per-field OCR confidence (0-100)
+  template: text("template"), // Payer card layout used
+  appliedFields: text("applied_fields").array(), // Fields written when confirmed
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("IDX_ocr_extractions_patient").on(table.patientId)]);
+
+// Patient documents: insurance card images, EOBs, faxed benefit sheets. Each upload adds a version;
+// the files themselves are kept encrypted on disk.
+export const patientDocuments = pgTable("patient_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  practiceId: varchar("practice_id").references(() => practices.id, { onDelete: "cascade" }),
+  category: text("category").notNull(), // 'insurance-card-front' | 'insurance-card-back' | 'eob' | 'benefit-fax' | 'fax-request' | 'verification-form' | 'other'
+  currentVersion: integer("current_version").notNull().default(0), // Latest version number
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [index("IDX_patient_documents_patient").on(table.patientId)]);
+
+export const documentVersions = pgTable("document_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  documentId: varchar("document_id").notNull().references(() => patientDocuments.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  fileName: text("file_name").notNull(), // Encrypted - uploaded file name
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // Bytes before encryption
+  storageKey: text("storage_key").notNull().unique(), // Names the encrypted file (and thumbnail) on disk
+  encryptionKey: text("encryption_key").notNull(), // Encrypted - data key for the file and its thumbnail
+  hasThumbnail: boolean("has_thumbnail").notNull().default(false),
+  uploadedBy: varchar("uploaded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique("document_versions_document_version").on(table.documentId, table.version)]);
+
+// Faxes sent to payers to request a benefit breakdown, and faxes received back. A received fax is
+// stored in the patient's documents once it is matched to a request; until then its file is kept
+// encrypted on disk under storageKey.
+export const faxes = pgTable("faxes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  direction: text("direction").notNull(), // 'outbound' | 'inbound'
+  status: text("status").notNull(), // outbound: 'sending' | 'sent' | 'answered' | 'failed'; inbound: 'matched' | 'unmatched'
+  practiceId: varchar("practice_id").references(() => practices.id, { onDelete: "cascade" }),
+  patientId: varchar("patient_id").references(() => patients.id, { onDelete: "cascade" }), // Null for unmatched inbound faxes
+  transactionId: varchar("transaction_id").references(() => transactions.id, { onDelete: "set null" }), // The patient's FAX transaction
+  documentId: varchar("document_id").references(() => patientDocuments.id, { onDelete: "set null" }), // Sent request form or received fax
+  reference: text("reference"), // Printed on the cover sheet so the reply can be matched to its request
+  replyTo: varchar("reply_to"), // Inbound: the outbound fax it answers
+  remoteNumber: text("remote_number"), // Payer fax number, digits only
+  provider: text("provider").notNull(),
+  providerFaxId: text("provider_fax_id"),
+  pages: integer("pages"),
+  storageKey: text("storage_key"), // Unmatched inbound only
+  encryptionKey: text("encryption_key"), // Encrypted - data key for storageKey
+  errorMessage: text("error_message"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_faxes_patient").on(table.patientId),
+  index("IDX_faxes_remote_number").on(table.remoteNumber),
+  unique("faxes_reference").on(table.reference),
+]);
+
+// Dental verification forms, one per patient and insurance. Every save adds a version, so earlier
+// answers and who gave them are kept.
+// Verification form templates - sections and fields of the form, for one practice and/or payer or
+// for all of them
+export const verificationFormTemplates = pgTable("verification_form_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  practiceId: varchar("practice_id").references(() => practices.id, { onDelete: "cascade" }), // Null: every practice
+  payerId: varchar("payer_id").references(() => payers.id, { onDelete: "cascade" }), // Null: every payer
+  sections: json("sections").$type<TemplateSection[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const verificationForms = pgTable("verification_forms", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  patientId: varchar("patient_id").notNull().references(() => patients.id, { onDelete: "cascade" }),
+  insuranceId: varchar("insurance_id").notNull().references(() => insurances.id, { onDelete: "cascade" }),
+  practiceId: varchar("practice_id").references(() => practices.id, { onDelete: "cascade" }),
+  currentVersion: integer("current_version").notNull().default(0), // Latest version number
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [unique("verification_forms_patient_insurance").on(table.patientId, table.insuranceId)]);
+
+export const verificationFormVersions = pgTable("verification_form_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  formId: varchar("form_id").notNull().references(() => verificationForms.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  data: text("data").notNull(), // Encrypted JSON of the form fields
+  templateId: varchar("template_id").references(() => verificationFormTemplates.id, { onDelete: "set null" }), // Null: the standard form
+  savedBy: varchar("saved_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [unique("verification_form_versions_form_version").on(table.formId, table.version)]);
+
+// PHI access audit log - append-only, one row per read, decrypt, export, print or OCR of patient data.
+// No foreign keys, so entries outlive the users and patients they name.
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"),
+  userEmail: text("user_email"), // Copied at write time
+  practiceId: varchar("practice_id"),
+  patientId: varchar("patient_id"),
+  action: text("action").notNull(), // 'read' | 'decrypt' | 'export' | 'print' | 'ocr'
+  resource: text("resource").notNull(), // 'patient' | 'insurance' | 'transaction' | 'coverage' | 'job' | 'ocr-extraction' | 'document' | 'fax' | 'verification-form' | 'audit-log'
+  resourceId: varchar("resource_id"),
+  field: text("field"), // Decrypted field, e.g. 'ssn'
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Export insert schemas
+export const insertPracticeSchema = createInsertSchema(practices);
+export const insertPracticeMembershipSchema = createInsertSchema(practiceMemberships);
 export const insertPatientSchema = createInsertSchema(patients);
 export const insertPatientTelecomSchema = createInsertSchema(patientTelecoms);
 export const insertPatientAddressSchema = createInsertSchema(patientAddresses);
@@ -221,9 +504,30 @@ export const insertVerificationStatusSchema = createInsertSchema(verificationSta
 export const insertAiCallHistorySchema = createInsertSchema(aiCallHistory);
 export const insertTransactionSchema = createInsertSchema(transactions);
 export const insertCallCommunicationSchema = createInsertSchema(callCommunications);
-export const insertCoverageByCodeSchema = createInsertSchema(coverageByCode);
+export const insertCoverageByCodeRunSchema = createInsertSchema(coverageByCodeRuns, { source: z.enum(COVERAGE_SOURCES).optional() });
+export const insertCoverageByCodeSchema = createInsertSchema(coverageByCode, { source: z.enum(COVERAGE_SOURCES).optional() });
+export const insertPayerSchema = createInsertSchema(payers);
+export const insertVerificationJobSchema = createInsertSchema(verificationJobs);
+export const insertVerificationJobStepSchema = createInsertSchema(verificationJobSteps);
+export const insertSchedulerRunSchema = createInsertSchema(schedulerRuns);
+export const insertAuditLogSchema = createInsertSchema(auditLogs);
+export const insertMfaFactorSchema = createInsertSchema(mfaFactors);
+export const insertPasswordHistorySchema = createInsertSchema(passwordHistory);
+export const insertLoginThrottleSchema = createInsertSchema(loginThrottles);
+export const insertAuthTokenSchema = createInsertSchema(authTokens);
+export const insertOcrExtractionSchema = createInsertSchema(ocrExtractions);
+export const insertPatientDocumentSchema = createInsertSchema(patientDocuments);
+export const insertDocumentVersionSchema = createInsertSchema(documentVersions);
+export const insertFaxSchema = createInsertSchema(faxes);
+export const insertVerificationFormTemplateSchema = createInsertSchema(verificationFormTemplates);
+export const insertVerificationFormSchema = createInsertSchema(verificationForms);
+export const insertVerificationFormVersionSchema = createInsertSchema(verificationFormVersions);
 
 // Export types
+export type Practice = typeof practices.$inferSelect;
+export type InsertPractice = z.infer<typeof insertPracticeSchema>;
+export type PracticeMembership = typeof practiceMemberships.$inferSelect;
+export type InsertPracticeMembership = z.infer<typeof insertPracticeMembershipSchema>;
 export type Patient = typeof patients.$inferSelect;
 export type InsertPatient = z.infer<typeof insertPatientSchema>;
 export type PatientTelecom = typeof patientTelecoms.$inferSelect;
@@ -243,3 +547,36 @@ export type InsertProcedure = z.infer<typeof insertProcedureSchema>;
 export type TransactionDataVerified = typeof transactionDataVerified.$inferSelect;
 export type CoverageByCode = typeof coverageByCode.$inferSelect;
 export type InsertCoverageByCode = z.infer<typeof insertCoverageByCodeSchema>;
+export type CoverageByCodeRun = typeof coverageByCodeRuns.$inferSelect;
+export type InsertCoverageByCodeRun = z.infer<typeof insertCoverageByCodeRunSchema>;
+export type Payer = typeof payers.$inferSelect;
+export type InsertPayer = z.infer<typeof insertPayerSchema>;
+export type VerificationJob = typeof verificationJobs.$inferSelect;
+export type InsertVerificationJob = z.infer<typeof insertVerificationJobSchema>;
+export type VerificationJobStep = typeof verificationJobSteps.$inferSelect;
+export type InsertVerificationJobStep = z.infer<typeof insertVerificationJobStepSchema>;
+export type SchedulerRun = typeof schedulerRuns.$inferSelect;
+export type InsertSchedulerRun = z.infer<typeof insertSchedulerRunSchema>;
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type MfaFactor = typeof mfaFactors.$inferSelect;
+export type InsertMfaFactor = z.infer<typeof insertMfaFactorSchema>;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type OcrExtraction = typeof ocrExtractions.$inferSelect;
+export type InsertOcrExtraction = z.infer<typeof insertOcrExtractionSchema>;
+export type PatientDocument = typeof patientDocuments.$inferSelect;
+export type InsertPatientDocument = z.infer<typeof insertPatientDocumentSchema>;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = z.infer<typeof insertDocumentVersionSchema>;
+export type Fax = typeof faxes.$inferSelect;
+export type InsertFax = z.infer<typeof insertFaxSchema>;
+export type VerificationFormTemplate = typeof verificationFormTemplates.$inferSelect;
+export type InsertVerificationFormTemplate = z.infer<typeof insertVerificationFormTemplateSchema>;
+export type VerificationForm = typeof verificationForms.$inferSelect;
+export type InsertVerificationForm = z.infer<typeof insertVerificationFormSchema>;
+export type VerificationFormVersion = typeof verificationFormVersions.$inferSelect;
+export type InsertVerificationFormVersion = z.infer<typeof insertVerificationFormVersionSchema>;
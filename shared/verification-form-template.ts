@@ -0,0 +1,215 @@
+// Verification form templates: the sections and fields a practice fills in for a payer. A field's
+// key is either one of the standard form's fields (`yearlyMax`, or `insurerType.primary` for an
+// option) or a key of the template's own, saved under the form's `custom` values.
+
+import { emptyVerificationForm, type VerificationFormData } from './verification-form';
+
+export const TEMPLATE_FIELD_TYPES = ['text', 'textarea', 'date', 'percent', 'amount', 'yes-no', 'select'] as const;
+
+export type TemplateFieldType = typeof TEMPLATE_FIELD_TYPES[number];
+
+export type TemplateFieldValue = string | boolean; // true/false for 'yes-no' fields
+
+export interface TemplateField {
+  key: string;
+  label: string;
+  type: TemplateFieldType;
+  required?: boolean;
+  options?: string[]; // Choices of a 'select' field
+  saiCode?: string; // Benefit row the field is prefilled from, e.g. VF000013
+  refInsCode?: string; // Payer reference code of that row, e.g. D013
+}
+
+export interface TemplateSection {
+  title: string;
+  fields: TemplateField[];
+}
+
+export const MAX_TEMPLATE_SECTIONS = 30;
+export const MAX_SECTION_FIELDS = 100;
+
+const STANDARD_FORM = emptyVerificationForm();
+
+/**
+ * Whether a standard field holds text or yes/no, or undefined for a template's own field
+ */
+export function standardFieldKind(key: string): 'string' | 'boolean' | undefined {
+  const [field, option, ...rest] = key.split('.');
+  const initial = (STANDARD_FORM as unknown as Record<string, unknown>)[field];
+  if (initial === undefined || rest.length > 0) return undefined;
+  if (typeof initial === 'object' && initial !== null) {
+    return option !== undefined && option in initial ? 'boolean' : undefined;
+  }
+  if (option !== undefined) return undefined;
+  return typeof initial === 'boolean' ? 'boolean' : 'string';
+}
+
+export function emptyFieldValue(field: Pick<TemplateField, 'type'>): TemplateFieldValue {
+  return field.type === 'yes-no' ? false : '';
+}
+
+export function readFieldValue(data: VerificationFormData, key: string): TemplateFieldValue | undefined {
+  const kind = standardFieldKind(key);
+  if (!kind) return data.custom?.[key];
+  const [field, option] = key.split('.');
+  const value = (data as unknown as Record<string, any>)[field];
+  return option !== undefined ? value?.[option] : value;
+}
+
+/**
+ * A copy of the form with one field set
+ */
+export function writeFieldValue(data: VerificationFormData, key: string, value: TemplateFieldValue): VerificationFormData {
+  const kind = standardFieldKind(key);
+  if (!kind) return { ...data, custom: { ...data.custom, [key]: value } };
+  const [field, option] = key.split('.');
+  const current = (data as unknown as Record<string, any>)[field];
+  return { ...data, [field]: option !== undefined ? { ...current, [option]: value } : value };
+}
+
+function field(key: string, label: string, type: TemplateFieldType = 'text', codes?: string): TemplateField {
+  // Codes are written as the SAI code's number, e.g. '013' for VF000013 / D013
+  return codes ? { key, label, type, saiCode: `VF000${codes}`, refInsCode: `D${codes}` } : { key, label, type };
+}
+
+/**
+ * The built-in form, used when no template applies. Admins start new templates from a copy of it.
+ */
+export const STANDARD_TEMPLATE_SECTIONS: TemplateSection[] = [
+  {
+    title: 'Patient Information',
+    fields: [
+      field('patientName', 'Patient Name'),
+      field('patientSSN', 'Patient SSN'),
+      field('patientDOB', 'Patient Date of Birth', 'date'),
+      field('relationshipToSubscriber', 'Relationship to Subscriber'),
+    ],
+  },
+  {
+    title: 'Subscriber Information',
+    fields: [
+      field('subscriberName', 'Subscriber Name'),
+      field('subscriberSSN', 'Subscriber SSN'),
+      field('subscriberDOB', 'Subscriber Date of Birth', 'date'),
+      field('subscriberID', 'Subscriber ID', 'text', '005'),
+    ],
+  },
+  {
+    title: 'Insurance Information',
+    fields: [
+      field('insuranceCompany', 'Insurance Company', 'text', '004'),
+      field('insurerType.primary', 'Primary Insurer', 'yes-no'),
+      field('insurerType.secondary', 'Secondary Insurer', 'yes-no'),
+      field('insuranceAddress', 'Insurance Address'),
+      field('insurancePhone', 'Insurance Phone'),
+      field('employer', 'Employer'),
+      field('groupNumber', 'Group Number', 'text', '002'),
+      field('effectiveDate', 'Effective Date', 'date', '003'),
+      field('renewalMonth', 'Renewal Month'),
+      field('yearlyMax', 'Yearly Maximum', 'amount', '060'),
+      field('deductiblePerIndividual', 'Deductible Per Individual', 'amount', '051'),
+      field('deductiblePerFamily', 'Deductible Per Family', 'amount', '053'),
+      field('deductibleAppliesTo.preventative', 'Deductible Applies to Preventative', 'yes-no'),
+      field('deductibleAppliesTo.basic', 'Deductible Applies to Basic', 'yes-no'),
+      field('deductibleAppliesTo.major', 'Deductible Applies to Major', 'yes-no'),
+    ],
+  },
+  {
+    title: 'Preventative Coverage',
+    fields: [
+      field('preventativeCoveredAt', 'Preventative Covered At', 'percent', '013'),
+      field('preventativeWaitingPeriod', 'Preventative Waiting Period', 'yes-no'),
+      field('preventativeEffectiveDate', 'Preventative Effective Date', 'date'),
+      field('bitewingFrequency', 'Bitewing Frequency', 'text', '012'),
+      field('prophylaxisExamFrequency', 'Prophylaxis/Exam Frequency', 'text', '010'),
+      field('lastFMS', 'Last FMS', 'date', '029'),
+      field('eligibleForFMSNow', 'Eligible for FMS Now', 'yes-no', '040'),
+      field('eligibleForFMSEvery', 'Eligible for FMS Every (Years)', 'text', '041'),
+      field('fluorideVarnishFrequency', 'Fluoride Varnish Frequency', 'text', '042'),
+      field('fluorideAgeLimitExists', 'Fluoride Age Limit', 'yes-no'),
+      field('fluorideAgeLimit', 'Fluoride Age Limit (Age)'),
+      field('sealantCoverage', 'Sealant Coverage', 'yes-no'),
+      field('sealantTeethCovered.molars', 'Sealants on Molars', 'yes-no'),
+      field('sealantTeethCovered.premolars', 'Sealants on Premolars', 'yes-no'),
+      field('sealantAgeLimitExists', 'Sealant Age Limit', 'yes-no'),
+      field('sealantAgeLimit', 'Sealant Age Limit (Age)'),
+      field('sealantReplacement', 'Sealant Replacement'),
+    ],
+  },
+  {
+    title: 'Basic Coverage',
+    fields: [
+      field('basicCoveredAt', 'Basic Covered At', 'percent', '023'),
+      field('basicWaitingPeriod', 'Basic Waiting Period', 'yes-no', '043'),
+      field('basicEffectiveDate', 'Basic Effective Date', 'date'),
+      field('basicIncludes', 'Basic Includes', 'textarea'),
+    ],
+  },
+  {
+    title: 'Major Coverage',
+    fields: [
+      field('majorCoveredAt', 'Major Covered At', 'percent', '035'),
+      field('majorWaitingPeriod', 'Major Waiting Period', 'yes-no', '045'),
+      field('majorEffectiveDate', 'Major Effective Date', 'date', '046'),
+      field('majorIncludes', 'Major Includes', 'textarea'),
+    ],
+  },
+  {
+    title: 'Periodontal Coverage',
+    fields: [
+      field('srpHistory', 'SRP History', 'yes-no'),
+      field('srpHistoryDate', 'SRP History Date', 'date'),
+      field('srpCovered', 'SRP Covered', 'yes-no', '022'),
+      field('srpFrequency', 'SRP Frequency'),
+      field('srpAllQuadrantsSameVisit', 'All Quadrants Same Visit', 'yes-no'),
+      field('srpWaitingPeriod', 'SRP Waiting Period'),
+      field('adultProphylaxisWithSRP', 'Adult Prophylaxis with SRP', 'yes-no'),
+      field('adultProphylaxisWaitingPeriod', 'Adult Prophylaxis Waiting Period'),
+      field('periodontalMaintenanceCovered', 'Periodontal Maintenance Covered', 'yes-no'),
+      field('periodontalMaintenanceFrequency', 'Periodontal Maintenance Frequency'),
+    ],
+  },
+  {
+    title: 'Implant Coverage',
+    fields: [
+      field('endostealImplantsCovered', 'Endosteal Implants Covered', 'yes-no'),
+      field('endostealImplantsCoveredAt', 'Endosteal Implants Covered At', 'percent'),
+      field('boneReplacementGraftsCovered', 'Bone Replacement Grafts Covered', 'yes-no'),
+      field('boneReplacementGraftsCoveredAt', 'Bone Replacement Grafts Covered At', 'percent'),
+      field('guidedTissueRegenerationCovered', 'Guided Tissue Regeneration Covered', 'yes-no'),
+      field('guidedTissueRegenerationCoveredAt', 'Guided Tissue Regeneration Covered At', 'percent'),
+      field('implantAbutmentsCovered', 'Implant Abutments Covered', 'yes-no'),
+      field('implantAbutmentsCoveredAt', 'Implant Abutments Covered At', 'percent'),
+      field('implantCrownsCovered', 'Implant Crowns Covered', 'yes-no'),
+      field('implantCrownsCoveredAt', 'Implant Crowns Covered At', 'percent'),
+      field('implantPreDeterminationRequired', 'Pre-determination Required', 'yes-no'),
+    ],
+  },
+  {
+    title: 'Orthodontic Coverage',
+    fields: [
+      field('orthodonticsCovered', 'Orthodontics Covered', 'yes-no'),
+      field('orthodonticsCoveredAt', 'Orthodontics Covered At', 'percent'),
+      field('orthodonticsAgeLimitExists', 'Orthodontics Age Limit', 'yes-no'),
+      field('orthodonticsAgeLimit', 'Orthodontics Age Limit (Age)'),
+      field('orthodonticsLifetimeMaxExists', 'Orthodontics Lifetime Maximum', 'yes-no'),
+      field('orthodonticsLifetimeMax', 'Orthodontics Lifetime Maximum (Amount)', 'amount', '061'),
+    ],
+  },
+  {
+    title: 'Miscellaneous',
+    fields: [
+      field('nightguardsCovered', 'Nightguards Covered', 'yes-no'),
+      field('nightguardsCoveredAt', 'Nightguards Covered At', 'percent'),
+      field('nitrousOxideCovered', 'Nitrous Oxide Covered', 'yes-no'),
+      field('nitrousOxideCoveredAt', 'Nitrous Oxide Covered At', 'percent'),
+      field('crownsAndBridgesReplacement', 'Crowns and Bridges Replacement (Years)'),
+      field('denturesReplacement', 'Dentures Replacement (Years)'),
+      field('missingToothClauseCovered', 'Missing Tooth Clause', 'yes-no'),
+    ],
+  },
+  {
+    title: 'Additional Notes',
+    fields: [field('additionalNotes', 'Notes', 'textarea')],
+  },
+];
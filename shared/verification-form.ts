@@ -0,0 +1,212 @@
+// The dental verification form: one per patient and insurance, saved as numbered versions through
+// GET/PUT /api/patients/:id/verification-form. The API keeps only the fields listed here, plus the
+// fields of the form's template.
+
+import type { TemplateFieldValue } from './verification-form-template';
+
+export interface VerificationFormData {
+  // Patient Information
+  patientName: string;
+  patientSSN: string;
+  patientDOB: string;
+  relationshipToSubscriber: string;
+
+  // Subscriber Information
+  subscriberName: string;
+  subscriberSSN: string;
+  subscriberDOB: string;
+  subscriberID: string;
+
+  // Insurance Information
+  insuranceCompany: string;
+  insurerType: {
+    primary: boolean;
+    secondary: boolean;
+  };
+  insuranceAddress: string;
+  insurancePhone: string;
+  employer: string;
+  groupNumber: string;
+  effectiveDate: string;
+  renewalMonth: string;
+  yearlyMax: string;
+  deductiblePerIndividual: string;
+  deductiblePerFamily: string;
+  deductibleAppliesTo: {
+    preventative: boolean;
+    basic: boolean;
+    major: boolean;
+  };
+
+  // Preventative Coverage
+  preventativeCoveredAt: string;
+  preventativeWaitingPeriod: boolean;
+  preventativeEffectiveDate: string;
+  bitewingFrequency: string;
+  prophylaxisExamFrequency: string;
+  lastFMS: string;
+  eligibleForFMSNow: boolean;
+  eligibleForFMSEvery: string;
+  fluorideVarnishFrequency: string;
+  fluorideAgeLimitExists: boolean;
+  fluorideAgeLimit: string;
+  sealantCoverage: boolean;
+  sealantTeethCovered: {
+    molars: boolean;
+    premolars: boolean;
+  };
+  sealantAgeLimitExists: boolean;
+  sealantAgeLimit: string;
+  sealantReplacement: string;
+
+  // Basic Coverage
+  basicCoveredAt: string;
+  basicWaitingPeriod: boolean;
+  basicEffectiveDate: string;
+  basicIncludes: string;
+
+  // Major Coverage
+  majorCoveredAt: string;
+  majorWaitingPeriod: boolean;
+  majorEffectiveDate: string;
+  majorIncludes: string;
+
+  // Periodontal Coverage
+  srpHistory: boolean;
+  srpHistoryDate: string;
+  srpCovered: boolean;
+  srpFrequency: string;
+  srpAllQuadrantsSameVisit: boolean;
+  srpWaitingPeriod: string;
+  adultProphylaxisWithSRP: boolean;
+  adultProphylaxisWaitingPeriod: string;
+  periodontalMaintenanceCovered: boolean;
+  periodontalMaintenanceFrequency: string;
+
+  // Implant Coverage
+  endostealImplantsCovered: boolean;
+  endostealImplantsCoveredAt: string;
+  boneReplacementGraftsCovered: boolean;
+  boneReplacementGraftsCoveredAt: string;
+  guidedTissueRegenerationCovered: boolean;
+  guidedTissueRegenerationCoveredAt: string;
+  implantAbutmentsCovered: boolean;
+  implantAbutmentsCoveredAt: string;
+  implantCrownsCovered: boolean;
+  implantCrownsCoveredAt: string;
+  implantPreDeterminationRequired: boolean;
+
+  // Orthodontic Coverage
+  orthodonticsCovered: boolean;
+  orthodonticsCoveredAt: string;
+  orthodonticsAgeLimitExists: boolean;
+  orthodonticsAgeLimit: string;
+  orthodonticsLifetimeMaxExists: boolean;
+  orthodonticsLifetimeMax: string;
+
+  // Miscellaneous
+  nightguardsCovered: boolean;
+  nightguardsCoveredAt: string;
+  nitrousOxideCovered: boolean;
+  nitrousOxideCoveredAt: string;
+  crownsAndBridgesReplacement: string;
+  denturesReplacement: string;
+  missingToothClauseCovered: boolean;
+
+  // Additional Notes
+  additionalNotes: string;
+
+  // Fields of the form's template that the standard form lacks, by template field key
+  custom?: Record<string, TemplateFieldValue>;
+}
+
+export type VerificationFormField = keyof VerificationFormData;
+
+// Where a prefilled value came from, lowest precedence first
+export const PREFILL_SOURCES = ['pms', 'ocr', 'document-analysis', 'eligibility', 'ai-call'] as const;
+
+export type PrefillSource = typeof PREFILL_SOURCES[number];
+
+export function emptyVerificationForm(): VerificationFormData {
+  return {
+    patientName: '',
+    patientSSN: '',
+    patientDOB: '',
+    relationshipToSubscriber: '',
+    subscriberName: '',
+    subscriberSSN: '',
+    subscriberDOB: '',
+    subscriberID: '',
+    insuranceCompany: '',
+    insurerType: { primary: true, secondary: false },
+    insuranceAddress: '',
+    insurancePhone: '',
+    employer: '',
+    groupNumber: '',
+    effectiveDate: '',
+    renewalMonth: '',
+    yearlyMax: '',
+    deductiblePerIndividual: '',
+    deductiblePerFamily: '',
+    deductibleAppliesTo: { preventative: false, basic: false, major: false },
+    preventativeCoveredAt: '',
+    preventativeWaitingPeriod: false,
+    preventativeEffectiveDate: '',
+    bitewingFrequency: '',
+    prophylaxisExamFrequency: '',
+    lastFMS: '',
+    eligibleForFMSNow: false,
+    eligibleForFMSEvery: '',
+    fluorideVarnishFrequency: '',
+    fluorideAgeLimitExists: false,
+    fluorideAgeLimit: '',
+    sealantCoverage: false,
+    sealantTeethCovered: { molars: false, premolars: false },
+    sealantAgeLimitExists: false,
+    sealantAgeLimit: '',
+    sealantReplacement: '',
+    basicCoveredAt: '',
+    basicWaitingPeriod: false,
+    basicEffectiveDate: '',
+    basicIncludes: '',
+    majorCoveredAt: '',
+    majorWaitingPeriod: false,
+    majorEffectiveDate: '',
+    majorIncludes: '',
+    srpHistory: false,
+    srpHistoryDate: '',
+    srpCovered: false,
+    srpFrequency: '',
+    srpAllQuadrantsSameVisit: false,
+    srpWaitingPeriod: '',
+    adultProphylaxisWithSRP: false,
+    adultProphylaxisWaitingPeriod: '',
+    periodontalMaintenanceCovered: false,
+    periodontalMaintenanceFrequency: '',
+    endostealImplantsCovered: false,
+    endostealImplantsCoveredAt: '',
+    boneReplacementGraftsCovered: false,
+    boneReplacementGraftsCoveredAt: '',
+    guidedTissueRegenerationCovered: false,
+    guidedTissueRegenerationCoveredAt: '',
+    implantAbutmentsCovered: false,
+    implantAbutmentsCoveredAt: '',
+    implantCrownsCovered: false,
+    implantCrownsCoveredAt: '',
+    implantPreDeterminationRequired: false,
+    orthodonticsCovered: false,
+    orthodonticsCoveredAt: '',
+    orthodonticsAgeLimitExists: false,
+    orthodonticsAgeLimit: '',
+    orthodonticsLifetimeMaxExists: false,
+    orthodonticsLifetimeMax: '',
+    nightguardsCovered: false,
+    nightguardsCoveredAt: '',
+    nitrousOxideCovered: false,
+    nitrousOxideCoveredAt: '',
+    crownsAndBridgesReplacement: '',
+    denturesReplacement: '',
+    missingToothClauseCovered: false,
+    additionalNotes: '',
+  };
+}